@@ -0,0 +1,162 @@
+/**
+ * Learn crop profiles from backend_agridom/Crop_recommendation.csv and write
+ * src/services/crop-recommendation-model.ts.
+ *
+ * Usage: npm run train:crop-recommender
+ *
+ * Folds are assigned by row order within each crop, so the output only depends on the CSV.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import Papa from 'papaparse';
+import {
+  CropProfile,
+  CropRecommendationModel,
+  FeatureStats,
+  recommendCrops,
+  SOIL_CLIMATE_FEATURES,
+  SoilClimateFeature,
+  SoilClimateInput
+} from '../src/utils/crop-recommendation.ts';
+
+const DATA_FILE = new URL('../backend_agridom/Crop_recommendation.csv', import.meta.url);
+const ARTIFACT_FILE = new URL('../src/services/crop-recommendation-model.ts', import.meta.url);
+
+const MODEL_VERSION = 1;
+const FOLDS = 5;
+
+interface CsvRow {
+  N: number;
+  P: number;
+  K: number;
+  temperature: number;
+  humidity: number;
+  ph: number;
+  rainfall: number;
+  label: string;
+}
+
+interface Sample {
+  label: string;
+  fold: number;
+  input: Record<SoilClimateFeature, number>;
+}
+
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const low = Math.floor(position);
+  const high = Math.ceil(position);
+  return sorted[low] + (sorted[high] - sorted[low]) * (position - low);
+};
+
+const featureStats = (values: number[]): FeatureStats => {
+  const m = mean(values);
+  return {
+    mean: m,
+    std: Math.sqrt(mean(values.map(value => (value - m) ** 2))),
+    low: quantile(values, 0.1),
+    high: quantile(values, 0.9)
+  };
+};
+
+const featureScales = (samples: Sample[]) => Object.fromEntries(SOIL_CLIMATE_FEATURES.map(feature =>
+  [feature, featureStats(samples.map(sample => sample.input[feature])).std])) as Record<SoilClimateFeature, number>;
+
+const buildProfiles = (samples: Sample[]): CropProfile[] => {
+  const labels = Array.from(new Set(samples.map(sample => sample.label))).sort();
+  return labels.map(label => {
+    const rows = samples.filter(sample => sample.label === label);
+    const stats = Object.fromEntries(SOIL_CLIMATE_FEATURES.map(feature =>
+      [feature, featureStats(rows.map(row => row.input[feature]))])) as Record<SoilClimateFeature, FeatureStats>;
+    return { label, samples: rows.length, stats };
+  });
+};
+
+const loadSamples = (text: string): Sample[] => {
+  const { data } = Papa.parse<CsvRow>(text, { header: true, dynamicTyping: true, skipEmptyLines: true });
+  const seen = new Map<string, number>();
+  return data
+    .filter(row => row.label)
+    .map(row => {
+      const index = seen.get(row.label) ?? 0;
+      seen.set(row.label, index + 1);
+      return {
+        label: row.label,
+        fold: index % FOLDS,
+        input: {
+          nitrogen: row.N,
+          phosphorus: row.P,
+          potassium: row.K,
+          temperature: row.temperature,
+          humidity: row.humidity,
+          ph: row.ph,
+          rainfall: row.rainfall
+        }
+      };
+    })
+    .filter(sample => SOIL_CLIMATE_FEATURES.every(feature => Number.isFinite(sample.input[feature])));
+};
+
+const crossValidate = (samples: Sample[]) => {
+  let top1 = 0;
+  let top3 = 0;
+  for (let fold = 0; fold < FOLDS; fold++) {
+    const training = samples.filter(sample => sample.fold !== fold);
+    const model: CropRecommendationModel = {
+      version: MODEL_VERSION,
+      source: '',
+      dataChecksum: '',
+      metrics: { samples: 0, top1: 0, top3: 0 },
+      scales: featureScales(training),
+      crops: buildProfiles(training)
+    };
+    samples.filter(sample => sample.fold === fold).forEach(sample => {
+      const ranking = recommendCrops(model, sample.input as SoilClimateInput).map(suggestion => suggestion.label);
+      if (ranking[0] === sample.label) top1++;
+      if (ranking.slice(0, 3).includes(sample.label)) top3++;
+    });
+  }
+  return { samples: samples.length, top1: top1 / samples.length, top3: top3 / samples.length };
+};
+
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' && !Number.isInteger(value) ? Number(value.toPrecision(5)) : value;
+
+const main = () => {
+  const text = readFileSync(DATA_FILE, 'utf8');
+  const samples = loadSamples(text);
+  const metrics = crossValidate(samples);
+  console.log(`${samples.length} rows, top-1 ${(metrics.top1 * 100).toFixed(1)} %, top-3 ${(metrics.top3 * 100).toFixed(1)} %`);
+
+  const model: CropRecommendationModel = {
+    version: MODEL_VERSION,
+    source: 'backend_agridom/Crop_recommendation.csv (N, P, K, temperature, humidity, pH, rainfall per crop)',
+    dataChecksum: fnv1a(text).toString(16).padStart(8, '0'),
+    metrics,
+    scales: featureScales(samples),
+    crops: buildProfiles(samples)
+  };
+
+  writeFileSync(ARTIFACT_FILE, [
+    '// Generated by scripts/train-crop-recommender.ts from backend_agridom/Crop_recommendation.csv. Do not edit.',
+    '// Regenerate with: npm run train:crop-recommender',
+    'import type { CropRecommendationModel } from \'@/utils/crop-recommendation\';',
+    '',
+    `export const cropRecommendationModel: CropRecommendationModel = ${JSON.stringify(model, roundNumbers, 2)};`,
+    ''
+  ].join('\n'));
+  console.log(`Wrote ${ARTIFACT_FILE.pathname}`);
+};
+
+main();
@@ -0,0 +1,251 @@
+/**
+ * Train the predict-yield model on backend_agridom/yield_df.csv and write
+ * supabase/functions/predict-yield/model-artifact.ts.
+ *
+ * Usage: npm run train:yield-model
+ *
+ * The output only depends on the CSV: folds come from a hash of the country name,
+ * so re-running on the same data produces the same artifact.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import Papa from 'papaparse';
+import {
+  CROP_SOURCES,
+  CropModel,
+  cropFeatures,
+  FEATURE_NAMES,
+  YieldModel
+} from '../supabase/functions/_shared/yield-model.ts';
+
+const DATA_FILE = new URL('../backend_agridom/yield_df.csv', import.meta.url);
+const ARTIFACT_FILE = new URL('../supabase/functions/predict-yield/model-artifact.ts', import.meta.url);
+
+const MODEL_VERSION = 1;
+const FOLDS = 5;
+const LAMBDAS = [0.01, 0.1, 1, 10, 100, 1000];
+const INTERVAL_LEVEL = 0.9;
+
+interface CsvRow {
+  Area: string;
+  Item: string;
+  Year: number;
+  'hg/ha_yield': number;
+  average_rain_fall_mm_per_year: number;
+  avg_temp: number;
+}
+
+interface Sample {
+  country: string;
+  rainfall: number;
+  temperature: number;
+  /** t/ha */
+  yield: number;
+}
+
+interface Fit {
+  means: number[];
+  scales: number[];
+  intercept: number;
+  coefficients: number[];
+}
+
+const fnv1a = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const quantile = (values: number[], q: number) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const low = Math.floor(position);
+  const high = Math.ceil(position);
+  return sorted[low] + (sorted[high] - sorted[low]) * (position - low);
+};
+
+/** Solve A x = b by Gaussian elimination with partial pivoting */
+const solve = (matrix: number[][], vector: number[]): number[] => {
+  const n = vector.length;
+  const a = matrix.map((row, i) => [...row, vector[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k <= n; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+  const x = new Array<number>(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = a[row][n];
+    for (let k = row + 1; k < n; k++) sum -= a[row][k] * x[k];
+    x[row] = sum / a[row][row];
+  }
+  return x;
+};
+
+/** Ridge regression of ln(yield) on standardized features, intercept left unpenalized */
+const fitRidge = (samples: Sample[], lambda: number): Fit => {
+  const features = samples.map(sample => cropFeatures(sample.rainfall, sample.temperature));
+  const targets = samples.map(sample => Math.log(sample.yield));
+  const size = FEATURE_NAMES.length;
+
+  const means = Array.from({ length: size }, (_, j) => mean(features.map(row => row[j])));
+  const scales = means.map((m, j) => Math.sqrt(mean(features.map(row => (row[j] - m) ** 2))) || 1);
+  const standardized = features.map(row => row.map((value, j) => (value - means[j]) / scales[j]));
+  const intercept = mean(targets);
+
+  const gram = Array.from({ length: size }, (_, i) =>
+    Array.from({ length: size }, (_, j) =>
+      standardized.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? lambda : 0)));
+  const moments = Array.from({ length: size }, (_, i) =>
+    standardized.reduce((sum, row, k) => sum + row[i] * (targets[k] - intercept), 0));
+
+  return { means, scales, intercept, coefficients: solve(gram, moments) };
+};
+
+const predictLog = (fit: Fit, sample: Sample) =>
+  cropFeatures(sample.rainfall, sample.temperature).reduce(
+    (sum, value, j) => sum + fit.coefficients[j] * ((value - fit.means[j]) / fit.scales[j]),
+    fit.intercept
+  );
+
+/** Out-of-fold ln(yield) predictions, whole countries held out together */
+const crossValidate = (samples: Sample[], lambda: number): number[] => {
+  const folds = samples.map(sample => fnv1a(sample.country) % FOLDS);
+  const predictions = new Array<number>(samples.length);
+  for (let fold = 0; fold < FOLDS; fold++) {
+    const training = samples.filter((_, i) => folds[i] !== fold);
+    if (training.length === samples.length) continue;
+    const fit = fitRidge(training, lambda);
+    samples.forEach((sample, i) => {
+      if (folds[i] === fold) predictions[i] = predictLog(fit, sample);
+    });
+  }
+  return predictions;
+};
+
+const loadSamples = (): Map<string, Sample[]> => {
+  const text = readFileSync(DATA_FILE, 'utf8');
+  const { data } = Papa.parse<CsvRow>(text, { header: true, dynamicTyping: true, skipEmptyLines: true });
+
+  // The CSV repeats each country/crop/year once per temperature station: average them
+  const grouped = new Map<string, { row: CsvRow; temperatures: number[] }>();
+  data.forEach(row => {
+    if (!row.Area || !row.Item || !(row['hg/ha_yield'] > 0) || !(row.average_rain_fall_mm_per_year > 0)) return;
+    if (!Number.isFinite(row.avg_temp)) return;
+    const key = `${row.Area}|${row.Item}|${row.Year}`;
+    const group = grouped.get(key);
+    if (group) group.temperatures.push(row.avg_temp);
+    else grouped.set(key, { row, temperatures: [row.avg_temp] });
+  });
+
+  const byItem = new Map<string, Sample[]>();
+  grouped.forEach(({ row, temperatures }) => {
+    const samples = byItem.get(row.Item) ?? [];
+    samples.push({
+      country: row.Area,
+      rainfall: row.average_rain_fall_mm_per_year,
+      temperature: mean(temperatures),
+      yield: row['hg/ha_yield'] / 10000
+    });
+    byItem.set(row.Item, samples);
+  });
+  return byItem;
+};
+
+const trainCrop = (item: string, samples: Sample[]): CropModel => {
+  const logs = samples.map(sample => Math.log(sample.yield));
+  const scored = LAMBDAS.map(lambda => {
+    const predictions = crossValidate(samples, lambda);
+    const mse = mean(predictions.map((prediction, i) => (prediction - logs[i]) ** 2));
+    return { lambda, predictions, mse };
+  });
+  const best = scored.reduce((a, b) => (b.mse < a.mse ? b : a));
+
+  const residuals = best.predictions.map((prediction, i) => logs[i] - prediction);
+  const yields = samples.map(sample => sample.yield);
+  // Duan's smearing estimate corrects the bias of exponentiating a mean log yield
+  const smearing = mean(residuals.map(Math.exp));
+  const predicted = best.predictions.map(prediction => Math.exp(prediction) * smearing);
+  const yieldMean = mean(yields);
+  const ssRes = yields.reduce((sum, actual, i) => sum + (actual - predicted[i]) ** 2, 0);
+  const ssTot = yields.reduce((sum, actual) => sum + (actual - yieldMean) ** 2, 0);
+
+  const fit = fitRidge(samples, best.lambda);
+  const rainfalls = samples.map(sample => sample.rainfall);
+  const temperatures = samples.map(sample => sample.temperature);
+  const tail = (1 - INTERVAL_LEVEL) / 2;
+
+  return {
+    item,
+    samples: samples.length,
+    countries: new Set(samples.map(sample => sample.country)).size,
+    lambda: best.lambda,
+    means: fit.means,
+    scales: fit.scales,
+    intercept: fit.intercept,
+    coefficients: fit.coefficients,
+    residuals: { lower: quantile(residuals, tail), upper: quantile(residuals, 1 - tail) },
+    smearing,
+    yieldQuartiles: [quantile(yields, 0.25), quantile(yields, 0.5), quantile(yields, 0.75)],
+    domain: {
+      rainfall: [Math.min(...rainfalls), Math.max(...rainfalls)],
+      temperature: [Math.min(...temperatures), Math.max(...temperatures)]
+    },
+    metrics: {
+      r2: 1 - ssRes / ssTot,
+      mae: mean(yields.map((actual, i) => Math.abs(actual - predicted[i]))),
+      withinQuarter: mean(yields.map((actual, i) => (Math.abs(predicted[i] / actual - 1) <= 0.25 ? 1 : 0)))
+    }
+  };
+};
+
+const roundNumbers = (_key: string, value: unknown) =>
+  typeof value === 'number' && !Number.isInteger(value) ? Number(value.toPrecision(6)) : value;
+
+const main = () => {
+  const byItem = loadSamples();
+  const items = Array.from(new Set(Object.values(CROP_SOURCES).map(source => source.item).filter(Boolean))).sort();
+
+  const crops: Record<string, CropModel> = {};
+  items.forEach(item => {
+    const samples = byItem.get(item);
+    if (!samples?.length) throw new Error(`No rows for "${item}" in ${DATA_FILE.pathname}`);
+    crops[item] = trainCrop(item, samples);
+    const { metrics, lambda } = crops[item];
+    console.log(
+      `${item.padEnd(22)} n=${String(samples.length).padStart(5)}  λ=${lambda}  R²=${metrics.r2.toFixed(2)}  `
+      + `MAE=${metrics.mae.toFixed(2)} t/ha  ±25%=${(metrics.withinQuarter * 100).toFixed(0)}%`
+    );
+  });
+
+  const model: YieldModel = {
+    version: MODEL_VERSION,
+    method: 'ridge-log-yield',
+    source: 'backend_agridom/yield_df.csv (FAO yields with annual rainfall and mean temperature)',
+    dataChecksum: fnv1a(readFileSync(DATA_FILE, 'utf8')).toString(16).padStart(8, '0'),
+    intervalLevel: INTERVAL_LEVEL,
+    crops
+  };
+
+  writeFileSync(ARTIFACT_FILE, [
+    '// Generated by scripts/train-yield-model.ts from backend_agridom/yield_df.csv. Do not edit.',
+    '// Regenerate with: npm run train:yield-model',
+    'import type { YieldModel } from "../_shared/yield-model.ts";',
+    '',
+    `export const yieldModel: YieldModel = ${JSON.stringify(model, roundNumbers, 2)};`,
+    ''
+  ].join('\n'));
+  console.log(`Wrote ${ARTIFACT_FILE.pathname}`);
+};
+
+main();
@@ -8,6 +8,7 @@ import ParcelsDetailsPage from "./pages/ParcelsDetailsPage";
 import CropsPage from "./pages/CropsPage";
 import InventoryPage from "./pages/InventoryPage";
 import FinancePage from "./pages/FinancePage";
+import WorkforcePage from "./pages/WorkforcePage";
 import StatsPage from "./pages/StatsPage";
 import SettingsPage from "./pages/SettingsPage";
 import NotFound from "./pages/NotFound";
@@ -25,6 +26,7 @@ const routes = [
   { path: "/cultures", element: <CropsPage /> },
   { path: "/inventaire", element: <InventoryPage /> },
   { path: "/finances", element: <FinancePage /> },
+  { path: "/equipe", element: <WorkforcePage /> },
   { path: "/statistiques", element: <StatisticsProvider><StatsPage /></StatisticsProvider> },
   { path: "/rapports", element: <Navigate to="/statistiques" replace /> },
   { path: "/parametres", element: <SettingsPage /> },
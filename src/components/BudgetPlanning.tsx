@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Card,
   CardContent,
@@ -35,58 +35,20 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
-
-interface BudgetItem {
-  id: number;
-  category: string;
-  planned: number;
-  actual: number;
-  color: string;
-}
-
-const INITIAL_BUDGET_DATA: BudgetItem[] = [
-  {
-    id: 1,
-    category: "Inputs",
-    planned: 25000,
-    actual: 22500,
-    color: "#4CAF50",
-  },
-  {
-    id: 2,
-    category: "Equipment",
-    planned: 30000,
-    actual: 32000,
-    color: "#2196F3",
-  },
-  { id: 3, category: "Labor", planned: 40000, actual: 39000, color: "#FFC107" },
-  { id: 4, category: "Fuel", planned: 12000, actual: 13500, color: "#F44336" },
-  {
-    id: 5,
-    category: "Maintenance",
-    planned: 8000,
-    actual: 7200,
-    color: "#9C27B0",
-  },
-  {
-    id: 6,
-    category: "Services",
-    planned: 15000,
-    actual: 14000,
-    color: "#00BCD4",
-  },
-  {
-    id: 7,
-    category: "Administrative",
-    planned: 10000,
-    actual: 9800,
-    color: "#FF9800",
-  },
-];
+import { useDataOperations } from "@/hooks/use-data-operations";
+import { getRepository } from "@/services/repository";
+import { budgetTable, timeEntryTable } from "@/services/farm-tables";
+import { isLaborBudgetLine, withLaborActuals } from "@/utils/workforce";
 
 const BudgetPlanning = () => {
-  const [budgetItems, setBudgetItems] =
-    useState<BudgetItem[]>(INITIAL_BUDGET_DATA);
+  const {
+    data: storedItems,
+    addItem: createBudgetItem,
+    updateItem: updateBudgetItem,
+    deleteItem: removeBudgetItem,
+  } = useDataOperations({ repository: getRepository(budgetTable), notifications: false });
+  const { data: timeEntries } = useDataOperations({ repository: getRepository(timeEntryTable), notifications: false });
+  const budgetItems = useMemo(() => withLaborActuals(storedItems, timeEntries), [storedItems, timeEntries]);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [newCategory, setNewCategory] = useState("");
   const [newPlanned, setNewPlanned] = useState("");
@@ -108,7 +70,7 @@ const BudgetPlanning = () => {
   }));
 
   // Handle adding new budget item
-  const handleAddBudgetItem = () => {
+  const handleAddBudgetItem = async () => {
     if (!newCategory || !newPlanned) {
       toast.error("Please fill in the required fields");
       return;
@@ -135,15 +97,16 @@ const BudgetPlanning = () => {
     ];
     const randomColor = colors[Math.floor(Math.random() * colors.length)];
 
-    const newItem: BudgetItem = {
-      id: Math.max(...budgetItems.map((item) => item.id), 0) + 1,
+    const created = await createBudgetItem({
       category: newCategory,
       planned: planned,
       actual: actual,
       color: randomColor,
-    };
+      year: parseInt(selectedYear),
+      period: selectedPeriod,
+    });
+    if (!created) return;
 
-    setBudgetItems([...budgetItems, newItem]);
     toast.success("Budget category added successfully");
     setShowAddDialog(false);
     setNewCategory("");
@@ -154,16 +117,14 @@ const BudgetPlanning = () => {
   // Handle updating actual amount
   const handleUpdateActual = (id: number, value: string) => {
     const actual = parseFloat(value);
-    if (isNaN(actual)) return;
+    if (isNaN(actual) || budgetItems.find((item) => item.id === id)?.actual === actual) return;
 
-    setBudgetItems(
-      budgetItems.map((item) => (item.id === id ? { ...item, actual } : item))
-    );
+    updateBudgetItem(id, { actual });
   };
 
   // Handle removing a budget item
-  const handleRemoveItem = (id: number) => {
-    setBudgetItems(budgetItems.filter((item) => item.id !== id));
+  const handleRemoveItem = async (id: number) => {
+    if (!(await removeBudgetItem(id))) return;
     toast.success("Budget category deleted");
   };
 
@@ -395,13 +356,22 @@ const BudgetPlanning = () => {
                         {item.planned.toLocaleString()} Ksh
                       </td>
                       <td className="text-right py-3 px-4">
-                        <Input
-                          className="w-28 text-right py-1 px-2 h-auto inline-block"
-                          value={item.actual}
-                          onChange={(e) =>
-                            handleUpdateActual(item.id, e.target.value)
-                          }
-                        />
+                        {isLaborBudgetLine(item) ? (
+                          <Input
+                            className="w-28 text-right py-1 px-2 h-auto inline-block"
+                            value={item.actual}
+                            title="Computed from the timesheets"
+                            readOnly
+                          />
+                        ) : (
+                          <Input
+                            className="w-28 text-right py-1 px-2 h-auto inline-block"
+                            defaultValue={item.actual}
+                            onBlur={(e) =>
+                              handleUpdateActual(item.id, e.target.value)
+                            }
+                          />
+                        )}
                         Ksh
                       </td>
                       <td className="text-right py-3 px-4">
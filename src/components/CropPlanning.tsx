@@ -1,8 +1,7 @@
-import React, { useState } from "react";
+import React, { useMemo, useState } from "react";
 import {
   Calendar as CalendarIcon,
-  ChevronLeft,
-  ChevronRight,
+  AlertTriangle,
   Plus,
   Search,
   Filter,
@@ -17,205 +16,24 @@ import {
 import { EditableField } from "./ui/editable-field";
 import { EditableTable, Column } from "./ui/editable-table";
 import { toast } from "sonner";
-
-// Define the string literal types first to ensure type safety
-type CropStatus = "growing" | "harvested" | "planned";
-type TaskPriority = "high" | "medium" | "low";
-
-// Mock data for crop planning - Adapté à l'agriculture en Guadeloupe
-const initialCropsData = [
-  {
-    id: 1,
-    name: "Sugar Cane",
-    variety: "R579",
-    parcel: "North Grande-Terre",
-    plantingDate: "2023-02-15",
-    harvestDate: "2024-02-15",
-    status: "growing" as CropStatus,
-    area: 15.5,
-  },
-  {
-    id: 2,
-    name: "Banana",
-    variety: "Poyo",
-    parcel: "South Basse-Terre",
-    plantingDate: "2023-04-10",
-    harvestDate: "2023-12-10",
-    status: "growing" as CropStatus,
-    area: 8.3,
-  },
-  {
-    id: 3,
-    name: "Pineapple",
-    variety: "Bouteille",
-    parcel: "windward coast",
-    plantingDate: "2023-05-20",
-    harvestDate: "2024-01-20",
-    status: "growing" as CropStatus,
-    area: 4.7,
-  },
-  {
-    id: 4,
-    name: "Yam",
-    variety: "Pacala",
-    parcel: "North Grande-Terre",
-    plantingDate: "2023-09-15",
-    harvestDate: "2024-03-15",
-    status: "planned" as CropStatus,
-    area: 5.2,
-  },
-  {
-    id: 5,
-    name: "Madeira",
-    variety: "Blanche",
-    parcel: "Marie-Galante",
-    plantingDate: "2023-04-01",
-    harvestDate: "2023-11-01",
-    status: "growing" as CropStatus,
-    area: 3.8,
-  },
-];
-
-// Tasks related to crops - Adapté au contexte guadeloupéen
-const initialCropTasks = [
-  {
-    id: 1,
-    cropId: 1,
-    title: "Fertilisation de la canne",
-    date: "2023-09-25",
-    completed: false,
-    priority: "high" as TaskPriority,
-  },
-  {
-    id: 2,
-    cropId: 2,
-    title: "Traitement contre la cercosporiose",
-    date: "2023-09-28",
-    completed: false,
-    priority: "medium" as TaskPriority,
-  },
-  {
-    id: 3,
-    cropId: 3,
-    title: "Inspection croissance ananas",
-    date: "2023-09-30",
-    completed: false,
-    priority: "low" as TaskPriority,
-  },
-  {
-    id: 4,
-    cropId: 5,
-    title: "Désherbage parcelle madère",
-    date: "2023-10-05",
-    completed: false,
-    priority: "medium" as TaskPriority,
-  },
-  {
-    id: 5,
-    cropId: 1,
-    title: "Préparation coupe canne",
-    date: "2024-01-10",
-    completed: false,
-    priority: "high" as TaskPriority,
-  },
-];
-
-// Monthly calendar view mock data - Adapté à l'agriculture guadeloupéenne
-const monthlyEvents = [
-  {
-    date: "2023-09-25",
-    events: [
-      {
-        id: 1,
-        title: "Sugarcane fertilization",
-        crop: "Sugar Cane",
-        priority: "high",
-      },
-    ],
-  },
-  {
-    date: "2023-09-28",
-    events: [
-      {
-        id: 2,
-        title: "Treatment against cercosporiosis",
-        crop: "Banana",
-        priority: "medium",
-      },
-    ],
-  },
-  {
-    date: "2023-09-30",
-    events: [
-      {
-        id: 3,
-        title: "Pineapple growth inspection",
-        crop: "Pineapple",
-        priority: "low",
-      },
-    ],
-  },
-  {
-    date: "2023-10-05",
-    events: [
-      {
-        id: 4,
-        title: "Weeding of the Madeira plot",
-        crop: "Madeira",
-        priority: "medium",
-      },
-    ],
-  },
-  {
-    date: "2024-01-10",
-    events: [
-      {
-        id: 5,
-        title: "Sugarcane cutting preparation",
-        crop: "Sugar Cane",
-        priority: "high",
-      },
-    ],
-  },
-  {
-    date: "2023-12-10",
-    events: [{ id: 6, title: "Harvest", crop: "Banana", priority: "high" }],
-  },
-  {
-    date: "2024-01-20",
-    events: [{ id: 7, title: "Harvest", crop: "Pineapple", priority: "high" }],
-  },
-  {
-    date: "2023-11-01",
-    events: [{ id: 8, title: "Harvest", crop: "Madeira", priority: "medium" }],
-  },
-  {
-    date: "2024-02-15",
-    events: [
-      { id: 9, title: "Coupe canne", crop: "Sugar Cane", priority: "high" },
-    ],
-  },
-];
-
-interface CropData {
-  id: number;
-  name: string;
-  variety: string;
-  parcel: string;
-  plantingDate: string;
-  harvestDate: string;
-  status: CropStatus;
-  area: number;
-}
-
-interface CropTask {
-  id: number;
-  cropId: number;
-  title: string;
-  date: string;
-  completed: boolean;
-  priority: TaskPriority;
-}
+import { useDataOperations } from "@/hooks/use-data-operations";
+import { getRepository } from "@/services/repository";
+import { cropCycleTable } from "@/services/farm-tables";
+import { useTasks } from "@/hooks/use-tasks";
+import type { CropData, CropStatus, CropTask } from "@/types/farm";
+import {
+  CropDragEdge,
+  daysBetween,
+  formatDay,
+  overlappingCrops,
+  planningConflicts,
+  rescheduleCrop,
+  shiftCropTasks,
+} from "@/utils/crop-calendar";
+import CropCalendar from "./planning/CropCalendar";
+import CropTimeline from "./planning/CropTimeline";
+import TaskFormDialog from "./tasks/TaskFormDialog";
+import ApplyTemplateDialog from "./tasks/ApplyTemplateDialog";
 
 const CropCard = ({
   crop,
@@ -300,13 +118,13 @@ const CropCard = ({
         <div className="flex flex-col items-center p-2 bg-agri-primary/5 rounded-md">
           <span className="text-muted-foreground">Sowing</span>
           <span className="font-medium">
-            {new Date(crop.plantingDate).toLocaleDateString()}
+            {formatDay(crop.plantingDate)}
           </span>
         </div>
         <div className="flex flex-col items-center p-2 bg-agri-accent/5 rounded-md">
           <span className="text-muted-foreground">harvest</span>
           <span className="font-medium">
-            {new Date(crop.harvestDate).toLocaleDateString()}
+            {formatDay(crop.harvestDate)}
           </span>
         </div>
       </div>
@@ -333,21 +151,28 @@ const CropCard = ({
 };
 
 const CropPlanning = () => {
-  const [cropsData, setCropsData] = useState<CropData[]>(initialCropsData);
-  const [cropTasks, setCropTasks] = useState<CropTask[]>(initialCropTasks);
-  const [currentView, setCurrentView] = useState<"list" | "calendar">("list");
+  const {
+    data: cropsData,
+    addItem: createCrop,
+    updateItem: updateCrop,
+    deleteItem: removeCrop,
+  } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const {
+    tasks: cropTasks,
+    templates,
+    templateItems,
+    parcels,
+    workers,
+    addTask,
+    updateTask,
+    deleteTask: removeTask,
+    applyTemplate,
+  } = useTasks();
+  const [currentView, setCurrentView] = useState<"list" | "calendar" | "timeline">("list");
   const [searchTerm, setSearchTerm] = useState("");
-  const [currentMonth, setCurrentMonth] = useState(new Date());
   const [showTaskForm, setShowTaskForm] = useState(false);
   const [showCropForm, setShowCropForm] = useState(false);
   const [editingCrop, setEditingCrop] = useState<CropData | null>(null);
-  const [newTask, setNewTask] = useState<Partial<CropTask>>({
-    title: "",
-    cropId: 0,
-    date: new Date().toISOString().split("T")[0],
-    priority: "medium",
-    completed: false,
-  });
   const [newCrop, setNewCrop] = useState<Partial<CropData>>({
     name: "",
     variety: "",
@@ -367,47 +192,42 @@ const CropPlanning = () => {
       crop.parcel.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const generateCalendarDays = () => {
-    const year = currentMonth.getFullYear();
-    const month = currentMonth.getMonth();
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-    const firstDayOfMonth = new Date(year, month, 1).getDay();
-
-    const days = [];
-
-    for (let i = 0; i < firstDayOfMonth; i++) {
-      days.push({ day: "", date: null, events: [] });
-    }
+  const conflicts = useMemo(() => planningConflicts(cropsData, cropTasks), [cropsData, cropTasks]);
+  const conflictCropIds = useMemo(() => new Set(conflicts.flatMap((conflict) => conflict.cropIds)), [conflicts]);
+  const conflictTaskIds = useMemo(
+    () => new Set(conflicts.flatMap((conflict) => (conflict.taskId !== undefined ? [conflict.taskId] : []))),
+    [conflicts]
+  );
 
-    for (let day = 1; day <= daysInMonth; day++) {
-      const date = new Date(year, month, day).toISOString().split("T")[0];
-      const dayEvents =
-        monthlyEvents.find((event) => event.date === date)?.events || [];
-      days.push({ day, date, events: dayEvents });
+  const handleMoveTask = async (task: CropTask, date: string) => {
+    if (!(await updateTask(task.id, { date }))) return;
+    const crop = cropsData.find((item) => item.id === task.cropId);
+    if (crop && crop.status !== "harvested" && date > crop.harvestDate) {
+      toast.warning(`"${task.title}" is now after the ${crop.name} harvest`);
+    } else {
+      toast.success(`"${task.title}" moved to ${formatDay(date)}`);
     }
-
-    return days;
   };
 
-  const calendarDays = generateCalendarDays();
-
-  const nextMonth = () => {
-    setCurrentMonth(
-      new Date(currentMonth.getFullYear(), currentMonth.getMonth() + 1, 1)
-    );
-  };
-
-  const prevMonth = () => {
-    setCurrentMonth(
-      new Date(currentMonth.getFullYear(), currentMonth.getMonth() - 1, 1)
-    );
-  };
-
-  const formatMonth = () => {
-    return currentMonth.toLocaleDateString("fr-FR", {
-      month: "long",
-      year: "numeric",
-    });
+  const handleRescheduleCrop = async (crop: CropData, edge: CropDragEdge, date: string) => {
+    const dates = rescheduleCrop(crop, edge, date);
+    if (!dates) {
+      if (edge !== "move") toast.error("The harvest must come after the planting");
+      return;
+    }
+    if (!(await updateCrop(crop.id, dates))) return;
+    // Moving the whole season carries its open tasks along
+    const shifted = edge === "move" ? shiftCropTasks(cropTasks, crop.id, daysBetween(crop.plantingDate, dates.plantingDate)) : [];
+    await Promise.all(shifted.map(({ task, date: taskDate }) => updateTask(task.id, { date: taskDate })));
+
+    const overlaps = overlappingCrops({ ...crop, ...dates }, cropsData);
+    if (overlaps.length > 0) {
+      toast.warning(`${crop.name} now overlaps ${overlaps.map((other) => other.name).join(", ")} on ${crop.parcel}`);
+    } else {
+      toast.success(`${crop.name} rescheduled`, {
+        description: shifted.length > 0 ? `${shifted.length} task(s) moved with it` : undefined,
+      });
+    }
   };
 
   const handleEditCrop = (crop: CropData) => {
@@ -431,40 +251,34 @@ const CropPlanning = () => {
     setShowCropForm(true);
   };
 
-  const handleDeleteCrop = (id: number) => {
-    setCropsData(cropsData.filter((crop) => crop.id !== id));
-    setCropTasks(cropTasks.filter((task) => task.cropId !== id));
+  const handleDeleteCrop = async (id: number) => {
+    await Promise.all(
+      cropTasks.filter((task) => task.cropId === id).map((task) => removeTask(task.id))
+    );
+    if (!(await removeCrop(id))) return;
     toast.success("Crop deleted successfully");
   };
 
-  const handleSaveCrop = () => {
+  const handleSaveCrop = async () => {
     if (editingCrop) {
-      setCropsData(
-        cropsData.map((crop) =>
-          crop.id === editingCrop.id ? editingCrop : crop
-        )
-      );
+      if (!(await updateCrop(editingCrop.id, editingCrop))) return;
       toast.success("Crop updated successfully");
     } else if (newCrop.name && newCrop.parcel) {
-      const newId = Math.max(0, ...cropsData.map((c) => c.id)) + 1;
-      setCropsData([
-        ...cropsData,
-        {
-          id: newId,
-          name: newCrop.name || "",
-          variety: newCrop.variety || "",
-          parcel: newCrop.parcel || "",
-          plantingDate:
-            newCrop.plantingDate || new Date().toISOString().split("T")[0],
-          harvestDate:
-            newCrop.harvestDate ||
-            new Date(new Date().setMonth(new Date().getMonth() + 6))
-              .toISOString()
-              .split("T")[0],
-          status: (newCrop.status as CropStatus) || "planned",
-          area: newCrop.area || 0,
-        } as CropData,
-      ]);
+      const created = await createCrop({
+        name: newCrop.name || "",
+        variety: newCrop.variety || "",
+        parcel: newCrop.parcel || "",
+        plantingDate:
+          newCrop.plantingDate || new Date().toISOString().split("T")[0],
+        harvestDate:
+          newCrop.harvestDate ||
+          new Date(new Date().setMonth(new Date().getMonth() + 6))
+            .toISOString()
+            .split("T")[0],
+        status: (newCrop.status as CropStatus) || "planned",
+        area: newCrop.area || 0,
+      });
+      if (!created) return;
       toast.success("New crop added");
     } else {
       toast.error("Please fill in all required fields");
@@ -473,37 +287,15 @@ const CropPlanning = () => {
     setShowCropForm(false);
   };
 
-  const handleSaveTask = () => {
-    if (!newTask.title || !newTask.cropId) {
-      toast.error("Please fill in all required fields");
-      return;
-    }
-
-    const newId = Math.max(0, ...cropTasks.map((t) => t.id)) + 1;
-    const taskToAdd = {
-      id: newId,
-      cropId: Number(newTask.cropId),
-      title: newTask.title,
-      date: newTask.date || new Date().toISOString().split("T")[0],
-      completed: false,
-      priority: (newTask.priority as TaskPriority) || "medium",
-    } as CropTask;
-
-    setCropTasks([...cropTasks, taskToAdd]);
-    setShowTaskForm(false);
-    toast.success("New task added");
-  };
-
-  const handleTaskUpdate = (index: number, field: string, value: any) => {
-    const updatedTasks = [...cropTasks];
-    (updatedTasks[index] as any)[field] = value;
-    setCropTasks(updatedTasks);
+  const handleTaskUpdate = (index: number, field: keyof CropTask, value: CropTask[keyof CropTask]) => {
+    const task = cropTasks[index];
+    if (!task) return;
+    updateTask(task.id, { [field]: value });
   };
 
-  const handleTaskDelete = (index: number) => {
-    const updatedTasks = [...cropTasks];
-    updatedTasks.splice(index, 1);
-    setCropTasks(updatedTasks);
+  const handleTaskDelete = async (index: number) => {
+    const task = cropTasks[index];
+    if (!task || !(await removeTask(task.id))) return;
     toast.success("Task deleted");
   };
 
@@ -566,6 +358,22 @@ const CropPlanning = () => {
           >
             Calendar
           </button>
+          <button
+            className={`px-4 py-2 rounded-lg transition-colors ${
+              currentView === "timeline"
+                ? "bg-agri-primary text-white"
+                : "bg-muted text-foreground hover:bg-muted/80"
+            }`}
+            onClick={() => setCurrentView("timeline")}
+          >
+            Timeline
+          </button>
+          <ApplyTemplateDialog
+            crops={cropsData}
+            templates={templates}
+            templateItems={templateItems}
+            onApply={applyTemplate}
+          />
           <button
             className="inline-flex items-center justify-center px-4 py-2 bg-agri-primary text-white rounded-lg hover:bg-agri-primary-dark transition-colors whitespace-nowrap ml-2"
             onClick={() => setShowTaskForm(true)}
@@ -576,6 +384,20 @@ const CropPlanning = () => {
         </div>
       </header>
 
+      {conflicts.length > 0 && (
+        <div className="mb-6 border border-agri-danger/30 bg-agri-danger/5 rounded-xl p-4">
+          <h2 className="text-sm font-semibold flex items-center text-agri-danger mb-2">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            {conflicts.length} planning conflict{conflicts.length > 1 ? "s" : ""}
+          </h2>
+          <ul className="text-sm space-y-1 list-disc pl-5">
+            {conflicts.map((conflict) => (
+              <li key={`${conflict.kind}-${conflict.cropIds.join("-")}-${conflict.taskId ?? ""}`}>{conflict.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {currentView === "list" ? (
         <>
           <div className="flex gap-3 mb-6">
@@ -727,177 +549,36 @@ const CropPlanning = () => {
         </>
       ) : (
         <div className="border rounded-xl p-6 bg-white">
-          <div className="flex justify-between items-center mb-6">
-            <button
-              onClick={prevMonth}
-              className="p-2 hover:bg-muted rounded-full"
-            >
-              <ChevronLeft className="h-5 w-5" />
-            </button>
-            <h2 className="text-xl font-semibold capitalize">
-              {formatMonth()}
-            </h2>
-            <button
-              onClick={nextMonth}
-              className="p-2 hover:bg-muted rounded-full"
-            >
-              <ChevronRight className="h-5 w-5" />
-            </button>
-          </div>
-
-          <div className="grid grid-cols-7 gap-1">
-            {["Dim", "Lun", "Mar", "Mer", "Jeu", "Ven", "Sam"].map((day) => (
-              <div
-                key={day}
-                className="text-center font-medium text-sm py-2 text-muted-foreground"
-              >
-                {day}
-              </div>
-            ))}
-
-            {calendarDays.map((day, i) => (
-              <div
-                key={i}
-                className={`min-h-[100px] p-1 border ${
-                  day.day ? "bg-white" : "bg-muted/30"
-                } rounded-md`}
-              >
-                {day.day && (
-                  <>
-                    <div className="text-right text-sm p-1">{day.day}</div>
-                    <div className="space-y-1">
-                      {day.events.map((event) => (
-                        <div
-                          key={event.id}
-                          className={`text-xs p-1 rounded truncate ${
-                            event.priority === "high"
-                              ? "bg-agri-danger/10 text-agri-danger"
-                              : event.priority === "medium"
-                              ? "bg-agri-warning/10 text-agri-warning"
-                              : "bg-agri-success/10 text-agri-success"
-                          }`}
-                          title={`${event.title} - ${event.crop}`}
-                        >
-                          {event.title}
-                        </div>
-                      ))}
-                    </div>
-                  </>
-                )}
-              </div>
-            ))}
-          </div>
+          {currentView === "calendar" ? (
+            <CropCalendar
+              crops={cropsData}
+              tasks={cropTasks}
+              conflictCropIds={conflictCropIds}
+              conflictTaskIds={conflictTaskIds}
+              onMoveTask={handleMoveTask}
+              onRescheduleCrop={handleRescheduleCrop}
+            />
+          ) : (
+            <CropTimeline
+              crops={cropsData}
+              tasks={cropTasks}
+              conflictCropIds={conflictCropIds}
+              conflictTaskIds={conflictTaskIds}
+              onMoveTask={handleMoveTask}
+              onRescheduleCrop={handleRescheduleCrop}
+            />
+          )}
         </div>
       )}
 
-      {showTaskForm && (
-        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
-          <div className="bg-white rounded-xl p-6 max-w-md w-full">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-xl font-semibold">Add a task</h2>
-              <button
-                onClick={() => setShowTaskForm(false)}
-                className="p-1 hover:bg-muted rounded-full"
-              >
-                <X className="h-5 w-5" />
-              </button>
-            </div>
-
-            <form className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium mb-1">Title</label>
-                <input
-                  type="text"
-                  className="w-full px-3 py-2 border border-input rounded-md"
-                  placeholder="Nom de la tâche"
-                  value={newTask.title}
-                  onChange={(e) =>
-                    setNewTask({ ...newTask, title: e.target.value })
-                  }
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Culture
-                </label>
-                <select
-                  className="w-full px-3 py-2 border border-input rounded-md"
-                  value={newTask.cropId || ""}
-                  onChange={(e) =>
-                    setNewTask({ ...newTask, cropId: Number(e.target.value) })
-                  }
-                >
-                  <option value="">Select a crop</option>
-                  {cropsData.map((crop) => (
-                    <option key={crop.id} value={crop.id}>
-                      {crop.name} - {crop.parcel}
-                    </option>
-                  ))}
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium mb-1">Date</label>
-                <input
-                  type="date"
-                  className="w-full px-3 py-2 border border-input rounded-md"
-                  value={newTask.date}
-                  onChange={(e) =>
-                    setNewTask({ ...newTask, date: e.target.value })
-                  }
-                />
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium mb-1">
-                  Priority
-                </label>
-                <select
-                  className="w-full px-3 py-2 border border-input rounded-md"
-                  value={newTask.priority}
-                  onChange={(e) =>
-                    setNewTask({
-                      ...newTask,
-                      priority: e.target.value as "high" | "medium" | "low",
-                    })
-                  }
-                >
-                  <option value="low">Low</option>
-                  <option value="medium">Average</option>
-                  <option value="high">High</option>
-                </select>
-              </div>
-
-              <div>
-                <label className="block text-sm font-medium mb-1">Notes</label>
-                <textarea
-                  className="w-full px-3 py-2 border border-input rounded-md"
-                  rows={3}
-                  placeholder="Détails supplémentaires..."
-                />
-              </div>
-
-              <div className="flex justify-end space-x-3 pt-2">
-                <button
-                  type="button"
-                  onClick={() => setShowTaskForm(false)}
-                  className="px-4 py-2 text-sm text-foreground bg-muted rounded-md hover:bg-muted/80"
-                >
-                  Annuler
-                </button>
-                <button
-                  type="button"
-                  onClick={handleSaveTask}
-                  className="px-4 py-2 text-sm text-white bg-agri-primary rounded-md hover:bg-agri-primary-dark"
-                >
-                  Ajouter
-                </button>
-              </div>
-            </form>
-          </div>
-        </div>
-      )}
+      <TaskFormDialog
+        open={showTaskForm}
+        onOpenChange={setShowTaskForm}
+        crops={cropsData}
+        parcels={parcels}
+        workers={workers}
+        onSave={addTask}
+      />
 
       {showCropForm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
@@ -8,94 +8,27 @@ import { Textarea } from './ui/textarea';
 import { useToast } from "@/hooks/use-toast";
 import { useCRM } from '../contexts/CRMContext';
 import { toast } from 'sonner';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { cultureTable } from '@/services/farm-tables';
+import type { Culture, CultureType } from '@/types/farm';
 
-const initialCultureData = [
-  {
-    id: 1,
-    name: 'Igname',
-    scientificName: 'Dioscorea alata',
-    family: 'Dioscoreaceae',
-    origin: 'Southeast Asia',
-    growingSeason: 'May-December',
-    soilType: 'Clay, well-drained',
-    waterNeeds: 'Moderate',
-    fertilization: 'NPK 10-10-20',
-    pests: 'Weevils, mealybugs',
-    diseases: 'Anthracnose',
-    notes: 'Important crop in Guadeloupe, several local varieties',
-    type: 'tubers',
-    harvestPeriod: '7-9 months',
-    yieldPerHectare: '15-25 tons'
-  },
-  {
-    id: 2,
-    name: 'Madère',
-    scientificName: 'Colocasia esculenta',
-    family: 'Araceae',
-    origin: 'Southeast Asia',
-    growingSeason: 'Year-round',
-    soilType: 'Humid, rich in organic matter',
-    waterNeeds: 'High',
-    fertilization: 'NPK 14-14-14',
-    pests: 'Aphids',
-    diseases: 'Root rot',
-    notes: 'Grown in humid areas',
-    type: 'tubers',
-    harvestPeriod: '9-12 months',
-    yieldPerHectare: '10-15 tons'
-  },
-  {
-    id: 3,
-    name: 'Christophine',
-    scientificName: 'Sechium edule',
-    family: 'Cucurbitaceae',
-    origin: 'Central America',
-    growingSeason: 'Year-round',
-    soilType: 'Well-drained, rich',
-    waterNeeds: 'Moderate to high',
-    fertilization: 'NPK 12-12-17',
-    pests: 'Whiteflies, mites',
-    diseases: 'Downy mildew',
-    notes: 'Trellised crop',
-    type: 'vegetables',
-    harvestPeriod: '2-3 months',
-    yieldPerHectare: '30-40 tons'
-  },
-  {
-    id: 4,
-    name: 'Sugar Cane',
-    scientificName: 'Saccharum officinarum',
-    family: 'Poaceae',
-    origin: 'New Guinea',
-    growingSeason: 'Year-round',
-    soilType: 'Clay, deep',
-    waterNeeds: 'High',
-    fertilization: 'NPK 16-4-16',
-    pests: 'Stem borers, aphids',
-    diseases: 'Smut, rust',
-    notes: 'Main economic crop of Guadeloupe',
-    type: 'cash',
-    harvestPeriod: '11-13 months',
-    yieldPerHectare: '70-100 tons'
-  },
-  {
-    id: 5,
-    name: 'Banana',
-    scientificName: 'Musa paradisiaca',
-    family: 'Musaceae',
-    origin: 'Southeast Asia',
-    growingSeason: 'Year-round',
-    soilType: 'Loamy, deep',
-    waterNeeds: 'High',
-    fertilization: 'NPK 14-4-28',
-    pests: 'Weevil, thrips',
-    diseases: 'Cercospora, fusarium',
-    notes: 'Mainly for export',
-    type: 'fruits',
-    harvestPeriod: '10-14 months',
-    yieldPerHectare: '30-60 tons'
-  }
-];
+const EMPTY_CULTURE: Omit<Culture, 'id'> = {
+  name: '',
+  scientificName: '',
+  family: '',
+  origin: '',
+  growingSeason: '',
+  soilType: '',
+  waterNeeds: '',
+  fertilization: '',
+  pests: '',
+  diseases: '',
+  notes: '',
+  type: 'vegetables',
+  harvestPeriod: '',
+  yieldPerHectare: ''
+};
 
 interface CultureDetailTableProps {
   showAddForm?: boolean;
@@ -111,26 +44,16 @@ export const CultureDetailTable = ({
   filterType = 'all'
 }: CultureDetailTableProps) => {
   const { toast: shadowToast } = useToast();
-  const [cultureData, setCultureData] = useState(initialCultureData);
+  const {
+    data: cultureData,
+    addItem: addCulture,
+    updateItem: updateCulture,
+    deleteItem: deleteCulture
+  } = useDataOperations({ repository: getRepository(cultureTable), notifications: false });
   const [isAddFormVisible, setIsAddFormVisible] = useState(false);
-  const [selectedCulture, setSelectedCulture] = useState<null | any>(null);
+  const [selectedCulture, setSelectedCulture] = useState<Culture | null>(null);
   const { exportModuleData } = useCRM();
-  const [newCulture, setNewCulture] = useState({
-    name: '',
-    scientificName: '',
-    family: '',
-    origin: '',
-    growingSeason: '',
-    soilType: '',
-    waterNeeds: '',
-    fertilization: '',
-    pests: '',
-    diseases: '',
-    notes: '',
-    type: 'vegetables',
-    harvestPeriod: '',
-    yieldPerHectare: ''
-  });
+  const [newCulture, setNewCulture] = useState<Omit<Culture, 'id'>>(EMPTY_CULTURE);
 
   const localShowAddForm = showAddForm !== undefined ? showAddForm : isAddFormVisible;
   const localSetShowAddForm = setShowAddForm || setIsAddFormVisible;
@@ -145,61 +68,44 @@ export const CultureDetailTable = ({
     return matchesSearch && culture.type === filterType;
   });
 
-  const handleUpdateCulture = (rowIndex: number, columnId: string, value: any) => {
-    const updatedData = [...cultureData];
-    const targetIndex = cultureData.findIndex(c => c.id === filteredCultures[rowIndex].id);
-    
-    if (targetIndex !== -1) {
-      updatedData[targetIndex] = {
-        ...updatedData[targetIndex],
-        [columnId]: value
-      };
-      setCultureData(updatedData);
-      
+  const handleUpdateCulture = async (rowIndex: number, columnId: string, value: string) => {
+    const culture = filteredCultures[rowIndex];
+    if (!culture) return;
+    const updated = await updateCulture(culture.id, { [columnId]: value });
+    if (updated) {
       shadowToast({
-        description: `Information updated for ${updatedData[targetIndex].name}`,
+        description: `Information updated for ${updated.name}`,
       });
     }
   };
 
-  const handleAddCulture = () => {
+  const handleAddCulture = async () => {
     if (!newCulture.name) {
       toast.error("Error", {
         description: "Crop name is required"
       });
       return;
     }
+    if (cultureData.some(culture => culture.name.toLowerCase() === newCulture.name.trim().toLowerCase())) {
+      toast.error("Error", {
+        description: `${newCulture.name} is already in the crop list`
+      });
+      return;
+    }
 
-    const newId = Math.max(...cultureData.map(c => c.id), 0) + 1;
-    setCultureData([...cultureData, { ...newCulture, id: newId }]);
+    const added = await addCulture({ ...newCulture, name: newCulture.name.trim() });
+    if (!added) return;
     localSetShowAddForm(false);
-    
-    setNewCulture({
-      name: '',
-      scientificName: '',
-      family: '',
-      origin: '',
-      growingSeason: '',
-      soilType: '',
-      waterNeeds: '',
-      fertilization: '',
-      pests: '',
-      diseases: '',
-      notes: '',
-      type: 'vegetables',
-      harvestPeriod: '',
-      yieldPerHectare: ''
-    });
+    setNewCulture(EMPTY_CULTURE);
     
     toast.success("Crop added", {
-      description: `${newCulture.name} has been added to the crop list`
+      description: `${added.name} has been added to the crop list`
     });
   };
 
-  const handleDeleteCulture = (rowIndex: number) => {
+  const handleDeleteCulture = async (rowIndex: number) => {
     const cultureToDelete = filteredCultures[rowIndex];
-    const updatedData = cultureData.filter(culture => culture.id !== cultureToDelete.id);
-    setCultureData(updatedData);
+    if (!cultureToDelete || !(await deleteCulture(cultureToDelete.id))) return;
     
     toast.success("Crop deleted", {
       description: `${cultureToDelete.name} has been removed from the list`
@@ -210,7 +116,26 @@ export const CultureDetailTable = ({
     setSelectedCulture(filteredCultures[rowIndex]);
   };
 
-  const downloadTechnicalSheet = async (culture: any) => {
+  const editSelected = (field: keyof Omit<Culture, 'id'>, value: string) => {
+    setSelectedCulture(current => current && { ...current, [field]: value });
+  };
+
+  // Detail edits are saved once, when the sheet is closed
+  const closeDetails = async () => {
+    if (!selectedCulture) return;
+    const stored = cultureData.find(culture => culture.id === selectedCulture.id);
+    const changes = Object.fromEntries(
+      Object.entries(selectedCulture).filter(([key, value]) => stored && stored[key as keyof Culture] !== value)
+    ) as Partial<Culture>;
+    setSelectedCulture(null);
+    if (stored && Object.keys(changes).length > 0 && await updateCulture(stored.id, changes)) {
+      shadowToast({
+        description: `Information updated for ${selectedCulture.name}`,
+      });
+    }
+  };
+
+  const downloadTechnicalSheet = async (culture: Culture) => {
     toast.info("Technical sheet generation", {
       description: `Preparing sheet for ${culture.name}`
     });
@@ -260,7 +185,7 @@ export const CultureDetailTable = ({
             <Button 
               variant="ghost"
               size="sm"
-              onClick={() => setSelectedCulture(null)}
+              onClick={closeDetails}
             >
               <X className="h-5 w-5" />
             </Button>
@@ -271,17 +196,7 @@ export const CultureDetailTable = ({
               <Label>Name</Label>
               <Input 
                 value={selectedCulture.name}
-                onChange={(e) => {
-                  const newName = e.target.value;
-                  setSelectedCulture({...selectedCulture, name: newName});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].name = newName;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('name', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -290,17 +205,7 @@ export const CultureDetailTable = ({
               <Label>Scientific Name</Label>
               <Input 
                 value={selectedCulture.scientificName}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, scientificName: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].scientificName = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('scientificName', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -309,17 +214,7 @@ export const CultureDetailTable = ({
               <Label>Crop Type</Label>
               <select 
                 value={selectedCulture.type}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, type: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].type = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('type', e.target.value as CultureType)}
                 className="w-full h-10 border border-input rounded-md px-3 mt-1"
               >
                 <option value="vegetables">Vegetables</option>
@@ -333,17 +228,7 @@ export const CultureDetailTable = ({
               <Label>Family</Label>
               <Input 
                 value={selectedCulture.family}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, family: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].family = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('family', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -352,17 +237,7 @@ export const CultureDetailTable = ({
               <Label>Origin</Label>
               <Input 
                 value={selectedCulture.origin}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, origin: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].origin = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('origin', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -371,17 +246,7 @@ export const CultureDetailTable = ({
               <Label>Growing Season</Label>
               <Input 
                 value={selectedCulture.growingSeason}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, growingSeason: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].growingSeason = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('growingSeason', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -390,17 +255,7 @@ export const CultureDetailTable = ({
               <Label>Harvest Period</Label>
               <Input 
                 value={selectedCulture.harvestPeriod}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, harvestPeriod: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].harvestPeriod = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('harvestPeriod', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -409,17 +264,7 @@ export const CultureDetailTable = ({
               <Label>Yield per Hectare</Label>
               <Input 
                 value={selectedCulture.yieldPerHectare}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, yieldPerHectare: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].yieldPerHectare = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('yieldPerHectare', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -428,17 +273,7 @@ export const CultureDetailTable = ({
               <Label>Soil Type</Label>
               <Input 
                 value={selectedCulture.soilType}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, soilType: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].soilType = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('soilType', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -447,17 +282,7 @@ export const CultureDetailTable = ({
               <Label>Water Needs</Label>
               <Input 
                 value={selectedCulture.waterNeeds}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, waterNeeds: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].waterNeeds = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('waterNeeds', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -466,17 +291,7 @@ export const CultureDetailTable = ({
               <Label>Fertilization</Label>
               <Input 
                 value={selectedCulture.fertilization}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, fertilization: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].fertilization = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('fertilization', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -487,17 +302,7 @@ export const CultureDetailTable = ({
               <Label>Pests</Label>
               <Input 
                 value={selectedCulture.pests}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, pests: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].pests = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('pests', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -506,17 +311,7 @@ export const CultureDetailTable = ({
               <Label>Diseases</Label>
               <Input 
                 value={selectedCulture.diseases}
-                onChange={(e) => {
-                  const newValue = e.target.value;
-                  setSelectedCulture({...selectedCulture, diseases: newValue});
-                  
-                  const updatedData = [...cultureData];
-                  const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                  if (index !== -1) {
-                    updatedData[index].diseases = newValue;
-                    setCultureData(updatedData);
-                  }
-                }}
+                onChange={(e) => editSelected('diseases', e.target.value)}
                 className="mt-1"
               />
             </div>
@@ -526,17 +321,7 @@ export const CultureDetailTable = ({
             <Label>Notes</Label>
             <Textarea 
               value={selectedCulture.notes}
-              onChange={(e) => {
-                const newValue = e.target.value;
-                setSelectedCulture({...selectedCulture, notes: newValue});
-                
-                const updatedData = [...cultureData];
-                const index = updatedData.findIndex(c => c.id === selectedCulture.id);
-                if (index !== -1) {
-                  updatedData[index].notes = newValue;
-                  setCultureData(updatedData);
-                }
-              }}
+              onChange={(e) => editSelected('notes', e.target.value)}
               className="mt-1"
               rows={3}
             />
@@ -545,7 +330,7 @@ export const CultureDetailTable = ({
           <div className="flex justify-end space-x-3 mt-5">
             <Button 
               variant="outline"
-              onClick={() => setSelectedCulture(null)}
+              onClick={closeDetails}
             >
               Fermer
             </Button>
@@ -638,7 +423,7 @@ export const CultureDetailTable = ({
                     id="type"
                     className="w-full h-10 border border-input rounded-md px-3 mt-1"
                     value={newCulture.type}
-                    onChange={(e) => setNewCulture({...newCulture, type: e.target.value})}
+                    onChange={(e) => setNewCulture({...newCulture, type: e.target.value as CultureType})}
                   >
                     <option value="vegetables">Vegetables</option>
                     <option value="fruits">Fruits</option>
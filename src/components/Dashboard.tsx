@@ -43,6 +43,11 @@ import { Input } from "./ui/input";
 import { Label } from "./ui/label";
 import { Select } from "./ui/select";
 import PageHeader from "./layout/PageHeader";
+import AlertsPanel from "./dashboard/AlertsPanel";
+import { useDiseaseRisk } from "@/hooks/use-disease-risk";
+import { useTasks } from "@/hooks/use-tasks";
+import { isoDay } from "@/utils/crop-calendar";
+import { dueLabel, openTasks } from "@/utils/task-engine";
 
 // Sample data for charts - Adapté pour la Guadeloupe
 const revenueData = [
@@ -63,24 +68,6 @@ const productionData = [
   { name: "Taro", value: 10 },
 ];
 
-// Task list adapté au contexte guadeloupéen
-const initialUpcomingTasks = [
-  { id: 1, title: "Harvest sugarcane", due: "Today", priority: "high" },
-  {
-    id: 2,
-    title: "Order banana seedlings",
-    due: "Tomorrow",
-    priority: "medium",
-  },
-  { id: 3, title: "Tractor maintenance", due: "28/08", priority: "low" },
-  {
-    id: 4,
-    title: "Irrigation of pineapple fields",
-    due: "30/08",
-    priority: "medium",
-  },
-];
-
 // Alerts pour les agriculteurs en Guadeloupe
 const initialAlerts = [
   { id: 1, message: "Low level of banana seedlings", type: "warning" },
@@ -128,9 +115,14 @@ const Dashboard = () => {
   const [alertsCount, setAlertsCount] = useState(3);
 
   // Tasks and alerts
-  const [upcomingTasks, setUpcomingTasks] = useState(initialUpcomingTasks);
+  const { tasks, updateTask, deleteTask } = useTasks();
+  const today = isoDay(new Date());
+  const upcomingTasks = openTasks(tasks)
+    .slice(0, 4)
+    .map((task) => ({ id: task.id, title: task.title, due: dueLabel(task.date, today), priority: task.priority }));
   const [alerts, setAlerts] = useState(initialAlerts);
   const [weatherAlerts, setWeatherAlerts] = useState(initialWeatherAlerts);
+  const { alerts: diseaseAlerts, dismissAlert } = useDiseaseRisk();
 
   // New alert dialog
   const [showAddAlertDialog, setShowAddAlertDialog] = useState(false);
@@ -203,35 +195,16 @@ const Dashboard = () => {
     }
   };
 
-  const handleSaveTask = (taskId: number) => {
+  const handleSaveTask = async (taskId: number) => {
     if (editedTaskTitle.trim() === "") return;
 
-    setUpcomingTasks(
-      upcomingTasks.map((task) =>
-        task.id === taskId ? { ...task, title: editedTaskTitle } : task
-      )
-    );
+    if (!(await updateTask(taskId, { title: editedTaskTitle.trim() }))) return;
     setEditingTask(null);
     toast.success("Task updated");
   };
 
-  const handleDeleteTask = (taskId: number) => {
-    setUpcomingTasks(upcomingTasks.filter((task) => task.id !== taskId));
-    toast.success("Task deleted");
-  };
-
-  // Alert management
-  const handleEditAlert = (id: number, message: string) => {
-    setAlerts(
-      alerts.map((alert) => (alert.id === id ? { ...alert, message } : alert))
-    );
-    toast.success("Updated alert");
-  };
-
-  const handleDeleteAlert = (id: number) => {
-    setAlerts(alerts.filter((alert) => alert.id !== id));
-    setAlertsCount((prev) => prev - 1);
-    toast.success("Alert deleted");
+  const handleDeleteTask = async (taskId: number) => {
+    if (await deleteTask(taskId)) toast.success("Task deleted");
   };
 
   // Weather alert management
@@ -397,7 +370,7 @@ const Dashboard = () => {
         <div className="stat-card card-hover">
           <p className="stat-label">Alerts</p>
           <div className="flex items-baseline justify-between mt-2">
-            <p className="stat-value">{alertsCount}</p>
+            <p className="stat-value">{alertsCount + diseaseAlerts.length}</p>
             <span className="text-agri-warning text-sm font-medium flex items-center">
               <AlertTriangle className="h-4 w-4 mr-1" /> Recent
             </span>
@@ -750,61 +723,13 @@ const Dashboard = () => {
         </div>
 
         {/* Alerts - Adapté à l'agriculture en Guadeloupe */}
-        <div className="dashboard-card card-hover">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="font-semibold">Alerts</h3>
-            <button className="text-xs text-agri-primary hover:underline">
-              Manage alerts
-            </button>
-          </div>
-
-          <div className="space-y-3">
-            {alerts.map((alert) => (
-              <div
-                key={alert.id}
-                className={`p-3 rounded-lg ${
-                  alert.type === "danger"
-                    ? "bg-agri-danger/10 border-l-4 border-agri-danger"
-                    : alert.type === "warning"
-                    ? "bg-agri-warning/10 border-l-4 border-agri-warning"
-                    : "bg-agri-info/10 border-l-4 border-agri-info"
-                }`}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex items-start flex-1">
-                    <AlertTriangle
-                      className={`h-5 w-5 mr-2 ${
-                        alert.type === "danger"
-                          ? "text-agri-danger"
-                          : alert.type === "warning"
-                          ? "text-agri-warning"
-                          : "text-agri-info"
-                      }`}
-                    />
-                    <EditableField
-                      value={alert.message}
-                      onSave={(value) =>
-                        handleEditAlert(alert.id, String(value))
-                      }
-                      className="text-sm"
-                    />
-                  </div>
-                  <button
-                    onClick={() => handleDeleteAlert(alert.id)}
-                    className="text-red-500 hover:text-red-700 p-1 rounded hover:bg-red-50"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
-                </div>
-              </div>
-            ))}
-            {alerts.length === 0 && (
-              <p className="text-center text-muted-foreground py-4">
-                No upcoming tasks
-              </p>
-            )}
-          </div>
-        </div>
+        <AlertsPanel
+          alerts={alerts}
+          setAlerts={setAlerts}
+          setAlertsCount={setAlertsCount}
+          diseaseAlerts={diseaseAlerts}
+          onDismissDiseaseAlert={dismissAlert}
+        />
       </div>
 
       {/* Add Weather Alert Dialog */}
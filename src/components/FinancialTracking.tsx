@@ -14,6 +14,9 @@ import { CalendarIcon, PlusCircle, Download, Printer, Trash2, FileText } from 'l
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import PageHeader from './layout/PageHeader';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { financialTransactionTable } from '@/services/farm-tables';
 
 // Define monthly data
 const monthlyData = [
@@ -42,16 +45,13 @@ const FinancialTracking = () => {
   const [title, setTitle] = useState('Suivi Financier');
   const [description, setDescription] = useState('Manage your income and expenses to optimize your farm profitability');
   
-  // State for transactions
-  const [transactions, setTransactions] = useState([
-    { id: 1, date: '2023-07-05', description: 'Vente de récolte', amount: 3200, category: 'Ventes', type: 'income' },
-    { id: 2, date: '2023-07-10', description: 'Achat d\'engrais', amount: 850, category: 'Fournitures', type: 'expense' },
-    { id: 3, date: '2023-07-12', description: 'Facture d\'électricité', amount: 320, category: 'Utilities', type: 'expense' },
-    { id: 4, date: '2023-07-15', description: 'Vente de bananes', amount: 1500, category: 'Ventes', type: 'income' },
-    { id: 5, date: '2023-07-20', description: 'Réparation tracteur', amount: 750, category: 'Maintenance', type: 'expense' },
-    { id: 6, date: '2023-07-25', description: 'Subvention agricole', amount: 4200, category: 'Subventions', type: 'income' },
-    { id: 7, date: '2023-07-28', description: 'Salaires employés', amount: 2800, category: 'Salaires', type: 'expense' },
-  ]);
+  // Transactions stored in Supabase
+  const {
+    data: transactions,
+    addItem: createTransaction,
+    updateItem: updateTransaction,
+    deleteItem: removeTransaction
+  } = useDataOperations({ repository: getRepository(financialTransactionTable), notifications: false });
   
   // Filter and stats
   const [categoryFilter, setCategoryFilter] = useState('all');
@@ -107,9 +107,8 @@ const FinancialTracking = () => {
     });
   
   // Handle form submission
-  const onSubmit = (data: z.infer<typeof transactionSchema>) => {
+  const onSubmit = async (data: z.infer<typeof transactionSchema>) => {
     const newTransaction = {
-      id: Math.max(...transactions.map(t => t.id), 0) + 1,
       date: data.date,
       description: data.description,
       amount: parseFloat(data.amount),
@@ -117,7 +116,7 @@ const FinancialTracking = () => {
       type: data.type
     };
     
-    setTransactions([newTransaction, ...transactions]);
+    if (!(await createTransaction(newTransaction))) return;
     setShowAddDialog(false);
     form.reset();
     
@@ -125,16 +124,15 @@ const FinancialTracking = () => {
   };
   
   // Handle delete transaction
-  const handleDeleteTransaction = (id: number) => {
-    setTransactions(transactions.filter(t => t.id !== id));
+  const handleDeleteTransaction = async (id: number) => {
+    if (!(await removeTransaction(id))) return;
     toast.success('Transaction deleted');
   };
   
   // Handle edit transaction
-  const handleUpdateTransaction = (id: number, field: string, value: any) => {
-    setTransactions(transactions.map(t => 
-      t.id === id ? { ...t, [field]: field === 'amount' ? parseFloat(value) : value } : t
-    ));
+  const handleUpdateTransaction = async (id: number, field: string, value: any) => {
+    const updated = await updateTransaction(id, { [field]: field === 'amount' ? parseFloat(value) : value });
+    if (!updated) return;
     toast.success('Transaction updated');
   };
   
@@ -14,6 +14,7 @@ import { EditableTable, Column } from "./ui/editable-table";
 import { Tractor, Carrot, ArrowUp, ArrowDown } from "lucide-react";
 import { useStatistics } from "../contexts/StatisticsContext";
 import PreviewPrintButton from "./common/PreviewPrintButton";
+import HarvestPredictionTracking from "./harvest/HarvestPredictionTracking";
 
 interface HarvestData {
   crop: string;
@@ -292,6 +293,8 @@ const GuadeloupeHarvestTracking = () => {
           className="border-none"
         />
       </div>
+
+      <HarvestPredictionTracking />
     </div>
   );
 };
@@ -19,6 +19,12 @@ import { toast } from 'sonner';
 import { Input } from './ui/input';
 import { useParams } from 'react-router-dom';
 import { Button } from './ui/button';
+import SuggestedCropsPanel from './parcels/SuggestedCropsPanel';
+import TaskFormDialog from './tasks/TaskFormDialog';
+import { useTasks } from '@/hooks/use-tasks';
+import type { CropTask, TaskPriority } from '@/types/farm';
+import { isoDay } from '@/utils/crop-calendar';
+import { taskState } from '@/utils/task-engine';
 
 interface ParcelDetail {
   id: string;
@@ -43,8 +49,8 @@ interface TaskData {
   task: string;
   dueDate: string;
   assignedTo: string;
-  priority: 'Basse' | 'Moyenne' | 'Élevée' | 'Urgente';
-  status: 'À faire' | 'En cours' | 'Terminée';
+  priority: 'Basse' | 'Moyenne' | 'Élevée';
+  status: 'À faire' | 'En retard' | 'Terminée';
 }
 
 const parcelData: ParcelDetail = {
@@ -83,55 +89,21 @@ const parcelData: ParcelDetail = {
   ]
 };
 
-const initialTasks: TaskData[] = [
-  { 
-    id: 1, 
-    task: 'Fertilisation de la canne', 
-    dueDate: '2023-09-25', 
-    assignedTo: 'Jean Dupont', 
-    priority: 'Élevée',
-    status: 'À faire'
-  },
-  { 
-    id: 2, 
-    task: 'Traitement contre la cercosporiose', 
-    dueDate: '2023-09-28', 
-    assignedTo: 'Marie Lambert', 
-    priority: 'Moyenne',
-    status: 'En cours'
-  },
-  { 
-    id: 3, 
-    task: 'Inspection croissance ananas', 
-    dueDate: '2023-09-30', 
-    assignedTo: 'Pierre Lafortune', 
-    priority: 'Basse',
-    status: 'À faire'
-  },
-  {
-    id: 4,
-    task: 'Désherbage parcelle madère',
-    dueDate: '2023-10-05',
-    assignedTo: 'Sophie Martin',
-    priority: 'Moyenne',
-    status: 'À faire'
-  },
-  {
-    id: 5,
-    task: 'Préparation coupe canne',
-    dueDate: '2024-01-10',
-    assignedTo: 'Jean Dupont',
-    priority: 'Élevée',
-    status: 'À faire'
-  }
-];
+const PRIORITY_LABELS: Record<TaskPriority, TaskData['priority']> = {
+  low: 'Basse',
+  medium: 'Moyenne',
+  high: 'Élevée'
+};
+
+const priorityFromLabel = (label: string): TaskPriority =>
+  (Object.keys(PRIORITY_LABELS) as TaskPriority[]).find(key => PRIORITY_LABELS[key] === label) ?? 'medium';
 
 const taskColumns: Column[] = [
   { id: 'task', header: 'Tâche', accessorKey: 'task', isEditable: true },
   { id: 'assignedTo', header: 'Assigné à', accessorKey: 'assignedTo', isEditable: true },
   { id: 'dueDate', header: 'Date', accessorKey: 'dueDate', isEditable: true, width: '120px' },
-  { id: 'priority', header: 'Priorité', accessorKey: 'priority', isEditable: true, width: '120px' },
-  { id: 'status', header: 'Statut', accessorKey: 'status', isEditable: true, width: '100px' }
+  { id: 'priority', header: 'Priorité', accessorKey: 'priority', type: 'select', options: ['Basse', 'Moyenne', 'Élevée'], isEditable: true, width: '120px' },
+  { id: 'status', header: 'Statut', accessorKey: 'status', type: 'select', options: ['À faire', 'Terminée'], isEditable: true, width: '100px' }
 ];
 
 const cropColumns: Column[] = [
@@ -145,7 +117,7 @@ const cropColumns: Column[] = [
 const GuadeloupeParcelDetail = () => {
   const { id } = useParams<{ id: string }>();
   const [parcel, setParcel] = useState<ParcelDetail>(parcelData);
-  const [tasks, setTasks] = useState<TaskData[]>(initialTasks);
+  const { tasks: allTasks, cropCycles, parcels, workers, addTask, updateTask, deleteTask, parcelFor } = useTasks();
   const [activeTab, setActiveTab] = useState<'info' | 'crops' | 'tasks'>('info');
   const [showImageUpload, setShowImageUpload] = useState(false);
 
@@ -157,15 +129,32 @@ const GuadeloupeParcelDetail = () => {
     toast.success(`${field} mis à jour`);
   };
 
-  const handleTaskUpdate = (rowIndex: number, columnId: string, value: any) => {
-    const updatedTasks = [...tasks];
-    const updatedTask = { ...updatedTasks[rowIndex] };
-    
-    (updatedTask as any)[columnId] = value;
-    updatedTasks[rowIndex] = updatedTask;
-    
-    setTasks(updatedTasks);
-    toast.success('Tâche mise à jour');
+  const parcelId = Number(id);
+  const today = isoDay(new Date());
+  const parcelTasks = allTasks
+    .filter(task => parcelFor(task)?.id === parcelId)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const tasks: TaskData[] = parcelTasks.map(task => ({
+    id: task.id,
+    task: task.title,
+    dueDate: task.date,
+    assignedTo: task.assignee ?? '',
+    priority: PRIORITY_LABELS[task.priority],
+    status: task.completed ? 'Terminée' : taskState(task, today) === 'overdue' ? 'En retard' : 'À faire'
+  }));
+
+  const handleTaskUpdate = async (rowIndex: number, columnId: string, value: unknown) => {
+    const task = parcelTasks[rowIndex];
+    const worker = workers.find(item => item.name === value);
+    const changes: Record<string, Partial<CropTask>> = {
+      task: { title: String(value) },
+      assignedTo: { assignee: worker?.name, workerId: worker?.id },
+      dueDate: { date: String(value) },
+      priority: { priority: priorityFromLabel(String(value)) },
+      status: { completed: value === 'Terminée' }
+    };
+    if (!changes[columnId]) return;
+    if (await updateTask(task.id, changes[columnId])) toast.success('Tâche mise à jour');
   };
 
   const handleCropUpdate = (rowIndex: number, columnId: string, value: any) => {
@@ -181,20 +170,18 @@ const GuadeloupeParcelDetail = () => {
     toast.success('Culture mise à jour');
   };
 
-  const handleAddTask = (newRow: Record<string, any>) => {
-    const newId = Math.max(0, ...tasks.map(t => t.id)) + 1;
-    
-    const newTask: TaskData = {
-      id: newId,
-      task: String(newRow.task || ''),
-      dueDate: String(newRow.dueDate || new Date().toISOString().split('T')[0]),
-      assignedTo: String(newRow.assignedTo || ''),
-      priority: (newRow.priority as TaskData['priority']) || 'Moyenne',
-      status: (newRow.status as TaskData['status']) || 'À faire'
-    };
-    
-    setTasks([...tasks, newTask]);
-    toast.success('Nouvelle tâche ajoutée');
+  const handleAddTask = async (newRow: Record<string, unknown>) => {
+    const created = await addTask({
+      task: {
+        cropId: 0,
+        parcelId,
+        title: String(newRow.task || 'Nouvelle tâche'),
+        date: String(newRow.dueDate || today),
+        completed: false,
+        priority: priorityFromLabel(String(newRow.priority || 'Moyenne'))
+      }
+    });
+    if (created) toast.success('Nouvelle tâche ajoutée');
   };
 
   const handleAddCrop = (newRow: Record<string, any>) => {
@@ -213,11 +200,8 @@ const GuadeloupeParcelDetail = () => {
     toast.success('Nouvelle culture ajoutée');
   };
 
-  const handleDeleteTask = (rowIndex: number) => {
-    const updatedTasks = [...tasks];
-    updatedTasks.splice(rowIndex, 1);
-    setTasks(updatedTasks);
-    toast.success('Tâche supprimée');
+  const handleDeleteTask = async (rowIndex: number) => {
+    if (await deleteTask(parcelTasks[rowIndex].id)) toast.success('Tâche supprimée');
   };
 
   const handleDeleteCrop = (rowIndex: number) => {
@@ -309,6 +293,8 @@ const GuadeloupeParcelDetail = () => {
               </div>
             </div>
             
+            <SuggestedCropsPanel parcelId={Number(id)} />
+            
             <div className="bg-muted/30 p-4 rounded-lg">
               <h3 className="text-sm font-medium text-muted-foreground mb-2">Système d'irrigation</h3>
               <EditableField
@@ -400,32 +386,37 @@ const GuadeloupeParcelDetail = () => {
         {activeTab === 'tasks' && (
           <div className="space-y-6">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-medium">Tâches à venir</h3>
-              <Button 
-                onClick={() => toast.success('Redirection vers la page des tâches')}
-                variant="outline"
-                className="text-sm"
-              >
-                Voir toutes les tâches
-              </Button>
+              <h3 className="text-lg font-medium">Tâches de la parcelle</h3>
+              <TaskFormDialog
+                crops={cropCycles}
+                parcels={parcels}
+                workers={workers}
+                onSave={addTask}
+                parcelId={Number.isNaN(parcelId) ? undefined : parcelId}
+                label="Planifier une tâche"
+              />
             </div>
             
             <EditableTable
               data={tasks}
-              columns={taskColumns}
+              columns={taskColumns.map(column => column.id !== 'assignedTo' ? column : {
+                ...column,
+                type: 'select',
+                options: ['', ...workers.filter(worker => worker.active).map(worker => worker.name)]
+              })}
               onUpdate={handleTaskUpdate}
               onDelete={handleDeleteTask}
               onAdd={handleAddTask}
               className="border-none"
+              sortable={false}
               actions={[
                 {
                   icon: <Check className="h-4 w-4 text-green-600" />,
                   label: "Marquer comme terminée",
-                  onClick: (rowIndex) => {
-                    toast.success(`Tâche "${tasks[rowIndex].task}" marquée comme terminée`);
-                    const updatedTasks = [...tasks];
-                    updatedTasks[rowIndex].status = 'Terminée';
-                    setTasks(updatedTasks);
+                  onClick: async (rowIndex) => {
+                    if (await updateTask(parcelTasks[rowIndex].id, { completed: true })) {
+                      toast.success(`Tâche "${tasks[rowIndex].task}" marquée comme terminée`);
+                    }
                   }
                 }
               ]}
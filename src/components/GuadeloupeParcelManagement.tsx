@@ -17,100 +17,15 @@ import {
   ArrowRight,
   Save
 } from 'lucide-react';
+import type { Polygon } from 'geojson';
 import { EditableField } from './ui/editable-field';
+import ParcelMap from './ParcelMap';
 import { toast } from 'sonner';
-
-// Types pour les parcelles adaptées à la Guadeloupe
-interface ParcelData {
-  id: number;
-  name: string;
-  area: number;
-  crop: string;
-  status: 'active' | 'inactive' | 'planned';
-  lastActivity: string;
-  soilType: string;
-  coordinates: { lat: number; lng: number };
-  irrigation: string;
-  plantingDate?: string;
-  harvestDate?: string;
-  owner?: string;
-  rainfall?: number;
-  notes?: string;
-}
-
-// Données de parcelles adaptées à l'agriculture en Guadeloupe
-const initialParcelData: ParcelData[] = [
-  { 
-    id: 1, 
-    name: 'Grande-Terre Nord', 
-    area: 12.5, 
-    crop: 'Canne à Sucre', 
-    status: 'active', 
-    lastActivity: '2023-08-15', 
-    soilType: 'Argilo-calcaire', 
-    coordinates: { lat: 16.3772, lng: -61.4483 },
-    irrigation: 'Goutte à goutte',
-    plantingDate: '2023-02-15',
-    harvestDate: '2024-02-15',
-    rainfall: 1200
-  },
-  { 
-    id: 2, 
-    name: 'Basse-Terre Sud', 
-    area: 8.3, 
-    crop: 'Banane', 
-    status: 'active', 
-    lastActivity: '2023-08-10', 
-    soilType: 'Volcanique', 
-    coordinates: { lat: 16.0220, lng: -61.7425 },
-    irrigation: 'Aspersion',
-    plantingDate: '2023-04-10',
-    harvestDate: '2023-12-10',
-    rainfall: 2500
-  },
-  { 
-    id: 3, 
-    name: 'Capesterre', 
-    area: 15.7, 
-    crop: 'Ananas', 
-    status: 'active', 
-    lastActivity: '2023-08-05', 
-    soilType: 'Volcanique', 
-    coordinates: { lat: 16.0504, lng: -61.5643 },
-    irrigation: 'Goutte à goutte',
-    plantingDate: '2023-05-20',
-    harvestDate: '2024-01-20',
-    rainfall: 2300
-  },
-  { 
-    id: 4, 
-    name: 'Marie-Galante', 
-    area: 10.2, 
-    crop: 'Madère', 
-    status: 'inactive', 
-    lastActivity: '2023-07-20', 
-    soilType: 'Sableux', 
-    coordinates: { lat: 15.9412, lng: -61.2983 },
-    irrigation: 'Manuel',
-    plantingDate: '2023-03-15',
-    harvestDate: '2023-11-01',
-    rainfall: 1100
-  },
-  { 
-    id: 5, 
-    name: 'Nord Grande-Terre', 
-    area: 6.8, 
-    crop: 'Igname', 
-    status: 'planned', 
-    lastActivity: '2023-08-01', 
-    soilType: 'Limono-argileux', 
-    coordinates: { lat: 16.3943, lng: -61.4789 },
-    irrigation: 'Aucune',
-    plantingDate: '2023-09-15',
-    harvestDate: '2024-03-15',
-    rainfall: 1400
-  },
-];
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { parcelTable } from '@/services/farm-tables';
+import type { ParcelData } from '@/types/farm';
+import { checkDeclaredArea } from '@/utils/geo';
 
 // Composant pour la représentation visuelle d'une parcelle
 const ParcelCard = ({ 
@@ -201,7 +116,10 @@ const ParcelCard = ({
 };
 
 const GuadeloupeParcelManagement = () => {
-  const [parcels, setParcels] = useState<ParcelData[]>(initialParcelData);
+  const { data: parcels, addItem: createParcel, updateItem: updateParcel } = useDataOperations({
+    repository: getRepository(parcelTable),
+    notifications: false
+  });
   const [selectedParcel, setSelectedParcel] = useState<ParcelData | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [filter, setFilter] = useState('all');
@@ -229,10 +147,8 @@ const GuadeloupeParcelManagement = () => {
     setIsEditMode(true);
   };
 
-  const handleAddParcel = () => {
-    const newId = Math.max(0, ...parcels.map(p => p.id)) + 1;
-    const newParcel: ParcelData = {
-      id: newId,
+  const handleAddParcel = async () => {
+    const newParcel = await createParcel({
       name: 'Nouvelle Parcelle',
       area: 0,
       crop: '',
@@ -241,21 +157,29 @@ const GuadeloupeParcelManagement = () => {
       soilType: '',
       coordinates: { lat: 16.2650, lng: -61.5510 }, // Coordonnées de Pointe-à-Pitre
       irrigation: '',
-    };
-    setParcels([...parcels, newParcel]);
+    });
+    if (!newParcel) return;
     setEditedParcel(newParcel);
     setSelectedParcel(newParcel);
     setIsEditMode(true);
     toast.success('Nouvelle parcelle créée');
   };
 
-  const handleSaveEdit = () => {
+  const handleSaveEdit = async () => {
     if (!editedParcel) return;
     
-    setParcels(parcels.map(p => p.id === editedParcel.id ? editedParcel : p));
-    setSelectedParcel(editedParcel);
+    const saved = await updateParcel(editedParcel.id, editedParcel);
+    if (!saved) return;
+    setSelectedParcel(saved);
     setIsEditMode(false);
     toast.success('Modifications enregistrées');
+
+    const check = saved.boundary ? checkDeclaredArea(saved.area, saved.boundary) : null;
+    if (check?.diverges) {
+      toast.warning('Surface à vérifier', {
+        description: `Le contour mesure ${check.measuredHectares.toFixed(2)} ha pour ${check.declaredHectares} ha déclarés`
+      });
+    }
   };
 
   const handleCancelEdit = () => {
@@ -285,6 +209,17 @@ const GuadeloupeParcelManagement = () => {
     if (!editedParcel) return;
     setEditedParcel({...editedParcel, status});
   };
+
+  const handleCoordinatesChange = (coordinates: { lat: number; lng: number }) => {
+    setEditedParcel(prev => prev && { ...prev, coordinates });
+  };
+
+  const handleBoundaryChange = (boundary: Polygon | undefined, centroid?: { lat: number; lng: number }) => {
+    setEditedParcel(prev => prev && { ...prev, boundary, coordinates: centroid ?? prev.coordinates });
+  };
+
+  const shownParcel = isEditMode && editedParcel ? editedParcel : selectedParcel;
+  const areaCheck = shownParcel?.boundary ? checkDeclaredArea(shownParcel.area, shownParcel.boundary) : null;
   
   return (
     <div className="p-6 animate-enter">
@@ -392,9 +327,16 @@ const GuadeloupeParcelManagement = () => {
               </div>
               
               <div className="p-4">
-                <div className="bg-muted h-[300px] rounded-lg flex items-center justify-center mb-4">
-                  <p className="text-muted-foreground">Carte de la parcelle</p>
-                  {/* Ici vous pourriez intégrer une vraie carte comme Google Maps, Leaflet, etc. */}
+                <div className="mb-4">
+                  <ParcelMap
+                    coordinates={shownParcel?.coordinates ?? selectedParcel.coordinates}
+                    parcelName={shownParcel?.name ?? selectedParcel.name}
+                    boundary={shownParcel?.boundary}
+                    declaredArea={shownParcel?.area}
+                    isEditing={isEditMode}
+                    onCoordinatesChange={handleCoordinatesChange}
+                    onBoundaryChange={handleBoundaryChange}
+                  />
                 </div>
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
@@ -498,6 +440,16 @@ const GuadeloupeParcelManagement = () => {
                             className="w-full px-3 py-2 border border-input rounded-md mt-1"
                           />
                         </div>
+                        <div>
+                          <label className="text-sm text-muted-foreground">Superficie déclarée (ha)</label>
+                          <input 
+                            type="number" 
+                            step="0.01"
+                            value={editedParcel?.area ?? ''} 
+                            onChange={(e) => handleInputChange('area', e.target.value)}
+                            className="w-full px-3 py-2 border border-input rounded-md mt-1"
+                          />
+                        </div>
                         <div>
                           <label className="text-sm text-muted-foreground">Pluviométrie annuelle (mm)</label>
                           <input 
@@ -526,6 +478,15 @@ const GuadeloupeParcelManagement = () => {
                           <span className="text-sm">Superficie:</span>
                           <span className="text-sm font-medium">{selectedParcel.area} ha</span>
                         </div>
+                        {areaCheck && (
+                          <div className="flex justify-between">
+                            <span className="text-sm">Surface mesurée:</span>
+                            <span className={`text-sm font-medium ${areaCheck.diverges ? 'text-agri-warning' : ''}`}>
+                              {areaCheck.measuredHectares.toFixed(2)} ha
+                              {areaCheck.diverges && ` (écart ${Math.round(areaCheck.difference * 100)}%)`}
+                            </span>
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -15,11 +15,9 @@ import {
   Area
 } from 'recharts';
 import { EditableField } from './ui/editable-field';
-import { EditableTable, Column } from './ui/editable-table';
-import { CloudRain, Droplets, Filter, Calendar, Download, PlusCircle, LineChart as LineChartIcon } from 'lucide-react';
+import { CloudRain, Droplets, Calendar, Download, LineChart as LineChartIcon } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
 import { Button } from './ui/button';
-import { Input } from './ui/input';
 import { 
   Select,
   SelectContent,
@@ -27,103 +25,63 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { 
-  Form,
-  FormControl,
-  FormField,
-  FormItem,
-  FormLabel,
-  FormMessage,
-} from "@/components/ui/form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
-import * as z from "zod";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import WeatherImportDialog from './weather/WeatherImportDialog';
+import WeatherStationsPanel from './weather/WeatherStationsPanel';
+import { useWeatherStations } from '@/hooks/use-weather-stations';
+import { monthlyRainfall } from '@/utils/weather-series';
+
+const MONTHS = ['Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin', 'Juillet', 'Août',
+  'Septembre', 'Octobre', 'Novembre', 'Décembre'];
 
-interface RainfallData {
-  id: number;
+interface RainfallRow {
+  /** YYYY-MM */
+  key: string;
   month: string;
   year: number;
+  station: string;
   amount: number;
-  location: string;
-  impact: 'Positive' | 'Neutral' | 'Negative';
-  notes?: string;
+  days: number;
+  complete: boolean;
 }
 
-const formSchema = z.object({
-  month: z.string().min(1, { message: "Le mois est requis" }),
-  year: z.coerce.number().min(2000, { message: "Année invalide" }).max(2100),
-  amount: z.coerce.number().min(0, { message: "Valeur invalide" }),
-  location: z.string().min(1, { message: "La région est requise" }),
-  impact: z.enum(['Positive', 'Neutral', 'Negative']),
-  notes: z.string().optional(),
-});
+const monthLabel = (key: string) => `${MONTHS[Number(key.slice(5, 7)) - 1]} ${key.slice(0, 4)}`;
+
+// Colours of the station series, in the order stations are listed
+const STATION_COLORS = ['#4CAF50', '#2196F3', '#FFC107', '#9C27B0', '#F44336', '#00BCD4'];
 
+/**
+ * Monthly rainfall of each weather station, totalled from its daily aggregates
+ */
 const GuadeloupeRainfallTracking = () => {
   const { toast } = useToast();
   const [title, setTitle] = useState('Suivi des Précipitations en Guadeloupe');
-  const [description, setDescription] = useState('Visualisation des données pluviométriques pour optimiser la gestion des cultures');
-  const [searchTerm, setSearchTerm] = useState('');
+  const [description, setDescription] = useState('Cumuls mensuels calculés à partir des observations des stations météo');
   const [filterYear, setFilterYear] = useState('all');
-  const [filterLocation, setFilterLocation] = useState('all');
+  const [filterStation, setFilterStation] = useState('all');
   const [chartType, setChartType] = useState('bar');
-  const [dialogOpen, setDialogOpen] = useState(false);
-  
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
-    defaultValues: {
-      month: "Janvier",
-      year: new Date().getFullYear(),
-      amount: 0,
-      location: "Basse-Terre",
-      impact: "Neutral",
-      notes: "",
-    },
-  });
-  
-  const [rainfallData, setRainfallData] = useState<RainfallData[]>([
-    { id: 1, month: 'Janvier', year: 2023, amount: 210, location: 'Basse-Terre', impact: 'Positive', notes: 'Bon démarrage pour les cultures' },
-    { id: 2, month: 'Février', year: 2023, amount: 180, location: 'Basse-Terre', impact: 'Positive' },
-    { id: 3, month: 'Mars', year: 2023, amount: 150, location: 'Basse-Terre', impact: 'Neutral' },
-    { id: 4, month: 'Avril', year: 2023, amount: 120, location: 'Basse-Terre', impact: 'Neutral' },
-    { id: 5, month: 'Mai', year: 2023, amount: 90, location: 'Basse-Terre', impact: 'Negative', notes: 'Début de sécheresse' },
-    { id: 6, month: 'Juin', year: 2023, amount: 60, location: 'Basse-Terre', impact: 'Negative' },
-    { id: 7, month: 'Juillet', year: 2023, amount: 45, location: 'Basse-Terre', impact: 'Negative' },
-    { id: 8, month: 'Août', year: 2023, amount: 70, location: 'Basse-Terre', impact: 'Neutral' },
-    { id: 9, month: 'Septembre', year: 2023, amount: 90, location: 'Basse-Terre', impact: 'Neutral' },
-    { id: 10, month: 'Octobre', year: 2023, amount: 140, location: 'Basse-Terre', impact: 'Positive' },
-    { id: 11, month: 'Novembre', year: 2023, amount: 190, location: 'Basse-Terre', impact: 'Positive' },
-    { id: 12, month: 'Décembre', year: 2023, amount: 230, location: 'Basse-Terre', impact: 'Positive' },
-    { id: 13, month: 'Janvier', year: 2023, amount: 90, location: 'Grande-Terre', impact: 'Neutral' },
-    { id: 14, month: 'Février', year: 2023, amount: 85, location: 'Grande-Terre', impact: 'Neutral' },
-    { id: 15, month: 'Mars', year: 2023, amount: 75, location: 'Grande-Terre', impact: 'Neutral' },
-    { id: 16, month: 'Avril', year: 2023, amount: 65, location: 'Grande-Terre', impact: 'Negative' },
-    { id: 17, month: 'Mai', year: 2023, amount: 50, location: 'Grande-Terre', impact: 'Negative' },
-    { id: 18, month: 'Juin', year: 2023, amount: 40, location: 'Grande-Terre', impact: 'Negative' },
-    { id: 19, month: 'Juillet', year: 2023, amount: 30, location: 'Grande-Terre', impact: 'Negative', notes: 'Sécheresse sévère' },
-    { id: 20, month: 'Août', year: 2023, amount: 45, location: 'Grande-Terre', impact: 'Negative' },
-    { id: 21, month: 'Septembre', year: 2023, amount: 60, location: 'Grande-Terre', impact: 'Neutral' },
-    { id: 22, month: 'Octobre', year: 2023, amount: 80, location: 'Grande-Terre', impact: 'Neutral' },
-    { id: 23, month: 'Novembre', year: 2023, amount: 95, location: 'Grande-Terre', impact: 'Positive' },
-    { id: 24, month: 'Décembre', year: 2023, amount: 110, location: 'Grande-Terre', impact: 'Positive' },
-    { id: 25, month: 'Janvier', year: 2024, amount: 215, location: 'Basse-Terre', impact: 'Positive' },
-    { id: 26, month: 'Février', year: 2024, amount: 185, location: 'Basse-Terre', impact: 'Positive' },
-    { id: 27, month: 'Mars', year: 2024, amount: 160, location: 'Basse-Terre', impact: 'Positive' },
-    { id: 28, month: 'Janvier', year: 2024, amount: 95, location: 'Grande-Terre', impact: 'Neutral' },
-    { id: 29, month: 'Février', year: 2024, amount: 90, location: 'Grande-Terre', impact: 'Neutral' },
-    { id: 30, month: 'Mars', year: 2024, amount: 80, location: 'Grande-Terre', impact: 'Neutral' },
-  ]);
-  
-  // Colonnes pour le tableau éditable
-  const columns: Column[] = [
-    { id: 'month', header: 'Mois', accessorKey: 'month', isEditable: true },
-    { id: 'year', header: 'Année', accessorKey: 'year', type: 'number', isEditable: true },
-    { id: 'amount', header: 'Précipitations (mm)', accessorKey: 'amount', type: 'number', isEditable: true },
-    { id: 'location', header: 'Région', accessorKey: 'location', isEditable: true },
-    { id: 'impact', header: 'Impact', accessorKey: 'impact', isEditable: true, options: ['Positive', 'Neutral', 'Negative'] },
-    { id: 'notes', header: 'Notes', accessorKey: 'notes', isEditable: true }
-  ];
+
+  const { stations, days, parcelStations, addStation, deleteStation, importDataset } = useWeatherStations();
+
+  const rainfallData: RainfallRow[] = stations.flatMap(station =>
+    monthlyRainfall(days.filter(day => day.stationId === station.id)).map(month => ({
+      key: month.month,
+      month: MONTHS[Number(month.month.slice(5, 7)) - 1],
+      year: Number(month.month.slice(0, 4)),
+      station: station.name,
+      amount: month.rain,
+      days: month.days,
+      complete: month.complete
+    }))
+  ).sort((a, b) => a.key.localeCompare(b.key) || a.station.localeCompare(b.station));
   
   // Handlers
   const handleTitleChange = (value: string | number) => {
@@ -144,100 +102,33 @@ const GuadeloupeRainfallTracking = () => {
   
   // Filtrer les données
   const filteredData = rainfallData.filter(item => {
-    const matchesSearch = 
-      item.month.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      item.location.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (item.notes?.toLowerCase().includes(searchTerm.toLowerCase()) || false);
-    
     const matchesYear = filterYear === 'all' || item.year === Number(filterYear);
-    const matchesLocation = filterLocation === 'all' || item.location === filterLocation;
-    
-    return matchesSearch && matchesYear && matchesLocation;
+    const matchesStation = filterStation === 'all' || item.station === filterStation;
+    return matchesYear && matchesStation;
   });
   
   // Préparer les données pour le graphique
-  const uniqueMonths = Array.from(new Set(filteredData.map(item => item.month)));
-  const uniqueLocations = Array.from(new Set(filteredData.map(item => item.location)));
+  const uniqueMonths = Array.from(new Set(filteredData.map(item => item.key)));
+  const uniqueStations = Array.from(new Set(filteredData.map(item => item.station)));
   
   // Créer les données agrégées par mois pour le graphique
-  const chartData = uniqueMonths.map(month => {
-    const dataPoint: any = { month };
+  const chartData = uniqueMonths.map(key => {
+    const dataPoint: Record<string, string | number | null> = { month: monthLabel(key) };
     
-    uniqueLocations.forEach(location => {
-      const matchingData = filteredData.find(item => item.month === month && item.location === location);
-      dataPoint[location] = matchingData ? matchingData.amount : 0;
+    uniqueStations.forEach(station => {
+      const matchingData = filteredData.find(item => item.key === key && item.station === station);
+      dataPoint[station] = matchingData ? matchingData.amount : null;
     });
     
     return dataPoint;
   });
   
-  // Gérer les mises à jour du tableau
-  const handleTableUpdate = (rowIndex: number, columnId: string, value: any) => {
-    const newData = [...rainfallData];
-    const itemId = filteredData[rowIndex].id;
-    const dataIndex = newData.findIndex(item => item.id === itemId);
-    
-    if (dataIndex !== -1) {
-      const updatedItem = { ...newData[dataIndex] };
-      
-      if (columnId === 'year' || columnId === 'amount') {
-        updatedItem[columnId] = Number(value);
-      } else {
-        updatedItem[columnId] = value;
-      }
-      
-      newData[dataIndex] = updatedItem;
-      setRainfallData(newData);
-      
-      toast({
-        title: "Données mises à jour",
-        description: `Enregistrement des précipitations pour ${updatedItem.month} ${updatedItem.year} mis à jour`
-      });
-    }
-  };
-  
-  // Gestion de suppression
-  const handleDeleteRow = (rowIndex: number) => {
-    const itemId = filteredData[rowIndex].id;
-    const newData = rainfallData.filter(item => item.id !== itemId);
-    setRainfallData(newData);
-    
-    toast({
-      title: "Données supprimées",
-      description: "Enregistrement supprimé avec succès"
-    });
-  };
-  
-  // Ajouter une nouvelle ligne
-  const onSubmit = (data: z.infer<typeof formSchema>) => {
-    const newId = Math.max(0, ...rainfallData.map(item => item.id)) + 1;
-    
-    const newRow: RainfallData = {
-      id: newId,
-      month: data.month,
-      year: data.year,
-      amount: data.amount,
-      location: data.location,
-      impact: data.impact,
-      notes: data.notes
-    };
-    
-    setRainfallData([...rainfallData, newRow]);
-    setDialogOpen(false);
-    form.reset();
-    
-    toast({
-      title: "Données ajoutées",
-      description: `Nouvel enregistrement ajouté pour ${newRow.month} ${newRow.year}`
-    });
-  };
-  
   // Télécharger les données
   const handleDownloadData = () => {
     // Créer un contenu CSV
-    const headers = columns.map(col => col.header).join(',');
-    const rows = rainfallData.map(item => {
-      return `${item.month},${item.year},${item.amount},${item.location},${item.impact},${item.notes || ''}`;
+    const headers = 'Mois,Année,Station,Précipitations (mm),Jours observés';
+    const rows = filteredData.map(item => {
+      return `${item.month},${item.year},${item.station},${item.amount},${item.days}`;
     }).join('\n');
     
     const csvContent = `${headers}\n${rows}`;
@@ -258,70 +149,19 @@ const GuadeloupeRainfallTracking = () => {
     });
   };
   
-  // Importer des données CSV
-  const handleImportData = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const contents = e.target?.result as string;
-      const lines = contents.split('\n');
-      
-      // Ignorer l'en-tête
-      const dataLines = lines.slice(1);
-      
-      const importedData: RainfallData[] = [];
-      let lastId = Math.max(0, ...rainfallData.map(item => item.id));
-      
-      dataLines.forEach(line => {
-        if (!line.trim()) return;
-        
-        const values = line.split(',');
-        if (values.length >= 5) {
-          lastId++;
-          importedData.push({
-            id: lastId,
-            month: values[0],
-            year: parseInt(values[1], 10),
-            amount: parseFloat(values[2]),
-            location: values[3],
-            impact: values[4] as 'Positive' | 'Neutral' | 'Negative',
-            notes: values[5]
-          });
-        }
-      });
-      
-      if (importedData.length > 0) {
-        setRainfallData([...rainfallData, ...importedData]);
-        toast({
-          title: "Import réussi",
-          description: `${importedData.length} enregistrements ont été importés avec succès`
-        });
-      } else {
-        toast({
-          title: "Aucune donnée importée",
-          description: "Le fichier ne contient pas de données valides"
-        });
-      }
-    };
-    
-    reader.readAsText(file);
-    event.target.value = ''; // Réinitialiser l'input
-  };
-  
-  // Calculer les statistiques
+  // Calculer les statistiques sur les mois suffisamment observés
   const calculateStatistics = () => {
-    if (filteredData.length === 0) return { avg: 0, max: 0, min: 0, total: 0 };
+    const complete = filteredData.filter(item => item.complete);
+    if (complete.length === 0) return { avg: 0, max: 0, min: 0, total: 0 };
     
-    const amounts = filteredData.map(item => item.amount);
+    const amounts = complete.map(item => item.amount);
     const sum = amounts.reduce((acc, val) => acc + val, 0);
     
     return {
       avg: Math.round(sum / amounts.length),
       max: Math.max(...amounts),
       min: Math.min(...amounts),
-      total: sum
+      total: Math.round(sum)
     };
   };
   
@@ -329,23 +169,9 @@ const GuadeloupeRainfallTracking = () => {
   
   // Années uniques pour le filtre
   const uniqueYears = Array.from(new Set(rainfallData.map(item => item.year))).sort((a, b) => b - a);
-  
-  // Obtenir la classe CSS pour l'impact
-  const getImpactClass = (impact: string) => {
-    switch (impact) {
-      case 'Positive': return 'text-agri-success';
-      case 'Negative': return 'text-agri-danger';
-      default: return 'text-muted-foreground';
-    }
-  };
 
-  // Couleurs pour le graphique
-  const locationColors: {[key: string]: string} = {
-    'Basse-Terre': '#4CAF50',
-    'Grande-Terre': '#2196F3',
-    'Marie-Galante': '#FFC107',
-    'Les Saintes': '#9C27B0'
-  };
+  const stationColor = (name: string) =>
+    STATION_COLORS[stations.findIndex(station => station.name === name) % STATION_COLORS.length] || '#8884d8';
   
   return (
     <div className="space-y-6">
@@ -400,18 +226,8 @@ const GuadeloupeRainfallTracking = () => {
           </div>
         </div>
         
-        {/* Filtres et recherche */}
+        {/* Filtres */}
         <div className="flex flex-wrap gap-4 mb-6 items-center">
-          <div className="relative flex-grow max-w-sm">
-            <Input
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              placeholder="Rechercher..."
-              className="pl-10"
-            />
-            <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          </div>
-          
           <Select value={filterYear} onValueChange={setFilterYear}>
             <SelectTrigger className="w-[150px]">
               <Calendar className="h-4 w-4 mr-2" />
@@ -425,182 +241,26 @@ const GuadeloupeRainfallTracking = () => {
             </SelectContent>
           </Select>
           
-          <Select value={filterLocation} onValueChange={setFilterLocation}>
-            <SelectTrigger className="w-[180px]">
+          <Select value={filterStation} onValueChange={setFilterStation}>
+            <SelectTrigger className="w-[200px]">
               <CloudRain className="h-4 w-4 mr-2" />
-              <SelectValue placeholder="Région" />
+              <SelectValue placeholder="Station" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">Toutes les régions</SelectItem>
-              {uniqueLocations.map(location => (
-                <SelectItem key={location} value={location}>{location}</SelectItem>
+              <SelectItem value="all">Toutes les stations</SelectItem>
+              {stations.map(station => (
+                <SelectItem key={station.id} value={station.name}>{station.name}</SelectItem>
               ))}
             </SelectContent>
           </Select>
           
           <div className="flex space-x-2 ml-auto">
-            <input
-              type="file"
-              id="csv-import"
-              accept=".csv"
-              className="hidden"
-              onChange={handleImportData}
-            />
-            <label htmlFor="csv-import">
-              <Button variant="outline" size="sm" asChild>
-                <span className="cursor-pointer">
-                  <PlusCircle className="h-4 w-4 mr-2" />
-                  Importer CSV
-                </span>
-              </Button>
-            </label>
+            <WeatherImportDialog stations={stations} onImport={importDataset} />
             
             <Button variant="outline" size="sm" onClick={handleDownloadData}>
               <Download className="h-4 w-4 mr-2" />
               Exporter
             </Button>
-            
-            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
-              <DialogTrigger asChild>
-                <Button>
-                  <PlusCircle className="h-4 w-4 mr-2" />
-                  Ajouter
-                </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Ajouter un nouvel enregistrement</DialogTitle>
-                </DialogHeader>
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="month"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Mois</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Sélectionner un mois" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {['Janvier', 'Février', 'Mars', 'Avril', 'Mai', 'Juin', 'Juillet', 'Août', 
-                                  'Septembre', 'Octobre', 'Novembre', 'Décembre'].map(month => (
-                                  <SelectItem key={month} value={month}>{month}</SelectItem>
-                                ))}
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={form.control}
-                        name="year"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Année</FormLabel>
-                            <FormControl>
-                              <Input type="number" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    
-                    <div className="grid grid-cols-2 gap-4">
-                      <FormField
-                        control={form.control}
-                        name="amount"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Précipitations (mm)</FormLabel>
-                            <FormControl>
-                              <Input type="number" step="0.1" {...field} />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                      
-                      <FormField
-                        control={form.control}
-                        name="location"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Région</FormLabel>
-                            <Select onValueChange={field.onChange} defaultValue={field.value}>
-                              <FormControl>
-                                <SelectTrigger>
-                                  <SelectValue placeholder="Sélectionner une région" />
-                                </SelectTrigger>
-                              </FormControl>
-                              <SelectContent>
-                                {uniqueLocations.map(location => (
-                                  <SelectItem key={location} value={location}>{location}</SelectItem>
-                                ))}
-                                <SelectItem value="Marie-Galante">Marie-Galante</SelectItem>
-                                <SelectItem value="Les Saintes">Les Saintes</SelectItem>
-                              </SelectContent>
-                            </Select>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-                    </div>
-                    
-                    <FormField
-                      control={form.control}
-                      name="impact"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Impact</FormLabel>
-                          <Select onValueChange={field.onChange} defaultValue={field.value}>
-                            <FormControl>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Sélectionner un impact" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="Positive">Positif</SelectItem>
-                              <SelectItem value="Neutral">Neutre</SelectItem>
-                              <SelectItem value="Negative">Négatif</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <FormField
-                      control={form.control}
-                      name="notes"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Notes</FormLabel>
-                          <FormControl>
-                            <Input {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    
-                    <div className="flex justify-end space-x-2">
-                      <Button variant="outline" type="button" onClick={() => setDialogOpen(false)}>
-                        Annuler
-                      </Button>
-                      <Button type="submit">Enregistrer</Button>
-                    </div>
-                  </form>
-                </Form>
-              </DialogContent>
-            </Dialog>
           </div>
         </div>
         
@@ -632,12 +292,12 @@ const GuadeloupeRainfallTracking = () => {
                 <YAxis />
                 <Tooltip formatter={(value) => [`${value} mm`, '']} />
                 <Legend />
-                {uniqueLocations.map(location => (
+                {uniqueStations.map(station => (
                   <Bar 
-                    key={location} 
-                    dataKey={location} 
-                    name={location} 
-                    fill={locationColors[location] || '#8884d8'} 
+                    key={station} 
+                    dataKey={station} 
+                    name={station} 
+                    fill={stationColor(station)} 
                   />
                 ))}
               </BarChart>
@@ -648,13 +308,13 @@ const GuadeloupeRainfallTracking = () => {
                 <YAxis />
                 <Tooltip formatter={(value) => [`${value} mm`, '']} />
                 <Legend />
-                {uniqueLocations.map(location => (
+                {uniqueStations.map(station => (
                   <Line 
-                    key={location} 
+                    key={station} 
                     type="monotone" 
-                    dataKey={location} 
-                    name={location} 
-                    stroke={locationColors[location] || '#8884d8'} 
+                    dataKey={station} 
+                    name={station} 
+                    stroke={stationColor(station)} 
                     strokeWidth={2}
                     activeDot={{ r: 8 }}
                   />
@@ -667,14 +327,14 @@ const GuadeloupeRainfallTracking = () => {
                 <YAxis />
                 <Tooltip formatter={(value) => [`${value} mm`, '']} />
                 <Legend />
-                {uniqueLocations.map(location => (
+                {uniqueStations.map(station => (
                   <Area 
-                    key={location} 
+                    key={station} 
                     type="monotone" 
-                    dataKey={location} 
-                    name={location} 
-                    fill={locationColors[location] || '#8884d8'} 
-                    stroke={locationColors[location] || '#8884d8'} 
+                    dataKey={station} 
+                    name={station} 
+                    fill={stationColor(station)} 
+                    stroke={stationColor(station)} 
                     fillOpacity={0.6}
                   />
                 ))}
@@ -683,15 +343,44 @@ const GuadeloupeRainfallTracking = () => {
           </ResponsiveContainer>
         </div>
         
-        {/* Tableau de données */}
-        <EditableTable
-          data={filteredData}
-          columns={columns}
-          onUpdate={handleTableUpdate}
-          onDelete={handleDeleteRow}
-          sortable={true}
-        />
+        {/* Cumuls mensuels */}
+        {filteredData.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Aucune donnée : déclarez une station puis importez ses observations.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mois</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead className="text-right">Précipitations (mm)</TableHead>
+                <TableHead className="text-right">Jours observés</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredData.map(item => (
+                <TableRow key={`${item.key}-${item.station}`}>
+                  <TableCell>{item.month} {item.year}</TableCell>
+                  <TableCell>{item.station}</TableCell>
+                  <TableCell className="text-right">{item.amount}</TableCell>
+                  <TableCell className={`text-right ${item.complete ? '' : 'text-amber-700'}`}>
+                    {item.days}{!item.complete && ' (partiel)'}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
       </div>
+
+      <WeatherStationsPanel
+        stations={stations}
+        days={days}
+        parcelStations={parcelStations}
+        onAdd={addStation}
+        onDelete={deleteStation}
+      />
     </div>
   );
 };
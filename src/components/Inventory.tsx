@@ -5,6 +5,7 @@ import {
   Plus, 
   ArrowUp, 
   ArrowDown,
+  ArrowLeftRight,
   ChevronRight,
   X,
   Check,
@@ -12,9 +13,12 @@ import {
   FileUp,
   FileDown,
   BarChart2,
+  Scale,
   Search,
   Filter,
-  Trash2
+  SlidersHorizontal,
+  Trash2,
+  Undo2
 } from 'lucide-react';
 import { EditableTable, Column } from './ui/editable-table';
 import { Button } from './ui/button';
@@ -31,9 +35,22 @@ import {
   downloadInventoryTemplate,
   InventoryItem 
 } from './inventory/ImportExportFunctions';
+import { useInventory } from '@/hooks/use-inventory';
+import type { InventoryTransaction, StockMovementType, ValuationMethod } from '@/types/farm';
+import { PHYTOSANITARY_CATEGORY } from '@/utils/phytosanitary';
+import { applicationRate } from '@/utils/production-costs';
+import {
+  MOVEMENT_LABELS,
+  VALUATION_LABELS,
+  balanceByLocation,
+  quantityChange,
+  valuateItem
+} from '@/utils/stock-ledger';
 import InventoryFilters from './inventory/InventoryFilters';
 import InventoryStats from './inventory/InventoryStats';
 import InventoryAlerts from './inventory/InventoryAlerts';
+import StockMovementForm from './inventory/StockMovementForm';
+import StockValuationReport from './inventory/StockValuationReport';
 import { 
   BarChart, 
   Bar, 
@@ -44,103 +61,16 @@ import {
   ResponsiveContainer 
 } from 'recharts';
 
-const initialInventoryData = [
-  { 
-    id: 1, 
-    name: 'Wheat Seeds', 
-    category: 'Seeds',
-    quantity: 500, 
-    unit: 'kg', 
-    minQuantity: 100, 
-    price: 2.5,
-    location: 'Main Warehouse',
-    lastUpdated: '2023-08-01'
-  },
-  { 
-    id: 2, 
-    name: 'NPK Fertilizer', 
-    category: 'Fertilizers',
-    quantity: 800, 
-    unit: 'kg', 
-    minQuantity: 200, 
-    price: 1.2,
-    location: 'Main Warehouse',
-    lastUpdated: '2023-07-15'
-  },
-  { 
-    id: 3, 
-    name: 'Herbicide RoundUp', 
-    category: 'Phytosanitary Products', 
-    quantity: 50, 
-    unit: 'L', 
-    minQuantity: 20, 
-    price: 15,
-    location: 'Secure Storage',
-    lastUpdated: '2023-08-10'
-  },
-  { 
-    id: 4, 
-    name: 'Diesel Fuel', 
-    category: 'Fuels',
-    quantity: 350, 
-    unit: 'L', 
-    minQuantity: 100, 
-    price: 1.8,
-    location: 'External Tank',
-    lastUpdated: '2023-08-18'
-  },
-  { 
-    id: 5, 
-    name: 'Corn Seeds', 
-    category: 'Seeds',
-    quantity: 80, 
-    unit: 'kg', 
-    minQuantity: 100, 
-    price: 4.5,
-    location: 'Main Warehouse',
-    lastUpdated: '2023-07-22'
-  },
-  { 
-    id: 6, 
-    name: 'Motor Oil', 
-    category: 'Lubricants',
-    quantity: 25, 
-    unit: 'L', 
-    minQuantity: 10, 
-    price: 5.2,
-    location: 'Workshop',
-    lastUpdated: '2023-06-30'
-  },
-  { 
-    id: 7, 
-    name: 'Baling Twine', 
-    category: 'Consumables',
-    quantity: 15, 
-    unit: 'rolls', 
-    minQuantity: 5, 
-    price: 25,
-    location: 'Equipment Warehouse',
-    lastUpdated: '2023-07-05'
-  }
-];
-
-const initialTransactionHistory = [
-  { id: 1, itemId: 1, type: 'out', quantity: 50, date: '2023-08-20', user: 'Jean Dupont', notes: 'North field sowing' },
-  { id: 2, itemId: 2, type: 'out', quantity: 200, date: '2023-08-18', user: 'Jean Dupont', notes: 'East field application' },
-  { id: 3, itemId: 4, type: 'in', quantity: 500, date: '2023-08-18', user: 'Marie Martin', notes: 'Monthly delivery' },
-  { id: 4, itemId: 3, type: 'out', quantity: 5, date: '2023-08-15', user: 'Jean Dupont', notes: 'South field application' },
-  { id: 5, itemId: 1, type: 'in', quantity: 200, date: '2023-08-10', user: 'Marie Martin', notes: 'Additional purchase' },
-  { id: 6, itemId: 6, type: 'out', quantity: 5, date: '2023-08-05', user: 'Pierre Leroy', notes: 'Tractor oil change' },
-];
+const categoryColors: Record<string, string> = {
+  'Seeds': '#4CAF50',
+  'Fertilizers': '#8D6E63',
+  'Phytosanitary Products': '#F44336',
+  'Fuels': '#2196F3',
+  'Lubricants': '#FFC107',
+  'Consumables': '#9C27B0'
+};
 
-const initialCategoryStats = [
-  { name: 'Seeds', value: 580, fill: '#4CAF50' },
-  { name: 'Fertilizers', value: 800, fill: '#8D6E63' },
-  { name: 'Phytosanitary', value: 50, fill: '#F44336' },
-  { name: 'Fuels', value: 350, fill: '#2196F3' },
-  { name: 'Lubricants', value: 25, fill: '#FFC107' },
-  { name: 'Consumables', value: 15, fill: '#9C27B0' }
-];
+const fallbackColors = ['#FF5722', '#3F51B5', '#00BCD4', '#CDDC39', '#795548', '#607D8B'];
 
 interface InventoryProps {
   dateRange?: DateRange;
@@ -148,9 +78,19 @@ interface InventoryProps {
 }
 
 const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSearchTerm }) => {
-  const [inventoryData, setInventoryData] = useState(initialInventoryData);
-  const [transactionHistory, setTransactionHistory] = useState(initialTransactionHistory);
-  const [categoryStats, setCategoryStats] = useState(initialCategoryStats);
+  const {
+    items: inventoryData,
+    movements: transactionHistory,
+    parcels,
+    crops,
+    tasks,
+    addItem: createItem,
+    updateItem,
+    removeItem,
+    addMovement,
+    reverse,
+    updateNotes
+  } = useInventory();
   
   const [searchTerm, setSearchTerm] = useState(externalSearchTerm || '');
   const [categoryFilter, setCategoryFilter] = useState('all');
@@ -165,21 +105,17 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
     minQuantity: 0,
     price: 0,
     location: '',
+    valuationMethod: 'weighted_average' as ValuationMethod,
     notes: ''
   });
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
-  const [view, setView] = useState<'list' | 'detail' | 'stats'>('list');
-  const [showTransactionForm, setShowTransactionForm] = useState<'in' | 'out' | null>(null);
-  const [newTransaction, setNewTransaction] = useState({
-    quantity: 0,
-    notes: '',
-    date: new Date().toISOString().split('T')[0]
-  });
+  const [view, setView] = useState<'list' | 'detail' | 'stats' | 'valuation'>('list');
+  const [showTransactionForm, setShowTransactionForm] = useState<StockMovementType | null>(null);
   
   const [deleteConfirmOpen, setDeleteConfirmOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<number | null>(null);
-  const [transactionToDelete, setTransactionToDelete] = useState<number | null>(null);
-  const [transactionDeleteConfirmOpen, setTransactionDeleteConfirmOpen] = useState(false);
+  const [movementToReverse, setMovementToReverse] = useState<InventoryTransaction | null>(null);
+  const [reverseConfirmOpen, setReverseConfirmOpen] = useState(false);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
   
@@ -203,6 +139,13 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
   
   const alerts = generateAlerts();
   
+  // Quantity, unit cost and value of each item, replayed from its ledger
+  const valuations = new Map(inventoryData.map(item => [item.id, valuateItem(transactionHistory, item)]));
+  const locations = [...new Set([
+    ...inventoryData.map(item => item.location),
+    ...transactionHistory.flatMap(movement => [movement.location, movement.toLocation ?? ''])
+  ])].filter(Boolean).sort();
+  
   const filteredItems = inventoryData
     .filter(item => {
       const matchesSearch = item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -252,19 +195,12 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
     const file = e.target.files?.[0];
     if (!file) return;
     
-    importInventoryFromCSV(file, (importedData) => {
-      const existingIds = new Set(inventoryData.map(item => item.id));
-      const newItems = importedData.filter(item => !existingIds.has(item.id));
-      const updatedItems = importedData.filter(item => existingIds.has(item.id));
-      
-      const updatedInventory = inventoryData.map(item => {
-        const updatedItem = updatedItems.find(update => update.id === item.id);
-        return updatedItem || item;
-      });
-      
-      setInventoryData([...updatedInventory, ...newItems]);
-      
-      updateCategoryStats([...updatedInventory, ...newItems]);
+    importInventoryFromCSV(file, async (importedData) => {
+      // Imported quantities of known items are posted as counts
+      for (const { id, ...item } of importedData) {
+        const existing = inventoryData.find(stock => stock.id === id);
+        await (existing ? updateItem(existing, item) : createItem(item));
+      }
     }, {
       onProgress: (progress) => {
         if (progress === 100) {
@@ -278,51 +214,29 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
     }
   };
   
-  const updateCategoryStats = (items: typeof inventoryData) => {
-    const categories: Record<string, number> = {};
-    const colors: Record<string, string> = {};
-    
-    categoryStats.forEach(stat => {
-      colors[stat.name] = stat.fill;
-    });
-    
-    items.forEach(item => {
-      if (!categories[item.category]) {
-        categories[item.category] = 0;
-        if (!colors[item.category]) {
-          colors[item.category] = getRandomColor();
-        }
-      }
-      categories[item.category] += item.quantity;
-    });
-    
-    const newStats = Object.entries(categories).map(([name, value]) => ({
-      name,
-      value,
-      fill: colors[name]
-    }));
-    
-    setCategoryStats(newStats);
-  };
+  const categoryStats = Object.entries(
+    inventoryData.reduce<Record<string, number>>((totals, item) => {
+      totals[item.category] = (totals[item.category] || 0) + item.quantity;
+      return totals;
+    }, {})
+  ).map(([name, value], index) => ({
+    name,
+    value,
+    fill: categoryColors[name] || fallbackColors[index % fallbackColors.length]
+  }));
   
   const confirmDeleteItem = (id: number) => {
     setItemToDelete(id);
     setDeleteConfirmOpen(true);
   };
   
-  const handleDeleteItem = () => {
+  const handleDeleteItem = async () => {
     if (itemToDelete === null) return;
     
     const itemToDeleteObj = inventoryData.find(item => item.id === itemToDelete);
     if (!itemToDeleteObj) return;
     
-    setInventoryData(inventoryData.filter(item => item.id !== itemToDelete));
-    
-    setCategoryStats(categoryStats.map(stat => 
-      stat.name === itemToDeleteObj.category 
-        ? { ...stat, value: Math.max(0, stat.value - itemToDeleteObj.quantity) }
-        : stat
-    ));
+    if (!(await removeItem(itemToDeleteObj))) return;
     
     if (selectedItem && selectedItem.id === itemToDelete) {
       setSelectedItem(null);
@@ -333,67 +247,42 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
     setDeleteConfirmOpen(false);
   };
   
-  const confirmDeleteTransaction = (id: number) => {
-    setTransactionToDelete(id);
-    setTransactionDeleteConfirmOpen(true);
+  const confirmReverseMovement = (movement: InventoryTransaction) => {
+    setMovementToReverse(movement);
+    setReverseConfirmOpen(true);
   };
   
-  const handleDeleteTransaction = () => {
-    if (transactionToDelete === null || !selectedItem) return;
-    
-    const transaction = transactionHistory.find(t => t.id === transactionToDelete);
-    if (!transaction) return;
+  const handleReverseMovement = async () => {
+    if (!movementToReverse) return;
     
-    const updatedTransactions = transactionHistory.filter(t => t.id !== transactionToDelete);
-    setTransactionHistory(updatedTransactions);
+    const reversed = await reverse(movementToReverse);
+    setMovementToReverse(null);
+    setReverseConfirmOpen(false);
+    if (!reversed) return;
     
-    const quantityChange = transaction.type === 'in' 
-      ? -transaction.quantity 
-      : transaction.quantity;
-    
-    handleUpdateItem(
-      selectedItem.id, 
-      'quantity', 
-      Math.max(0, selectedItem.quantity + quantityChange)
-    );
-    
-    toast.success("Transaction supprimée et stock ajusté");
-    setTransactionToDelete(null);
-    setTransactionDeleteConfirmOpen(false);
+    if (selectedItem && selectedItem.id === reversed.item.id) {
+      setSelectedItem(reversed.item);
+    }
+    toast.success("Mouvement annulé", {
+      description: "Un mouvement inverse a été ajouté au registre"
+    });
   };
   
-  const handleAddItem = () => {
+  const handleAddItem = async () => {
     if (!newItem.name || !newItem.category || !newItem.unit) {
       toast.error("Veuillez remplir tous les champs obligatoires");
       return;
     }
     
-    const newId = Math.max(...inventoryData.map(item => item.id), 0) + 1;
     const itemToAdd = {
       ...newItem,
-      id: newId,
       lastUpdated: new Date().toISOString().split('T')[0],
       quantity: Number(newItem.quantity),
       minQuantity: Number(newItem.minQuantity),
       price: Number(newItem.price)
     };
     
-    setInventoryData([...inventoryData, itemToAdd]);
-    
-    const existingCategoryStat = categoryStats.find(stat => stat.name === newItem.category);
-    if (existingCategoryStat) {
-      setCategoryStats(categoryStats.map(stat => 
-        stat.name === newItem.category 
-          ? { ...stat, value: stat.value + Number(newItem.quantity) }
-          : stat
-      ));
-    } else {
-      setCategoryStats([...categoryStats, { 
-        name: newItem.category, 
-        value: Number(newItem.quantity),
-        fill: getRandomColor()
-      }]);
-    }
+    if (!(await createItem(itemToAdd))) return;
     
     setShowAddForm(false);
     setNewItem({
@@ -404,107 +293,68 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
       minQuantity: 0,
       price: 0,
       location: '',
+      valuationMethod: 'weighted_average',
       notes: ''
     });
     
     toast.success(`${newItem.name} a été ajouté à l'inventaire`);
   };
   
-  const getRandomColor = () => {
-    const colors = ['#4CAF50', '#8D6E63', '#F44336', '#2196F3', '#FFC107', '#9C27B0', '#FF5722', '#3F51B5'];
-    return colors[Math.floor(Math.random() * colors.length)];
-  };
-  
-  const handleUpdateItem = (id: number, field: string, value: any) => {
-    setInventoryData(inventoryData.map(item => {
-      if (item.id !== id) return item;
-      
-      const updatedItem = { 
-        ...item, 
-        [field]: value,
-        lastUpdated: new Date().toISOString().split('T')[0] 
-      };
-      
-      if (selectedItem && selectedItem.id === id) {
-        setSelectedItem(updatedItem);
-      }
-      
-      return updatedItem;
-    }));
+  // A new quantity is not written over the stock: it is posted as a count adjustment
+  const handleUpdateItem = async (id: number, field: string, value: any) => {
+    const item = inventoryData.find(stock => stock.id === id);
+    if (!item) return;
     
-    if (field === 'quantity') {
-      const item = inventoryData.find(item => item.id === id);
-      if (item) {
-        const oldQuantity = item.quantity;
-        const newQuantity = value;
-        const diff = newQuantity - oldQuantity;
-        
-        setCategoryStats(categoryStats.map(stat => 
-          stat.name === item.category 
-            ? { ...stat, value: stat.value + diff }
-            : stat
-        ));
-      }
+    const updatedItem = await updateItem(item, {
+      [field]: value,
+      lastUpdated: new Date().toISOString().split('T')[0]
+    });
+    
+    if (updatedItem && selectedItem && selectedItem.id === id) {
+      setSelectedItem(updatedItem);
     }
   };
   
-  const handleAddTransaction = (type: 'in' | 'out') => {
+  const handleAddTransaction = (type: StockMovementType) => {
     setShowTransactionForm(type);
   };
   
-  const handleSubmitTransaction = () => {
-    if (!selectedItem || !showTransactionForm || newTransaction.quantity <= 0) {
-      toast.error("Veuillez spécifier une quantité valide");
-      return;
-    }
-    
-    const newId = Math.max(...transactionHistory.map(t => t.id), 0) + 1;
-    const transaction = {
-      id: newId,
-      itemId: selectedItem.id,
-      type: showTransactionForm,
-      quantity: newTransaction.quantity,
-      date: newTransaction.date,
-      user: 'Utilisateur actuel',
-      notes: newTransaction.notes
-    };
-    
-    setTransactionHistory([transaction, ...transactionHistory]);
-    
-    const updatedQuantity = showTransactionForm === 'in' 
-      ? selectedItem.quantity + newTransaction.quantity 
-      : Math.max(0, selectedItem.quantity - newTransaction.quantity);
-    
-    handleUpdateItem(selectedItem.id, 'quantity', updatedQuantity);
+  const handleSubmitMovement = async (draft: Omit<InventoryTransaction, 'id' | 'user'>) => {
+    const posted = await addMovement(draft);
+    if (!posted) return null;
     
-    setShowTransactionForm(null);
-    setNewTransaction({
-      quantity: 0,
-      notes: '',
-      date: new Date().toISOString().split('T')[0]
+    setSelectedItem(posted.item);
+    const change = quantityChange(draft);
+    toast.success(`${MOVEMENT_LABELS[draft.type]} enregistrée`, {
+      description: draft.type === 'transfer'
+        ? `${draft.quantity} ${posted.item.unit} de ${draft.location} vers ${draft.toLocation}`
+        : `${change > 0 ? '+' : ''}${change} ${posted.item.unit}, stock : ${posted.item.quantity} ${posted.item.unit}`
     });
-    
-    toast.success(`${newTransaction.quantity} ${selectedItem.unit} ${showTransactionForm === 'in' ? 'ajoutés' : 'retirés'} de l'inventaire`);
+    return posted;
   };
   
   const itemTransactions = selectedItem 
     ? transactionHistory.filter(t => t.itemId === selectedItem.id).sort((a, b) => 
-        new Date(b.date).getTime() - new Date(a.date).getTime()
+        b.date.localeCompare(a.date) || b.id - a.id
       )
     : [];
+  const reversedIds = new Set(transactionHistory.map(t => t.reversalOf).filter((id): id is number => id !== undefined));
+  const selectedValuation = selectedItem ? valuations.get(selectedItem.id) : undefined;
+  const selectedLocations = selectedItem ? [...balanceByLocation(transactionHistory, selectedItem.id)] : [];
 
   const inventoryColumns: Column[] = [
     { id: 'name', header: 'Item', accessorKey: 'name', isEditable: true },
     { id: 'category', header: 'Category', accessorKey: 'category', isEditable: true },
     { id: 'quantity', header: 'Quantity', accessorKey: 'quantity', type: 'number', isEditable: true },
-    { id: 'price', header: 'Unit Price', accessorKey: 'price', type: 'number', isEditable: true },
+    { id: 'unitCost', header: 'Unit Cost', accessorKey: 'unitCost', type: 'text', isEditable: false },
     { id: 'value', header: 'Valeur totale', accessorKey: 'value', type: 'text', isEditable: false },
     { id: 'status', header: 'Statut', accessorKey: 'status', type: 'text', isEditable: false },
   ];
 
   const tableData = filteredItems.map(item => ({
     ...item,
-    value: `${(item.quantity * item.price).toFixed(2)} €`,
+    unitCost: `${(valuations.get(item.id)?.unitCost ?? item.price).toFixed(2)} €`,
+    value: `${(valuations.get(item.id)?.value ?? 0).toFixed(2)} €`,
     status: item.quantity <= item.minQuantity 
       ? item.quantity < item.minQuantity * 0.5 ? 'critical' : 'warning'
       : 'normal'
@@ -547,6 +397,14 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
             <BarChart2 className="mr-2 h-4 w-4" />
             Statistiques
           </Button>
+          <Button 
+            variant={view === 'valuation' ? 'default' : 'outline'}
+            onClick={() => setView('valuation')}
+            className="px-4 py-2"
+          >
+            <Scale className="mr-2 h-4 w-4" />
+            Valorisation
+          </Button>
           <Button 
             variant="outline"
             onClick={handleExportData}
@@ -607,7 +465,7 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
               </div>
               <div className="flex flex-wrap gap-2">
                 <Button 
-                  onClick={() => handleAddTransaction('in')}
+                  onClick={() => handleAddTransaction('receipt')}
                   variant="outline"
                   className="bg-white/10 hover:bg-white/20 text-white border-none"
                 >
@@ -615,13 +473,29 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
                   <span className="hidden sm:inline">Entrée</span>
                 </Button>
                 <Button 
-                  onClick={() => handleAddTransaction('out')}
+                  onClick={() => handleAddTransaction('issue')}
                   variant="outline"
                   className="bg-white/10 hover:bg-white/20 text-white border-none"
                 >
                   <ArrowUp className="mr-1.5 h-4 w-4" />
                   <span className="hidden sm:inline">Sortie</span>
                 </Button>
+                <Button 
+                  onClick={() => handleAddTransaction('adjustment')}
+                  variant="outline"
+                  className="bg-white/10 hover:bg-white/20 text-white border-none"
+                >
+                  <SlidersHorizontal className="mr-1.5 h-4 w-4" />
+                  <span className="hidden sm:inline">Ajustement</span>
+                </Button>
+                <Button 
+                  onClick={() => handleAddTransaction('transfer')}
+                  variant="outline"
+                  className="bg-white/10 hover:bg-white/20 text-white border-none"
+                >
+                  <ArrowLeftRight className="mr-1.5 h-4 w-4" />
+                  <span className="hidden sm:inline">Transfert</span>
+                </Button>
                 <Button 
                   onClick={() => confirmDeleteItem(selectedItem.id)}
                   variant="outline"
@@ -673,7 +547,7 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
                       </div>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-muted-foreground">Prix unitaire:</span>
+                      <span className="text-muted-foreground">Dernier prix d'achat:</span>
                       <div className="flex items-center">
                         <EditableField
                           value={selectedItem.price}
@@ -683,17 +557,81 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
                         <span className="ml-1">€/{selectedItem.unit}</span>
                       </div>
                     </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Valorisation:</span>
+                      <select
+                        value={selectedItem.valuationMethod}
+                        onChange={(e) => handleUpdateItem(selectedItem.id, 'valuationMethod', e.target.value)}
+                        className="bg-transparent text-right"
+                      >
+                        {(Object.keys(VALUATION_LABELS) as ValuationMethod[]).map((method) => (
+                          <option key={method} value={method}>{VALUATION_LABELS[method]}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div className="flex justify-between items-center">
+                      <span className="text-muted-foreground">Coût unitaire:</span>
+                      <span>{(selectedValuation?.unitCost ?? selectedItem.price).toFixed(2)} €/{selectedItem.unit}</span>
+                    </div>
                     <div className="flex justify-between items-center">
                       <span className="text-muted-foreground">Valeur totale:</span>
-                      <span className="font-medium">{(selectedItem.quantity * selectedItem.price).toFixed(2)} €</span>
+                      <span className="font-medium">{(selectedValuation?.value ?? 0).toFixed(2)} €</span>
                     </div>
                     <div className="flex justify-between items-center">
-                      <span className="text-muted-foreground">Emplacement:</span>
+                      <span className="text-muted-foreground">Emplacement par défaut:</span>
                       <EditableField
                         value={selectedItem.location}
                         onSave={(value) => handleUpdateItem(selectedItem.id, 'location', value)}
                       />
                     </div>
+                    {selectedItem.category === PHYTOSANITARY_CATEGORY && (
+                      <div className="pt-2 border-t space-y-2">
+                        <div className="flex justify-between items-center">
+                          <span className="text-muted-foreground">N° AMM:</span>
+                          <EditableField
+                            value={selectedItem.ammNumber ?? ''}
+                            placeholder="Numéro d'autorisation"
+                            onSave={(value) => handleUpdateItem(selectedItem.id, 'ammNumber', String(value).trim())}
+                          />
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-muted-foreground">Dose maximale homologuée:</span>
+                          <div className="flex items-center">
+                            <EditableField
+                              value={selectedItem.maxDose ?? ''}
+                              type="number"
+                              onSave={(value) => handleUpdateItem(selectedItem.id, 'maxDose', value === '' ? undefined : Number(value))}
+                            />
+                            <span className="ml-1">{selectedItem.unit}/ha</span>
+                          </div>
+                        </div>
+                        <div className="flex justify-between items-center">
+                          <span className="text-muted-foreground">Délai avant récolte:</span>
+                          <div className="flex items-center">
+                            <EditableField
+                              value={selectedItem.preHarvestInterval ?? ''}
+                              type="number"
+                              onSave={(value) => handleUpdateItem(
+                                selectedItem.id,
+                                'preHarvestInterval',
+                                value === '' ? undefined : Math.round(Number(value))
+                              )}
+                            />
+                            <span className="ml-1">j</span>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                    {selectedLocations.length > 1 && (
+                      <div className="pt-2 border-t space-y-1">
+                        {selectedLocations.map(([location, quantity]) => (
+                          <div key={location} className="flex justify-between text-sm">
+                            <span className="text-muted-foreground">{location || 'Sans emplacement'}</span>
+                            <span>{quantity} {selectedItem.unit}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     <div className="flex justify-between items-center">
                       <span className="text-muted-foreground">Dernière mise à jour:</span>
                       <span>{new Date(selectedItem.lastUpdated).toLocaleDateString()}</span>
@@ -729,82 +667,22 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
               </div>
               
               {showTransactionForm && (
-                <div className="mb-6 p-4 border rounded-lg bg-muted/10">
-                  <div className="flex justify-between items-center mb-3">
-                    <h3 className="font-medium">
-                      {showTransactionForm === 'in' ? 'Nouvelle entrée' : 'Nouvelle sortie'}
-                    </h3>
-                    <Button 
-                      variant="ghost" 
-                      onClick={() => setShowTransactionForm(null)}
-                      size="sm"
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    <div>
-                      <Label htmlFor="quantity">Quantité</Label>
-                      <div className="flex items-center mt-1">
-                        <Input
-                          id="quantity"
-                          type="number"
-                          value={newTransaction.quantity}
-                          onChange={(e) => setNewTransaction({
-                            ...newTransaction,
-                            quantity: parseInt(e.target.value) || 0
-                          })}
-                          min={0}
-                        />
-                        <span className="ml-2">{selectedItem.unit}</span>
-                      </div>
-                    </div>
-                    <div>
-                      <Label htmlFor="date">Date</Label>
-                      <Input
-                        id="date"
-                        type="date"
-                        value={newTransaction.date}
-                        onChange={(e) => setNewTransaction({
-                          ...newTransaction,
-                          date: e.target.value
-                        })}
-                        className="mt-1"
-                      />
-                    </div>
-                    <div>
-                      <Label htmlFor="notes">Notes</Label>
-                      <Input
-                        id="notes"
-                        value={newTransaction.notes}
-                        onChange={(e) => setNewTransaction({
-                          ...newTransaction,
-                          notes: e.target.value
-                        })}
-                        placeholder="Commentaire..."
-                        className="mt-1"
-                      />
-                    </div>
-                  </div>
-                  <div className="flex justify-end mt-4">
-                    <Button 
-                      variant="outline" 
-                      onClick={() => setShowTransactionForm(null)}
-                      className="mr-2"
-                    >
-                      Annuler
-                    </Button>
-                    <Button onClick={handleSubmitTransaction}>
-                      <Save className="mr-2 h-4 w-4" />
-                      Enregistrer
-                    </Button>
-                  </div>
-                </div>
+                <StockMovementForm
+                  key={showTransactionForm}
+                  item={selectedItem}
+                  type={showTransactionForm}
+                  locations={locations}
+                  parcels={parcels}
+                  crops={crops}
+                  tasks={tasks}
+                  onSubmit={handleSubmitMovement}
+                  onCancel={() => setShowTransactionForm(null)}
+                />
               )}
               
               <div className="mt-6">
                 <div className="flex justify-between items-center mb-3">
-                  <h3 className="font-medium">Historique des transactions</h3>
+                  <h3 className="font-medium">Registre des mouvements</h3>
                 </div>
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
@@ -813,67 +691,90 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
                         <th className="px-4 py-2 text-left">Date</th>
                         <th className="px-4 py-2 text-left">Type</th>
                         <th className="px-4 py-2 text-left">Quantité</th>
+                        <th className="px-4 py-2 text-left">Emplacement</th>
+                        <th className="px-4 py-2 text-left">Coût</th>
                         <th className="px-4 py-2 text-left">Utilisateur</th>
                         <th className="px-4 py-2 text-left">Notes</th>
                         <th className="px-4 py-2 text-left">Actions</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {itemTransactions.map((transaction) => (
-                        <tr key={transaction.id} className="border-t">
-                          <td className="px-4 py-3">{new Date(transaction.date).toLocaleDateString()}</td>
-                          <td className="px-4 py-3">
-                            <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${
-                              transaction.type === 'in' 
-                                ? 'bg-agri-success/10 text-agri-success' 
-                                : 'bg-agri-warning/10 text-agri-warning'
-                            }`}>
-                              {transaction.type === 'in' ? (
-                                <>
+                      {itemTransactions.map((transaction) => {
+                        const change = quantityChange(transaction);
+                        const outgoingCost = selectedValuation?.outgoingCosts.get(transaction.id);
+                        const reversed = reversedIds.has(transaction.id);
+                        return (
+                          <tr key={transaction.id} className={`border-t ${reversed ? 'text-muted-foreground line-through' : ''}`}>
+                            <td className="px-4 py-3">{new Date(transaction.date).toLocaleDateString()}</td>
+                            <td className="px-4 py-3">
+                              <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${
+                                change > 0 
+                                  ? 'bg-agri-success/10 text-agri-success' 
+                                  : change < 0
+                                    ? 'bg-agri-warning/10 text-agri-warning'
+                                    : 'bg-muted text-foreground'
+                              }`}>
+                                {transaction.type === 'transfer' ? (
+                                  <ArrowLeftRight className="h-3 w-3 mr-1" />
+                                ) : change > 0 ? (
                                   <ArrowDown className="h-3 w-3 mr-1" />
-                                  Entrée
-                                </>
-                              ) : (
-                                <>
+                                ) : (
                                   <ArrowUp className="h-3 w-3 mr-1" />
-                                  Sortie
-                                </>
+                                )}
+                                {transaction.reversalOf !== undefined ? 'Annulation' : MOVEMENT_LABELS[transaction.type]}
+                              </span>
+                            </td>
+                            <td className="px-4 py-3">
+                              {transaction.type === 'transfer' ? transaction.quantity : `${change > 0 ? '+' : ''}${change}`} {selectedItem.unit}
+                            </td>
+                            <td className="px-4 py-3">
+                              {transaction.type === 'transfer'
+                                ? `${transaction.location} → ${transaction.toLocation}`
+                                : transaction.location}
+                              {(transaction.parcelId !== undefined || transaction.cropCycleId !== undefined) && (
+                                <div className="text-xs text-muted-foreground">
+                                  {[
+                                    parcels.find(parcel => parcel.id === transaction.parcelId)?.name,
+                                    crops.find(crop => crop.id === transaction.cropCycleId)?.name,
+                                    tasks.find(task => task.id === transaction.taskId)?.title
+                                  ].filter(Boolean).join(' · ')}
+                                  {transaction.treatedArea !== undefined &&
+                                    ` · ${applicationRate(transaction)} ${selectedItem.unit}/ha sur ${transaction.treatedArea} ha`}
+                                </div>
                               )}
-                            </span>
-                          </td>
-                          <td className="px-4 py-3">{transaction.quantity} {selectedItem.unit}</td>
-                          <td className="px-4 py-3">{transaction.user}</td>
-                          <td className="px-4 py-3">
-                            <EditableField
-                              value={transaction.notes}
-                              onSave={(value) => {
-                                const updatedTransactions = [...transactionHistory];
-                                const index = updatedTransactions.findIndex(t => t.id === transaction.id);
-                                if (index !== -1) {
-                                  updatedTransactions[index] = {
-                                    ...updatedTransactions[index],
-                                    notes: value.toString()
-                                  };
-                                  setTransactionHistory(updatedTransactions);
-                                }
-                              }}
-                            />
-                          </td>
-                          <td className="px-4 py-3">
-                            <button
-                              onClick={() => confirmDeleteTransaction(transaction.id)}
-                              className="p-1.5 hover:bg-agri-danger/10 text-agri-danger rounded"
-                              title="Supprimer la transaction"
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </button>
-                          </td>
-                        </tr>
-                      ))}
+                            </td>
+                            <td className="px-4 py-3">
+                              {change > 0 && transaction.unitCost !== undefined
+                                ? `${transaction.unitCost.toFixed(2)} €/${selectedItem.unit}`
+                                : outgoingCost !== undefined
+                                  ? `${outgoingCost.toFixed(2)} €`
+                                  : '–'}
+                            </td>
+                            <td className="px-4 py-3">{transaction.user}</td>
+                            <td className="px-4 py-3">
+                              <EditableField
+                                value={transaction.notes}
+                                onSave={(value) => updateNotes(transaction, value.toString())}
+                              />
+                            </td>
+                            <td className="px-4 py-3">
+                              {!reversed && transaction.reversalOf === undefined && (
+                                <button
+                                  onClick={() => confirmReverseMovement(transaction)}
+                                  className="p-1.5 hover:bg-agri-danger/10 text-agri-danger rounded"
+                                  title="Annuler le mouvement"
+                                >
+                                  <Undo2 className="h-4 w-4" />
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
                       {itemTransactions.length === 0 && (
                         <tr>
-                          <td colSpan={6} className="px-4 py-4 text-center text-muted-foreground">
-                            Aucune transaction enregistrée
+                          <td colSpan={8} className="px-4 py-4 text-center text-muted-foreground">
+                            Aucun mouvement enregistré
                           </td>
                         </tr>
                       )}
@@ -1007,6 +908,19 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
                       placeholder="Ex: Main Warehouse"
                     />
                   </div>
+                  <div>
+                    <Label htmlFor="valuationMethod">Valorisation</Label>
+                    <select
+                      id="valuationMethod"
+                      value={newItem.valuationMethod}
+                      onChange={(e) => setNewItem({ ...newItem, valuationMethod: e.target.value as ValuationMethod })}
+                      className="mt-1 flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      {(Object.keys(VALUATION_LABELS) as ValuationMethod[]).map((method) => (
+                        <option key={method} value={method}>{VALUATION_LABELS[method]}</option>
+                      ))}
+                    </select>
+                  </div>
                   <div className="md:col-span-2 lg:col-span-3">
                     <Label htmlFor="notes">Additional Notes</Label>
                     <Textarea
@@ -1035,10 +949,13 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
             )}
           </div>
         )
+      ) : view === 'valuation' ? (
+        <StockValuationReport items={inventoryData} movements={transactionHistory} />
       ) : (
         <InventoryStats 
           inventoryData={inventoryData} 
           categoryStats={categoryStats} 
+          totalValue={[...valuations.values()].reduce((sum, valuation) => sum + valuation.value, 0)}
         />
       )}
 
@@ -1053,13 +970,13 @@ const Inventory: React.FC<InventoryProps> = ({ dateRange, searchTerm: externalSe
       />
 
       <ConfirmDialog 
-        open={transactionDeleteConfirmOpen} 
-        title="Delete Transaction" 
-        description="Are you sure you want to delete this transaction? The stock will be adjusted accordingly."
-        confirmText="Delete"
-        cancelText="Annuler"
-        onConfirm={handleDeleteTransaction}
-        onOpenChange={() => setTransactionDeleteConfirmOpen(false)}
+        open={reverseConfirmOpen} 
+        title="Annuler le mouvement" 
+        description="Le registre des mouvements n'est jamais modifié : un mouvement inverse sera ajouté et le stock rétabli."
+        confirmText="Annuler le mouvement"
+        cancelText="Retour"
+        onConfirm={handleReverseMovement}
+        onOpenChange={() => setReverseConfirmOpen(false)}
       />
     </div>
   );
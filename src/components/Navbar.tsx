@@ -17,6 +17,7 @@ import {
   Users,
   FileText
 } from 'lucide-react';
+import SyncStatus from './common/SyncStatus';
 
 const Navbar = () => {
   const [isOpen, setIsOpen] = useState(false);
@@ -58,6 +59,7 @@ const Navbar = () => {
     { title: 'Crops', path: '/cultures', icon: Sprout },
     { title: 'Inventory', path: '/inventaire', icon: Package },
     { title: 'Finance', path: '/finances', icon: Wallet },
+    { title: 'Workforce', path: '/equipe', icon: Users },
     { title: 'Statistics', path: '/statistiques', icon: BarChart2 },
     { title: 'Reports', path: '/rapports', icon: FileText },
     { title: 'Settings', path: '/parametres', icon: Settings },
@@ -128,6 +130,7 @@ const Navbar = () => {
         </nav>
 
         <div className="p-4 border-t border-border">
+          <SyncStatus />
           <div className="flex items-center space-x-3 px-3 py-2">
             <div className="w-8 h-8 bg-gray-200 dark:bg-gray-700 rounded-full flex items-center justify-center">
               <span className="text-sm font-medium">AD</span>
@@ -20,6 +20,7 @@ import { EditableField } from './ui/editable-field';
 import { useToast } from "@/hooks/use-toast";
 import { toast } from 'sonner';
 import { EditableTable, Column } from './ui/editable-table';
+import type { Polygon } from 'geojson';
 import ParcelMap from './ParcelMap';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -30,91 +31,12 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-
-// Types for parcels
-interface ParcelData {
-  id: number;
-  name: string;
-  area: number;
-  crop: string;
-  status: 'active' | 'inactive' | 'planned';
-  lastActivity: string;
-  soilType: string;
-  coordinates: { lat: number; lng: number };
-  notes?: string;
-  ph?: number;
-  organicMatter?: number;
-}
-
-interface CropHistoryEntry {
-  year: string;
-  crop: string;
-  yield: string;
-  notes: string;
-}
-
-// Initial data for parcels
-const initialParcelData: ParcelData[] = [
-  { 
-    id: 1, 
-    name: 'Parcelle Nord', 
-    area: 12.5, 
-    crop: 'Blé', 
-    status: 'active', 
-    lastActivity: '2023-08-15', 
-    soilType: 'Argileux', 
-    coordinates: { lat: 45.4397, lng: 4.3872 },
-    ph: 6.8,
-    organicMatter: 3.2
-  },
-  { 
-    id: 2, 
-    name: 'Parcelle Est', 
-    area: 8.3, 
-    crop: 'Maïs', 
-    status: 'active', 
-    lastActivity: '2023-08-10', 
-    soilType: 'Limoneux', 
-    coordinates: { lat: 45.4412, lng: 4.3901 }
-  },
-  { 
-    id: 3, 
-    name: 'Parcelle Sud', 
-    area: 15.7, 
-    crop: 'Tournesol', 
-    status: 'active', 
-    lastActivity: '2023-08-05', 
-    soilType: 'Sableux', 
-    coordinates: { lat: 45.4380, lng: 4.3855 }
-  },
-  { 
-    id: 4, 
-    name: 'Parcelle Ouest', 
-    area: 10.2, 
-    crop: 'Orge', 
-    status: 'inactive', 
-    lastActivity: '2023-07-20', 
-    soilType: 'Argileux-Limoneux', 
-    coordinates: { lat: 45.4405, lng: 4.3840 }
-  },
-  { 
-    id: 5, 
-    name: 'Parcelle Centrale', 
-    area: 6.8, 
-    crop: 'Luzerne', 
-    status: 'planned', 
-    lastActivity: '2023-08-01', 
-    soilType: 'Limoneux', 
-    coordinates: { lat: 45.4390, lng: 4.3885 }
-  },
-];
-
-// Initial crop history data
-const initialCropHistory: CropHistoryEntry[] = [
-  { year: '2022', crop: 'Maïs', yield: '8.2 t/ha', notes: 'Été sec' },
-  { year: '2021', crop: 'Blé', yield: '7.5 t/ha', notes: '-' },
-  { year: '2020', crop: 'Colza', yield: '3.8 t/ha', notes: 'Problèmes d\'insectes' }
-];
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { parcelTable } from '@/services/farm-tables';
+import { useCropRotation } from '@/hooks/use-crop-rotation';
+import type { ParcelData } from '@/types/farm';
+import { currentSeason, SEASON_LABELS, SEASONS, slotFromIndex, slotIndex } from '@/utils/crop-rotation';
 
 // Component for the visual representation of a parcel
 const ParcelCard = ({ 
@@ -207,7 +129,12 @@ const ParcelCard = ({
 };
 
 const ParcelManagement = () => {
-  const [parcels, setParcels] = useState<ParcelData[]>(initialParcelData);
+  const {
+    data: parcels,
+    addItem: createParcel,
+    updateItem: updateParcel,
+    deleteItem: removeParcel
+  } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
   const [selectedParcel, setSelectedParcel] = useState<ParcelData | null>(null);
   const [editingParcel, setEditingParcel] = useState<ParcelData | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
@@ -215,7 +142,13 @@ const ParcelManagement = () => {
   const [sortBy, setSortBy] = useState('name');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
   const [isEditing, setIsEditing] = useState(false);
-  const [cropHistory, setCropHistory] = useState<CropHistoryEntry[]>(initialCropHistory);
+  const {
+    history,
+    violations,
+    addEntry: addHistoryEntry,
+    updateEntry: updateHistoryEntry,
+    deleteEntry: deleteHistoryEntry
+  } = useCropRotation();
   const [showAddParcelForm, setShowAddParcelForm] = useState(false);
   const [newParcel, setNewParcel] = useState<Partial<ParcelData>>({
     name: '',
@@ -275,7 +208,7 @@ const ParcelManagement = () => {
     setIsEditing(true);
   };
 
-  const handleSaveEdit = () => {
+  const handleSaveEdit = async () => {
     if (editingParcel) {
       // Include notes in the update
       const updatedParcel = {
@@ -283,8 +216,9 @@ const ParcelManagement = () => {
         notes: parcelNotes
       };
       
-      setParcels(parcels.map(p => p.id === updatedParcel.id ? updatedParcel : p));
-      setSelectedParcel(updatedParcel);
+      const saved = await updateParcel(updatedParcel.id, updatedParcel);
+      if (!saved) return;
+      setSelectedParcel(saved);
       setIsEditing(false);
       toast.success('Parcel updated');
     }
@@ -319,14 +253,18 @@ const ParcelManagement = () => {
     }
   };
 
+  const handleBoundaryChange = (boundary: Polygon | undefined, centroid?: { lat: number; lng: number }) => {
+    setEditingParcel(prev => prev && { ...prev, boundary, coordinates: centroid ?? prev.coordinates });
+  };
+
   const handleStatusChange = (status: 'active' | 'inactive' | 'planned') => {
     if (editingParcel) {
       setEditingParcel({...editingParcel, status});
     }
   };
 
-  const handleDeleteParcel = (id: number) => {
-    setParcels(parcels.filter(p => p.id !== id));
+  const handleDeleteParcel = async (id: number) => {
+    if (!(await removeParcel(id))) return;
     if (selectedParcel?.id === id) {
       setSelectedParcel(null);
     }
@@ -337,20 +275,19 @@ const ParcelManagement = () => {
     setShowAddParcelForm(true);
   };
 
-  const handleSaveNewParcel = () => {
-    const newId = Math.max(0, ...parcels.map(p => p.id)) + 1;
-    const createdParcel: ParcelData = {
-      id: newId,
-      name: newParcel.name || `Nouvelle Parcelle ${newId}`,
+  const handleSaveNewParcel = async () => {
+    const createdParcel: Omit<ParcelData, 'id'> = {
+      name: newParcel.name || `Nouvelle Parcelle ${parcels.length + 1}`,
       area: newParcel.area || 0,
       crop: newParcel.crop || '',
       status: newParcel.status as ParcelData['status'] || 'planned',
       lastActivity: newParcel.lastActivity || new Date().toISOString().split('T')[0],
       soilType: newParcel.soilType || '',
       coordinates: newParcel.coordinates || { lat: 45.4390, lng: 4.3885 },
+      boundary: newParcel.boundary,
     };
     
-    setParcels([...parcels, createdParcel]);
+    if (!(await createParcel(createdParcel))) return;
     setNewParcel({
       name: '',
       area: 0,
@@ -378,43 +315,77 @@ const ParcelManagement = () => {
     setNewParcel({...newParcel, coordinates});
   };
 
+  const handleNewParcelBoundaryChange = (boundary: Polygon | undefined, centroid?: { lat: number; lng: number }) => {
+    setNewParcel(prev => ({ ...prev, boundary, coordinates: centroid ?? prev.coordinates }));
+  };
+
   const handleNewParcelStatusChange = (status: 'active' | 'inactive' | 'planned') => {
     setNewParcel({...newParcel, status});
   };
 
-  // Crop history table columns
+  // Crop history of the selected parcel, latest cycle first
+  const cropHistory = history
+    .filter(entry => entry.parcelId === selectedParcel?.id)
+    .sort((a, b) => slotIndex(b.year, b.season) - slotIndex(a.year, a.season))
+    .map(entry => ({
+      ...entry,
+      seasonLabel: SEASON_LABELS[entry.season],
+      yield: entry.yield ?? '',
+      notes: entry.notes ?? ''
+    }));
+  const parcelViolations = violations.filter(violation => violation.parcelId === selectedParcel?.id);
+
   const cropHistoryColumns: Column[] = [
-    { id: 'year', header: 'Année', accessorKey: 'year', isEditable: true, width: '100px' },
+    { id: 'year', header: 'Année', accessorKey: 'year', type: 'number', isEditable: true, width: '100px' },
+    { id: 'season', header: 'Saison', accessorKey: 'seasonLabel', type: 'select', options: SEASONS.map(season => SEASON_LABELS[season]), isEditable: true, width: '130px' },
     { id: 'crop', header: 'Culture', accessorKey: 'crop', isEditable: true },
-    { id: 'yield', header: 'Rendement', accessorKey: 'yield', isEditable: true, width: '120px' },
+    { id: 'yield', header: 'Rendement (t/ha)', accessorKey: 'yield', type: 'number', isEditable: true, width: '140px' },
     { id: 'notes', header: 'Remarques', accessorKey: 'notes', isEditable: true }
   ];
 
-  const handleCropHistoryUpdate = (rowIndex: number, columnId: string, value: any) => {
-    const updatedHistory = [...cropHistory];
-    updatedHistory[rowIndex] = {
-      ...updatedHistory[rowIndex],
-      [columnId]: value
-    };
-    setCropHistory(updatedHistory);
-    toast.success('Historique mis à jour');
+  const handleCropHistoryUpdate = async (rowIndex: number, columnId: string, value: string | number) => {
+    const entry = cropHistory[rowIndex];
+    if (!entry) return;
+    const changes = columnId === 'seasonLabel'
+      ? { season: SEASONS.find(season => SEASON_LABELS[season] === value) }
+      : columnId === 'year'
+        ? { year: Number(value) }
+        : columnId === 'yield'
+          ? { yield: value === '' ? undefined : Number(value) }
+          : { [columnId]: value };
+    const year = 'year' in changes ? changes.year : entry.year;
+    const season = 'season' in changes ? changes.season : entry.season;
+    if (!Number.isInteger(year) || !season) return;
+    if (cropHistory.some(other => other.id !== entry.id && other.year === year && other.season === season)) {
+      toast.error('Une autre culture démarre déjà cette saison');
+      return;
+    }
+    if (await updateHistoryEntry(entry.id, changes)) {
+      toast.success('Historique mis à jour');
+    }
   };
 
-  const handleAddCropHistory = (newRow: Record<string, any>) => {
-    setCropHistory([...cropHistory, {
-      year: newRow.year || new Date().getFullYear().toString(),
-      crop: newRow.crop || '',
-      yield: newRow.yield || '',
-      notes: newRow.notes || ''
-    }]);
-    toast.success('Entrée d\'historique ajoutée');
+  const handleAddCropHistory = async () => {
+    if (!selectedParcel) return;
+    // New cycles start the season after the latest one, or the current season
+    const latest = cropHistory[0];
+    const { year, season } = latest
+      ? slotFromIndex(slotIndex(latest.year, latest.season) + 1)
+      : currentSeason();
+    const added = await addHistoryEntry({
+      parcelId: selectedParcel.id,
+      year,
+      season,
+      crop: selectedParcel.crop || 'À définir'
+    });
+    if (added) toast.success('Entrée d\'historique ajoutée');
   };
 
-  const handleDeleteCropHistory = (rowIndex: number) => {
-    const updatedHistory = [...cropHistory];
-    updatedHistory.splice(rowIndex, 1);
-    setCropHistory(updatedHistory);
-    toast.success('Entrée d\'historique supprimée');
+  const handleDeleteCropHistory = async (rowIndex: number) => {
+    const entry = cropHistory[rowIndex];
+    if (entry && await deleteHistoryEntry(entry.id)) {
+      toast.success('Entrée d\'historique supprimée');
+    }
   };
   
   const handleSort = (field: string) => {
@@ -534,8 +505,11 @@ const ParcelManagement = () => {
               <ParcelMap 
                 coordinates={newParcel.coordinates || { lat: 45.4390, lng: 4.3885 }}
                 parcelName={newParcel.name || "Nouvelle parcelle"}
+                boundary={newParcel.boundary}
+                declaredArea={newParcel.area}
                 isEditing={true}
                 onCoordinatesChange={handleNewParcelCoordinatesChange}
+                onBoundaryChange={handleNewParcelBoundaryChange}
               />
             </div>
           </div>
@@ -723,8 +697,11 @@ const ParcelManagement = () => {
                 <ParcelMap 
                   coordinates={isEditing ? (editingParcel?.coordinates || selectedParcel.coordinates) : selectedParcel.coordinates}
                   parcelName={isEditing ? (editingParcel?.name || '') : selectedParcel.name}
+                  boundary={isEditing ? editingParcel?.boundary : selectedParcel.boundary}
+                  declaredArea={isEditing ? editingParcel?.area : selectedParcel.area}
                   isEditing={isEditing}
                   onCoordinatesChange={handleCoordinatesChange}
+                  onBoundaryChange={handleBoundaryChange}
                 />
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-6">
@@ -876,8 +853,22 @@ const ParcelManagement = () => {
                       onUpdate={handleCropHistoryUpdate}
                       onDelete={handleDeleteCropHistory}
                       onAdd={handleAddCropHistory}
+                      sortable={false}
                       className="border-none"
                     />
+                    {parcelViolations.length > 0 && (
+                      <ul className="mt-3 space-y-1">
+                        {parcelViolations.map(violation => (
+                          <li
+                            key={`${violation.rule.id}-${violation.entryId}`}
+                            className={`flex items-start text-sm ${violation.severity === 'error' ? 'text-agri-danger' : 'text-amber-700'}`}
+                          >
+                            <AlertCircle className="h-4 w-4 mr-1.5 mt-0.5 shrink-0" />
+                            <span>{violation.rule.name} : {violation.detail}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1,82 +1,280 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import type { Polygon } from 'geojson';
+import { AlertTriangle, Check, Eraser, PenLine, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { checkDeclaredArea, formatArea, geodesicArea, LatLng, latLngsFromPolygon, polygonCentroid, polygonFromLatLngs } from '@/utils/geo';
+import { useLeafletMap } from '@/hooks/use-leaflet-map';
+import { mapLabel } from '@/utils/map';
 
-import React from 'react';
-import { MapPin } from 'lucide-react';
-
-interface Coordinates {
-  lat: number;
-  lng: number;
-}
+type Coordinates = LatLng;
 
 interface ParcelMapProps {
   coordinates: Coordinates;
   parcelName: string;
   isEditing: boolean;
+  boundary?: Polygon;
+  /** Declared area in hectares, checked against the drawn boundary */
+  declaredArea?: number;
   onCoordinatesChange?: (coordinates: Coordinates) => void;
+  /** Called with the new boundary (undefined once erased) and its centroid */
+  onBoundaryChange?: (boundary: Polygon | undefined, centroid?: Coordinates) => void;
+  /** Gives parents access to the Leaflet map for extra layers and controls */
+  onMapReady?: (map: L.Map) => void;
+  className?: string;
 }
 
-const ParcelMap = ({ coordinates, parcelName, isEditing, onCoordinatesChange }: ParcelMapProps) => {
-  // In a real implementation, this would use a mapping library like Leaflet or Google Maps
-  // For now, we'll create a placeholder that simulates a map
-  
-  const handleMapClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    if (!isEditing || !onCoordinatesChange) return;
-    
-    // Calculate relative position based on the click within the map element
-    const rect = e.currentTarget.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    // Convert to a simulated lat/lng (just for UI purposes)
-    // In a real map implementation, you would get actual coordinates
-    const newLat = 45.4 + (y / rect.height) * 0.1;
-    const newLng = 4.3 + (x / rect.width) * 0.1;
-    
-    onCoordinatesChange({ lat: parseFloat(newLat.toFixed(4)), lng: parseFloat(newLng.toFixed(4)) });
+const PARCEL_STYLE: L.PathOptions = { color: '#4CAF50', weight: 2, fillOpacity: 0.25 };
+
+const vertexIcon = L.divIcon({
+  className: '',
+  html: '<div class="h-3 w-3 rounded-full bg-white border-2 border-green-700 shadow"></div>',
+  iconSize: [12, 12],
+  iconAnchor: [6, 6]
+});
+
+const midpointIcon = L.divIcon({
+  className: '',
+  html: '<div class="h-2.5 w-2.5 rounded-full bg-green-700/50 border border-white"></div>',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5]
+});
+
+const ParcelMap = ({
+  coordinates,
+  parcelName,
+  isEditing,
+  boundary,
+  declaredArea,
+  onCoordinatesChange,
+  onBoundaryChange,
+  onMapReady,
+  className = 'h-[300px]'
+}: ParcelMapProps) => {
+  const { containerRef, map } = useLeafletMap({
+    center: [coordinates.lat, coordinates.lng],
+    zoom: 15
+  });
+  const [parcelLayer, setParcelLayer] = useState<L.LayerGroup | null>(null);
+  const [points, setPoints] = useState<LatLng[]>(() => boundary ? latLngsFromPolygon(boundary) : []);
+  const [drawing, setDrawing] = useState(false);
+
+  // Latest props for effects that must only run when the map or the boundary change
+  const latestRef = useRef({ isEditing, onMapReady });
+  latestRef.current = { isEditing, onMapReady };
+
+  useEffect(() => {
+    if (!map) return;
+    const layer = L.layerGroup().addTo(map);
+    setParcelLayer(layer);
+    latestRef.current.onMapReady?.(map);
+    return () => {
+      layer.remove();
+    };
+  }, [map]);
+
+  // Follow the parcel shown: reset the vertices and frame it
+  useEffect(() => {
+    setPoints(boundary ? latLngsFromPolygon(boundary) : []);
+    if (boundary && map && !latestRef.current.isEditing) {
+      map.fitBounds(L.geoJSON(boundary).getBounds(), { padding: [20, 20], maxZoom: 17 });
+    }
+  }, [boundary, map]);
+
+  // Without a boundary the parcel is a single point: keep it in view
+  useEffect(() => {
+    if (!boundary) map?.panTo([coordinates.lat, coordinates.lng]);
+  }, [map, boundary, coordinates.lat, coordinates.lng]);
+
+  useEffect(() => {
+    if (!isEditing) setDrawing(false);
+  }, [isEditing]);
+
+  const commit = useCallback((next: LatLng[]) => {
+    setPoints(next);
+    if (next.length < 3) {
+      onBoundaryChange?.(undefined);
+      return;
+    }
+    const polygon = polygonFromLatLngs(next);
+    const centroid = polygonCentroid(polygon);
+    onBoundaryChange?.(polygon, {
+      lat: parseFloat(centroid.lat.toFixed(6)),
+      lng: parseFloat(centroid.lng.toFixed(6))
+    });
+  }, [onBoundaryChange]);
+
+  // Clicks add vertices while drawing, or move the parcel point when it has no boundary
+  useEffect(() => {
+    if (!map) return;
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      const point = { lat: event.latlng.lat, lng: event.latlng.lng };
+      if (drawing) {
+        setPoints(current => [...current, point]);
+      } else if (isEditing && points.length === 0 && onCoordinatesChange) {
+        onCoordinatesChange({ lat: parseFloat(point.lat.toFixed(6)), lng: parseFloat(point.lng.toFixed(6)) });
+      }
+    };
+
+    map.on('click', handleClick);
+    if (drawing) map.doubleClickZoom.disable();
+    else map.doubleClickZoom.enable();
+    return () => {
+      map.off('click', handleClick);
+    };
+  }, [map, drawing, isEditing, points.length, onCoordinatesChange]);
+
+  // Redraw the parcel, plus the vertex handles while editing
+  useEffect(() => {
+    const layer = parcelLayer;
+    if (!layer) return;
+    layer.clearLayers();
+
+    const latLngs = points.map(point => L.latLng(point.lat, point.lng));
+
+    if (latLngs.length === 0) {
+      L.circleMarker([coordinates.lat, coordinates.lng], { radius: 7, color: '#2E7D32', fillOpacity: 0.8 })
+        .bindTooltip(mapLabel(parcelName), { permanent: true, direction: 'top', offset: [0, -8] })
+        .addTo(layer);
+      return;
+    }
+
+    const shape = drawing && latLngs.length < 3
+      ? L.polyline(latLngs, { ...PARCEL_STYLE, dashArray: '4 4' })
+      : L.polygon(latLngs, { ...PARCEL_STYLE, dashArray: drawing ? '4 4' : undefined });
+    shape.addTo(layer);
+    if (!drawing) shape.bindTooltip(mapLabel(parcelName), { permanent: true, direction: 'center' });
+
+    if (!isEditing) return;
+
+    latLngs.forEach((latLng, index) => {
+      const vertex = L.marker(latLng, { icon: vertexIcon, draggable: !drawing, keyboard: false }).addTo(layer);
+      vertex.on('drag', () => {
+        const moved = [...latLngs];
+        moved[index] = vertex.getLatLng();
+        (shape as L.Polygon).setLatLngs(moved);
+      });
+      vertex.on('dragend', () => {
+        const { lat, lng } = vertex.getLatLng();
+        commit(points.map((point, i) => i === index ? { lat, lng } : point));
+      });
+      vertex.on('contextmenu', () => {
+        if (points.length > 3) commit(points.filter((_, i) => i !== index));
+      });
+      if (drawing && index === 0 && points.length >= 3) {
+        vertex.on('click', () => {
+          setDrawing(false);
+          commit(points);
+        });
+      }
+    });
+
+    if (drawing) return;
+
+    // Midpoint handles insert a vertex on the edge they sit on
+    latLngs.forEach((latLng, index) => {
+      const next = latLngs[(index + 1) % latLngs.length];
+      const midpoint = L.latLng((latLng.lat + next.lat) / 2, (latLng.lng + next.lng) / 2);
+      L.marker(midpoint, { icon: midpointIcon, keyboard: false })
+        .on('click', () => {
+          const inserted = [...points];
+          inserted.splice(index + 1, 0, { lat: midpoint.lat, lng: midpoint.lng });
+          commit(inserted);
+        })
+        .addTo(layer);
+    });
+  }, [parcelLayer, points, drawing, isEditing, coordinates.lat, coordinates.lng, parcelName, commit]);
+
+  const startDrawing = () => {
+    setPoints([]);
+    setDrawing(true);
+  };
+
+  const finishDrawing = () => {
+    setDrawing(false);
+    commit(points);
+  };
+
+  const cancelDrawing = () => {
+    setDrawing(false);
+    setPoints(boundary ? latLngsFromPolygon(boundary) : []);
   };
-  
+
+  const eraseBoundary = () => commit([]);
+
+  const measuredArea = useMemo(
+    () => points.length >= 3 ? geodesicArea(polygonFromLatLngs(points)) : null,
+    [points]
+  );
+
+  const areaCheck = useMemo(
+    () => points.length >= 3 && declaredArea !== undefined && !drawing
+      ? checkDeclaredArea(declaredArea, polygonFromLatLngs(points))
+      : null,
+    [points, declaredArea, drawing]
+  );
+
   return (
-    <div className="relative w-full h-[300px] bg-gray-100 rounded-lg overflow-hidden">
-      {/* This would be replaced with an actual map component */}
-      <div 
-        className="w-full h-full bg-[#e8eef4] relative cursor-pointer"
-        onClick={handleMapClick}
-      >
-        {/* Simulated grid lines */}
-        <div className="absolute inset-0 grid grid-cols-8 grid-rows-6 pointer-events-none">
-          {Array.from({ length: 8 }).map((_, i) => (
-            <div key={`col-${i}`} className="border-r border-blue-200/30" />
-          ))}
-          {Array.from({ length: 6 }).map((_, i) => (
-            <div key={`row-${i}`} className="border-b border-blue-200/30" />
-          ))}
-        </div>
-        
-        {/* Simulated parcel marker */}
-        <div 
-          className="absolute transform -translate-x-1/2 -translate-y-1/2 flex flex-col items-center"
-          style={{ 
-            left: `${((coordinates.lng - 4.3) / 0.1) * 100}%`, 
-            top: `${((coordinates.lat - 45.4) / 0.1) * 100}%` 
-          }}
-        >
-          <MapPin className="h-8 w-8 text-agri-primary drop-shadow-md" />
-          <div className="bg-white px-2 py-0.5 rounded shadow text-xs mt-1">
-            {parcelName}
-          </div>
+    <div className={`relative w-full rounded-lg overflow-hidden bg-gray-100 ${className}`}>
+      <div ref={containerRef} className="absolute inset-0 z-0" />
+
+      {measuredArea !== null && (
+        <div className="absolute top-2 right-2 z-[1000] bg-white/90 px-2 py-1 text-xs rounded shadow max-w-[260px]">
+          <div>Surface mesurée : <span className="font-medium">{formatArea(measuredArea)}</span></div>
+          {areaCheck?.diverges && (
+            <div className="flex items-start gap-1 mt-1 text-amber-700">
+              <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+              <span>
+                Écart de {Math.round(areaCheck.difference * 100)}% avec la surface déclarée
+                ({areaCheck.declaredHectares} ha)
+              </span>
+            </div>
+          )}
         </div>
-        
-        {/* Instruction for editing mode */}
-        {isEditing && (
-          <div className="absolute bottom-2 left-0 right-0 text-center bg-white/80 py-1 text-xs">
-            Cliquez sur la carte pour déplacer le marqueur
-          </div>
-        )}
-        
-        {/* Coordinates display */}
-        <div className="absolute top-2 right-2 bg-white px-2 py-1 text-xs rounded shadow">
-          Lat: {coordinates.lat} | Lng: {coordinates.lng}
+      )}
+
+      {isEditing && (
+        <div className="absolute bottom-2 left-2 right-2 z-[1000] flex flex-wrap items-center justify-between gap-2 bg-white/90 px-2 py-1.5 rounded shadow text-xs">
+          {drawing ? (
+            <>
+              <span>Cliquez sur la carte pour placer les sommets ({points.length})</span>
+              <div className="flex gap-1">
+                <Button size="sm" variant="outline" className="h-7" onClick={cancelDrawing}>
+                  <X className="h-3.5 w-3.5 mr-1" />
+                  Annuler
+                </Button>
+                <Button size="sm" className="h-7" onClick={finishDrawing} disabled={points.length < 3}>
+                  <Check className="h-3.5 w-3.5 mr-1" />
+                  Terminer
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <span>
+                {points.length > 0
+                  ? 'Glissez les sommets pour les déplacer, clic droit pour en retirer'
+                  : 'Cliquez sur la carte pour déplacer le marqueur'}
+              </span>
+              <div className="flex gap-1">
+                {points.length > 0 && (
+                  <Button size="sm" variant="outline" className="h-7" onClick={eraseBoundary}>
+                    <Eraser className="h-3.5 w-3.5 mr-1" />
+                    Effacer
+                  </Button>
+                )}
+                {onBoundaryChange && (
+                  <Button size="sm" variant="outline" className="h-7" onClick={startDrawing}>
+                    <PenLine className="h-3.5 w-3.5 mr-1" />
+                    {points.length > 0 ? 'Redessiner' : 'Dessiner le contour'}
+                  </Button>
+                )}
+              </div>
+            </>
+          )}
         </div>
-      </div>
+      )}
     </div>
   );
 };
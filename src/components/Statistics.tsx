@@ -59,7 +59,7 @@ const Statistics = () => {
       case 'yields':
         return yieldData;
       case 'financial':
-        return financialData.profitabilityByParcel;
+        return financialData.costByParcel;
       case 'environmental':
         return environmentalData.indicators;
       default:
@@ -80,7 +80,9 @@ const Statistics = () => {
       case 'financial':
         return [
           { key: "name", header: "Parcel" },
-          { key: "profitability", header: "Profitability (€)" },
+          { key: "costPerHa", header: "Cost (€/ha)" },
+          { key: "inputCost", header: "Inputs (€)" },
+          { key: "laborCost", header: "Labor (€)" },
           { key: "size", header: "Area (ha)" },
           { key: "crop", header: "Crop" }
         ];
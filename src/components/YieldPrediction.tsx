@@ -16,7 +16,6 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { supabase } from "@/integrations/supabase/client";
 import {
   Loader2,
   TrendingUp,
@@ -28,45 +27,50 @@ import {
 import { toast } from "sonner";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import BatchYieldPrediction from "@/components/harvest/BatchYieldPrediction";
+import PredictionHistory from "@/components/harvest/PredictionHistory";
+import { useDiseaseRisk } from "@/hooks/use-disease-risk";
+import { usePredictionInputs } from "@/hooks/use-prediction-inputs";
+import { usePredictionTracking } from "@/hooks/use-prediction-tracking";
+import {
+  Interval,
+  PredictionResult,
+  predictionRecord,
+  requestYieldPrediction,
+} from "@/services/yield-prediction";
+import type { YieldPredictionInputs } from "@/types/farm";
+import { PROVIDER_LABELS } from "@/utils/prediction-accuracy";
+import {
+  CROP_OPTIONS,
+  cropOptionFor,
+  ParcelPredictionDraft,
+  PredictionInputField,
+  SOIL_OPTIONS,
+} from "@/utils/prediction-inputs";
+import { dayDate, formatDistance } from "@/utils/weather-series";
+
+const formatInterval = ({ lower, upper, level }: Interval, unit: string) =>
+  `${Math.round(level * 100)}% interval: ${lower.toFixed(1)} – ${upper.toFixed(1)} ${unit}`;
 
-interface DiseaseRisk {
-  name: string;
-  riskLevel: string;
-  conditions: string;
-  yieldImpact: string;
-}
-
-interface PredictionResult {
-  yieldPerHectare: number;
-  totalProduction: number;
-  confidenceLevel: number;
-  qualityGrade: string;
-  diseaseRisks: DiseaseRisk[];
-  keyFactors: string[];
-  recommendations: string[];
-  analysis: string;
-}
-
-const cropOptions = [
-  { value: "Canne à Sucre", label: "Sugar Cane" },
-  { value: "Banane", label: "Banana" },
-  { value: "Ananas", label: "Pineapple" },
-  { value: "Igname", label: "Yam" },
-  { value: "Madère", label: "Taro" },
-  { value: "Christophine", label: "Chayote" },
-];
-
-const soilOptions = [
-  { value: "Argileux", label: "Clay" },
-  { value: "Limoneux", label: "Loamy" },
-  { value: "Sableux", label: "Sandy" },
-  { value: "Volcanique", label: "Volcanic" },
-  { value: "Humifère", label: "Humus-rich" },
-];
+const NO_SELECTION = "none";
+
+type InputMode = "manual" | "parcel";
 
 const YieldPrediction = () => {
   const [loading, setLoading] = useState(false);
   const [prediction, setPrediction] = useState<PredictionResult | null>(null);
+  const [mode, setMode] = useState<InputMode>("manual");
+  const [cropCycleId, setCropCycleId] = useState(NO_SELECTION);
+  const [parcelDraft, setParcelDraft] = useState<ParcelPredictionDraft | null>(null);
+  const { predictions, harvests, cropCycles, addPrediction } = usePredictionTracking();
+  const { parcels, draftFor } = usePredictionInputs();
+  const { risksFor } = useDiseaseRisk();
+  // Weather-driven pressure replaces the provider's disease list when a parcel is predicted
+  const weatherRisks =
+    mode === "parcel" && parcelDraft
+      ? risksFor(parcelDraft.parcel.id).filter((risk) => risk.current)
+      : [];
 
   const [formData, setFormData] = useState({
     cropType: "",
@@ -78,8 +82,64 @@ const YieldPrediction = () => {
     area: "",
   });
 
-  const handleInputChange = (field: string, value: string) => {
+  const handleInputChange = (field: PredictionInputField, value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
+    // A value typed over a filled one no longer comes from the parcel
+    setParcelDraft((draft) => {
+      if (!draft?.sources[field]) return draft;
+      const sources = { ...draft.sources };
+      delete sources[field];
+      return { ...draft, sources };
+    });
+  };
+
+  const handleModeChange = (value: string) => {
+    setMode(value as InputMode);
+    setCropCycleId(NO_SELECTION);
+    setParcelDraft(null);
+  };
+
+  const handleParcelChange = (value: string) => {
+    const parcel = parcels.find((item) => String(item.id) === value);
+    if (!parcel) return;
+    const draft = draftFor(parcel);
+    setParcelDraft(draft);
+    setFormData((prev) => ({
+      ...prev,
+      ...Object.fromEntries(
+        Object.entries(draft.inputs).map(([field, input]) => [field, String(input)])
+      ),
+    }));
+  };
+
+  const sourceNote = (field: PredictionInputField) =>
+    mode === "parcel" && parcelDraft?.sources[field] ? (
+      <p className="text-xs text-muted-foreground">From {parcelDraft.sources[field]}</p>
+    ) : null;
+
+  const handleCropCycleChange = (value: string) => {
+    setCropCycleId(value);
+    const cycle = cropCycles.find((item) => String(item.id) === value);
+    if (!cycle) return;
+    setFormData((prev) => ({
+      ...prev,
+      cropType: cropOptionFor(cycle.name)?.value ?? prev.cropType,
+      area: cycle.area ? String(cycle.area) : prev.area,
+    }));
+  };
+
+  const savePrediction = async (inputs: YieldPredictionInputs, result: PredictionResult) => {
+    if (mode === "parcel") {
+      return addPrediction(predictionRecord(inputs, result, {
+        parcelId: parcelDraft?.parcel.id,
+        cropCycleId: parcelDraft?.cropCycle?.id,
+      }));
+    }
+    const cycle = cropCycles.find((item) => String(item.id) === cropCycleId);
+    return addPrediction(predictionRecord(inputs, result, {
+      parcelId: cycle?.parcelId,
+      cropCycleId: cycle?.id,
+    }));
   };
 
   const handlePredict = async () => {
@@ -108,41 +168,27 @@ const YieldPrediction = () => {
     setLoading(true);
     setPrediction(null);
 
-    try {
-      const { data, error } = await supabase.functions.invoke("predict-yield", {
-        body: {
-          cropType: formData.cropType,
-          soilType: formData.soilType,
-          humidity: parseFloat(formData.humidity),
-          moisture: parseFloat(formData.moisture),
-          temperature: parseFloat(formData.temperature),
-          rainfall: parseFloat(formData.rainfall),
-          area: parseFloat(formData.area),
-        },
-      });
-
-      if (error) {
-        console.error("Prediction error:", error);
-        if (error.message.includes("429")) {
-          toast.error("Rate limit exceeded. Please try again in a moment.");
-        } else if (error.message.includes("402")) {
-          toast.error("Service credits depleted. Please contact support.");
-        } else {
-          toast.error("Failed to generate prediction. Please try again.");
-        }
-        return;
-      }
-
-      if (data.error) {
-        toast.error(data.error);
-        return;
-      }
+    const inputs: YieldPredictionInputs = {
+      cropType: formData.cropType,
+      soilType: formData.soilType,
+      humidity: parseFloat(formData.humidity),
+      moisture: parseFloat(formData.moisture),
+      temperature: parseFloat(formData.temperature),
+      rainfall: parseFloat(formData.rainfall),
+      area: parseFloat(formData.area),
+    };
 
+    try {
+      const data = await requestYieldPrediction(inputs);
       setPrediction(data);
-      toast.success("Yield prediction generated successfully!");
+      if (await savePrediction(inputs, data)) {
+        toast.success("Yield prediction generated and saved to the history");
+      } else {
+        toast.warning("Yield prediction generated but could not be saved");
+      }
     } catch (err) {
-      console.error("Unexpected error:", err);
-      toast.error("An unexpected error occurred");
+      console.error("Prediction error:", err);
+      toast.error(err instanceof Error && err.message ? err.message : "Failed to generate prediction. Please try again.");
     } finally {
       setLoading(false);
     }
@@ -199,15 +245,79 @@ const YieldPrediction = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <TrendingUp className="h-5 w-5" />
-            AI Crop Yield Prediction
+            Crop Yield Prediction
           </CardTitle>
           <CardDescription>
-            Predict crop yields based on environmental factors using AI
+            Predict crop yields from rainfall and temperature with a model
+            trained on FAO yield data
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           {/* Input Form */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2 md:col-span-2">
+              <Tabs value={mode} onValueChange={handleModeChange}>
+                <TabsList>
+                  <TabsTrigger value="manual">Manual entry</TabsTrigger>
+                  <TabsTrigger value="parcel">Predict for parcel</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+
+            {mode === "manual" ? (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="cropCycle">Crop Cycle</Label>
+                <Select value={cropCycleId} onValueChange={handleCropCycleChange}>
+                  <SelectTrigger id="cropCycle">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SELECTION}>Not linked to a crop cycle</SelectItem>
+                    {cropCycles.map((cycle) => (
+                      <SelectItem key={cycle.id} value={String(cycle.id)}>
+                        {cycle.name} · {cycle.parcel} ({cycle.area} ha)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Linked predictions are compared with the harvest recorded for the cycle.
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="parcel">Parcel</Label>
+                <Select
+                  value={parcelDraft ? String(parcelDraft.parcel.id) : undefined}
+                  onValueChange={handleParcelChange}
+                >
+                  <SelectTrigger id="parcel">
+                    <SelectValue placeholder="Select parcel" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {parcels.map((parcel) => (
+                      <SelectItem key={parcel.id} value={String(parcel.id)}>
+                        {parcel.name} · {parcel.crop} ({parcel.area} ha)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {parcelDraft && (
+                  <p className="text-xs text-muted-foreground">
+                    {parcelDraft.region}
+                    {parcelDraft.station
+                      ? ` · weather from ${parcelDraft.station.station.name} (${formatDistance(parcelDraft.station.distance)})`
+                      : " · no weather station with data"}
+                    {parcelDraft.cropCycle
+                      ? ` · linked to the ${parcelDraft.cropCycle.name} crop cycle`
+                      : " · no open crop cycle for this crop"}
+                    {parcelDraft.missing.length > 0 &&
+                      ` · to enter: ${parcelDraft.missing.join(", ")}`}
+                  </p>
+                )}
+              </div>
+            )}
+
             <div className="space-y-2">
               <Label htmlFor="cropType">Crop Type</Label>
               <Select
@@ -218,13 +328,14 @@ const YieldPrediction = () => {
                   <SelectValue placeholder="Select crop" />
                 </SelectTrigger>
                 <SelectContent>
-                  {cropOptions.map((crop) => (
+                  {CROP_OPTIONS.map((crop) => (
                     <SelectItem key={crop.value} value={crop.value}>
                       {crop.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {sourceNote("cropType")}
             </div>
 
             <div className="space-y-2">
@@ -237,13 +348,14 @@ const YieldPrediction = () => {
                   <SelectValue placeholder="Select soil type" />
                 </SelectTrigger>
                 <SelectContent>
-                  {soilOptions.map((soil) => (
+                  {SOIL_OPTIONS.map((soil) => (
                     <SelectItem key={soil.value} value={soil.value}>
                       {soil.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
+              {sourceNote("soilType")}
             </div>
 
             <div className="space-y-2">
@@ -260,6 +372,7 @@ const YieldPrediction = () => {
                 onChange={(e) => handleInputChange("humidity", e.target.value)}
                 placeholder="e.g., 75"
               />
+              {sourceNote("humidity")}
             </div>
 
             <div className="space-y-2">
@@ -294,6 +407,7 @@ const YieldPrediction = () => {
                 }
                 placeholder="e.g., 28"
               />
+              {sourceNote("temperature")}
             </div>
 
             <div className="space-y-2">
@@ -309,6 +423,7 @@ const YieldPrediction = () => {
                 onChange={(e) => handleInputChange("rainfall", e.target.value)}
                 placeholder="e.g., 150"
               />
+              {sourceNote("rainfall")}
             </div>
 
             <div className="space-y-2 md:col-span-2">
@@ -322,6 +437,7 @@ const YieldPrediction = () => {
                 onChange={(e) => handleInputChange("area", e.target.value)}
                 placeholder="e.g., 5.5"
               />
+              {sourceNote("area")}
             </div>
           </div>
 
@@ -334,7 +450,7 @@ const YieldPrediction = () => {
             {loading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Analyzing...
+                Predicting...
               </>
             ) : (
               <>
@@ -364,6 +480,9 @@ const YieldPrediction = () => {
                     <div className="text-3xl font-bold">
                       {prediction.yieldPerHectare.toFixed(1)} t/ha
                     </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatInterval(prediction.yieldInterval, "t/ha")}
+                    </p>
                   </CardContent>
                 </Card>
 
@@ -375,6 +494,9 @@ const YieldPrediction = () => {
                     <div className="text-3xl font-bold">
                       {prediction.totalProduction.toFixed(1)} t
                     </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatInterval(prediction.totalProductionInterval, "t")}
+                    </p>
                   </CardContent>
                 </Card>
 
@@ -403,6 +525,22 @@ const YieldPrediction = () => {
                   </span>
                 </div>
                 <Progress value={prediction.confidenceLevel} className="h-2" />
+                <p className="text-xs text-muted-foreground">
+                  {PROVIDER_LABELS[prediction.provider.name]} ·{" "}
+                  {prediction.model.trainedOn
+                    ? `Model v${prediction.model.version} · ${prediction.model.method} · FAO "${prediction.model.trainedOn}", ${prediction.model.samples} observations`
+                    : prediction.model.method === "reference-range"
+                      ? "No FAO data for this crop: agronomic reference range"
+                      : prediction.model.method}
+                </p>
+                {prediction.provider.fallbackFrom && (
+                  <p className="text-xs text-amber-700">
+                    {PROVIDER_LABELS[prediction.provider.fallbackFrom]} unavailable (
+                    {prediction.provider.fallbackReason}), answered by the{" "}
+                    {PROVIDER_LABELS[prediction.provider.name].toLowerCase()}{" "}
+                    instead.
+                  </p>
+                )}
               </div>
 
               {/* Analysis */}
@@ -414,7 +552,47 @@ const YieldPrediction = () => {
               </Alert>
 
               {/* Disease Risks */}
-              {prediction.diseaseRisks &&
+              {weatherRisks.length > 0 && (
+                <div className="space-y-3">
+                  <h3 className="font-semibold text-lg flex items-center gap-2">
+                    <AlertCircle className="h-5 w-5 text-red-500" />
+                    Disease Pressure ({parcelDraft?.station?.station.name} weather)
+                  </h3>
+                  <div className="grid gap-3">
+                    {weatherRisks.map(({ model, current }) => (
+                      <div
+                        key={model.id}
+                        className={`p-4 rounded-lg border-2 ${getRiskColor(current.level)}`}
+                      >
+                        <div className="flex items-start justify-between mb-2">
+                          <h4 className="font-semibold flex items-center gap-2">
+                            <span>{getRiskIcon(current.level)}</span>
+                            {model.name} <em className="font-normal">{model.pathogen}</em>
+                          </h4>
+                          <span className="text-xs font-bold uppercase px-2 py-1 rounded">
+                            {current.level} Risk
+                          </span>
+                        </div>
+                        <div className="space-y-2 text-sm">
+                          <p>
+                            <strong>Pressure:</strong> {current.score} {model.unit} over the{" "}
+                            {model.window} days to {dayDate(current.date).toLocaleDateString()}
+                          </p>
+                          <p>
+                            <strong>Conditions:</strong> {model.conditions}
+                          </p>
+                          <p>
+                            <strong>Advice:</strong> {model.advice}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {weatherRisks.length === 0 &&
+                prediction.diseaseRisks &&
                 prediction.diseaseRisks.length > 0 && (
                   <div className="space-y-3">
                     <h3 className="font-semibold text-lg flex items-center gap-2">
@@ -482,6 +660,14 @@ const YieldPrediction = () => {
           </Card>
         </div>
       )}
+
+      <BatchYieldPrediction />
+
+      <Card>
+        <CardContent className="pt-6">
+          <PredictionHistory predictions={predictions} harvests={harvests} cropCycles={cropCycles} />
+        </CardContent>
+      </Card>
     </div>
   );
 };
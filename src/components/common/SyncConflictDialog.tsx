@@ -0,0 +1,159 @@
+import React from 'react';
+import { AlertTriangle, Cloud, Smartphone } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useCRM } from '../../contexts/CRMContext';
+import type { SyncMutation } from '../../services/sync';
+
+interface SyncConflictDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const collectionLabels: Record<string, string> = {
+  parcels: 'Parcelle',
+  crop_cycles: 'Culture',
+  tasks: 'Tâche',
+  inventory_items: 'Article de stock',
+  inventory_transactions: 'Mouvement de stock',
+  financial_transactions: 'Transaction',
+  budgets: 'Budget'
+};
+
+const operationLabels: Record<SyncMutation['operation'], string> = {
+  create: 'Création',
+  update: 'Modification',
+  delete: 'Suppression'
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const recordLabel = (mutation: SyncMutation): string => {
+  const source = { ...mutation.conflict?.serverRecord, ...mutation.payload } as Record<string, unknown>;
+  const name = source.name ?? source.title ?? source.description ?? source.category;
+  return `${collectionLabels[mutation.collection] ?? mutation.collection} ${name ? `« ${name} »` : `#${mutation.recordId}`}`;
+};
+
+const ConflictDetails = ({ mutation }: { mutation: SyncMutation }) => {
+  const server = mutation.conflict?.serverRecord as unknown as Record<string, unknown> | null;
+
+  if (mutation.conflict?.rejection) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Le serveur a refusé cette modification : {mutation.conflict.rejection}
+      </p>
+    );
+  }
+
+  if (!server) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Cet enregistrement a été supprimé sur le serveur pendant que vous le modifiiez.
+      </p>
+    );
+  }
+
+  if (mutation.operation === 'delete') {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Vous avez supprimé cet enregistrement, mais il a été modifié sur le serveur entre-temps.
+      </p>
+    );
+  }
+
+  const fields = Object.keys(mutation.payload ?? {}).filter(field => field !== 'id' && field !== 'version');
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Champ</TableHead>
+          <TableHead>Ma version</TableHead>
+          <TableHead>Serveur</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {fields.map(field => {
+          const mine = formatValue(mutation.payload?.[field]);
+          const theirs = formatValue(server[field]);
+          return (
+            <TableRow key={field} className={mine !== theirs ? 'bg-amber-50' : undefined}>
+              <TableCell className="font-medium">{field}</TableCell>
+              <TableCell>{mine}</TableCell>
+              <TableCell>{theirs}</TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ open, onOpenChange }) => {
+  const { syncConflicts, resolveSyncConflict } = useCRM();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[700px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-amber-500" />
+            Conflits de synchronisation
+          </DialogTitle>
+          <DialogDescription>
+            Ces modifications faites hors ligne portent sur des données changées sur le serveur depuis,
+            ou ont été refusées par celui-ci. Choisissez la version à conserver.
+          </DialogDescription>
+        </DialogHeader>
+
+        {syncConflicts.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Aucun conflit à résoudre.</p>
+        ) : (
+          <ScrollArea className="max-h-[60vh] pr-3">
+            <div className="space-y-4">
+              {syncConflicts.map(mutation => (
+                <div key={mutation.id} className="rounded-lg border p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="font-medium">{recordLabel(mutation)}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Enregistré le {new Date(mutation.queuedAt).toLocaleString()}
+                      </p>
+                    </div>
+                    <Badge variant="outline">{operationLabels[mutation.operation]}</Badge>
+                  </div>
+
+                  <ConflictDetails mutation={mutation} />
+
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => resolveSyncConflict(mutation.id, 'server')}
+                    >
+                      <Cloud className="h-4 w-4 mr-2" />
+                      {mutation.conflict?.rejection ? 'Abandonner ma modification' : 'Garder la version du serveur'}
+                    </Button>
+                    <Button size="sm" onClick={() => resolveSyncConflict(mutation.id, 'local')}>
+                      <Smartphone className="h-4 w-4 mr-2" />
+                      {mutation.conflict?.rejection ? 'Réessayer' : 'Garder ma version'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflictDialog;
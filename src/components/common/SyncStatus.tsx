@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useCRM } from '../../contexts/CRMContext';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+import SyncConflictDialog from './SyncConflictDialog';
+
+const SyncStatus: React.FC = () => {
+  const [conflictsOpen, setConflictsOpen] = useState(false);
+  const { settings } = useAppSettings();
+  const {
+    lastSync,
+    isRefreshing,
+    isOnline,
+    pendingChanges,
+    syncConflicts,
+    syncError,
+    syncDataAcrossCRM
+  } = useCRM();
+
+  const offline = settings.offlineMode || !isOnline;
+
+  const statusText = () => {
+    if (isRefreshing) return 'Synchronisation...';
+    if (offline) return settings.offlineMode ? 'Mode hors ligne' : 'Pas de connexion';
+    if (syncError) return 'Échec de la synchronisation';
+    return lastSync ? `Synchronisé à ${lastSync.toLocaleTimeString()}` : 'Jamais synchronisé';
+  };
+
+  return (
+    <div className="px-3 py-2 space-y-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {offline ? (
+            <CloudOff className="h-4 w-4 text-amber-500 shrink-0" />
+          ) : (
+            <span className={`h-2 w-2 rounded-full shrink-0 ${syncError ? 'bg-red-500' : 'bg-green-500'}`} />
+          )}
+          <span className="truncate text-muted-foreground" title={syncError}>{statusText()}</span>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={() => syncDataAcrossCRM()}
+          disabled={isRefreshing || offline}
+          aria-label="Synchroniser"
+        >
+          <RefreshCw className={`h-3.5 w-3.5 ${isRefreshing ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {pendingChanges > 0 && (
+        <p className="text-muted-foreground">
+          {pendingChanges} modification(s) en attente d'envoi
+        </p>
+      )}
+
+      {syncConflicts.length > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full justify-start border-amber-300 text-amber-700 hover:bg-amber-50"
+          onClick={() => setConflictsOpen(true)}
+        >
+          <AlertTriangle className="h-4 w-4 mr-2" />
+          {syncConflicts.length} conflit(s) à résoudre
+        </Button>
+      )}
+
+      <SyncConflictDialog open={conflictsOpen} onOpenChange={setConflictsOpen} />
+    </div>
+  );
+};
+
+export default SyncStatus;
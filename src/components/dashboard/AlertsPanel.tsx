@@ -1,12 +1,13 @@
 
 import React, { useState } from 'react';
-import { AlertTriangle, Trash2, Edit, X, Check, Plus } from 'lucide-react';
+import { AlertTriangle, Bug, Trash2, Edit, X, Check, Plus } from 'lucide-react';
 import { toast } from 'sonner';
 import { EditableField } from '../ui/editable-field';
 import { Button } from '../ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
+import type { DiseaseAlert } from '@/utils/disease-risk';
 
 interface Alert {
   id: number;
@@ -18,9 +19,28 @@ interface AlertsPanelProps {
   alerts: Alert[];
   setAlerts: React.Dispatch<React.SetStateAction<Alert[]>>;
   setAlertsCount: React.Dispatch<React.SetStateAction<number>>;
+  /** Raised by the disease-risk models; read-only, they can only be dismissed */
+  diseaseAlerts?: DiseaseAlert[];
+  onDismissDiseaseAlert?: (id: string) => void;
 }
 
-const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, setAlerts, setAlertsCount }) => {
+const alertStyle = (type: string) =>
+  type === 'danger'
+    ? 'bg-agri-danger/10 border-l-4 border-agri-danger'
+    : type === 'warning'
+      ? 'bg-agri-warning/10 border-l-4 border-agri-warning'
+      : 'bg-agri-info/10 border-l-4 border-agri-info';
+
+const iconStyle = (type: string) =>
+  type === 'danger' ? 'text-agri-danger' : type === 'warning' ? 'text-agri-warning' : 'text-agri-info';
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({
+  alerts,
+  setAlerts,
+  setAlertsCount,
+  diseaseAlerts = [],
+  onDismissDiseaseAlert
+}) => {
   const [showAddAlertDialog, setShowAddAlertDialog] = useState(false);
   const [newAlertMessage, setNewAlertMessage] = useState('');
   const [newAlertType, setNewAlertType] = useState('warning');
@@ -79,26 +99,33 @@ const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, setAlerts, setAlertsC
       </div>
       
       <div className="space-y-3">
+        {diseaseAlerts.map((alert) => (
+          <div key={alert.id} className={`p-3 rounded-lg ${alertStyle(alert.type)}`}>
+            <div className="flex items-start justify-between">
+              <div className="flex items-start flex-1">
+                <Bug className={`h-5 w-5 mr-2 shrink-0 ${iconStyle(alert.type)}`} />
+                <p className="text-sm">{alert.message}</p>
+              </div>
+              {onDismissDiseaseAlert && (
+                <button
+                  onClick={() => onDismissDiseaseAlert(alert.id)}
+                  className="text-muted-foreground hover:text-foreground p-1 rounded hover:bg-muted"
+                  aria-label="Dismiss alert"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
         {alerts.map((alert) => (
           <div 
             key={alert.id} 
-            className={`p-3 rounded-lg ${
-              alert.type === 'danger' 
-                ? 'bg-agri-danger/10 border-l-4 border-agri-danger' 
-                : alert.type === 'warning' 
-                  ? 'bg-agri-warning/10 border-l-4 border-agri-warning' 
-                  : 'bg-agri-info/10 border-l-4 border-agri-info'
-            }`}
+            className={`p-3 rounded-lg ${alertStyle(alert.type)}`}
           >
             <div className="flex items-start justify-between">
               <div className="flex items-start flex-1">
-                <AlertTriangle className={`h-5 w-5 mr-2 ${
-                  alert.type === 'danger' 
-                    ? 'text-agri-danger' 
-                    : alert.type === 'warning' 
-                      ? 'text-agri-warning' 
-                      : 'text-agri-info'
-                }`} />
+                <AlertTriangle className={`h-5 w-5 mr-2 ${iconStyle(alert.type)}`} />
                 <EditableField 
                   value={alert.message} 
                   onSave={(value) => handleEditAlert(alert.id, String(value))}
@@ -114,7 +141,7 @@ const AlertsPanel: React.FC<AlertsPanelProps> = ({ alerts, setAlerts, setAlertsC
             </div>
           </div>
         ))}
-        {alerts.length === 0 && (
+        {alerts.length === 0 && diseaseAlerts.length === 0 && (
           <p className="text-center text-muted-foreground py-4">No active alerts</p>
         )}
       </div>
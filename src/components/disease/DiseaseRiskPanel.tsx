@@ -0,0 +1,140 @@
+import React from "react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Bug } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { useDiseaseRisk } from "@/hooks/use-disease-risk";
+import type { RiskLevel } from "@/utils/disease-risk";
+import { dayDate, formatDistance } from "@/utils/weather-series";
+
+const LEVEL_STYLES: Record<RiskLevel, string> = {
+  Low: "bg-green-100 text-green-800 border-green-300",
+  Moderate: "bg-yellow-100 text-yellow-800 border-yellow-300",
+  High: "bg-orange-100 text-orange-800 border-orange-300",
+  Critical: "bg-red-100 text-red-800 border-red-300",
+};
+
+const THRESHOLD_COLORS = { Moderate: "#FFC107", High: "#FF9800", Critical: "#F44336" };
+
+const shortDate = (date: string) =>
+  dayDate(date).toLocaleDateString(undefined, { day: "2-digit", month: "2-digit" });
+
+/**
+ * Disease pressure timeline of each parcel, computed from its nearest station's daily weather
+ */
+const DiseaseRiskPanel = () => {
+  const { risks } = useDiseaseRisk();
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl border p-6">
+        <h2 className="text-xl font-bold flex items-center">
+          <Bug className="h-6 w-6 mr-2 text-agri-primary" />
+          Disease Risk
+        </h2>
+        <p className="text-muted-foreground">
+          Pressure of the main tropical crop diseases, from the daily temperature, humidity
+          and rainfall of the weather station nearest each parcel
+        </p>
+      </div>
+
+      {risks.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          No cultivated parcel grows a crop with a disease model (banana, sugar cane, yam).
+        </p>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {risks.map((risk) => (
+          <Card key={`${risk.parcel.id}-${risk.model.id}`}>
+            <CardHeader>
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base">
+                    {risk.model.name} · {risk.parcel.name}
+                  </CardTitle>
+                  <CardDescription>
+                    <em>{risk.model.pathogen}</em> on {risk.crop}
+                    {risk.station && (
+                      <> · {risk.station.station.name} ({formatDistance(risk.station.distance)})</>
+                    )}
+                  </CardDescription>
+                </div>
+                {risk.current?.level && (
+                  <Badge variant="outline" className={LEVEL_STYLES[risk.current.level]}>
+                    {risk.current.level}
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {risk.current ? (
+                <>
+                  <div className="h-48">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={risk.timeline} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                        <XAxis dataKey="date" tickFormatter={shortDate} fontSize={11} />
+                        <YAxis fontSize={11} />
+                        <Tooltip
+                          labelFormatter={(date) => dayDate(String(date)).toLocaleDateString()}
+                          formatter={(value) => [`${value} ${risk.model.unit}`, "Pressure"]}
+                        />
+                        {Object.entries(risk.model.thresholds).map(([level, value]) => (
+                          <ReferenceLine
+                            key={level}
+                            y={value}
+                            stroke={THRESHOLD_COLORS[level as keyof typeof THRESHOLD_COLORS]}
+                            strokeDasharray="4 4"
+                          />
+                        ))}
+                        <Line
+                          type="monotone"
+                          dataKey="score"
+                          stroke="#4CAF50"
+                          strokeWidth={2}
+                          dot={false}
+                          connectNulls={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <p className="text-sm">
+                    {risk.current.score} {risk.model.unit} over the {risk.model.window} days to{" "}
+                    {dayDate(risk.current.date).toLocaleDateString()}
+                    {risk.since && risk.current.level !== "Low" && (
+                      <>, {risk.current.level.toLowerCase()} since {dayDate(risk.since).toLocaleDateString()}</>
+                    )}
+                    .
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Thresholds: moderate {risk.model.thresholds.Moderate}, high{" "}
+                    {risk.model.thresholds.High}, critical {risk.model.thresholds.Critical}.{" "}
+                    {risk.model.conditions}.
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  {risk.station
+                    ? `Not enough daily weather at ${risk.station.station.name}: the model needs at least ${Math.ceil(risk.model.window / 2)} observed days out of ${risk.model.window}.`
+                    : "No weather station has daily weather yet: import observations from the Weather tab."}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DiseaseRiskPanel;
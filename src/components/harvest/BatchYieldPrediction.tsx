@@ -0,0 +1,187 @@
+import React, { useState } from "react";
+import { Layers, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePredictionInputs } from "@/hooks/use-prediction-inputs";
+import { usePredictionTracking } from "@/hooks/use-prediction-tracking";
+import { PredictionResult, predictionRecord, requestYieldPrediction } from "@/services/yield-prediction";
+import type { YieldPredictionInputs } from "@/types/farm";
+import { PROVIDER_LABELS } from "@/utils/prediction-accuracy";
+import type { ParcelPredictionDraft } from "@/utils/prediction-inputs";
+
+interface BatchRow {
+  draft: ParcelPredictionDraft;
+  result?: PredictionResult;
+  error?: string;
+}
+
+/**
+ * Predicts every active parcel from its own records and compares the results
+ */
+const BatchYieldPrediction = () => {
+  const { activeParcels, draftFor } = usePredictionInputs();
+  const { addPrediction } = usePredictionTracking();
+  const [moisture, setMoisture] = useState("");
+  const [running, setRunning] = useState(false);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+
+  const predictParcel = async (draft: ParcelPredictionDraft): Promise<BatchRow> => {
+    const missing = draft.missing.filter((field) => field !== "moisture");
+    if (missing.length > 0) {
+      return { draft, error: `Missing ${missing.join(", ")}` };
+    }
+    const inputs = { ...draft.inputs, moisture: parseFloat(moisture) } as YieldPredictionInputs;
+    try {
+      const result = await requestYieldPrediction(inputs);
+      await addPrediction(predictionRecord(inputs, result, {
+        parcelId: draft.parcel.id,
+        cropCycleId: draft.cropCycle?.id,
+      }));
+      return { draft, result };
+    } catch (error) {
+      return { draft, error: error instanceof Error ? error.message : "Prediction failed" };
+    }
+  };
+
+  const handleRun = async () => {
+    if (!moisture || isNaN(parseFloat(moisture))) {
+      toast.error("Enter the soil moisture to assume for every parcel");
+      return;
+    }
+    setRunning(true);
+    const drafts = activeParcels.map(draftFor);
+    setRows(drafts.map((draft) => ({ draft })));
+
+    // One parcel at a time keeps the function under its rate limits
+    const completed: BatchRow[] = [];
+    for (const draft of drafts) {
+      completed.push(await predictParcel(draft));
+      setRows([...completed, ...drafts.slice(completed.length).map((next) => ({ draft: next }))]);
+    }
+    setRunning(false);
+
+    const failed = completed.filter((row) => row.error).length;
+    if (failed === 0) {
+      toast.success(`${completed.length} parcel predictions saved to the history`);
+    } else {
+      toast.warning(`${completed.length - failed} of ${completed.length} parcels predicted`);
+    }
+  };
+
+  const best = Math.max(0, ...rows.map((row) => row.result?.totalProduction ?? 0));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          All Active Parcels
+        </CardTitle>
+        <CardDescription>
+          Predict each active parcel from its area and soil, and the rainfall and recent weather
+          of its nearest station
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="batch-moisture">Soil Moisture (%)</Label>
+            <Input
+              id="batch-moisture"
+              type="number"
+              min="0"
+              max="100"
+              value={moisture}
+              onChange={(e) => setMoisture(e.target.value)}
+              placeholder="e.g., 60"
+              className="w-40"
+            />
+          </div>
+          <Button onClick={handleRun} disabled={running || activeParcels.length === 0}>
+            {running ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Layers className="mr-2 h-4 w-4" />
+            )}
+            Predict {activeParcels.length} active parcel{activeParcels.length > 1 ? "s" : ""}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Soil moisture is not measured on the parcels, so the same value is used for all of them.
+        </p>
+
+        {rows.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Parcel</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead>Crop</TableHead>
+                <TableHead className="text-right">Area (ha)</TableHead>
+                <TableHead className="text-right">Rain (mm/month)</TableHead>
+                <TableHead className="text-right">Temp. (°C)</TableHead>
+                <TableHead className="text-right">Humidity (%)</TableHead>
+                <TableHead className="text-right">Yield (t/ha)</TableHead>
+                <TableHead className="text-right">Production (t)</TableHead>
+                <TableHead className="text-right">Confidence</TableHead>
+                <TableHead>Provider</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(({ draft, result, error }) => (
+                <TableRow key={draft.parcel.id}>
+                  <TableCell className="font-medium">{draft.parcel.name}</TableCell>
+                  <TableCell>{draft.station?.station.name ?? "—"}</TableCell>
+                  <TableCell>{draft.inputs.cropType ?? draft.parcel.crop}</TableCell>
+                  <TableCell className="text-right">{draft.inputs.area ?? "—"}</TableCell>
+                  <TableCell className="text-right">{draft.inputs.rainfall ?? "—"}</TableCell>
+                  <TableCell className="text-right">{draft.inputs.temperature ?? "—"}</TableCell>
+                  <TableCell className="text-right">{draft.inputs.humidity ?? "—"}</TableCell>
+                  {result ? (
+                    <>
+                      <TableCell className="text-right">
+                        {result.yieldPerHectare.toFixed(1)}
+                        <span className="text-xs text-muted-foreground">
+                          {" "}[{result.yieldInterval.lower.toFixed(1)}–{result.yieldInterval.upper.toFixed(1)}]
+                        </span>
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${result.totalProduction === best ? "font-semibold text-agri-primary" : ""}`}
+                      >
+                        {result.totalProduction.toFixed(1)}
+                      </TableCell>
+                      <TableCell className="text-right">{result.confidenceLevel}%</TableCell>
+                      <TableCell>
+                        {PROVIDER_LABELS[result.provider.name]}
+                        {result.provider.fallbackFrom && (
+                          <span className="text-xs text-amber-700"> (fallback)</span>
+                        )}
+                      </TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={4} className="text-sm text-muted-foreground">
+                      {error ?? (running ? "Waiting…" : "")}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BatchYieldPrediction;
@@ -0,0 +1,152 @@
+import React from "react";
+import { Target, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePredictionTracking } from "@/hooks/use-prediction-tracking";
+import { actualYield, PROVIDER_LABELS } from "@/utils/prediction-accuracy";
+import HarvestRecordDialog from "./HarvestRecordDialog";
+
+const formatSigned = (value: number) => `${value > 0 ? "+" : ""}${value.toFixed(1)}`;
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+/**
+ * Recorded harvests against their predictions, and the accuracy of each prediction provider
+ */
+const HarvestPredictionTracking = () => {
+  const { predictions, harvests, cropCycles, pairs, report, addHarvest, deleteHarvest } =
+    usePredictionTracking();
+  const pairByHarvest = new Map(pairs.map((pair) => [pair.harvest.id, pair]));
+
+  return (
+    <div className="bg-white rounded-xl border p-6 space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-bold flex items-center">
+            <Target className="h-6 w-6 mr-2 text-agri-primary" />
+            Predicted vs Actual Yields
+          </h2>
+          <p className="text-muted-foreground">
+            Harvests recorded per crop cycle, scored against the latest prediction made before them
+          </p>
+        </div>
+        <HarvestRecordDialog cropCycles={cropCycles} predictions={predictions} onSave={addHarvest} />
+      </div>
+
+      {harvests.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No harvest recorded yet.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Crop</TableHead>
+              <TableHead className="text-right">Area (ha)</TableHead>
+              <TableHead className="text-right">Quantity (t)</TableHead>
+              <TableHead>Quality</TableHead>
+              <TableHead className="text-right">Actual (t/ha)</TableHead>
+              <TableHead className="text-right">Predicted (t/ha)</TableHead>
+              <TableHead className="text-right">Error</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {harvests.map((harvest) => {
+              const pair = pairByHarvest.get(harvest.id);
+              return (
+                <TableRow key={harvest.id}>
+                  <TableCell>{new Date(harvest.harvestDate).toLocaleDateString()}</TableCell>
+                  <TableCell>{harvest.crop}</TableCell>
+                  <TableCell className="text-right">{harvest.area}</TableCell>
+                  <TableCell className="text-right">{harvest.quantity}</TableCell>
+                  <TableCell>{harvest.quality}</TableCell>
+                  <TableCell className="text-right">{actualYield(harvest).toFixed(1)}</TableCell>
+                  <TableCell className="text-right">
+                    {pair ? (
+                      <>
+                        {pair.predicted.toFixed(1)}
+                        <span className="text-xs text-muted-foreground">
+                          {" "}({PROVIDER_LABELS[pair.prediction.provider]})
+                        </span>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                  </TableCell>
+                  <TableCell
+                    className={`text-right ${pair && !pair.covered ? "text-agri-danger" : ""}`}
+                  >
+                    {pair ? formatSigned(pair.error) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => deleteHarvest(harvest.id)}
+                      aria-label="Delete harvest"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">Prediction accuracy</h3>
+        {report.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Accuracy is reported once a harvest is recorded for a crop cycle with a saved prediction.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead>Crop</TableHead>
+                <TableHead className="text-right">Harvests</TableHead>
+                <TableHead className="text-right">MAE (t/ha)</TableHead>
+                <TableHead className="text-right">Bias (t/ha)</TableHead>
+                <TableHead className="text-right">MAPE</TableHead>
+                <TableHead className="text-right">Interval coverage</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report.map((row) => (
+                <TableRow
+                  key={`${row.provider}-${row.crop ?? "all"}`}
+                  className={row.crop === null ? "font-medium bg-muted/30" : undefined}
+                >
+                  <TableCell>{PROVIDER_LABELS[row.provider]}</TableCell>
+                  <TableCell>{row.crop ?? "All crops"}</TableCell>
+                  <TableCell className="text-right">{row.count}</TableCell>
+                  <TableCell className="text-right">{row.mae.toFixed(1)}</TableCell>
+                  <TableCell className="text-right">{formatSigned(row.bias)}</TableCell>
+                  <TableCell className="text-right">
+                    {row.mape !== null ? formatPercent(row.mape) : "—"}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPercent(row.coverage)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Bias is predicted minus actual: a positive value means the provider over-predicts.
+          Coverage is the share of actual yields inside the prediction interval.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default HarvestPredictionTracking;
@@ -0,0 +1,230 @@
+import React, { useState } from "react";
+import { PlusCircle } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CropData, HarvestQuality, HarvestRecord, YieldPredictionRecord } from "@/types/farm";
+import { actualYield, matchPrediction, PROVIDER_LABELS } from "@/utils/prediction-accuracy";
+
+const NO_CYCLE = "none";
+const QUALITIES: HarvestQuality[] = ["Excellent", "Good", "Average", "Poor"];
+
+interface HarvestRecordDialogProps {
+  cropCycles: CropData[];
+  predictions: YieldPredictionRecord[];
+  onSave: (harvest: Omit<HarvestRecord, "id">) => Promise<HarvestRecord | null>;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Records an actual harvest and links it to the prediction it is scored against
+ */
+const HarvestRecordDialog = ({ cropCycles, predictions, onSave }: HarvestRecordDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [cropCycleId, setCropCycleId] = useState(NO_CYCLE);
+  const [crop, setCrop] = useState("");
+  const [harvestDate, setHarvestDate] = useState(today());
+  const [area, setArea] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [quality, setQuality] = useState<HarvestQuality>("Average");
+  const [notes, setNotes] = useState("");
+
+  const cycle = cropCycles.find((item) => String(item.id) === cropCycleId);
+  const draft = {
+    cropCycleId: cycle?.id,
+    parcelId: cycle?.parcelId,
+    harvestDate,
+  };
+  const prediction = cycle ? matchPrediction(draft, predictions) : undefined;
+  const areaValue = parseFloat(area);
+  const quantityValue = parseFloat(quantity);
+  const isValid =
+    (cycle || crop.trim()) &&
+    harvestDate &&
+    areaValue > 0 &&
+    Number.isFinite(quantityValue) &&
+    quantityValue >= 0;
+
+  const reset = () => {
+    setCropCycleId(NO_CYCLE);
+    setCrop("");
+    setHarvestDate(today());
+    setArea("");
+    setQuantity("");
+    setQuality("Average");
+    setNotes("");
+  };
+
+  const handleCycleChange = (value: string) => {
+    setCropCycleId(value);
+    const selected = cropCycles.find((item) => String(item.id) === value);
+    if (selected) {
+      setCrop(selected.name);
+      setArea(selected.area ? String(selected.area) : "");
+    }
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+
+    const saved = await onSave({
+      ...draft,
+      crop: cycle?.name ?? crop.trim(),
+      area: areaValue,
+      quantity: quantityValue,
+      quality,
+      predictionId: prediction?.id,
+      notes: notes.trim() || undefined,
+    });
+    if (!saved) {
+      toast.error("The harvest could not be saved");
+      return;
+    }
+    toast.success(
+      prediction
+        ? "Harvest recorded and compared with its prediction"
+        : "Harvest recorded"
+    );
+    reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button>
+          <PlusCircle className="h-4 w-4 mr-2" />
+          Record harvest
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Record a harvest</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="harvest-cycle">Crop cycle</Label>
+            <Select value={cropCycleId} onValueChange={handleCycleChange}>
+              <SelectTrigger id="harvest-cycle">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CYCLE}>No crop cycle</SelectItem>
+                {cropCycles.map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.name} · {item.parcel}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!cycle && (
+            <div className="space-y-2">
+              <Label htmlFor="harvest-crop">Crop</Label>
+              <Input id="harvest-crop" value={crop} onChange={(e) => setCrop(e.target.value)} />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="harvest-date">Harvest date</Label>
+              <Input
+                id="harvest-date"
+                type="date"
+                value={harvestDate}
+                onChange={(e) => setHarvestDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="harvest-quality">Quality</Label>
+              <Select value={quality} onValueChange={(value) => setQuality(value as HarvestQuality)}>
+                <SelectTrigger id="harvest-quality">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {QUALITIES.map((item) => (
+                    <SelectItem key={item} value={item}>{item}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="harvest-area">Harvested area (ha)</Label>
+              <Input
+                id="harvest-area"
+                type="number"
+                min="0"
+                step="0.01"
+                value={area}
+                onChange={(e) => setArea(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="harvest-quantity">Quantity (t)</Label>
+              <Input
+                id="harvest-quantity"
+                type="number"
+                min="0"
+                step="0.1"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="harvest-notes">Notes</Label>
+            <Input id="harvest-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <div className="rounded-md bg-muted/40 p-3 text-sm">
+            {prediction ? (
+              <>
+                Compared with the {PROVIDER_LABELS[prediction.provider].toLowerCase()} prediction of{" "}
+                {new Date(prediction.predictedAt).toLocaleDateString()}:{" "}
+                <span className="font-medium">{prediction.yieldPerHectare.toFixed(1)} t/ha</span>
+                {areaValue > 0 && Number.isFinite(quantityValue) && (
+                  <> against {actualYield({ area: areaValue, quantity: quantityValue }).toFixed(1)} t/ha actual</>
+                )}
+              </>
+            ) : (
+              <span className="text-muted-foreground">
+                {cycle
+                  ? "No prediction was made for this crop cycle before the harvest date."
+                  : "Pick a crop cycle to compare the harvest with its prediction."}
+              </span>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>Save</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HarvestRecordDialog;
@@ -0,0 +1,96 @@
+import React, { useMemo } from "react";
+import { History } from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CropData, HarvestRecord, YieldPredictionRecord } from "@/types/farm";
+import { actualYield, PROVIDER_LABELS } from "@/utils/prediction-accuracy";
+
+interface PredictionHistoryProps {
+  predictions: YieldPredictionRecord[];
+  harvests: HarvestRecord[];
+  cropCycles: CropData[];
+  limit?: number;
+}
+
+/**
+ * Latest saved predictions with the actual yield of the harvest matched to each
+ */
+const PredictionHistory = ({ predictions, harvests, cropCycles, limit = 10 }: PredictionHistoryProps) => {
+  const harvestByPrediction = useMemo(() => new Map(
+    harvests
+      .filter(harvest => harvest.predictionId !== undefined)
+      .map(harvest => [harvest.predictionId as number, harvest])
+  ), [harvests]);
+
+  const latest = [...predictions]
+    .sort((a, b) => b.predictedAt.localeCompare(a.predictedAt))
+    .slice(0, limit);
+
+  const cycleLabel = (id?: number) => {
+    const cycle = cropCycles.find(item => item.id === id);
+    return cycle ? `${cycle.name} · ${cycle.parcel}` : "—";
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold flex items-center gap-2">
+        <History className="h-4 w-4" />
+        Prediction History
+      </h3>
+      {latest.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Predictions are saved here with their inputs once generated.
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Crop</TableHead>
+              <TableHead>Crop cycle</TableHead>
+              <TableHead>Provider</TableHead>
+              <TableHead className="text-right">Predicted (t/ha)</TableHead>
+              <TableHead className="text-right">Actual (t/ha)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {latest.map(prediction => {
+              const harvest = harvestByPrediction.get(prediction.id);
+              const actual = harvest ? actualYield(harvest) : undefined;
+              return (
+                <TableRow key={prediction.id}>
+                  <TableCell>{new Date(prediction.predictedAt).toLocaleDateString()}</TableCell>
+                  <TableCell>{prediction.crop}</TableCell>
+                  <TableCell>{cycleLabel(prediction.cropCycleId)}</TableCell>
+                  <TableCell>
+                    {PROVIDER_LABELS[prediction.provider]}
+                    {prediction.fallbackFrom && (
+                      <span className="text-xs text-amber-700"> (fallback)</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {prediction.yieldPerHectare.toFixed(1)}
+                    <span className="text-xs text-muted-foreground">
+                      {" "}[{prediction.yieldLower.toFixed(1)}–{prediction.yieldUpper.toFixed(1)}]
+                    </span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {actual !== undefined ? actual.toFixed(1) : <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+};
+
+export default PredictionHistory;
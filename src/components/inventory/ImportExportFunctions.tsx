@@ -1,23 +1,10 @@
 
 import { toast } from 'sonner';
 import Papa from 'papaparse';
+import type { InventoryItem } from '@/types/farm';
+import { VALUATION_LABELS, type ValuationLine } from '@/utils/stock-ledger';
 
-export type InventoryItem = {
-  id: number;
-  name: string;
-  category: string;
-  quantity: number;
-  unit: string;
-  minQuantity: number;
-  price: number;
-  location: string;
-  lastUpdated: string;
-  supplier?: string;
-  sku?: string;
-  expiryDate?: string;
-  notes?: string;
-  [key: string]: any;
-};
+export type { InventoryItem };
 
 export type ExportOptions = {
   fileName?: string;
@@ -87,6 +74,38 @@ export const exportInventoryToCSV = (
   }
 };
 
+export const exportValuationToCSV = (lines: ValuationLine[], asOf: string) => {
+  try {
+    const csv = Papa.unparse(lines.map(line => ({
+      article: line.item.name,
+      categorie: line.item.category,
+      quantite: line.quantity,
+      unite: line.item.unit,
+      methode: VALUATION_LABELS[line.method],
+      cout_unitaire: line.unitCost,
+      valeur: line.value
+    })));
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+    const link = document.createElement('a');
+    const fileName = `valorisation_stock_${asOf}.csv`;
+    link.setAttribute('href', URL.createObjectURL(blob));
+    link.setAttribute('download', fileName);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    toast.success("Valorisation exportée", {
+      description: `Le fichier ${fileName} a été téléchargé`
+    });
+    return true;
+  } catch (error) {
+    console.error("Export error:", error);
+    toast.error("Erreur lors de l'exportation des données");
+    return false;
+  }
+};
+
 export type ImportOptions = {
   validateFields?: boolean;
   requiredFields?: string[];
@@ -150,6 +169,7 @@ export const importInventoryFromCSV = (
               minQuantity: Number(item.minQuantity) || 0,
               price: Number(item.price) || 0,
               location: item.location || '',
+              valuationMethod: item.valuationMethod === 'fifo' ? 'fifo' as const : 'weighted_average' as const,
               lastUpdated: item.lastUpdated || new Date().toISOString().split('T')[0],
               supplier: item.supplier || '',
               sku: item.sku || '',
@@ -204,6 +224,7 @@ export const downloadInventoryTemplate = () => {
       minQuantity: "10",
       price: "0.00",
       location: "Emplacement",
+      valuationMethod: "weighted_average",
       supplier: "Fournisseur",
       sku: "REF-001",
       expiryDate: "2023-12-31",
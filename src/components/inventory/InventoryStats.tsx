@@ -7,14 +7,17 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 interface InventoryStatsProps {
   inventoryData: InventoryItem[];
   categoryStats: Array<{name: string; value: number; fill: string}>;
+  /** Value of the stock from its ledger; defaults to quantity × last price */
+  totalValue?: number;
 }
 
 const InventoryStats: React.FC<InventoryStatsProps> = ({ 
   inventoryData,
-  categoryStats
+  categoryStats,
+  totalValue
 }) => {
   const getTotalInventoryValue = () => {
-    return inventoryData.reduce((sum, item) => sum + (item.quantity * item.price), 0).toFixed(2);
+    return (totalValue ?? inventoryData.reduce((sum, item) => sum + (item.quantity * item.price), 0)).toFixed(2);
   };
 
   const getLowStockItems = () => {
@@ -0,0 +1,325 @@
+import React, { useState } from 'react';
+import { Save, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CropData, CropTask, InventoryItem, InventoryTransaction, ParcelData, StockMovementType } from '@/types/farm';
+import { isoDay } from '@/utils/crop-calendar';
+import { applicationRate } from '@/utils/production-costs';
+import { MOVEMENT_LABELS } from '@/utils/stock-ledger';
+
+const NONE = 'none';
+
+interface StockMovementFormProps {
+  item: InventoryItem;
+  type: StockMovementType;
+  /** Locations already used, offered as suggestions */
+  locations: string[];
+  /** Where an issue can be applied */
+  parcels: ParcelData[];
+  crops: CropData[];
+  tasks: CropTask[];
+  onSubmit: (draft: Omit<InventoryTransaction, 'id' | 'user'>) => Promise<unknown>;
+  onCancel: () => void;
+}
+
+const HINTS: Record<StockMovementType, string> = {
+  receipt: 'Livraison ou achat, valorisé à son coût unitaire',
+  issue: 'Intrant appliqué sur une parcelle, une culture ou une tâche, qui en supporte le coût',
+  adjustment: 'Écart constaté : positif pour un surplus, négatif pour une perte',
+  transfer: 'Déplacement du stock d\'un emplacement à un autre'
+};
+
+/**
+ * Form posting one movement to an item's ledger. An issue names where the input was
+ * applied, and its quantity can be typed as a dose per hectare of the treated area.
+ */
+const StockMovementForm = ({
+  item,
+  type,
+  locations,
+  parcels,
+  crops,
+  tasks,
+  onSubmit,
+  onCancel
+}: StockMovementFormProps) => {
+  const [quantity, setQuantity] = useState('');
+  const [unitCost, setUnitCost] = useState(type === 'receipt' ? String(item.price) : '');
+  const [date, setDate] = useState(isoDay(new Date()));
+  const [location, setLocation] = useState(item.location);
+  const [toLocation, setToLocation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [taskId, setTaskId] = useState(NONE);
+  const [cropId, setCropId] = useState(NONE);
+  const [parcelId, setParcelId] = useState(NONE);
+  const [area, setArea] = useState('');
+  // Dose as typed; otherwise the rate is derived from the quantity
+  const [dose, setDose] = useState('');
+
+  const amount = parseFloat(quantity);
+  const cost = parseFloat(unitCost);
+  const treated = parseFloat(area);
+  const hasArea = Number.isFinite(treated) && treated > 0;
+  const hasTarget = taskId !== NONE || cropId !== NONE || parcelId !== NONE;
+  const isValid = Number.isFinite(amount) && amount !== 0 && (type === 'adjustment' || amount > 0) &&
+    (type !== 'receipt' || Number.isFinite(cost)) &&
+    (type !== 'transfer' || (toLocation.trim() !== '' && toLocation.trim() !== location.trim())) &&
+    (type !== 'issue' || hasTarget);
+  const rate = hasArea && Number.isFinite(amount)
+    ? applicationRate({ quantity: amount, treatedArea: treated })
+    : undefined;
+  const openTasks = tasks.filter((task) => !task.completed);
+  const cropOptions = crops.filter((crop) =>
+    crop.status !== 'harvested' && (parcelId === NONE || String(crop.parcelId) === parcelId)
+  );
+
+  // The treated area follows the crop cycle, else the parcel
+  const fillArea = (crop?: CropData, parcel?: ParcelData) => {
+    const hectares = crop?.area || parcel?.area;
+    if (hectares) setArea(String(hectares));
+    setDose('');
+  };
+
+  const handleTask = (value: string) => {
+    setTaskId(value);
+    const task = tasks.find((entry) => String(entry.id) === value);
+    if (!task) return;
+    const crop = crops.find((entry) => entry.id === task.cropId);
+    const parcel = parcels.find((entry) => entry.id === (task.parcelId ?? crop?.parcelId));
+    setCropId(crop ? String(crop.id) : NONE);
+    setParcelId(parcel ? String(parcel.id) : NONE);
+    fillArea(crop, parcel);
+  };
+
+  const handleCrop = (value: string) => {
+    setCropId(value);
+    const crop = crops.find((entry) => String(entry.id) === value);
+    const parcel = parcels.find((entry) => entry.id === crop?.parcelId);
+    if (parcel) setParcelId(String(parcel.id));
+    fillArea(crop, parcel);
+  };
+
+  const handleParcel = (value: string) => {
+    setParcelId(value);
+    const parcel = parcels.find((entry) => String(entry.id) === value);
+    const crop = crops.find((entry) => String(entry.id) === cropId);
+    if (crop && String(crop.parcelId) !== value) setCropId(NONE);
+    fillArea(crop && String(crop.parcelId) === value ? crop : undefined, parcel);
+  };
+
+  const handleDose = (value: string) => {
+    setDose(value);
+    const perHectare = parseFloat(value);
+    if (hasArea && Number.isFinite(perHectare)) setQuantity(String(Math.round(perHectare * treated * 1000) / 1000));
+  };
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+    const posted = await onSubmit({
+      itemId: item.id,
+      type,
+      quantity: amount,
+      date,
+      unitCost: Number.isFinite(cost) && (type === 'receipt' || (type === 'adjustment' && amount > 0)) ? cost : undefined,
+      location: location.trim(),
+      toLocation: type === 'transfer' ? toLocation.trim() : undefined,
+      taskId: type === 'issue' && taskId !== NONE ? Number(taskId) : undefined,
+      cropCycleId: type === 'issue' && cropId !== NONE ? Number(cropId) : undefined,
+      parcelId: type === 'issue' && parcelId !== NONE ? Number(parcelId) : undefined,
+      treatedArea: type === 'issue' && hasArea ? treated : undefined,
+      notes
+    });
+    if (posted) onCancel();
+  };
+
+  return (
+    <div className="mb-6 p-4 border rounded-lg bg-muted/10">
+      <div className="flex justify-between items-center mb-3">
+        <div>
+          <h3 className="font-medium">{MOVEMENT_LABELS[type]}</h3>
+          <p className="text-xs text-muted-foreground">{HINTS[type]}</p>
+        </div>
+        <Button variant="ghost" onClick={onCancel} size="sm">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {type === 'issue' && (
+          <>
+            <div>
+              <Label>Tâche</Label>
+              <Select value={taskId} onValueChange={handleTask}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Aucune tâche</SelectItem>
+                  {openTasks.map((task) => (
+                    <SelectItem key={task.id} value={String(task.id)}>
+                      {task.title} ({new Date(task.date).toLocaleDateString('fr-FR')})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Culture</Label>
+              <Select value={cropId} onValueChange={handleCrop}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Aucune culture</SelectItem>
+                  {cropOptions.map((crop) => (
+                    <SelectItem key={crop.id} value={String(crop.id)}>
+                      {crop.name} – {crop.parcel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Parcelle</Label>
+              <Select value={parcelId} onValueChange={handleParcel}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Aucune parcelle</SelectItem>
+                  {parcels.map((parcel) => (
+                    <SelectItem key={parcel.id} value={String(parcel.id)}>
+                      {parcel.name} ({parcel.area} ha)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="movement-area">Surface traitée (ha)</Label>
+              <Input
+                id="movement-area"
+                type="number"
+                step="0.01"
+                min={0}
+                value={area}
+                onChange={(e) => {
+                  setArea(e.target.value);
+                  setDose('');
+                }}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="movement-rate">Dose ({item.unit}/ha)</Label>
+              <Input
+                id="movement-rate"
+                type="number"
+                step="any"
+                min={0}
+                value={dose || (rate ?? '')}
+                onChange={(e) => handleDose(e.target.value)}
+                disabled={!hasArea}
+                className="mt-1"
+              />
+            </div>
+          </>
+        )}
+        <div>
+          <Label htmlFor="movement-quantity">Quantité</Label>
+          <div className="flex items-center mt-1">
+            <Input
+              id="movement-quantity"
+              type="number"
+              step="any"
+              value={quantity}
+              onChange={(e) => {
+                setQuantity(e.target.value);
+                setDose('');
+              }}
+              min={type === 'adjustment' ? undefined : 0}
+            />
+            <span className="ml-2">{item.unit}</span>
+          </div>
+        </div>
+        {(type === 'receipt' || type === 'adjustment') && (
+          <div>
+            <Label htmlFor="movement-cost">
+              Coût unitaire (€/{item.unit}){type === 'adjustment' ? ' – facultatif' : ''}
+            </Label>
+            <Input
+              id="movement-cost"
+              type="number"
+              step="0.01"
+              min={0}
+              value={unitCost}
+              onChange={(e) => setUnitCost(e.target.value)}
+              placeholder={type === 'adjustment' ? 'Coût actuel' : undefined}
+              className="mt-1"
+              disabled={type === 'adjustment' && !(amount > 0)}
+            />
+          </div>
+        )}
+        <div>
+          <Label htmlFor="movement-date">Date</Label>
+          <Input
+            id="movement-date"
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="movement-location">{type === 'transfer' ? 'Depuis' : 'Emplacement'}</Label>
+          <Input
+            id="movement-location"
+            value={location}
+            onChange={(e) => setLocation(e.target.value)}
+            list="movement-locations"
+            className="mt-1"
+          />
+        </div>
+        {type === 'transfer' && (
+          <div>
+            <Label htmlFor="movement-destination">Vers</Label>
+            <Input
+              id="movement-destination"
+              value={toLocation}
+              onChange={(e) => setToLocation(e.target.value)}
+              list="movement-locations"
+              className="mt-1"
+            />
+          </div>
+        )}
+        <datalist id="movement-locations">
+          {locations.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+        <div>
+          <Label htmlFor="movement-notes">Notes</Label>
+          <Input
+            id="movement-notes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Commentaire..."
+            className="mt-1"
+          />
+        </div>
+      </div>
+      <div className="flex justify-end mt-4">
+        <Button variant="outline" onClick={onCancel} className="mr-2">
+          Annuler
+        </Button>
+        <Button onClick={handleSubmit} disabled={!isValid}>
+          <Save className="mr-2 h-4 w-4" />
+          Enregistrer
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default StockMovementForm;
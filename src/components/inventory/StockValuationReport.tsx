@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { InventoryItem, InventoryTransaction, ValuationMethod } from '@/types/farm';
+import { isoDay } from '@/utils/crop-calendar';
+import { VALUATION_LABELS, valuationReport } from '@/utils/stock-ledger';
+import { exportValuationToCSV } from './ImportExportFunctions';
+
+interface StockValuationReportProps {
+  items: InventoryItem[];
+  movements: InventoryTransaction[];
+}
+
+const ITEM_METHOD = 'item';
+
+const euros = (value: number) =>
+  `${value.toLocaleString('fr-FR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} €`;
+
+/**
+ * Value of the stock on any date, replayed from the ledger with each item's method or
+ * with one method for all
+ */
+const StockValuationReport = ({ items, movements }: StockValuationReportProps) => {
+  const [asOf, setAsOf] = useState(isoDay(new Date()));
+  const [method, setMethod] = useState<ValuationMethod | typeof ITEM_METHOD>(ITEM_METHOD);
+  const lines = valuationReport(items, movements, asOf, method === ITEM_METHOD ? undefined : method);
+  const total = lines.reduce((sum, line) => sum + line.value, 0);
+  const byCategory = Object.entries(
+    lines.reduce<Record<string, number>>((totals, line) => {
+      totals[line.item.category] = (totals[line.item.category] || 0) + line.value;
+      return totals;
+    }, {})
+  ).sort((a, b) => b[1] - a[1]);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle>Valorisation du stock</CardTitle>
+          <CardDescription>
+            {lines.length} article(s) en stock au {new Date(`${asOf}T00:00:00`).toLocaleDateString('fr-FR')} · {euros(total)}
+          </CardDescription>
+        </div>
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="valuation-date">Au</Label>
+            <Input id="valuation-date" type="date" value={asOf} onChange={(e) => e.target.value && setAsOf(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Méthode</Label>
+            <Select value={method} onValueChange={(value) => setMethod(value as ValuationMethod | typeof ITEM_METHOD)}>
+              <SelectTrigger className="w-[260px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ITEM_METHOD}>Méthode de chaque article</SelectItem>
+                {(Object.keys(VALUATION_LABELS) as ValuationMethod[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {VALUATION_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" onClick={() => exportValuationToCSV(lines, asOf)} disabled={lines.length === 0}>
+            <FileDown className="mr-2 h-4 w-4" />
+            CSV
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Article</TableHead>
+                <TableHead>Catégorie</TableHead>
+                <TableHead className="text-right">Quantité</TableHead>
+                <TableHead>Méthode</TableHead>
+                <TableHead className="text-right">Coût unitaire</TableHead>
+                <TableHead className="text-right">Valeur</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map((line) => (
+                <TableRow key={line.item.id}>
+                  <TableCell className="font-medium">{line.item.name}</TableCell>
+                  <TableCell>{line.item.category}</TableCell>
+                  <TableCell className={`text-right ${line.quantity < 0 ? 'text-agri-danger' : ''}`}>
+                    {line.quantity.toLocaleString('fr-FR')} {line.item.unit}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{line.method === 'fifo' ? 'FIFO' : 'CMP'}</TableCell>
+                  <TableCell className="text-right">{euros(line.unitCost)}</TableCell>
+                  <TableCell className="text-right font-medium">{euros(line.value)}</TableCell>
+                </TableRow>
+              ))}
+              {lines.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">
+                    Aucun stock à cette date
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+            {lines.length > 0 && (
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={5}>Total</TableCell>
+                  <TableCell className="text-right">{euros(total)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        </div>
+        {byCategory.length > 1 && (
+          <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm text-muted-foreground">
+            {byCategory.map(([category, value]) => (
+              <span key={category}>
+                {category} : <span className="text-foreground">{euros(value)}</span>
+              </span>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StockValuationReport;
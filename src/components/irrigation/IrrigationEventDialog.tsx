@@ -0,0 +1,140 @@
+import React, { useState } from "react";
+import { Droplets } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { IrrigationEvent, ParcelData } from "@/types/farm";
+
+interface IrrigationEventDialogProps {
+  parcels: ParcelData[];
+  onSave: (event: Omit<IrrigationEvent, "id">) => Promise<IrrigationEvent | null>;
+  /** Prefill from a recommendation */
+  parcelId?: number;
+  date?: string;
+  volume?: number;
+  label?: string;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Logs the water actually applied to a parcel
+ */
+const IrrigationEventDialog = ({ parcels, onSave, parcelId, date, volume, label = "Log irrigation" }: IrrigationEventDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [parcel, setParcel] = useState("");
+  const [day, setDay] = useState(today());
+  const [cubicMeters, setCubicMeters] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const selected = parcels.find((item) => String(item.id) === parcel);
+  const amount = parseFloat(cubicMeters);
+  const isValid = selected && day && Number.isFinite(amount) && amount > 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setParcel(parcelId !== undefined ? String(parcelId) : "");
+      setDay(date ?? today());
+      setCubicMeters(volume !== undefined ? String(volume) : "");
+      setNotes("");
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    const saved = await onSave({ parcelId: selected.id, date: day, volume: amount, notes: notes.trim() || undefined });
+    if (!saved) return;
+    toast.success("Irrigation logged", { description: `${amount.toLocaleString("fr-FR")} m³ on ${selected.name}` });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant={parcelId !== undefined ? "ghost" : "outline"} size="sm">
+          <Droplets className="h-4 w-4 mr-2" />
+          {label}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Irrigation event</DialogTitle>
+          <DialogDescription>Volume measured at the parcel's inlet, before the losses of the system.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Parcel</Label>
+            <Select value={parcel} onValueChange={setParcel}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a parcel" />
+              </SelectTrigger>
+              <SelectContent>
+                {parcels.map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.name} · {item.area} ha
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="irrigation-date">Date</Label>
+              <Input id="irrigation-date" type="date" value={day} onChange={(e) => setDay(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="irrigation-volume">Volume (m³)</Label>
+              <Input
+                id="irrigation-volume"
+                type="number"
+                min={0}
+                step="any"
+                value={cubicMeters}
+                onChange={(e) => setCubicMeters(e.target.value)}
+              />
+            </div>
+          </div>
+          {selected && amount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {(amount / (selected.area * 10)).toLocaleString("fr-FR", { maximumFractionDigits: 1 })} mm over{" "}
+              {selected.area} ha
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="irrigation-notes">Notes</Label>
+            <Input id="irrigation-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IrrigationEventDialog;
@@ -0,0 +1,237 @@
+import React from "react";
+import {
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Droplets, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useWaterBalance } from "@/hooks/use-water-balance";
+import type { IrrigationEvent } from "@/types/farm";
+import { ParcelWaterBalance, SCHEDULE_HORIZON, STAGE_LABELS } from "@/utils/water-balance";
+import { dayDate, formatDistance } from "@/utils/weather-series";
+import IrrigationEventDialog from "./IrrigationEventDialog";
+
+// Days of balance drawn on each chart
+const CHART_DAYS = 60;
+const shortDate = (date: string) =>
+  dayDate(date).toLocaleDateString(undefined, { day: "2-digit", month: "2-digit" });
+
+const status = (balance: ParcelWaterBalance) => {
+  const depletion = balance.current?.depletion ?? 0;
+  if (depletion >= balance.raw) return { label: "Irrigate", className: "bg-red-100 text-red-800 border-red-300" };
+  if (depletion >= balance.raw * 0.7) return { label: "Soon", className: "bg-orange-100 text-orange-800 border-orange-300" };
+  return { label: "Comfortable", className: "bg-green-100 text-green-800 border-green-300" };
+};
+
+/**
+ * Daily soil water balance of each parcel, the irrigation it needs over the coming two
+ * weeks and the log of the irrigation applied
+ */
+const IrrigationSchedulePanel = () => {
+  const { balances, events, parcels, addEvent, deleteEvent } = useWaterBalance();
+  const parcelName = (id: number) => parcels.find((parcel) => parcel.id === id)?.name ?? `#${id}`;
+
+  const handleDelete = async (event: IrrigationEvent) => {
+    if (!window.confirm("Delete this irrigation event?")) return;
+    if (await deleteEvent(event.id)) toast.success("Irrigation event deleted");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl border p-6 flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold flex items-center">
+            <Droplets className="h-6 w-6 mr-2 text-agri-primary" />
+            Irrigation
+          </h2>
+          <p className="text-muted-foreground">
+            Root-zone water balance of each parcel: effective rain and irrigation in, crop
+            evapotranspiration out (FAO-56 crop coefficients by growth stage), within the
+            water the soil holds
+          </p>
+        </div>
+        <IrrigationEventDialog parcels={parcels} onSave={addEvent} />
+      </div>
+
+      {balances.length === 0 && <p className="text-sm text-muted-foreground">No cultivated parcel.</p>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {balances.map((balance) => {
+          const badge = status(balance);
+          const chart = balance.days.slice(-CHART_DAYS);
+          return (
+            <Card key={balance.parcel.id}>
+              <CardHeader>
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-base">
+                      {balance.parcel.name} · {balance.crop}
+                    </CardTitle>
+                    <CardDescription>
+                      {balance.parcel.soilType} · {balance.parcel.irrigation ?? "No irrigation system"}
+                      {balance.station && (
+                        <> · {balance.station.station.name} ({formatDistance(balance.station.distance)})</>
+                      )}
+                    </CardDescription>
+                  </div>
+                  {balance.current && (
+                    <Badge variant="outline" className={badge.className}>
+                      {badge.label}
+                      {balance.estimated && " (estimated)"}
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {!balance.current ? (
+                  <p className="text-sm text-muted-foreground">
+                    No weather station has daily weather yet: import observations from the Weather tab.
+                  </p>
+                ) : (
+                  <>
+                    <div className="h-48">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <ComposedChart data={chart} margin={{ top: 5, right: 10, left: -10, bottom: 0 }}>
+                          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                          <XAxis dataKey="date" tickFormatter={shortDate} fontSize={11} />
+                          <YAxis fontSize={11} unit=" mm" />
+                          <Tooltip labelFormatter={(date) => dayDate(String(date)).toLocaleDateString()} />
+                          <Legend wrapperStyle={{ fontSize: 11 }} />
+                          <ReferenceLine y={balance.raw} stroke="#FF9800" strokeDasharray="4 4" />
+                          <ReferenceLine y={balance.taw} stroke="#F44336" strokeDasharray="4 4" />
+                          <Bar dataKey="rain" name="Effective rain" fill="#90CAF9" />
+                          <Bar dataKey="irrigation" name="Irrigation" fill="#1E88E5" />
+                          <Line
+                            type="monotone"
+                            dataKey="depletion"
+                            name="Depletion"
+                            stroke="#8D6E63"
+                            strokeWidth={2}
+                            dot={false}
+                          />
+                        </ComposedChart>
+                      </ResponsiveContainer>
+                    </div>
+                    <p className="text-sm">
+                      {balance.current.depletion} mm below field capacity on{" "}
+                      {dayDate(balance.current.date).toLocaleDateString()}; irrigate past {balance.raw} mm of the{" "}
+                      {balance.taw} mm the root zone holds. {STAGE_LABELS[balance.current.stage]} stage, Kc{" "}
+                      {balance.current.kc}.
+                    </p>
+                    {balance.estimated && balance.weatherUntil && (
+                      <p className="text-xs text-orange-700">
+                        Estimated: the weather stops on {dayDate(balance.weatherUntil).toLocaleDateString()}, the
+                        balance runs to today on the last evapotranspiration and without rain.
+                      </p>
+                    )}
+                    {!balance.irrigable && (
+                      <p className="text-xs text-muted-foreground">
+                        The parcel has no irrigation system: the schedule shows what the crop would need.
+                      </p>
+                    )}
+                    {balance.recommendations.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        No irrigation needed over the next {SCHEDULE_HORIZON} days.
+                      </p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Date</TableHead>
+                            <TableHead className="text-right">Depth</TableHead>
+                            <TableHead className="text-right">Volume</TableHead>
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {balance.recommendations.map((recommendation) => (
+                            <TableRow key={recommendation.date}>
+                              <TableCell>{dayDate(recommendation.date).toLocaleDateString()}</TableCell>
+                              <TableCell className="text-right">{recommendation.depth} mm</TableCell>
+                              <TableCell className="text-right">
+                                {recommendation.volume.toLocaleString("fr-FR")} m³
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {balance.irrigable && (
+                                  <IrrigationEventDialog
+                                    parcels={parcels}
+                                    onSave={addEvent}
+                                    parcelId={balance.parcel.id}
+                                    date={recommendation.date}
+                                    volume={recommendation.volume}
+                                    label="Log"
+                                  />
+                                )}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {balance.profile.source} coefficients, roots {balance.profile.rootDepth} m, system efficiency{" "}
+                      {Math.round(balance.efficiency * 100)} %.
+                    </p>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Irrigation log</CardTitle>
+          <CardDescription>Water applied, counted in the water-use indicator of the statistics</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No irrigation logged.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Parcel</TableHead>
+                  <TableHead className="text-right">Volume</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell>{dayDate(event.date).toLocaleDateString()}</TableCell>
+                    <TableCell>{parcelName(event.parcelId)}</TableCell>
+                    <TableCell className="text-right">{event.volume.toLocaleString("fr-FR")} m³</TableCell>
+                    <TableCell className="text-muted-foreground">{event.notes}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(event)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default IrrigationSchedulePanel;
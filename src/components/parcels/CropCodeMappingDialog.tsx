@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { FileCode2, Plus } from 'lucide-react';
+import { toast } from 'sonner';
+import { usePacSettings } from '@/hooks/use-pac-settings';
+import type { ParcelData } from '@/types/farm';
+import {
+  cropKey,
+  CropCode,
+  isValidCropCode,
+  isValidPacage,
+  mappedCrops,
+  PacSettings
+} from '@/utils/parcel-export';
+
+interface CropCodeMappingDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  parcels: ParcelData[];
+}
+
+const CropCodeMappingDialog = ({ isOpen, onOpenChange, parcels }: CropCodeMappingDialogProps) => {
+  const { settings, saveSettings } = usePacSettings();
+  const [draft, setDraft] = useState<PacSettings>(settings);
+  const [crops, setCrops] = useState<string[]>([]);
+  const [newCrop, setNewCrop] = useState('');
+
+  // Edit a copy of the saved mapping each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setDraft(settings);
+    setCrops(mappedCrops(parcels, settings));
+  }, [isOpen, settings, parcels]);
+
+  const updateCode = (crop: string, changes: Partial<CropCode>) => {
+    setDraft(current => {
+      const key = cropKey(crop);
+      const entry = { crop, code: '', ...current.cropCodes[key], ...changes };
+      return { ...current, cropCodes: { ...current.cropCodes, [key]: entry } };
+    });
+  };
+
+  const handleAddCrop = () => {
+    const crop = newCrop.trim();
+    if (!crop) return;
+    if (!crops.some(existing => cropKey(existing) === cropKey(crop))) setCrops(current => [...current, crop]);
+    setNewCrop('');
+  };
+
+  const invalidCodes = crops.filter(crop => {
+    const entry = draft.cropCodes[cropKey(crop)];
+    return entry && ((entry.code && !isValidCropCode(entry.code)) || (entry.precision && !isValidCropCode(entry.precision)));
+  });
+  const pacageInvalid = draft.pacage !== '' && !isValidPacage(draft.pacage);
+
+  const handleSave = () => {
+    saveSettings(draft);
+    const missing = crops.filter(crop => !draft.cropCodes[cropKey(crop)]?.code).length;
+    toast.success("Codes cultures enregistrés", {
+      description: missing > 0
+        ? `${missing} culture(s) sans code seront exportées sans CODE_CULTU`
+        : "Toutes les cultures ont un code PAC"
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <FileCode2 className="h-5 w-5 mr-2" />
+            Codes cultures PAC
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <p className="text-sm text-muted-foreground">
+            Associez chaque culture de l'exploitation au code culture (3 caractères) et, si besoin, au code
+            précision de la nomenclature Telepac de la campagne en cours.
+          </p>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="pacage">Numéro PACAGE</Label>
+            <Input
+              id="pacage"
+              value={draft.pacage}
+              inputMode="numeric"
+              maxLength={9}
+              placeholder="971000000"
+              onChange={(e) => setDraft(current => ({ ...current, pacage: e.target.value.replace(/\D/g, '') }))}
+              className={`w-40 ${pacageInvalid ? 'border-red-500' : ''}`}
+            />
+            {pacageInvalid && <p className="text-xs text-red-600">Le numéro PACAGE compte 9 chiffres</p>}
+          </div>
+
+          <div className="border rounded-lg divide-y">
+            <div className="grid grid-cols-[1fr_100px_100px] gap-3 px-3 py-2 text-xs font-medium text-muted-foreground">
+              <span>Culture</span>
+              <span>Code culture</span>
+              <span>Précision</span>
+            </div>
+            {crops.length === 0 && (
+              <p className="px-3 py-4 text-sm text-muted-foreground">Aucune culture sur les parcelles.</p>
+            )}
+            {crops.map(crop => {
+              const entry = draft.cropCodes[cropKey(crop)];
+              const code = entry?.code ?? '';
+              const precision = entry?.precision ?? '';
+              return (
+                <div key={cropKey(crop)} className="grid grid-cols-[1fr_100px_100px] gap-3 px-3 py-2 items-center">
+                  <span className="text-sm">{crop}</span>
+                  <Input
+                    value={code}
+                    maxLength={3}
+                    placeholder="---"
+                    aria-label={`Code culture ${crop}`}
+                    onChange={(e) => updateCode(crop, { code: e.target.value.toUpperCase() })}
+                    className={`h-8 font-mono ${code && !isValidCropCode(code) ? 'border-red-500' : ''}`}
+                  />
+                  <Input
+                    value={precision}
+                    maxLength={3}
+                    aria-label={`Précision ${crop}`}
+                    onChange={(e) => updateCode(crop, { precision: e.target.value.toUpperCase() })}
+                    className={`h-8 font-mono ${precision && !isValidCropCode(precision) ? 'border-red-500' : ''}`}
+                  />
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="flex gap-2">
+            <Input
+              value={newCrop}
+              placeholder="Autre culture"
+              onChange={(e) => setNewCrop(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddCrop()}
+              className="h-8 max-w-xs"
+            />
+            <Button variant="outline" size="sm" onClick={handleAddCrop} disabled={!newCrop.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Ajouter
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Annuler</Button>
+          <Button onClick={handleSave} disabled={pacageInvalid || invalidCodes.length > 0}>
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CropCodeMappingDialog;
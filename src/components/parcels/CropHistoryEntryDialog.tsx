@@ -0,0 +1,154 @@
+import React, { useEffect, useId, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import type { CropHistoryEntry, CropSeason, Culture, ParcelData, RotationRule } from '@/types/farm';
+import { checkRotation, cropFamily, seasonLabel } from '@/utils/crop-rotation';
+
+export type CropHistoryDraft = Omit<CropHistoryEntry, 'id'>;
+
+interface CropHistoryEntryDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  parcel: ParcelData | null;
+  year: number;
+  season: CropSeason;
+  /** Entry starting in this season, when editing */
+  entry?: CropHistoryEntry;
+  history: CropHistoryEntry[];
+  cultures: Culture[];
+  rules: RotationRule[];
+  onSave: (draft: CropHistoryDraft) => void;
+  onDelete?: (entry: CropHistoryEntry) => void;
+}
+
+const CropHistoryEntryDialog = ({
+  isOpen,
+  onOpenChange,
+  parcel,
+  year,
+  season,
+  entry,
+  history,
+  cultures,
+  rules,
+  onSave,
+  onDelete
+}: CropHistoryEntryDialogProps) => {
+  const [crop, setCrop] = useState('');
+  const [yieldValue, setYieldValue] = useState('');
+  const [notes, setNotes] = useState('');
+  const cropListId = useId();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setCrop(entry?.crop ?? '');
+    setYieldValue(entry?.yield !== undefined ? String(entry.yield) : '');
+    setNotes(entry?.notes ?? '');
+  }, [isOpen, entry]);
+
+  const family = cropFamily(cultures, crop);
+
+  // Check the rules as if the entry were already saved
+  const warnings = useMemo(() => {
+    if (!parcel || !crop.trim()) return [];
+    const draft: CropHistoryEntry = { id: entry?.id ?? -1, parcelId: parcel.id, year, season, crop: crop.trim() };
+    const others = history.filter(item => item.id !== draft.id && item.parcelId === parcel.id);
+    return checkRotation([...others, draft], cultures, rules).filter(violation => violation.entryId === draft.id);
+  }, [parcel, crop, entry, year, season, history, cultures, rules]);
+
+  const handleSave = () => {
+    if (!parcel || !crop.trim()) return;
+    const parsedYield = yieldValue.trim() === '' ? undefined : Number(yieldValue.replace(',', '.'));
+    onSave({
+      parcelId: parcel.id,
+      year,
+      season,
+      crop: crop.trim(),
+      yield: Number.isFinite(parsedYield) ? parsedYield : undefined,
+      notes: notes.trim() || undefined
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>
+            {parcel?.name} · {seasonLabel(year, season)}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1.5">
+            <Label htmlFor="history-crop">Culture</Label>
+            <Input
+              id="history-crop"
+              list={cropListId}
+              value={crop}
+              onChange={(e) => setCrop(e.target.value)}
+              placeholder="Ex. Igname"
+            />
+            <datalist id={cropListId}>
+              {cultures.map(culture => <option key={culture.id} value={culture.name} />)}
+            </datalist>
+            <p className="text-xs text-muted-foreground">
+              {crop.trim()
+                ? family ? `Famille : ${family}` : 'Famille inconnue : ajoutez la culture au référentiel pour vérifier les rotations'
+                : 'La culture occupe la parcelle jusqu\'à l\'entrée suivante'}
+            </p>
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="history-yield">Rendement (t/ha)</Label>
+            <Input
+              id="history-yield"
+              inputMode="decimal"
+              value={yieldValue}
+              onChange={(e) => setYieldValue(e.target.value)}
+              className="w-32"
+            />
+          </div>
+
+          <div className="space-y-1.5">
+            <Label htmlFor="history-notes">Remarques</Label>
+            <Textarea id="history-notes" rows={2} value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          {warnings.length > 0 && (
+            <ul className="space-y-2">
+              {warnings.map(warning => (
+                <li
+                  key={warning.rule.id}
+                  className={`flex gap-2 rounded-md p-2 text-sm ${warning.severity === 'error' ? 'bg-red-50 text-red-800' : 'bg-amber-50 text-amber-800'}`}
+                >
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    <span className="font-medium">{warning.rule.name}</span> : {warning.detail}
+                    {warning.rule.message && <span className="block text-xs">{warning.rule.message}</span>}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          {entry && onDelete && (
+            <Button variant="outline" className="mr-auto text-agri-danger" onClick={() => onDelete(entry)}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              Supprimer
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Annuler</Button>
+          <Button onClick={handleSave} disabled={!crop.trim()}>Enregistrer</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CropHistoryEntryDialog;
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import { useLeafletMap } from '@/hooks/use-leaflet-map';
+import type { ParcelData } from '@/types/farm';
+import { GUADELOUPE_CENTER, GUADELOUPE_ZOOM, mapLabel } from '@/utils/map';
+import { IMPORT_ACTION_COLORS, ImportRow } from '@/utils/parcel-import';
+
+interface ImportPreviewMapProps {
+  rows: ImportRow[];
+  existing: ParcelData[];
+  selectedIndex?: number | null;
+  onSelect?: (index: number) => void;
+  /** The map frames the features again each time this changes (e.g. a new file) */
+  frameKey?: string;
+  className?: string;
+}
+
+const ImportPreviewMap = ({ rows, existing, selectedIndex, onSelect, frameKey, className = 'h-[320px]' }: ImportPreviewMapProps) => {
+  const { containerRef, map } = useLeafletMap({
+    center: [GUADELOUPE_CENTER.lat, GUADELOUPE_CENTER.lng],
+    zoom: GUADELOUPE_ZOOM
+  });
+  const rowsRef = useRef(rows);
+  rowsRef.current = rows;
+
+  // Existing parcels stay in the background for comparison
+  useEffect(() => {
+    if (!map) return;
+    const group = L.layerGroup().addTo(map);
+    existing.forEach(parcel => {
+      if (!parcel.boundary) return;
+      L.geoJSON(parcel.boundary, { style: { color: '#757575', weight: 1, dashArray: '3 3', fillOpacity: 0.05 } })
+        .bindTooltip(mapLabel(`Existante : ${parcel.name}`))
+        .addTo(group);
+    });
+    return () => {
+      group.remove();
+    };
+  }, [map, existing]);
+
+  useEffect(() => {
+    if (!map) return;
+    const group = L.featureGroup().addTo(map);
+    rows.forEach(row => {
+      const color = IMPORT_ACTION_COLORS[row.action];
+      const selected = row.index === selectedIndex;
+      const style: L.PathOptions = {
+        color,
+        weight: selected ? 4 : 2,
+        fillOpacity: selected ? 0.45 : 0.25,
+        dashArray: row.action === 'skip' ? '5 4' : undefined
+      };
+      const shape = row.values.boundary
+        ? L.geoJSON(row.values.boundary, { style })
+        : row.values.coordinates
+          ? L.circleMarker([row.values.coordinates.lat, row.values.coordinates.lng], { ...style, radius: 7 })
+          : null;
+      if (!shape) return;
+      shape
+        .bindTooltip(mapLabel(`${row.index + 1}. ${row.name || 'Sans nom'}`))
+        .on('click', () => onSelect?.(row.index))
+        .addTo(group);
+    });
+    return () => {
+      group.remove();
+    };
+  }, [map, rows, selectedIndex, onSelect]);
+
+  // Frame the imported features whenever a new file is previewed
+  useEffect(() => {
+    if (!map) return;
+    const bounds = L.latLngBounds([]);
+    rowsRef.current.forEach(row => {
+      if (row.values.boundary) bounds.extend(L.geoJSON(row.values.boundary).getBounds());
+      else if (row.values.coordinates) bounds.extend([row.values.coordinates.lat, row.values.coordinates.lng]);
+    });
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [20, 20], maxZoom: 17 });
+  }, [map, frameKey]);
+
+  return <div ref={containerRef} className={`w-full rounded-lg overflow-hidden z-0 ${className}`} />;
+};
+
+export default ImportPreviewMap;
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { IrrigationLine, ParcelData } from '@/types/farm';
+import { isBaseLayer, LegendEntry, MAP_LAYER_DEFINITIONS, MapLayerState, OverlayId, overlayLegend } from '@/utils/map-layers';
+
+interface MapLegendProps {
+  layers: MapLayerState[];
+  parcels: ParcelData[];
+  irrigationLines: IrrigationLine[];
+}
+
+const LegendSymbol = ({ entry }: { entry: LegendEntry }) => {
+  if (entry.shape === 'line') {
+    return <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: entry.color }} />;
+  }
+  return (
+    <span
+      className="inline-block w-3 h-3 rounded-sm border"
+      style={entry.shape === 'fill'
+        ? { backgroundColor: entry.color, borderColor: entry.color }
+        : { borderColor: entry.color, borderWidth: 2 }}
+    />
+  );
+};
+
+const MapLegend = ({ layers, parcels, irrigationLines }: MapLegendProps) => {
+  const overlays = layers.filter(layer => layer.enabled && !isBaseLayer(layer.id));
+
+  if (overlays.length === 0) {
+    return <div className="text-xs text-muted-foreground">Aucune couche thématique affichée</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {overlays.map(layer => {
+        const entries = overlayLegend(layer.id as OverlayId, { parcels, irrigationLines });
+        return (
+          <div key={layer.id}>
+            <div className="text-xs font-medium mb-0.5">{MAP_LAYER_DEFINITIONS[layer.id].name}</div>
+            {entries.length === 0 ? (
+              <div className="text-xs text-muted-foreground">Aucune donnée</div>
+            ) : (
+              <ul className="space-y-0.5">
+                {entries.map(entry => (
+                  <li key={entry.label} className="flex items-center gap-1.5 text-xs">
+                    <LegendSymbol entry={entry} />
+                    {entry.label}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MapLegend;
@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import { Eraser, Ruler, Save, Undo2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import type { ParcelData } from '@/types/farm';
+import type { LatLng } from '@/utils/geo';
+import {
+  formatMeasurement,
+  measure,
+  Measurement,
+  MeasurementKind,
+  MIN_POINTS,
+  parcelVertices,
+  snapToVertex
+} from '@/utils/measurement';
+
+interface MeasurementToolProps {
+  map: L.Map | null;
+  parcels: ParcelData[];
+  /** Used to suggest a name for the next measurement */
+  savedCount: number;
+  onSave: (measurement: Omit<Measurement, 'id'>) => void;
+}
+
+const MEASURE_STYLE: L.PathOptions = { color: '#E65100', weight: 3, fillColor: '#FF9800', fillOpacity: 0.2 };
+
+const pointIcon = L.divIcon({
+  className: '',
+  html: '<div class="h-2.5 w-2.5 rounded-full bg-white border-2 border-orange-700"></div>',
+  iconSize: [10, 10],
+  iconAnchor: [5, 5]
+});
+
+const MeasurementTool = ({ map, parcels, savedCount, onSave }: MeasurementToolProps) => {
+  const [kind, setKind] = useState<MeasurementKind>('distance');
+  const [points, setPoints] = useState<LatLng[]>([]);
+  const [snapping, setSnapping] = useState(true);
+  const [name, setName] = useState('');
+  const [layers, setLayers] = useState<{ shape: L.LayerGroup; preview: L.LayerGroup } | null>(null);
+
+  const vertices = useMemo(() => parcelVertices(parcels), [parcels]);
+  const lastPointRef = useRef<LatLng | null>(null);
+  lastPointRef.current = points[points.length - 1] ?? null;
+
+  useEffect(() => {
+    if (!map) return;
+    const shape = L.layerGroup().addTo(map);
+    const preview = L.layerGroup().addTo(map);
+    setLayers({ shape, preview });
+
+    // Clicks place points while measuring: keep parcel popups and double-click zoom out of the way
+    const closePopup = () => map.closePopup();
+    map.on('popupopen', closePopup);
+    map.doubleClickZoom.disable();
+    map.getContainer().style.cursor = 'crosshair';
+
+    return () => {
+      map.off('popupopen', closePopup);
+      map.doubleClickZoom.enable();
+      map.getContainer().style.cursor = '';
+      shape.remove();
+      preview.remove();
+      setLayers(null);
+    };
+  }, [map]);
+
+  // Place points on click, snapped to the nearest parcel vertex; preview the next segment on hover
+  useEffect(() => {
+    if (!map || !layers) return;
+
+    const resolve = (latlng: L.LatLng): { point: LatLng; snapped: boolean } => {
+      const point = { lat: latlng.lat, lng: latlng.lng };
+      const vertex = snapping ? snapToVertex(map, point, vertices) : null;
+      return vertex ? { point: vertex, snapped: true } : { point, snapped: false };
+    };
+
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      const { point } = resolve(event.latlng);
+      setPoints(current => [...current, point]);
+    };
+
+    const handleMove = (event: L.LeafletMouseEvent) => {
+      const { point, snapped } = resolve(event.latlng);
+      layers.preview.clearLayers();
+      const last = lastPointRef.current;
+      if (last) {
+        L.polyline([[last.lat, last.lng], [point.lat, point.lng]], { ...MEASURE_STYLE, weight: 2, dashArray: '4 6', interactive: false })
+          .addTo(layers.preview);
+      }
+      if (snapped) {
+        L.circleMarker([point.lat, point.lng], { radius: 7, color: '#E65100', weight: 2, fillOpacity: 0, interactive: false })
+          .addTo(layers.preview);
+      }
+    };
+
+    const clearPreview = () => layers.preview.clearLayers();
+
+    map.on('click', handleClick);
+    map.on('mousemove', handleMove);
+    map.on('mouseout', clearPreview);
+    return () => {
+      map.off('click', handleClick);
+      map.off('mousemove', handleMove);
+      map.off('mouseout', clearPreview);
+    };
+  }, [map, layers, snapping, vertices]);
+
+  useEffect(() => {
+    if (!layers) return;
+    layers.shape.clearLayers();
+    const latLngs = points.map(point => L.latLng(point.lat, point.lng));
+    if (kind === 'area' && latLngs.length >= 3) {
+      L.polygon(latLngs, { ...MEASURE_STYLE, interactive: false }).addTo(layers.shape);
+    } else if (latLngs.length >= 2) {
+      L.polyline(latLngs, { ...MEASURE_STYLE, interactive: false }).addTo(layers.shape);
+    }
+    latLngs.forEach(latLng => L.marker(latLng, { icon: pointIcon, interactive: false, keyboard: false }).addTo(layers.shape));
+  }, [layers, points, kind]);
+
+  const value = measure(kind, points);
+  const complete = points.length >= MIN_POINTS[kind];
+  const suggestedName = `Mesure ${savedCount + 1}`;
+
+  const handleSave = () => {
+    onSave({
+      name: name.trim() || suggestedName,
+      kind,
+      points,
+      value,
+      createdAt: new Date().toISOString()
+    });
+    setPoints([]);
+    setName('');
+  };
+
+  return (
+    <div className="absolute top-2 left-2 z-[1000] bg-white/95 p-3 rounded-md shadow-md w-64 space-y-2 text-sm">
+      <div className="flex items-center font-medium">
+        <Ruler className="h-4 w-4 mr-1 text-agri-primary" />
+        Mode mesure activé
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        <Button size="sm" variant={kind === 'distance' ? 'default' : 'outline'} className="h-7" onClick={() => setKind('distance')}>
+          Distance
+        </Button>
+        <Button size="sm" variant={kind === 'area' ? 'default' : 'outline'} className="h-7" onClick={() => setKind('area')}>
+          Surface
+        </Button>
+      </div>
+
+      <div className="font-bold">
+        {complete
+          ? `${kind === 'distance' ? 'Distance' : 'Surface'} : ${formatMeasurement(kind, value)}`
+          : <span className="font-normal text-muted-foreground">Cliquez sur la carte pour placer au moins {MIN_POINTS[kind]} points</span>}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Checkbox id="measure-snapping" checked={snapping} onCheckedChange={(checked) => setSnapping(checked === true)} />
+        <label htmlFor="measure-snapping" className="text-xs leading-none">Accrocher aux sommets des parcelles</label>
+      </div>
+
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder={suggestedName}
+        className="h-8 text-xs"
+      />
+
+      <div className="flex gap-1">
+        <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => setPoints(current => current.slice(0, -1))} disabled={points.length === 0} title="Retirer le dernier point">
+          <Undo2 className="h-3.5 w-3.5" />
+        </Button>
+        <Button size="sm" variant="outline" className="h-7 px-2" onClick={() => setPoints([])} disabled={points.length === 0} title="Effacer la mesure">
+          <Eraser className="h-3.5 w-3.5" />
+        </Button>
+        <Button size="sm" className="h-7 flex-1" onClick={handleSave} disabled={!complete}>
+          <Save className="h-3.5 w-3.5 mr-1" />
+          Enregistrer
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default MeasurementTool;
@@ -9,6 +9,7 @@ import {
   FileText,
   Plus,
   FileBarChart,
+  FileCode2,
   Layers 
 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
@@ -20,7 +21,16 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { PARCEL_EXPORT_FORMATS, ParcelExportFormat } from "@/utils/parcel-export";
 
 interface ParcelAlert {
   id: number;
@@ -30,7 +40,8 @@ interface ParcelAlert {
 }
 
 interface ParcelActionButtonsProps {
-  onExportData: () => void;
+  onExportData: (format: ParcelExportFormat) => void;
+  onConfigureCropCodes?: () => void;
   onImportData: () => void;
   onOpenMap: () => void;
   onAddParcel?: () => void;
@@ -44,6 +55,7 @@ interface ParcelActionButtonsProps {
 
 const ParcelActionButtons = ({
   onExportData,
+  onConfigureCropCodes,
   onImportData,
   onOpenMap,
   onAddParcel,
@@ -165,14 +177,39 @@ const ParcelActionButtons = ({
         </TooltipProvider>
       )}
       
-      <Button 
-        variant="outline" 
-        onClick={onExportData}
-        className="bg-white border-gray-200 hover:bg-gray-50"
-      >
-        <Download className="mr-2 h-4 w-4 text-gray-600" />
-        Export
-      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button 
+            variant="outline" 
+            className="bg-white border-gray-200 hover:bg-gray-50"
+          >
+            <Download className="mr-2 h-4 w-4 text-gray-600" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel>Exporter les parcelles</DropdownMenuLabel>
+          {PARCEL_EXPORT_FORMATS.map(format => (
+            <DropdownMenuItem
+              key={format.id}
+              onClick={() => onExportData(format.id)}
+              className="cursor-pointer flex flex-col items-start"
+            >
+              <span>{format.label}</span>
+              <span className="text-xs text-muted-foreground">{format.description}</span>
+            </DropdownMenuItem>
+          ))}
+          {onConfigureCropCodes && (
+            <>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={onConfigureCropCodes} className="cursor-pointer">
+                <FileCode2 className="mr-2 h-4 w-4" />
+                Codes cultures PAC…
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
       
       <Button 
         variant="outline" 
@@ -1,8 +1,37 @@
 
-import React from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from '@/components/ui/button';
-import { Map, Calendar, Filter } from 'lucide-react';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Map, Calendar, Filter, AlertTriangle, ArrowLeft, Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import ImportPreviewMap from './ImportPreviewMap';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { parcelTable } from '@/services/farm-tables';
+import { GEO_FILE_ACCEPT, GeoDataset, GeoFormatError, parseGeoFile } from '@/utils/geo-formats';
+import {
+  buildImportPlan,
+  IMPORT_ACTION_COLORS,
+  IMPORT_ACTION_LABELS,
+  IMPORT_FIELDS,
+  ImportAction,
+  ImportField,
+  parcelFromRow,
+  parcelUpdateFromRow,
+  PropertyMapping,
+  propertyKeys,
+  rowHasErrors,
+  suggestMapping
+} from '@/utils/parcel-import';
 
 interface ParcelImportDialogProps {
   isOpen: boolean;
@@ -10,35 +39,281 @@ interface ParcelImportDialogProps {
   onImportConfirm: (importType: string) => void;
 }
 
+const UNMAPPED = '__none';
+
+const FORMAT_LABELS: Record<GeoDataset['format'], string> = {
+  geojson: 'GeoJSON',
+  kml: 'KML',
+  shapefile: 'Shapefile'
+};
+
 const ParcelImportDialog = ({ isOpen, onOpenChange, onImportConfirm }: ParcelImportDialogProps) => {
+  const { data: parcels, addItem, updateItem } = useDataOperations({
+    repository: getRepository(parcelTable),
+    notifications: false
+  });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dataset, setDataset] = useState<GeoDataset | null>(null);
+  const [mapping, setMapping] = useState<PropertyMapping>({});
+  const [actions, setActions] = useState<Record<number, ImportAction>>({});
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const keys = useMemo(() => dataset ? propertyKeys(dataset) : [], [dataset]);
+
+  // Actions picked by hand override the suggested ones while they remain possible
+  const rows = useMemo(() => {
+    if (!dataset) return [];
+    return buildImportPlan(dataset, mapping, parcels).map(row => {
+      const chosen = actions[row.index];
+      const allowed = !rowHasErrors(row) && (chosen !== 'update' || row.match);
+      return chosen && allowed ? { ...row, action: chosen } : row;
+    });
+  }, [dataset, mapping, parcels, actions]);
+
+  const toCreate = rows.filter(row => row.action === 'create').length;
+  const toUpdate = rows.filter(row => row.action === 'update').length;
+  const rejected = rows.filter(rowHasErrors).length;
+
+  const reset = () => {
+    setDataset(null);
+    setMapping({});
+    setActions({});
+    setSelectedIndex(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) reset();
+    onOpenChange(open);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setIsReading(true);
+    try {
+      const parsed = await parseGeoFile(file);
+      setDataset(parsed);
+      setMapping(suggestMapping(propertyKeys(parsed)));
+      setActions({});
+      setSelectedIndex(null);
+    } catch (error) {
+      console.error('Geospatial import error:', error);
+      toast.error("Lecture impossible", {
+        description: error instanceof GeoFormatError ? error.message : `Le fichier ${file.name} n'a pas pu être lu`
+      });
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleMappingChange = (field: ImportField, key: string) => {
+    setMapping(current => ({ ...current, [field]: key === UNMAPPED ? undefined : key }));
+  };
+
+  const handleSelectRow = useCallback((index: number) => setSelectedIndex(index), []);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    let created = 0;
+    let updated = 0;
+    for (const row of rows) {
+      if (row.action === 'create' && await addItem(parcelFromRow(row))) created++;
+      if (row.action === 'update' && row.match && await updateItem(row.match.id, parcelUpdateFromRow(row))) updated++;
+    }
+    setIsImporting(false);
+
+    toast.success("Import terminé", {
+      description: `${created} parcelle(s) créée(s), ${updated} mise(s) à jour`
+    });
+    reset();
+    onImportConfirm('géospatiales');
+  };
+
   return (
-    <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent>
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogContent className={dataset ? 'max-w-5xl max-h-[95vh] overflow-y-auto' : undefined}>
         <DialogHeader>
-          <DialogTitle>Import Data</DialogTitle>
+          <DialogTitle>{dataset ? `Import de ${dataset.fileName}` : 'Import Data'}</DialogTitle>
         </DialogHeader>
-        <div className="space-y-4">
-          <p className="text-muted-foreground">Choose the type of data to import:</p>
-          <div className="grid grid-cols-1 gap-2">
-            <Button variant="outline" className="justify-start" onClick={() => onImportConfirm('parcellaires')}>
-              <Map className="h-4 w-4 mr-2" />
-              Parcel Data (CSV)
-            </Button>
-            <Button variant="outline" className="justify-start" onClick={() => onImportConfirm('géospatiales')}>
-              <Calendar className="h-4 w-4 mr-2" />
-              Geospatial Data (GeoJSON)
-            </Button>
-            <Button variant="outline" className="justify-start" onClick={() => onImportConfirm('de cultures')}>
-              <Filter className="h-4 w-4 mr-2" />
-              Crop History (Excel)
-            </Button>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={GEO_FILE_ACCEPT}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+
+        {!dataset ? (
+          <div className="space-y-4">
+            <p className="text-muted-foreground">Choose the type of data to import:</p>
+            <div className="grid grid-cols-1 gap-2">
+              <Button variant="outline" className="justify-start" onClick={() => onImportConfirm('parcellaires')}>
+                <Map className="h-4 w-4 mr-2" />
+                Parcel Data (CSV)
+              </Button>
+              <Button
+                variant="outline"
+                className="justify-start"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isReading}
+              >
+                {isReading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Calendar className="h-4 w-4 mr-2" />}
+                Geospatial Data (GeoJSON, KML, zipped Shapefile)
+              </Button>
+              <Button variant="outline" className="justify-start" onClick={() => onImportConfirm('de cultures')}>
+                <Filter className="h-4 w-4 mr-2" />
+                Crop History (Excel)
+              </Button>
+            </div>
+            <div className="flex justify-end">
+              <Button variant="ghost" onClick={() => handleOpenChange(false)}>
+                Cancel
+              </Button>
+            </div>
           </div>
-          <div className="flex justify-end">
-            <Button variant="ghost" onClick={() => onOpenChange(false)}>
-              Cancel
-            </Button>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {FORMAT_LABELS[dataset.format]} · {dataset.features.length} élément(s) · Coordonnées : {dataset.crs}
+            </p>
+
+            {(dataset.crsError || dataset.warnings.length > 0) && (
+              <Alert variant={dataset.crsError ? 'destructive' : 'default'}>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {dataset.crsError && <div>{dataset.crsError}</div>}
+                  {dataset.warnings.map(warning => <div key={warning}>{warning}</div>)}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-[280px_1fr] gap-4">
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">Correspondance des attributs</h4>
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="grid grid-cols-[110px_1fr] items-center gap-2">
+                    <span className="text-xs">{label}{required && ' *'}</span>
+                    <Select value={mapping[field] ?? UNMAPPED} onValueChange={(value) => handleMappingChange(field, value)}>
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>— Ignorer —</SelectItem>
+                        {keys.map(key => (
+                          <SelectItem key={key} value={key}>{key}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <ImportPreviewMap
+                  rows={rows}
+                  existing={parcels}
+                  selectedIndex={selectedIndex}
+                  onSelect={handleSelectRow}
+                  frameKey={dataset.fileName}
+                />
+                <div className="flex flex-wrap gap-3 text-xs">
+                  {(Object.keys(IMPORT_ACTION_LABELS) as ImportAction[]).map(action => (
+                    <span key={action} className="flex items-center gap-1">
+                      <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: IMPORT_ACTION_COLORS[action] }} />
+                      {IMPORT_ACTION_LABELS[action]}
+                    </span>
+                  ))}
+                  <span className="flex items-center gap-1">
+                    <span className="inline-block w-3 h-3 rounded-sm border border-dashed border-gray-500" />
+                    Parcelle existante
+                  </span>
+                </div>
+              </div>
+            </div>
+
+            <div className="border rounded-lg max-h-64 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10">#</TableHead>
+                    <TableHead>Nom</TableHead>
+                    <TableHead>Surface mesurée</TableHead>
+                    <TableHead className="w-[150px]">Action</TableHead>
+                    <TableHead>Contrôles</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => (
+                    <TableRow
+                      key={row.index}
+                      className={`cursor-pointer ${row.index === selectedIndex ? 'bg-muted/50' : ''}`}
+                      onClick={() => setSelectedIndex(row.index)}
+                    >
+                      <TableCell>{row.index + 1}</TableCell>
+                      <TableCell>
+                        {row.name || <span className="text-muted-foreground">—</span>}
+                        {row.match && row.action === 'update' && (
+                          <div className="text-xs text-muted-foreground">→ {row.match.name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{row.measuredArea !== undefined ? `${row.measuredArea} ha` : '—'}</TableCell>
+                      <TableCell onClick={(e) => e.stopPropagation()}>
+                        <Select
+                          value={row.action}
+                          onValueChange={(value) => setActions(current => ({ ...current, [row.index]: value as ImportAction }))}
+                          disabled={rowHasErrors(row)}
+                        >
+                          <SelectTrigger className="h-8 text-xs" style={{ color: IMPORT_ACTION_COLORS[row.action] }}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="create">{IMPORT_ACTION_LABELS.create}</SelectItem>
+                            {row.match && <SelectItem value="update">{IMPORT_ACTION_LABELS.update}</SelectItem>}
+                            <SelectItem value="skip">{IMPORT_ACTION_LABELS.skip}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {row.issues.length === 0 ? (
+                          <span className="text-green-700">OK</span>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {row.issues.map(issue => (
+                              <li key={issue.message} className={issue.level === 'error' ? 'text-red-700' : 'text-amber-700'}>
+                                {issue.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <Button variant="outline" onClick={reset} disabled={isImporting}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Autre fichier
+              </Button>
+              <div className="flex items-center gap-3">
+                {rejected > 0 && (
+                  <span className="text-xs text-red-700">{rejected} élément(s) en erreur ne seront pas importés</span>
+                )}
+                <Button onClick={handleImport} disabled={isImporting || toCreate + toUpdate === 0}>
+                  {isImporting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+                  Importer ({toCreate} création(s), {toUpdate} mise(s) à jour)
+                </Button>
+              </div>
+            </div>
           </div>
-        </div>
+        )}
       </DialogContent>
     </Dialog>
   );
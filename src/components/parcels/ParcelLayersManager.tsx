@@ -1,125 +1,150 @@
-
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Layers, Eye, EyeOff, Info } from 'lucide-react';
-import { 
+import { Slider } from '@/components/ui/slider';
+import { Layers, Info, ArrowUp, ArrowDown } from 'lucide-react';
+import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { toast } from 'sonner';
+import { useMapLayers } from '@/hooks/use-map-layers';
 import {
-  Popover,
-  PopoverContent,
-  PopoverTrigger,
-} from "@/components/ui/popover";
-
-interface Layer {
-  id: string;
-  name: string;
-  description: string;
-  enabled: boolean;
-  type: 'base' | 'overlay';
-  source: 'local' | 'remote';
-}
+  DEFAULT_MAP_LAYERS,
+  isBaseLayer,
+  MAP_LAYER_DEFINITIONS,
+  MapLayerId,
+  MapLayerState,
+  moveLayer,
+  setLayerEnabled,
+  setLayerOpacity
+} from '@/utils/map-layers';
 
 interface ParcelLayersManagerProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
 }
 
+interface LayerCardProps {
+  layer: MapLayerState;
+  onEnabledChange: (enabled: boolean) => void;
+  onOpacityChange: (opacity: number) => void;
+  onMove?: (offset: -1 | 1) => void;
+  isFirst?: boolean;
+  isLast?: boolean;
+}
+
+const LayerCard = ({ layer, onEnabledChange, onOpacityChange, onMove, isFirst, isLast }: LayerCardProps) => {
+  const definition = MAP_LAYER_DEFINITIONS[layer.id];
+
+  return (
+    <div
+      className={`p-3 border rounded-lg ${layer.enabled ? 'border-agri-primary bg-agri-primary/5' : 'border-input'}`}
+    >
+      <div className="flex items-center justify-between">
+        <div className="flex items-center">
+          <Checkbox
+            id={`layer-${layer.id}`}
+            checked={layer.enabled}
+            onCheckedChange={(checked) => onEnabledChange(checked === true)}
+            className="mr-2"
+          />
+          <label
+            htmlFor={`layer-${layer.id}`}
+            className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+          >
+            {definition.name}
+          </label>
+        </div>
+
+        <div className="flex items-center gap-1">
+          {onMove && (
+            <>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={isFirst}
+                onClick={() => onMove(-1)}
+                title="Monter la couche"
+              >
+                <ArrowUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                disabled={isLast}
+                onClick={() => onMove(1)}
+                title="Descendre la couche"
+              >
+                <ArrowDown className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <div className="text-muted-foreground cursor-help">
+                  <Info className="h-4 w-4" />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{definition.description}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-2 pl-6">
+        Source: {definition.source === 'local' ? 'Locale' : 'Service externe'}
+      </p>
+
+      {layer.enabled && (
+        <div className="flex items-center gap-3 mt-3 pl-6">
+          <span className="text-xs text-muted-foreground w-14">Opacité</span>
+          <Slider
+            value={[Math.round(layer.opacity * 100)]}
+            min={0}
+            max={100}
+            step={5}
+            onValueChange={([value]) => onOpacityChange(value / 100)}
+            className="flex-1"
+          />
+          <span className="text-xs w-9 text-right">{Math.round(layer.opacity * 100)}%</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
 const ParcelLayersManager = ({ isOpen, onOpenChange }: ParcelLayersManagerProps) => {
-  const [layers, setLayers] = useState<Layer[]>([
-    { 
-      id: 'satellite', 
-      name: 'Image satellite', 
-      description: 'Vue aérienne satellite de haute résolution',
-      enabled: false, 
-      type: 'base',
-      source: 'remote'
-    },
-    { 
-      id: 'terrain', 
-      name: 'Carte topographique', 
-      description: 'Courbes de niveau et relief du terrain',
-      enabled: true, 
-      type: 'base',
-      source: 'remote'
-    },
-    { 
-      id: 'parcels', 
-      name: 'Limites parcellaires', 
-      description: 'Contour géographique des parcelles',
-      enabled: true, 
-      type: 'overlay',
-      source: 'local'
-    },
-    { 
-      id: 'crops', 
-      name: 'Cultures actuelles', 
-      description: 'Types de cultures par parcelle',
-      enabled: true, 
-      type: 'overlay',
-      source: 'local'
-    },
-    { 
-      id: 'soil', 
-      name: 'Types de sol', 
-      description: 'Classification des sols par type',
-      enabled: false, 
-      type: 'overlay',
-      source: 'local'
-    },
-    { 
-      id: 'irrigation', 
-      name: 'Réseau d\'irrigation', 
-      description: 'Systèmes d\'irrigation installés',
-      enabled: false, 
-      type: 'overlay',
-      source: 'local'
-    },
-    { 
-      id: 'ndvi', 
-      name: 'NDVI', 
-      description: 'Indice de végétation par différence normalisée',
-      enabled: false, 
-      type: 'overlay',
-      source: 'remote'
-    },
-    { 
-      id: 'rainfall', 
-      name: 'Pluviométrie', 
-      description: 'Données de précipitations sur 30 jours',
-      enabled: false, 
-      type: 'overlay',
-      source: 'remote'
-    },
-  ]);
+  const { layers: savedLayers, saveLayers } = useMapLayers();
+  const [layers, setLayers] = useState<MapLayerState[]>(savedLayers);
 
-  const handleLayerChange = (layerId: string, enabled: boolean) => {
-    setLayers(layers.map(layer => 
-      layer.id === layerId ? { ...layer, enabled } : layer
-    ));
-    
-    // Si c'est une couche de base qui est activée, désactiver les autres couches de base
-    if (enabled) {
-      const layer = layers.find(l => l.id === layerId);
-      if (layer?.type === 'base') {
-        setLayers(layers.map(l => 
-          l.type === 'base' ? { ...l, enabled: l.id === layerId } : l
-        ));
-      }
-    }
+  // Edit a copy of the saved configuration each time the dialog opens
+  useEffect(() => {
+    if (isOpen) setLayers(savedLayers);
+  }, [isOpen, savedLayers]);
 
-    toast.success("Couche modifiée", {
-      description: `La couche "${layers.find(l => l.id === layerId)?.name}" a été ${enabled ? 'activée' : 'désactivée'}`
-    });
+  const overlays = layers.filter(layer => !isBaseLayer(layer.id));
+
+  const handleLayerChange = (layerId: MapLayerId, enabled: boolean) => {
+    if (isBaseLayer(layerId) && !enabled) {
+      toast.info("Couche de base requise", {
+        description: "Choisissez un autre fond de carte pour remplacer celui-ci"
+      });
+      return;
+    }
+    setLayers(current => setLayerEnabled(current, layerId, enabled));
   };
 
   const handleSaveLayers = () => {
+    saveLayers(layers);
     toast.success("Configuration enregistrée", {
       description: "La configuration des couches a été enregistrée"
     });
@@ -127,121 +152,60 @@ const ParcelLayersManager = ({ isOpen, onOpenChange }: ParcelLayersManagerProps)
   };
 
   const handleResetLayers = () => {
-    setLayers(layers.map(layer => ({
-      ...layer,
-      enabled: layer.id === 'terrain' || layer.id === 'parcels'
-    })));
-    
+    setLayers(DEFAULT_MAP_LAYERS);
+
     toast.info("Configuration réinitialisée", {
-      description: "La configuration des couches a été remise à l'état par défaut"
+      description: "Enregistrez pour appliquer la configuration par défaut"
     });
   };
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-2xl">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center">
             <Layers className="h-5 w-5 mr-2" />
             Gestionnaire de couches
           </DialogTitle>
         </DialogHeader>
-        
+
         <div className="space-y-6">
           <p className="text-sm text-muted-foreground">
             Configurez les couches visibles sur la carte pour personnaliser votre vue des parcelles.
           </p>
-          
+
           <div className="space-y-4">
             <h3 className="text-sm font-medium">Couches de base</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {layers.filter(l => l.type === 'base').map(layer => (
-                <div 
-                  key={layer.id} 
-                  className={`p-3 border rounded-lg ${layer.enabled ? 'border-agri-primary bg-agri-primary/5' : 'border-input'}`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <Checkbox 
-                        id={`layer-${layer.id}`} 
-                        checked={layer.enabled}
-                        onCheckedChange={(checked) => handleLayerChange(layer.id, checked === true)}
-                        className="mr-2"
-                      />
-                      <label 
-                        htmlFor={`layer-${layer.id}`}
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        {layer.name}
-                      </label>
-                    </div>
-                    
-                    <TooltipProvider>
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <div className="text-muted-foreground cursor-help">
-                            <Info className="h-4 w-4" />
-                          </div>
-                        </TooltipTrigger>
-                        <TooltipContent>
-                          <p>{layer.description}</p>
-                        </TooltipContent>
-                      </Tooltip>
-                    </TooltipProvider>
-                  </div>
-                  
-                  <p className="text-xs text-muted-foreground mt-2 pl-6">
-                    Source: {layer.source === 'local' ? 'Locale' : 'Service externe'}
-                  </p>
-                </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {layers.filter(layer => isBaseLayer(layer.id)).map(layer => (
+                <LayerCard
+                  key={layer.id}
+                  layer={layer}
+                  onEnabledChange={(enabled) => handleLayerChange(layer.id, enabled)}
+                  onOpacityChange={(opacity) => setLayers(current => setLayerOpacity(current, layer.id, opacity))}
+                />
               ))}
             </div>
-            
+
             <h3 className="text-sm font-medium mt-6">Couches thématiques</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-              {layers.filter(l => l.type === 'overlay').map(layer => (
-                <div 
-                  key={layer.id} 
-                  className={`p-3 border rounded-lg ${layer.enabled ? 'border-agri-primary bg-agri-primary/5' : 'border-input'}`}
-                >
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <Checkbox 
-                        id={`layer-${layer.id}`} 
-                        checked={layer.enabled}
-                        onCheckedChange={(checked) => handleLayerChange(layer.id, checked === true)}
-                        className="mr-2"
-                      />
-                      <label 
-                        htmlFor={`layer-${layer.id}`}
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        {layer.name}
-                      </label>
-                    </div>
-                    
-                    <TooltipProvider>
-                      <Tooltip>
-                        <TooltipTrigger asChild>
-                          <div className="text-muted-foreground cursor-help">
-                            <Info className="h-4 w-4" />
-                          </div>
-                        </TooltipTrigger>
-                        <TooltipContent>
-                          <p>{layer.description}</p>
-                        </TooltipContent>
-                      </Tooltip>
-                    </TooltipProvider>
-                  </div>
-                  
-                  <p className="text-xs text-muted-foreground mt-2 pl-6">
-                    Source: {layer.source === 'local' ? 'Locale' : 'Service externe'}
-                  </p>
-                </div>
+            <p className="text-xs text-muted-foreground">
+              Les couches en haut de la liste sont dessinées au-dessus des suivantes.
+            </p>
+            <div className="grid grid-cols-1 gap-3">
+              {overlays.map((layer, index) => (
+                <LayerCard
+                  key={layer.id}
+                  layer={layer}
+                  onEnabledChange={(enabled) => handleLayerChange(layer.id, enabled)}
+                  onOpacityChange={(opacity) => setLayers(current => setLayerOpacity(current, layer.id, opacity))}
+                  onMove={(offset) => setLayers(current => moveLayer(current, layer.id, offset))}
+                  isFirst={index === 0}
+                  isLast={index === overlays.length - 1}
+                />
               ))}
             </div>
           </div>
-          
+
           <div className="flex justify-between">
             <Button variant="outline" onClick={handleResetLayers}>
               Réinitialiser
@@ -1,8 +1,22 @@
 
 import React, { useState, useEffect } from 'react';
+import L from 'leaflet';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from '@/components/ui/button';
-import ParcelMap from '@/components/ParcelMap';
+import ParcelOverviewMap from './ParcelOverviewMap';
+import MapLegend from './MapLegend';
+import MeasurementTool from './MeasurementTool';
+import SavedMeasurements from './SavedMeasurements';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { useMapLayers } from '@/hooks/use-map-layers';
+import { getRepository } from '@/services/repository';
+import { irrigationLineTable, parcelTable } from '@/services/farm-tables';
+import { measurementRepository } from '@/services/measurements';
+import type { ParcelData } from '@/types/farm';
+import { downloadFile } from '@/utils/crm-data-operations';
+import { Measurement, measurementNote, measurementsToGeoJSON } from '@/utils/measurement';
+import { isBaseLayer, MAP_LAYER_DEFINITIONS, MapLayerId, setLayerEnabled } from '@/utils/map-layers';
+import { GUADELOUPE_CENTER, GUADELOUPE_ZOOM, parcelBounds } from '@/utils/map';
 import { Search, ZoomIn, ZoomOut, Maximize2, Download, Layers, Ruler, MapPin, Target } from 'lucide-react';
 import { toast } from 'sonner';
 import {
@@ -12,49 +26,51 @@ import {
 } from "@/components/ui/popover";
 import { Checkbox } from '@/components/ui/checkbox';
 
-interface Layer {
-  id: string;
-  name: string;
-  enabled: boolean;
-  type: 'base' | 'overlay';
-}
-
 interface ParcelMapDialogProps {
   isOpen: boolean;
   onOpenChange: (isOpen: boolean) => void;
 }
 
 const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
-  const [zoomLevel, setZoomLevel] = useState<number>(1);
-  const [coordinates, setCoordinates] = useState({ lat: 45.4631, lng: 4.3873 });
+  const { data: parcels, updateItem: updateParcel } = useDataOperations({
+    repository: getRepository(parcelTable),
+    notifications: false
+  });
+  const { data: irrigationLines } = useDataOperations({
+    repository: getRepository(irrigationLineTable),
+    notifications: false
+  });
+  const {
+    data: measurements,
+    addItem: addMeasurement,
+    updateItem: updateMeasurement,
+    deleteItem: deleteMeasurement
+  } = useDataOperations({
+    repository: measurementRepository,
+    notifications: false
+  });
+  const { layers: mapLayers, saveLayers } = useMapLayers();
+  const [map, setMap] = useState<L.Map | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [measureMode, setMeasureMode] = useState(false);
-  const [measureResult, setMeasureResult] = useState<string | null>(null);
+  const [shownMeasurement, setShownMeasurement] = useState<Measurement | null>(null);
   const [layersOpen, setLayersOpen] = useState(false);
-  const [mapLayers, setMapLayers] = useState<Layer[]>([
-    { id: 'satellite', name: 'Vue satellite', enabled: false, type: 'base' },
-    { id: 'terrain', name: 'Terrain', enabled: true, type: 'base' },
-    { id: 'parcels', name: 'Limites parcellaires', enabled: true, type: 'overlay' },
-    { id: 'crops', name: 'Cultures actuelles', enabled: true, type: 'overlay' },
-    { id: 'soil', name: 'Types de sol', enabled: false, type: 'overlay' },
-    { id: 'irrigation', name: 'Irrigation', enabled: false, type: 'overlay' },
-  ]);
   
   const handleZoomIn = () => {
-    if (zoomLevel < 3) {
-      setZoomLevel(zoomLevel + 0.5);
-    }
+    map?.zoomIn();
   };
   
   const handleZoomOut = () => {
-    if (zoomLevel > 0.5) {
-      setZoomLevel(zoomLevel - 0.5);
-    }
+    map?.zoomOut();
   };
   
   const handleResetView = () => {
-    setZoomLevel(1);
-    setCoordinates({ lat: 45.4631, lng: 4.3873 });
+    const bounds = parcelBounds(parcels);
+    if (bounds) {
+      map?.fitBounds(bounds, { padding: [30, 30], maxZoom: 16 });
+    } else {
+      map?.setView([GUADELOUPE_CENTER.lat, GUADELOUPE_CENTER.lng], GUADELOUPE_ZOOM);
+    }
   };
   
   const handleExportMap = () => {
@@ -68,66 +84,86 @@ const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
     setMeasureMode(newMode);
     
     if (newMode) {
+      setShownMeasurement(null);
       toast.info("Mode mesure activé", {
-        description: "Cliquez sur la carte pour placer des points et mesurer la distance"
+        description: "Cliquez sur la carte pour placer des points, ils s'accrochent aux sommets des parcelles"
       });
-    } else {
-      setMeasureResult(null);
     }
   };
 
-  const handleLayerChange = (layerId: string, enabled: boolean) => {
-    setMapLayers(mapLayers.map(layer => 
-      layer.id === layerId ? { ...layer, enabled } : layer
-    ));
-    
-    // Si c'est une couche de base qui est activée, désactiver les autres couches de base
-    if (enabled) {
-      const layer = mapLayers.find(l => l.id === layerId);
-      if (layer?.type === 'base') {
-        setMapLayers(mapLayers.map(l => 
-          l.type === 'base' ? { ...l, enabled: l.id === layerId } : l
-        ));
-      }
+  const handleSaveMeasurement = async (measurement: Omit<Measurement, 'id'>) => {
+    const saved = await addMeasurement(measurement);
+    if (saved) {
+      toast.success("Mesure enregistrée", { description: saved.name });
     }
   };
+
+  const handleAttachMeasurement = async (measurement: Measurement, parcel: ParcelData) => {
+    const note = measurementNote(measurement);
+    const notes = parcel.notes ? `${parcel.notes}\n${note}` : note;
+    const updated = await updateParcel(parcel.id, { notes });
+    if (!updated) return;
+    await updateMeasurement(measurement.id, { parcelId: parcel.id });
+    toast.success("Mesure jointe", {
+      description: `Ajoutée aux notes de ${parcel.name}`
+    });
+  };
+
+  const handleDeleteMeasurement = async (measurement: Measurement) => {
+    if (shownMeasurement?.id === measurement.id) setShownMeasurement(null);
+    await deleteMeasurement(measurement.id);
+  };
+
+  const handleExportMeasurements = () => {
+    downloadFile(
+      JSON.stringify(measurementsToGeoJSON(measurements), null, 2),
+      `mesures_${new Date().toISOString().split('T')[0]}.geojson`,
+      'application/geo+json'
+    );
+    toast.success("Export GeoJSON", {
+      description: `${measurements.length} mesure(s) exportée(s)`
+    });
+  };
+
+  const handleLayerChange = (layerId: MapLayerId, enabled: boolean) => {
+    saveLayers(setLayerEnabled(mapLayers, layerId, enabled));
+  };
   
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (!searchQuery.trim()) return;
 
-    // Simuler une recherche de parcelle sur la carte
-    toast.info("Recherche en cours", {
-      description: `Recherche de la parcelle: ${searchQuery}`
-    });
-
-    // Simuler un résultat trouvé
-    setTimeout(() => {
-      setCoordinates({ lat: 45.4831, lng: 4.3973 });
-      setZoomLevel(2);
-      toast.success("Parcelle trouvée", {
-        description: "La carte a été centrée sur la parcelle recherchée"
+    const query = searchQuery.trim().toLowerCase();
+    const found = parcels.find(parcel => parcel.name.toLowerCase().includes(query));
+    if (!found) {
+      toast.error("Parcelle introuvable", {
+        description: `Aucune parcelle ne correspond à « ${searchQuery} »`
       });
-    }, 1000);
-  };
-
-  const simulateMeasurement = () => {
-    if (measureMode) {
-      setMeasureResult("Distance: 245.3 mètres");
+      return;
     }
+
+    const bounds = parcelBounds([found]);
+    if (bounds) map?.fitBounds(bounds, { padding: [40, 40], maxZoom: 17 });
+    toast.success("Parcelle trouvée", {
+      description: `La carte a été centrée sur ${found.name}`
+    });
   };
 
-  // Activer la mesure sur la carte
+  // Highlight the saved measurement picked in the list
   useEffect(() => {
-    if (isOpen && measureMode) {
-      const timer = setTimeout(simulateMeasurement, 3000);
-      return () => clearTimeout(timer);
-    }
-  }, [isOpen, measureMode]);
+    if (!map || !shownMeasurement) return;
+    const latLngs = shownMeasurement.points.map(point => L.latLng(point.lat, point.lng));
+    const style: L.PathOptions = { color: '#E65100', weight: 3, dashArray: '6 4', fillOpacity: 0.15 };
+    const shape = (shownMeasurement.kind === 'area' ? L.polygon(latLngs, style) : L.polyline(latLngs, style)).addTo(map);
+    map.fitBounds(shape.getBounds(), { padding: [40, 40], maxZoom: 18 });
+    return () => {
+      shape.remove();
+    };
+  }, [map, shownMeasurement]);
 
   return (
     <Dialog open={isOpen} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-4xl">
+      <DialogContent className="max-w-4xl max-h-[95vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Carte des parcelles</DialogTitle>
         </DialogHeader>
@@ -165,7 +201,7 @@ const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
                   <div className="space-y-4">
                     <h4 className="font-medium text-sm">Couches de base</h4>
                     <div className="space-y-2">
-                      {mapLayers.filter(l => l.type === 'base').map(layer => (
+                      {mapLayers.filter(l => isBaseLayer(l.id)).map(layer => (
                         <div key={layer.id} className="flex items-center space-x-2">
                           <Checkbox 
                             id={`layer-${layer.id}`} 
@@ -176,7 +212,7 @@ const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
                             htmlFor={`layer-${layer.id}`}
                             className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                           >
-                            {layer.name}
+                            {MAP_LAYER_DEFINITIONS[layer.id].name}
                           </label>
                         </div>
                       ))}
@@ -184,7 +220,7 @@ const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
                     
                     <h4 className="font-medium text-sm">Couches supplémentaires</h4>
                     <div className="space-y-2">
-                      {mapLayers.filter(l => l.type === 'overlay').map(layer => (
+                      {mapLayers.filter(l => !isBaseLayer(l.id)).map(layer => (
                         <div key={layer.id} className="flex items-center space-x-2">
                           <Checkbox 
                             id={`layer-${layer.id}`} 
@@ -195,7 +231,7 @@ const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
                             htmlFor={`layer-${layer.id}`}
                             className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
                           >
-                            {layer.name}
+                            {MAP_LAYER_DEFINITIONS[layer.id].name}
                           </label>
                         </div>
                       ))}
@@ -217,43 +253,41 @@ const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
             </div>
           </div>
           
-          <div className="h-[500px] bg-gray-100 rounded-lg overflow-hidden relative" style={{ transform: `scale(${zoomLevel})`, transformOrigin: 'center center' }}>
-            <ParcelMap 
-              coordinates={coordinates}
-              parcelName="Vue d'ensemble"
-              isEditing={false}
-              onCoordinatesChange={setCoordinates}
+          <div className="h-[500px] bg-gray-100 rounded-lg overflow-hidden relative">
+            <ParcelOverviewMap
+              parcels={parcels}
+              irrigationLines={irrigationLines}
+              layers={mapLayers}
+              onMapReady={setMap}
             />
             
-            {/* Mode de mesure - indicateurs */}
+            {/* Mode de mesure */}
             {measureMode && (
-              <div className="absolute top-2 left-2 bg-white/90 p-2 rounded-md shadow-md">
-                <div className="flex items-center text-sm">
-                  <Ruler className="h-4 w-4 mr-1 text-agri-primary" />
-                  <span className="font-medium">Mode mesure activé</span>
-                </div>
-                {measureResult && (
-                  <div className="text-sm mt-1 font-bold">{measureResult}</div>
-                )}
-              </div>
+              <MeasurementTool
+                map={map}
+                parcels={parcels}
+                savedCount={measurements.length}
+                onSave={handleSaveMeasurement}
+              />
             )}
             
             {/* Couches actives - légende */}
-            <div className="absolute bottom-2 right-2 bg-white/90 p-2 rounded-md shadow-md max-w-xs">
-              <div className="text-xs font-medium mb-1">Couches actives:</div>
-              <div className="flex flex-wrap gap-1">
-                {mapLayers.filter(layer => layer.enabled).map(layer => (
-                  <span 
-                    key={layer.id}
-                    className="text-xs px-2 py-0.5 bg-agri-primary/10 text-agri-primary rounded-full"
-                  >
-                    {layer.name}
-                  </span>
-                ))}
-              </div>
+            <div className="absolute bottom-2 right-2 z-[1000] bg-white/90 p-2 rounded-md shadow-md max-w-xs max-h-[45%] overflow-y-auto">
+              <MapLegend layers={mapLayers} parcels={parcels} irrigationLines={irrigationLines} />
             </div>
           </div>
           
+          {(measureMode || measurements.length > 0) && (
+            <SavedMeasurements
+              measurements={measurements}
+              parcels={parcels}
+              onShow={setShownMeasurement}
+              onDelete={handleDeleteMeasurement}
+              onAttach={handleAttachMeasurement}
+              onExport={handleExportMeasurements}
+            />
+          )}
+          
           <p className="text-sm text-muted-foreground text-center">
             Cette vue d'ensemble montre l'emplacement de toutes vos parcelles. 
             Cliquez sur une parcelle spécifique pour voir plus de détails.
@@ -264,8 +298,7 @@ const ParcelMapDialog = ({ isOpen, onOpenChange }: ParcelMapDialogProps) => {
               onClick={() => {
                 navigator.geolocation.getCurrentPosition((position) => {
                   const { latitude, longitude } = position.coords;
-                  setCoordinates({ lat: latitude, lng: longitude });
-                  setZoomLevel(2.5);
+                  map?.setView([latitude, longitude], 16);
                   toast.success("Localisation", {
                     description: "Carte centrée sur votre position"
                   });
@@ -0,0 +1,81 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import L from 'leaflet';
+import { useLeafletMap } from '@/hooks/use-leaflet-map';
+import type { IrrigationLine, ParcelData } from '@/types/farm';
+import { GUADELOUPE_CENTER, GUADELOUPE_ZOOM, parcelBounds } from '@/utils/map';
+import {
+  activeBaseLayer,
+  applyLayerStyles,
+  buildOverlay,
+  DEFAULT_MAP_LAYERS,
+  ensureOverlayPane,
+  isBaseLayer,
+  MapLayerState,
+  OverlayId
+} from '@/utils/map-layers';
+
+interface ParcelOverviewMapProps {
+  parcels: ParcelData[];
+  irrigationLines?: IrrigationLine[];
+  /** Layer configuration; defaults to the parcel boundaries and crops on the plan */
+  layers?: MapLayerState[];
+  onMapReady?: (map: L.Map) => void;
+  className?: string;
+}
+
+const NO_LINES: IrrigationLine[] = [];
+
+const ParcelOverviewMap = ({
+  parcels,
+  irrigationLines = NO_LINES,
+  layers = DEFAULT_MAP_LAYERS,
+  onMapReady,
+  className = 'h-full'
+}: ParcelOverviewMapProps) => {
+  const { containerRef, map } = useLeafletMap({
+    center: [GUADELOUPE_CENTER.lat, GUADELOUPE_CENTER.lng],
+    zoom: GUADELOUPE_ZOOM
+  }, activeBaseLayer(layers).id);
+
+  const onMapReadyRef = useRef(onMapReady);
+  onMapReadyRef.current = onMapReady;
+  const framedRef = useRef(false);
+
+  // Rebuild the overlays only when the data or the visible set change, not on opacity or order
+  const visibleOverlays = useMemo(
+    () => layers.filter(layer => layer.enabled && !isBaseLayer(layer.id)).map(layer => layer.id as OverlayId).join(','),
+    [layers]
+  );
+
+  useEffect(() => {
+    if (map) onMapReadyRef.current?.(map);
+  }, [map]);
+
+  useEffect(() => {
+    if (!map || !visibleOverlays) return;
+    const group = L.layerGroup().addTo(map);
+    visibleOverlays.split(',').forEach(id => {
+      ensureOverlayPane(map, id as OverlayId);
+      buildOverlay(id as OverlayId, { parcels, irrigationLines }).addTo(group);
+    });
+    return () => {
+      group.remove();
+    };
+  }, [map, parcels, irrigationLines, visibleOverlays]);
+
+  useEffect(() => {
+    if (map) applyLayerStyles(map, layers);
+  }, [map, layers]);
+
+  // Frame the parcels the first time they are available
+  useEffect(() => {
+    const bounds = parcelBounds(parcels);
+    if (!map || !bounds || framedRef.current) return;
+    map.fitBounds(bounds, { padding: [30, 30], maxZoom: 16 });
+    framedRef.current = true;
+  }, [map, parcels]);
+
+  return <div ref={containerRef} className={`w-full z-0 ${className}`} />;
+};
+
+export default ParcelOverviewMap;
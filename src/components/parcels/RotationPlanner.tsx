@@ -0,0 +1,231 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, ListChecks, Repeat } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { useCropRotation } from '@/hooks/use-crop-rotation';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { parcelTable } from '@/services/farm-tables';
+import type { CropHistoryEntry, ParcelData } from '@/types/farm';
+import {
+  currentSeason,
+  cycleAt,
+  plannerSlots,
+  RotationViolation,
+  SEASON_LABELS,
+  SeasonSlot,
+  seasonLabel
+} from '@/utils/crop-rotation';
+import { cropColor } from '@/utils/map-layers';
+import CropHistoryEntryDialog, { CropHistoryDraft } from './CropHistoryEntryDialog';
+import RotationRulesDialog from './RotationRulesDialog';
+
+const PLANNER_YEARS = 6;
+
+interface EditedCell {
+  parcel: ParcelData;
+  slot: SeasonSlot;
+  entry?: CropHistoryEntry;
+}
+
+/**
+ * Parcels × seasons grid of past and planned crop cycles, checked against the rotation rules
+ */
+const RotationPlanner = () => {
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const {
+    history,
+    cultures,
+    rules,
+    cycles,
+    violations,
+    addEntry,
+    updateEntry,
+    deleteEntry,
+    addRule,
+    updateRule,
+    deleteRule
+  } = useCropRotation();
+  const now = currentSeason();
+  const [fromYear, setFromYear] = useState(now.year - 3);
+  const [edited, setEdited] = useState<EditedCell | null>(null);
+  const [rulesOpen, setRulesOpen] = useState(false);
+
+  const slots = plannerSlots(fromYear, PLANNER_YEARS);
+  const years = Array.from({ length: PLANNER_YEARS }, (_, i) => fromYear + i);
+
+  const violationsByEntry = useMemo(() => {
+    const byEntry = new Map<number, RotationViolation[]>();
+    violations.forEach(violation => byEntry.set(violation.entryId, [...(byEntry.get(violation.entryId) ?? []), violation]));
+    return byEntry;
+  }, [violations]);
+
+  const parcelName = (id: number) => parcels.find(parcel => parcel.id === id)?.name ?? `Parcelle ${id}`;
+  const entryById = (id: number) => history.find(entry => entry.id === id);
+
+  const handleSave = async (draft: CropHistoryDraft) => {
+    const saved = edited?.entry
+      ? await updateEntry(edited.entry.id, draft)
+      : await addEntry(draft);
+    if (saved) {
+      toast.success(`${draft.crop} · ${seasonLabel(draft.year, draft.season)} enregistré`);
+      setEdited(null);
+    } else {
+      toast.error('L\'entrée n\'a pas pu être enregistrée');
+    }
+  };
+
+  const handleDelete = async (entry: CropHistoryEntry) => {
+    if (await deleteEntry(entry.id)) {
+      toast.success('Entrée supprimée');
+      setEdited(null);
+    }
+  };
+
+  const sortedViolations = [...violations].sort((a, b) =>
+    (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1) || a.parcelId - b.parcelId);
+
+  return (
+    <div className="bg-white rounded-xl border p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center">
+          <Repeat className="h-5 w-5 mr-2 text-agri-primary" />
+          <h2 className="text-lg font-medium">Plan de rotation</h2>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setFromYear(year => year - 1)} title="Année précédente">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm w-24 text-center">{fromYear} – {fromYear + PLANNER_YEARS - 1}</span>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setFromYear(year => year + 1)} title="Année suivante">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setRulesOpen(true)}>
+            <ListChecks className="h-4 w-4 mr-1" />
+            Règles ({rules.filter(rule => rule.enabled).length})
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs border-collapse">
+          <thead>
+            <tr>
+              <th className="sticky left-0 bg-white text-left font-medium p-2 min-w-[140px]" rowSpan={2}>Parcelle</th>
+              {years.map(year => (
+                <th key={year} colSpan={2} className="font-medium p-1 border-l">{year}</th>
+              ))}
+            </tr>
+            <tr>
+              {slots.map(slot => (
+                <th
+                  key={slot.index}
+                  className={`font-normal text-muted-foreground p-1 ${slot.season === 'careme' ? 'border-l' : ''} ${slot.index === now.index ? 'bg-agri-primary/10' : ''}`}
+                >
+                  {SEASON_LABELS[slot.season]}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {parcels.map(parcel => (
+              <tr key={parcel.id} className="border-t">
+                <td className="sticky left-0 bg-white p-2 font-medium">{parcel.name}</td>
+                {slots.map(slot => {
+                  const cycle = cycleAt(cycles.get(parcel.id), slot.index);
+                  const starts = cycle?.start === slot.index;
+                  const cellViolations = starts ? violationsByEntry.get(cycle.entry.id) ?? [] : [];
+                  const worst = cellViolations.some(violation => violation.severity === 'error')
+                    ? 'error'
+                    : cellViolations.length > 0 ? 'warning' : null;
+                  const color = cycle ? cropColor(cycle.entry.crop) : undefined;
+                  const title = cycle
+                    ? [
+                        `${cycle.entry.crop}${cycle.family ? ` (${cycle.family})` : ''} depuis ${seasonLabel(cycle.entry.year, cycle.entry.season)}`,
+                        ...cellViolations.map(violation => `${violation.rule.name} : ${violation.detail}`)
+                      ].join('\n')
+                    : 'Ajouter une culture';
+
+                  return (
+                    <td key={slot.index} className={`p-0.5 ${slot.season === 'careme' ? 'border-l' : ''}`}>
+                      <button
+                        type="button"
+                        title={title}
+                        onClick={() => setEdited({ parcel, slot, entry: starts ? cycle.entry : undefined })}
+                        className={`w-full h-9 min-w-[72px] rounded px-1 truncate text-left transition-colors
+                          ${cycle ? '' : 'hover:bg-muted/50'}
+                          ${slot.index > now.index ? 'border border-dashed border-muted-foreground/30' : ''}
+                          ${worst === 'error' ? 'ring-2 ring-red-500' : worst === 'warning' ? 'ring-2 ring-amber-400' : ''}`}
+                        style={color ? { backgroundColor: starts ? `${color}cc` : `${color}4d` } : undefined}
+                      >
+                        {starts && (
+                          <span className="flex items-center gap-1 font-medium text-gray-900">
+                            {worst && <AlertTriangle className="h-3 w-3 shrink-0" />}
+                            <span className="truncate">{cycle.entry.crop}</span>
+                          </span>
+                        )}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Cliquez sur une saison pour démarrer un cycle ; une culture occupe la parcelle jusqu'au cycle suivant.
+        Les saisons à venir (pointillés) servent à planifier.
+      </p>
+
+      {sortedViolations.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Alertes de rotation ({sortedViolations.length})</h3>
+          <ul className="divide-y border rounded-lg">
+            {sortedViolations.map(violation => {
+              const entry = entryById(violation.entryId);
+              return (
+                <li key={`${violation.rule.id}-${violation.entryId}`} className="flex gap-2 p-2 text-sm">
+                  <AlertTriangle className={`h-4 w-4 mt-0.5 shrink-0 ${violation.severity === 'error' ? 'text-red-600' : 'text-amber-500'}`} />
+                  <div>
+                    <span className="font-medium">{parcelName(violation.parcelId)}</span>
+                    {entry && <span className="text-muted-foreground"> · {seasonLabel(entry.year, entry.season)}</span>}
+                    <span> — {violation.rule.name} : {violation.detail}</span>
+                    {violation.rule.message && <p className="text-xs text-muted-foreground">{violation.rule.message}</p>}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      <CropHistoryEntryDialog
+        isOpen={edited !== null}
+        onOpenChange={(open) => !open && setEdited(null)}
+        parcel={edited?.parcel ?? null}
+        year={edited?.slot.year ?? now.year}
+        season={edited?.slot.season ?? now.season}
+        entry={edited?.entry}
+        history={history}
+        cultures={cultures}
+        rules={rules}
+        onSave={handleSave}
+        onDelete={handleDelete}
+      />
+
+      <RotationRulesDialog
+        isOpen={rulesOpen}
+        onOpenChange={setRulesOpen}
+        rules={rules}
+        cultures={cultures}
+        onAdd={addRule}
+        onUpdate={updateRule}
+        onDelete={deleteRule}
+      />
+    </div>
+  );
+};
+
+export default RotationPlanner;
@@ -0,0 +1,243 @@
+import React, { useId, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Edit, ListChecks, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Culture, RotationRule, RotationRuleKind, RotationRuleSeverity } from '@/types/farm';
+import { ROTATION_RULE_KINDS, ROTATION_SEVERITY_LABELS, ruleProblems } from '@/utils/crop-rotation';
+
+type RuleDraft = Omit<RotationRule, 'id'>;
+
+const EMPTY_RULE: RuleDraft = {
+  name: '',
+  kind: 'consecutive_family',
+  severity: 'warning',
+  enabled: true
+};
+
+interface RotationRulesDialogProps {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  rules: RotationRule[];
+  cultures: Culture[];
+  onAdd: (rule: RuleDraft) => Promise<RotationRule | null>;
+  onUpdate: (id: number, changes: Partial<RotationRule>) => Promise<RotationRule | null>;
+  onDelete: (id: number) => Promise<boolean>;
+}
+
+interface RuleFormProps {
+  initial: RuleDraft;
+  subjects: string[];
+  onSave: (rule: RuleDraft) => void;
+  onCancel: () => void;
+}
+
+const RuleForm = ({ initial, subjects, onSave, onCancel }: RuleFormProps) => {
+  const [draft, setDraft] = useState<RuleDraft>(initial);
+  const subjectListId = useId();
+  const problems = ruleProblems(draft);
+  const update = (changes: Partial<RuleDraft>) => setDraft(current => ({ ...current, ...changes }));
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3 bg-muted/20">
+      <datalist id={subjectListId}>
+        {subjects.map(subject => <option key={subject} value={subject} />)}
+      </datalist>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1.5 md:col-span-2">
+          <Label>Nom</Label>
+          <Input value={draft.name} onChange={(e) => update({ name: e.target.value })} />
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Type de règle</Label>
+          <Select value={draft.kind} onValueChange={(kind: RotationRuleKind) => update({ kind })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(ROTATION_RULE_KINDS).map(([kind, { label }]) => (
+                <SelectItem key={kind} value={kind}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">{ROTATION_RULE_KINDS[draft.kind].description}</p>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label>Gravité</Label>
+          <Select value={draft.severity} onValueChange={(severity: RotationRuleSeverity) => update({ severity })}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {Object.entries(ROTATION_SEVERITY_LABELS).map(([severity, label]) => (
+                <SelectItem key={severity} value={severity}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.kind === 'forbidden_sequence' && (
+          <div className="space-y-1.5">
+            <Label>Après (culture ou famille)</Label>
+            <Input list={subjectListId} value={draft.follows ?? ''} onChange={(e) => update({ follows: e.target.value })} />
+          </div>
+        )}
+
+        <div className="space-y-1.5">
+          <Label>{draft.kind === 'forbidden_sequence' ? 'Interdit (culture ou famille)' : 'S\'applique à'}</Label>
+          <Input
+            list={subjectListId}
+            value={draft.subject ?? ''}
+            placeholder="Toutes les cultures"
+            onChange={(e) => update({ subject: e.target.value })}
+          />
+        </div>
+
+        {draft.kind === 'return_interval' && (
+          <div className="space-y-1.5">
+            <Label>Délai minimum (années)</Label>
+            <Input
+              type="number"
+              min={0}
+              step={0.5}
+              value={draft.minInterval ?? ''}
+              onChange={(e) => update({ minInterval: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className="w-28"
+            />
+          </div>
+        )}
+
+        <div className="space-y-1.5 md:col-span-2">
+          <Label>Conseil affiché</Label>
+          <Input value={draft.message ?? ''} onChange={(e) => update({ message: e.target.value })} />
+        </div>
+      </div>
+
+      {problems.length > 0 && <p className="text-xs text-red-600">{problems.join(' · ')}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel}>Annuler</Button>
+        <Button size="sm" onClick={() => onSave(draft)} disabled={problems.length > 0}>Enregistrer</Button>
+      </div>
+    </div>
+  );
+};
+
+const describeRule = (rule: RotationRule): string => {
+  const subject = rule.subject?.trim() || 'toutes les cultures';
+  switch (rule.kind) {
+    case 'consecutive_family':
+      return `Même famille deux fois de suite (${subject})`;
+    case 'return_interval':
+      return `${subject} : retour après ${rule.minInterval ?? 0} an(s) minimum`;
+    case 'forbidden_sequence':
+      return `${subject} interdit directement après ${rule.follows}`;
+    default:
+      return '';
+  }
+};
+
+const RotationRulesDialog = ({ isOpen, onOpenChange, rules, cultures, onAdd, onUpdate, onDelete }: RotationRulesDialogProps) => {
+  const [editing, setEditing] = useState<number | 'new' | null>(null);
+
+  const subjects = Array.from(new Set([
+    ...cultures.map(culture => culture.name),
+    ...cultures.map(culture => culture.family).filter(Boolean)
+  ])).sort((a, b) => a.localeCompare(b, 'fr'));
+
+  const handleSave = async (draft: RuleDraft) => {
+    const cleaned: RuleDraft = {
+      ...draft,
+      name: draft.name.trim(),
+      subject: draft.subject?.trim() ?? '',
+      follows: draft.kind === 'forbidden_sequence' ? draft.follows?.trim() ?? '' : '',
+      minInterval: draft.kind === 'return_interval' ? draft.minInterval : undefined,
+      message: draft.message?.trim() ?? ''
+    };
+    const saved = editing === 'new' ? await onAdd(cleaned) : await onUpdate(editing as number, cleaned);
+    if (saved) {
+      toast.success('Règle de rotation enregistrée');
+      setEditing(null);
+    } else {
+      toast.error('La règle n\'a pas pu être enregistrée');
+    }
+  };
+
+  const handleDelete = async (rule: RotationRule) => {
+    if (await onDelete(rule.id)) toast.success(`Règle « ${rule.name} » supprimée`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <ListChecks className="h-5 w-5 mr-2" />
+            Règles de rotation
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Les familles viennent du référentiel des cultures. Une règle sans culture ciblée s'applique à toutes.
+        </p>
+
+        <div className="space-y-3">
+          {rules.map(rule => editing === rule.id ? (
+            <RuleForm
+              key={rule.id}
+              initial={rule}
+              subjects={subjects}
+              onSave={handleSave}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <div key={rule.id} className={`border rounded-lg p-3 flex items-start gap-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => onUpdate(rule.id, { enabled })}
+                aria-label={`Activer ${rule.name}`}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-medium text-sm">{rule.name}</span>
+                  <Badge variant="outline" className={rule.severity === 'error' ? 'border-red-300 text-red-700' : 'border-amber-300 text-amber-700'}>
+                    {ROTATION_SEVERITY_LABELS[rule.severity]}
+                  </Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">{describeRule(rule)}</p>
+                {rule.message && <p className="text-xs mt-1">{rule.message}</p>}
+              </div>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditing(rule.id)} title="Modifier">
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(rule)} title="Supprimer">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          {editing === 'new' ? (
+            <RuleForm initial={EMPTY_RULE} subjects={subjects} onSave={handleSave} onCancel={() => setEditing(null)} />
+          ) : (
+            <Button variant="outline" size="sm" onClick={() => setEditing('new')}>
+              <Plus className="h-4 w-4 mr-1" />
+              Nouvelle règle
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RotationRulesDialog;
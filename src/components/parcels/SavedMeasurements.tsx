@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Download, Eye, Paperclip, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { ParcelData } from '@/types/farm';
+import { formatMeasurement, Measurement } from '@/utils/measurement';
+
+interface SavedMeasurementsProps {
+  measurements: Measurement[];
+  parcels: ParcelData[];
+  onShow: (measurement: Measurement) => void;
+  onDelete: (measurement: Measurement) => void;
+  onAttach: (measurement: Measurement, parcel: ParcelData) => void;
+  onExport: () => void;
+}
+
+const SavedMeasurements = ({ measurements, parcels, onShow, onDelete, onAttach, onExport }: SavedMeasurementsProps) => {
+  // Parcel picked for each measurement before attaching it
+  const [targets, setTargets] = useState<Record<number, string>>({});
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium">Mesures enregistrées ({measurements.length})</h4>
+        <Button variant="outline" size="sm" className="h-7" onClick={onExport} disabled={measurements.length === 0}>
+          <Download className="h-3.5 w-3.5 mr-1" />
+          GeoJSON
+        </Button>
+      </div>
+
+      {measurements.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Les mesures enregistrées depuis la carte apparaissent ici.
+        </p>
+      ) : (
+        <ul className="divide-y max-h-48 overflow-y-auto">
+          {measurements.map(measurement => {
+            const attachedTo = parcels.find(parcel => parcel.id === measurement.parcelId);
+            const target = targets[measurement.id] ?? '';
+            const targetParcel = parcels.find(parcel => String(parcel.id) === target);
+
+            return (
+              <li key={measurement.id} className="flex flex-wrap items-center gap-2 py-2 text-sm">
+                <div className="flex-1 min-w-[160px]">
+                  <div className="font-medium">{measurement.name}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {measurement.kind === 'distance' ? 'Distance' : 'Surface'} : {formatMeasurement(measurement.kind, measurement.value)}
+                    {attachedTo && ` · jointe à ${attachedTo.name}`}
+                  </div>
+                </div>
+
+                <Select value={target} onValueChange={(value) => setTargets(current => ({ ...current, [measurement.id]: value }))}>
+                  <SelectTrigger className="h-7 w-[160px] text-xs">
+                    <SelectValue placeholder="Choisir une parcelle" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {parcels.map(parcel => (
+                      <SelectItem key={parcel.id} value={String(parcel.id)}>{parcel.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7"
+                  disabled={!targetParcel}
+                  onClick={() => targetParcel && onAttach(measurement, targetParcel)}
+                  title="Ajouter aux notes de la parcelle"
+                >
+                  <Paperclip className="h-3.5 w-3.5 mr-1" />
+                  Joindre
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onShow(measurement)} title="Afficher sur la carte">
+                  <Eye className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onDelete(measurement)} title="Supprimer">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default SavedMeasurements;
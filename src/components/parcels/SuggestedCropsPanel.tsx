@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Save, Sprout } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { parcelTable } from '@/services/farm-tables';
+import {
+  GUADELOUPE_CLIMATE,
+  parcelConditions,
+  recommendationMetrics,
+  suggestCrops
+} from '@/services/crop-recommendation';
+import { describeFactor, knownFeatures, MIN_KNOWN_FEATURES } from '@/utils/crop-recommendation';
+
+type DraftField = 'nitrogen' | 'phosphorus' | 'potassium' | 'ph' | 'temperature' | 'humidity' | 'rainfall';
+
+const FIELDS: { key: DraftField; label: string; step: string }[] = [
+  { key: 'nitrogen', label: 'Azote N (kg/ha)', step: '1' },
+  { key: 'phosphorus', label: 'Phosphore P (kg/ha)', step: '1' },
+  { key: 'potassium', label: 'Potassium K (kg/ha)', step: '1' },
+  { key: 'ph', label: 'pH', step: '0.1' },
+  { key: 'temperature', label: 'Température moy. (°C)', step: '0.5' },
+  { key: 'humidity', label: 'Humidité de l\'air (%)', step: '1' },
+  { key: 'rainfall', label: 'Pluviométrie (mm/an)', step: '50' }
+];
+
+const SOIL_FIELDS: DraftField[] = ['nitrogen', 'phosphorus', 'potassium', 'ph'];
+
+const toText = (value?: number) => (value === undefined ? '' : String(value));
+
+const parseNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value.replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+interface SuggestedCropsPanelProps {
+  parcelId: number;
+}
+
+/**
+ * Crops suited to a parcel's soil analysis and local climate
+ */
+const SuggestedCropsPanel = ({ parcelId }: SuggestedCropsPanelProps) => {
+  const { data: parcels, updateItem } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const parcel = parcels.find(item => item.id === parcelId);
+  const [draft, setDraft] = useState<Record<DraftField, string>>({
+    nitrogen: '',
+    phosphorus: '',
+    potassium: '',
+    ph: '',
+    temperature: String(GUADELOUPE_CLIMATE.temperature),
+    humidity: String(GUADELOUPE_CLIMATE.humidity),
+    rainfall: ''
+  });
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!parcel) return;
+    setDraft(current => ({
+      ...current,
+      nitrogen: toText(parcel.nitrogen),
+      phosphorus: toText(parcel.phosphorus),
+      potassium: toText(parcel.potassium),
+      ph: toText(parcel.ph),
+      rainfall: toText(parcel.rainfall)
+    }));
+  }, [parcel]);
+
+  const values = useMemo(() => Object.fromEntries(
+    Object.entries(draft).map(([key, value]) => [key, parseNumber(value)])
+  ) as Record<DraftField, number | undefined>, [draft]);
+
+  const input = useMemo(() => parcelConditions(values, values), [values]);
+  const suggestions = useMemo(() => suggestCrops(input), [input]);
+  const missing = MIN_KNOWN_FEATURES - knownFeatures(input).length;
+
+  const soilChanged = parcel !== undefined && SOIL_FIELDS.some(key => values[key] !== parcel[key]);
+
+  const handleSaveAnalysis = async () => {
+    if (!parcel) return;
+    const saved = await updateItem(parcel.id, {
+      nitrogen: values.nitrogen,
+      phosphorus: values.phosphorus,
+      potassium: values.potassium,
+      ph: values.ph
+    });
+    if (saved) toast.success(`Analyse de sol enregistrée pour ${parcel.name}`);
+    else toast.error('L\'analyse de sol n\'a pas pu être enregistrée');
+  };
+
+  return (
+    <div className="bg-muted/30 p-4 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-muted-foreground flex items-center">
+          <Sprout className="h-4 w-4 mr-1.5 text-agri-primary" />
+          Cultures suggérées
+        </h3>
+        {parcel ? (
+          <Button variant="outline" size="sm" onClick={handleSaveAnalysis} disabled={!soilChanged}>
+            <Save className="h-4 w-4 mr-1" />
+            Enregistrer l'analyse
+          </Button>
+        ) : (
+          <span className="text-xs text-muted-foreground">Parcelle non enregistrée : valeurs saisies non sauvegardées</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3">
+        {FIELDS.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label htmlFor={`suggest-${field.key}`} className="text-xs">{field.label}</Label>
+            <Input
+              id={`suggest-${field.key}`}
+              type="number"
+              step={field.step}
+              min="0"
+              value={draft[field.key]}
+              onChange={(e) => setDraft(current => ({ ...current, [field.key]: e.target.value }))}
+              className="h-8"
+            />
+          </div>
+        ))}
+      </div>
+
+      {suggestions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Renseignez encore {missing} valeur{missing > 1 ? 's' : ''} de l'analyse de sol ou du climat pour obtenir des suggestions.
+        </p>
+      ) : (
+        <ol className="space-y-2">
+          {suggestions.map((suggestion, index) => {
+            const isExpanded = expanded === suggestion.label;
+            const summary = suggestion.limiting.length > 0
+              ? `Facteurs limitants : ${suggestion.limiting.map(factor => describeFactor(factor)).join(' · ')}`
+              : 'Toutes les valeurs connues sont proches du profil de la culture';
+            return (
+              <li key={suggestion.label} className="bg-white rounded-md border p-3">
+                <button
+                  type="button"
+                  className="w-full flex items-center gap-3 text-left"
+                  onClick={() => setExpanded(isExpanded ? null : suggestion.label)}
+                >
+                  <span className="text-sm text-muted-foreground w-5">{index + 1}.</span>
+                  <span className="font-medium w-36 truncate">{suggestion.name}</span>
+                  <Progress value={suggestion.score} className="h-2 flex-1" />
+                  <span className="text-sm font-semibold w-10 text-right">{suggestion.score}</span>
+                  {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                </button>
+                <p className={`text-xs mt-1 ml-8 ${suggestion.limiting.length > 0 ? 'text-amber-700' : 'text-muted-foreground'}`}>
+                  {summary}
+                </p>
+                {isExpanded && (
+                  <ul className="mt-2 ml-8 space-y-0.5 text-xs">
+                    {suggestion.factors.map(factor => (
+                      <li key={factor.feature} className={factor.status === 'ideal' ? 'text-green-700' : 'text-amber-700'}>
+                        {describeFactor(factor)}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <p className="text-xs text-muted-foreground">
+        Score de 0 à 100 : proximité des conditions avec celles où chaque culture est observée dans le jeu de données
+        (profils appris sur {recommendationMetrics.samples} observations, bonne culture en tête dans
+        {' '}{Math.round(recommendationMetrics.top1 * 100)} % des cas en validation croisée). La matière organique
+        n'est pas prise en compte.
+      </p>
+    </div>
+  );
+};
+
+export default SuggestedCropsPanel;
@@ -0,0 +1,512 @@
+import React, { useState } from "react";
+import { AlertTriangle, CloudSun, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CropData,
+  CropTask,
+  InventoryItem,
+  ParcelData,
+  PhytosanitaryTreatment,
+  Worker,
+} from "@/types/farm";
+import type { ApplicationWeather } from "@/utils/phytosanitary";
+import {
+  harvestAllowedFrom,
+  harvestsWithinInterval,
+  productFields,
+  treatmentError,
+  treatmentQuantity,
+  treatmentWarnings,
+} from "@/utils/phytosanitary";
+
+const NONE = "none";
+const OTHER = "other";
+
+type TreatmentDraft = Omit<PhytosanitaryTreatment, "id" | "movementId">;
+
+interface TreatmentDialogProps {
+  /** Phytosanitary products held in stock */
+  products: InventoryItem[];
+  parcels: ParcelData[];
+  crops: CropData[];
+  tasks: CropTask[];
+  workers: Worker[];
+  onSave: (draft: TreatmentDraft) => Promise<PhytosanitaryTreatment | null>;
+  onWeather: (parcel: ParcelData, appliedAt: string) => Promise<ApplicationWeather | undefined>;
+}
+
+// Value of a datetime-local input for a date, in local time
+const localDateTime = (date: Date) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+
+const optionalNumber = (value: string) => {
+  const parsed = parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString("fr-FR");
+
+/**
+ * Records one application of a phytosanitary product in the register. The label data
+ * come from the stock item, the weather can be read from the nearest station, and
+ * doses over the label maximum or harvests falling within the DAR are flagged.
+ */
+const TreatmentDialog = ({ products, parcels, crops, tasks, workers, onSave, onWeather }: TreatmentDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [productId, setProductId] = useState(NONE);
+  const [productName, setProductName] = useState("");
+  const [ammNumber, setAmmNumber] = useState("");
+  const [doseUnit, setDoseUnit] = useState("L/ha");
+  const [maxDose, setMaxDose] = useState("");
+  const [preHarvestInterval, setPreHarvestInterval] = useState("");
+  const [target, setTarget] = useState("");
+  const [appliedAt, setAppliedAt] = useState(localDateTime(new Date()));
+  const [parcelId, setParcelId] = useState(NONE);
+  const [cropId, setCropId] = useState(NONE);
+  const [taskId, setTaskId] = useState(NONE);
+  const [area, setArea] = useState("");
+  const [dose, setDose] = useState("");
+  const [workerId, setWorkerId] = useState(NONE);
+  const [operator, setOperator] = useState("");
+  const [temperature, setTemperature] = useState("");
+  const [windSpeed, setWindSpeed] = useState("");
+  const [humidity, setHumidity] = useState("");
+  const [weather, setWeather] = useState("");
+  const [weatherSource, setWeatherSource] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const product = products.find((item) => String(item.id) === productId);
+  const parcel = parcels.find((item) => String(item.id) === parcelId);
+  const parcelCrops = crops.filter((item) => item.status !== "harvested" && String(item.parcelId) === parcelId);
+  const parcelTasks = tasks.filter((item) =>
+    !item.completed && (String(item.parcelId) === parcelId || (cropId !== NONE && String(item.cropId) === cropId))
+  );
+  const time = new Date(appliedAt);
+
+  const draft: TreatmentDraft = {
+    appliedAt: Number.isNaN(time.getTime()) ? "" : time.toISOString(),
+    itemId: product?.id,
+    productName: productName.trim(),
+    ammNumber: ammNumber.trim(),
+    target: target.trim() || undefined,
+    parcelId: parcel?.id ?? 0,
+    cropCycleId: cropId !== NONE ? Number(cropId) : undefined,
+    taskId: taskId !== NONE ? Number(taskId) : undefined,
+    treatedArea: parseFloat(area),
+    dose: parseFloat(dose),
+    doseUnit,
+    maxDose: optionalNumber(maxDose),
+    preHarvestInterval: preHarvestInterval === "" ? 0 : Number(preHarvestInterval),
+    workerId: workerId !== NONE ? Number(workerId) : undefined,
+    operator: operator.trim(),
+    temperature: optionalNumber(temperature),
+    windSpeed: optionalNumber(windSpeed),
+    humidity: optionalNumber(humidity),
+    weather: weather.trim() || undefined,
+    notes: notes.trim() || undefined,
+  };
+  const error = treatmentError(draft);
+  const warnings = error ? [] : treatmentWarnings(draft);
+  const blockedHarvests = error ? [] : harvestsWithinInterval(draft, tasks, crops);
+  const lowStock = product && !error && treatmentQuantity(draft) > product.quantity;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setProductId(NONE);
+      setProductName("");
+      setAmmNumber("");
+      setDoseUnit("L/ha");
+      setMaxDose("");
+      setPreHarvestInterval("");
+      setTarget("");
+      setAppliedAt(localDateTime(new Date()));
+      setParcelId(NONE);
+      setCropId(NONE);
+      setTaskId(NONE);
+      setArea("");
+      setDose("");
+      setWorkerId(NONE);
+      setOperator("");
+      setTemperature("");
+      setWindSpeed("");
+      setHumidity("");
+      setWeather("");
+      setWeatherSource("");
+      setNotes("");
+    }
+    setOpen(next);
+  };
+
+  const handleProduct = (value: string) => {
+    setProductId(value);
+    const item = products.find((entry) => String(entry.id) === value);
+    if (!item) return;
+    const fields = productFields(item);
+    setProductName(fields.productName);
+    setAmmNumber(fields.ammNumber);
+    setDoseUnit(fields.doseUnit);
+    setMaxDose(fields.maxDose !== undefined ? String(fields.maxDose) : "");
+    setPreHarvestInterval(String(fields.preHarvestInterval));
+    if (fields.maxDose !== undefined && !dose) setDose(String(fields.maxDose));
+  };
+
+  const handleParcel = (value: string) => {
+    setParcelId(value);
+    setCropId(NONE);
+    setTaskId(NONE);
+    const selected = parcels.find((item) => String(item.id) === value);
+    const growing = crops.find((item) => item.status === "growing" && String(item.parcelId) === value);
+    if (growing) setCropId(String(growing.id));
+    const hectares = growing?.area || selected?.area;
+    if (hectares) setArea(String(hectares));
+  };
+
+  const handleCrop = (value: string) => {
+    setCropId(value);
+    const crop = crops.find((item) => String(item.id) === value);
+    if (crop?.area) setArea(String(crop.area));
+  };
+
+  const handleWorker = (value: string) => {
+    setWorkerId(value);
+    const worker = workers.find((item) => String(item.id) === value);
+    if (worker) setOperator(worker.name);
+  };
+
+  const handleWeather = async () => {
+    if (!parcel || !draft.appliedAt) return;
+    const reading = await onWeather(parcel, draft.appliedAt);
+    if (!reading) {
+      setWeatherSource("Aucune observation à moins de 3 h à la station la plus proche");
+      return;
+    }
+    if (reading.temperature !== undefined) setTemperature(String(reading.temperature));
+    if (reading.windSpeed !== undefined) setWindSpeed(String(reading.windSpeed));
+    if (reading.humidity !== undefined) setHumidity(String(reading.humidity));
+    setWeatherSource(`Relevé de la station ${reading.station.name}`);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (error) return;
+    if (await onSave(draft)) setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button className="bg-agri-primary hover:bg-agri-primary-dark text-white">
+          <Plus className="h-4 w-4 mr-2" />
+          Enregistrer un traitement
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Nouveau traitement</DialogTitle>
+          <DialogDescription>
+            Un produit pris dans le stock est sorti du stock et imputé à la parcelle traitée.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Produit</Label>
+              <Select value={productId} onValueChange={handleProduct}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choisir un produit" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name} ({item.quantity} {item.unit})
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={OTHER}>Hors stock…</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatment-product">Nom commercial</Label>
+              <Input
+                id="treatment-product"
+                value={productName}
+                onChange={(e) => setProductName(e.target.value)}
+                disabled={product !== undefined}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatment-amm">N° AMM</Label>
+              <Input id="treatment-amm" value={ammNumber} onChange={(e) => setAmmNumber(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatment-target">Cible</Label>
+              <Input
+                id="treatment-target"
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                placeholder="Cercosporiose noire"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="treatment-date">Date et heure</Label>
+              <Input
+                id="treatment-date"
+                type="datetime-local"
+                value={appliedAt}
+                onChange={(e) => setAppliedAt(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Parcelle</Label>
+              <Select value={parcelId} onValueChange={handleParcel}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choisir une parcelle" />
+                </SelectTrigger>
+                <SelectContent>
+                  {parcels.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name} ({item.area} ha)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Culture</Label>
+              <Select value={cropId} onValueChange={handleCrop} disabled={!parcel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Aucune culture</SelectItem>
+                  {parcelCrops.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name} ({item.area} ha)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Tâche</Label>
+              <Select value={taskId} onValueChange={setTaskId} disabled={!parcel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Aucune tâche</SelectItem>
+                  {parcelTasks.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.title} ({formatDay(item.date)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="treatment-area">Surface traitée (ha)</Label>
+              <Input
+                id="treatment-area"
+                type="number"
+                step="0.01"
+                min={0}
+                value={area}
+                onChange={(e) => setArea(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatment-dose">Dose ({doseUnit})</Label>
+              <Input
+                id="treatment-dose"
+                type="number"
+                step="any"
+                min={0}
+                value={dose}
+                onChange={(e) => setDose(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatment-max">Dose max. ({doseUnit})</Label>
+              <Input
+                id="treatment-max"
+                type="number"
+                step="any"
+                min={0}
+                value={maxDose}
+                onChange={(e) => setMaxDose(e.target.value)}
+                disabled={product?.maxDose !== undefined}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatment-interval">DAR (jours)</Label>
+              <Input
+                id="treatment-interval"
+                type="number"
+                step="1"
+                min={0}
+                value={preHarvestInterval}
+                onChange={(e) => setPreHarvestInterval(e.target.value)}
+                disabled={product?.preHarvestInterval !== undefined}
+              />
+            </div>
+            {!error && (
+              <p className="col-span-2 text-sm text-muted-foreground self-end pb-2">
+                {treatmentQuantity(draft)} {doseUnit.replace(/\/ha$/, "")} au total · récolte possible le{" "}
+                {formatDay(harvestAllowedFrom(draft))}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Applicateur</Label>
+              <Select value={workerId} onValueChange={handleWorker}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Autre personne</SelectItem>
+                  {workers
+                    .filter((item) => item.active)
+                    .map((item) => (
+                      <SelectItem key={item.id} value={String(item.id)}>
+                        {item.name} – {item.role}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="treatment-operator">Nom de l'applicateur</Label>
+              <Input
+                id="treatment-operator"
+                value={operator}
+                onChange={(e) => setOperator(e.target.value)}
+                disabled={workerId !== NONE}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <Label>Météo au moment de l'application</Label>
+              <Button type="button" variant="outline" size="sm" onClick={handleWeather} disabled={!parcel}>
+                <CloudSun className="h-4 w-4 mr-2" />
+                Relever à la station
+              </Button>
+            </div>
+            <div className="grid grid-cols-4 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="treatment-temperature" className="text-xs">Température (°C)</Label>
+                <Input
+                  id="treatment-temperature"
+                  type="number"
+                  step="0.1"
+                  value={temperature}
+                  onChange={(e) => setTemperature(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="treatment-wind" className="text-xs">Vent (m/s)</Label>
+                <Input
+                  id="treatment-wind"
+                  type="number"
+                  step="0.1"
+                  min={0}
+                  value={windSpeed}
+                  onChange={(e) => setWindSpeed(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="treatment-humidity" className="text-xs">Humidité (%)</Label>
+                <Input
+                  id="treatment-humidity"
+                  type="number"
+                  step="1"
+                  min={0}
+                  max={100}
+                  value={humidity}
+                  onChange={(e) => setHumidity(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="treatment-weather" className="text-xs">Conditions</Label>
+                <Input
+                  id="treatment-weather"
+                  value={weather}
+                  onChange={(e) => setWeather(e.target.value)}
+                  placeholder="Couvert, sec"
+                />
+              </div>
+            </div>
+            {weatherSource && <p className="text-xs text-muted-foreground">{weatherSource}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="treatment-notes">Observations</Label>
+            <Input id="treatment-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          {(warnings.length > 0 || blockedHarvests.length > 0 || lowStock) && (
+            <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+              {warnings.map((warning) => (
+                <p key={warning} className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  {warning}
+                </p>
+              ))}
+              {blockedHarvests.map((task) => (
+                <p key={task.id} className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  « {task.title} » prévue le {formatDay(task.date)} tombe dans le délai avant récolte
+                </p>
+              ))}
+              {lowStock && product && (
+                <p className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  Stock insuffisant : {product.quantity} {product.unit} disponibles
+                </p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter className="items-center">
+            {error && <p className="text-xs text-muted-foreground mr-auto">{error}</p>}
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Annuler
+            </Button>
+            <Button type="submit" disabled={error !== null}>
+              Enregistrer
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TreatmentDialog;
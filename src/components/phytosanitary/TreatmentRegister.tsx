@@ -0,0 +1,259 @@
+import React, { useState } from "react";
+import { AlertTriangle, Ban, FileDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import ConfirmDialog from "@/components/inventory/ConfirmDialog";
+import { useTreatments } from "@/hooks/use-treatments";
+import type { PhytosanitaryTreatment } from "@/types/farm";
+import { isoDay } from "@/utils/crop-calendar";
+import { exportToPDF } from "@/utils/crm-data-operations";
+import {
+  REGISTER_COLUMNS,
+  harvestAllowedFrom,
+  isCancelled,
+  registerRows,
+  treatmentDay,
+  treatmentQuantity,
+  treatmentWarnings,
+} from "@/utils/phytosanitary";
+import TreatmentDialog from "./TreatmentDialog";
+
+const ALL = "all";
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString("fr-FR");
+
+/**
+ * Register of the phytosanitary treatments, filtered by parcel and campaign year and
+ * printable as a PDF for an inspection
+ */
+const TreatmentRegister = () => {
+  const {
+    treatments,
+    products,
+    parcels,
+    crops,
+    tasks,
+    workers,
+    addTreatment,
+    cancelTreatment,
+    weatherAt,
+  } = useTreatments();
+  const [parcelFilter, setParcelFilter] = useState(ALL);
+  const [yearFilter, setYearFilter] = useState(ALL);
+  const [cancelling, setCancelling] = useState<PhytosanitaryTreatment | null>(null);
+
+  const today = isoDay(new Date());
+  const years = [...new Set(treatments.map((treatment) => treatmentDay(treatment).slice(0, 4)))].sort().reverse();
+  const shown = treatments.filter((treatment) =>
+    (parcelFilter === ALL || String(treatment.parcelId) === parcelFilter) &&
+    (yearFilter === ALL || treatmentDay(treatment).startsWith(yearFilter))
+  );
+  const flagged = shown.filter((treatment) => !isCancelled(treatment) && treatmentWarnings(treatment).length > 0).length;
+
+  const handleExport = async () => {
+    const parcel = parcels.find((item) => String(item.id) === parcelFilter);
+    const scope = [parcel?.name, yearFilter !== ALL ? yearFilter : undefined].filter(Boolean).join(" – ");
+    await exportToPDF(registerRows(shown, parcels, crops), "registre_phytosanitaire", {
+      title: `Registre phytosanitaire${scope ? ` – ${scope}` : ""}`,
+      columns: REGISTER_COLUMNS,
+      template: "report",
+    });
+  };
+
+  const handleCancel = async () => {
+    if (cancelling) await cancelTreatment(cancelling);
+    setCancelling(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Select value={parcelFilter} onValueChange={setParcelFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Toutes les parcelles</SelectItem>
+              {parcels.map((parcel) => (
+                <SelectItem key={parcel.id} value={String(parcel.id)}>
+                  {parcel.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={yearFilter} onValueChange={setYearFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>Toutes les campagnes</SelectItem>
+              {years.map((year) => (
+                <SelectItem key={year} value={year}>
+                  {year}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={shown.length === 0}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Exporter en PDF
+          </Button>
+          <TreatmentDialog
+            products={products}
+            parcels={parcels}
+            crops={crops}
+            tasks={tasks}
+            workers={workers}
+            onSave={addTreatment}
+            onWeather={weatherAt}
+          />
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Registre phytosanitaire</CardTitle>
+          <CardDescription>
+            {shown.length} traitement{shown.length > 1 ? "s" : ""}
+            {flagged > 0 ? ` · ${flagged} à vérifier` : ""}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Parcelle</TableHead>
+                <TableHead>Produit</TableHead>
+                <TableHead>Cible</TableHead>
+                <TableHead className="text-right">Dose</TableHead>
+                <TableHead className="text-right">Surface</TableHead>
+                <TableHead>Applicateur</TableHead>
+                <TableHead>Météo</TableHead>
+                <TableHead>Récolte possible</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map((treatment) => {
+                const parcel = parcels.find((item) => item.id === treatment.parcelId);
+                const crop = crops.find((item) => item.id === treatment.cropCycleId);
+                const cancelled = isCancelled(treatment);
+                const warnings = cancelled ? [] : treatmentWarnings(treatment);
+                const allowedFrom = harvestAllowedFrom(treatment);
+                const applied = new Date(treatment.appliedAt);
+                return (
+                  <TableRow key={treatment.id} className={cancelled ? "text-muted-foreground" : undefined}>
+                    <TableCell className="whitespace-nowrap">
+                      {applied.toLocaleDateString("fr-FR")}
+                      <span className="block text-xs text-muted-foreground">
+                        {applied.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" })}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {parcel?.name}
+                      {crop && <span className="block text-xs text-muted-foreground">{crop.name}</span>}
+                    </TableCell>
+                    <TableCell>
+                      <span className={cancelled ? "line-through" : undefined}>{treatment.productName}</span>
+                      <span className="block text-xs text-muted-foreground">AMM {treatment.ammNumber}</span>
+                    </TableCell>
+                    <TableCell>{treatment.target}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {treatment.dose} {treatment.doseUnit}
+                      <span className="block text-xs text-muted-foreground">
+                        {treatmentQuantity(treatment)} {treatment.doseUnit.replace(/\/ha$/, "")}
+                      </span>
+                    </TableCell>
+                    <TableCell className="text-right">{treatment.treatedArea} ha</TableCell>
+                    <TableCell>{treatment.operator}</TableCell>
+                    <TableCell className="text-sm">
+                      {[
+                        treatment.weather,
+                        treatment.temperature !== undefined ? `${treatment.temperature} °C` : undefined,
+                        treatment.windSpeed !== undefined ? `${treatment.windSpeed} m/s` : undefined,
+                        treatment.humidity !== undefined ? `${treatment.humidity} %` : undefined,
+                      ].filter(Boolean).join(" · ")}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDay(allowedFrom)}
+                      <span className="block text-xs text-muted-foreground">DAR {treatment.preHarvestInterval} j</span>
+                      {!cancelled && allowedFrom > today && treatmentDay(treatment) <= today && (
+                        <Badge variant="outline" className="mt-1 border-amber-400 text-amber-700">
+                          Délai en cours
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center justify-end gap-1">
+                        {warnings.length > 0 && (
+                          <span title={warnings.join("\n")}>
+                            <AlertTriangle className="h-4 w-4 text-agri-danger" />
+                          </span>
+                        )}
+                        {treatment.cancelledAt ? (
+                          <Badge
+                            variant="outline"
+                            title={`Annulé le ${new Date(treatment.cancelledAt).toLocaleDateString("fr-FR")} par ${treatment.cancelledBy}`}
+                          >
+                            Annulé
+                          </Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-red-600 hover:bg-red-50 hover:text-red-700"
+                            title="Annuler le traitement"
+                            onClick={() => setCancelling(treatment)}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+              {shown.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground">
+                    Aucun traitement enregistré
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ConfirmDialog
+        open={cancelling !== null}
+        onOpenChange={(open) => !open && setCancelling(null)}
+        title="Annuler le traitement"
+        description={
+          cancelling?.movementId !== undefined
+            ? "Le traitement reste au registre, marqué annulé, et la sortie de stock du produit est annulée."
+            : "Le traitement reste au registre, marqué annulé."
+        }
+        onConfirm={handleCancel}
+        confirmText="Annuler le traitement"
+        cancelText="Retour"
+        variant="destructive"
+      />
+    </div>
+  );
+};
+
+export default TreatmentRegister;
@@ -0,0 +1,201 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight, Scissors, Sprout } from "lucide-react";
+import type { CropData, CropTask } from "@/types/farm";
+import {
+  CropDragEdge,
+  PLANNING_DRAG_TYPE,
+  PlanningDrag,
+  addDays,
+  decodeDrag,
+  encodeDrag,
+  isoDay,
+  monthWeeks,
+  weekDays,
+} from "@/utils/crop-calendar";
+
+interface CropCalendarProps {
+  crops: CropData[];
+  tasks: CropTask[];
+  /** Crops and tasks involved in a planning conflict */
+  conflictCropIds: Set<number>;
+  conflictTaskIds: Set<number>;
+  onMoveTask: (task: CropTask, date: string) => void;
+  onRescheduleCrop: (crop: CropData, edge: CropDragEdge, date: string) => void;
+}
+
+const PRIORITY_STYLES: Record<CropTask["priority"], string> = {
+  high: "bg-agri-danger/10 text-agri-danger",
+  medium: "bg-agri-warning/10 text-agri-warning",
+  low: "bg-agri-success/10 text-agri-success",
+};
+
+const WEEK_DAYS = ["Dim", "Lun", "Mar", "Mer", "Jeu", "Ven", "Sam"];
+
+const startDrag = (event: React.DragEvent, drag: PlanningDrag) => {
+  event.dataTransfer.setData(PLANNING_DRAG_TYPE, encodeDrag(drag));
+  event.dataTransfer.effectAllowed = "move";
+};
+
+/**
+ * Month or week calendar of the tasks and of the planting and harvest days of each crop.
+ * Dropping an entry on another day reschedules it.
+ */
+const CropCalendar = ({
+  crops,
+  tasks,
+  conflictCropIds,
+  conflictTaskIds,
+  onMoveTask,
+  onRescheduleCrop,
+}: CropCalendarProps) => {
+  const [mode, setMode] = useState<"month" | "week">("month");
+  const [anchor, setAnchor] = useState(isoDay(new Date()));
+  const [dropDay, setDropDay] = useState<string | null>(null);
+
+  const anchorDate = new Date(`${anchor}T00:00:00`);
+  const weeks =
+    mode === "month" ? monthWeeks(anchorDate.getFullYear(), anchorDate.getMonth()) : [weekDays(anchor)];
+  const today = isoDay(new Date());
+
+  const move = (step: number) => {
+    if (mode === "week") {
+      setAnchor(addDays(anchor, step * 7));
+    } else {
+      setAnchor(isoDay(new Date(anchorDate.getFullYear(), anchorDate.getMonth() + step, 1)));
+    }
+  };
+
+  const title =
+    mode === "month"
+      ? anchorDate.toLocaleDateString("fr-FR", { month: "long", year: "numeric" })
+      : `${new Date(`${weeks[0][0]}T00:00:00`).toLocaleDateString("fr-FR", { day: "numeric", month: "short" })} – ${new Date(
+          `${weeks[0][6]}T00:00:00`
+        ).toLocaleDateString("fr-FR", { day: "numeric", month: "short", year: "numeric" })}`;
+
+  const handleDrop = (event: React.DragEvent, day: string) => {
+    event.preventDefault();
+    setDropDay(null);
+    const drag = decodeDrag(event.dataTransfer.getData(PLANNING_DRAG_TYPE));
+    if (!drag) return;
+    if (drag.type === "task") {
+      const task = tasks.find((item) => item.id === drag.id);
+      if (task && task.date !== day) onMoveTask(task, day);
+    } else {
+      const crop = crops.find((item) => item.id === drag.id);
+      if (crop) onRescheduleCrop(crop, drag.edge, day);
+    }
+  };
+
+  const milestone = (crop: CropData, edge: "planting" | "harvest") => {
+    const drag: PlanningDrag = { type: "crop", id: crop.id, edge, grabOffset: 0 };
+    const Icon = edge === "planting" ? Sprout : Scissors;
+    return (
+      <div
+        key={`${edge}-${crop.id}`}
+        draggable
+        onDragStart={(event) => startDrag(event, drag)}
+        className={`text-xs p-1 rounded truncate cursor-move flex items-center gap-1 bg-agri-primary/10 text-agri-primary ${
+          conflictCropIds.has(crop.id) ? "ring-1 ring-agri-danger" : ""
+        }`}
+        title={`${edge === "planting" ? "Planting" : "Harvest"} ${crop.name} – ${crop.parcel}`}
+      >
+        <Icon className="h-3 w-3 shrink-0" />
+        {crop.name}
+      </div>
+    );
+  };
+
+  const renderDay = (day: string | null, index: number) => {
+    if (!day) return <div key={`empty-${index}`} className="min-h-[100px] p-1 border bg-muted/30 rounded-md" />;
+    const dayTasks = tasks.filter((task) => task.date === day);
+    return (
+      <div
+        key={day}
+        onDragOver={(event) => {
+          event.preventDefault();
+          setDropDay(day);
+        }}
+        onDragLeave={() => setDropDay((current) => (current === day ? null : current))}
+        onDrop={(event) => handleDrop(event, day)}
+        className={`${mode === "week" ? "min-h-[320px]" : "min-h-[100px]"} p-1 border rounded-md ${
+          dropDay === day ? "border-agri-primary border-2 bg-agri-primary/5" : "bg-white"
+        }`}
+      >
+        <div className={`text-right text-sm p-1 ${day === today ? "font-bold text-agri-primary" : ""}`}>
+          {mode === "week"
+            ? new Date(`${day}T00:00:00`).toLocaleDateString("fr-FR", { day: "numeric", month: "short" })
+            : Number(day.slice(8))}
+        </div>
+        <div className="space-y-1">
+          {crops.filter((crop) => crop.plantingDate === day).map((crop) => milestone(crop, "planting"))}
+          {crops.filter((crop) => crop.harvestDate === day).map((crop) => milestone(crop, "harvest"))}
+          {dayTasks.map((task) => {
+            const crop = crops.find((item) => item.id === task.cropId);
+            return (
+              <div
+                key={task.id}
+                draggable
+                onDragStart={(event) => startDrag(event, { type: "task", id: task.id })}
+                className={`text-xs p-1 rounded truncate cursor-move ${PRIORITY_STYLES[task.priority]} ${
+                  task.completed ? "line-through opacity-60" : ""
+                } ${conflictTaskIds.has(task.id) ? "ring-1 ring-agri-danger" : ""}`}
+                title={crop ? `${task.title} - ${crop.name}` : task.title}
+              >
+                {task.title}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-6">
+        <div className="flex items-center gap-2">
+          <button onClick={() => move(-1)} className="p-2 hover:bg-muted rounded-full">
+            <ChevronLeft className="h-5 w-5" />
+          </button>
+          <h2 className="text-xl font-semibold capitalize min-w-[200px] text-center">{title}</h2>
+          <button onClick={() => move(1)} className="p-2 hover:bg-muted rounded-full">
+            <ChevronRight className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => setAnchor(today)}
+            className="px-3 py-1 text-sm rounded-lg bg-muted hover:bg-muted/80"
+          >
+            Today
+          </button>
+        </div>
+        <div className="flex space-x-1">
+          {(["month", "week"] as const).map((value) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-3 py-1 text-sm rounded-lg transition-colors ${
+                mode === value ? "bg-agri-primary text-white" : "bg-muted text-foreground hover:bg-muted/80"
+              }`}
+            >
+              {value === "month" ? "Month" : "Week"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {WEEK_DAYS.map((day) => (
+          <div key={day} className="text-center font-medium text-sm py-2 text-muted-foreground">
+            {day}
+          </div>
+        ))}
+        {weeks.flat().map(renderDay)}
+      </div>
+      <p className="text-xs text-muted-foreground mt-3">
+        Drag a task, a planting or a harvest to another day to reschedule it.
+      </p>
+    </div>
+  );
+};
+
+export default CropCalendar;
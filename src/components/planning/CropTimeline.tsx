@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import type { CropData, CropStatus, CropTask } from "@/types/farm";
+import {
+  CropDragEdge,
+  PLANNING_DRAG_TYPE,
+  PlanningDrag,
+  addDays,
+  daysBetween,
+  decodeDrag,
+  encodeDrag,
+  isoDay,
+} from "@/utils/crop-calendar";
+
+interface CropTimelineProps {
+  crops: CropData[];
+  tasks: CropTask[];
+  conflictCropIds: Set<number>;
+  conflictTaskIds: Set<number>;
+  onMoveTask: (task: CropTask, date: string) => void;
+  onRescheduleCrop: (crop: CropData, edge: CropDragEdge, date: string) => void;
+}
+
+// Width of one day on the timeline, px
+const DAY_WIDTH = 3;
+
+const STATUS_STYLES: Record<CropStatus, string> = {
+  growing: "bg-agri-success/80",
+  planned: "bg-agri-warning/80",
+  harvested: "bg-agri-primary/60",
+};
+
+const PRIORITY_DOTS: Record<CropTask["priority"], string> = {
+  high: "bg-agri-danger",
+  medium: "bg-agri-warning",
+  low: "bg-agri-success",
+};
+
+const startDrag = (event: React.DragEvent, drag: PlanningDrag) => {
+  event.stopPropagation();
+  event.dataTransfer.setData(PLANNING_DRAG_TYPE, encodeDrag(drag));
+  event.dataTransfer.effectAllowed = "move";
+};
+
+const monthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+/** Months from the one of `from` to the one of `to`, by their first day */
+const monthsBetween = (from: string, to: string) => {
+  const months: string[] = [];
+  for (let month = monthStart(from); month <= to; month = monthStart(addDays(month, 32))) months.push(month);
+  return months;
+};
+
+/**
+ * Season timeline: one bar per crop cycle from planting to harvest, grouped by parcel,
+ * with its tasks. Dragging a bar moves the season and its open tasks, dragging an end
+ * moves the planting or the harvest alone.
+ */
+const CropTimeline = ({
+  crops,
+  tasks,
+  conflictCropIds,
+  conflictTaskIds,
+  onMoveTask,
+  onRescheduleCrop,
+}: CropTimelineProps) => {
+  const [dropRow, setDropRow] = useState<number | null>(null);
+  const today = isoDay(new Date());
+
+  if (crops.length === 0) {
+    return <p className="text-sm text-muted-foreground">No crop cycle to plan yet.</p>;
+  }
+
+  const start = monthStart(crops.reduce((min, crop) => (crop.plantingDate < min ? crop.plantingDate : min), today));
+  const lastDay = crops.reduce((max, crop) => (crop.harvestDate > max ? crop.harvestDate : max), today);
+  const months = monthsBetween(start, lastDay);
+  const end = addDays(monthStart(addDays(months[months.length - 1], 32)), -1);
+  const width = (daysBetween(start, end) + 1) * DAY_WIDTH;
+  const offset = (date: string) => daysBetween(start, date) * DAY_WIDTH;
+
+  const rows = [...crops].sort(
+    (a, b) => a.parcel.localeCompare(b.parcel) || a.plantingDate.localeCompare(b.plantingDate)
+  );
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    setDropRow(null);
+    const drag = decodeDrag(event.dataTransfer.getData(PLANNING_DRAG_TYPE));
+    if (!drag) return;
+    const day = Math.floor((event.clientX - event.currentTarget.getBoundingClientRect().left) / DAY_WIDTH);
+    if (drag.type === "task") {
+      const task = tasks.find((item) => item.id === drag.id);
+      const date = addDays(start, day);
+      if (task && task.date !== date) onMoveTask(task, date);
+    } else {
+      const crop = crops.find((item) => item.id === drag.id);
+      if (crop) onRescheduleCrop(crop, drag.edge, addDays(start, day - drag.grabOffset));
+    }
+  };
+
+  return (
+    <div className="overflow-x-auto">
+      <div style={{ width: width + 192 }}>
+        <div className="flex border-b">
+          <div className="w-48 shrink-0 sticky left-0 bg-white z-10 text-xs font-medium text-muted-foreground py-2">
+            Parcel · crop
+          </div>
+          <div className="relative h-8" style={{ width }}>
+            {months.map((month) => (
+              <div
+                key={month}
+                className="absolute top-0 h-full border-l text-xs text-muted-foreground pl-1 pt-2 capitalize"
+                style={{ left: offset(month) }}
+              >
+                {new Date(`${month}T00:00:00`).toLocaleDateString("fr-FR", { month: "short", year: "2-digit" })}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {rows.map((crop, index) => {
+          const cropTasks = tasks.filter((task) => task.cropId === crop.id);
+          const newParcel = index === 0 || rows[index - 1].parcel !== crop.parcel;
+          return (
+            <div key={crop.id} className={`flex ${newParcel ? "border-t" : ""}`}>
+              <div className="w-48 shrink-0 sticky left-0 bg-white z-10 py-2 pr-2 text-sm truncate">
+                {newParcel && <span className="font-medium">{crop.parcel}</span>}
+                <span className="block text-xs text-muted-foreground truncate">
+                  {crop.name} · {crop.variety}
+                </span>
+              </div>
+              <div
+                className={`relative h-14 ${dropRow === crop.id ? "bg-agri-primary/5" : ""}`}
+                style={{ width }}
+                onDragOver={(event) => {
+                  event.preventDefault();
+                  setDropRow(crop.id);
+                }}
+                onDragLeave={() => setDropRow((current) => (current === crop.id ? null : current))}
+                onDrop={handleDrop}
+              >
+                {months.map((month) => (
+                  <div key={month} className="absolute top-0 h-full border-l border-dashed" style={{ left: offset(month) }} />
+                ))}
+                {today >= start && today <= end && (
+                  <div className="absolute top-0 h-full border-l-2 border-agri-danger/60" style={{ left: offset(today) }} />
+                )}
+                <div
+                  draggable
+                  onDragStart={(event) =>
+                    startDrag(event, {
+                      type: "crop",
+                      id: crop.id,
+                      edge: "move",
+                      grabOffset: Math.floor(
+                        (event.clientX - event.currentTarget.getBoundingClientRect().left) / DAY_WIDTH
+                      ),
+                    })
+                  }
+                  className={`absolute top-3 h-6 rounded cursor-move text-xs text-white px-2 truncate leading-6 ${
+                    STATUS_STYLES[crop.status]
+                  } ${conflictCropIds.has(crop.id) ? "ring-2 ring-agri-danger" : ""}`}
+                  style={{
+                    left: offset(crop.plantingDate),
+                    width: Math.max(DAY_WIDTH, (daysBetween(crop.plantingDate, crop.harvestDate) + 1) * DAY_WIDTH),
+                  }}
+                  title={`${crop.name}: ${new Date(crop.plantingDate).toLocaleDateString()} → ${new Date(
+                    crop.harvestDate
+                  ).toLocaleDateString()}`}
+                >
+                  {(["planting", "harvest"] as const).map((edge) => (
+                    <span
+                      key={edge}
+                      draggable
+                      onDragStart={(event) => startDrag(event, { type: "crop", id: crop.id, edge, grabOffset: 0 })}
+                      className={`absolute top-0 h-full w-2 cursor-ew-resize bg-black/20 ${
+                        edge === "planting" ? "left-0 rounded-l" : "right-0 rounded-r"
+                      }`}
+                    />
+                  ))}
+                  {crop.name}
+                </div>
+                {cropTasks.map((task) => (
+                  <span
+                    key={task.id}
+                    draggable
+                    onDragStart={(event) => startDrag(event, { type: "task", id: task.id })}
+                    className={`absolute top-[40px] h-2.5 w-2.5 -ml-1 rounded-full cursor-move border border-white ${
+                      PRIORITY_DOTS[task.priority]
+                    } ${task.completed ? "opacity-40" : ""} ${conflictTaskIds.has(task.id) ? "ring-2 ring-agri-danger" : ""}`}
+                    style={{ left: offset(task.date) }}
+                    title={`${task.title} – ${new Date(task.date).toLocaleDateString()}`}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <p className="text-xs text-muted-foreground mt-3">
+        Drag a bar to move the season with its open tasks, drag its ends to change the planting or harvest date, drag a
+        task dot to another day.
+      </p>
+    </div>
+  );
+};
+
+export default CropTimeline;
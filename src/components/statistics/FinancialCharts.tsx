@@ -1,11 +1,8 @@
 
 import React from 'react';
 import { 
-  ScatterChart,
-  Scatter,
   XAxis, 
   YAxis, 
-  ZAxis,
   CartesianGrid, 
   Tooltip, 
   ResponsiveContainer, 
@@ -17,73 +14,78 @@ import {
 } from 'recharts';
 import { useStatistics } from '../../contexts/StatisticsContext';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 
 const FinancialCharts = () => {
   const { financialData } = useStatistics();
-  const { profitabilityByParcel, costAnalysis, revenueByMonth } = financialData;
+  const { costByParcel, costAnalysis, revenueByMonth } = financialData;
+  const perHectare = costByParcel.map((parcel) => ({
+    name: parcel.name,
+    inputs: parcel.size > 0 ? Math.round(parcel.inputCost / parcel.size) : 0,
+    labor: parcel.size > 0 ? Math.round(parcel.laborCost / parcel.size) : 0
+  }));
 
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>Profitability per parcel (€/ha)</CardTitle>
+          <CardTitle>Cost of production per parcel (€/ha)</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Inputs issued from stock and hours logged on each parcel over the last 12 months
+          </p>
         </CardHeader>
         <CardContent>
-          <div className="h-[400px]">
-            <ResponsiveContainer width="100%" height="100%">
-              <ScatterChart
-                margin={{ top: 20, right: 30, left: 20, bottom: 10 }}
-              >
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis 
-                  type="number" 
-                  dataKey="size" 
-                  name="Size" 
-                  unit=" ha" 
-                  label={{ value: 'Size (ha)', position: 'insideBottomRight', offset: -10 }}
-                />
-                <YAxis 
-                  type="number" 
-                  dataKey="profitability" 
-                  name="Profitability" 
-                  unit=" €/ha" 
-                  label={{ value: 'Profitability (€/ha)', angle: -90, position: 'insideLeft' }}
-                />
-                <ZAxis 
-                  type="category" 
-                  dataKey="crop" 
-                  name="Crop" 
-                  range={[100, 1000]} 
-                />
-                <Tooltip 
-                  cursor={{ strokeDasharray: '3 3' }} 
-                  formatter={(value, name, props) => {
-                    if (name === 'Profitability') return [`${value} €/ha`, name];
-                    if (name === 'Size') return [`${value} ha`, name];
-                    return [value, name];
-                  }}
-                  content={({ active, payload }) => {
-                    if (active && payload && payload.length) {
-                      return (
-                        <div className="bg-white p-2 border rounded shadow-sm">
-                          <p className="font-medium">{payload[2]?.payload.name}</p>
-                          <p>Crop: {payload[2]?.value}</p>
-                          <p>Size: {payload[0]?.value} ha</p>
-                          <p>Profitability: {payload[1]?.value} €/ha</p>
-                        </div>
-                      );
-                    }
-                    return null;
-                  }}
-                />
-                <Scatter 
-                  name="Parcels" 
-                  data={profitabilityByParcel} 
-                  fill="#4CAF50" 
-                />
-              </ScatterChart>
-            </ResponsiveContainer>
-          </div>
+          {costByParcel.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-12 text-center">
+              Aucun intrant ni temps de travail imputé à une parcelle sur la période
+            </p>
+          ) : (
+            <>
+              <div className="h-[400px]">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart
+                    data={perHectare}
+                    margin={{ top: 20, right: 30, left: 20, bottom: 10 }}
+                  >
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="name" />
+                    <YAxis 
+                      unit=" €" 
+                      label={{ value: 'Cost (€/ha)', angle: -90, position: 'insideLeft' }}
+                    />
+                    <Tooltip formatter={(value: number, name) => [`${value.toLocaleString()} €/ha`, name]} />
+                    <Legend />
+                    <Bar dataKey="inputs" name="Inputs" stackId="cost" fill="#8D6E63" />
+                    <Bar dataKey="labor" name="Labor" stackId="cost" fill="#4CAF50" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <Table className="mt-4">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Parcel</TableHead>
+                    <TableHead>Crop</TableHead>
+                    <TableHead className="text-right">Area (ha)</TableHead>
+                    <TableHead className="text-right">Inputs (€)</TableHead>
+                    <TableHead className="text-right">Labor (€)</TableHead>
+                    <TableHead className="text-right">Cost (€/ha)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {costByParcel.map((parcel) => (
+                    <TableRow key={parcel.name}>
+                      <TableCell className="font-medium">{parcel.name}</TableCell>
+                      <TableCell>{parcel.crop}</TableCell>
+                      <TableCell className="text-right">{parcel.size}</TableCell>
+                      <TableCell className="text-right">{parcel.inputCost.toLocaleString()}</TableCell>
+                      <TableCell className="text-right">{parcel.laborCost.toLocaleString()}</TableCell>
+                      <TableCell className="text-right font-semibold">{parcel.costPerHa.toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
         </CardContent>
       </Card>
       
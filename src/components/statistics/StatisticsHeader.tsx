@@ -18,7 +18,7 @@ const StatisticsHeader = () => {
   // Combine all statistics data for preview/print
   const statisticsData = [
     ...(yieldData || []).map(item => ({ ...item, type: 'rendement' })),
-    ...(financialData.profitabilityByParcel || []).map(item => ({ ...item, type: 'financier' })),
+    ...(financialData.costByParcel || []).map(item => ({ ...item, type: 'financier' })),
     ...(environmentalData.indicators || []).map(item => ({ ...item, type: 'environnement' }))
   ];
 
@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import { ListChecks } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CropData, TaskTemplate, TaskTemplateItem } from "@/types/farm";
+import { describeRule, templatesFor } from "@/utils/task-engine";
+
+interface ApplyTemplateDialogProps {
+  crops: CropData[];
+  templates: TaskTemplate[];
+  templateItems: TaskTemplateItem[];
+  onApply: (templateId: number, crop: CropData) => Promise<number | null>;
+}
+
+/**
+ * Generates the work plan of a crop cycle from a task template, each task dated from
+ * the planting date.
+ */
+const ApplyTemplateDialog = ({ crops, templates, templateItems, onApply }: ApplyTemplateDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [cropId, setCropId] = useState("");
+  const [templateId, setTemplateId] = useState("");
+  const [isApplying, setIsApplying] = useState(false);
+
+  const activeCrops = crops.filter((crop) => crop.status !== "harvested");
+  const crop = activeCrops.find((item) => String(item.id) === cropId);
+  const available = crop ? templatesFor(crop, templates) : [];
+  const template = available.find((item) => String(item.id) === templateId);
+  const items = templateItems
+    .filter((item) => item.templateId === template?.id)
+    .sort((a, b) => a.position - b.position);
+
+  const handleCrop = (value: string) => {
+    setCropId(value);
+    const selected = activeCrops.find((item) => String(item.id) === value);
+    const first = selected ? templatesFor(selected, templates)[0] : undefined;
+    setTemplateId(first ? String(first.id) : "");
+  };
+
+  const handleApply = async () => {
+    if (!crop || !template) return;
+    setIsApplying(true);
+    const created = await onApply(template.id, crop);
+    setIsApplying(false);
+    if (created === null) return;
+    if (created === 0) {
+      toast.info("Nothing to add", { description: "The template's tasks already exist or are past." });
+    } else {
+      toast.success(`${created} task(s) planned`, { description: `${template.name} – ${crop.name}, ${crop.parcel}` });
+    }
+    setOpen(false);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) {
+          setCropId("");
+          setTemplateId("");
+        }
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ListChecks className="h-4 w-4 mr-2" />
+          Apply template
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Apply a task template</DialogTitle>
+          <DialogDescription>Plans a crop's usual work from its planting date.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Crop cycle</Label>
+            <Select value={cropId} onValueChange={handleCrop}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a crop cycle" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeCrops.map((item) => (
+                  <SelectItem key={item.id} value={String(item.id)}>
+                    {item.name} – {item.parcel} ({new Date(item.plantingDate).toLocaleDateString()})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {crop && available.length === 0 && (
+            <p className="text-sm text-muted-foreground">No template for {crop.name} yet.</p>
+          )}
+
+          {available.length > 0 && (
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {available.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {template?.description && <p className="text-xs text-muted-foreground">{template.description}</p>}
+            </div>
+          )}
+
+          {items.length > 0 && (
+            <ul className="rounded-md border divide-y text-sm">
+              {items.map((item) => (
+                <li key={item.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                  <span>{item.title}</span>
+                  <span className="text-xs text-muted-foreground text-right">
+                    D+{item.offsetDays}
+                    {item.rule ? ` · ${describeRule(item.rule).toLowerCase()}` : ""}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!crop || !template || isApplying}>
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ApplyTemplateDialog;
@@ -0,0 +1,299 @@
+import React, { useState } from "react";
+import { Plus, Repeat } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { TaskDraft } from "@/hooks/use-tasks";
+import type { CropData, ParcelData, TaskPriority, Worker } from "@/types/farm";
+import { isoDay } from "@/utils/crop-calendar";
+import { RECURRENCE_PRESETS, describeRule, ruleError } from "@/utils/task-engine";
+
+const NONE = "none";
+const CUSTOM = "custom";
+
+interface TaskFormDialogProps {
+  crops: CropData[];
+  parcels: ParcelData[];
+  /** Workers tasks can be assigned to */
+  workers: Worker[];
+  onSave: (draft: TaskDraft) => Promise<number | null>;
+  /** Preselected parcel, e.g. on a parcel's page */
+  parcelId?: number;
+  /** Controlled mode; without it the dialog renders its own trigger button */
+  open?: boolean;
+  onOpenChange?: (open: boolean) => void;
+  label?: string;
+}
+
+/**
+ * Form creating a task, or a recurring task when a repeat rule is chosen. Every task
+ * view opens this same form.
+ */
+const TaskFormDialog = ({
+  crops,
+  parcels,
+  workers,
+  onSave,
+  parcelId,
+  open,
+  onOpenChange,
+  label = "Add Task",
+}: TaskFormDialogProps) => {
+  const [ownOpen, setOwnOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [cropId, setCropId] = useState(NONE);
+  const [parcel, setParcel] = useState(NONE);
+  const [date, setDate] = useState(isoDay(new Date()));
+  const [priority, setPriority] = useState<TaskPriority>("medium");
+  const [workerId, setWorkerId] = useState(NONE);
+  const [notes, setNotes] = useState("");
+  const [harvest, setHarvest] = useState(false);
+  const [repeat, setRepeat] = useState(NONE);
+  const [customRule, setCustomRule] = useState("FREQ=DAILY;INTERVAL=14");
+  const [endDate, setEndDate] = useState("");
+
+  const isOpen = open ?? ownOpen;
+  const rule = repeat === NONE ? undefined : repeat === CUSTOM ? customRule.trim() : repeat;
+  const invalidRule = rule ? ruleError(rule) : null;
+  const crop = crops.find((item) => String(item.id) === cropId);
+  const worker = workers.find((item) => String(item.id) === workerId);
+  const parcelCrops = parcel === NONE ? crops : crops.filter((item) => String(item.parcelId) === parcel);
+  const isValid = title.trim().length > 0 && date && !invalidRule && (!endDate || endDate >= date);
+
+  const setOpen = (next: boolean) => {
+    if (next) {
+      setTitle("");
+      setCropId(NONE);
+      setParcel(parcelId !== undefined ? String(parcelId) : NONE);
+      setDate(isoDay(new Date()));
+      setPriority("medium");
+      setWorkerId(NONE);
+      setNotes("");
+      setHarvest(false);
+      setRepeat(NONE);
+      setEndDate("");
+    }
+    setOwnOpen(next);
+    onOpenChange?.(next);
+  };
+
+  const handleCrop = (value: string) => {
+    setCropId(value);
+    const selected = crops.find((item) => String(item.id) === value);
+    if (selected?.parcelId !== undefined) setParcel(String(selected.parcelId));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    const created = await onSave({
+      task: {
+        cropId: crop?.id ?? 0,
+        parcelId: parcel !== NONE ? Number(parcel) : crop?.parcelId,
+        title: title.trim(),
+        date,
+        completed: false,
+        priority,
+        assignee: worker?.name,
+        workerId: worker?.id,
+        notes: notes.trim() || undefined,
+        harvest,
+      },
+      rule,
+      endDate: rule && endDate ? endDate : undefined,
+    });
+    if (created === null) return;
+    toast.success(rule ? "Recurring task created" : "New task added", {
+      description: rule ? `${describeRule(rule)} · ${created} occurrence(s) scheduled` : undefined,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      {open === undefined && (
+        <DialogTrigger asChild>
+          <Button className="bg-agri-primary hover:bg-agri-primary-dark text-white">
+            <Plus className="h-4 w-4 mr-2" />
+            {label}
+          </Button>
+        </DialogTrigger>
+      )}
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New task</DialogTitle>
+          <DialogDescription>Link it to a crop cycle or a parcel, and repeat it if it comes back.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-title">Title</Label>
+            <Input
+              id="task-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Traitement contre la cercosporiose"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Parcel</Label>
+              <Select value={parcel} onValueChange={setParcel}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {parcels.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Crop cycle</Label>
+              <Select value={cropId} onValueChange={handleCrop}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {parcelCrops.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name} – {item.parcel}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-date">{rule ? "First date" : "Date"}</Label>
+              <Input id="task-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={priority} onValueChange={(value) => setPriority(value as TaskPriority)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="high">High</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="low">Low</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Assigned to</Label>
+            <Select value={workerId} onValueChange={setWorkerId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>Nobody</SelectItem>
+                {workers
+                  .filter((item) => item.active)
+                  .map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name} – {item.role}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="rounded-md border p-3 space-y-3">
+            <div className="flex items-center gap-2">
+              <Repeat className="h-4 w-4 text-muted-foreground" />
+              <Label>Repeat</Label>
+              <Select value={repeat} onValueChange={setRepeat}>
+                <SelectTrigger className="h-8 ml-auto w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Does not repeat</SelectItem>
+                  {RECURRENCE_PRESETS.map((preset) => (
+                    <SelectItem key={preset.rule} value={preset.rule}>
+                      {preset.label}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM}>Custom rule…</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {repeat === CUSTOM && (
+              <div className="space-y-1">
+                <Input
+                  value={customRule}
+                  onChange={(e) => setCustomRule(e.target.value)}
+                  placeholder="FREQ=WEEKLY;BYDAY=MO,TH"
+                  className="font-mono text-sm"
+                />
+                <p className={`text-xs ${invalidRule ? "text-red-600" : "text-muted-foreground"}`}>
+                  {invalidRule ?? describeRule(customRule)}
+                </p>
+              </div>
+            )}
+            {rule && (
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div className="space-y-2">
+                  <Label htmlFor="task-end">Until (optional)</Label>
+                  <Input id="task-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+                </div>
+                <p className="text-xs text-muted-foreground pb-2">
+                  Occurrences are scheduled up to two months ahead.
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="task-harvest" checked={harvest} onCheckedChange={(checked) => setHarvest(checked === true)} />
+            <Label htmlFor="task-harvest">Harvest – refused within the pre-harvest interval of a treatment</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="task-notes">Notes</Label>
+            <Input id="task-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TaskFormDialog;
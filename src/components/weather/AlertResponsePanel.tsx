@@ -0,0 +1,147 @@
+import React from "react";
+import { ShieldCheck, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { useCyclonePreparedness } from "@/hooks/use-cyclone-preparedness";
+import type { CropTask, DamageAssessment, WeatherAlert } from "@/types/farm";
+import { DAMAGE_CATEGORY_LABELS, isCycloneAlert } from "@/utils/cyclone-preparedness";
+import { dayDate } from "@/utils/weather-series";
+import DamageAssessmentDialog from "./DamageAssessmentDialog";
+
+interface AlertResponsePanelProps {
+  alert: WeatherAlert;
+}
+
+const PRIORITY_COLORS: Record<CropTask["priority"], string> = {
+  high: "bg-red-100 text-red-800",
+  medium: "bg-yellow-100 text-yellow-800",
+  low: "bg-green-100 text-green-800",
+};
+
+/**
+ * What the farm does about an alert: the cyclone checklist of a tropical storm, and the
+ * damage assessments filed once it has passed
+ */
+const AlertResponsePanel = ({ alert }: AlertResponsePanelProps) => {
+  const {
+    assessments,
+    parcels,
+    inventory,
+    cropCycles,
+    checklistFor,
+    activate,
+    toggleTask,
+    saveAssessment,
+    deleteAssessment,
+  } = useCyclonePreparedness();
+  const { parcelTasks, assetTasks, progress } = checklistFor(alert.id);
+  const ofAlert = assessments.filter((assessment) => assessment.weatherAlertId === alert.id);
+  const totalLoss = ofAlert.reduce((sum, assessment) => sum + assessment.estimatedLoss, 0);
+
+  const handleActivate = async () => {
+    const created = await activate(alert);
+    toast.success(created > 0 ? `${created} checklist task(s) created` : "The checklist is up to date");
+  };
+
+  const handleDelete = async (assessment: DamageAssessment) => {
+    if (!window.confirm("Delete this assessment and the expense it booked?")) return;
+    if (await deleteAssessment(assessment)) toast.success("Assessment deleted");
+  };
+
+  const renderTasks = (tasks: CropTask[]) => (
+    <ul className="space-y-1">
+      {tasks.map((task) => (
+        <li key={task.id} className="flex items-center gap-2 text-sm">
+          <Checkbox checked={task.completed} onCheckedChange={() => toggleTask(task)} />
+          <span className={task.completed ? "line-through text-muted-foreground" : ""}>{task.title}</span>
+          <Badge className={PRIORITY_COLORS[task.priority]}>{task.priority}</Badge>
+          <span className="text-xs text-muted-foreground ml-auto">{dayDate(task.date).toLocaleDateString()}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="mt-4 space-y-4">
+      {alert.type === "Tropical Storm" && (
+        <div className="rounded-md border bg-white p-3 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h4 className="text-sm font-semibold flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-purple-500" />
+              Cyclone preparedness
+            </h4>
+            {isCycloneAlert(alert) && (
+              <Button variant="outline" size="sm" onClick={handleActivate}>
+                {progress.total > 0 ? "Update checklist" : "Generate checklist"}
+              </Button>
+            )}
+          </div>
+          {progress.total === 0 ? (
+            <p className="text-sm text-muted-foreground">No checklist for this alert.</p>
+          ) : (
+            <>
+              <div className="flex items-center gap-3">
+                <Progress value={progress.percent} className="h-2" />
+                <span className="text-sm whitespace-nowrap">
+                  {progress.done}/{progress.total}
+                </span>
+              </div>
+              {parcelTasks.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium uppercase text-muted-foreground mb-1">Parcels</p>
+                  {renderTasks(parcelTasks)}
+                </div>
+              )}
+              {assetTasks.length > 0 && (
+                <div>
+                  <p className="text-xs font-medium uppercase text-muted-foreground mb-1">Equipment and stock</p>
+                  {renderTasks(assetTasks)}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <div className="rounded-md border bg-white p-3 space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h4 className="text-sm font-semibold">
+            Damage assessments
+            {ofAlert.length > 0 && (
+              <span className="font-normal text-muted-foreground"> · {totalLoss.toLocaleString("fr-FR")} € of losses</span>
+            )}
+          </h4>
+          <DamageAssessmentDialog
+            alert={alert}
+            parcels={parcels}
+            cropCycles={cropCycles}
+            inventory={inventory}
+            onSave={saveAssessment}
+          />
+        </div>
+        {ofAlert.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No damage reported.</p>
+        ) : (
+          <ul className="space-y-1">
+            {ofAlert.map((assessment) => (
+              <li key={assessment.id} className="flex items-center gap-2 text-sm">
+                <Badge variant="outline">{DAMAGE_CATEGORY_LABELS[assessment.category]}</Badge>
+                <span>{assessment.description}</span>
+                {assessment.insured && <Badge className="bg-blue-100 text-blue-800">Insured</Badge>}
+                <span className="ml-auto font-medium">{assessment.estimatedLoss.toLocaleString("fr-FR")} €</span>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(assessment)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertResponsePanel;
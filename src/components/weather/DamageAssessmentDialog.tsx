@@ -0,0 +1,303 @@
+import React, { useState } from "react";
+import { ClipboardList } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type {
+  CropData,
+  DamageAssessment,
+  DamageCategory,
+  InventoryItem,
+  ParcelData,
+  WeatherAlert,
+} from "@/types/farm";
+import { DAMAGE_CATEGORY_LABELS, DAMAGE_EXPENSE_CATEGORY, stockLoss } from "@/utils/cyclone-preparedness";
+
+const NONE = "none";
+
+interface DamageAssessmentDialogProps {
+  alert: WeatherAlert;
+  parcels: ParcelData[];
+  cropCycles: CropData[];
+  inventory: InventoryItem[];
+  onSave: (draft: Omit<DamageAssessment, "id" | "transactionId">) => Promise<DamageAssessment | null>;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Post-event damage report of an alert; the estimated loss is booked as an expense
+ */
+const DamageAssessmentDialog = ({ alert, parcels, cropCycles, inventory, onSave }: DamageAssessmentDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [date, setDate] = useState(today());
+  const [category, setCategory] = useState<DamageCategory>("crop");
+  const [parcelId, setParcelId] = useState(NONE);
+  const [cropCycleId, setCropCycleId] = useState(NONE);
+  const [inventoryItemId, setInventoryItemId] = useState(NONE);
+  const [description, setDescription] = useState("");
+  const [damagedArea, setDamagedArea] = useState("");
+  const [lossPercent, setLossPercent] = useState("");
+  const [estimatedLoss, setEstimatedLoss] = useState("");
+  const [insured, setInsured] = useState(false);
+  const [notes, setNotes] = useState("");
+
+  const onParcel = category === "crop" || category === "infrastructure";
+  const onStock = category === "equipment" || category === "stock";
+  const parcelCycles = cropCycles.filter((cycle) => String(cycle.parcelId) === parcelId);
+  const stockItem = inventory.find((item) => String(item.id) === inventoryItemId);
+  const percent = parseFloat(lossPercent);
+  const loss = parseFloat(estimatedLoss);
+  const isValid =
+    date &&
+    description.trim().length >= 3 &&
+    Number.isFinite(loss) &&
+    loss >= 0 &&
+    (lossPercent === "" || (percent >= 0 && percent <= 100));
+
+  const reset = () => {
+    setDate(today());
+    setCategory("crop");
+    setParcelId(NONE);
+    setCropCycleId(NONE);
+    setInventoryItemId(NONE);
+    setDescription("");
+    setDamagedArea("");
+    setLossPercent("");
+    setEstimatedLoss("");
+    setInsured(false);
+    setNotes("");
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    const saved = await onSave({
+      weatherAlertId: alert.id,
+      date,
+      category,
+      parcelId: onParcel && parcelId !== NONE ? Number(parcelId) : undefined,
+      cropCycleId: category === "crop" && cropCycleId !== NONE ? Number(cropCycleId) : undefined,
+      inventoryItemId: onStock && inventoryItemId !== NONE ? Number(inventoryItemId) : undefined,
+      description: description.trim(),
+      damagedArea: category === "crop" && damagedArea ? parseFloat(damagedArea) : undefined,
+      lossPercent: lossPercent ? percent : undefined,
+      estimatedLoss: loss,
+      insured,
+      notes: notes.trim() || undefined,
+    });
+    if (!saved) return;
+    toast.success("Damage assessment saved", {
+      description: `${loss.toLocaleString("fr-FR")} € booked under "${DAMAGE_EXPENSE_CATEGORY}"`,
+    });
+    reset();
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ClipboardList className="h-4 w-4 mr-2" />
+          Assess damage
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Damage assessment</DialogTitle>
+          <DialogDescription>
+            {alert.type} – {alert.region}. The estimated loss is recorded as an expense in the finances.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="damage-date">Date</Label>
+              <Input id="damage-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as DamageCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(DAMAGE_CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {onParcel && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Parcel</Label>
+                <Select
+                  value={parcelId}
+                  onValueChange={(value) => {
+                    setParcelId(value);
+                    setCropCycleId(NONE);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>Whole farm</SelectItem>
+                    {parcels.map((parcel) => (
+                      <SelectItem key={parcel.id} value={String(parcel.id)}>
+                        {parcel.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {category === "crop" && (
+                <div className="space-y-2">
+                  <Label>Crop cycle</Label>
+                  <Select value={cropCycleId} onValueChange={setCropCycleId} disabled={parcelCycles.length === 0}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NONE}>None</SelectItem>
+                      {parcelCycles.map((cycle) => (
+                        <SelectItem key={cycle.id} value={String(cycle.id)}>
+                          {cycle.name} ({cycle.variety})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {onStock && (
+            <div className="space-y-2">
+              <Label>Inventory item</Label>
+              <Select value={inventoryItemId} onValueChange={setInventoryItemId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not in the inventory</SelectItem>
+                  {inventory.map((item) => (
+                    <SelectItem key={item.id} value={String(item.id)}>
+                      {item.name} · {item.category}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="damage-description">Description</Label>
+            <Input
+              id="damage-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="Banana plants snapped, drainage ditch filled in…"
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            {category === "crop" && (
+              <div className="space-y-2">
+                <Label htmlFor="damage-area">Damaged area (ha)</Label>
+                <Input
+                  id="damage-area"
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={damagedArea}
+                  onChange={(e) => setDamagedArea(e.target.value)}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="damage-percent">Loss (%)</Label>
+              <Input
+                id="damage-percent"
+                type="number"
+                min={0}
+                max={100}
+                value={lossPercent}
+                onChange={(e) => setLossPercent(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="damage-loss">Estimated loss (€)</Label>
+              <Input
+                id="damage-loss"
+                type="number"
+                min={0}
+                step="any"
+                value={estimatedLoss}
+                onChange={(e) => setEstimatedLoss(e.target.value)}
+              />
+            </div>
+          </div>
+          {stockItem && percent > 0 && (
+            <p className="text-xs text-muted-foreground">
+              {percent} % of the stock value of {stockItem.name}: {stockLoss(stockItem, percent).toLocaleString("fr-FR")} €{" "}
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs"
+                onClick={() => setEstimatedLoss(String(stockLoss(stockItem, percent)))}
+              >
+                Use
+              </Button>
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Checkbox id="damage-insured" checked={insured} onCheckedChange={(checked) => setInsured(checked === true)} />
+            <Label htmlFor="damage-insured">Covered by insurance (claim to file)</Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="damage-notes">Notes</Label>
+            <Input id="damage-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DamageAssessmentDialog;
@@ -0,0 +1,432 @@
+import React, { useState } from "react";
+import { PlusCircle, SlidersHorizontal, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import * as z from "zod";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { WeatherAlertRule } from "@/types/farm";
+import { GUADELOUPE_REGIONS } from "@/utils/regions";
+import { AGGREGATION_LABELS, METRIC_LABELS, describeRule } from "@/utils/weather-alerts";
+
+const ALL_REGIONS = "all";
+
+const positiveNumber = (message: string) =>
+  z.string().refine((value) => value !== "" && !isNaN(Number(value)) && Number(value) > 0, { message });
+
+const ruleFormSchema = z.object({
+  name: z.string().min(3, { message: "Name too short" }),
+  type: z.enum(["Heavy Rain", "Tropical Storm", "Drought", "Excessive Heat", "Flood"]),
+  region: z.string(),
+  metric: z.enum(["rain", "t_max", "t_min", "t_mean", "humidity", "wind_max"]),
+  aggregation: z.enum(["sum", "mean", "max", "min"]),
+  windowDays: z.string().refine(
+    (value) => Number.isInteger(Number(value)) && Number(value) >= 1 && Number(value) <= 90,
+    { message: "Between 1 and 90 days" }
+  ),
+  comparison: z.enum(["above", "below"]),
+  threshold: z.string().refine((value) => value !== "" && !isNaN(Number(value)), { message: "Threshold is required" }),
+  severity: z.enum(["Low", "Medium", "High", "Extreme"]),
+  impactCrops: z.enum(["Light", "Moderate", "Severe"]),
+  recommendation: z.string().min(5, { message: "Recommendation too short" }),
+  expiryHours: positiveNumber("Expiry must be positive"),
+});
+
+type RuleFormValues = z.infer<typeof ruleFormSchema>;
+
+const DEFAULT_VALUES: RuleFormValues = {
+  name: "",
+  type: "Heavy Rain",
+  region: ALL_REGIONS,
+  metric: "rain",
+  aggregation: "sum",
+  windowDays: "1",
+  comparison: "above",
+  threshold: "",
+  severity: "Medium",
+  impactCrops: "Moderate",
+  recommendation: "",
+  expiryHours: "48",
+};
+
+interface WeatherAlertRulesPanelProps {
+  rules: WeatherAlertRule[];
+  onAdd: (rule: Omit<WeatherAlertRule, "id">) => Promise<WeatherAlertRule | null>;
+  onUpdate: (id: number, changes: Partial<WeatherAlertRule>) => Promise<unknown>;
+  onDelete: (id: number) => Promise<boolean>;
+  /** Re-evaluate once the rules changed */
+  onChange: () => void;
+}
+
+interface SelectFieldProps {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}
+
+const SelectField = ({ label, value, onChange, options }: SelectFieldProps) => (
+  <FormItem>
+    <FormLabel>{label}</FormLabel>
+    <Select onValueChange={onChange} value={value}>
+      <FormControl>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+      </FormControl>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+    <FormMessage />
+  </FormItem>
+);
+
+const asOptions = (values: readonly string[]) => values.map((value) => ({ value, label: value }));
+
+/**
+ * Rules the alert engine evaluates against the daily station aggregates
+ */
+const WeatherAlertRulesPanel = ({ rules, onAdd, onUpdate, onDelete, onChange }: WeatherAlertRulesPanelProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const form = useForm<RuleFormValues>({
+    resolver: zodResolver(ruleFormSchema),
+    defaultValues: DEFAULT_VALUES,
+  });
+  const preview = form.watch();
+
+  const onSubmit = async (data: RuleFormValues) => {
+    const created = await onAdd({
+      name: data.name,
+      type: data.type,
+      region: data.region === ALL_REGIONS ? undefined : data.region,
+      metric: data.metric,
+      aggregation: data.aggregation,
+      windowDays: Number(data.windowDays),
+      comparison: data.comparison,
+      threshold: Number(data.threshold),
+      severity: data.severity,
+      impactCrops: data.impactCrops,
+      recommendation: data.recommendation,
+      expiryHours: Number(data.expiryHours),
+      enabled: true,
+    });
+    if (!created) return;
+    toast.success(`Rule "${created.name}" added`);
+    setDialogOpen(false);
+    form.reset(DEFAULT_VALUES);
+    onChange();
+  };
+
+  const handleToggle = async (rule: WeatherAlertRule, enabled: boolean) => {
+    await onUpdate(rule.id, { enabled });
+    onChange();
+  };
+
+  const handleDelete = async (rule: WeatherAlertRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"? Its alerts are kept.`)) return;
+    if (await onDelete(rule.id)) {
+      toast.success(`Rule "${rule.name}" deleted`);
+      onChange();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <SlidersHorizontal className="h-5 w-5" />
+            Alert rules
+          </CardTitle>
+          <CardDescription>
+            Evaluated on the daily station aggregates after each import; an alert completes once
+            the condition clears and expires when no new data confirms it
+          </CardDescription>
+        </div>
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <PlusCircle className="h-4 w-4 mr-2" />
+              New Rule
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Add Alert Rule</DialogTitle>
+            </DialogHeader>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} placeholder="Flood risk Basse-Terre" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="region"
+                    render={({ field }) => (
+                      <SelectField
+                        label="Region"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={[{ value: ALL_REGIONS, label: "All regions" }, ...asOptions(GUADELOUPE_REGIONS)]}
+                      />
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="metric"
+                    render={({ field }) => (
+                      <SelectField
+                        label="Metric"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={Object.entries(METRIC_LABELS).map(([value, { label, unit }]) => ({
+                          value,
+                          label: `${label} (${unit})`,
+                        }))}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="aggregation"
+                    render={({ field }) => (
+                      <SelectField
+                        label="Aggregation"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={Object.entries(AGGREGATION_LABELS).map(([value, label]) => ({ value, label }))}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="windowDays"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Window (days)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} max={90} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="comparison"
+                    render={({ field }) => (
+                      <SelectField
+                        label="Comparison"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={asOptions(["above", "below"])}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="threshold"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Threshold</FormLabel>
+                        <FormControl>
+                          <Input type="number" step="any" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="expiryHours"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Expiry (hours)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={1} {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="type"
+                    render={({ field }) => (
+                      <SelectField
+                        label="Alert Type"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={asOptions(["Heavy Rain", "Tropical Storm", "Drought", "Excessive Heat", "Flood"])}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="severity"
+                    render={({ field }) => (
+                      <SelectField
+                        label="Severity"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={asOptions(["Low", "Medium", "High", "Extreme"])}
+                      />
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="impactCrops"
+                    render={({ field }) => (
+                      <SelectField
+                        label="Crop Impact"
+                        value={field.value}
+                        onChange={field.onChange}
+                        options={asOptions(["Light", "Moderate", "Severe"])}
+                      />
+                    )}
+                  />
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="recommendation"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Recommendation</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {preview.threshold !== "" && !isNaN(Number(preview.threshold)) && (
+                  <p className="text-sm text-muted-foreground">
+                    Alert when the{" "}
+                    {describeRule({
+                      metric: preview.metric,
+                      aggregation: preview.aggregation,
+                      windowDays: Number(preview.windowDays) || 1,
+                      comparison: preview.comparison,
+                      threshold: Number(preview.threshold),
+                    })}
+                  </p>
+                )}
+
+                <div className="flex justify-end space-x-2">
+                  <Button variant="outline" type="button" onClick={() => setDialogOpen(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit">Add Rule</Button>
+                </div>
+              </form>
+            </Form>
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rules: no alert will be raised.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Condition</TableHead>
+                <TableHead>Region</TableHead>
+                <TableHead>Alert</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell className="text-sm">{describeRule(rule)}</TableCell>
+                  <TableCell>{rule.region ?? "All regions"}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant="outline">{rule.type}</Badge>
+                      <Badge variant="outline">{rule.severity}</Badge>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={rule.enabled} onCheckedChange={(checked) => handleToggle(rule, checked)} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WeatherAlertRulesPanel;
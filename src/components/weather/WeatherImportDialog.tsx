@@ -0,0 +1,229 @@
+import React, { useEffect, useState } from "react";
+import { AlertTriangle, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { WeatherImportSummary } from "@/services/weather-ingestion";
+import type { WeatherStation } from "@/types/farm";
+import {
+  WEATHER_FILE_ACCEPT,
+  WEATHER_FORMAT_LABELS,
+  WeatherDataset,
+  parseWeatherFile,
+} from "@/utils/weather-import";
+
+const NO_STATION = "none";
+const MAX_ISSUES = 8;
+
+const ROW_LABELS: Record<WeatherDataset["format"], string> = {
+  csv: "Ligne",
+  json: "Élément",
+  synop: "Message",
+};
+
+interface WeatherImportDialogProps {
+  stations: WeatherStation[];
+  onImport: (dataset: WeatherDataset) => Promise<WeatherImportSummary>;
+}
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+/**
+ * Imports station observations from a CSV export, a JSON file or raw SYNOP bulletins
+ */
+const WeatherImportDialog = ({ stations, onImport }: WeatherImportDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [file, setFile] = useState<File | null>(null);
+  const [stationCode, setStationCode] = useState(NO_STATION);
+  const [month, setMonth] = useState(currentMonth());
+  const [dataset, setDataset] = useState<WeatherDataset | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // Re-read the file whenever an option it depends on changes
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    const [year, number] = month.split("-").map(Number);
+    parseWeatherFile(file, {
+      stationCode: stationCode === NO_STATION ? undefined : stationCode,
+      // End of the chosen month, so every day of it is accepted
+      reference: new Date(Date.UTC(year, number, 0, 23)),
+    })
+      .then((parsed) => {
+        if (cancelled) return;
+        setDataset(parsed);
+        setError(null);
+      })
+      .catch((parseError: Error) => {
+        if (cancelled) return;
+        setDataset(null);
+        setError(parseError.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [file, stationCode, month]);
+
+  const reset = () => {
+    setFile(null);
+    setDataset(null);
+    setError(null);
+    setStationCode(NO_STATION);
+  };
+
+  const fileStations = dataset ? Array.from(new Set(dataset.observations.map((item) => item.stationCode))) : [];
+  const unknown = fileStations.filter((code) => !stations.some((station) => station.code === code));
+  const times = dataset?.observations.map((item) => item.observedAt).sort() ?? [];
+  const importable = dataset?.observations.filter((item) => !unknown.includes(item.stationCode)).length ?? 0;
+
+  const handleImport = async () => {
+    if (!dataset) return;
+    setImporting(true);
+    try {
+      const summary = await onImport(dataset);
+      toast.success(`${summary.created} observation(s) importée(s)`, {
+        description: [
+          `${summary.days} jour(s) agrégé(s)`,
+          summary.duplicates > 0 && `${summary.duplicates} doublon(s) ignoré(s)`,
+          summary.unknownStations.length > 0 && `stations inconnues : ${summary.unknownStations.join(", ")}`,
+        ].filter(Boolean).join(" · "),
+      });
+      setOpen(false);
+      reset();
+    } catch (importError) {
+      toast.error("Import impossible", {
+        description: importError instanceof Error ? importError.message : undefined,
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Upload className="h-4 w-4 mr-2" />
+          Importer des observations
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Importer des observations</DialogTitle>
+          <DialogDescription>
+            Export CSV (Météo-France ou station), fichier JSON ou bulletins SYNOP bruts. Les heures
+            sans fuseau sont lues en UTC.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="weather-file">Fichier</Label>
+            <Input
+              id="weather-file"
+              type="file"
+              accept={WEATHER_FILE_ACCEPT}
+              onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Station par défaut</Label>
+              <Select value={stationCode} onValueChange={setStationCode}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_STATION}>Lue dans le fichier</SelectItem>
+                  {stations.map((station) => (
+                    <SelectItem key={station.id} value={station.code}>
+                      {station.name} ({station.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {dataset?.format === "synop" && (
+              <div className="space-y-2">
+                <Label htmlFor="synop-month">Mois des bulletins</Label>
+                <Input id="synop-month" type="month" value={month} onChange={(e) => setMonth(e.target.value)} />
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          {dataset && (
+            <div className="rounded-md border p-3 text-sm space-y-1">
+              <p>
+                <span className="font-medium">{WEATHER_FORMAT_LABELS[dataset.format]}</span> ·{" "}
+                {dataset.observations.length} observation(s)
+                {times.length > 0 && (
+                  <> du {new Date(times[0]).toLocaleString()} au {new Date(times[times.length - 1]).toLocaleString()}</>
+                )}
+              </p>
+              {fileStations.length > 0 && <p>Stations : {fileStations.join(", ")}</p>}
+              {unknown.length > 0 && (
+                <p className="text-amber-700 flex items-start gap-1">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                  Stations non déclarées, leurs observations seront ignorées : {unknown.join(", ")}
+                </p>
+              )}
+              {dataset.issues.length > 0 && (
+                <ul className="text-xs text-muted-foreground list-disc pl-4">
+                  {dataset.issues.slice(0, MAX_ISSUES).map((issue, index) => (
+                    <li key={index}>
+                      {ROW_LABELS[dataset.format]} {issue.row} : {issue.message}
+                    </li>
+                  ))}
+                  {dataset.issues.length > MAX_ISSUES && (
+                    <li>… et {dataset.issues.length - MAX_ISSUES} autre(s)</li>
+                  )}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Annuler
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={importing || importable === 0}
+          >
+            Importer {importable > 0 && `${importable} observation(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WeatherImportDialog;
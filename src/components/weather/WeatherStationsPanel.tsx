@@ -0,0 +1,233 @@
+import React, { useState } from "react";
+import { MapPin, PlusCircle, RadioTower, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ParcelData, WeatherDay, WeatherStation } from "@/types/farm";
+import { regionAt } from "@/utils/regions";
+import { StationDistance, dayDate, formatDistance } from "@/utils/weather-series";
+
+interface WeatherStationsPanelProps {
+  stations: WeatherStation[];
+  days: WeatherDay[];
+  parcelStations: { parcel: ParcelData; nearest?: StationDistance }[];
+  onAdd: (station: Omit<WeatherStation, "id">) => Promise<WeatherStation | null>;
+  onDelete: (id: number) => Promise<boolean>;
+}
+
+/**
+ * Declared weather stations with their data coverage, and the station each parcel reads
+ * its weather from
+ */
+const WeatherStationsPanel = ({ stations, days, parcelStations, onAdd, onDelete }: WeatherStationsPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [name, setName] = useState("");
+  const [latitude, setLatitude] = useState("");
+  const [longitude, setLongitude] = useState("");
+  const [elevation, setElevation] = useState("");
+
+  const lat = parseFloat(latitude);
+  const lng = parseFloat(longitude);
+  const isValid = code.trim() && name.trim() && !isNaN(lat) && !isNaN(lng)
+    && !stations.some((station) => station.code === code.trim());
+
+  const coverage = (stationId: number) => {
+    const ofStation = days.filter((day) => day.stationId === stationId).map((day) => day.date).sort();
+    return ofStation.length > 0
+      ? { days: ofStation.length, from: ofStation[0], to: ofStation[ofStation.length - 1] }
+      : null;
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    const created = await onAdd({
+      code: code.trim(),
+      name: name.trim(),
+      latitude: lat,
+      longitude: lng,
+      elevation: elevation ? parseFloat(elevation) : undefined,
+      region: regionAt({ lat, lng }),
+    });
+    if (!created) return;
+    toast.success(`Station ${created.name} ajoutée`);
+    setOpen(false);
+    setCode("");
+    setName("");
+    setLatitude("");
+    setLongitude("");
+    setElevation("");
+  };
+
+  const handleDelete = async (station: WeatherStation) => {
+    if (!window.confirm(`Supprimer ${station.name} et toutes ses observations ?`)) return;
+    if (await onDelete(station.id)) toast.success(`Station ${station.name} supprimée`);
+  };
+
+  return (
+    <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <RadioTower className="h-5 w-5" />
+              Stations météo
+            </CardTitle>
+            <CardDescription>
+              Les observations importées sont rattachées à la station de même code
+            </CardDescription>
+          </div>
+          <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm">
+                <PlusCircle className="h-4 w-4 mr-2" />
+                Ajouter
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Nouvelle station</DialogTitle>
+              </DialogHeader>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="station-code">Code (indicatif OMM ou NUM_POSTE)</Label>
+                    <Input id="station-code" value={code} onChange={(e) => setCode(e.target.value)} placeholder="78897" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="station-name">Nom</Label>
+                    <Input id="station-name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Le Raizet" />
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="station-lat">Latitude</Label>
+                    <Input id="station-lat" type="number" step="any" value={latitude} onChange={(e) => setLatitude(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="station-lng">Longitude</Label>
+                    <Input id="station-lng" type="number" step="any" value={longitude} onChange={(e) => setLongitude(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="station-elevation">Altitude (m)</Label>
+                    <Input id="station-elevation" type="number" value={elevation} onChange={(e) => setElevation(e.target.value)} />
+                  </div>
+                </div>
+                {!isNaN(lat) && !isNaN(lng) && (
+                  <p className="text-xs text-muted-foreground">Région : {regionAt({ lat, lng })}</p>
+                )}
+                <DialogFooter>
+                  <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                    Annuler
+                  </Button>
+                  <Button type="submit" disabled={!isValid}>
+                    Enregistrer
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          {stations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aucune station déclarée.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Station</TableHead>
+                  <TableHead>Région</TableHead>
+                  <TableHead className="text-right">Jours</TableHead>
+                  <TableHead>Période</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stations.map((station) => {
+                  const covered = coverage(station.id);
+                  return (
+                    <TableRow key={station.id}>
+                      <TableCell>
+                        <div className="font-medium">{station.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {station.code} · {station.latitude.toFixed(3)}, {station.longitude.toFixed(3)}
+                          {station.elevation !== undefined && ` · ${station.elevation} m`}
+                        </div>
+                      </TableCell>
+                      <TableCell>{station.region}</TableCell>
+                      <TableCell className="text-right">{covered?.days ?? 0}</TableCell>
+                      <TableCell className="text-sm">
+                        {covered
+                          ? `${dayDate(covered.from).toLocaleDateString()} – ${dayDate(covered.to).toLocaleDateString()}`
+                          : "—"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(station)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5" />
+            Station de chaque parcelle
+          </CardTitle>
+          <CardDescription>
+            Station la plus proche du centre de la parcelle ; les modèles utilisent la plus proche
+            disposant de données journalières
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Parcelle</TableHead>
+                <TableHead>Station</TableHead>
+                <TableHead className="text-right">Distance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {parcelStations.map(({ parcel, nearest }) => (
+                <TableRow key={parcel.id}>
+                  <TableCell className="font-medium">{parcel.name}</TableCell>
+                  <TableCell>{nearest?.station.name ?? "—"}</TableCell>
+                  <TableCell className="text-right">{nearest ? formatDistance(nearest.distance) : "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WeatherStationsPanel;
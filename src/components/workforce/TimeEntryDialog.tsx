@@ -0,0 +1,243 @@
+import React, { useState } from "react";
+import { Clock, Pencil, Play } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CropTask, ParcelData, TimeEntry, Worker } from "@/types/farm";
+import { isoDay } from "@/utils/crop-calendar";
+import { entryCost } from "@/utils/workforce";
+
+const NONE = "none";
+
+type EntryTarget = Pick<TimeEntry, "taskId" | "parcelId" | "notes">;
+
+interface TimeEntryDialogProps {
+  workers: Worker[];
+  tasks: CropTask[];
+  parcels: ParcelData[];
+  /** `log` records hours worked, `clock` starts the clock of one worker */
+  mode: "log" | "clock";
+  onLog?: (draft: Omit<TimeEntry, "id" | "transactionId">, existing?: TimeEntry) => Promise<TimeEntry | null>;
+  onClockIn?: (worker: Worker, target: EntryTarget) => Promise<TimeEntry | null>;
+  /** Preselected worker, required to clock in */
+  worker?: Worker;
+  /** Edits this entry */
+  entry?: TimeEntry;
+}
+
+/**
+ * Logs the hours a worker spent on a task or a parcel, or clocks them in on one
+ */
+const TimeEntryDialog = ({ workers, tasks, parcels, mode, onLog, onClockIn, worker, entry }: TimeEntryDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [workerId, setWorkerId] = useState("");
+  const [taskId, setTaskId] = useState(NONE);
+  const [parcelId, setParcelId] = useState(NONE);
+  const [date, setDate] = useState(isoDay(new Date()));
+  const [hours, setHours] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const selectedWorker = workers.find((item) => String(item.id) === workerId);
+  const amount = parseFloat(hours);
+  const hasHours = Number.isFinite(amount) && amount > 0 && amount <= 24;
+  const isValid = selectedWorker && (mode === "clock" || (date && hasHours));
+  const hourlyRate = entry?.hourlyRate ?? selectedWorker?.hourlyRate ?? 0;
+  // Open tasks, plus the one an edited entry points at
+  const taskOptions = tasks.filter((task) => !task.completed || task.id === entry?.taskId);
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      const preset = worker ?? workers.find((item) => item.id === entry?.workerId);
+      setWorkerId(preset ? String(preset.id) : "");
+      setTaskId(entry?.taskId !== undefined ? String(entry.taskId) : NONE);
+      setParcelId(entry?.parcelId !== undefined ? String(entry.parcelId) : NONE);
+      setDate(entry?.date ?? isoDay(new Date()));
+      setHours(entry?.hours !== undefined ? String(entry.hours) : "");
+      setNotes(entry?.notes ?? "");
+    }
+    setOpen(next);
+  };
+
+  const handleTask = (value: string) => {
+    setTaskId(value);
+    const task = tasks.find((item) => String(item.id) === value);
+    if (task?.parcelId !== undefined) setParcelId(String(task.parcelId));
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    const target: EntryTarget = {
+      taskId: taskId === NONE ? undefined : Number(taskId),
+      parcelId: parcelId === NONE ? undefined : Number(parcelId),
+      notes: notes.trim() || undefined,
+    };
+
+    if (mode === "clock") {
+      if (!onClockIn || !(await onClockIn(selectedWorker, target))) return;
+      toast.success(`${selectedWorker.name} clocked in`);
+    } else {
+      if (!onLog) return;
+      const saved = await onLog(
+        { ...target, workerId: selectedWorker.id, date, hours: amount, hourlyRate, startedAt: entry?.startedAt },
+        entry
+      );
+      if (!saved) return;
+      toast.success(entry ? "Time entry updated" : "Time logged", {
+        description: `${selectedWorker.name} · ${amount} h · ${entryCost(saved).toLocaleString("fr-FR")} € booked`,
+      });
+    }
+    setOpen(false);
+  };
+
+  const trigger =
+    mode === "clock" ? (
+      <Button variant="outline" size="sm">
+        <Play className="h-4 w-4 mr-1" />
+        Clock in
+      </Button>
+    ) : entry ? (
+      <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit">
+        <Pencil className="h-4 w-4" />
+      </Button>
+    ) : (
+      <Button className="bg-agri-primary hover:bg-agri-primary-dark text-white">
+        <Clock className="h-4 w-4 mr-2" />
+        Log time
+      </Button>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>{trigger}</DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{mode === "clock" ? `Clock in ${worker?.name ?? ""}` : entry ? "Edit time entry" : "Log time"}</DialogTitle>
+          <DialogDescription>
+            {mode === "clock"
+              ? "The hours are counted when the worker clocks out."
+              : "The cost of the hours is booked as a labor expense."}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === "log" && (
+            <div className="space-y-2">
+              <Label>Worker</Label>
+              <Select value={workerId} onValueChange={setWorkerId} disabled={!!entry}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a worker" />
+                </SelectTrigger>
+                <SelectContent>
+                  {workers
+                    .filter((item) => item.active || item.id === entry?.workerId)
+                    .map((item) => (
+                      <SelectItem key={item.id} value={String(item.id)}>
+                        {item.name} – {item.role}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Task</Label>
+            <Select value={taskId} onValueChange={handleTask}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No task</SelectItem>
+                {taskOptions.map((task) => (
+                  <SelectItem key={task.id} value={String(task.id)}>
+                    {task.title} ({new Date(task.date).toLocaleDateString("fr-FR")})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Parcel</Label>
+            <Select value={parcelId} onValueChange={setParcelId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>No parcel</SelectItem>
+                {parcels.map((parcel) => (
+                  <SelectItem key={parcel.id} value={String(parcel.id)}>
+                    {parcel.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === "log" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="entry-date">Date</Label>
+                <Input id="entry-date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="entry-hours">Hours</Label>
+                <Input
+                  id="entry-hours"
+                  type="number"
+                  min="0.25"
+                  max="24"
+                  step="0.25"
+                  value={hours}
+                  onChange={(e) => setHours(e.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          {mode === "log" && selectedWorker && hasHours && (
+            <p className="text-sm text-muted-foreground">
+              {amount} h × {hourlyRate.toLocaleString("fr-FR")} €/h ={" "}
+              <span className="font-medium text-foreground">
+                {entryCost({ hours: amount, hourlyRate }).toLocaleString("fr-FR")} €
+              </span>
+            </p>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="entry-notes">Notes</Label>
+            <Input id="entry-notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              {mode === "clock" ? "Clock in" : "Save"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default TimeEntryDialog;
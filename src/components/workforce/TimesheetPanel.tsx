@@ -0,0 +1,186 @@
+import React, { useState } from "react";
+import { ChevronLeft, ChevronRight, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { CropTask, ParcelData, TimeEntry, Worker } from "@/types/farm";
+import { addDays, isoDay, weekStart } from "@/utils/crop-calendar";
+import { LABOR_BUDGET_CATEGORY, entryCost, isClockedIn, weekTimesheet } from "@/utils/workforce";
+import TimeEntryDialog from "./TimeEntryDialog";
+
+interface TimesheetPanelProps {
+  workers: Worker[];
+  entries: TimeEntry[];
+  tasks: CropTask[];
+  parcels: ParcelData[];
+  onSaveEntry: (draft: Omit<TimeEntry, "id" | "transactionId">, existing?: TimeEntry) => Promise<TimeEntry | null>;
+  onDeleteEntry: (entry: TimeEntry) => Promise<boolean>;
+}
+
+const WEEK_DAYS = ["Dim", "Lun", "Mar", "Mer", "Jeu", "Ven", "Sam"];
+
+const euros = (value: number) => `${value.toLocaleString("fr-FR", { maximumFractionDigits: 2 })} €`;
+
+/**
+ * Weekly timesheet: hours per worker and day, and the entries of the week with the
+ * labor cost they booked
+ */
+const TimesheetPanel = ({ workers, entries, tasks, parcels, onSaveEntry, onDeleteEntry }: TimesheetPanelProps) => {
+  const [sunday, setSunday] = useState(weekStart(isoDay(new Date())));
+  const saturday = addDays(sunday, 6);
+  const rows = weekTimesheet(entries, workers, sunday);
+  const weekEntries = entries
+    .filter((entry) => entry.date >= sunday && entry.date <= saturday)
+    .sort((a, b) => b.date.localeCompare(a.date));
+  const dayTotals = WEEK_DAYS.map((_, day) => rows.reduce((sum, row) => sum + row.days[day], 0));
+  const totalHours = rows.reduce((sum, row) => sum + row.hours, 0);
+  const totalCost = rows.reduce((sum, row) => sum + row.cost, 0);
+
+  const format = (date: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString("fr-FR", options);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => setSunday(addDays(sunday, -7))}>
+            <ChevronLeft className="h-5 w-5" />
+          </Button>
+          <h3 className="text-lg font-semibold min-w-[220px] text-center">
+            {format(sunday, { day: "numeric", month: "short" })} – {format(saturday, { day: "numeric", month: "short", year: "numeric" })}
+          </h3>
+          <Button variant="ghost" size="icon" onClick={() => setSunday(addDays(sunday, 7))}>
+            <ChevronRight className="h-5 w-5" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setSunday(weekStart(isoDay(new Date())))}>
+            This week
+          </Button>
+        </div>
+        <TimeEntryDialog mode="log" workers={workers} tasks={tasks} parcels={parcels} onLog={onSaveEntry} />
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Hours of the week</CardTitle>
+          <CardDescription>
+            {totalHours} h · {euros(totalCost)} of labor booked in the expenses and the {LABOR_BUDGET_CATEGORY} budget
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Worker</TableHead>
+                {WEEK_DAYS.map((day, index) => (
+                  <TableHead key={day} className="text-right">
+                    {day} {format(addDays(sunday, index), { day: "numeric" })}
+                  </TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.worker.id}>
+                  <TableCell className="font-medium">{row.worker.name}</TableCell>
+                  {row.days.map((hours, index) => (
+                    <TableCell key={index} className={`text-right ${hours > 10 ? "text-agri-danger font-medium" : ""}`}>
+                      {hours > 0 ? hours : "–"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right font-medium">{row.hours}</TableCell>
+                  <TableCell className="text-right">{euros(row.cost)}</TableCell>
+                </TableRow>
+              ))}
+              {rows.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={10} className="text-center text-muted-foreground">
+                    No worker yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+            {rows.length > 0 && (
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  {dayTotals.map((hours, index) => (
+                    <TableCell key={index} className="text-right">
+                      {hours > 0 ? hours : "–"}
+                    </TableCell>
+                  ))}
+                  <TableCell className="text-right">{totalHours}</TableCell>
+                  <TableCell className="text-right">{euros(totalCost)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            )}
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Time entries</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {weekEntries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No time logged this week.</p>
+          ) : (
+            <ul className="divide-y">
+              {weekEntries.map((entry) => {
+                const worker = workers.find((item) => item.id === entry.workerId);
+                const task = tasks.find((item) => item.id === entry.taskId);
+                const parcel = parcels.find((item) => item.id === entry.parcelId);
+                return (
+                  <li key={entry.id} className="py-3 flex items-center justify-between gap-4">
+                    <div>
+                      <p className="font-medium">
+                        {worker?.name ?? "Unknown worker"} · {format(entry.date, { weekday: "short", day: "numeric", month: "short" })}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {[task?.title, parcel?.name, entry.notes].filter(Boolean).join(" · ") || "No task or parcel"}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm text-right">
+                        {isClockedIn(entry) ? (
+                          <span className="text-agri-success">Clocked in</span>
+                        ) : (
+                          <>
+                            {entry.hours} h · {euros(entryCost(entry))}
+                          </>
+                        )}
+                      </span>
+                      {!isClockedIn(entry) && (
+                        <TimeEntryDialog
+                          mode="log"
+                          entry={entry}
+                          workers={workers}
+                          tasks={tasks}
+                          parcels={parcels}
+                          onLog={onSaveEntry}
+                        />
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-red-600 hover:bg-red-50 hover:text-red-700"
+                        title="Delete"
+                        onClick={() => onDeleteEntry(entry)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TimesheetPanel;
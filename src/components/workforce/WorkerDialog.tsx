@@ -0,0 +1,181 @@
+import React, { useState } from "react";
+import { Pencil, UserPlus } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { Team, Worker } from "@/types/farm";
+import { WORKER_ROLES } from "@/utils/workforce";
+
+const NO_TEAM = "none";
+
+interface WorkerDialogProps {
+  teams: Team[];
+  onSave: (draft: Omit<Worker, "id">, existing?: Worker) => Promise<Worker | null>;
+  /** Edits this worker instead of adding one */
+  worker?: Worker;
+}
+
+/**
+ * Adds a worker or edits one: role, hourly rate, skills and team
+ */
+const WorkerDialog = ({ teams, onSave, worker }: WorkerDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [role, setRole] = useState("");
+  const [rate, setRate] = useState("");
+  const [skills, setSkills] = useState("");
+  const [teamId, setTeamId] = useState(NO_TEAM);
+  const [phone, setPhone] = useState("");
+  const [active, setActive] = useState(true);
+
+  const hourlyRate = parseFloat(rate);
+  const isValid = name.trim() && role.trim() && Number.isFinite(hourlyRate) && hourlyRate >= 0;
+
+  const handleOpenChange = (next: boolean) => {
+    if (next) {
+      setName(worker?.name ?? "");
+      setRole(worker?.role ?? "");
+      setRate(worker ? String(worker.hourlyRate) : "");
+      setSkills(worker?.skills.join(", ") ?? "");
+      setTeamId(worker?.teamId !== undefined ? String(worker.teamId) : NO_TEAM);
+      setPhone(worker?.phone ?? "");
+      setActive(worker?.active ?? true);
+    }
+    setOpen(next);
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!isValid) return;
+    const saved = await onSave(
+      {
+        name: name.trim(),
+        role: role.trim(),
+        hourlyRate,
+        skills: skills.split(",").map((skill) => skill.trim()).filter(Boolean),
+        teamId: teamId === NO_TEAM ? undefined : Number(teamId),
+        phone: phone.trim() || undefined,
+        active,
+      },
+      worker
+    );
+    if (!saved) return;
+    toast.success(worker ? "Worker updated" : "Worker added", { description: saved.name });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        {worker ? (
+          <Button variant="ghost" size="icon" className="h-8 w-8" title="Edit">
+            <Pencil className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button className="bg-agri-primary hover:bg-agri-primary-dark text-white">
+            <UserPlus className="h-4 w-4 mr-2" />
+            Add worker
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{worker ? "Edit worker" : "New worker"}</DialogTitle>
+          <DialogDescription>The hourly rate values the hours they log.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="worker-name">Name</Label>
+            <Input id="worker-name" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="worker-role">Role</Label>
+              <Input id="worker-role" list="worker-roles" value={role} onChange={(e) => setRole(e.target.value)} />
+              <datalist id="worker-roles">
+                {WORKER_ROLES.map((item) => (
+                  <option key={item} value={item} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="worker-rate">Hourly rate (€)</Label>
+              <Input
+                id="worker-rate"
+                type="number"
+                min="0"
+                step="0.01"
+                value={rate}
+                onChange={(e) => setRate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="worker-skills">Skills</Label>
+            <Input
+              id="worker-skills"
+              value={skills}
+              onChange={(e) => setSkills(e.target.value)}
+              placeholder="Taille, Traitements, Conduite tracteur"
+            />
+            <p className="text-xs text-muted-foreground">Separated by commas</p>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEAM}>No team</SelectItem>
+                  {teams.map((team) => (
+                    <SelectItem key={team.id} value={String(team.id)}>
+                      {team.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="worker-phone">Phone</Label>
+              <Input id="worker-phone" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="worker-active">Active</Label>
+            <Switch id="worker-active" checked={active} onCheckedChange={setActive} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isValid}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkerDialog;
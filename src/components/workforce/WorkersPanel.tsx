@@ -0,0 +1,206 @@
+import React, { useState } from "react";
+import { Phone, Plus, Square, Trash2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import type { CropTask, ParcelData, Team, TimeEntry, Worker } from "@/types/farm";
+import { openTasks } from "@/utils/task-engine";
+import { openEntry } from "@/utils/workforce";
+import TimeEntryDialog from "./TimeEntryDialog";
+import WorkerDialog from "./WorkerDialog";
+
+interface WorkersPanelProps {
+  workers: Worker[];
+  teams: Team[];
+  entries: TimeEntry[];
+  tasks: CropTask[];
+  parcels: ParcelData[];
+  onSaveWorker: (draft: Omit<Worker, "id">, existing?: Worker) => Promise<Worker | null>;
+  onDeleteWorker: (worker: Worker) => Promise<boolean>;
+  onAddTeam: (team: Omit<Team, "id">) => Promise<Team | null>;
+  onDeleteTeam: (id: number) => Promise<boolean>;
+  onClockIn: (worker: Worker, target: Pick<TimeEntry, "taskId" | "parcelId" | "notes">) => Promise<TimeEntry | null>;
+  onClockOut: (entry: TimeEntry) => Promise<TimeEntry | null>;
+}
+
+const sinceLabel = (startedAt: string) =>
+  new Date(startedAt).toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+
+/**
+ * Workers grouped by team, with their open tasks and their clock
+ */
+const WorkersPanel = ({
+  workers,
+  teams,
+  entries,
+  tasks,
+  parcels,
+  onSaveWorker,
+  onDeleteWorker,
+  onAddTeam,
+  onDeleteTeam,
+  onClockIn,
+  onClockOut,
+}: WorkersPanelProps) => {
+  const [teamName, setTeamName] = useState("");
+  const pending = openTasks(tasks);
+  const groups = [
+    ...teams.map((team) => ({ team, members: workers.filter((worker) => worker.teamId === team.id) })),
+    { team: undefined, members: workers.filter((worker) => !teams.some((team) => team.id === worker.teamId)) },
+  ].filter((group) => group.team || group.members.length > 0);
+
+  const handleAddTeam = async () => {
+    if (!teamName.trim()) return;
+    if (await onAddTeam({ name: teamName.trim() })) setTeamName("");
+  };
+
+  const handleClockOut = async (worker: Worker, entry: TimeEntry) => {
+    const closed = await onClockOut(entry);
+    if (closed) toast.success(`${worker.name} clocked out`, { description: `${closed.hours} h logged` });
+  };
+
+  const renderWorker = (worker: Worker) => {
+    const running = openEntry(entries, worker.id);
+    const assigned = pending.filter((task) => task.workerId === worker.id);
+    const runningTask = running?.taskId !== undefined ? tasks.find((task) => task.id === running.taskId) : undefined;
+    return (
+      <div key={worker.id} className={`rounded-lg border p-4 space-y-3 ${worker.active ? "" : "opacity-60"}`}>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <p className="font-medium">{worker.name}</p>
+            <p className="text-sm text-muted-foreground">
+              {worker.role} · {worker.hourlyRate.toLocaleString("fr-FR")} €/h
+            </p>
+            {worker.phone && (
+              <p className="text-xs text-muted-foreground flex items-center mt-1">
+                <Phone className="h-3 w-3 mr-1" />
+                {worker.phone}
+              </p>
+            )}
+          </div>
+          <div className="flex">
+            <WorkerDialog teams={teams} onSave={onSaveWorker} worker={worker} />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-red-600 hover:bg-red-50 hover:text-red-700"
+              title="Delete"
+              onClick={() => onDeleteWorker(worker)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {worker.skills.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {worker.skills.map((skill) => (
+              <Badge key={skill} variant="secondary">
+                {skill}
+              </Badge>
+            ))}
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {assigned.length === 0
+            ? "No open task assigned"
+            : `${assigned.length} open task(s): ${assigned
+                .slice(0, 2)
+                .map((task) => task.title)
+                .join(", ")}${assigned.length > 2 ? "…" : ""}`}
+        </p>
+        {worker.active && (
+          <div className="flex items-center justify-between gap-2 border-t pt-3">
+            {running?.startedAt ? (
+              <>
+                <span className="text-sm text-agri-success">
+                  Clocked in since {sinceLabel(running.startedAt)}
+                  {runningTask ? ` · ${runningTask.title}` : ""}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => handleClockOut(worker, running)}>
+                  <Square className="h-4 w-4 mr-1" />
+                  Clock out
+                </Button>
+              </>
+            ) : (
+              <>
+                <span className="text-sm text-muted-foreground">Not clocked in</span>
+                <TimeEntryDialog
+                  mode="clock"
+                  worker={worker}
+                  workers={workers}
+                  tasks={tasks}
+                  parcels={parcels}
+                  onClockIn={onClockIn}
+                />
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Input
+            value={teamName}
+            onChange={(e) => setTeamName(e.target.value)}
+            placeholder="New team"
+            className="w-48"
+            onKeyDown={(e) => e.key === "Enter" && handleAddTeam()}
+          />
+          <Button variant="outline" onClick={handleAddTeam} disabled={!teamName.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add team
+          </Button>
+        </div>
+        <WorkerDialog teams={teams} onSave={onSaveWorker} />
+      </div>
+
+      {workers.length === 0 && teams.length === 0 && (
+        <p className="text-sm text-muted-foreground">No worker yet.</p>
+      )}
+
+      {groups.map(({ team, members }) => (
+        <Card key={team?.id ?? "none"}>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Users className="h-5 w-5 text-agri-primary" />
+                {team?.name ?? "Without team"}
+              </CardTitle>
+              <CardDescription>
+                {members.filter((worker) => worker.active).length} active worker(s)
+                {team?.description ? ` · ${team.description}` : ""}
+              </CardDescription>
+            </div>
+            {team && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-red-600 hover:bg-red-50 hover:text-red-700"
+                title="Delete team"
+                onClick={() => onDeleteTeam(team.id)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {members.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No worker in this team.</p>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">{members.map(renderWorker)}</div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default WorkersPanel;
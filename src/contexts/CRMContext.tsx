@@ -1,20 +1,9 @@
 
 import React, { createContext, useContext, ReactNode } from 'react';
-import useCRMContext from '../hooks/use-crm-context';
+import useCRMContext, { CRMContextState } from '../hooks/use-crm-context';
 
 // Création du contexte avec les types appropriés
-interface CRMContextType {
-  lastSync: Date;
-  isRefreshing: boolean;
-  companyName: string;
-  activeModules: string[];
-  syncDataAcrossCRM: () => void;
-  updateModuleData: (moduleName: string, data: any) => void;
-  getModuleData: (moduleName: string) => any;
-  exportModuleData: (moduleName: string, format: 'csv' | 'excel' | 'pdf', customData?: any[]) => Promise<boolean>;
-  importModuleData: (moduleName: string, file: File) => Promise<boolean>;
-  printModuleData: (moduleName: string, options?: any) => Promise<boolean>;
-}
+type CRMContextType = CRMContextState;
 
 const CRMContext = createContext<CRMContextType | undefined>(undefined);
 
@@ -1,5 +1,20 @@
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import {
+  cropCycleTable,
+  inventoryItemTable,
+  inventoryTransactionTable,
+  irrigationEventTable,
+  parcelTable,
+  taskTable,
+  timeEntryTable
+} from '@/services/farm-tables';
+import { addDays, isoDay } from '@/utils/crop-calendar';
+import { OTHER_INPUT_COSTS, inputCharges, inputCostsByCategory, productionCosts } from '@/utils/production-costs';
+import { waterUsage } from '@/utils/water-balance';
+import { laborCost } from '@/utils/workforce';
 
 // Types pour les différentes données statistiques
 export interface YieldData {
@@ -9,9 +24,13 @@ export interface YieldData {
   unit: string;
 }
 
+/** Cost of production of a parcel over the last 12 months */
 export interface FinancialData {
   name: string;
-  profitability: number;
+  /** € of inputs applied and hours logged on the parcel */
+  inputCost: number;
+  laborCost: number;
+  costPerHa: number;
   size: number;
   crop: string;
 }
@@ -37,12 +56,12 @@ interface StatisticsContextType {
   
   // Données financières
   financialData: {
-    profitabilityByParcel: FinancialData[];
+    costByParcel: FinancialData[];
     costAnalysis: CostData[];
     revenueByMonth: any[];
   };
   setFinancialData: React.Dispatch<React.SetStateAction<{
-    profitabilityByParcel: FinancialData[];
+    costByParcel: FinancialData[];
     costAnalysis: CostData[];
     revenueByMonth: any[];
   }>>;
@@ -94,24 +113,21 @@ const initialYieldData: YieldData[] = [
   { name: 'Madère', current: 22, previous: 20, unit: 't/ha' }
 ];
 
-const initialProfitabilityData: FinancialData[] = [
-  { name: 'Parcelle Nord', profitability: 1250, size: 12.5, crop: 'Canne à Sucre' },
-  { name: 'Parcelle Est', profitability: 980, size: 8.3, crop: 'Banane' },
-  { name: 'Parcelle Sud', profitability: 1580, size: 15.7, crop: 'Ananas' },
-  { name: 'Parcelle Ouest', profitability: 850, size: 10.2, crop: 'Igname' },
-  { name: 'Parcelle Centrale', profitability: 920, size: 6.8, crop: 'Madère' }
-];
+const LABOR_COST = 'Labor';
 
-const initialCostData: CostData[] = [
-  { name: 'Seeds', value: 1800, color: '#4CAF50' },
-  { name: 'Fertilizers', value: 2200, color: '#8D6E63' },
-  { name: 'Pesticides', value: 1500, color: '#FFC107' },
-  { name: 'Fuel', value: 1200, color: '#2196F3' },
-  { name: 'Labor', value: 3500, color: '#673AB7' },
-  { name: 'Mechanization', value: 2800, color: '#E91E63' },
-  { name: 'Miscellaneous', value: 900, color: '#9E9E9E' }
+// Lignes de l'analyse des coûts : intrants sortis du stock et heures pointées
+const COST_LINES: Omit<CostData, 'value'>[] = [
+  { name: 'Seeds', color: '#4CAF50' },
+  { name: 'Fertilizers', color: '#8D6E63' },
+  { name: 'Pesticides', color: '#FFC107' },
+  { name: 'Fuel', color: '#2196F3' },
+  { name: LABOR_COST, color: '#673AB7' },
+  { name: OTHER_INPUT_COSTS, color: '#9E9E9E' }
 ];
 
+const costAnalysis = (inputs: Map<string, number>, labor: number): CostData[] =>
+  COST_LINES.map(line => ({ ...line, value: line.name === LABOR_COST ? labor : inputs.get(line.name) ?? 0 }));
+
 const initialRevenueData = [
   { month: 'Jan', revenue: 28500, expenses: 20100, profit: 8400 },
   { month: 'Feb', revenue: 30200, expenses: 21800, profit: 8400 },
@@ -135,11 +151,13 @@ const initialEnvironmentalIndicators: EnvironmentalData[] = [
   { indicator: 'Biodiversité (espèces/ha)', current: 12, target: 15, trend: '+12%', status: 'Atteint' }
 ];
 
+const WATER_INDICATOR = 'Consommation d\'eau (m³/ha)';
+
 export const StatisticsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [yieldData, setYieldData] = useState<YieldData[]>(initialYieldData);
   const [financialData, setFinancialData] = useState({
-    profitabilityByParcel: initialProfitabilityData,
-    costAnalysis: initialCostData,
+    costByParcel: [] as FinancialData[],
+    costAnalysis: costAnalysis(new Map(), 0),
     revenueByMonth: initialRevenueData
   });
   const [environmentalData, setEnvironmentalData] = useState({
@@ -151,6 +169,20 @@ export const StatisticsProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   const [forecastData, setForecastData] = useState(initialRevenueData);
   const [period, setPeriod] = useState<'day' | 'week' | 'month' | 'year'>('year');
   const [cropFilter, setCropFilter] = useState('all');
+  const { data: irrigationEvents } = useDataOperations({
+    repository: getRepository(irrigationEventTable),
+    notifications: false
+  });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: timeEntries } = useDataOperations({ repository: getRepository(timeEntryTable), notifications: false });
+  const { data: stockItems } = useDataOperations({ repository: getRepository(inventoryItemTable), notifications: false });
+  const { data: movements } = useDataOperations({
+    repository: getRepository(inventoryTransactionTable),
+    notifications: false
+  });
+  const { data: crops } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const { data: tasks } = useDataOperations({ repository: getRepository(taskTable), notifications: false });
+  const [parcelCosts, setParcelCosts] = useState<FinancialData[]>([]);
   
   // Fonction pour mettre à jour les données en fonction des filtres
   const updateDataWithFilters = (period: string, crop: string) => {
@@ -158,24 +190,57 @@ export const StatisticsProvider: React.FC<{ children: React.ReactNode }> = ({ ch
     if (crop !== 'all') {
       const filteredYieldData = initialYieldData.filter(item => item.name === crop);
       setYieldData(filteredYieldData);
-      
-      // Filtrer également les données financières par culture
-      const filteredProfitabilityData = initialProfitabilityData.filter(item => item.crop === crop);
-      setFinancialData(prev => ({
-        ...prev,
-        profitabilityByParcel: filteredProfitabilityData
-      }));
     } else {
       setYieldData(initialYieldData);
-      setFinancialData(prev => ({
-        ...prev,
-        profitabilityByParcel: initialProfitabilityData
-      }));
     }
     
     // Vous pourriez également ajuster les autres données en fonction de la période
   };
   
+  // Consommation d'eau calculée à partir des irrigations enregistrées, sur les 12 derniers mois
+  useEffect(() => {
+    const usage = waterUsage(irrigationEvents, parcels);
+    if (!usage) return;
+    setEnvironmentalData(prev => ({
+      ...prev,
+      waterUsage: usage.change ?? prev.waterUsage,
+      indicators: prev.indicators.map(item => item.indicator !== WATER_INDICATOR ? item : {
+        ...item,
+        current: usage.current,
+        trend: usage.change === undefined ? '–' : `${usage.change > 0 ? '+' : ''}${usage.change}%`,
+        status: usage.current <= item.target ? 'Atteint' : (usage.change ?? 0) < 0 ? 'En progrès' : 'En retard'
+      })
+    }));
+  }, [irrigationEvents, parcels]);
+
+  // Coûts de production des 12 derniers mois, par parcelle et par poste : intrants appliqués et heures pointées
+  useEffect(() => {
+    const today = isoDay(new Date());
+    const from = addDays(today, -365);
+    const charges = inputCharges(stockItems, movements, from, today);
+    setParcelCosts(productionCosts(parcels, crops, tasks, charges, timeEntries, from, today).map(cost => ({
+      name: cost.parcel.name,
+      inputCost: cost.inputCost,
+      laborCost: cost.laborCost,
+      costPerHa: cost.perHectare,
+      size: cost.parcel.area,
+      crop: cost.crop?.name ?? cost.parcel.crop ?? ''
+    })));
+
+    setFinancialData(prev => ({
+      ...prev,
+      costAnalysis: costAnalysis(inputCostsByCategory(charges), laborCost(timeEntries, from, today))
+    }));
+  }, [stockItems, movements, parcels, crops, tasks, timeEntries]);
+
+  // Le filtre par culture s'applique aussi aux coûts de production
+  useEffect(() => {
+    setFinancialData(prev => ({
+      ...prev,
+      costByParcel: cropFilter === 'all' ? parcelCosts : parcelCosts.filter(item => item.crop === cropFilter)
+    }));
+  }, [parcelCosts, cropFilter]);
+
   // Mettre à jour les données lorsque les filtres changent
   useEffect(() => {
     updateDataWithFilters(period, cropFilter);
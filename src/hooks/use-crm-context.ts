@@ -1,13 +1,32 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useSyncExternalStore } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { exportToCSV, exportToExcel, exportToPDF, importFromCSV, printData } from '../utils/crm-data-operations';
+import { useAppSettings } from '../contexts/AppSettingsContext';
+import {
+  ConflictChoice,
+  getSyncState,
+  resolveConflict,
+  subscribeToQueue,
+  subscribeToSync,
+  synchronize,
+  SyncMutation
+} from '../services/sync';
+
+// Délai avant d'envoyer les modifications fraîchement enregistrées
+const PUSH_DELAY_MS = 2000;
 
 // Types pour le contexte CRM global
-interface CRMContextState {
-  lastSync: Date;
+export interface CRMContextState {
+  lastSync: Date | null;
   isRefreshing: boolean;
+  isOnline: boolean;
+  pendingChanges: number;
+  syncConflicts: SyncMutation[];
+  syncError?: string;
   companyName: string;
   activeModules: string[];
-  syncDataAcrossCRM: () => void;
+  syncDataAcrossCRM: () => Promise<void>;
+  resolveSyncConflict: (mutationId: string, choice: ConflictChoice) => Promise<void>;
   updateModuleData: (moduleName: string, data: any) => void;
   getModuleData: (moduleName: string) => any;
   exportModuleData: (moduleName: string, format: 'csv' | 'excel' | 'pdf', customData?: any[]) => Promise<boolean>;
@@ -17,8 +36,11 @@ interface CRMContextState {
 
 // Hook personnalisé pour gérer le contexte global du CRM
 export const useCRMContext = (): CRMContextState => {
-  const [lastSync, setLastSync] = useState<Date>(new Date());
-  const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
+  const queryClient = useQueryClient();
+  const { settings } = useAppSettings();
+  const offlineMode = settings.offlineMode ?? false;
+  const syncState = useSyncExternalStore(subscribeToSync, getSyncState);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
   const [moduleData, setModuleData] = useState<Record<string, any>>({
     parcelles: {
       items: [
@@ -103,16 +125,20 @@ export const useCRMContext = (): CRMContextState => {
   // Nom de l'entreprise
   const companyName = 'Agri Dom';
 
-  // Synchronisation des données à travers tous les modules du CRM
-  const syncDataAcrossCRM = useCallback(() => {
-    setIsRefreshing(true);
-    
-    // Simuler un temps de synchronisation
-    setTimeout(() => {
-      setLastSync(new Date());
-      setIsRefreshing(false);
-    }, 1500);
-  }, []);
+  // Synchronisation des données à travers tous les modules du CRM :
+  // envoi de la file de modifications puis rechargement des tables
+  const syncDataAcrossCRM = useCallback(async () => {
+    const result = await synchronize({ offline: offlineMode });
+    if (result.status !== 'offline') {
+      await queryClient.invalidateQueries({ queryKey: ['repository'] });
+    }
+  }, [offlineMode, queryClient]);
+
+  const resolveSyncConflict = useCallback(async (mutationId: string, choice: ConflictChoice) => {
+    await resolveConflict(mutationId, choice);
+    await queryClient.invalidateQueries({ queryKey: ['repository'] });
+    await syncDataAcrossCRM();
+  }, [queryClient, syncDataAcrossCRM]);
 
   // Mettre à jour les données d'un module spécifique
   const updateModuleData = useCallback((moduleName: string, data: any) => {
@@ -124,8 +150,6 @@ export const useCRMContext = (): CRMContextState => {
       }
     }));
     
-    // Mettre à jour la date de dernière synchronisation
-    setLastSync(new Date());
   }, []);
 
   // Récupérer les données d'un module spécifique
@@ -234,21 +258,52 @@ export const useCRMContext = (): CRMContextState => {
     }
   }, [getModuleData, companyName]);
 
-  // Synchronisation initiale au chargement
+  // Synchronisation au chargement, au retour du réseau et à la sortie du mode hors ligne
   useEffect(() => {
-    const initialSync = setTimeout(() => {
+    syncDataAcrossCRM();
+  }, [syncDataAcrossCRM]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
       syncDataAcrossCRM();
-    }, 1000);
-    
-    return () => clearTimeout(initialSync);
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncDataAcrossCRM]);
+
+  // Envoyer les modifications peu après leur enregistrement local
+  useEffect(() => {
+    let pushTimer: ReturnType<typeof setTimeout> | undefined;
+    const unsubscribe = subscribeToQueue(queue => {
+      clearTimeout(pushTimer);
+      if (queue.some(mutation => !mutation.conflict)) {
+        pushTimer = setTimeout(syncDataAcrossCRM, PUSH_DELAY_MS);
+      }
+    });
+    return () => {
+      clearTimeout(pushTimer);
+      unsubscribe();
+    };
   }, [syncDataAcrossCRM]);
 
   return {
-    lastSync,
-    isRefreshing,
+    lastSync: syncState.lastSync,
+    isRefreshing: syncState.status === 'syncing',
+    isOnline,
+    pendingChanges: syncState.pending,
+    syncConflicts: syncState.conflicts,
+    syncError: syncState.status === 'error' ? syncState.error : undefined,
     companyName,
     activeModules,
     syncDataAcrossCRM,
+    resolveSyncConflict,
     updateModuleData,
     getModuleData,
     exportModuleData,
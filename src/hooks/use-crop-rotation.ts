@@ -0,0 +1,43 @@
+import { useMemo } from 'react';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { cropHistoryTable, cultureTable, rotationRuleTable } from '@/services/farm-tables';
+import { buildCycles, checkRotation } from '@/utils/crop-rotation';
+
+/**
+ * Crop history of every parcel with the rotation rules evaluated against it
+ */
+export function useCropRotation() {
+  const {
+    data: history,
+    addItem: addEntry,
+    updateItem: updateEntry,
+    deleteItem: deleteEntry
+  } = useDataOperations({ repository: getRepository(cropHistoryTable), notifications: false });
+  const { data: cultures } = useDataOperations({ repository: getRepository(cultureTable), notifications: false });
+  const {
+    data: rules,
+    addItem: addRule,
+    updateItem: updateRule,
+    deleteItem: deleteRule
+  } = useDataOperations({ repository: getRepository(rotationRuleTable), notifications: false });
+
+  const cycles = useMemo(() => buildCycles(history, cultures), [history, cultures]);
+  const violations = useMemo(() => checkRotation(history, cultures, rules), [history, cultures, rules]);
+
+  return {
+    history,
+    cultures,
+    rules,
+    cycles,
+    violations,
+    addEntry,
+    updateEntry,
+    deleteEntry,
+    addRule,
+    updateRule,
+    deleteRule
+  };
+}
+
+export default useCropRotation;
@@ -0,0 +1,111 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import {
+  cropCycleTable,
+  damageAssessmentTable,
+  financialTransactionTable,
+  inventoryItemTable,
+  parcelTable,
+  preparednessItemTable,
+  taskTable
+} from '@/services/farm-tables';
+import { activatePreparedness, deleteDamageAssessment, saveDamageAssessment } from '@/services/cyclone-preparedness';
+import type { CropTask, DamageAssessment, WeatherAlert } from '@/types/farm';
+import { checklistProgress } from '@/utils/cyclone-preparedness';
+
+/**
+ * Cyclone checklists of the storm alerts, tracked as tasks, and the damage assessments
+ * filed after an event
+ */
+export function useCyclonePreparedness() {
+  const { data: tasks, updateItem: updateTask, refresh: refreshTasks } = useDataOperations({
+    repository: getRepository(taskTable),
+    notifications: false
+  });
+  const { data: items } = useDataOperations({ repository: getRepository(preparednessItemTable), notifications: false });
+  const { data: assessments, refresh: refreshAssessments } = useDataOperations({
+    repository: getRepository(damageAssessmentTable),
+    notifications: false
+  });
+  const { refresh: refreshTransactions } = useDataOperations({
+    repository: getRepository(financialTransactionTable),
+    notifications: false
+  });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: inventory } = useDataOperations({ repository: getRepository(inventoryItemTable), notifications: false });
+  const { data: cropCycles } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+
+  const checklistFor = useCallback((alertId: number) => {
+    const ofAlert = tasks.filter(task => task.weatherAlertId === alertId);
+    return {
+      parcelTasks: ofAlert.filter(task => task.inventoryItemId === undefined),
+      assetTasks: ofAlert.filter(task => task.inventoryItemId !== undefined),
+      progress: checklistProgress(ofAlert)
+    };
+  }, [tasks]);
+
+  const activate = useCallback(async (alert: WeatherAlert) => {
+    try {
+      const created = await activatePreparedness(alert);
+      await refreshTasks();
+      return created;
+    } catch (error) {
+      toast.error('Impossible de générer la check-list cyclone', {
+        description: error instanceof Error ? error.message : undefined
+      });
+      return 0;
+    }
+  }, [refreshTasks]);
+
+  const toggleTask = useCallback(
+    (task: CropTask) => updateTask(task.id, { completed: !task.completed }),
+    [updateTask]
+  );
+
+  const saveAssessment = useCallback(async (
+    draft: Omit<DamageAssessment, 'id' | 'transactionId'>,
+    existing?: DamageAssessment
+  ) => {
+    try {
+      return await saveDamageAssessment(draft, existing);
+    } catch (error) {
+      toast.error("Impossible d'enregistrer l'évaluation des dégâts", {
+        description: error instanceof Error ? error.message : undefined
+      });
+      return null;
+    } finally {
+      await Promise.all([refreshAssessments(), refreshTransactions()]);
+    }
+  }, [refreshAssessments, refreshTransactions]);
+
+  const deleteAssessment = useCallback(async (assessment: DamageAssessment) => {
+    try {
+      await deleteDamageAssessment(assessment);
+      return true;
+    } catch (error) {
+      toast.error("Impossible de supprimer l'évaluation", {
+        description: error instanceof Error ? error.message : undefined
+      });
+      return false;
+    } finally {
+      await Promise.all([refreshAssessments(), refreshTransactions()]);
+    }
+  }, [refreshAssessments, refreshTransactions]);
+
+  return {
+    items,
+    assessments,
+    parcels,
+    inventory,
+    cropCycles,
+    checklistFor,
+    activate,
+    toggleTask,
+    saveAssessment,
+    deleteAssessment
+  };
+}
+
+export default useCyclonePreparedness;
@@ -1,121 +1,186 @@
-
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
-import { enhancedExport, enhancedImport, searchInData, filterByDateRange, generateUniqueId } from '../utils/crm-operations';
+import { enhancedExport, enhancedImport, searchInData, filterByDateRange } from '../utils/crm-operations';
 import { DateRange } from 'react-day-picker';
+import type { Identifiable, ListOptions, ListResult, RecordId, Repository } from '../services/repository';
 
-interface UseDataOperationsProps<T> {
-  initialData?: T[];
-  idField?: string;
+interface UseDataOperationsProps<T extends Identifiable> {
+  repository: Repository<T>;
+  listOptions?: ListOptions<T>;
   dateField?: string;
   requiredFields?: string[];
   searchFields?: string[];
+  // Show the generic success toasts; modules with their own wording turn this off
+  notifications?: boolean;
 }
 
-export function useDataOperations<T extends Record<string, any>>({
-  initialData = [],
-  idField = 'id',
+type CacheSnapshot<T> = [readonly unknown[], ListResult<T> | undefined][];
+
+// Temporary ids for optimistic inserts never collide with stored (positive) ids
+let optimisticId = 0;
+
+export const repositoryQueryKey = (name: string) => ['repository', name];
+
+export function useDataOperations<T extends Identifiable>({
+  repository,
+  listOptions,
   dateField = 'date',
   requiredFields = [],
-  searchFields = []
-}: UseDataOperationsProps<T> = {}) {
-  const [data, setData] = useState<T[]>(initialData);
-  const [filteredData, setFilteredData] = useState<T[]>(initialData);
-  const [isLoading, setIsLoading] = useState(false);
+  searchFields = [],
+  notifications = true
+}: UseDataOperationsProps<T>) {
+  const queryClient = useQueryClient();
+  const baseKey = useMemo(() => repositoryQueryKey(repository.name), [repository.name]);
   const [searchTerm, setSearchTerm] = useState('');
   const [dateRange, setDateRange] = useState<DateRange | undefined>();
+  const [isImporting, setIsImporting] = useState(false);
 
-  // CRUD operations
-  const addItem = useCallback((item: Omit<T, typeof idField>) => {
-    const newItem = {
-      ...item,
-      [idField]: generateUniqueId(),
-    } as T;
-    
-    setData(prev => [...prev, newItem]);
-    setFilteredData(prev => [...prev, newItem]);
-    toast.success("Élément ajouté avec succès");
-    
-    return newItem;
-  }, [idField]);
-
-  const updateItem = useCallback((id: number | string, updates: Partial<T>) => {
-    setData(prev => 
-      prev.map(item => 
-        item[idField] === id ? { ...item, ...updates } : item
-      )
-    );
-    
-    setFilteredData(prev => 
-      prev.map(item => 
-        item[idField] === id ? { ...item, ...updates } : item
-      )
-    );
-    
-    toast.success("Élément mis à jour avec succès");
-  }, [idField]);
-
-  const deleteItem = useCallback((id: number | string) => {
-    setData(prev => prev.filter(item => item[idField] !== id));
-    setFilteredData(prev => prev.filter(item => item[idField] !== id));
-    toast.success("Élément supprimé avec succès");
-  }, [idField]);
-
-  const bulkDelete = useCallback((ids: (number | string)[]) => {
-    setData(prev => prev.filter(item => !ids.includes(item[idField])));
-    setFilteredData(prev => prev.filter(item => !ids.includes(item[idField])));
-    toast.success(`${ids.length} élément(s) supprimé(s) avec succès`);
-  }, [idField]);
+  const query = useQuery({
+    queryKey: [...baseKey, listOptions ?? {}],
+    queryFn: () => repository.list(listOptions),
+  });
 
-  // Search and filter operations
-  const handleSearch = useCallback((term: string) => {
-    setSearchTerm(term);
-    
-    let filtered = data;
-    
-    // Apply search filter if term is provided
-    if (term) {
-      filtered = searchInData(filtered, term, searchFields);
+  const data = useMemo(() => query.data?.items ?? [], [query.data]);
+
+  const filteredData = useMemo(() => {
+    let filtered: T[] = data;
+
+    if (searchTerm) {
+      filtered = searchInData(filtered, searchTerm, searchFields);
     }
-    
-    // Apply date filter if date range is set
+
     if (dateRange?.from || dateRange?.to) {
       filtered = filterByDateRange(
-        filtered, 
-        dateRange.from ?? null, 
-        dateRange.to ?? null, 
+        filtered,
+        dateRange.from ?? null,
+        dateRange.to ?? null,
         dateField
       );
     }
-    
-    setFilteredData(filtered);
-  }, [data, searchFields, dateRange, dateField]);
 
-  const handleDateRangeChange = useCallback((range: DateRange | undefined) => {
-    setDateRange(range);
-    
-    let filtered = data;
-    
-    // Apply search filter if term is provided
-    if (searchTerm) {
-      filtered = searchInData(filtered, searchTerm, searchFields);
+    return filtered;
+  }, [data, searchTerm, searchFields, dateRange, dateField]);
+
+  const notify = useCallback((message: string) => {
+    if (notifications) toast.success(message);
+  }, [notifications]);
+
+  // Optimistic updates: patch every cached list of this repository, roll back on failure
+  const patchCache = useCallback(async (change: (items: T[]) => T[]): Promise<CacheSnapshot<T>> => {
+    await queryClient.cancelQueries({ queryKey: baseKey });
+    const snapshot = queryClient.getQueriesData<ListResult<T>>({ queryKey: baseKey });
+    queryClient.setQueriesData<ListResult<T>>({ queryKey: baseKey }, previous => {
+      if (!previous) return previous;
+      const items = change(previous.items);
+      return { items, total: previous.total + items.length - previous.items.length };
+    });
+    return snapshot;
+  }, [queryClient, baseKey]);
+
+  const reportError = useCallback((error: Error) => {
+    console.error(`Error writing ${repository.name}:`, error);
+    toast.error("Impossible d'enregistrer les modifications", {
+      description: error.message
+    });
+  }, [repository.name]);
+
+  const mutationHandlers = {
+    onError: (error: Error, _variables: unknown, snapshot?: CacheSnapshot<T>) => {
+      snapshot?.forEach(([key, value]) => queryClient.setQueryData<ListResult<T>>(key, value));
+      reportError(error);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: baseKey }),
+  };
+
+  const createMutation = useMutation<T, Error, Omit<T, 'id'>, CacheSnapshot<T>>({
+    mutationFn: (item: Omit<T, 'id'>) => repository.create(item),
+    onMutate: (item: Omit<T, 'id'>) =>
+      patchCache(items => [...items, { ...item, id: --optimisticId } as T]),
+    ...mutationHandlers,
+  });
+
+  const updateMutation = useMutation<T[], Error, { ids: RecordId[]; updates: Partial<T> }, CacheSnapshot<T>>({
+    mutationFn: ({ ids, updates }: { ids: RecordId[]; updates: Partial<T> }) =>
+      ids.length === 1
+        ? repository.update(ids[0], updates).then(updated => [updated])
+        : repository.bulkUpdate(ids, updates),
+    onMutate: ({ ids, updates }: { ids: RecordId[]; updates: Partial<T> }) =>
+      patchCache(items => items.map(item => ids.includes(item.id) ? { ...item, ...updates } : item)),
+    ...mutationHandlers,
+  });
+
+  const deleteMutation = useMutation<void, Error, RecordId[], CacheSnapshot<T>>({
+    mutationFn: (ids: RecordId[]) =>
+      ids.length === 1 ? repository.delete(ids[0]) : repository.bulkDelete(ids),
+    onMutate: (ids: RecordId[]) =>
+      patchCache(items => items.filter(item => !ids.includes(item.id))),
+    ...mutationHandlers,
+  });
+
+  const { mutateAsync: createAsync } = createMutation;
+  const { mutateAsync: updateAsync } = updateMutation;
+  const { mutateAsync: deleteAsync } = deleteMutation;
+
+  // CRUD operations. Failures are reported by onError, so these resolve to null/false instead of rejecting.
+  const addItem = useCallback(async (item: Omit<T, 'id'>): Promise<T | null> => {
+    try {
+      const created = await createAsync(item);
+      notify("Élément ajouté avec succès");
+      return created;
+    } catch {
+      return null;
     }
-    
-    // Apply date filter if date range is set
-    if (range?.from || range?.to) {
-      filtered = filterByDateRange(
-        filtered, 
-        range.from ?? null, 
-        range.to ?? null, 
-        dateField
-      );
-    } else {
-      // If no date range, just apply search
-      filtered = searchTerm ? searchInData(data, searchTerm, searchFields) : data;
+  }, [createAsync, notify]);
+
+  const updateItem = useCallback(async (id: RecordId, updates: Partial<T>): Promise<T | null> => {
+    try {
+      const [updated] = await updateAsync({ ids: [id], updates });
+      notify("Élément mis à jour avec succès");
+      return updated;
+    } catch {
+      return null;
+    }
+  }, [updateAsync, notify]);
+
+  const deleteItem = useCallback(async (id: RecordId): Promise<boolean> => {
+    try {
+      await deleteAsync([id]);
+      notify("Élément supprimé avec succès");
+      return true;
+    } catch {
+      return false;
     }
-    
-    setFilteredData(filtered);
-  }, [data, searchTerm, searchFields, dateField]);
+  }, [deleteAsync, notify]);
+
+  const bulkDelete = useCallback(async (ids: RecordId[]): Promise<boolean> => {
+    try {
+      await deleteAsync(ids);
+      notify(`${ids.length} élément(s) supprimé(s) avec succès`);
+      return true;
+    } catch {
+      return false;
+    }
+  }, [deleteAsync, notify]);
+
+  const bulkUpdate = useCallback(async (ids: RecordId[], updates: Partial<T>): Promise<T[] | null> => {
+    try {
+      const updated = await updateAsync({ ids, updates });
+      notify(`${ids.length} élément(s) mis à jour avec succès`);
+      return updated;
+    } catch {
+      return null;
+    }
+  }, [updateAsync, notify]);
+
+  // Search and filter operations
+  const handleSearch = useCallback((term: string) => {
+    setSearchTerm(term);
+  }, []);
+
+  const handleDateRangeChange = useCallback((range: DateRange | undefined) => {
+    setDateRange(range);
+  }, []);
 
   // Import/Export operations
   const handleExport = useCallback(async (
@@ -132,57 +197,44 @@ export function useDataOperations<T extends Record<string, any>>({
     file: File,
     customValidation?: (row: any) => boolean
   ) => {
-    setIsLoading(true);
-    
+    setIsImporting(true);
+
     return enhancedImport(
       file,
-      (importedData) => {
-        setData(prev => [...prev, ...importedData as T[]]);
-        setFilteredData(prev => [...prev, ...importedData as T[]]);
-        setIsLoading(false);
+      async (importedData) => {
+        try {
+          await repository.bulkCreate(importedData as Omit<T, 'id'>[]);
+        } catch (error) {
+          reportError(error as Error);
+        }
+        await queryClient.invalidateQueries({ queryKey: baseKey });
+        setIsImporting(false);
       },
       requiredFields,
       customValidation
     ).catch(() => {
-      setIsLoading(false);
+      setIsImporting(false);
       return false;
     });
-  }, [requiredFields]);
-
-  // Bulk operations
-  const bulkUpdate = useCallback((ids: (number | string)[], updates: Partial<T>) => {
-    setData(prev => 
-      prev.map(item => 
-        ids.includes(item[idField]) ? { ...item, ...updates } : item
-      )
-    );
-    
-    setFilteredData(prev => 
-      prev.map(item => 
-        ids.includes(item[idField]) ? { ...item, ...updates } : item
-      )
-    );
-    
-    toast.success(`${ids.length} élément(s) mis à jour avec succès`);
-  }, [idField]);
+  }, [repository, requiredFields, queryClient, baseKey, reportError]);
 
   // Reset filters
   const resetFilters = useCallback(() => {
     setSearchTerm('');
     setDateRange(undefined);
-    setFilteredData(data);
-  }, [data]);
-
-  // Set all data at once (useful for init or reset)
-  const setAllData = useCallback((newData: T[]) => {
-    setData(newData);
-    setFilteredData(newData);
   }, []);
 
+  const refresh = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: baseKey }),
+    [queryClient, baseKey]
+  );
+
   return {
     data,
     filteredData,
-    isLoading,
+    total: query.data?.total ?? 0,
+    isLoading: query.isLoading || isImporting,
+    error: query.error,
     searchTerm,
     dateRange,
     addItem,
@@ -195,7 +247,7 @@ export function useDataOperations<T extends Record<string, any>>({
     handleExport,
     handleImport,
     resetFilters,
-    setAllData
+    refresh
   };
 }
 
@@ -0,0 +1,57 @@
+import { useCallback, useMemo, useState } from 'react';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { cropCycleTable, parcelTable, weatherDayTable, weatherStationTable } from '@/services/farm-tables';
+import { diseaseAlerts, parcelDiseaseRisks } from '@/utils/disease-risk';
+
+const DISMISSED_KEY = 'agridom:dismissed-disease-alerts';
+
+const loadDismissed = (): string[] => {
+  try {
+    const saved = localStorage.getItem(DISMISSED_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Weather-driven disease pressure of the parcels, and the alerts it raises.
+ * A dismissed alert comes back once the risk reaches another level.
+ */
+export function useDiseaseRisk() {
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: cropCycles } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const { data: stations } = useDataOperations({
+    repository: getRepository(weatherStationTable),
+    notifications: false
+  });
+  const { data: days } = useDataOperations({ repository: getRepository(weatherDayTable), notifications: false });
+  const [dismissed, setDismissed] = useState<string[]>(loadDismissed);
+
+  const risks = useMemo(
+    () => parcelDiseaseRisks(parcels, cropCycles, stations, days),
+    [parcels, cropCycles, stations, days]
+  );
+  const alerts = useMemo(
+    () => diseaseAlerts(risks).filter(alert => !dismissed.includes(alert.id)),
+    [risks, dismissed]
+  );
+
+  const dismissAlert = useCallback((id: string) => {
+    setDismissed(previous => {
+      const next = [...previous, id];
+      localStorage.setItem(DISMISSED_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const risksFor = useCallback(
+    (parcelId: number) => risks.filter(risk => risk.parcel.id === parcelId),
+    [risks]
+  );
+
+  return { risks, alerts, risksFor, dismissAlert };
+}
+
+export default useDiseaseRisk;
@@ -0,0 +1,134 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import {
+  cropCycleTable,
+  inventoryItemTable,
+  inventoryTransactionTable,
+  parcelTable,
+  taskTable
+} from '@/services/farm-tables';
+import {
+  createInventoryItem,
+  deleteInventoryItem,
+  postMovement,
+  recordCount,
+  reverseMovement
+} from '@/services/inventory-ledger';
+import type { InventoryItem, InventoryTransaction } from '@/types/farm';
+
+/** Name recorded on the movements posted from this device */
+export const CURRENT_USER = 'Utilisateur actuel';
+
+const reportError = (message: string, error: unknown) => {
+  toast.error(message, { description: error instanceof Error ? error.message : undefined });
+  return null;
+};
+
+/**
+ * Stock items and their movement ledger, with the parcels, crop cycles and tasks issues
+ * are charged to. Quantities only change by posting movements; the other item fields
+ * are edited directly.
+ */
+export function useInventory() {
+  const {
+    data: items,
+    isLoading,
+    updateItem: updateStockItem,
+    refresh: refreshItems
+  } = useDataOperations({ repository: getRepository(inventoryItemTable), notifications: false });
+  const {
+    data: movements,
+    updateItem: updateMovement,
+    refresh: refreshMovements
+  } = useDataOperations({ repository: getRepository(inventoryTransactionTable), notifications: false });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: crops } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const { data: tasks } = useDataOperations({ repository: getRepository(taskTable), notifications: false });
+
+  const refresh = useCallback(() => Promise.all([refreshItems(), refreshMovements()]), [refreshItems, refreshMovements]);
+
+  const addItem = useCallback(async (draft: Omit<InventoryItem, 'id'>) => {
+    try {
+      return await createInventoryItem(draft, CURRENT_USER);
+    } catch (error) {
+      return reportError('Impossible d\'ajouter l\'article', error);
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  /** Edit an item; a new quantity is recorded as a count at its default location */
+  const updateItem = useCallback(async (item: InventoryItem, changes: Partial<InventoryItem>) => {
+    const { quantity, ...fields } = changes;
+    let updated: InventoryItem | null = item;
+    if (Object.keys(fields).length > 0) updated = await updateStockItem(item.id, fields);
+    if (updated && quantity !== undefined && quantity !== item.quantity) {
+      try {
+        updated = (await recordCount(updated, quantity, CURRENT_USER))?.item ?? updated;
+      } catch (error) {
+        updated = reportError('Impossible d\'enregistrer l\'inventaire', error);
+      } finally {
+        await refresh();
+      }
+    }
+    return updated;
+  }, [updateStockItem, refresh]);
+
+  const removeItem = useCallback(async (item: InventoryItem) => {
+    try {
+      await deleteInventoryItem(item);
+      return true;
+    } catch (error) {
+      reportError('Impossible de supprimer l\'article', error);
+      return false;
+    } finally {
+      await refreshItems();
+    }
+  }, [refreshItems]);
+
+  const addMovement = useCallback(async (draft: Omit<InventoryTransaction, 'id' | 'user'>) => {
+    try {
+      return await postMovement({ ...draft, user: CURRENT_USER });
+    } catch (error) {
+      return reportError('Mouvement refusé', error);
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  const reverse = useCallback(async (movement: InventoryTransaction) => {
+    try {
+      return await reverseMovement(movement, CURRENT_USER);
+    } catch (error) {
+      return reportError('Impossible d\'annuler le mouvement', error);
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  /** Only the notes of a posted movement can change */
+  const updateNotes = useCallback(
+    (movement: InventoryTransaction, notes: string) => updateMovement(movement.id, { notes }),
+    [updateMovement]
+  );
+
+  return {
+    items,
+    movements,
+    parcels,
+    crops,
+    tasks,
+    isLoading,
+    addItem,
+    updateItem,
+    removeItem,
+    addMovement,
+    reverse,
+    updateNotes,
+    refresh
+  };
+}
+
+export default useInventory;
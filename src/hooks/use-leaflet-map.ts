@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { BaseLayerId, createBaseLayer } from '../utils/map';
+
+/**
+ * Create a Leaflet map with cached base tiles in the returned container.
+ * Options are read once, when the map is created; the base layer follows `base`.
+ */
+export function useLeafletMap(options: L.MapOptions, base: BaseLayerId = 'plan') {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const optionsRef = useRef(options);
+  const [map, setMap] = useState<L.Map | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const instance = L.map(container, optionsRef.current);
+
+    // Dialogs and tabs mount the map before it has its final size
+    const resizeObserver = new ResizeObserver(() => instance.invalidateSize());
+    resizeObserver.observe(container);
+    setMap(instance);
+
+    return () => {
+      resizeObserver.disconnect();
+      instance.remove();
+      setMap(null);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!map) return;
+    const tiles = createBaseLayer(base).addTo(map);
+    return () => {
+      tiles.remove();
+    };
+  }, [map, base]);
+
+  return { containerRef, map };
+}
+
+export default useLeafletMap;
@@ -0,0 +1,57 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_MAP_LAYERS, MapLayerState, normalizeMapLayers } from '@/utils/map-layers';
+
+const STORAGE_PREFIX = 'agridom:map-layers';
+// Without an account the configuration belongs to this browser
+const LOCAL_USER = 'local';
+
+// Every mounted map follows changes saved from any other one
+const listeners = new Set<() => void>();
+
+const storageKey = (userId: string) => `${STORAGE_PREFIX}:${userId}`;
+
+const loadMapLayers = (userId: string): MapLayerState[] => {
+  try {
+    const saved = localStorage.getItem(storageKey(userId));
+    return saved ? normalizeMapLayers(JSON.parse(saved)) : DEFAULT_MAP_LAYERS;
+  } catch {
+    return DEFAULT_MAP_LAYERS;
+  }
+};
+
+/**
+ * Map layer visibility, opacity and order, saved per signed-in user
+ */
+export function useMapLayers() {
+  const [userId, setUserId] = useState(LOCAL_USER);
+  const [layers, setLayers] = useState<MapLayerState[]>(() => loadMapLayers(LOCAL_USER));
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => setUserId(data.session?.user.id ?? LOCAL_USER));
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? LOCAL_USER);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    const reload = () => setLayers(loadMapLayers(userId));
+    reload();
+    listeners.add(reload);
+    return () => {
+      listeners.delete(reload);
+    };
+  }, [userId]);
+
+  const saveLayers = useCallback((next: MapLayerState[]) => {
+    localStorage.setItem(storageKey(userId), JSON.stringify(normalizeMapLayers(next)));
+    listeners.forEach(listener => listener());
+  }, [userId]);
+
+  const resetLayers = useCallback(() => saveLayers(DEFAULT_MAP_LAYERS), [saveLayers]);
+
+  return { layers, saveLayers, resetLayers };
+}
+
+export default useMapLayers;
@@ -0,0 +1,40 @@
+import { useCallback, useEffect, useState } from 'react';
+import { DEFAULT_PAC_SETTINGS, normalizePacSettings, PacSettings } from '@/utils/parcel-export';
+
+const STORAGE_KEY = 'agridom:pac-settings';
+
+// Export menus and the settings dialog stay in sync
+const listeners = new Set<() => void>();
+
+const loadPacSettings = (): PacSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? normalizePacSettings(JSON.parse(saved)) : DEFAULT_PAC_SETTINGS;
+  } catch {
+    return DEFAULT_PAC_SETTINGS;
+  }
+};
+
+/**
+ * PACAGE number and crop → PAC culture code mapping used by the Telepac export
+ */
+export function usePacSettings() {
+  const [settings, setSettings] = useState<PacSettings>(loadPacSettings);
+
+  useEffect(() => {
+    const reload = () => setSettings(loadPacSettings());
+    listeners.add(reload);
+    return () => {
+      listeners.delete(reload);
+    };
+  }, []);
+
+  const saveSettings = useCallback((next: PacSettings) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(normalizePacSettings(next)));
+    listeners.forEach(listener => listener());
+  }, []);
+
+  return { settings, saveSettings };
+}
+
+export default usePacSettings;
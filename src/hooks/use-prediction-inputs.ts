@@ -0,0 +1,30 @@
+import { useCallback, useMemo } from 'react';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { cropCycleTable, parcelTable, weatherDayTable, weatherStationTable } from '@/services/farm-tables';
+import type { ParcelData } from '@/types/farm';
+import { parcelPredictionInputs } from '@/utils/prediction-inputs';
+
+/**
+ * Parcels with the station weather their yield prediction inputs are read from
+ */
+export function usePredictionInputs() {
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: cropCycles } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const { data: stations } = useDataOperations({
+    repository: getRepository(weatherStationTable),
+    notifications: false
+  });
+  const { data: days } = useDataOperations({ repository: getRepository(weatherDayTable), notifications: false });
+
+  const activeParcels = useMemo(() => parcels.filter(parcel => parcel.status === 'active'), [parcels]);
+
+  const draftFor = useCallback(
+    (parcel: ParcelData) => parcelPredictionInputs(parcel, { stations, days, cropCycles }),
+    [stations, days, cropCycles]
+  );
+
+  return { parcels, activeParcels, draftFor };
+}
+
+export default usePredictionInputs;
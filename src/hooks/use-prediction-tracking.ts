@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { cropCycleTable, harvestTable, yieldPredictionTable } from '@/services/farm-tables';
+import { accuracyReport, pairPredictions } from '@/utils/prediction-accuracy';
+
+/**
+ * Saved yield predictions and recorded harvests, paired to score the prediction providers
+ */
+export function usePredictionTracking() {
+  const {
+    data: predictions,
+    addItem: addPrediction,
+    deleteItem: deletePrediction
+  } = useDataOperations({ repository: getRepository(yieldPredictionTable), notifications: false });
+  const {
+    data: harvests,
+    addItem: addHarvest,
+    updateItem: updateHarvest,
+    deleteItem: deleteHarvest
+  } = useDataOperations({ repository: getRepository(harvestTable), notifications: false });
+  const { data: cropCycles } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+
+  const pairs = useMemo(() => pairPredictions(harvests, predictions), [harvests, predictions]);
+  const report = useMemo(() => accuracyReport(pairs), [pairs]);
+
+  return {
+    predictions,
+    harvests,
+    cropCycles,
+    pairs,
+    report,
+    addPrediction,
+    deletePrediction,
+    addHarvest,
+    updateHarvest,
+    deleteHarvest
+  };
+}
+
+export default usePredictionTracking;
@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import {
+  cropCycleTable,
+  parcelTable,
+  taskRecurrenceTable,
+  taskTable,
+  taskTemplateItemTable,
+  taskTemplateTable,
+  workerTable
+} from '@/services/farm-tables';
+import {
+  applyTemplate as applyTaskTemplate,
+  createRecurrence,
+  deleteRecurrence,
+  generateRecurringTasks,
+  skipOccurrence
+} from '@/services/task-engine';
+import { dismissChecklistTask } from '@/services/cyclone-preparedness';
+import { assertHarvestAllowed } from '@/services/phytosanitary';
+import type { CropData, CropTask, TaskRecurrence } from '@/types/farm';
+
+/** What the task forms submit: a task, repeated when a rule is given */
+export interface TaskDraft {
+  task: Omit<CropTask, 'id'>;
+  rule?: string;
+  endDate?: string;
+}
+
+const reportError = (message: string, error: unknown) => {
+  toast.error(message, { description: error instanceof Error ? error.message : undefined });
+  return null;
+};
+
+/**
+ * The farm's tasks with the crop cycles, parcels and workers they are linked to, their
+ * recurrences and the crop task templates. Every task view works through this hook;
+ * recurring tasks coming into range are generated once when it mounts. Harvest tasks
+ * within the pre-harvest interval of a treatment are refused.
+ */
+export function useTasks() {
+  const {
+    data: tasks,
+    isLoading,
+    addItem,
+    updateItem,
+    deleteItem,
+    refresh: refreshTasks
+  } = useDataOperations({ repository: getRepository(taskTable), notifications: false });
+  const { data: recurrences, refresh: refreshRecurrences } = useDataOperations({
+    repository: getRepository(taskRecurrenceTable),
+    notifications: false
+  });
+  const { data: templates } = useDataOperations({ repository: getRepository(taskTemplateTable), notifications: false });
+  const { data: templateItems } = useDataOperations({
+    repository: getRepository(taskTemplateItemTable),
+    notifications: false
+  });
+  const { data: cropCycles } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: workers } = useDataOperations({ repository: getRepository(workerTable), notifications: false });
+  const generated = useRef(false);
+
+  useEffect(() => {
+    if (generated.current) return;
+    generated.current = true;
+    (async () => {
+      try {
+        if (await generateRecurringTasks()) await refreshTasks();
+      } catch (error) {
+        reportError('Impossible de générer les tâches récurrentes', error);
+      }
+    })();
+  }, [refreshTasks]);
+
+  /** Number of tasks created: the task itself, or the first occurrences of a rule */
+  const addTask = useCallback(async ({ task, rule, endDate }: TaskDraft) => {
+    if (!rule) {
+      try {
+        await assertHarvestAllowed(task);
+      } catch (error) {
+        return reportError('Impossible de planifier la récolte', error);
+      }
+      return (await addItem(task)) ? 1 : null;
+    }
+    try {
+      const { created } = await createRecurrence({
+        title: task.title,
+        cropId: task.cropId || undefined,
+        parcelId: task.parcelId,
+        assignee: task.assignee,
+        workerId: task.workerId,
+        priority: task.priority,
+        notes: task.notes,
+        harvest: task.harvest,
+        rule,
+        startDate: task.date,
+        endDate,
+        enabled: true
+      });
+      await Promise.all([refreshTasks(), refreshRecurrences()]);
+      return created;
+    } catch (error) {
+      return reportError('Impossible de créer la tâche récurrente', error);
+    }
+  }, [addItem, refreshTasks, refreshRecurrences]);
+
+  // A harvest is checked when it is scheduled, moved or marked done
+  const updateTask = useCallback(async (id: number, changes: Partial<CropTask>) => {
+    const task = tasks.find(item => item.id === id);
+    const rescheduled = ['harvest', 'date', 'parcelId', 'cropId'].some(key => key in changes) || changes.completed === true;
+    if (task && rescheduled) {
+      try {
+        await assertHarvestAllowed({ ...task, ...changes });
+      } catch (error) {
+        return reportError('Récolte refusée', error);
+      }
+    }
+    return updateItem(id, changes);
+  }, [tasks, updateItem]);
+
+  // A cyclone checklist entry or a recurring occurrence the user deletes is not created again
+  const deleteTask = useCallback(async (id: number) => {
+    const task = tasks.find(item => item.id === id);
+    if (task) {
+      try {
+        await Promise.all([dismissChecklistTask(task), skipOccurrence(task)]);
+      } catch (error) {
+        reportError('Impossible de supprimer la tâche', error);
+        return false;
+      }
+    }
+    return deleteItem(id);
+  }, [tasks, deleteItem]);
+
+  const toggleTask = useCallback(
+    (task: CropTask) => updateTask(task.id, { completed: !task.completed }),
+    [updateTask]
+  );
+
+  const removeRecurrence = useCallback(async (recurrence: TaskRecurrence) => {
+    try {
+      const removed = await deleteRecurrence(recurrence);
+      await Promise.all([refreshTasks(), refreshRecurrences()]);
+      return removed;
+    } catch (error) {
+      return reportError('Impossible de supprimer la récurrence', error);
+    }
+  }, [refreshTasks, refreshRecurrences]);
+
+  const applyTemplate = useCallback(async (templateId: number, crop: CropData) => {
+    try {
+      const created = await applyTaskTemplate(templateId, crop);
+      if (created > 0) await refreshTasks();
+      return created;
+    } catch (error) {
+      return reportError('Impossible d\'appliquer le modèle', error);
+    }
+  }, [refreshTasks]);
+
+  const cropFor = useCallback((task: CropTask) => cropCycles.find(crop => crop.id === task.cropId), [cropCycles]);
+  const parcelFor = useCallback(
+    (task: CropTask) => parcels.find(parcel => parcel.id === (task.parcelId ?? cropFor(task)?.parcelId)),
+    [parcels, cropFor]
+  );
+
+  return {
+    tasks,
+    isLoading,
+    recurrences,
+    templates,
+    templateItems,
+    cropCycles,
+    parcels,
+    workers,
+    addTask,
+    updateTask,
+    deleteTask,
+    toggleTask,
+    removeRecurrence,
+    applyTemplate,
+    cropFor,
+    parcelFor
+  };
+}
+
+export default useTasks;
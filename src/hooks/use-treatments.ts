@@ -0,0 +1,99 @@
+import { useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { CURRENT_USER } from '@/hooks/use-inventory';
+import { getRepository } from '@/services/repository';
+import {
+  cropCycleTable,
+  inventoryItemTable,
+  inventoryTransactionTable,
+  parcelTable,
+  phytosanitaryTreatmentTable,
+  taskTable,
+  workerTable
+} from '@/services/farm-tables';
+import { cancelTreatment as cancelRegisterEntry, recordTreatment, weatherAtApplication } from '@/services/phytosanitary';
+import type { ParcelData, PhytosanitaryTreatment } from '@/types/farm';
+import { PHYTOSANITARY_CATEGORY } from '@/utils/phytosanitary';
+
+const reportError = (message: string, error: unknown) => {
+  toast.error(message, { description: error instanceof Error ? error.message : undefined });
+  return null;
+};
+
+/**
+ * The phytosanitary register with the products, parcels, crop cycles, tasks and workers
+ * a treatment refers to. Recording or cancelling a treatment moves the product's stock.
+ */
+export function useTreatments() {
+  const { data: treatments, isLoading, refresh: refreshTreatments } = useDataOperations({
+    repository: getRepository(phytosanitaryTreatmentTable),
+    notifications: false
+  });
+  const { data: items, refresh: refreshItems } = useDataOperations({
+    repository: getRepository(inventoryItemTable),
+    notifications: false
+  });
+  const { refresh: refreshMovements } = useDataOperations({
+    repository: getRepository(inventoryTransactionTable),
+    notifications: false
+  });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: crops } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const { data: tasks } = useDataOperations({ repository: getRepository(taskTable), notifications: false });
+  const { data: workers } = useDataOperations({ repository: getRepository(workerTable), notifications: false });
+
+  const products = useMemo(() => items.filter(item => item.category === PHYTOSANITARY_CATEGORY), [items]);
+
+  const refresh = useCallback(
+    () => Promise.all([refreshTreatments(), refreshItems(), refreshMovements()]),
+    [refreshTreatments, refreshItems, refreshMovements]
+  );
+
+  const addTreatment = useCallback(async (draft: Omit<PhytosanitaryTreatment, 'id' | 'movementId'>) => {
+    try {
+      return await recordTreatment(draft, CURRENT_USER);
+    } catch (error) {
+      return reportError('Traitement refusé', error);
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  const cancelTreatment = useCallback(async (treatment: PhytosanitaryTreatment) => {
+    try {
+      await cancelRegisterEntry(treatment, CURRENT_USER);
+      return true;
+    } catch (error) {
+      reportError('Impossible d\'annuler le traitement', error);
+      return false;
+    } finally {
+      await refresh();
+    }
+  }, [refresh]);
+
+  const weatherAt = useCallback(async (parcel: ParcelData, appliedAt: string) => {
+    try {
+      return await weatherAtApplication(parcel, appliedAt);
+    } catch (error) {
+      reportError('Impossible de lire la météo', error);
+      return undefined;
+    }
+  }, []);
+
+  return {
+    treatments,
+    isLoading,
+    products,
+    parcels,
+    crops,
+    tasks,
+    workers,
+    addTreatment,
+    cancelTreatment,
+    weatherAt,
+    refresh
+  };
+}
+
+export default useTreatments;
@@ -0,0 +1,38 @@
+import { useMemo } from 'react';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import {
+  cropCycleTable,
+  cultureTable,
+  irrigationEventTable,
+  parcelTable,
+  weatherDayTable,
+  weatherStationTable
+} from '@/services/farm-tables';
+import { parcelWaterBalances } from '@/utils/water-balance';
+
+/**
+ * Soil water balance and irrigation schedule of every cultivated parcel, with the log of
+ * the irrigation applied
+ */
+export function useWaterBalance() {
+  const {
+    data: events,
+    addItem: addEvent,
+    deleteItem: deleteEvent
+  } = useDataOperations({ repository: getRepository(irrigationEventTable), notifications: false });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { data: cropCycles } = useDataOperations({ repository: getRepository(cropCycleTable), notifications: false });
+  const { data: cultures } = useDataOperations({ repository: getRepository(cultureTable), notifications: false });
+  const { data: stations } = useDataOperations({ repository: getRepository(weatherStationTable), notifications: false });
+  const { data: days } = useDataOperations({ repository: getRepository(weatherDayTable), notifications: false });
+
+  const balances = useMemo(
+    () => parcelWaterBalances(parcels, cropCycles, cultures, stations, days, events),
+    [parcels, cropCycles, cultures, stations, days, events]
+  );
+
+  return { balances, events, parcels, addEvent, deleteEvent };
+}
+
+export default useWaterBalance;
@@ -0,0 +1,53 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import { taskTable, weatherAlertRuleTable, weatherAlertTable } from '@/services/farm-tables';
+import { runWeatherAlertEngine } from '@/services/weather-alerts';
+
+/**
+ * Alerts raised by the weather rules and the rules themselves. The rules are evaluated
+ * once when the hook mounts, so statuses follow the clock between imports; storm alerts
+ * also create their cyclone checklist tasks.
+ */
+export function useWeatherAlerts() {
+  const { data: alerts, refresh: refreshAlerts } = useDataOperations({
+    repository: getRepository(weatherAlertTable),
+    notifications: false
+  });
+  const { refresh: refreshTasks } = useDataOperations({ repository: getRepository(taskTable), notifications: false });
+  const {
+    data: rules,
+    addItem: addRule,
+    updateItem: updateRule,
+    deleteItem: deleteRule
+  } = useDataOperations({ repository: getRepository(weatherAlertRuleTable), notifications: false });
+  const [evaluating, setEvaluating] = useState(false);
+  const evaluated = useRef(false);
+
+  const evaluate = useCallback(async () => {
+    setEvaluating(true);
+    try {
+      const summary = await runWeatherAlertEngine();
+      await Promise.all([refreshAlerts(), refreshTasks()]);
+      return summary;
+    } catch (error) {
+      toast.error("Impossible d'évaluer les règles d'alerte", {
+        description: error instanceof Error ? error.message : undefined
+      });
+      return null;
+    } finally {
+      setEvaluating(false);
+    }
+  }, [refreshAlerts, refreshTasks]);
+
+  useEffect(() => {
+    if (evaluated.current) return;
+    evaluated.current = true;
+    evaluate();
+  }, [evaluate]);
+
+  return { alerts, rules, addRule, updateRule, deleteRule, evaluate, evaluating };
+}
+
+export default useWeatherAlerts;
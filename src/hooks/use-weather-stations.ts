@@ -0,0 +1,69 @@
+import { useCallback, useMemo } from 'react';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import {
+  parcelTable,
+  taskTable,
+  weatherAlertTable,
+  weatherDayTable,
+  weatherObservationTable,
+  weatherStationTable
+} from '@/services/farm-tables';
+import { runWeatherAlertEngine } from '@/services/weather-alerts';
+import { importWeatherObservations } from '@/services/weather-ingestion';
+import type { WeatherDataset } from '@/utils/weather-import';
+import { nearestStation } from '@/utils/weather-series';
+
+/**
+ * Weather stations, their daily aggregates and the station each parcel is mapped to
+ */
+export function useWeatherStations() {
+  const {
+    data: stations,
+    addItem: addStation,
+    updateItem: updateStation,
+    deleteItem: deleteStation,
+    refresh: refreshStations
+  } = useDataOperations({ repository: getRepository(weatherStationTable), notifications: false });
+  const { data: days, refresh: refreshDays } = useDataOperations({
+    repository: getRepository(weatherDayTable),
+    notifications: false
+  });
+  const { refresh: refreshObservations } = useDataOperations({
+    repository: getRepository(weatherObservationTable),
+    notifications: false
+  });
+  const { refresh: refreshAlerts } = useDataOperations({
+    repository: getRepository(weatherAlertTable),
+    notifications: false
+  });
+  const { refresh: refreshTasks } = useDataOperations({ repository: getRepository(taskTable), notifications: false });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+
+  const parcelStations = useMemo(
+    () => parcels.map(parcel => ({ parcel, nearest: nearestStation(parcel.coordinates, stations) })),
+    [parcels, stations]
+  );
+
+  // New days may raise or clear alerts, so the rules are evaluated after every import
+  const importDataset = useCallback(async (dataset: WeatherDataset) => {
+    try {
+      const summary = await importWeatherObservations(dataset.observations, dataset.format);
+      if (summary.days > 0) await runWeatherAlertEngine();
+      return summary;
+    } finally {
+      await Promise.all([refreshObservations(), refreshDays(), refreshAlerts(), refreshTasks()]);
+    }
+  }, [refreshObservations, refreshDays, refreshAlerts, refreshTasks]);
+
+  // Deleting a station cascades to its observations and days
+  const removeStation = useCallback(async (id: number) => {
+    const deleted = await deleteStation(id);
+    if (deleted) await Promise.all([refreshObservations(), refreshDays(), refreshStations()]);
+    return deleted;
+  }, [deleteStation, refreshObservations, refreshDays, refreshStations]);
+
+  return { stations, days, parcelStations, addStation, updateStation, deleteStation: removeStation, importDataset };
+}
+
+export default useWeatherStations;
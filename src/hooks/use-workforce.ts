@@ -0,0 +1,146 @@
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useDataOperations } from '@/hooks/use-data-operations';
+import { getRepository } from '@/services/repository';
+import {
+  budgetTable,
+  financialTransactionTable,
+  parcelTable,
+  taskTable,
+  teamTable,
+  timeEntryTable,
+  workerTable
+} from '@/services/farm-tables';
+import {
+  clockIn as startClock,
+  clockOut as stopClock,
+  deleteTimeEntry,
+  deleteWorker,
+  saveTimeEntry
+} from '@/services/workforce';
+import type { CropTask, TimeEntry, Worker } from '@/types/farm';
+
+const reportError = (message: string, error: unknown) => {
+  toast.error(message, { description: error instanceof Error ? error.message : undefined });
+  return null;
+};
+
+/**
+ * Workers and teams, the tasks they are assigned and the hours they clock. Changes to
+ * the hours refresh the transactions and budgets their cost is booked on.
+ */
+export function useWorkforce() {
+  const {
+    data: workers,
+    addItem: addWorker,
+    updateItem: updateWorker,
+    refresh: refreshWorkers
+  } = useDataOperations({ repository: getRepository(workerTable), notifications: false });
+  const { data: teams, addItem: addTeam, deleteItem: deleteTeam } = useDataOperations({
+    repository: getRepository(teamTable),
+    notifications: false
+  });
+  const { data: entries, isLoading, refresh: refreshEntries } = useDataOperations({
+    repository: getRepository(timeEntryTable),
+    notifications: false
+  });
+  const { data: tasks, updateItem: updateTask } = useDataOperations({
+    repository: getRepository(taskTable),
+    notifications: false
+  });
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { refresh: refreshTransactions } = useDataOperations({
+    repository: getRepository(financialTransactionTable),
+    notifications: false
+  });
+  const { refresh: refreshBudgets } = useDataOperations({ repository: getRepository(budgetTable), notifications: false });
+
+  const refreshBookings = useCallback(
+    () => Promise.all([refreshEntries(), refreshTransactions(), refreshBudgets()]),
+    [refreshEntries, refreshTransactions, refreshBudgets]
+  );
+
+  const saveWorker = useCallback(
+    (draft: Omit<Worker, 'id'>, existing?: Worker) => (existing ? updateWorker(existing.id, draft) : addWorker(draft)),
+    [addWorker, updateWorker]
+  );
+
+  const removeWorker = useCallback(async (worker: Worker) => {
+    try {
+      await deleteWorker(worker);
+      await refreshWorkers();
+      return true;
+    } catch (error) {
+      reportError('Impossible de supprimer l\'employé', error);
+      return false;
+    }
+  }, [refreshWorkers]);
+
+  /** Assign a task to a worker, or unassign it */
+  const assignTask = useCallback(
+    (task: CropTask, worker?: Worker) => updateTask(task.id, { workerId: worker?.id, assignee: worker?.name }),
+    [updateTask]
+  );
+
+  const saveEntry = useCallback(async (draft: Omit<TimeEntry, 'id' | 'transactionId'>, existing?: TimeEntry) => {
+    try {
+      return await saveTimeEntry(draft, existing);
+    } catch (error) {
+      return reportError('Impossible d\'enregistrer les heures', error);
+    } finally {
+      await refreshBookings();
+    }
+  }, [refreshBookings]);
+
+  const removeEntry = useCallback(async (entry: TimeEntry) => {
+    try {
+      await deleteTimeEntry(entry);
+      return true;
+    } catch (error) {
+      reportError('Impossible de supprimer la saisie', error);
+      return false;
+    } finally {
+      await refreshBookings();
+    }
+  }, [refreshBookings]);
+
+  const clockIn = useCallback(async (worker: Worker, target: Pick<TimeEntry, 'taskId' | 'parcelId' | 'notes'>) => {
+    try {
+      return await startClock(worker, target);
+    } catch (error) {
+      return reportError('Impossible de pointer l\'arrivée', error);
+    } finally {
+      await refreshEntries();
+    }
+  }, [refreshEntries]);
+
+  const clockOut = useCallback(async (entry: TimeEntry) => {
+    try {
+      return await stopClock(entry);
+    } catch (error) {
+      return reportError('Impossible de pointer le départ', error);
+    } finally {
+      await refreshBookings();
+    }
+  }, [refreshBookings]);
+
+  return {
+    workers,
+    teams,
+    entries,
+    tasks,
+    parcels,
+    isLoading,
+    saveWorker,
+    removeWorker,
+    addTeam,
+    deleteTeam,
+    assignTask,
+    saveEntry,
+    removeEntry,
+    clockIn,
+    clockOut
+  };
+}
+
+export default useWorkforce;
@@ -14,7 +14,1773 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      budgets: {
+        Row: {
+          actual: number
+          category: string
+          color: string
+          created_at: string
+          id: number
+          period: string
+          planned: number
+          updated_at: string
+          version: number
+          year: number
+        }
+        Insert: {
+          actual?: number
+          category: string
+          color?: string
+          created_at?: string
+          id?: number
+          period?: string
+          planned?: number
+          updated_at?: string
+          version?: number
+          year?: number
+        }
+        Update: {
+          actual?: number
+          category?: string
+          color?: string
+          created_at?: string
+          id?: number
+          period?: string
+          planned?: number
+          updated_at?: string
+          version?: number
+          year?: number
+        }
+        Relationships: []
+      }
+      crop_cycles: {
+        Row: {
+          area: number
+          created_at: string
+          harvest_date: string | null
+          id: number
+          name: string
+          parcel_id: number | null
+          parcel_name: string
+          planting_date: string
+          status: Database["public"]["Enums"]["crop_status"]
+          updated_at: string
+          variety: string
+          version: number
+        }
+        Insert: {
+          area?: number
+          created_at?: string
+          harvest_date?: string | null
+          id?: number
+          name: string
+          parcel_id?: number | null
+          parcel_name?: string
+          planting_date: string
+          status?: Database["public"]["Enums"]["crop_status"]
+          updated_at?: string
+          variety?: string
+          version?: number
+        }
+        Update: {
+          area?: number
+          created_at?: string
+          harvest_date?: string | null
+          id?: number
+          name?: string
+          parcel_id?: number | null
+          parcel_name?: string
+          planting_date?: string
+          status?: Database["public"]["Enums"]["crop_status"]
+          updated_at?: string
+          variety?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crop_cycles_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crop_history: {
+        Row: {
+          created_at: string
+          crop: string
+          id: number
+          notes: string | null
+          parcel_id: number
+          season: Database["public"]["Enums"]["crop_season"]
+          updated_at: string
+          version: number
+          year: number
+          yield: number | null
+        }
+        Insert: {
+          created_at?: string
+          crop: string
+          id?: number
+          notes?: string | null
+          parcel_id: number
+          season: Database["public"]["Enums"]["crop_season"]
+          updated_at?: string
+          version?: number
+          year: number
+          yield?: number | null
+        }
+        Update: {
+          created_at?: string
+          crop?: string
+          id?: number
+          notes?: string | null
+          parcel_id?: number
+          season?: Database["public"]["Enums"]["crop_season"]
+          updated_at?: string
+          version?: number
+          year?: number
+          yield?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crop_history_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cultures: {
+        Row: {
+          created_at: string
+          diseases: string
+          family: string
+          fertilization: string
+          growing_season: string
+          harvest_period: string
+          id: number
+          name: string
+          notes: string
+          origin: string
+          pests: string
+          scientific_name: string
+          soil_type: string
+          type: Database["public"]["Enums"]["culture_type"]
+          updated_at: string
+          version: number
+          water_needs: string
+          yield_per_hectare: string
+        }
+        Insert: {
+          created_at?: string
+          diseases?: string
+          family?: string
+          fertilization?: string
+          growing_season?: string
+          harvest_period?: string
+          id?: number
+          name: string
+          notes?: string
+          origin?: string
+          pests?: string
+          scientific_name?: string
+          soil_type?: string
+          type?: Database["public"]["Enums"]["culture_type"]
+          updated_at?: string
+          version?: number
+          water_needs?: string
+          yield_per_hectare?: string
+        }
+        Update: {
+          created_at?: string
+          diseases?: string
+          family?: string
+          fertilization?: string
+          growing_season?: string
+          harvest_period?: string
+          id?: number
+          name?: string
+          notes?: string
+          origin?: string
+          pests?: string
+          scientific_name?: string
+          soil_type?: string
+          type?: Database["public"]["Enums"]["culture_type"]
+          updated_at?: string
+          version?: number
+          water_needs?: string
+          yield_per_hectare?: string
+        }
+        Relationships: []
+      }
+      damage_assessments: {
+        Row: {
+          assessed_on: string
+          category: Database["public"]["Enums"]["damage_category"]
+          created_at: string
+          crop_cycle_id: number | null
+          damaged_area: number | null
+          description: string
+          estimated_loss: number
+          financial_transaction_id: number | null
+          id: number
+          insured: boolean
+          inventory_item_id: number | null
+          loss_percent: number | null
+          notes: string | null
+          parcel_id: number | null
+          updated_at: string
+          version: number
+          weather_alert_id: number | null
+        }
+        Insert: {
+          assessed_on: string
+          category: Database["public"]["Enums"]["damage_category"]
+          created_at?: string
+          crop_cycle_id?: number | null
+          damaged_area?: number | null
+          description: string
+          estimated_loss: number
+          financial_transaction_id?: number | null
+          id?: number
+          insured?: boolean
+          inventory_item_id?: number | null
+          loss_percent?: number | null
+          notes?: string | null
+          parcel_id?: number | null
+          updated_at?: string
+          version?: number
+          weather_alert_id?: number | null
+        }
+        Update: {
+          assessed_on?: string
+          category?: Database["public"]["Enums"]["damage_category"]
+          created_at?: string
+          crop_cycle_id?: number | null
+          damaged_area?: number | null
+          description?: string
+          estimated_loss?: number
+          financial_transaction_id?: number | null
+          id?: number
+          insured?: boolean
+          inventory_item_id?: number | null
+          loss_percent?: number | null
+          notes?: string | null
+          parcel_id?: number | null
+          updated_at?: string
+          version?: number
+          weather_alert_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "damage_assessments_weather_alert_id_fkey"
+            columns: ["weather_alert_id"]
+            isOneToOne: false
+            referencedRelation: "weather_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "damage_assessments_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "damage_assessments_crop_cycle_id_fkey"
+            columns: ["crop_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "damage_assessments_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "damage_assessments_financial_transaction_id_fkey"
+            columns: ["financial_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "financial_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      financial_transactions: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          date: string
+          description: string
+          id: number
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          date: string
+          description: string
+          id?: number
+          type: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          date?: string
+          description?: string
+          id?: number
+          type?: Database["public"]["Enums"]["transaction_type"]
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      harvests: {
+        Row: {
+          area: number
+          created_at: string
+          crop: string
+          crop_cycle_id: number | null
+          harvest_date: string
+          id: number
+          notes: string | null
+          parcel_id: number | null
+          prediction_id: number | null
+          quality: Database["public"]["Enums"]["harvest_quality"]
+          quantity: number
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          area: number
+          created_at?: string
+          crop: string
+          crop_cycle_id?: number | null
+          harvest_date: string
+          id?: number
+          notes?: string | null
+          parcel_id?: number | null
+          prediction_id?: number | null
+          quality?: Database["public"]["Enums"]["harvest_quality"]
+          quantity: number
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          area?: number
+          created_at?: string
+          crop?: string
+          crop_cycle_id?: number | null
+          harvest_date?: string
+          id?: number
+          notes?: string | null
+          parcel_id?: number | null
+          prediction_id?: number | null
+          quality?: Database["public"]["Enums"]["harvest_quality"]
+          quantity?: number
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "harvests_crop_cycle_id_fkey"
+            columns: ["crop_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "harvests_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "harvests_prediction_id_fkey"
+            columns: ["prediction_id"]
+            isOneToOne: false
+            referencedRelation: "yield_predictions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_items: {
+        Row: {
+          amm_number: string | null
+          category: string
+          created_at: string
+          expiry_date: string | null
+          id: number
+          last_updated: string
+          location: string
+          max_dose: number | null
+          min_quantity: number
+          name: string
+          notes: string | null
+          pre_harvest_interval: number | null
+          price: number
+          quantity: number
+          sku: string | null
+          supplier: string | null
+          unit: string
+          updated_at: string
+          valuation_method: Database["public"]["Enums"]["valuation_method"]
+          version: number
+        }
+        Insert: {
+          amm_number?: string | null
+          category: string
+          created_at?: string
+          expiry_date?: string | null
+          id?: number
+          last_updated?: string
+          location?: string
+          max_dose?: number | null
+          min_quantity?: number
+          name: string
+          notes?: string | null
+          pre_harvest_interval?: number | null
+          price?: number
+          quantity?: number
+          sku?: string | null
+          supplier?: string | null
+          unit: string
+          updated_at?: string
+          valuation_method?: Database["public"]["Enums"]["valuation_method"]
+          version?: number
+        }
+        Update: {
+          amm_number?: string | null
+          category?: string
+          created_at?: string
+          expiry_date?: string | null
+          id?: number
+          last_updated?: string
+          location?: string
+          max_dose?: number | null
+          min_quantity?: number
+          name?: string
+          notes?: string | null
+          pre_harvest_interval?: number | null
+          price?: number
+          quantity?: number
+          sku?: string | null
+          supplier?: string | null
+          unit?: string
+          updated_at?: string
+          valuation_method?: Database["public"]["Enums"]["valuation_method"]
+          version?: number
+        }
+        Relationships: []
+      }
+      inventory_transactions: {
+        Row: {
+          created_at: string
+          crop_cycle_id: number | null
+          date: string
+          id: number
+          item_id: number
+          location: string
+          notes: string
+          parcel_id: number | null
+          quantity: number
+          reversal_of: number | null
+          task_id: number | null
+          to_location: string | null
+          treated_area: number | null
+          type: Database["public"]["Enums"]["stock_movement_type"]
+          unit_cost: number | null
+          user_name: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          crop_cycle_id?: number | null
+          date?: string
+          id?: number
+          item_id: number
+          location?: string
+          notes?: string
+          parcel_id?: number | null
+          quantity: number
+          reversal_of?: number | null
+          task_id?: number | null
+          to_location?: string | null
+          treated_area?: number | null
+          type: Database["public"]["Enums"]["stock_movement_type"]
+          unit_cost?: number | null
+          user_name?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          crop_cycle_id?: number | null
+          date?: string
+          id?: number
+          item_id?: number
+          location?: string
+          notes?: string
+          parcel_id?: number | null
+          quantity?: number
+          reversal_of?: number | null
+          task_id?: number | null
+          to_location?: string | null
+          treated_area?: number | null
+          type?: Database["public"]["Enums"]["stock_movement_type"]
+          unit_cost?: number | null
+          user_name?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_transactions_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_transactions_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: false
+            referencedRelation: "inventory_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_transactions_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_transactions_crop_cycle_id_fkey"
+            columns: ["crop_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_transactions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      irrigation_events: {
+        Row: {
+          created_at: string
+          id: number
+          irrigated_on: string
+          notes: string | null
+          parcel_id: number
+          updated_at: string
+          version: number
+          volume: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          irrigated_on: string
+          notes?: string | null
+          parcel_id: number
+          updated_at?: string
+          version?: number
+          volume: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          irrigated_on?: string
+          notes?: string | null
+          parcel_id?: number
+          updated_at?: string
+          version?: number
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "irrigation_events_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      irrigation_lines: {
+        Row: {
+          created_at: string
+          id: number
+          kind: Database["public"]["Enums"]["irrigation_line_kind"]
+          name: string
+          notes: string | null
+          parcel_id: number | null
+          path: Json
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          id?: number
+          kind?: Database["public"]["Enums"]["irrigation_line_kind"]
+          name?: string
+          notes?: string | null
+          parcel_id?: number | null
+          path: Json
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          id?: number
+          kind?: Database["public"]["Enums"]["irrigation_line_kind"]
+          name?: string
+          notes?: string | null
+          parcel_id?: number | null
+          path?: Json
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "irrigation_lines_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      parcels: {
+        Row: {
+          area: number
+          boundary: Json | null
+          created_at: string
+          crop: string
+          harvest_date: string | null
+          id: number
+          irrigation: string | null
+          last_activity: string
+          latitude: number | null
+          longitude: number | null
+          name: string
+          nitrogen: number | null
+          notes: string | null
+          organic_matter: number | null
+          owner: string | null
+          ph: number | null
+          phosphorus: number | null
+          planting_date: string | null
+          potassium: number | null
+          rainfall: number | null
+          soil_type: string
+          status: Database["public"]["Enums"]["parcel_status"]
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          area?: number
+          boundary?: Json | null
+          created_at?: string
+          crop?: string
+          harvest_date?: string | null
+          id?: number
+          irrigation?: string | null
+          last_activity?: string
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          nitrogen?: number | null
+          notes?: string | null
+          organic_matter?: number | null
+          owner?: string | null
+          ph?: number | null
+          phosphorus?: number | null
+          planting_date?: string | null
+          potassium?: number | null
+          rainfall?: number | null
+          soil_type?: string
+          status?: Database["public"]["Enums"]["parcel_status"]
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          area?: number
+          boundary?: Json | null
+          created_at?: string
+          crop?: string
+          harvest_date?: string | null
+          id?: number
+          irrigation?: string | null
+          last_activity?: string
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          nitrogen?: number | null
+          notes?: string | null
+          organic_matter?: number | null
+          owner?: string | null
+          ph?: number | null
+          phosphorus?: number | null
+          planting_date?: string | null
+          potassium?: number | null
+          rainfall?: number | null
+          soil_type?: string
+          status?: Database["public"]["Enums"]["parcel_status"]
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      phytosanitary_treatments: {
+        Row: {
+          amm_number: string
+          applied_at: string
+          cancelled_at: string | null
+          cancelled_by: string | null
+          created_at: string
+          crop_cycle_id: number | null
+          dose: number
+          dose_unit: string
+          humidity: number | null
+          id: number
+          item_id: number | null
+          max_dose: number | null
+          movement_id: number | null
+          notes: string | null
+          operator: string
+          parcel_id: number
+          pre_harvest_interval: number
+          product_name: string
+          target: string | null
+          task_id: number | null
+          temperature: number | null
+          treated_area: number
+          updated_at: string
+          version: number
+          weather: string | null
+          wind_speed: number | null
+          worker_id: number | null
+        }
+        Insert: {
+          amm_number: string
+          applied_at: string
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          crop_cycle_id?: number | null
+          dose: number
+          dose_unit: string
+          humidity?: number | null
+          id?: number
+          item_id?: number | null
+          max_dose?: number | null
+          movement_id?: number | null
+          notes?: string | null
+          operator: string
+          parcel_id: number
+          pre_harvest_interval?: number
+          product_name: string
+          target?: string | null
+          task_id?: number | null
+          temperature?: number | null
+          treated_area: number
+          updated_at?: string
+          version?: number
+          weather?: string | null
+          wind_speed?: number | null
+          worker_id?: number | null
+        }
+        Update: {
+          amm_number?: string
+          applied_at?: string
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          crop_cycle_id?: number | null
+          dose?: number
+          dose_unit?: string
+          humidity?: number | null
+          id?: number
+          item_id?: number | null
+          max_dose?: number | null
+          movement_id?: number | null
+          notes?: string | null
+          operator?: string
+          parcel_id?: number
+          pre_harvest_interval?: number
+          product_name?: string
+          target?: string | null
+          task_id?: number | null
+          temperature?: number | null
+          treated_area?: number
+          updated_at?: string
+          version?: number
+          weather?: string | null
+          wind_speed?: number | null
+          worker_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "phytosanitary_treatments_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phytosanitary_treatments_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phytosanitary_treatments_crop_cycle_id_fkey"
+            columns: ["crop_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phytosanitary_treatments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phytosanitary_treatments_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "phytosanitary_treatments_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      preparedness_items: {
+        Row: {
+          applies_to: string | null
+          created_at: string
+          enabled: boolean
+          id: number
+          position: number
+          priority: Database["public"]["Enums"]["task_priority"]
+          scope: Database["public"]["Enums"]["checklist_scope"]
+          title: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          applies_to?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: number
+          position?: number
+          priority?: Database["public"]["Enums"]["task_priority"]
+          scope: Database["public"]["Enums"]["checklist_scope"]
+          title: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          applies_to?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: number
+          position?: number
+          priority?: Database["public"]["Enums"]["task_priority"]
+          scope?: Database["public"]["Enums"]["checklist_scope"]
+          title?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      rotation_rules: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          follows: string | null
+          id: number
+          kind: Database["public"]["Enums"]["rotation_rule_kind"]
+          message: string | null
+          min_interval: number | null
+          name: string
+          severity: Database["public"]["Enums"]["rotation_rule_severity"]
+          subject: string | null
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          follows?: string | null
+          id?: number
+          kind: Database["public"]["Enums"]["rotation_rule_kind"]
+          message?: string | null
+          min_interval?: number | null
+          name: string
+          severity?: Database["public"]["Enums"]["rotation_rule_severity"]
+          subject?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          follows?: string | null
+          id?: number
+          kind?: Database["public"]["Enums"]["rotation_rule_kind"]
+          message?: string | null
+          min_interval?: number | null
+          name?: string
+          severity?: Database["public"]["Enums"]["rotation_rule_severity"]
+          subject?: string | null
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      task_recurrences: {
+        Row: {
+          assignee: string | null
+          created_at: string
+          crop_cycle_id: number | null
+          enabled: boolean
+          ends_on: string | null
+          harvest: boolean
+          id: number
+          notes: string | null
+          parcel_id: number | null
+          priority: Database["public"]["Enums"]["task_priority"]
+          rule: string
+          skipped_dates: string[]
+          starts_on: string
+          title: string
+          updated_at: string
+          version: number
+          worker_id: number | null
+        }
+        Insert: {
+          assignee?: string | null
+          created_at?: string
+          crop_cycle_id?: number | null
+          enabled?: boolean
+          ends_on?: string | null
+          harvest?: boolean
+          id?: number
+          notes?: string | null
+          parcel_id?: number | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          rule: string
+          skipped_dates?: string[]
+          starts_on: string
+          title: string
+          updated_at?: string
+          version?: number
+          worker_id?: number | null
+        }
+        Update: {
+          assignee?: string | null
+          created_at?: string
+          crop_cycle_id?: number | null
+          enabled?: boolean
+          ends_on?: string | null
+          harvest?: boolean
+          id?: number
+          notes?: string | null
+          parcel_id?: number | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          rule?: string
+          skipped_dates?: string[]
+          starts_on?: string
+          title?: string
+          updated_at?: string
+          version?: number
+          worker_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_recurrences_crop_cycle_id_fkey"
+            columns: ["crop_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_recurrences_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_recurrences_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_template_items: {
+        Row: {
+          created_at: string
+          harvest: boolean
+          id: number
+          notes: string | null
+          offset_days: number
+          position: number
+          priority: Database["public"]["Enums"]["task_priority"]
+          rule: string | null
+          template_id: number
+          title: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          harvest?: boolean
+          id?: number
+          notes?: string | null
+          offset_days?: number
+          position?: number
+          priority?: Database["public"]["Enums"]["task_priority"]
+          rule?: string | null
+          template_id: number
+          title: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          harvest?: boolean
+          id?: number
+          notes?: string | null
+          offset_days?: number
+          position?: number
+          priority?: Database["public"]["Enums"]["task_priority"]
+          rule?: string | null
+          template_id?: number
+          title?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_template_items_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "task_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          created_at: string
+          crop: string
+          description: string | null
+          id: number
+          name: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          crop: string
+          description?: string | null
+          id?: number
+          name: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          crop?: string
+          description?: string | null
+          id?: number
+          name?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      tasks: {
+        Row: {
+          assignee: string | null
+          completed: boolean
+          created_at: string
+          crop_cycle_id: number | null
+          due_date: string
+          harvest: boolean
+          id: number
+          inventory_item_id: number | null
+          notes: string | null
+          occurrence_date: string | null
+          parcel_id: number | null
+          preparedness_item_id: number | null
+          priority: Database["public"]["Enums"]["task_priority"]
+          recurrence_id: number | null
+          template_item_id: number | null
+          title: string
+          updated_at: string
+          version: number
+          weather_alert_id: number | null
+          worker_id: number | null
+        }
+        Insert: {
+          assignee?: string | null
+          completed?: boolean
+          created_at?: string
+          crop_cycle_id?: number | null
+          due_date: string
+          harvest?: boolean
+          id?: number
+          inventory_item_id?: number | null
+          notes?: string | null
+          occurrence_date?: string | null
+          parcel_id?: number | null
+          preparedness_item_id?: number | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          recurrence_id?: number | null
+          template_item_id?: number | null
+          title: string
+          updated_at?: string
+          version?: number
+          weather_alert_id?: number | null
+          worker_id?: number | null
+        }
+        Update: {
+          assignee?: string | null
+          completed?: boolean
+          created_at?: string
+          crop_cycle_id?: number | null
+          due_date?: string
+          harvest?: boolean
+          id?: number
+          inventory_item_id?: number | null
+          notes?: string | null
+          occurrence_date?: string | null
+          parcel_id?: number | null
+          preparedness_item_id?: number | null
+          priority?: Database["public"]["Enums"]["task_priority"]
+          recurrence_id?: number | null
+          template_item_id?: number | null
+          title?: string
+          updated_at?: string
+          version?: number
+          weather_alert_id?: number | null
+          worker_id?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_crop_cycle_id_fkey"
+            columns: ["crop_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_weather_alert_id_fkey"
+            columns: ["weather_alert_id"]
+            isOneToOne: false
+            referencedRelation: "weather_alerts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_preparedness_item_id_fkey"
+            columns: ["preparedness_item_id"]
+            isOneToOne: false
+            referencedRelation: "preparedness_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_recurrence_id_fkey"
+            columns: ["recurrence_id"]
+            isOneToOne: false
+            referencedRelation: "task_recurrences"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_template_item_id_fkey"
+            columns: ["template_item_id"]
+            isOneToOne: false
+            referencedRelation: "task_template_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: number
+          name: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: number
+          name: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: number
+          name?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      time_entries: {
+        Row: {
+          created_at: string
+          financial_transaction_id: number | null
+          hourly_rate: number
+          hours: number | null
+          id: number
+          notes: string | null
+          parcel_id: number | null
+          started_at: string | null
+          task_id: number | null
+          updated_at: string
+          version: number
+          work_date: string
+          worker_id: number
+        }
+        Insert: {
+          created_at?: string
+          financial_transaction_id?: number | null
+          hourly_rate: number
+          hours?: number | null
+          id?: number
+          notes?: string | null
+          parcel_id?: number | null
+          started_at?: string | null
+          task_id?: number | null
+          updated_at?: string
+          version?: number
+          work_date: string
+          worker_id: number
+        }
+        Update: {
+          created_at?: string
+          financial_transaction_id?: number | null
+          hourly_rate?: number
+          hours?: number | null
+          id?: number
+          notes?: string | null
+          parcel_id?: number | null
+          started_at?: string | null
+          task_id?: number | null
+          updated_at?: string
+          version?: number
+          work_date?: string
+          worker_id?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_entries_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_financial_transaction_id_fkey"
+            columns: ["financial_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "financial_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_alert_rules: {
+        Row: {
+          aggregation: Database["public"]["Enums"]["weather_aggregation"]
+          comparison: Database["public"]["Enums"]["rule_comparison"]
+          created_at: string
+          enabled: boolean
+          expiry_hours: number
+          id: number
+          impact_crops: Database["public"]["Enums"]["crop_impact"]
+          metric: Database["public"]["Enums"]["weather_metric"]
+          name: string
+          recommendation: string
+          region: string | null
+          severity: Database["public"]["Enums"]["alert_severity"]
+          threshold: number
+          type: Database["public"]["Enums"]["weather_alert_type"]
+          updated_at: string
+          version: number
+          window_days: number
+        }
+        Insert: {
+          aggregation: Database["public"]["Enums"]["weather_aggregation"]
+          comparison: Database["public"]["Enums"]["rule_comparison"]
+          created_at?: string
+          enabled?: boolean
+          expiry_hours?: number
+          id?: number
+          impact_crops: Database["public"]["Enums"]["crop_impact"]
+          metric: Database["public"]["Enums"]["weather_metric"]
+          name: string
+          recommendation: string
+          region?: string | null
+          severity: Database["public"]["Enums"]["alert_severity"]
+          threshold: number
+          type: Database["public"]["Enums"]["weather_alert_type"]
+          updated_at?: string
+          version?: number
+          window_days: number
+        }
+        Update: {
+          aggregation?: Database["public"]["Enums"]["weather_aggregation"]
+          comparison?: Database["public"]["Enums"]["rule_comparison"]
+          created_at?: string
+          enabled?: boolean
+          expiry_hours?: number
+          id?: number
+          impact_crops?: Database["public"]["Enums"]["crop_impact"]
+          metric?: Database["public"]["Enums"]["weather_metric"]
+          name?: string
+          recommendation?: string
+          region?: string | null
+          severity?: Database["public"]["Enums"]["alert_severity"]
+          threshold?: number
+          type?: Database["public"]["Enums"]["weather_alert_type"]
+          updated_at?: string
+          version?: number
+          window_days?: number
+        }
+        Relationships: []
+      }
+      weather_alerts: {
+        Row: {
+          created_at: string
+          description: string
+          dismissed_checklist: string[]
+          end_date: string
+          expires_at: string | null
+          id: number
+          impact_crops: Database["public"]["Enums"]["crop_impact"]
+          recommendation: string
+          region: string
+          rule_id: number | null
+          severity: Database["public"]["Enums"]["alert_severity"]
+          start_date: string
+          station_id: number | null
+          status: Database["public"]["Enums"]["weather_alert_status"]
+          type: Database["public"]["Enums"]["weather_alert_type"]
+          updated_at: string
+          value: number
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          dismissed_checklist?: string[]
+          end_date: string
+          expires_at?: string | null
+          id?: number
+          impact_crops: Database["public"]["Enums"]["crop_impact"]
+          recommendation: string
+          region: string
+          rule_id?: number | null
+          severity: Database["public"]["Enums"]["alert_severity"]
+          start_date: string
+          station_id?: number | null
+          status?: Database["public"]["Enums"]["weather_alert_status"]
+          type: Database["public"]["Enums"]["weather_alert_type"]
+          updated_at?: string
+          value: number
+          version?: number
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          dismissed_checklist?: string[]
+          end_date?: string
+          expires_at?: string | null
+          id?: number
+          impact_crops?: Database["public"]["Enums"]["crop_impact"]
+          recommendation?: string
+          region?: string
+          rule_id?: number | null
+          severity?: Database["public"]["Enums"]["alert_severity"]
+          start_date?: string
+          station_id?: number | null
+          status?: Database["public"]["Enums"]["weather_alert_status"]
+          type?: Database["public"]["Enums"]["weather_alert_type"]
+          updated_at?: string
+          value?: number
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weather_alerts_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "weather_alert_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "weather_alerts_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "weather_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_daily: {
+        Row: {
+          created_at: string
+          date: string
+          humidity: number | null
+          id: number
+          observations: number
+          rain: number
+          station_id: number
+          t_max: number | null
+          t_mean: number | null
+          t_min: number | null
+          updated_at: string
+          version: number
+          wind_max: number | null
+        }
+        Insert: {
+          created_at?: string
+          date: string
+          humidity?: number | null
+          id?: number
+          observations: number
+          rain?: number
+          station_id: number
+          t_max?: number | null
+          t_mean?: number | null
+          t_min?: number | null
+          updated_at?: string
+          version?: number
+          wind_max?: number | null
+        }
+        Update: {
+          created_at?: string
+          date?: string
+          humidity?: number | null
+          id?: number
+          observations?: number
+          rain?: number
+          station_id?: number
+          t_max?: number | null
+          t_mean?: number | null
+          t_min?: number | null
+          updated_at?: string
+          version?: number
+          wind_max?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weather_daily_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "weather_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_observations: {
+        Row: {
+          created_at: string
+          humidity: number | null
+          id: number
+          observed_at: string
+          pressure: number | null
+          rainfall: number | null
+          region: string | null
+          source: string
+          station_id: number | null
+          temperature: number | null
+          updated_at: string
+          version: number
+          wind_speed: number | null
+        }
+        Insert: {
+          created_at?: string
+          humidity?: number | null
+          id?: number
+          observed_at: string
+          pressure?: number | null
+          rainfall?: number | null
+          region?: string | null
+          source?: string
+          station_id?: number | null
+          temperature?: number | null
+          updated_at?: string
+          version?: number
+          wind_speed?: number | null
+        }
+        Update: {
+          created_at?: string
+          humidity?: number | null
+          id?: number
+          observed_at?: string
+          pressure?: number | null
+          rainfall?: number | null
+          region?: string | null
+          source?: string
+          station_id?: number | null
+          temperature?: number | null
+          updated_at?: string
+          version?: number
+          wind_speed?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "weather_observations_station_id_fkey"
+            columns: ["station_id"]
+            isOneToOne: false
+            referencedRelation: "weather_stations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      weather_stations: {
+        Row: {
+          code: string
+          created_at: string
+          elevation: number | null
+          id: number
+          latitude: number
+          longitude: number
+          name: string
+          region: string
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          elevation?: number | null
+          id?: number
+          latitude: number
+          longitude: number
+          name: string
+          region: string
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          elevation?: number | null
+          id?: number
+          latitude?: number
+          longitude?: number
+          name?: string
+          region?: string
+          updated_at?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      workers: {
+        Row: {
+          active: boolean
+          created_at: string
+          hourly_rate: number
+          id: number
+          name: string
+          phone: string | null
+          role: string
+          skills: string[]
+          team_id: number | null
+          updated_at: string
+          version: number
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          hourly_rate: number
+          id?: number
+          name: string
+          phone?: string | null
+          role: string
+          skills?: string[]
+          team_id?: number | null
+          updated_at?: string
+          version?: number
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          hourly_rate?: number
+          id?: number
+          name?: string
+          phone?: string | null
+          role?: string
+          skills?: string[]
+          team_id?: number | null
+          updated_at?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workers_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      yield_predictions: {
+        Row: {
+          area: number
+          confidence_level: number
+          created_at: string
+          crop: string
+          crop_cycle_id: number | null
+          fallback_from: Database["public"]["Enums"]["prediction_provider"] | null
+          id: number
+          inputs: Json
+          interval_level: number
+          method: string
+          model_version: number
+          parcel_id: number | null
+          predicted_at: string
+          provider: Database["public"]["Enums"]["prediction_provider"]
+          updated_at: string
+          version: number
+          yield_lower: number
+          yield_per_hectare: number
+          yield_upper: number
+        }
+        Insert: {
+          area: number
+          confidence_level: number
+          created_at?: string
+          crop: string
+          crop_cycle_id?: number | null
+          fallback_from?: Database["public"]["Enums"]["prediction_provider"] | null
+          id?: number
+          inputs?: Json
+          interval_level: number
+          method?: string
+          model_version?: number
+          parcel_id?: number | null
+          predicted_at?: string
+          provider: Database["public"]["Enums"]["prediction_provider"]
+          updated_at?: string
+          version?: number
+          yield_lower: number
+          yield_per_hectare: number
+          yield_upper: number
+        }
+        Update: {
+          area?: number
+          confidence_level?: number
+          created_at?: string
+          crop?: string
+          crop_cycle_id?: number | null
+          fallback_from?: Database["public"]["Enums"]["prediction_provider"] | null
+          id?: number
+          inputs?: Json
+          interval_level?: number
+          method?: string
+          model_version?: number
+          parcel_id?: number | null
+          predicted_at?: string
+          provider?: Database["public"]["Enums"]["prediction_provider"]
+          updated_at?: string
+          version?: number
+          yield_lower?: number
+          yield_per_hectare?: number
+          yield_upper?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "yield_predictions_crop_cycle_id_fkey"
+            columns: ["crop_cycle_id"]
+            isOneToOne: false
+            referencedRelation: "crop_cycles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "yield_predictions_parcel_id_fkey"
+            columns: ["parcel_id"]
+            isOneToOne: false
+            referencedRelation: "parcels"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -23,7 +1789,28 @@ export type Database = {
       [_ in never]: never
     }
     Enums: {
-      [_ in never]: never
+      alert_severity: "Low" | "Medium" | "High" | "Extreme"
+      checklist_scope: "parcel" | "asset"
+      crop_impact: "Light" | "Moderate" | "Severe"
+      crop_season: "careme" | "hivernage"
+      crop_status: "planned" | "growing" | "harvested"
+      culture_type: "vegetables" | "fruits" | "tubers" | "cash"
+      damage_category: "crop" | "equipment" | "stock" | "infrastructure"
+      harvest_quality: "Excellent" | "Good" | "Average" | "Poor"
+      irrigation_line_kind: "main" | "lateral" | "drip" | "canal"
+      parcel_status: "active" | "inactive" | "planned"
+      prediction_provider: "local" | "heuristic" | "gateway"
+      rotation_rule_kind: "consecutive_family" | "return_interval" | "forbidden_sequence"
+      rotation_rule_severity: "warning" | "error"
+      rule_comparison: "above" | "below"
+      stock_movement_type: "receipt" | "issue" | "adjustment" | "transfer"
+      task_priority: "high" | "medium" | "low"
+      transaction_type: "income" | "expense"
+      valuation_method: "fifo" | "weighted_average"
+      weather_aggregation: "sum" | "mean" | "max" | "min"
+      weather_alert_status: "Active" | "Completed" | "Scheduled" | "Expired"
+      weather_alert_type: "Heavy Rain" | "Tropical Storm" | "Drought" | "Excessive Heat" | "Flood"
+      weather_metric: "rain" | "t_max" | "t_min" | "t_mean" | "humidity" | "wind_max"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -150,6 +1937,29 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      alert_severity: ["Low", "Medium", "High", "Extreme"],
+      checklist_scope: ["parcel", "asset"],
+      crop_impact: ["Light", "Moderate", "Severe"],
+      crop_season: ["careme", "hivernage"],
+      crop_status: ["planned", "growing", "harvested"],
+      culture_type: ["vegetables", "fruits", "tubers", "cash"],
+      damage_category: ["crop", "equipment", "stock", "infrastructure"],
+      harvest_quality: ["Excellent", "Good", "Average", "Poor"],
+      irrigation_line_kind: ["main", "lateral", "drip", "canal"],
+      parcel_status: ["active", "inactive", "planned"],
+      prediction_provider: ["local", "heuristic", "gateway"],
+      rotation_rule_kind: ["consecutive_family", "return_interval", "forbidden_sequence"],
+      rotation_rule_severity: ["warning", "error"],
+      rule_comparison: ["above", "below"],
+      stock_movement_type: ["receipt", "issue", "adjustment", "transfer"],
+      task_priority: ["high", "medium", "low"],
+      transaction_type: ["income", "expense"],
+      valuation_method: ["fifo", "weighted_average"],
+      weather_aggregation: ["sum", "mean", "max", "min"],
+      weather_alert_status: ["Active", "Completed", "Scheduled", "Expired"],
+      weather_alert_type: ["Heavy Rain", "Tropical Storm", "Drought", "Excessive Heat", "Flood"],
+      weather_metric: ["rain", "t_max", "t_min", "t_mean", "humidity", "wind_max"],
+    },
   },
 } as const
@@ -5,8 +5,11 @@ import Dashboard from '../components/Dashboard';
 import TabContainer, { TabItem } from '../components/layout/TabContainer';
 import GuadeloupeHarvestTracking from '../components/GuadeloupeHarvestTracking';
 import GuadeloupeWeatherAlerts from '../components/GuadeloupeWeatherAlerts';
+import GuadeloupeRainfallTracking from '../components/GuadeloupeRainfallTracking';
 import TaskList from '../components/cultures/TaskList';
 import YieldPrediction from '../components/YieldPrediction';
+import DiseaseRiskPanel from '../components/disease/DiseaseRiskPanel';
+import IrrigationSchedulePanel from '../components/irrigation/IrrigationSchedulePanel';
 import { Button } from '@/components/ui/button';
 import { PlusCircle, Download, Filter, RefreshCw, Upload, Printer } from 'lucide-react';
 import { StatisticsProvider } from '../contexts/StatisticsContext';
@@ -232,6 +235,11 @@ const Index = () => {
       label: 'Weather Alerts',
       content: <GuadeloupeWeatherAlerts />
     },
+    {
+      value: 'rainfall',
+      label: 'Rainfall & Stations',
+      content: <GuadeloupeRainfallTracking />
+    },
     {
       value: 'tasks',
       label: 'Tasks',
@@ -239,8 +247,18 @@ const Index = () => {
     },
     {
       value: 'prediction',
-      label: 'AI Yield Prediction',
+      label: 'Yield Prediction',
       content: <YieldPrediction />
+    },
+    {
+      value: 'disease',
+      label: 'Disease Risk',
+      content: <DiseaseRiskPanel />
+    },
+    {
+      value: 'irrigation',
+      label: 'Irrigation',
+      content: <IrrigationSchedulePanel />
     }
   ];
 
@@ -252,7 +270,7 @@ const Index = () => {
             <div>
               <h1 className="text-3xl font-bold text-gray-800">Agri Dom Dashboard</h1>
               <p className="text-gray-500">
-                Welcome, {userName} | Last sync: {lastSync.toLocaleTimeString()}
+                Welcome, {userName} | Last sync: {lastSync ? lastSync.toLocaleTimeString() : 'never'}
               </p>
             </div>
             {getTabActions()}
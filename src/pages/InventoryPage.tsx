@@ -6,6 +6,7 @@ import Inventory from '../components/Inventory';
 import GuadeloupeSpecificCrops from '../components/GuadeloupeSpecificCrops';
 import GuadeloupeHarvestTracking from '../components/GuadeloupeHarvestTracking';
 import GuadeloupeWeatherAlerts from '../components/GuadeloupeWeatherAlerts';
+import TreatmentRegister from '../components/phytosanitary/TreatmentRegister';
 import { Button } from '../components/ui/button';
 import { Download, Plus, Upload, FileUp, FileDown, BarChart2, Calendar, Package } from 'lucide-react';
 import { DatePickerWithRange } from '../components/ui/date-range-picker';
@@ -208,6 +209,11 @@ const InventoryPage = () => {
       label: 'Inventory',
       content: <Inventory dateRange={dateRange} searchTerm={searchTerm} />
     },
+    {
+      value: 'treatments',
+      label: 'Phyto register',
+      content: <TreatmentRegister />
+    },
     {
       value: 'crops',
       label: 'Crops',
@@ -225,6 +231,7 @@ const InventoryPage = () => {
     
     const tabLabels = {
       inventory: 'Inventory',
+      treatments: 'Phytosanitary register',
       crops: 'Crops',
       weather: 'Weather Alerts'
     };
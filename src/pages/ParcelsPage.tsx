@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { DateRange } from 'react-day-picker';
 import { addDays, subDays } from 'date-fns';
 import PageLayout from '../components/layout/PageLayout';
@@ -10,10 +10,27 @@ import ParcelFilters from '../components/parcels/ParcelFilters';
 import ParcelActionButtons from '../components/parcels/ParcelActionButtons';
 import ParcelMapDialog from '../components/parcels/ParcelMapDialog';
 import ParcelImportDialog from '../components/parcels/ParcelImportDialog';
+import ParcelLayersManager from '../components/parcels/ParcelLayersManager';
+import CropCodeMappingDialog from '../components/parcels/CropCodeMappingDialog';
+import RotationPlanner from '../components/parcels/RotationPlanner';
 import GuadeloupeParcelManagement from '../components/GuadeloupeParcelManagement';
 import { useCRM } from '../contexts/CRMContext';
 import { FileSpreadsheet, FileBarChart2 } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { toast } from 'sonner';
+import { useDataOperations } from '../hooks/use-data-operations';
+import { usePacSettings } from '../hooks/use-pac-settings';
+import { getRepository } from '../services/repository';
+import { parcelTable } from '../services/farm-tables';
+import { downloadFile, exportToCSV } from '../utils/crm-data-operations';
+import {
+  exportFileName,
+  ParcelExportFormat,
+  parcelsToGeoJSON,
+  parcelsToKml,
+  parcelsToRows,
+  parcelsToTelepac
+} from '../utils/parcel-export';
 
 const ParcelsPage = () => {
   const { 
@@ -33,10 +50,12 @@ const ParcelsPage = () => {
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [statsDialogOpen, setStatsDialogOpen] = useState(false);
   const [layersDialogOpen, setLayersDialogOpen] = useState(false);
+  const [cropCodesDialogOpen, setCropCodesDialogOpen] = useState(false);
   const [weatherAlertsOpen, setWeatherAlertsOpen] = useState(false);
   const [showGuadeloupeView, setShowGuadeloupeView] = useState(true);
-  const [lastSyncDate, setLastSyncDate] = useState<Date>(new Date());
-  const { syncDataAcrossCRM } = useCRM();
+  const { lastSync } = useCRM();
+  const { data: parcels } = useDataOperations({ repository: getRepository(parcelTable), notifications: false });
+  const { settings: pacSettings } = usePacSettings();
   const [areaRange, setAreaRange] = useState<[number, number]>([0, 50]);
   const [dateRange, setDateRange] = useState<DateRange | undefined>({
     from: subDays(new Date(), 30),
@@ -48,27 +67,49 @@ const ParcelsPage = () => {
     { id: 2, parcel: 'Parcel B05', type: 'Drought', severity: 'Medium' }
   ]);
 
-  // Simulate data synchronization with other modules
-  useEffect(() => {
-    const syncWithOtherModules = () => {
-      console.log("Synchronizing data with crops and statistics modules");
-      
-      // Simulate synchronization delay
-      const timer = setTimeout(() => {
-        setLastSyncDate(new Date());
-        syncDataAcrossCRM();
-        console.log("Parcel data is now synchronized with all modules");
-      }, 1500);
-      
-      return () => clearTimeout(timer);
-    };
-    
-    syncWithOtherModules();
-  }, [syncDataAcrossCRM]);
+  const handleExportData = (format: ParcelExportFormat) => {
+    if (parcels.length === 0) {
+      toast.error("Aucune parcelle à exporter");
+      return;
+    }
+    const fileName = exportFileName(format);
 
-  const handleExportData = () => {
-    console.log("Export of all parcel data has started");
-    console.log("Exported data is now available in the Statistics module");
+    switch (format) {
+      case 'csv':
+        exportToCSV(parcelsToRows(parcels, pacSettings), 'parcelles');
+        return;
+      case 'geojson':
+        downloadFile(JSON.stringify(parcelsToGeoJSON(parcels, pacSettings), null, 2), fileName, 'application/geo+json');
+        break;
+      case 'kml':
+        downloadFile(parcelsToKml(parcels, pacSettings), fileName, 'application/vnd.google-earth.kml+xml');
+        break;
+      case 'telepac': {
+        const result = parcelsToTelepac(parcels, pacSettings);
+        if (result.exported === 0) {
+          toast.error("Aucune parcelle dessinée", {
+            description: "Le format Telepac exige le contour des parcelles"
+          });
+          return;
+        }
+        downloadFile(result.archive, fileName, 'application/zip');
+        const warnings = [
+          result.skipped.length > 0 && `${result.skipped.length} parcelle(s) sans contour ignorée(s)`,
+          result.missingCodes.length > 0 && `sans code culture : ${result.missingCodes.join(', ')}`,
+          !pacSettings.pacage && 'numéro PACAGE non renseigné'
+        ].filter(Boolean);
+        if (warnings.length > 0) {
+          toast.warning(`${result.exported} parcelle(s) exportée(s) pour Telepac`, {
+            description: warnings.join(' · '),
+            action: { label: 'Codes cultures', onClick: () => setCropCodesDialogOpen(true) }
+          });
+        } else {
+          toast.success(`${result.exported} parcelle(s) exportée(s) pour Telepac`);
+        }
+        return;
+      }
+    }
+    toast.success(`${parcels.length} parcelle(s) exportée(s)`, { description: fileName });
   };
 
   const handleImportData = () => {
@@ -135,7 +176,7 @@ const ParcelsPage = () => {
               onDescriptionChange={handleDescriptionChange}
             />
             <p className="text-xs text-muted-foreground mt-1">
-              Last synchronization with other modules: {lastSyncDate.toLocaleString()}
+              Last synchronization with other modules: {lastSync ? lastSync.toLocaleString() : 'never'}
             </p>
           </div>
           
@@ -156,6 +197,7 @@ const ParcelsPage = () => {
             
             <ParcelActionButtons 
               onExportData={handleExportData}
+              onConfigureCropCodes={() => setCropCodesDialogOpen(true)}
               onImportData={handleImportData}
               onOpenMap={() => setMapPreviewOpen(true)}
               onAddParcel={handleAddParcel}
@@ -211,12 +253,27 @@ const ParcelsPage = () => {
         ) : (
           <ParcelManagement />
         )}
+
+        <div className="mt-6">
+          <RotationPlanner />
+        </div>
         
         <ParcelMapDialog 
           isOpen={mapPreviewOpen} 
           onOpenChange={setMapPreviewOpen} 
         />
         
+        <ParcelLayersManager
+          isOpen={layersDialogOpen}
+          onOpenChange={setLayersDialogOpen}
+        />
+        
+        <CropCodeMappingDialog
+          isOpen={cropCodesDialogOpen}
+          onOpenChange={setCropCodesDialogOpen}
+          parcels={parcels}
+        />
+        
         <ParcelImportDialog 
           isOpen={importDialogOpen} 
           onOpenChange={setImportDialogOpen}
@@ -282,7 +282,7 @@ const SettingsPage = () => {
               <div className="space-y-0.5">
                 <Label htmlFor="offline-mode">Offline Mode</Label>
                 <p className="text-sm text-muted-foreground">
-                  Allow working offline with local storage
+                  Keep changes on this device and send them once offline mode is turned off
                 </p>
               </div>
               <Switch
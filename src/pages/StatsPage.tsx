@@ -24,8 +24,7 @@ const StatsPage = () => {
   const [pageTitle, setPageTitle] = useState('Statistics and Analysis');
   const [pageDescription, setPageDescription] = useState('Visualize and analyze your Guadeloupe farm data');
   const [activeView, setActiveView] = useState<'performance' | 'harvest' | 'detailed'>('performance');
-  const [lastSyncDate, setLastSyncDate] = useState<Date>(new Date());
-  const [isSyncing, setIsSyncing] = useState<boolean>(false);
+  const { lastSync, isRefreshing: isSyncing, syncDataAcrossCRM } = useCRM();
   const [connectedModules, setConnectedModules] = useState<string[]>(['parcelles', 'cultures', 'finances']);
   
   const [performanceData, setPerformanceData] = useState<PerformanceData[]>([
@@ -44,16 +43,9 @@ const StatsPage = () => {
     return () => clearTimeout(initialSync);
   }, []);
   
-  const syncData = () => {
-    setIsSyncing(true);
+  const syncData = async () => {
     console.log('Retrieving latest data from all connected modules...');
-    
-    setTimeout(() => {
-      setIsSyncing(false);
-      setLastSyncDate(new Date());
-      console.log('All statistics are up to date with the latest module data');
-      console.log("Performance indicators have been recalculated with the latest data");
-    }, 2000);
+    await syncDataAcrossCRM();
   };
   
   const columns: Column[] = [
@@ -178,7 +170,7 @@ const StatsPage = () => {
                 </p>
                 <div className="flex items-center mt-1 text-xs text-muted-foreground">
                   <span className="mr-2">Connected modules: {connectedModules.join(', ')}</span>
-                  <span>Last sync: {lastSyncDate.toLocaleString()}</span>
+                  <span>Last sync: {lastSync ? lastSync.toLocaleString() : 'never'}</span>
                 </div>
               </div>
               
@@ -0,0 +1,86 @@
+import React from 'react';
+import PageLayout from '../components/layout/PageLayout';
+import PageHeader from '../components/layout/PageHeader';
+import TabContainer, { TabItem } from '../components/layout/TabContainer';
+import WorkersPanel from '../components/workforce/WorkersPanel';
+import TimesheetPanel from '../components/workforce/TimesheetPanel';
+import usePageMetadata from '../hooks/use-page-metadata';
+import { useWorkforce } from '@/hooks/use-workforce';
+
+const WorkforcePage = () => {
+  const {
+    title,
+    description,
+    handleTitleChange,
+    handleDescriptionChange
+  } = usePageMetadata({
+    defaultTitle: 'Workforce',
+    defaultDescription: 'Manage your workers and teams, assign tasks and track the hours worked'
+  });
+  const {
+    workers,
+    teams,
+    entries,
+    tasks,
+    parcels,
+    saveWorker,
+    removeWorker,
+    addTeam,
+    deleteTeam,
+    saveEntry,
+    removeEntry,
+    clockIn,
+    clockOut
+  } = useWorkforce();
+
+  const tabs: TabItem[] = [
+    {
+      value: 'workers',
+      label: 'Workers & teams',
+      content: (
+        <WorkersPanel
+          workers={workers}
+          teams={teams}
+          entries={entries}
+          tasks={tasks}
+          parcels={parcels}
+          onSaveWorker={saveWorker}
+          onDeleteWorker={removeWorker}
+          onAddTeam={addTeam}
+          onDeleteTeam={deleteTeam}
+          onClockIn={clockIn}
+          onClockOut={clockOut}
+        />
+      )
+    },
+    {
+      value: 'timesheets',
+      label: 'Timesheets',
+      content: (
+        <TimesheetPanel
+          workers={workers}
+          entries={entries}
+          tasks={tasks}
+          parcels={parcels}
+          onSaveEntry={saveEntry}
+          onDeleteEntry={removeEntry}
+        />
+      )
+    }
+  ];
+
+  return (
+    <PageLayout>
+      <PageHeader
+        title={title}
+        description={description}
+        onTitleChange={handleTitleChange}
+        onDescriptionChange={handleDescriptionChange}
+      />
+
+      <TabContainer tabs={tabs} defaultValue="workers" />
+    </PageLayout>
+  );
+};
+
+export default WorkforcePage;
@@ -0,0 +1,1081 @@
+// Generated by scripts/train-crop-recommender.ts from backend_agridom/Crop_recommendation.csv. Do not edit.
+// Regenerate with: npm run train:crop-recommender
+import type { CropRecommendationModel } from '@/utils/crop-recommendation';
+
+export const cropRecommendationModel: CropRecommendationModel = {
+  "version": 1,
+  "source": "backend_agridom/Crop_recommendation.csv (N, P, K, temperature, humidity, pH, rainfall per crop)",
+  "dataChecksum": "a80577b2",
+  "metrics": {
+    "samples": 2200,
+    "top1": 0.99045,
+    "top3": 1
+  },
+  "scales": {
+    "nitrogen": 36.909,
+    "phosphorus": 32.978,
+    "potassium": 50.636,
+    "ph": 0.77376,
+    "temperature": 5.0626,
+    "humidity": 22.259,
+    "rainfall": 54.946
+  },
+  "crops": [
+    {
+      "label": "apple",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 20.8,
+          "std": 11.804,
+          "low": 2,
+          "high": 35
+        },
+        "phosphorus": {
+          "mean": 134.22,
+          "std": 8.0989,
+          "low": 122,
+          "high": 144
+        },
+        "potassium": {
+          "mean": 199.89,
+          "std": 3.3042,
+          "low": 196,
+          "high": 205
+        },
+        "ph": {
+          "mean": 5.9297,
+          "std": 0.26758,
+          "low": 5.5956,
+          "high": 6.2858
+        },
+        "temperature": {
+          "mean": 22.631,
+          "std": 0.82326,
+          "low": 21.256,
+          "high": 23.751
+        },
+        "humidity": {
+          "mean": 92.333,
+          "std": 1.4512,
+          "low": 90.445,
+          "high": 94.509
+        },
+        "rainfall": {
+          "mean": 112.65,
+          "std": 7.0674,
+          "low": 103.03,
+          "high": 122.2
+        }
+      }
+    },
+    {
+      "label": "banana",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 100.23,
+          "std": 11.052,
+          "low": 85,
+          "high": 117
+        },
+        "phosphorus": {
+          "mean": 82.01,
+          "std": 7.6518,
+          "low": 72,
+          "high": 92.1
+        },
+        "potassium": {
+          "mean": 50.05,
+          "std": 3.3656,
+          "low": 45,
+          "high": 55
+        },
+        "ph": {
+          "mean": 5.9839,
+          "std": 0.26929,
+          "low": 5.6305,
+          "high": 6.3275
+        },
+        "temperature": {
+          "mean": 27.377,
+          "std": 1.4212,
+          "low": 25.359,
+          "high": 29.223
+        },
+        "humidity": {
+          "mean": 80.358,
+          "std": 2.7914,
+          "low": 76.525,
+          "high": 84.18
+        },
+        "rainfall": {
+          "mean": 104.63,
+          "std": 9.351,
+          "low": 91.458,
+          "high": 117.61
+        }
+      }
+    },
+    {
+      "label": "blackgram",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 40.02,
+          "std": 12.601,
+          "low": 21.9,
+          "high": 57
+        },
+        "phosphorus": {
+          "mean": 67.47,
+          "std": 7.1154,
+          "low": 58,
+          "high": 78
+        },
+        "potassium": {
+          "mean": 19.24,
+          "std": 3.1721,
+          "low": 15,
+          "high": 24
+        },
+        "ph": {
+          "mean": 7.134,
+          "std": 0.37067,
+          "low": 6.5964,
+          "high": 7.582
+        },
+        "temperature": {
+          "mean": 29.973,
+          "std": 2.6729,
+          "low": 26.423,
+          "high": 33.864
+        },
+        "humidity": {
+          "mean": 65.118,
+          "std": 2.7843,
+          "low": 61.29,
+          "high": 68.781
+        },
+        "rainfall": {
+          "mean": 67.884,
+          "std": 4.1632,
+          "low": 62.3,
+          "high": 73.595
+        }
+      }
+    },
+    {
+      "label": "chickpea",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 40.09,
+          "std": 12.09,
+          "low": 24,
+          "high": 57.1
+        },
+        "phosphorus": {
+          "mean": 67.79,
+          "std": 7.461,
+          "low": 57,
+          "high": 78
+        },
+        "potassium": {
+          "mean": 79.92,
+          "std": 3.2456,
+          "low": 76,
+          "high": 85
+        },
+        "ph": {
+          "mean": 7.337,
+          "std": 0.79711,
+          "low": 6.3053,
+          "high": 8.4931
+        },
+        "temperature": {
+          "mean": 18.873,
+          "std": 1.164,
+          "low": 17.298,
+          "high": 20.63
+        },
+        "humidity": {
+          "mean": 16.86,
+          "std": 1.7034,
+          "low": 14.71,
+          "high": 19.345
+        },
+        "rainfall": {
+          "mean": 80.059,
+          "std": 7.9045,
+          "low": 69.151,
+          "high": 90.915
+        }
+      }
+    },
+    {
+      "label": "coconut",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 21.98,
+          "std": 11.703,
+          "low": 3,
+          "high": 37
+        },
+        "phosphorus": {
+          "mean": 16.93,
+          "std": 8.3154,
+          "low": 6,
+          "high": 29
+        },
+        "potassium": {
+          "mean": 30.59,
+          "std": 2.9836,
+          "low": 26,
+          "high": 35
+        },
+        "ph": {
+          "mean": 5.9766,
+          "std": 0.28619,
+          "low": 5.5678,
+          "high": 6.3754
+        },
+        "temperature": {
+          "mean": 27.41,
+          "std": 1.3788,
+          "low": 25.549,
+          "high": 29.209
+        },
+        "humidity": {
+          "mean": 94.844,
+          "std": 2.6729,
+          "low": 91.399,
+          "high": 98.639
+        },
+        "rainfall": {
+          "mean": 175.69,
+          "std": 29.325,
+          "low": 140.73,
+          "high": 218.01
+        }
+      }
+    },
+    {
+      "label": "coffee",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 101.2,
+          "std": 12.283,
+          "low": 83.9,
+          "high": 117
+        },
+        "phosphorus": {
+          "mean": 28.74,
+          "std": 7.2396,
+          "low": 18,
+          "high": 39
+        },
+        "potassium": {
+          "mean": 29.94,
+          "std": 3.2305,
+          "low": 26,
+          "high": 35
+        },
+        "ph": {
+          "mean": 6.7903,
+          "std": 0.41504,
+          "low": 6.135,
+          "high": 7.2897
+        },
+        "temperature": {
+          "mean": 25.54,
+          "std": 1.4951,
+          "low": 23.407,
+          "high": 27.538
+        },
+        "humidity": {
+          "mean": 58.87,
+          "std": 5.8093,
+          "low": 52.109,
+          "high": 67.437
+        },
+        "rainfall": {
+          "mean": 158.07,
+          "std": 25.566,
+          "low": 122.82,
+          "high": 192.73
+        }
+      }
+    },
+    {
+      "label": "cotton",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 117.77,
+          "std": 11.571,
+          "low": 102,
+          "high": 133
+        },
+        "phosphorus": {
+          "mean": 46.24,
+          "std": 7.3118,
+          "low": 37,
+          "high": 57.1
+        },
+        "potassium": {
+          "mean": 19.56,
+          "std": 3.1538,
+          "low": 15,
+          "high": 24
+        },
+        "ph": {
+          "mean": 6.9127,
+          "std": 0.62403,
+          "low": 6.1266,
+          "high": 7.8126
+        },
+        "temperature": {
+          "mean": 23.989,
+          "std": 1.13,
+          "low": 22.449,
+          "high": 25.531
+        },
+        "humidity": {
+          "mean": 79.843,
+          "std": 3.0357,
+          "low": 75.872,
+          "high": 84.149
+        },
+        "rainfall": {
+          "mean": 80.398,
+          "std": 11.176,
+          "low": 64.984,
+          "high": 93.661
+        }
+      }
+    },
+    {
+      "label": "grapes",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 23.18,
+          "std": 12.404,
+          "low": 6,
+          "high": 39
+        },
+        "phosphorus": {
+          "mean": 132.53,
+          "std": 7.5808,
+          "low": 121.9,
+          "high": 142
+        },
+        "potassium": {
+          "mean": 200.11,
+          "std": 3.2493,
+          "low": 195,
+          "high": 204
+        },
+        "ph": {
+          "mean": 6.0259,
+          "std": 0.29677,
+          "low": 5.6196,
+          "high": 6.4181
+        },
+        "temperature": {
+          "mean": 23.85,
+          "std": 9.6898,
+          "low": 11.173,
+          "high": 39.043
+        },
+        "humidity": {
+          "mean": 81.875,
+          "std": 1.1712,
+          "low": 80.277,
+          "high": 83.483
+        },
+        "rainfall": {
+          "mean": 69.612,
+          "std": 2.937,
+          "low": 65.897,
+          "high": 74.035
+        }
+      }
+    },
+    {
+      "label": "jute",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 78.4,
+          "std": 10.913,
+          "low": 63,
+          "high": 91
+        },
+        "phosphorus": {
+          "mean": 46.86,
+          "std": 7.1596,
+          "low": 38,
+          "high": 57
+        },
+        "potassium": {
+          "mean": 39.99,
+          "std": 3.297,
+          "low": 35,
+          "high": 44
+        },
+        "ph": {
+          "mean": 6.7328,
+          "std": 0.44411,
+          "low": 6.1281,
+          "high": 7.3198
+        },
+        "temperature": {
+          "mean": 24.958,
+          "std": 1.1792,
+          "low": 23.278,
+          "high": 26.568
+        },
+        "humidity": {
+          "mean": 79.64,
+          "std": 5.4802,
+          "low": 72.225,
+          "high": 87.893
+        },
+        "rainfall": {
+          "mean": 174.79,
+          "std": 15.003,
+          "low": 153.73,
+          "high": 194.07
+        }
+      }
+    },
+    {
+      "label": "kidneybeans",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 20.75,
+          "std": 10.78,
+          "low": 5.9,
+          "high": 35.1
+        },
+        "phosphorus": {
+          "mean": 67.54,
+          "std": 7.5332,
+          "low": 57.9,
+          "high": 79
+        },
+        "potassium": {
+          "mean": 20.05,
+          "std": 3.0867,
+          "low": 15.9,
+          "high": 24
+        },
+        "ph": {
+          "mean": 5.7494,
+          "std": 0.14449,
+          "low": 5.5648,
+          "high": 5.9501
+        },
+        "temperature": {
+          "mean": 20.115,
+          "std": 2.5865,
+          "low": 16.509,
+          "high": 23.791
+        },
+        "humidity": {
+          "mean": 21.605,
+          "std": 2.1565,
+          "low": 18.719,
+          "high": 24.682
+        },
+        "rainfall": {
+          "mean": 105.92,
+          "std": 25.98,
+          "low": 67.643,
+          "high": 139.81
+        }
+      }
+    },
+    {
+      "label": "lentil",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 18.77,
+          "std": 12.136,
+          "low": 3,
+          "high": 36.1
+        },
+        "phosphorus": {
+          "mean": 68.36,
+          "std": 7.2987,
+          "low": 58.9,
+          "high": 78.1
+        },
+        "potassium": {
+          "mean": 19.41,
+          "std": 2.9533,
+          "low": 15,
+          "high": 23.1
+        },
+        "ph": {
+          "mean": 6.9279,
+          "std": 0.54651,
+          "low": 6.1668,
+          "high": 7.6718
+        },
+        "temperature": {
+          "mean": 24.509,
+          "std": 3.3043,
+          "low": 19.589,
+          "high": 28.682
+        },
+        "humidity": {
+          "mean": 64.805,
+          "std": 2.9207,
+          "low": 60.845,
+          "high": 68.995
+        },
+        "rainfall": {
+          "mean": 45.68,
+          "std": 5.6047,
+          "low": 37.071,
+          "high": 53.052
+        }
+      }
+    },
+    {
+      "label": "maize",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 77.76,
+          "std": 11.89,
+          "low": 61.9,
+          "high": 95.1
+        },
+        "phosphorus": {
+          "mean": 48.44,
+          "std": 7.9703,
+          "low": 37,
+          "high": 59
+        },
+        "potassium": {
+          "mean": 19.79,
+          "std": 2.9268,
+          "low": 16,
+          "high": 24
+        },
+        "ph": {
+          "mean": 6.2452,
+          "std": 0.41061,
+          "low": 5.7161,
+          "high": 6.8019
+        },
+        "temperature": {
+          "mean": 22.389,
+          "std": 2.6659,
+          "low": 18.641,
+          "high": 25.704
+        },
+        "humidity": {
+          "mean": 65.092,
+          "std": 5.4214,
+          "low": 57.796,
+          "high": 72.806
+        },
+        "rainfall": {
+          "mean": 84.767,
+          "std": 15.469,
+          "low": 64.741,
+          "high": 107.24
+        }
+      }
+    },
+    {
+      "label": "mango",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 20.07,
+          "std": 12.267,
+          "low": 2.9,
+          "high": 37
+        },
+        "phosphorus": {
+          "mean": 27.18,
+          "std": 7.6255,
+          "low": 17,
+          "high": 37
+        },
+        "potassium": {
+          "mean": 29.92,
+          "std": 3.0812,
+          "low": 26,
+          "high": 34
+        },
+        "ph": {
+          "mean": 5.7664,
+          "std": 0.70013,
+          "low": 4.7569,
+          "high": 6.7798
+        },
+        "temperature": {
+          "mean": 31.209,
+          "std": 2.6406,
+          "low": 27.694,
+          "high": 35.379
+        },
+        "humidity": {
+          "mean": 50.157,
+          "std": 2.7425,
+          "low": 46.165,
+          "high": 53.754
+        },
+        "rainfall": {
+          "mean": 94.705,
+          "std": 3.3218,
+          "low": 90.295,
+          "high": 98.87
+        }
+      }
+    },
+    {
+      "label": "mothbeans",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 21.44,
+          "std": 11.287,
+          "low": 4.9,
+          "high": 36
+        },
+        "phosphorus": {
+          "mean": 48.01,
+          "std": 7.5093,
+          "low": 37,
+          "high": 58
+        },
+        "potassium": {
+          "mean": 20.23,
+          "std": 3.0327,
+          "low": 16,
+          "high": 24
+        },
+        "ph": {
+          "mean": 6.8312,
+          "std": 1.8528,
+          "low": 4.1567,
+          "high": 9.0761
+        },
+        "temperature": {
+          "mean": 28.195,
+          "std": 2.1986,
+          "low": 25.31,
+          "high": 31.03
+        },
+        "humidity": {
+          "mean": 53.16,
+          "std": 6.9595,
+          "low": 43.647,
+          "high": 61.591
+        },
+        "rainfall": {
+          "mean": 51.198,
+          "std": 13.682,
+          "low": 33.806,
+          "high": 70.504
+        }
+      }
+    },
+    {
+      "label": "mungbean",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 20.99,
+          "std": 11.453,
+          "low": 4,
+          "high": 35.1
+        },
+        "phosphorus": {
+          "mean": 47.28,
+          "std": 7.8308,
+          "low": 37,
+          "high": 59
+        },
+        "potassium": {
+          "mean": 19.87,
+          "std": 3.1326,
+          "low": 15,
+          "high": 24
+        },
+        "ph": {
+          "mean": 6.724,
+          "std": 0.28514,
+          "low": 6.3609,
+          "high": 7.1287
+        },
+        "temperature": {
+          "mean": 28.526,
+          "std": 0.83733,
+          "low": 27.412,
+          "high": 29.733
+        },
+        "humidity": {
+          "mean": 85.5,
+          "std": 2.8371,
+          "low": 81.13,
+          "high": 89.116
+        },
+        "rainfall": {
+          "mean": 48.404,
+          "std": 7.0815,
+          "low": 38.085,
+          "high": 58.014
+        }
+      }
+    },
+    {
+      "label": "muskmelon",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 100.32,
+          "std": 12.115,
+          "low": 83,
+          "high": 117
+        },
+        "phosphorus": {
+          "mean": 17.72,
+          "std": 7.1513,
+          "low": 7,
+          "high": 26
+        },
+        "potassium": {
+          "mean": 50.08,
+          "std": 3.2021,
+          "low": 46,
+          "high": 54.1
+        },
+        "ph": {
+          "mean": 6.3588,
+          "std": 0.23036,
+          "low": 6.0845,
+          "high": 6.7043
+        },
+        "temperature": {
+          "mean": 28.663,
+          "std": 0.85698,
+          "low": 27.419,
+          "high": 29.79
+        },
+        "humidity": {
+          "mean": 92.343,
+          "std": 1.4976,
+          "low": 90.526,
+          "high": 94.552
+        },
+        "rainfall": {
+          "mean": 24.69,
+          "std": 2.7601,
+          "low": 21.016,
+          "high": 28.711
+        }
+      }
+    },
+    {
+      "label": "orange",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 19.58,
+          "std": 11.882,
+          "low": 4.9,
+          "high": 37
+        },
+        "phosphorus": {
+          "mean": 16.55,
+          "std": 7.6529,
+          "low": 7,
+          "high": 28.1
+        },
+        "potassium": {
+          "mean": 10.01,
+          "std": 3.0414,
+          "low": 6,
+          "high": 14
+        },
+        "ph": {
+          "mean": 7.017,
+          "std": 0.57343,
+          "low": 6.2485,
+          "high": 7.7978
+        },
+        "temperature": {
+          "mean": 22.766,
+          "std": 7.3057,
+          "low": 11.896,
+          "high": 32.327
+        },
+        "humidity": {
+          "mean": 92.17,
+          "std": 1.4232,
+          "low": 90.307,
+          "high": 94.361
+        },
+        "rainfall": {
+          "mean": 110.47,
+          "std": 5.6885,
+          "low": 102.12,
+          "high": 117.66
+        }
+      }
+    },
+    {
+      "label": "papaya",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 49.88,
+          "std": 12.158,
+          "low": 34,
+          "high": 68
+        },
+        "phosphorus": {
+          "mean": 59.05,
+          "std": 7.0219,
+          "low": 48,
+          "high": 68
+        },
+        "potassium": {
+          "mean": 50.04,
+          "std": 3.0819,
+          "low": 46,
+          "high": 54
+        },
+        "ph": {
+          "mean": 6.7414,
+          "std": 0.14661,
+          "low": 6.5511,
+          "high": 6.9652
+        },
+        "temperature": {
+          "mean": 33.724,
+          "std": 6.2316,
+          "low": 24.855,
+          "high": 42.409
+        },
+        "humidity": {
+          "mean": 92.403,
+          "std": 1.4133,
+          "low": 90.551,
+          "high": 94.446
+        },
+        "rainfall": {
+          "mean": 142.63,
+          "std": 64.074,
+          "low": 62.206,
+          "high": 234.53
+        }
+      }
+    },
+    {
+      "label": "pigeonpeas",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 20.73,
+          "std": 11.791,
+          "low": 5,
+          "high": 37
+        },
+        "phosphorus": {
+          "mean": 67.73,
+          "std": 7.2579,
+          "low": 57,
+          "high": 77
+        },
+        "potassium": {
+          "mean": 20.29,
+          "std": 2.8011,
+          "low": 16.9,
+          "high": 24
+        },
+        "ph": {
+          "mean": 5.7942,
+          "std": 0.82611,
+          "low": 4.7198,
+          "high": 7.0531
+        },
+        "temperature": {
+          "mean": 27.742,
+          "std": 5.687,
+          "low": 19.486,
+          "high": 35.13
+        },
+        "humidity": {
+          "mean": 48.062,
+          "std": 10.909,
+          "low": 34.679,
+          "high": 63.466
+        },
+        "rainfall": {
+          "mean": 149.46,
+          "std": 32.821,
+          "low": 100.54,
+          "high": 191.07
+        }
+      }
+    },
+    {
+      "label": "pomegranate",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 18.87,
+          "std": 12.554,
+          "low": 4,
+          "high": 38.1
+        },
+        "phosphorus": {
+          "mean": 18.75,
+          "std": 7.3503,
+          "low": 7.9,
+          "high": 27.1
+        },
+        "potassium": {
+          "mean": 40.21,
+          "std": 3.0176,
+          "low": 36,
+          "high": 44
+        },
+        "ph": {
+          "mean": 6.4292,
+          "std": 0.48904,
+          "low": 5.7651,
+          "high": 7.0604
+        },
+        "temperature": {
+          "mean": 21.838,
+          "std": 2.1953,
+          "low": 18.906,
+          "high": 24.638
+        },
+        "humidity": {
+          "mean": 90.126,
+          "std": 2.8115,
+          "low": 86.081,
+          "high": 94.264
+        },
+        "rainfall": {
+          "mean": 107.53,
+          "std": 2.8808,
+          "low": 103.57,
+          "high": 111.28
+        }
+      }
+    },
+    {
+      "label": "rice",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 79.89,
+          "std": 11.858,
+          "low": 62.9,
+          "high": 95
+        },
+        "phosphorus": {
+          "mean": 47.58,
+          "std": 7.8653,
+          "low": 36,
+          "high": 58
+        },
+        "potassium": {
+          "mean": 39.87,
+          "std": 2.9314,
+          "low": 36,
+          "high": 44
+        },
+        "ph": {
+          "mean": 6.4255,
+          "std": 0.76484,
+          "low": 5.3809,
+          "high": 7.4761
+        },
+        "temperature": {
+          "mean": 23.689,
+          "std": 2.0211,
+          "low": 20.874,
+          "high": 26.467
+        },
+        "humidity": {
+          "mean": 82.273,
+          "std": 1.4113,
+          "low": 80.346,
+          "high": 84.053
+        },
+        "rainfall": {
+          "mean": 236.18,
+          "std": 34.12,
+          "low": 191.6,
+          "high": 283.98
+        }
+      }
+    },
+    {
+      "label": "watermelon",
+      "samples": 100,
+      "stats": {
+        "nitrogen": {
+          "mean": 99.42,
+          "std": 12.502,
+          "low": 83,
+          "high": 118
+        },
+        "phosphorus": {
+          "mean": 17,
+          "std": 7.498,
+          "low": 7,
+          "high": 27
+        },
+        "potassium": {
+          "mean": 50.22,
+          "std": 3.2483,
+          "low": 45,
+          "high": 55
+        },
+        "ph": {
+          "mean": 6.4958,
+          "std": 0.28001,
+          "low": 6.1137,
+          "high": 6.8836
+        },
+        "temperature": {
+          "mean": 25.592,
+          "std": 0.84586,
+          "low": 24.409,
+          "high": 26.75
+        },
+        "humidity": {
+          "mean": 85.16,
+          "std": 2.9418,
+          "low": 80.986,
+          "high": 89.139
+        },
+        "rainfall": {
+          "mean": 50.786,
+          "std": 5.8376,
+          "low": 42.832,
+          "high": 57.991
+        }
+      }
+    }
+  ]
+};
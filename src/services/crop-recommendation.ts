@@ -0,0 +1,41 @@
+import type { ParcelData } from '@/types/farm';
+import { CropSuggestion, recommendCrops, SoilClimateInput } from '@/utils/crop-recommendation';
+import { cropRecommendationModel } from './crop-recommendation-model';
+
+export interface LocalClimate {
+  temperature?: number;
+  humidity?: number;
+  /** mm per year, the unit stored on parcels */
+  rainfall?: number;
+}
+
+/** Lowland averages used until a parcel has its own weather data */
+export const GUADELOUPE_CLIMATE: Required<Omit<LocalClimate, 'rainfall'>> = {
+  temperature: 26.5,
+  humidity: 80
+};
+
+export const recommendationMetrics = cropRecommendationModel.metrics;
+
+/**
+ * Model inputs for a parcel. The dataset records rainfall per month of the growing
+ * season, so the parcel's annual rainfall is spread over twelve months.
+ */
+export const parcelConditions = (
+  soil: Pick<ParcelData, 'nitrogen' | 'phosphorus' | 'potassium' | 'ph'>,
+  climate: LocalClimate
+): SoilClimateInput => ({
+  nitrogen: soil.nitrogen,
+  phosphorus: soil.phosphorus,
+  potassium: soil.potassium,
+  ph: soil.ph,
+  temperature: climate.temperature,
+  humidity: climate.humidity,
+  rainfall: climate.rainfall !== undefined ? climate.rainfall / 12 : undefined
+});
+
+/**
+ * Best suited crops for the given conditions, most suitable first
+ */
+export const suggestCrops = (input: SoilClimateInput, limit = 5): CropSuggestion[] =>
+  recommendCrops(cropRecommendationModel, input).slice(0, limit);
@@ -0,0 +1,88 @@
+import { getRepository } from './repository';
+import {
+  cropCycleTable,
+  damageAssessmentTable,
+  financialTransactionTable,
+  inventoryItemTable,
+  parcelTable,
+  preparednessItemTable,
+  taskTable,
+  weatherAlertTable
+} from './farm-tables';
+import type { CropTask, DamageAssessment, WeatherAlert } from '@/types/farm';
+import { checklistKey, damageTransaction, preparednessTasks } from '@/utils/cyclone-preparedness';
+
+/**
+ * Create the checklist tasks of a storm alert for its region's parcels and the stock
+ * items. Running it again only adds entries for new parcels, items or checklist lines.
+ */
+export const activatePreparedness = async (alert: WeatherAlert, today = new Date().toISOString().slice(0, 10)) => {
+  const taskRepository = getRepository(taskTable);
+  const [{ items }, { items: parcels }, { items: inventory }, { items: cropCycles }, { items: tasks }] = await Promise.all([
+    getRepository(preparednessItemTable).list(),
+    getRepository(parcelTable).list(),
+    getRepository(inventoryItemTable).list(),
+    getRepository(cropCycleTable).list(),
+    taskRepository.list()
+  ]);
+
+  const created = preparednessTasks(alert, items, parcels, inventory, cropCycles, tasks, today);
+  if (created.length > 0) await taskRepository.bulkCreate(created);
+  return created.length;
+};
+
+/**
+ * Remember on its alert that a checklist task is being deleted, so later runs of the
+ * alert do not create it again
+ */
+export const dismissChecklistTask = async (task: Pick<CropTask, 'weatherAlertId' | 'preparednessItemId' | 'parcelId' | 'inventoryItemId'>) => {
+  if (task.weatherAlertId === undefined || task.preparednessItemId === undefined) return;
+  const alerts = getRepository(weatherAlertTable);
+  const alert = await alerts.get(task.weatherAlertId);
+  const dismissed = alert?.dismissedChecklist ?? [];
+  const key = checklistKey(task);
+  if (alert && !dismissed.includes(key)) await alerts.update(alert.id, { dismissedChecklist: [...dismissed, key] });
+};
+
+// Parcel or stock item the damage was found on, for the expense label
+const damageTarget = async (assessment: Omit<DamageAssessment, 'id'>) => {
+  if (assessment.parcelId) return (await getRepository(parcelTable).get(assessment.parcelId))?.name;
+  if (assessment.inventoryItemId) return (await getRepository(inventoryItemTable).get(assessment.inventoryItemId))?.name;
+  return undefined;
+};
+
+/**
+ * Store a damage assessment and the expense booking its loss, keeping the two in step
+ * when an assessment is edited
+ */
+export const saveDamageAssessment = async (
+  draft: Omit<DamageAssessment, 'id' | 'transactionId'>,
+  existing?: DamageAssessment
+): Promise<DamageAssessment> => {
+  const transactions = getRepository(financialTransactionTable);
+  const assessments = getRepository(damageAssessmentTable);
+  const alert = draft.weatherAlertId ? await getRepository(weatherAlertTable).get(draft.weatherAlertId) : null;
+  const transaction = damageTransaction(draft, alert ?? undefined, await damageTarget(draft));
+
+  if (!existing) {
+    const booked = await transactions.create(transaction);
+    return assessments.create({ ...draft, transactionId: booked.id });
+  }
+
+  let transactionId = existing.transactionId;
+  if (transactionId && await transactions.get(transactionId)) {
+    await transactions.update(transactionId, transaction);
+  } else {
+    transactionId = (await transactions.create(transaction)).id;
+  }
+  return assessments.update(existing.id, { ...draft, transactionId });
+};
+
+/** Delete an assessment together with the expense it booked */
+export const deleteDamageAssessment = async (assessment: DamageAssessment) => {
+  if (assessment.transactionId) {
+    const transactions = getRepository(financialTransactionTable);
+    if (await transactions.get(assessment.transactionId)) await transactions.delete(assessment.transactionId);
+  }
+  await getRepository(damageAssessmentTable).delete(assessment.id);
+};
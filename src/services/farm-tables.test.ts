@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import type { FarmTableName, TableMapping } from './farm-tables';
+import {
+  budgetTable,
+  cropCycleTable,
+  financialTransactionTable,
+  inventoryItemTable,
+  inventoryTransactionTable,
+  parcelTable,
+  taskTable
+} from './farm-tables';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Columns Postgres fills in itself
+const SYSTEM_COLUMNS = ['id', 'version', 'created_at', 'updated_at'];
+
+// Columns a payload sets; a null left out of an insert is stored as null all the same
+const written = (row: object) =>
+  Object.fromEntries(Object.entries(row).filter(([key, value]) => !SYSTEM_COLUMNS.includes(key) && value != null));
+
+// A row as the database returns it, read into the app and saved back, keeps every column
+const roundTrip = <N extends FarmTableName, T>(mapping: TableMapping<N, T>, row: Tables<N>) => {
+  const item = mapping.fromRow(row);
+  expect(written(mapping.toRow(item))).toEqual(written(row));
+};
+
+const timestamps = { created_at: '2026-10-01T12:00:00+00:00', updated_at: '2026-10-02T08:30:00+00:00', version: 3 };
+
+describe('farm table mappings', () => {
+  it('keeps every column of a parcel', () => {
+    roundTrip(parcelTable, {
+      id: 1,
+      name: 'Parcelle Nord',
+      area: 2.5,
+      crop: 'Banane',
+      status: 'active',
+      last_activity: '2026-09-30',
+      soil_type: 'Ferralitique',
+      latitude: 16.25,
+      longitude: -61.58,
+      boundary: null,
+      irrigation: 'Goutte-à-goutte',
+      planting_date: '2026-01-15',
+      harvest_date: '2026-12-15',
+      owner: 'GAEC Sainte-Rose',
+      rainfall: 2200,
+      notes: 'Drain à curer',
+      ph: 5.8,
+      organic_matter: 3.1,
+      nitrogen: 120,
+      phosphorus: 45,
+      potassium: 210,
+      ...timestamps
+    });
+  });
+
+  it('keeps every column of a crop cycle', () => {
+    roundTrip(cropCycleTable, {
+      id: 4,
+      name: 'Banane 2026',
+      variety: 'Grande Naine',
+      parcel_id: 1,
+      parcel_name: 'Parcelle Nord',
+      area: 2.5,
+      planting_date: '2026-01-15',
+      harvest_date: '2026-12-15',
+      status: 'growing',
+      ...timestamps
+    });
+  });
+
+  it('keeps every column of a task', () => {
+    roundTrip(taskTable, {
+      id: 7,
+      title: 'Coupe du régime',
+      due_date: '2026-11-02',
+      priority: 'high',
+      completed: false,
+      harvest: true,
+      assignee: 'Marcel',
+      notes: 'Prévoir le camion',
+      parcel_id: 1,
+      crop_cycle_id: 4,
+      inventory_item_id: 2,
+      worker_id: 3,
+      recurrence_id: 5,
+      occurrence_date: '2026-10-31',
+      template_item_id: 6,
+      weather_alert_id: 8,
+      preparedness_item_id: 9,
+      ...timestamps
+    });
+  });
+
+  it('keeps every column of an inventory item', () => {
+    roundTrip(inventoryItemTable, {
+      id: 2,
+      name: 'Engrais NPK 15-15-15',
+      category: 'Fertilizers',
+      quantity: 40,
+      unit: 'sac',
+      min_quantity: 10,
+      price: 32.5,
+      location: 'Hangar',
+      last_updated: '2026-09-28',
+      valuation_method: 'fifo',
+      sku: 'NPK-151515',
+      supplier: 'Coop Agricole',
+      expiry_date: '2027-06-30',
+      amm_number: null,
+      max_dose: null,
+      pre_harvest_interval: null,
+      notes: 'Sur palette',
+      ...timestamps
+    });
+  });
+
+  it('keeps every column of a stock movement', () => {
+    roundTrip(inventoryTransactionTable, {
+      id: 11,
+      item_id: 2,
+      type: 'issue',
+      quantity: 4,
+      date: '2026-10-03',
+      location: 'Hangar',
+      to_location: null,
+      unit_cost: 32.5,
+      parcel_id: 1,
+      crop_cycle_id: 4,
+      task_id: 7,
+      treated_area: 2.5,
+      reversal_of: null,
+      user_name: 'Marcel',
+      notes: 'Fumure de fond',
+      created_at: timestamps.created_at,
+      version: 1
+    });
+  });
+
+  it('keeps every column of a financial transaction and a budget line', () => {
+    roundTrip(financialTransactionTable, {
+      id: 21,
+      type: 'expense',
+      amount: 130,
+      category: 'Fertilizers',
+      description: 'Engrais NPK',
+      date: '2026-10-03',
+      ...timestamps
+    });
+    roundTrip(budgetTable, {
+      id: 31,
+      category: 'Fertilizers',
+      planned: 1500,
+      actual: 130,
+      period: 'annual',
+      year: 2026,
+      color: '#4CAF50',
+      ...timestamps
+    });
+  });
+
+  it('writes null for optional fields cleared in an update', () => {
+    expect(parcelTable.toRow({ plantingDate: undefined, harvestDate: '' })).toMatchObject({
+      planting_date: null,
+      harvest_date: null
+    });
+    expect(cropCycleTable.toRow({ harvestDate: '' })).toMatchObject({ harvest_date: null });
+    expect(cropCycleTable.toRow({ harvestDate: undefined })).toMatchObject({ harvest_date: null });
+    expect(inventoryItemTable.toRow({ expiryDate: '' })).toMatchObject({ expiry_date: null });
+    expect(inventoryItemTable.toRow({ expiryDate: undefined })).toMatchObject({ expiry_date: null });
+  });
+
+  it('leaves out fields an update does not touch', () => {
+    expect(written(taskTable.toRow({ completed: true }))).toEqual({ completed: true });
+  });
+});
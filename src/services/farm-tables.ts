@@ -0,0 +1,989 @@
+import type { LineString, Polygon } from 'geojson';
+import type { Database, Json, Tables, TablesUpdate } from '@/integrations/supabase/types';
+import type {
+  BudgetItem,
+  CropData,
+  CropHistoryEntry,
+  CropTask,
+  Culture,
+  DamageAssessment,
+  FinancialTransaction,
+  HarvestRecord,
+  InventoryItem,
+  InventoryTransaction,
+  IrrigationEvent,
+  IrrigationLine,
+  ParcelData,
+  PhytosanitaryTreatment,
+  PreparednessItem,
+  RotationRule,
+  TaskRecurrence,
+  TaskTemplate,
+  TaskTemplateItem,
+  Team,
+  TimeEntry,
+  WeatherAlert,
+  WeatherAlertRule,
+  WeatherDay,
+  WeatherObservation,
+  WeatherStation,
+  Worker,
+  YieldPredictionInputs,
+  YieldPredictionRecord
+} from '@/types/farm';
+
+export type FarmTableName = keyof Database['public']['Tables'];
+
+/**
+ * Describes how a domain type is stored in a Supabase table.
+ * `toRow` receives partial items so the same mapper serves inserts and updates;
+ * keys left undefined are dropped when the payload is serialized.
+ */
+export interface TableMapping<N extends FarmTableName, T> {
+  table: N;
+  fromRow: (row: Tables<N>) => T;
+  toRow: (item: Partial<T>) => TablesUpdate<N>;
+  orderBy?: string;
+  ascending?: boolean;
+  /** Fields holding the id of a record in another table */
+  references?: Partial<Record<keyof T & string, FarmTableName>>;
+}
+
+const optional = <V>(value: V | null): V | undefined => value ?? undefined;
+
+// Keys present in an update are written even when emptied, so clearing a field sticks
+const clearable = <T, K extends keyof T>(item: Partial<T>, key: K) =>
+  key in item ? (item[key] === '' ? null : item[key] ?? null) : undefined;
+
+export const parcelTable: TableMapping<'parcels', ParcelData> = {
+  table: 'parcels',
+  orderBy: 'name',
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    area: row.area,
+    crop: row.crop,
+    status: row.status,
+    lastActivity: row.last_activity,
+    soilType: row.soil_type,
+    coordinates: { lat: row.latitude ?? 0, lng: row.longitude ?? 0 },
+    boundary: optional(row.boundary) as unknown as Polygon | undefined,
+    irrigation: optional(row.irrigation),
+    plantingDate: optional(row.planting_date),
+    harvestDate: optional(row.harvest_date),
+    owner: optional(row.owner),
+    rainfall: optional(row.rainfall),
+    notes: optional(row.notes),
+    ph: optional(row.ph),
+    organicMatter: optional(row.organic_matter),
+    nitrogen: optional(row.nitrogen),
+    phosphorus: optional(row.phosphorus),
+    potassium: optional(row.potassium)
+  }),
+  toRow: (parcel) => ({
+    name: parcel.name,
+    area: parcel.area,
+    crop: parcel.crop,
+    status: parcel.status,
+    last_activity: parcel.lastActivity,
+    soil_type: parcel.soilType,
+    latitude: parcel.coordinates?.lat,
+    longitude: parcel.coordinates?.lng,
+    boundary: 'boundary' in parcel ? (parcel.boundary ?? null) as unknown as Json : undefined,
+    irrigation: parcel.irrigation,
+    planting_date: clearable(parcel, 'plantingDate'),
+    harvest_date: clearable(parcel, 'harvestDate'),
+    owner: parcel.owner,
+    rainfall: parcel.rainfall,
+    notes: parcel.notes,
+    ph: clearable(parcel, 'ph'),
+    organic_matter: parcel.organicMatter,
+    nitrogen: clearable(parcel, 'nitrogen'),
+    phosphorus: clearable(parcel, 'phosphorus'),
+    potassium: clearable(parcel, 'potassium')
+  })
+};
+
+export const irrigationLineTable: TableMapping<'irrigation_lines', IrrigationLine> = {
+  table: 'irrigation_lines',
+  orderBy: 'name',
+  references: { parcelId: 'parcels' },
+  fromRow: (row) => ({
+    id: row.id,
+    parcelId: optional(row.parcel_id),
+    name: row.name,
+    kind: row.kind,
+    path: row.path as unknown as LineString,
+    notes: optional(row.notes)
+  }),
+  toRow: (line) => ({
+    parcel_id: line.parcelId,
+    name: line.name,
+    kind: line.kind,
+    path: line.path as unknown as Json,
+    notes: line.notes
+  })
+};
+
+export const irrigationEventTable: TableMapping<'irrigation_events', IrrigationEvent> = {
+  table: 'irrigation_events',
+  orderBy: 'irrigated_on',
+  ascending: false,
+  references: { parcelId: 'parcels' },
+  fromRow: (row) => ({
+    id: row.id,
+    parcelId: row.parcel_id,
+    date: row.irrigated_on,
+    volume: row.volume,
+    notes: optional(row.notes)
+  }),
+  toRow: (event) => ({
+    parcel_id: event.parcelId,
+    irrigated_on: event.date,
+    volume: event.volume,
+    notes: clearable(event, 'notes')
+  })
+};
+
+export const cropCycleTable: TableMapping<'crop_cycles', CropData> = {
+  table: 'crop_cycles',
+  orderBy: 'planting_date',
+  references: { parcelId: 'parcels' },
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    variety: row.variety,
+    parcel: row.parcel_name,
+    parcelId: optional(row.parcel_id),
+    plantingDate: row.planting_date,
+    harvestDate: row.harvest_date ?? '',
+    status: row.status,
+    area: row.area
+  }),
+  toRow: (crop) => ({
+    name: crop.name,
+    variety: crop.variety,
+    parcel_name: crop.parcel,
+    parcel_id: crop.parcelId,
+    planting_date: crop.plantingDate,
+    harvest_date: clearable(crop, 'harvestDate'),
+    status: crop.status,
+    area: crop.area
+  })
+};
+
+export const taskTable: TableMapping<'tasks', CropTask> = {
+  table: 'tasks',
+  orderBy: 'due_date',
+  references: {
+    cropId: 'crop_cycles',
+    parcelId: 'parcels',
+    workerId: 'workers',
+    recurrenceId: 'task_recurrences',
+    templateItemId: 'task_template_items',
+    weatherAlertId: 'weather_alerts',
+    preparednessItemId: 'preparedness_items',
+    inventoryItemId: 'inventory_items'
+  },
+  fromRow: (row) => ({
+    id: row.id,
+    cropId: row.crop_cycle_id ?? 0,
+    parcelId: optional(row.parcel_id),
+    title: row.title,
+    date: row.due_date,
+    completed: row.completed,
+    priority: row.priority,
+    notes: optional(row.notes),
+    assignee: optional(row.assignee),
+    workerId: optional(row.worker_id),
+    recurrenceId: optional(row.recurrence_id),
+    occurrenceDate: optional(row.occurrence_date),
+    templateItemId: optional(row.template_item_id),
+    weatherAlertId: optional(row.weather_alert_id),
+    preparednessItemId: optional(row.preparedness_item_id),
+    inventoryItemId: optional(row.inventory_item_id),
+    harvest: row.harvest
+  }),
+  toRow: (task) => ({
+    crop_cycle_id: task.cropId || undefined,
+    parcel_id: task.parcelId,
+    title: task.title,
+    due_date: task.date,
+    completed: task.completed,
+    priority: task.priority,
+    notes: task.notes,
+    assignee: clearable(task, 'assignee'),
+    worker_id: clearable(task, 'workerId'),
+    recurrence_id: task.recurrenceId,
+    occurrence_date: task.occurrenceDate,
+    template_item_id: task.templateItemId,
+    weather_alert_id: task.weatherAlertId,
+    preparedness_item_id: task.preparednessItemId,
+    inventory_item_id: task.inventoryItemId,
+    harvest: task.harvest
+  })
+};
+
+export const taskRecurrenceTable: TableMapping<'task_recurrences', TaskRecurrence> = {
+  table: 'task_recurrences',
+  orderBy: 'starts_on',
+  references: { cropId: 'crop_cycles', parcelId: 'parcels', workerId: 'workers' },
+  fromRow: (row) => ({
+    id: row.id,
+    title: row.title,
+    cropId: optional(row.crop_cycle_id),
+    parcelId: optional(row.parcel_id),
+    assignee: optional(row.assignee),
+    workerId: optional(row.worker_id),
+    priority: row.priority,
+    notes: optional(row.notes),
+    rule: row.rule,
+    startDate: row.starts_on,
+    endDate: optional(row.ends_on),
+    enabled: row.enabled,
+    skippedDates: row.skipped_dates,
+    harvest: row.harvest
+  }),
+  toRow: (recurrence) => ({
+    title: recurrence.title,
+    crop_cycle_id: clearable(recurrence, 'cropId'),
+    parcel_id: clearable(recurrence, 'parcelId'),
+    assignee: clearable(recurrence, 'assignee'),
+    worker_id: clearable(recurrence, 'workerId'),
+    priority: recurrence.priority,
+    notes: clearable(recurrence, 'notes'),
+    rule: recurrence.rule,
+    starts_on: recurrence.startDate,
+    ends_on: clearable(recurrence, 'endDate'),
+    enabled: recurrence.enabled,
+    skipped_dates: recurrence.skippedDates,
+    harvest: recurrence.harvest
+  })
+};
+
+export const taskTemplateTable: TableMapping<'task_templates', TaskTemplate> = {
+  table: 'task_templates',
+  orderBy: 'name',
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    crop: row.crop,
+    description: optional(row.description)
+  }),
+  toRow: (template) => ({
+    name: template.name,
+    crop: template.crop,
+    description: clearable(template, 'description')
+  })
+};
+
+export const taskTemplateItemTable: TableMapping<'task_template_items', TaskTemplateItem> = {
+  table: 'task_template_items',
+  orderBy: 'position',
+  references: { templateId: 'task_templates' },
+  fromRow: (row) => ({
+    id: row.id,
+    templateId: row.template_id,
+    title: row.title,
+    offsetDays: row.offset_days,
+    priority: row.priority,
+    rule: optional(row.rule),
+    notes: optional(row.notes),
+    position: row.position,
+    harvest: row.harvest
+  }),
+  toRow: (item) => ({
+    template_id: item.templateId,
+    title: item.title,
+    offset_days: item.offsetDays,
+    priority: item.priority,
+    rule: clearable(item, 'rule'),
+    notes: clearable(item, 'notes'),
+    position: item.position,
+    harvest: item.harvest
+  })
+};
+
+export const inventoryItemTable: TableMapping<'inventory_items', InventoryItem> = {
+  table: 'inventory_items',
+  orderBy: 'name',
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    quantity: row.quantity,
+    unit: row.unit,
+    minQuantity: row.min_quantity,
+    price: row.price,
+    location: row.location,
+    valuationMethod: row.valuation_method,
+    lastUpdated: row.last_updated,
+    supplier: optional(row.supplier),
+    sku: optional(row.sku),
+    expiryDate: optional(row.expiry_date),
+    notes: optional(row.notes),
+    ammNumber: optional(row.amm_number),
+    maxDose: optional(row.max_dose),
+    preHarvestInterval: optional(row.pre_harvest_interval)
+  }),
+  toRow: (item) => ({
+    name: item.name,
+    category: item.category,
+    quantity: item.quantity,
+    unit: item.unit,
+    min_quantity: item.minQuantity,
+    price: item.price,
+    location: item.location,
+    valuation_method: item.valuationMethod,
+    last_updated: item.lastUpdated,
+    supplier: item.supplier,
+    sku: item.sku,
+    expiry_date: clearable(item, 'expiryDate'),
+    notes: item.notes,
+    amm_number: clearable(item, 'ammNumber'),
+    max_dose: clearable(item, 'maxDose'),
+    pre_harvest_interval: clearable(item, 'preHarvestInterval')
+  })
+};
+
+export const inventoryTransactionTable: TableMapping<'inventory_transactions', InventoryTransaction> = {
+  table: 'inventory_transactions',
+  orderBy: 'date',
+  references: {
+    itemId: 'inventory_items',
+    reversalOf: 'inventory_transactions',
+    parcelId: 'parcels',
+    cropCycleId: 'crop_cycles',
+    taskId: 'tasks'
+  },
+  ascending: false,
+  fromRow: (row) => ({
+    id: row.id,
+    itemId: row.item_id,
+    type: row.type,
+    quantity: row.quantity,
+    date: row.date,
+    unitCost: optional(row.unit_cost),
+    location: row.location,
+    toLocation: optional(row.to_location),
+    reversalOf: optional(row.reversal_of),
+    parcelId: optional(row.parcel_id),
+    cropCycleId: optional(row.crop_cycle_id),
+    taskId: optional(row.task_id),
+    treatedArea: optional(row.treated_area),
+    user: row.user_name,
+    notes: row.notes
+  }),
+  toRow: (transaction) => ({
+    item_id: transaction.itemId,
+    type: transaction.type,
+    quantity: transaction.quantity,
+    date: transaction.date,
+    unit_cost: transaction.unitCost,
+    location: transaction.location,
+    to_location: transaction.toLocation,
+    reversal_of: transaction.reversalOf,
+    parcel_id: transaction.parcelId,
+    crop_cycle_id: transaction.cropCycleId,
+    task_id: transaction.taskId,
+    treated_area: transaction.treatedArea,
+    user_name: transaction.user,
+    notes: transaction.notes
+  })
+};
+
+export const phytosanitaryTreatmentTable: TableMapping<'phytosanitary_treatments', PhytosanitaryTreatment> = {
+  table: 'phytosanitary_treatments',
+  orderBy: 'applied_at',
+  ascending: false,
+  references: {
+    itemId: 'inventory_items',
+    parcelId: 'parcels',
+    cropCycleId: 'crop_cycles',
+    taskId: 'tasks',
+    workerId: 'workers',
+    movementId: 'inventory_transactions'
+  },
+  fromRow: (row) => ({
+    id: row.id,
+    appliedAt: row.applied_at,
+    itemId: optional(row.item_id),
+    productName: row.product_name,
+    ammNumber: row.amm_number,
+    target: optional(row.target),
+    parcelId: row.parcel_id,
+    cropCycleId: optional(row.crop_cycle_id),
+    taskId: optional(row.task_id),
+    treatedArea: row.treated_area,
+    dose: row.dose,
+    doseUnit: row.dose_unit,
+    maxDose: optional(row.max_dose),
+    preHarvestInterval: row.pre_harvest_interval,
+    workerId: optional(row.worker_id),
+    operator: row.operator,
+    temperature: optional(row.temperature),
+    windSpeed: optional(row.wind_speed),
+    humidity: optional(row.humidity),
+    weather: optional(row.weather),
+    movementId: optional(row.movement_id),
+    notes: optional(row.notes),
+    cancelledAt: optional(row.cancelled_at),
+    cancelledBy: optional(row.cancelled_by)
+  }),
+  toRow: (treatment) => ({
+    applied_at: treatment.appliedAt,
+    item_id: treatment.itemId,
+    product_name: treatment.productName,
+    amm_number: treatment.ammNumber,
+    target: clearable(treatment, 'target'),
+    parcel_id: treatment.parcelId,
+    crop_cycle_id: treatment.cropCycleId,
+    task_id: treatment.taskId,
+    treated_area: treatment.treatedArea,
+    dose: treatment.dose,
+    dose_unit: treatment.doseUnit,
+    max_dose: treatment.maxDose,
+    pre_harvest_interval: treatment.preHarvestInterval,
+    worker_id: treatment.workerId,
+    operator: treatment.operator,
+    temperature: clearable(treatment, 'temperature'),
+    wind_speed: clearable(treatment, 'windSpeed'),
+    humidity: clearable(treatment, 'humidity'),
+    weather: clearable(treatment, 'weather'),
+    movement_id: treatment.movementId,
+    notes: clearable(treatment, 'notes'),
+    cancelled_at: treatment.cancelledAt,
+    cancelled_by: treatment.cancelledBy
+  })
+};
+
+export const financialTransactionTable: TableMapping<'financial_transactions', FinancialTransaction> = {
+  table: 'financial_transactions',
+  orderBy: 'date',
+  ascending: false,
+  fromRow: (row) => ({
+    id: row.id,
+    date: row.date,
+    description: row.description,
+    amount: row.amount,
+    category: row.category,
+    type: row.type
+  }),
+  toRow: (transaction) => ({
+    date: transaction.date,
+    description: transaction.description,
+    amount: transaction.amount,
+    category: transaction.category,
+    type: transaction.type
+  })
+};
+
+export const budgetTable: TableMapping<'budgets', BudgetItem> = {
+  table: 'budgets',
+  orderBy: 'id',
+  fromRow: (row) => ({
+    id: row.id,
+    category: row.category,
+    planned: row.planned,
+    actual: row.actual,
+    color: row.color,
+    year: row.year,
+    period: row.period
+  }),
+  toRow: (budget) => ({
+    category: budget.category,
+    planned: budget.planned,
+    actual: budget.actual,
+    color: budget.color,
+    year: budget.year,
+    period: budget.period
+  })
+};
+
+export const cultureTable: TableMapping<'cultures', Culture> = {
+  table: 'cultures',
+  orderBy: 'name',
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    scientificName: row.scientific_name,
+    family: row.family,
+    origin: row.origin,
+    growingSeason: row.growing_season,
+    soilType: row.soil_type,
+    waterNeeds: row.water_needs,
+    fertilization: row.fertilization,
+    pests: row.pests,
+    diseases: row.diseases,
+    notes: row.notes,
+    type: row.type,
+    harvestPeriod: row.harvest_period,
+    yieldPerHectare: row.yield_per_hectare
+  }),
+  toRow: (culture) => ({
+    name: culture.name,
+    scientific_name: culture.scientificName,
+    family: culture.family,
+    origin: culture.origin,
+    growing_season: culture.growingSeason,
+    soil_type: culture.soilType,
+    water_needs: culture.waterNeeds,
+    fertilization: culture.fertilization,
+    pests: culture.pests,
+    diseases: culture.diseases,
+    notes: culture.notes,
+    type: culture.type,
+    harvest_period: culture.harvestPeriod,
+    yield_per_hectare: culture.yieldPerHectare
+  })
+};
+
+export const cropHistoryTable: TableMapping<'crop_history', CropHistoryEntry> = {
+  table: 'crop_history',
+  orderBy: 'year',
+  references: { parcelId: 'parcels' },
+  fromRow: (row) => ({
+    id: row.id,
+    parcelId: row.parcel_id,
+    year: row.year,
+    season: row.season,
+    crop: row.crop,
+    yield: optional(row.yield),
+    notes: optional(row.notes)
+  }),
+  toRow: (entry) => ({
+    parcel_id: entry.parcelId,
+    year: entry.year,
+    season: entry.season,
+    crop: entry.crop,
+    yield: clearable(entry, 'yield'),
+    notes: clearable(entry, 'notes')
+  })
+};
+
+export const rotationRuleTable: TableMapping<'rotation_rules', RotationRule> = {
+  table: 'rotation_rules',
+  orderBy: 'id',
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    kind: row.kind,
+    subject: optional(row.subject),
+    follows: optional(row.follows),
+    minInterval: optional(row.min_interval),
+    severity: row.severity,
+    message: optional(row.message),
+    enabled: row.enabled
+  }),
+  toRow: (rule) => ({
+    name: rule.name,
+    kind: rule.kind,
+    subject: clearable(rule, 'subject'),
+    follows: clearable(rule, 'follows'),
+    min_interval: clearable(rule, 'minInterval'),
+    severity: rule.severity,
+    message: clearable(rule, 'message'),
+    enabled: rule.enabled
+  })
+};
+
+export const yieldPredictionTable: TableMapping<'yield_predictions', YieldPredictionRecord> = {
+  table: 'yield_predictions',
+  orderBy: 'predicted_at',
+  ascending: false,
+  references: { parcelId: 'parcels', cropCycleId: 'crop_cycles' },
+  fromRow: (row) => ({
+    id: row.id,
+    parcelId: optional(row.parcel_id),
+    cropCycleId: optional(row.crop_cycle_id),
+    crop: row.crop,
+    provider: row.provider,
+    fallbackFrom: optional(row.fallback_from),
+    method: row.method,
+    modelVersion: row.model_version,
+    inputs: row.inputs as unknown as YieldPredictionInputs,
+    area: row.area,
+    yieldPerHectare: row.yield_per_hectare,
+    yieldLower: row.yield_lower,
+    yieldUpper: row.yield_upper,
+    intervalLevel: row.interval_level,
+    confidenceLevel: row.confidence_level,
+    predictedAt: row.predicted_at
+  }),
+  toRow: (prediction) => ({
+    parcel_id: clearable(prediction, 'parcelId'),
+    crop_cycle_id: clearable(prediction, 'cropCycleId'),
+    crop: prediction.crop,
+    provider: prediction.provider,
+    fallback_from: prediction.fallbackFrom,
+    method: prediction.method,
+    model_version: prediction.modelVersion,
+    inputs: prediction.inputs as unknown as Json,
+    area: prediction.area,
+    yield_per_hectare: prediction.yieldPerHectare,
+    yield_lower: prediction.yieldLower,
+    yield_upper: prediction.yieldUpper,
+    interval_level: prediction.intervalLevel,
+    confidence_level: prediction.confidenceLevel,
+    predicted_at: prediction.predictedAt
+  })
+};
+
+export const harvestTable: TableMapping<'harvests', HarvestRecord> = {
+  table: 'harvests',
+  orderBy: 'harvest_date',
+  ascending: false,
+  references: { cropCycleId: 'crop_cycles', parcelId: 'parcels', predictionId: 'yield_predictions' },
+  fromRow: (row) => ({
+    id: row.id,
+    cropCycleId: optional(row.crop_cycle_id),
+    parcelId: optional(row.parcel_id),
+    crop: row.crop,
+    harvestDate: row.harvest_date,
+    area: row.area,
+    quantity: row.quantity,
+    quality: row.quality,
+    predictionId: optional(row.prediction_id),
+    notes: optional(row.notes)
+  }),
+  toRow: (harvest) => ({
+    crop_cycle_id: clearable(harvest, 'cropCycleId'),
+    parcel_id: clearable(harvest, 'parcelId'),
+    crop: harvest.crop,
+    harvest_date: harvest.harvestDate,
+    area: harvest.area,
+    quantity: harvest.quantity,
+    quality: harvest.quality,
+    prediction_id: clearable(harvest, 'predictionId'),
+    notes: clearable(harvest, 'notes')
+  })
+};
+
+export const weatherStationTable: TableMapping<'weather_stations', WeatherStation> = {
+  table: 'weather_stations',
+  orderBy: 'name',
+  fromRow: (row) => ({
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    elevation: optional(row.elevation),
+    region: row.region
+  }),
+  toRow: (station) => ({
+    code: station.code,
+    name: station.name,
+    latitude: station.latitude,
+    longitude: station.longitude,
+    elevation: clearable(station, 'elevation'),
+    region: station.region
+  })
+};
+
+export const weatherObservationTable: TableMapping<'weather_observations', WeatherObservation> = {
+  table: 'weather_observations',
+  orderBy: 'observed_at',
+  ascending: false,
+  references: { stationId: 'weather_stations' },
+  fromRow: (row) => ({
+    id: row.id,
+    stationId: optional(row.station_id),
+    region: optional(row.region),
+    observedAt: row.observed_at,
+    temperature: optional(row.temperature),
+    humidity: optional(row.humidity),
+    rainfall: optional(row.rainfall),
+    pressure: optional(row.pressure),
+    windSpeed: optional(row.wind_speed),
+    source: row.source
+  }),
+  toRow: (observation) => ({
+    station_id: clearable(observation, 'stationId'),
+    region: clearable(observation, 'region'),
+    observed_at: observation.observedAt,
+    temperature: clearable(observation, 'temperature'),
+    humidity: clearable(observation, 'humidity'),
+    rainfall: clearable(observation, 'rainfall'),
+    pressure: clearable(observation, 'pressure'),
+    wind_speed: clearable(observation, 'windSpeed'),
+    source: observation.source
+  })
+};
+
+export const weatherDayTable: TableMapping<'weather_daily', WeatherDay> = {
+  table: 'weather_daily',
+  orderBy: 'date',
+  references: { stationId: 'weather_stations' },
+  fromRow: (row) => ({
+    id: row.id,
+    stationId: row.station_id,
+    date: row.date,
+    tMean: optional(row.t_mean),
+    tMin: optional(row.t_min),
+    tMax: optional(row.t_max),
+    humidity: optional(row.humidity),
+    rain: row.rain,
+    observations: row.observations,
+    windMax: optional(row.wind_max)
+  }),
+  toRow: (day) => ({
+    station_id: day.stationId,
+    date: day.date,
+    t_mean: clearable(day, 'tMean'),
+    t_min: clearable(day, 'tMin'),
+    t_max: clearable(day, 'tMax'),
+    humidity: clearable(day, 'humidity'),
+    rain: day.rain,
+    observations: day.observations,
+    wind_max: clearable(day, 'windMax')
+  })
+};
+
+export const weatherAlertRuleTable: TableMapping<'weather_alert_rules', WeatherAlertRule> = {
+  table: 'weather_alert_rules',
+  orderBy: 'name',
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    region: optional(row.region),
+    metric: row.metric,
+    aggregation: row.aggregation,
+    windowDays: row.window_days,
+    comparison: row.comparison,
+    threshold: row.threshold,
+    severity: row.severity,
+    impactCrops: row.impact_crops,
+    recommendation: row.recommendation,
+    expiryHours: row.expiry_hours,
+    enabled: row.enabled
+  }),
+  toRow: (rule) => ({
+    name: rule.name,
+    type: rule.type,
+    region: clearable(rule, 'region'),
+    metric: rule.metric,
+    aggregation: rule.aggregation,
+    window_days: rule.windowDays,
+    comparison: rule.comparison,
+    threshold: rule.threshold,
+    severity: rule.severity,
+    impact_crops: rule.impactCrops,
+    recommendation: rule.recommendation,
+    expiry_hours: rule.expiryHours,
+    enabled: rule.enabled
+  })
+};
+
+export const weatherAlertTable: TableMapping<'weather_alerts', WeatherAlert> = {
+  table: 'weather_alerts',
+  orderBy: 'start_date',
+  ascending: false,
+  references: { ruleId: 'weather_alert_rules', stationId: 'weather_stations' },
+  fromRow: (row) => ({
+    id: row.id,
+    ruleId: optional(row.rule_id),
+    stationId: optional(row.station_id),
+    type: row.type,
+    region: row.region,
+    severity: row.severity,
+    impactCrops: row.impact_crops,
+    startDate: row.start_date,
+    endDate: row.end_date,
+    value: row.value,
+    description: row.description,
+    recommendation: row.recommendation,
+    status: row.status,
+    expiresAt: optional(row.expires_at),
+    dismissedChecklist: row.dismissed_checklist
+  }),
+  toRow: (alert) => ({
+    rule_id: clearable(alert, 'ruleId'),
+    station_id: clearable(alert, 'stationId'),
+    type: alert.type,
+    region: alert.region,
+    severity: alert.severity,
+    impact_crops: alert.impactCrops,
+    start_date: alert.startDate,
+    end_date: alert.endDate,
+    value: alert.value,
+    description: alert.description,
+    recommendation: alert.recommendation,
+    status: alert.status,
+    expires_at: clearable(alert, 'expiresAt'),
+    dismissed_checklist: alert.dismissedChecklist
+  })
+};
+
+export const preparednessItemTable: TableMapping<'preparedness_items', PreparednessItem> = {
+  table: 'preparedness_items',
+  orderBy: 'position',
+  fromRow: (row) => ({
+    id: row.id,
+    scope: row.scope,
+    title: row.title,
+    appliesTo: optional(row.applies_to),
+    priority: row.priority,
+    position: row.position,
+    enabled: row.enabled
+  }),
+  toRow: (item) => ({
+    scope: item.scope,
+    title: item.title,
+    applies_to: clearable(item, 'appliesTo'),
+    priority: item.priority,
+    position: item.position,
+    enabled: item.enabled
+  })
+};
+
+export const damageAssessmentTable: TableMapping<'damage_assessments', DamageAssessment> = {
+  table: 'damage_assessments',
+  orderBy: 'assessed_on',
+  ascending: false,
+  references: {
+    weatherAlertId: 'weather_alerts',
+    parcelId: 'parcels',
+    cropCycleId: 'crop_cycles',
+    inventoryItemId: 'inventory_items',
+    transactionId: 'financial_transactions'
+  },
+  fromRow: (row) => ({
+    id: row.id,
+    weatherAlertId: optional(row.weather_alert_id),
+    date: row.assessed_on,
+    category: row.category,
+    parcelId: optional(row.parcel_id),
+    cropCycleId: optional(row.crop_cycle_id),
+    inventoryItemId: optional(row.inventory_item_id),
+    description: row.description,
+    damagedArea: optional(row.damaged_area),
+    lossPercent: optional(row.loss_percent),
+    estimatedLoss: row.estimated_loss,
+    insured: row.insured,
+    transactionId: optional(row.financial_transaction_id),
+    notes: optional(row.notes)
+  }),
+  toRow: (assessment) => ({
+    weather_alert_id: assessment.weatherAlertId,
+    assessed_on: assessment.date,
+    category: assessment.category,
+    parcel_id: clearable(assessment, 'parcelId'),
+    crop_cycle_id: clearable(assessment, 'cropCycleId'),
+    inventory_item_id: clearable(assessment, 'inventoryItemId'),
+    description: assessment.description,
+    damaged_area: clearable(assessment, 'damagedArea'),
+    loss_percent: clearable(assessment, 'lossPercent'),
+    estimated_loss: assessment.estimatedLoss,
+    insured: assessment.insured,
+    financial_transaction_id: assessment.transactionId,
+    notes: clearable(assessment, 'notes')
+  })
+};
+
+export const teamTable: TableMapping<'teams', Team> = {
+  table: 'teams',
+  orderBy: 'name',
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    description: optional(row.description)
+  }),
+  toRow: (team) => ({
+    name: team.name,
+    description: clearable(team, 'description')
+  })
+};
+
+export const workerTable: TableMapping<'workers', Worker> = {
+  table: 'workers',
+  orderBy: 'name',
+  references: { teamId: 'teams' },
+  fromRow: (row) => ({
+    id: row.id,
+    name: row.name,
+    role: row.role,
+    hourlyRate: row.hourly_rate,
+    skills: row.skills,
+    teamId: optional(row.team_id),
+    phone: optional(row.phone),
+    active: row.active
+  }),
+  toRow: (worker) => ({
+    name: worker.name,
+    role: worker.role,
+    hourly_rate: worker.hourlyRate,
+    skills: worker.skills,
+    team_id: clearable(worker, 'teamId'),
+    phone: clearable(worker, 'phone'),
+    active: worker.active
+  })
+};
+
+export const timeEntryTable: TableMapping<'time_entries', TimeEntry> = {
+  table: 'time_entries',
+  orderBy: 'work_date',
+  ascending: false,
+  references: {
+    workerId: 'workers',
+    taskId: 'tasks',
+    parcelId: 'parcels',
+    transactionId: 'financial_transactions'
+  },
+  fromRow: (row) => ({
+    id: row.id,
+    workerId: row.worker_id,
+    taskId: optional(row.task_id),
+    parcelId: optional(row.parcel_id),
+    date: row.work_date,
+    startedAt: optional(row.started_at),
+    hours: optional(row.hours),
+    hourlyRate: row.hourly_rate,
+    notes: optional(row.notes),
+    transactionId: optional(row.financial_transaction_id)
+  }),
+  toRow: (entry) => ({
+    worker_id: entry.workerId,
+    task_id: clearable(entry, 'taskId'),
+    parcel_id: clearable(entry, 'parcelId'),
+    work_date: entry.date,
+    started_at: clearable(entry, 'startedAt'),
+    hours: clearable(entry, 'hours'),
+    hourly_rate: entry.hourlyRate,
+    notes: clearable(entry, 'notes'),
+    financial_transaction_id: clearable(entry, 'transactionId')
+  })
+};
+
+/** Every mapped table, parents before the tables referencing them */
+export const farmTables = [
+  parcelTable,
+  irrigationLineTable,
+  irrigationEventTable,
+  cropCycleTable,
+  inventoryItemTable,
+  financialTransactionTable,
+  budgetTable,
+  cultureTable,
+  cropHistoryTable,
+  rotationRuleTable,
+  yieldPredictionTable,
+  harvestTable,
+  weatherStationTable,
+  weatherObservationTable,
+  weatherDayTable,
+  weatherAlertRuleTable,
+  weatherAlertTable,
+  preparednessItemTable,
+  teamTable,
+  workerTable,
+  taskRecurrenceTable,
+  taskTemplateTable,
+  taskTemplateItemTable,
+  taskTable,
+  inventoryTransactionTable,
+  phytosanitaryTreatmentTable,
+  damageAssessmentTable,
+  timeEntryTable
+];
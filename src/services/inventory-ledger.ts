@@ -0,0 +1,96 @@
+import { getRepository } from './repository';
+import { cropCycleTable, inventoryItemTable, inventoryTransactionTable, parcelTable, taskTable } from './farm-tables';
+import type { InventoryItem, InventoryTransaction } from '@/types/farm';
+import { isoDay } from '@/utils/crop-calendar';
+import { hasTarget, resolveTarget } from '@/utils/production-costs';
+import {
+  StockLedgerError,
+  countAdjustment,
+  movementError,
+  reversalOf,
+  stockBalance
+} from '@/utils/stock-ledger';
+
+const ledgerOf = async (itemId: number) =>
+  (await getRepository(inventoryTransactionTable).list({ filters: [{ field: 'itemId', value: itemId }] })).items;
+
+// Crop cycle, parcel and treated area of an issue, completed from its task or crop cycle
+const withTarget = async (draft: Omit<InventoryTransaction, 'id'>) => {
+  if (!hasTarget(draft)) return draft;
+  const [{ items: crops }, { items: parcels }, { items: tasks }] = await Promise.all([
+    getRepository(cropCycleTable).list(),
+    getRepository(parcelTable).list(),
+    getRepository(taskTable).list()
+  ]);
+  return resolveTarget(draft, crops, parcels, tasks);
+};
+
+/**
+ * Append a movement to an item's ledger and bring the item's quantity (and, for a
+ * receipt, its last purchase price) in line with it. An issue is charged to the
+ * parcel, crop cycle or task it names.
+ */
+export const postMovement = async (posted: Omit<InventoryTransaction, 'id'>) => {
+  const draft = await withTarget(posted);
+  const items = getRepository(inventoryItemTable);
+  const item = await items.get(draft.itemId);
+  if (!item) throw new StockLedgerError('Article introuvable');
+  const ledger = await ledgerOf(item.id);
+  const error = movementError(draft, ledger);
+  if (error) throw new StockLedgerError(error);
+
+  const movement = await getRepository(inventoryTransactionTable).create(draft);
+  const updated = await items.update(item.id, {
+    quantity: stockBalance([...ledger, movement], item.id),
+    price: draft.type === 'receipt' && draft.unitCost !== undefined ? draft.unitCost : item.price,
+    lastUpdated: isoDay(new Date())
+  });
+  return { movement, item: updated };
+};
+
+/** Cancel a posted movement with the movement that undoes it */
+export const reverseMovement = async (movement: InventoryTransaction, user: string, date = isoDay(new Date())) => {
+  const item = await getRepository(inventoryItemTable).get(movement.itemId);
+  if (!item) throw new StockLedgerError('Article introuvable');
+  const reversal = reversalOf(movement, await ledgerOf(item.id), item, date < movement.date ? movement.date : date);
+  return postMovement({ ...reversal, user });
+};
+
+/** Post the adjustment bringing a location to the quantity counted there */
+export const recordCount = async (
+  item: InventoryItem,
+  counted: number,
+  user: string,
+  date = isoDay(new Date()),
+  location = item.location
+) => {
+  if (!(counted >= 0)) throw new StockLedgerError('La quantité comptée doit être positive');
+  const adjustment = countAdjustment(item, await ledgerOf(item.id), counted, date, location);
+  if (!adjustment) return null;
+  return postMovement({ ...adjustment, user, notes: 'Inventaire' });
+};
+
+/** Create an item, its initial stock being posted as an opening adjustment at its price */
+export const createInventoryItem = async (draft: Omit<InventoryItem, 'id'>, user: string) => {
+  const item = await getRepository(inventoryItemTable).create({ ...draft, quantity: 0 });
+  if (draft.quantity <= 0) return item;
+  const { item: stocked } = await postMovement({
+    itemId: item.id,
+    type: 'adjustment',
+    quantity: draft.quantity,
+    unitCost: draft.price,
+    date: draft.lastUpdated,
+    location: draft.location,
+    user,
+    notes: 'Stock initial'
+  });
+  return stocked;
+};
+
+/** Delete an item that never moved; the ledger of the others is kept */
+export const deleteInventoryItem = async (item: InventoryItem) => {
+  if ((await ledgerOf(item.id)).length > 0) {
+    throw new StockLedgerError(`${item.name} a des mouvements de stock, soldez-le plutôt`);
+  }
+  await getRepository(inventoryItemTable).delete(item.id);
+};
@@ -0,0 +1,5 @@
+import { createLocalStorageRepository } from './repository';
+import type { Measurement } from '@/utils/measurement';
+
+/** Measurements saved from the parcel map; they stay on this device */
+export const measurementRepository = createLocalStorageRepository<Measurement>('map_measurements');
@@ -0,0 +1,109 @@
+import { getRepository } from './repository';
+import {
+  cropCycleTable,
+  inventoryItemTable,
+  inventoryTransactionTable,
+  phytosanitaryTreatmentTable,
+  weatherObservationTable,
+  weatherStationTable
+} from './farm-tables';
+import { postMovement, reverseMovement } from './inventory-ledger';
+import type { CropTask, ParcelData, PhytosanitaryTreatment } from '@/types/farm';
+import {
+  PhytosanitaryError,
+  applicationWeather,
+  harvestError,
+  isCancelled,
+  treatmentDay,
+  treatmentError,
+  treatmentQuantity
+} from '@/utils/phytosanitary';
+import { nearestStation } from '@/utils/weather-series';
+
+/**
+ * Record a treatment in the register. A product taken from stock is issued from it,
+ * charged to the treated parcel and crop cycle.
+ */
+export const recordTreatment = async (draft: Omit<PhytosanitaryTreatment, 'id' | 'movementId'>, user: string) => {
+  const error = treatmentError(draft);
+  if (error) throw new PhytosanitaryError(error);
+
+  let movementId: number | undefined;
+  if (draft.itemId !== undefined) {
+    const item = await getRepository(inventoryItemTable).get(draft.itemId);
+    if (!item) throw new PhytosanitaryError('Produit introuvable dans le stock');
+    const { movement } = await postMovement({
+      itemId: item.id,
+      type: 'issue',
+      quantity: treatmentQuantity(draft),
+      date: treatmentDay(draft),
+      location: item.location,
+      parcelId: draft.parcelId,
+      cropCycleId: draft.cropCycleId,
+      taskId: draft.taskId,
+      treatedArea: draft.treatedArea,
+      user,
+      notes: `Traitement phytosanitaire${draft.target ? ` – ${draft.target}` : ''}`
+    });
+    movementId = movement.id;
+  }
+
+  try {
+    return await getRepository(phytosanitaryTreatmentTable).create({ ...draft, movementId });
+  } catch (createError) {
+    // Put the product back when the register refuses the entry
+    const movement = movementId !== undefined ? await getRepository(inventoryTransactionTable).get(movementId) : null;
+    if (movement) await reverseMovement(movement, user);
+    throw createError;
+  }
+};
+
+/**
+ * Cancel a treatment recorded by mistake: it stays in the register, marked cancelled by
+ * `user`, and its stock issue is reversed
+ */
+export const cancelTreatment = async (treatment: PhytosanitaryTreatment, user: string) => {
+  if (isCancelled(treatment)) return treatment;
+  if (treatment.movementId !== undefined) {
+    const movement = await getRepository(inventoryTransactionTable).get(treatment.movementId);
+    if (movement) await reverseMovement(movement, user);
+  }
+  return getRepository(phytosanitaryTreatmentTable).update(treatment.id, {
+    cancelledAt: new Date().toISOString(),
+    cancelledBy: user
+  });
+};
+
+type HarvestCheck = Pick<CropTask, 'date' | 'parcelId' | 'cropId' | 'harvest'>;
+
+/** Harvest tasks among `tasks` dated within the pre-harvest interval of a treatment, with the reason */
+export const blockedHarvests = async <T extends HarvestCheck>(tasks: T[]) => {
+  if (!tasks.some(task => task.harvest)) return [];
+  const [{ items: treatments }, { items: crops }] = await Promise.all([
+    getRepository(phytosanitaryTreatmentTable).list(),
+    getRepository(cropCycleTable).list()
+  ]);
+  return tasks
+    .map(task => ({ task, error: harvestError(task, treatments, crops) }))
+    .filter((blocked): blocked is { task: T; error: string } => blocked.error !== null);
+};
+
+/** Refuse harvest tasks dated within the pre-harvest interval of a treatment */
+export const assertHarvestsAllowed = async (tasks: HarvestCheck[]) => {
+  const [blocked] = await blockedHarvests(tasks);
+  if (blocked) throw new PhytosanitaryError(blocked.error);
+};
+
+/** Refuse a harvest task dated within the pre-harvest interval of a treatment */
+export const assertHarvestAllowed = (task: HarvestCheck) => assertHarvestsAllowed([task]);
+
+/** Weather recorded near the parcel at the time of an application, if any */
+export const weatherAtApplication = async (parcel: ParcelData, appliedAt: string) => {
+  const { items: stations } = await getRepository(weatherStationTable).list();
+  const station = nearestStation(parcel.coordinates, stations)?.station;
+  if (!station) return undefined;
+  const { items: observations } = await getRepository(weatherObservationTable).list({
+    filters: [{ field: 'stationId', value: station.id }]
+  });
+  return applicationWeather(parcel, appliedAt, [station], observations);
+};
@@ -0,0 +1,114 @@
+import { applyListOptions, nextId } from './query';
+import { Identifiable, RecordId, RecordNotFoundError, Repository } from './types';
+
+/**
+ * Where a client-side repository keeps its records.
+ * Collections are small enough to be read and written as a whole.
+ */
+export interface CollectionStore<T> {
+  load(): Promise<T[]>;
+  save(records: T[]): Promise<void>;
+}
+
+/**
+ * Repository over a whole-collection store; `replace` rewrites the collection
+ * through the same serialized write path as the CRUD methods.
+ */
+export interface CollectionRepository<T extends Identifiable> extends Repository<T> {
+  replace(change: (records: T[]) => T[]): Promise<T[]>;
+}
+
+/**
+ * Build a repository on top of a whole-collection store.
+ * Ids are assigned client-side (by `assignId`, defaulting to max + 1), writes are
+ * serialized so concurrent calls never overwrite each other's snapshot.
+ */
+export const createCollectionRepository = <T extends Identifiable>(
+  name: string,
+  store: CollectionStore<T>,
+  assignId: (records: T[]) => RecordId = nextId
+): CollectionRepository<T> => {
+  let pending: Promise<unknown> = Promise.resolve();
+
+  const write = <R>(change: (records: T[]) => { records: T[]; result: R }): Promise<R> => {
+    const run = pending.then(async () => {
+      const { records, result } = change(await store.load());
+      await store.save(records);
+      return result;
+    });
+    pending = run.catch(() => undefined);
+    return run;
+  };
+
+  const patch = (records: T[], id: RecordId, updates: Partial<T>): T => {
+    const index = records.findIndex(record => record.id === id);
+    if (index === -1) throw new RecordNotFoundError(name, id);
+    const updated = { ...records[index], ...updates, id };
+    records[index] = updated;
+    return updated;
+  };
+
+  return {
+    name,
+
+    async list(options) {
+      return applyListOptions(await store.load(), options);
+    },
+
+    async get(id) {
+      return (await store.load()).find(record => record.id === id) ?? null;
+    },
+
+    create(item) {
+      return write(records => {
+        const created = { ...item, id: assignId(records) } as T;
+        return { records: [...records, created], result: created };
+      });
+    },
+
+    update(id, updates) {
+      return write(records => {
+        const next = [...records];
+        return { records: next, result: patch(next, id, updates) };
+      });
+    },
+
+    delete(id) {
+      return write(records => ({
+        records: records.filter(record => record.id !== id),
+        result: undefined
+      }));
+    },
+
+    bulkCreate(items) {
+      return write(records => {
+        const created: T[] = [];
+        items.forEach(item => {
+          created.push({ ...item, id: assignId([...records, ...created]) } as T);
+        });
+        return { records: [...records, ...created], result: created };
+      });
+    },
+
+    bulkUpdate(ids, updates) {
+      return write(records => {
+        const next = [...records];
+        return { records: next, result: ids.map(id => patch(next, id, updates)) };
+      });
+    },
+
+    bulkDelete(ids) {
+      return write(records => ({
+        records: records.filter(record => !ids.includes(record.id)),
+        result: undefined
+      }));
+    },
+
+    replace(change) {
+      return write(records => {
+        const next = change(records);
+        return { records: next, result: next };
+      });
+    }
+  };
+};
@@ -0,0 +1,63 @@
+import type { FarmTableName, TableMapping } from '../farm-tables';
+import { createIndexedDbRepository } from './indexed-db';
+import { createLocalStorageRepository } from './local-storage';
+import { createMemoryRepository } from './memory';
+import { createOfflineRepository } from './offline';
+import { createSupabaseRepository } from './supabase';
+import type { Identifiable, Repository } from './types';
+
+export * from './types';
+export { applyListOptions, listAll } from './query';
+export { getOfflineCollections, isTemporaryId } from './offline';
+export type { OfflineCollection } from './offline';
+export {
+  createMemoryRepository,
+  createLocalStorageRepository,
+  createIndexedDbRepository,
+  createSupabaseRepository,
+  createOfflineRepository
+};
+
+export type DataBackend = 'supabase' | 'indexeddb' | 'localstorage' | 'memory';
+
+const BACKENDS: DataBackend[] = ['supabase', 'indexeddb', 'localstorage', 'memory'];
+
+/**
+ * Backend chosen with VITE_DATA_BACKEND; defaults to Supabase when it is configured,
+ * otherwise to IndexedDB so the app still keeps its data across reloads.
+ */
+export const getDataBackend = (): DataBackend => {
+  const configured = import.meta.env.VITE_DATA_BACKEND as DataBackend | undefined;
+  if (configured && BACKENDS.includes(configured)) return configured;
+  return import.meta.env.VITE_SUPABASE_URL ? 'supabase' : 'indexeddb';
+};
+
+const repositories = new Map<string, Repository<Identifiable>>();
+
+/**
+ * Shared repository for a farm table on the configured backend.
+ * Every module asking for the same table gets the same instance.
+ * Supabase tables are mirrored in IndexedDB and synced through the mutation queue.
+ */
+export const getRepository = <N extends FarmTableName, T extends Identifiable>(
+  mapping: TableMapping<N, T>,
+  backend: DataBackend = getDataBackend()
+): Repository<T> => {
+  const key = `${backend}:${mapping.table}`;
+  if (!repositories.has(key)) {
+    const repository = (() => {
+      switch (backend) {
+        case 'supabase':
+          return createOfflineRepository(mapping, createSupabaseRepository(mapping));
+        case 'localstorage':
+          return createLocalStorageRepository<T>(mapping.table);
+        case 'memory':
+          return createMemoryRepository<T>(mapping.table);
+        default:
+          return createIndexedDbRepository<T>(mapping.table);
+      }
+    })();
+    repositories.set(key, repository as unknown as Repository<Identifiable>);
+  }
+  return repositories.get(key) as unknown as Repository<T>;
+};
@@ -0,0 +1,66 @@
+import { createCollectionRepository } from './collection';
+import type { Identifiable, Repository } from './types';
+
+const DB_NAME = 'agridom';
+const DB_VERSION = 1;
+const COLLECTIONS_STORE = 'collections';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(COLLECTIONS_STORE)) {
+          request.result.createObjectStore(COLLECTIONS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+};
+
+const runRequest = async <R>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<R>
+): Promise<R> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(COLLECTIONS_STORE, mode);
+    const request = operation(transaction.objectStore(COLLECTIONS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Read a raw value from the app's IndexedDB key/value store
+ */
+export const readStoredValue = <V>(key: string): Promise<V | undefined> =>
+  runRequest<V | undefined>('readonly', store => store.get(key));
+
+/**
+ * Write a raw value to the app's IndexedDB key/value store
+ */
+export const writeStoredValue = async <V>(key: string, value: V): Promise<void> => {
+  await runRequest('readwrite', store => store.put(value, key));
+};
+
+/**
+ * Repository persisted in IndexedDB, for data sets too large for localStorage
+ */
+export const createIndexedDbRepository = <T extends Identifiable>(
+  name: string,
+  seed: T[] = []
+): Repository<T> =>
+  createCollectionRepository<T>(name, {
+    load: async () => (await readStoredValue<T[]>(name)) ?? [...seed],
+    save: (records) => writeStoredValue(name, records)
+  });
@@ -0,0 +1,27 @@
+import { createCollectionRepository } from './collection';
+import type { Identifiable, Repository } from './types';
+
+const storageKey = (name: string) => `agridom:${name}`;
+
+/**
+ * Repository persisted as JSON in localStorage (about 5 MB per origin)
+ */
+export const createLocalStorageRepository = <T extends Identifiable>(
+  name: string,
+  seed: T[] = []
+): Repository<T> =>
+  createCollectionRepository<T>(name, {
+    load: async () => {
+      const saved = localStorage.getItem(storageKey(name));
+      if (!saved) return [...seed];
+      try {
+        return JSON.parse(saved) as T[];
+      } catch {
+        console.error(`Corrupted ${name} data in localStorage, starting empty`);
+        return [];
+      }
+    },
+    save: async (records) => {
+      localStorage.setItem(storageKey(name), JSON.stringify(records));
+    }
+  });
@@ -0,0 +1,20 @@
+import { createCollectionRepository } from './collection';
+import type { Identifiable, Repository } from './types';
+
+/**
+ * Repository kept in memory only; contents are lost on reload.
+ * Useful for previews and for tests.
+ */
+export const createMemoryRepository = <T extends Identifiable>(
+  name: string,
+  seed: T[] = []
+): Repository<T> => {
+  let records = [...seed];
+
+  return createCollectionRepository<T>(name, {
+    load: async () => [...records],
+    save: async (next) => {
+      records = next;
+    }
+  });
+};
@@ -0,0 +1,131 @@
+import type { FarmTableName, TableMapping } from '../farm-tables';
+import { enqueue, updateQueue } from '../sync/queue';
+import { CollectionRepository, createCollectionRepository } from './collection';
+import { readStoredValue, writeStoredValue } from './indexed-db';
+import { listAll } from './query';
+import type { Identifiable, RecordId, Repository } from './types';
+
+/**
+ * A table mirrored in IndexedDB. `local` serves the UI, `remote` is where the
+ * sync engine replays the queued mutations.
+ */
+export interface OfflineCollection<T extends Identifiable = Identifiable> {
+  mapping: TableMapping<FarmTableName, T>;
+  local: CollectionRepository<T>;
+  remote: Repository<T>;
+}
+
+const collections = new Map<FarmTableName, OfflineCollection>();
+
+/**
+ * Tables mirrored locally so far, keyed by table name
+ */
+export const getOfflineCollections = (): Map<FarmTableName, OfflineCollection> => collections;
+
+// Records created offline get negative ids until the server assigns a real one
+const temporaryId = (records: Identifiable[]): RecordId =>
+  records.reduce((min, record) => Math.min(min, record.id), 0) - 1;
+
+export const isTemporaryId = (id: RecordId): boolean => id < 0;
+
+/**
+ * Offline-first repository: reads and writes go to an IndexedDB copy of the table,
+ * and every write is queued for the sync engine to replay against `remote`.
+ * An empty cache is filled from the server on first read when it is reachable.
+ */
+export const createOfflineRepository = <N extends FarmTableName, T extends Identifiable>(
+  mapping: TableMapping<N, T>,
+  remote: Repository<T>
+): Repository<T> => {
+  const cacheKey = `offline:${mapping.table}`;
+
+  const local = createCollectionRepository<T>(mapping.table, {
+    load: async () => {
+      const cached = await readStoredValue<T[]>(cacheKey);
+      if (cached) return cached;
+      try {
+        const items = await listAll(remote);
+        await writeStoredValue(cacheKey, items);
+        return items;
+      } catch {
+        return [];
+      }
+    },
+    save: (records) => writeStoredValue(cacheKey, records)
+  }, temporaryId);
+
+  collections.set(mapping.table, { mapping, local, remote } as unknown as OfflineCollection);
+
+  const queueCreate = async (item: Omit<T, 'id'>) => {
+    const created = await local.create(item);
+    await enqueue({
+      collection: mapping.table,
+      operation: 'create',
+      recordId: created.id,
+      payload: item as Record<string, unknown>
+    });
+    return created;
+  };
+
+  const queueUpdate = async (id: RecordId, updates: Partial<T>) => {
+    const current = await local.get(id);
+    const updated = await local.update(id, updates);
+    await enqueue({
+      collection: mapping.table,
+      operation: 'update',
+      recordId: id,
+      payload: updates as Record<string, unknown>,
+      baseVersion: current?.version
+    });
+    return updated;
+  };
+
+  const queueDelete = async (id: RecordId) => {
+    const current = await local.get(id);
+    await local.delete(id);
+    if (isTemporaryId(id)) {
+      // Never reached the server: forget its pending create and updates instead
+      await updateQueue(queue => queue.filter(
+        mutation => mutation.collection !== mapping.table || mutation.recordId !== id
+      ));
+      return;
+    }
+    await enqueue({
+      collection: mapping.table,
+      operation: 'delete',
+      recordId: id,
+      baseVersion: current?.version
+    });
+  };
+
+  return {
+    name: mapping.table,
+    list: (options) => local.list(options),
+    get: (id) => local.get(id),
+    create: queueCreate,
+    update: queueUpdate,
+    delete: queueDelete,
+
+    async bulkCreate(items) {
+      const created: T[] = [];
+      for (const item of items) {
+        created.push(await queueCreate(item));
+      }
+      return created;
+    },
+
+    async bulkUpdate(ids, updates) {
+      const updated: T[] = [];
+      for (const id of ids) {
+        updated.push(await queueUpdate(id, updates));
+      }
+      return updated;
+    },
+
+    async bulkDelete(ids) {
+      for (const id of ids) {
+        await queueDelete(id);
+      }
+    }
+  };
+};
@@ -0,0 +1,87 @@
+import type { Identifiable, ListFilter, ListOptions, ListResult, Repository } from './types';
+
+/** Rows read per request by listAll; PostgREST never returns more than 1000 at once */
+const LIST_ALL_PAGE_SIZE = 1000;
+
+const matchesFilter = <T>(item: T, { field, operator = 'eq', value }: ListFilter<T>): boolean => {
+  const current = item[field] as unknown;
+
+  switch (operator) {
+    case 'eq':
+      return current === value;
+    case 'neq':
+      return current !== value;
+    case 'gt':
+      return (current as number) > (value as number);
+    case 'gte':
+      return (current as number) >= (value as number);
+    case 'lt':
+      return (current as number) < (value as number);
+    case 'lte':
+      return (current as number) <= (value as number);
+    case 'contains':
+      return String(current ?? '').toLowerCase().includes(String(value).toLowerCase());
+    case 'in':
+      return Array.isArray(value) && value.includes(current);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Apply filters, sorting and pagination to records held in memory.
+ * Shared by every backend that cannot push the query down to a server.
+ */
+export const applyListOptions = <T extends Identifiable>(
+  records: T[],
+  options: ListOptions<T> = {}
+): ListResult<T> => {
+  const { filters = [], sort, page, pageSize } = options;
+
+  let items = records.filter(item => filters.every(filter => matchesFilter(item, filter)));
+
+  if (sort) {
+    const direction = sort.direction === 'desc' ? -1 : 1;
+    items = [...items].sort((a, b) => {
+      const left = a[sort.field] as unknown;
+      const right = b[sort.field] as unknown;
+      if (left === right) return 0;
+      if (left === undefined || left === null) return 1;
+      if (right === undefined || right === null) return -1;
+      if (typeof left === 'number' && typeof right === 'number') {
+        return (left - right) * direction;
+      }
+      return String(left).localeCompare(String(right)) * direction;
+    });
+  }
+
+  const total = items.length;
+  if (pageSize) {
+    const start = (Math.max(1, page ?? 1) - 1) * pageSize;
+    items = items.slice(start, start + pageSize);
+  }
+
+  return { items, total };
+};
+
+/**
+ * Next id for a collection whose ids are assigned client-side
+ */
+export const nextId = (records: Identifiable[]): number =>
+  records.reduce((max, record) => Math.max(max, record.id), 0) + 1;
+
+/**
+ * Every record matching the options, read page by page so a server-side row cap
+ * cannot silently truncate the collection
+ */
+export const listAll = async <T extends Identifiable>(
+  repository: Repository<T>,
+  options: Omit<ListOptions<T>, 'page' | 'pageSize'> = {}
+): Promise<T[]> => {
+  const records: T[] = [];
+  for (let page = 1; ; page++) {
+    const { items, total } = await repository.list({ ...options, page, pageSize: LIST_ALL_PAGE_SIZE });
+    records.push(...items);
+    if (items.length < LIST_ALL_PAGE_SIZE || records.length >= total) return records;
+  }
+};
@@ -0,0 +1,135 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { FarmTableName, TableMapping } from '../farm-tables';
+import { Identifiable, ListFilter, RecordId, RecordNotFoundError, Repository } from './types';
+
+const FIELD_PROBE = 'probe';
+
+/**
+ * Resolve the column a domain field is stored in by mapping a probe value
+ */
+const columnFor = <N extends FarmTableName, T>(mapping: TableMapping<N, T>, field: string): string => {
+  const row = mapping.toRow({ [field]: FIELD_PROBE } as Partial<T>) as Record<string, unknown>;
+  return Object.keys(row).find(key => row[key] !== undefined) ?? field;
+};
+
+/**
+ * Repository backed by a Supabase table; filters, sorting and paging run in Postgres
+ */
+export const createSupabaseRepository = <N extends FarmTableName, T extends Identifiable>(
+  mapping: TableMapping<N, T>
+): Repository<T> => {
+  const fromRow = (row: Tables<N>): T => ({ ...mapping.fromRow(row), version: row.version });
+  const fromRows = (data: unknown) => (data as Tables<N>[]).map(fromRow);
+  const table = () => supabase.from(mapping.table);
+
+  // The query builder's generics collapse for a table name only known at runtime,
+  // so filters are applied through this narrow structural type.
+  type FilterableQuery = {
+    eq(column: string, value: unknown): FilterableQuery;
+    neq(column: string, value: unknown): FilterableQuery;
+    gt(column: string, value: unknown): FilterableQuery;
+    gte(column: string, value: unknown): FilterableQuery;
+    lt(column: string, value: unknown): FilterableQuery;
+    lte(column: string, value: unknown): FilterableQuery;
+    ilike(column: string, pattern: string): FilterableQuery;
+    in(column: string, values: unknown[]): FilterableQuery;
+  };
+
+  const applyFilter = (query: FilterableQuery, { field, operator = 'eq', value }: ListFilter<T>) => {
+    const column = columnFor(mapping, field);
+    switch (operator) {
+      case 'contains':
+        return query.ilike(column, `%${String(value)}%`);
+      case 'in':
+        return query.in(column, value as unknown[]);
+      default:
+        return query[operator](column, value);
+    }
+  };
+
+  return {
+    name: mapping.table,
+
+    async list({ filters = [], sort, page, pageSize } = {}) {
+      let query = table().select('*', { count: 'exact' });
+      query = filters.reduce(
+        (current, filter) => applyFilter(current as unknown as FilterableQuery, filter) as unknown as typeof query,
+        query
+      );
+
+      const orderColumn = sort ? columnFor(mapping, sort.field) : mapping.orderBy;
+      if (orderColumn) {
+        const ascending = sort ? sort.direction !== 'desc' : mapping.ascending ?? true;
+        query = query.order(orderColumn, { ascending });
+      }
+      if (pageSize) {
+        // A unique tiebreaker keeps rows from moving between pages
+        if (orderColumn !== 'id') query = query.order('id', { ascending: true });
+        const start = (Math.max(1, page ?? 1) - 1) * pageSize;
+        query = query.range(start, start + pageSize - 1);
+      }
+
+      const { data, error, count } = await query;
+      if (error) throw error;
+      const items = fromRows(data);
+      return { items, total: count ?? items.length };
+    },
+
+    async get(id) {
+      const { data, error } = await table().select('*').eq('id', id as never).maybeSingle();
+      if (error) throw error;
+      return data ? fromRow(data as Tables<N>) : null;
+    },
+
+    async create(item) {
+      const { data, error } = await table()
+        .insert(mapping.toRow(item as Partial<T>) as never)
+        .select()
+        .single();
+      if (error) throw error;
+      return fromRow(data as Tables<N>);
+    },
+
+    async update(id, updates) {
+      const { data, error } = await table()
+        .update(mapping.toRow(updates) as never)
+        .eq('id', id as never)
+        .select()
+        .maybeSingle();
+      if (error) throw error;
+      if (!data) throw new RecordNotFoundError(mapping.table, id);
+      return fromRow(data as Tables<N>);
+    },
+
+    async delete(id) {
+      const { error } = await table().delete().eq('id', id as never);
+      if (error) throw error;
+    },
+
+    async bulkCreate(items) {
+      if (items.length === 0) return [];
+      const { data, error } = await table()
+        .insert(items.map(item => mapping.toRow(item as Partial<T>)) as never)
+        .select();
+      if (error) throw error;
+      return fromRows(data);
+    },
+
+    async bulkUpdate(ids: RecordId[], updates) {
+      if (ids.length === 0) return [];
+      const { data, error } = await table()
+        .update(mapping.toRow(updates) as never)
+        .in('id', ids as never)
+        .select();
+      if (error) throw error;
+      return fromRows(data);
+    },
+
+    async bulkDelete(ids) {
+      if (ids.length === 0) return;
+      const { error } = await table().delete().in('id', ids as never);
+      if (error) throw error;
+    }
+  };
+};
@@ -0,0 +1,57 @@
+export type RecordId = number;
+
+export interface Identifiable {
+  id: RecordId;
+  /** Server version stamp, bumped on every update; absent until the record is synced */
+  version?: number;
+}
+
+export type FilterOperator = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'contains' | 'in';
+
+export interface ListFilter<T> {
+  field: keyof T & string;
+  operator?: FilterOperator;
+  value: unknown;
+}
+
+export interface ListSort<T> {
+  field: keyof T & string;
+  direction?: 'asc' | 'desc';
+}
+
+export interface ListOptions<T> {
+  filters?: ListFilter<T>[];
+  sort?: ListSort<T>;
+  /** 1-based page number; ignored without pageSize */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ListResult<T> {
+  items: T[];
+  total: number;
+}
+
+/**
+ * Storage-agnostic access to one collection of records.
+ * Every backend (memory, browser storage, Supabase) implements the same contract.
+ */
+export interface Repository<T extends Identifiable> {
+  /** Collection name, also used as the React Query cache key */
+  readonly name: string;
+  list(options?: ListOptions<T>): Promise<ListResult<T>>;
+  get(id: RecordId): Promise<T | null>;
+  create(item: Omit<T, 'id'>): Promise<T>;
+  update(id: RecordId, updates: Partial<T>): Promise<T>;
+  delete(id: RecordId): Promise<void>;
+  bulkCreate(items: Omit<T, 'id'>[]): Promise<T[]>;
+  bulkUpdate(ids: RecordId[], updates: Partial<T>): Promise<T[]>;
+  bulkDelete(ids: RecordId[]): Promise<void>;
+}
+
+export class RecordNotFoundError extends Error {
+  constructor(collection: string, id: RecordId) {
+    super(`${collection} #${id} introuvable`);
+    this.name = 'RecordNotFoundError';
+  }
+}
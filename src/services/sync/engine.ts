@@ -0,0 +1,340 @@
+import { farmTables, FarmTableName, TableMapping } from '../farm-tables';
+import {
+  getDataBackend,
+  getOfflineCollections,
+  getRepository,
+  Identifiable,
+  listAll,
+  OfflineCollection,
+  RecordId,
+  RecordNotFoundError
+} from '../repository';
+import { readStoredValue, writeStoredValue } from '../repository/indexed-db';
+import { applyMutations, getQueue, subscribeToQueue, SyncConflict, SyncMutation, updateQueue } from './queue';
+
+const LAST_SYNC_KEY = 'sync:lastSync';
+
+export type SyncStatus = 'idle' | 'syncing' | 'offline' | 'error';
+
+export type ConflictChoice = 'local' | 'server';
+
+export interface SyncState {
+  status: SyncStatus;
+  lastSync: Date | null;
+  /** Mutations still waiting for the server, conflicts included */
+  pending: number;
+  conflicts: SyncMutation[];
+  error?: string;
+}
+
+let state: SyncState = { status: 'idle', lastSync: null, pending: 0, conflicts: [] };
+const listeners = new Set<() => void>();
+
+const setState = (changes: Partial<SyncState>) => {
+  state = { ...state, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+const trackQueue = (queue: SyncMutation[]) => {
+  setState({ pending: queue.length, conflicts: queue.filter(mutation => mutation.conflict) });
+};
+
+subscribeToQueue(trackQueue);
+
+let restored: Promise<void> | null = null;
+
+// Pick up the queue and last sync date left by the previous session
+const restoreSyncState = (): Promise<void> => {
+  if (!restored) {
+    restored = Promise.all([getQueue(), readStoredValue<string>(LAST_SYNC_KEY)])
+      .then(([queue, lastSync]) => {
+        trackQueue(queue);
+        if (lastSync) setState({ lastSync: new Date(lastSync) });
+      })
+      .catch(error => {
+        console.error('Unable to restore sync state:', error);
+      });
+  }
+  return restored;
+};
+
+/**
+ * Current sync state, stable between changes (usable with useSyncExternalStore)
+ */
+export const getSyncState = (): SyncState => state;
+
+/**
+ * Be told whenever the sync state changes
+ */
+export const subscribeToSync = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  restoreSyncState();
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+
+// The server answered with an error (constraint, trigger, row policy); anything else means it was not reached
+const isRejection = (error: unknown) =>
+  error instanceof RecordNotFoundError || !!(error as { code?: string } | null)?.code;
+
+const sameRecord = (mutation: SyncMutation, collection: FarmTableName, recordId: RecordId) =>
+  mutation.collection === collection && mutation.recordId === recordId;
+
+// Only Supabase tables have a server to sync with; the other backends are local already
+const syncedCollections = (): Map<FarmTableName, OfflineCollection> => {
+  if (getDataBackend() !== 'supabase') return new Map();
+  farmTables.forEach(mapping => getRepository(mapping as TableMapping<FarmTableName, Identifiable>));
+  return getOfflineCollections();
+};
+
+/**
+ * A record created offline got its real id: rewrite the local copy, queued
+ * mutations and every field referencing the temporary id.
+ */
+const remapRecord = async (
+  collections: Map<FarmTableName, OfflineCollection>,
+  mutation: SyncMutation,
+  created: Identifiable
+) => {
+  const { collection, recordId } = mutation;
+  const referencing = farmTables.flatMap(mapping =>
+    Object.entries(mapping.references ?? {})
+      .filter(([, table]) => table === collection)
+      .map(([field]) => ({ table: mapping.table as FarmTableName, field }))
+  );
+
+  await collections.get(collection)?.local.replace(records =>
+    records.map(record => record.id === recordId ? { ...record, id: created.id, version: created.version } : record)
+  );
+
+  for (const { table, field } of referencing) {
+    await collections.get(table)?.local.replace(records =>
+      records.map(record => {
+        const values = record as unknown as Record<string, unknown>;
+        return values[field] === recordId ? { ...record, [field]: created.id } : record;
+      })
+    );
+  }
+
+  await updateQueue(queue => queue
+    .filter(entry => entry.id !== mutation.id)
+    .map(entry => {
+      let next = entry;
+      if (sameRecord(entry, collection, recordId)) {
+        next = { ...next, recordId: created.id, baseVersion: created.version };
+      }
+      referencing
+        .filter(({ table, field }) => entry.collection === table && entry.payload?.[field] === recordId)
+        .forEach(({ field }) => {
+          next = { ...next, payload: { ...next.payload, [field]: created.id } };
+        });
+      return next;
+    }));
+};
+
+/**
+ * An update went through: later changes made against the same base version now apply to the new one
+ */
+const restampRecord = async (
+  collections: Map<FarmTableName, OfflineCollection>,
+  mutation: SyncMutation,
+  version?: number
+) => {
+  await collections.get(mutation.collection)?.local.replace(records =>
+    records.map(record => record.id === mutation.recordId ? { ...record, version } : record)
+  );
+  await updateQueue(queue => queue
+    .filter(entry => entry.id !== mutation.id)
+    .map(entry =>
+      sameRecord(entry, mutation.collection, mutation.recordId) && entry.baseVersion === mutation.baseVersion
+        ? { ...entry, baseVersion: version }
+        : entry
+    ));
+};
+
+const isStale = (mutation: SyncMutation, server: Identifiable) =>
+  mutation.baseVersion !== undefined && server.version !== mutation.baseVersion;
+
+/**
+ * Send one mutation to the server. Returns the conflict instead when the record
+ * changed (or disappeared) there since the user last saw it.
+ */
+const replayMutation = async (
+  collections: Map<FarmTableName, OfflineCollection>,
+  { remote }: OfflineCollection,
+  mutation: SyncMutation
+): Promise<SyncConflict | null> => {
+  const conflict = (serverRecord: Identifiable | null): SyncConflict => ({
+    serverRecord,
+    detectedAt: new Date().toISOString()
+  });
+
+  if (mutation.operation === 'create') {
+    const created = await remote.create(mutation.payload as Omit<Identifiable, 'id'>);
+    await remapRecord(collections, mutation, created);
+    return null;
+  }
+
+  const server = await remote.get(mutation.recordId);
+
+  if (mutation.operation === 'delete') {
+    if (server && isStale(mutation, server)) return conflict(server);
+    if (server) await remote.delete(mutation.recordId);
+    await updateQueue(queue => queue.filter(entry => entry.id !== mutation.id));
+    return null;
+  }
+
+  if (!server || isStale(mutation, server)) return conflict(server);
+  const updated = await remote.update(mutation.recordId, mutation.payload as Partial<Identifiable>);
+  await restampRecord(collections, mutation, updated.version);
+  return null;
+};
+
+/**
+ * The server refused the mutation: keep it queued as a conflict showing the reason,
+ * with the record as the server has it when it can still be read
+ */
+const rejectMutation = async (
+  { remote }: OfflineCollection,
+  mutation: SyncMutation,
+  error: unknown
+): Promise<SyncConflict> => ({
+  serverRecord: mutation.operation === 'create' ? null : await remote.get(mutation.recordId).catch(() => null),
+  detectedAt: new Date().toISOString(),
+  rejection: errorMessage(error)
+});
+
+/**
+ * Replay the queue oldest first. A record in conflict, or whose change the server
+ * refused, holds back its later mutations; changes to other records keep going.
+ */
+const replayQueue = async (collections: Map<FarmTableName, OfflineCollection>) => {
+  const visited = new Set<string>();
+  const blocked = new Set<string>();
+
+  for (;;) {
+    const next = (await getQueue()).find(mutation => !visited.has(mutation.id));
+    if (!next) return;
+    visited.add(next.id);
+
+    const key = `${next.collection}:${next.recordId}`;
+    const collection = collections.get(next.collection);
+    if (!collection || next.conflict || blocked.has(key)) {
+      blocked.add(key);
+      continue;
+    }
+
+    let conflict: SyncConflict | null;
+    try {
+      conflict = await replayMutation(collections, collection, next);
+    } catch (error) {
+      if (!isRejection(error)) throw error;
+      console.error(`Sync rejected ${next.operation} on ${key}:`, error);
+      conflict = await rejectMutation(collection, next, error);
+    }
+    if (conflict) {
+      blocked.add(key);
+      await updateQueue(queue => queue.map(mutation => mutation.id === next.id ? { ...mutation, conflict } : mutation));
+    }
+  }
+};
+
+/**
+ * Refresh the local copy from the server, keeping the changes still queued on top
+ */
+const pullCollection = async ({ mapping, local, remote }: OfflineCollection) => {
+  const items = await listAll(remote);
+  const queued = (await getQueue()).filter(mutation => mutation.collection === mapping.table);
+  await local.replace(() => applyMutations(items, queued));
+};
+
+const runSync = async (offline: boolean): Promise<SyncState> => {
+  await restoreSyncState();
+
+  if (offline || !navigator.onLine) {
+    setState({ status: 'offline' });
+    return state;
+  }
+
+  setState({ status: 'syncing', error: undefined });
+  try {
+    const collections = syncedCollections();
+    await replayQueue(collections);
+    for (const collection of collections.values()) {
+      await pullCollection(collection);
+    }
+    const lastSync = new Date();
+    await writeStoredValue(LAST_SYNC_KEY, lastSync.toISOString());
+    setState({ status: 'idle', lastSync });
+  } catch (error) {
+    console.error('Sync failed:', error);
+    setState({ status: 'error', error: errorMessage(error) });
+  }
+  return state;
+};
+
+let running: Promise<SyncState> | null = null;
+
+/**
+ * Push queued mutations, then pull every table. Calls made while a sync is
+ * running share it. With `offline` (or no connection) nothing leaves the device.
+ */
+export const synchronize = ({ offline = false }: { offline?: boolean } = {}): Promise<SyncState> => {
+  if (!running) {
+    running = runSync(offline).finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+/**
+ * Settle a conflict: `local` re-applies the queued change on top of the server
+ * version (or retries a refused one as is), `server` drops the local changes to that record.
+ */
+export const resolveConflict = async (mutationId: string, choice: ConflictChoice): Promise<void> => {
+  const mutation = (await getQueue()).find(entry => entry.id === mutationId);
+  if (!mutation?.conflict) return;
+
+  const { collection, recordId } = mutation;
+  const { serverRecord } = mutation.conflict;
+  const local = syncedCollections().get(collection)?.local;
+
+  if (choice === 'server') {
+    await updateQueue(queue => queue.filter(entry => !sameRecord(entry, collection, recordId)));
+    await local?.replace(records => {
+      const others = records.filter(record => record.id !== recordId);
+      return serverRecord ? [...others, serverRecord] : others;
+    });
+    return;
+  }
+
+  if (mutation.conflict.rejection) {
+    await updateQueue(queue => queue.map(entry => {
+      if (entry.id !== mutation.id) return entry;
+      const { conflict, ...retried } = entry;
+      return retried;
+    }));
+    return;
+  }
+
+  // Deleted on the server: keeping ours means creating the record again
+  const localRecord = serverRecord ? null : await local?.get(recordId);
+  await updateQueue(queue => queue.map(entry => {
+    if (entry.id === mutation.id) {
+      const { conflict, ...retried } = entry;
+      if (localRecord) {
+        const { id, version, ...payload } = localRecord;
+        return { ...retried, operation: 'create', payload, baseVersion: undefined };
+      }
+      return { ...retried, baseVersion: serverRecord?.version };
+    }
+    return sameRecord(entry, collection, recordId) && entry.baseVersion === mutation.baseVersion
+      ? { ...entry, baseVersion: serverRecord?.version }
+      : entry;
+  }));
+};
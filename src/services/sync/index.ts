@@ -0,0 +1,4 @@
+export { getQueue, subscribeToQueue } from './queue';
+export type { SyncConflict, SyncMutation, SyncOperation } from './queue';
+export { getSyncState, resolveConflict, subscribeToSync, synchronize } from './engine';
+export type { ConflictChoice, SyncState, SyncStatus } from './engine';
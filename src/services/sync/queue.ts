@@ -0,0 +1,115 @@
+import type { FarmTableName } from '../farm-tables';
+import { readStoredValue, writeStoredValue } from '../repository/indexed-db';
+import type { Identifiable, RecordId } from '../repository/types';
+
+const QUEUE_KEY = 'sync:queue';
+
+export type SyncOperation = 'create' | 'update' | 'delete';
+
+export interface SyncConflict {
+  /** Record as currently stored on the server; null when it was deleted there */
+  serverRecord: Identifiable | null;
+  detectedAt: string;
+  /** Why the server refused the change (constraint, trigger, permission), when it did */
+  rejection?: string;
+}
+
+/**
+ * A local write waiting to be replayed against the server.
+ * Payloads are domain objects, replayed through the table's remote repository.
+ */
+export interface SyncMutation {
+  id: string;
+  collection: FarmTableName;
+  operation: SyncOperation;
+  recordId: RecordId;
+  payload?: Record<string, unknown>;
+  /** Server version the change was made against; absent for records created offline */
+  baseVersion?: number;
+  queuedAt: string;
+  conflict?: SyncConflict;
+}
+
+export type QueuedMutation = Omit<SyncMutation, 'id' | 'queuedAt'>;
+
+type QueueListener = (queue: SyncMutation[]) => void;
+
+let queue: SyncMutation[] | null = null;
+let pending: Promise<unknown> = Promise.resolve();
+let sequence = 0;
+const listeners = new Set<QueueListener>();
+
+const load = async (): Promise<SyncMutation[]> => {
+  if (!queue) {
+    queue = (await readStoredValue<SyncMutation[]>(QUEUE_KEY)) ?? [];
+  }
+  return queue;
+};
+
+/**
+ * Rewrite the queue. Changes are serialized and persisted before listeners hear about them.
+ */
+export const updateQueue = (change: (current: SyncMutation[]) => SyncMutation[]): Promise<SyncMutation[]> => {
+  const run = pending.then(async () => {
+    const next = change(await load());
+    await writeStoredValue(QUEUE_KEY, next);
+    queue = next;
+    listeners.forEach(listener => listener(next));
+    return next;
+  });
+  pending = run.catch(() => undefined);
+  return run;
+};
+
+/**
+ * Current queue, oldest mutation first
+ */
+export const getQueue = async (): Promise<SyncMutation[]> => {
+  await pending;
+  return load();
+};
+
+/**
+ * Append a mutation to the end of the queue
+ */
+export const enqueue = async (mutation: QueuedMutation): Promise<SyncMutation> => {
+  const entry: SyncMutation = {
+    ...mutation,
+    id: `${Date.now().toString(36)}-${(sequence++).toString(36)}`,
+    queuedAt: new Date().toISOString()
+  };
+  await updateQueue(current => [...current, entry]);
+  return entry;
+};
+
+/**
+ * Be told whenever the queue changes
+ */
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Replay queued mutations on top of records, giving the state the user expects to see
+ */
+export const applyMutations = <T extends Identifiable>(records: T[], mutations: SyncMutation[]): T[] =>
+  mutations.reduce((current, mutation) => {
+    switch (mutation.operation) {
+      case 'create':
+        return [
+          ...current.filter(record => record.id !== mutation.recordId),
+          { ...mutation.payload, id: mutation.recordId } as T
+        ];
+      case 'update':
+        return current.map(record =>
+          record.id === mutation.recordId ? { ...record, ...mutation.payload } : record
+        );
+      case 'delete':
+        return current.filter(record => record.id !== mutation.recordId);
+      default:
+        return current;
+    }
+  }, records);
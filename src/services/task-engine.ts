@@ -0,0 +1,81 @@
+import { getRepository } from './repository';
+import { taskRecurrenceTable, taskTable, taskTemplateItemTable } from './farm-tables';
+import { assertHarvestsAllowed, blockedHarvests } from './phytosanitary';
+import type { CropData, CropTask, TaskRecurrence } from '@/types/farm';
+import { isoDay } from '@/utils/crop-calendar';
+import { occurrenceOf, recurrenceTasks, templateTasks } from '@/utils/task-engine';
+
+/**
+ * Create the occurrences of every enabled recurrence due up to the horizon. Running it
+ * again only adds the days that came into range. A harvest falling within the
+ * pre-harvest interval of a treatment waits for a later run.
+ */
+export const generateRecurringTasks = async (today = isoDay(new Date())) => {
+  const taskRepository = getRepository(taskTable);
+  const [{ items: recurrences }, { items: tasks }] = await Promise.all([
+    getRepository(taskRecurrenceTable).list(),
+    taskRepository.list()
+  ]);
+  const due = recurrences.flatMap(recurrence => recurrenceTasks(recurrence, tasks, today));
+  const blocked = new Set((await blockedHarvests(due)).map(({ task }) => task));
+  const created = due.filter(task => !blocked.has(task));
+  if (created.length > 0) await taskRepository.bulkCreate(created);
+  return created.length;
+};
+
+/**
+ * Store a recurrence and create its first occurrences. A harvest recurrence is refused
+ * when one of them falls within the pre-harvest interval of a treatment.
+ */
+export const createRecurrence = async (draft: Omit<TaskRecurrence, 'id'>, today = isoDay(new Date())) => {
+  await assertHarvestsAllowed(recurrenceTasks({ ...draft, id: 0 }, [], today));
+  const recurrence = await getRepository(taskRecurrenceTable).create(draft);
+  const taskRepository = getRepository(taskTable);
+  const { items: tasks } = await taskRepository.list();
+  const created = recurrenceTasks(recurrence, tasks, today);
+  if (created.length > 0) await taskRepository.bulkCreate(created);
+  return { recurrence, created: created.length };
+};
+
+/**
+ * Remember on its recurrence that an occurrence is being deleted, so later runs do not
+ * create it again
+ */
+export const skipOccurrence = async (task: Pick<CropTask, 'recurrenceId' | 'date' | 'occurrenceDate'>) => {
+  if (task.recurrenceId === undefined) return;
+  const recurrences = getRepository(taskRecurrenceTable);
+  const recurrence = await recurrences.get(task.recurrenceId);
+  const skipped = recurrence?.skippedDates ?? [];
+  const date = occurrenceOf(task);
+  if (recurrence && !skipped.includes(date)) await recurrences.update(recurrence.id, { skippedDates: [...skipped, date] });
+};
+
+/**
+ * Delete a recurrence with its open occurrences from today on; done and missed ones
+ * stay in the history
+ */
+export const deleteRecurrence = async (recurrence: TaskRecurrence, today = isoDay(new Date())) => {
+  const taskRepository = getRepository(taskTable);
+  const { items: tasks } = await taskRepository.list();
+  const upcoming = tasks.filter(task => task.recurrenceId === recurrence.id && !task.completed && task.date >= today);
+  if (upcoming.length > 0) await taskRepository.bulkDelete(upcoming.map(task => task.id));
+  await getRepository(taskRecurrenceTable).delete(recurrence.id);
+  return upcoming.length;
+};
+
+/**
+ * Create the tasks of a template for a crop cycle; already created ones are skipped. The
+ * template is refused when one of its harvests falls within the pre-harvest interval of
+ * a treatment.
+ */
+export const applyTemplate = async (templateId: number, crop: CropData, today = isoDay(new Date())) => {
+  const taskRepository = getRepository(taskTable);
+  const [{ items }, { items: tasks }] = await Promise.all([
+    getRepository(taskTemplateItemTable).list(),
+    taskRepository.list()
+  ]);
+  const created = templateTasks(items.filter(item => item.templateId === templateId), crop, tasks, today);
+  await assertHarvestsAllowed(created);
+  if (created.length > 0) await taskRepository.bulkCreate(created);
+  return created.length;
+};
@@ -0,0 +1,48 @@
+import { getRepository } from './repository';
+import { weatherAlertRuleTable, weatherAlertTable, weatherDayTable, weatherStationTable } from './farm-tables';
+import { activatePreparedness } from './cyclone-preparedness';
+import type { WeatherAlert } from '@/types/farm';
+import { isCycloneAlert } from '@/utils/cyclone-preparedness';
+import { planAlerts } from '@/utils/weather-alerts';
+import { localDay } from '@/utils/weather-series';
+
+export interface WeatherAlertRunSummary {
+  created: number;
+  /** Alerts whose dates, value or status changed */
+  updated: number;
+  /** Cyclone checklist tasks created for open tropical storm alerts */
+  preparednessTasks: number;
+}
+
+/**
+ * Evaluate the alert rules against every stored daily aggregate and bring the stored
+ * alerts in line: new episodes become alerts, cleared or stale ones are closed. Open
+ * tropical storm alerts then get their preparedness checklists.
+ */
+export const runWeatherAlertEngine = async (now = new Date()): Promise<WeatherAlertRunSummary> => {
+  const alerts = getRepository(weatherAlertTable);
+  const [{ items: rules }, { items: stations }, { items: days }, { items: stored }] = await Promise.all([
+    getRepository(weatherAlertRuleTable).list(),
+    getRepository(weatherStationTable).list(),
+    getRepository(weatherDayTable).list(),
+    alerts.list()
+  ]);
+
+  const plan = planAlerts(rules, stations, days, stored, now);
+  const created = plan.create.length > 0 ? await alerts.bulkCreate(plan.create) : [];
+  const updated: WeatherAlert[] = [];
+  for (const { id, changes } of plan.update) {
+    updated.push(await alerts.update(id, changes));
+  }
+
+  const current = [
+    ...stored.filter(alert => !updated.some(item => item.id === alert.id)),
+    ...updated,
+    ...created
+  ];
+  let preparednessTasks = 0;
+  for (const alert of current.filter(isCycloneAlert)) {
+    preparednessTasks += await activatePreparedness(alert, localDay(now.toISOString()));
+  }
+  return { created: created.length, updated: plan.update.length, preparednessTasks };
+};
@@ -0,0 +1,123 @@
+import { getRepository } from './repository';
+import { weatherDayTable, weatherObservationTable, weatherStationTable } from './farm-tables';
+import type { WeatherDay, WeatherObservation, WeatherStation } from '@/types/farm';
+import type { ImportedObservation, WeatherFormat } from '@/utils/weather-import';
+import { aggregateDays, localDay } from '@/utils/weather-series';
+
+export interface WeatherImportSummary {
+  created: number;
+  /** Observations already stored for the same station and time */
+  duplicates: number;
+  /** Codes matching no station; their observations are not imported */
+  unknownStations: string[];
+  /** Daily aggregates created or recomputed */
+  days: number;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const sameDay = (day: WeatherDay, aggregate: Omit<WeatherDay, 'id' | 'stationId'>) =>
+  day.tMean === aggregate.tMean && day.tMin === aggregate.tMin && day.tMax === aggregate.tMax
+  && day.humidity === aggregate.humidity && day.rain === aggregate.rain
+  && day.observations === aggregate.observations && day.windMax === aggregate.windMax;
+
+/**
+ * Recompute the daily aggregates of the given local days of a station from its stored
+ * observations, creating or updating the `weather_daily` rows
+ */
+export const refreshDailyAggregates = async (stationId: number, dates: string[]): Promise<number> => {
+  if (dates.length === 0) return 0;
+  const observations = getRepository(weatherObservationTable);
+  const daily = getRepository(weatherDayTable);
+  const sorted = [...dates].sort();
+
+  // Local days start four hours after UTC midnight; a day's readings fit in this range
+  const { items: readings } = await observations.list({
+    filters: [
+      { field: 'stationId', value: stationId },
+      { field: 'observedAt', operator: 'gte', value: new Date(`${sorted[0]}T00:00:00Z`).toISOString() },
+      { field: 'observedAt', operator: 'lt', value: new Date(new Date(`${sorted[sorted.length - 1]}T00:00:00Z`).getTime() + 30 * HOUR).toISOString() }
+    ]
+  });
+  const { items: stored } = await daily.list({
+    filters: [
+      { field: 'stationId', value: stationId },
+      { field: 'date', operator: 'in', value: sorted }
+    ]
+  });
+
+  const aggregates = aggregateDays(readings).filter(aggregate => sorted.includes(aggregate.date));
+  const created = aggregates.filter(aggregate => !stored.some(day => day.date === aggregate.date));
+  if (created.length > 0) {
+    await daily.bulkCreate(created.map(aggregate => ({ ...aggregate, stationId })));
+  }
+  const changed = aggregates
+    .map(aggregate => ({ aggregate, day: stored.find(day => day.date === aggregate.date) }))
+    .filter((pair): pair is { aggregate: typeof pair.aggregate; day: WeatherDay } =>
+      pair.day !== undefined && !sameDay(pair.day, pair.aggregate));
+  for (const { aggregate, day } of changed) {
+    await daily.update(day.id, aggregate);
+  }
+  return created.length + changed.length;
+};
+
+/**
+ * Store imported observations under their stations, skipping readings already stored,
+ * then recompute the daily aggregates of every day they touch
+ */
+export const importWeatherObservations = async (
+  imported: ImportedObservation[],
+  format: WeatherFormat
+): Promise<WeatherImportSummary> => {
+  const { items: stations } = await getRepository(weatherStationTable).list();
+  const observations = getRepository(weatherObservationTable);
+  const stationByCode = new Map(stations.map(station => [station.code.trim(), station]));
+
+  const unknownStations = Array.from(new Set(
+    imported.map(observation => observation.stationCode).filter(code => !stationByCode.has(code))
+  ));
+
+  const byStation = new Map<WeatherStation, ImportedObservation[]>();
+  imported.forEach(observation => {
+    const station = stationByCode.get(observation.stationCode);
+    if (station) byStation.set(station, [...(byStation.get(station) ?? []), observation]);
+  });
+
+  let created = 0;
+  let duplicates = 0;
+  let days = 0;
+  for (const [station, readings] of byStation) {
+    const times = readings.map(reading => new Date(reading.observedAt).getTime());
+    // Stored times may be written with another offset notation, so the range is widened
+    // and the comparison made on instants
+    const { items: existing } = await observations.list({
+      filters: [
+        { field: 'stationId', value: station.id },
+        { field: 'observedAt', operator: 'gte', value: new Date(Math.min(...times) - HOUR).toISOString() },
+        { field: 'observedAt', operator: 'lte', value: new Date(Math.max(...times) + HOUR).toISOString() }
+      ]
+    });
+    const seen = new Set(existing.map(observation => new Date(observation.observedAt).getTime()));
+
+    const fresh: Omit<WeatherObservation, 'id'>[] = [];
+    readings.forEach(({ stationCode: _code, ...reading }) => {
+      const time = new Date(reading.observedAt).getTime();
+      if (seen.has(time)) {
+        duplicates++;
+        return;
+      }
+      seen.add(time);
+      fresh.push({ ...reading, stationId: station.id, region: station.region, source: format });
+    });
+    if (fresh.length === 0) continue;
+
+    await observations.bulkCreate(fresh);
+    created += fresh.length;
+    days += await refreshDailyAggregates(
+      station.id,
+      Array.from(new Set(fresh.map(observation => localDay(observation.observedAt))))
+    );
+  }
+
+  return { created, duplicates, unknownStations, days };
+};
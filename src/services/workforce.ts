@@ -0,0 +1,114 @@
+import { getRepository } from './repository';
+import {
+  budgetTable,
+  financialTransactionTable,
+  parcelTable,
+  taskTable,
+  timeEntryTable,
+  workerTable
+} from './farm-tables';
+import type { TimeEntry, Worker } from '@/types/farm';
+import { isoDay } from '@/utils/crop-calendar';
+import {
+  LABOR_BUDGET_CATEGORY,
+  TimesheetError,
+  clockedHours,
+  entryCost,
+  laborBudgetLine,
+  laborTransaction,
+  openEntry,
+  timeEntryError
+} from '@/utils/workforce';
+
+// Task or parcel the time was spent on, for the expense label
+const entryTarget = async (entry: Omit<TimeEntry, 'id'>) => {
+  if (entry.taskId) return (await getRepository(taskTable).get(entry.taskId))?.title;
+  if (entry.parcelId) return (await getRepository(parcelTable).get(entry.parcelId))?.name;
+  return undefined;
+};
+
+/**
+ * Give the year a labor budget line when it has none. Its actual is computed from the
+ * timesheets wherever it is shown (withLaborActuals), never added to here.
+ */
+const openLaborBudget = async (year: number) => {
+  const budgets = getRepository(budgetTable);
+  if (laborBudgetLine((await budgets.list()).items, year)) return;
+  await budgets.create({ category: LABOR_BUDGET_CATEGORY, planned: 0, actual: 0, color: '#FFC107', year, period: 'annual' });
+};
+
+const yearOf = (entry: Pick<TimeEntry, 'date'>) => Number(entry.date.slice(0, 4));
+
+/**
+ * Store a time entry. Once it has hours, its cost is booked as an expense, kept in step
+ * when the entry is edited, and counts in the year's labor budget.
+ */
+export const saveTimeEntry = async (draft: Omit<TimeEntry, 'id' | 'transactionId'>, existing?: TimeEntry) => {
+  const error = timeEntryError(draft);
+  if (error) throw new TimesheetError(error);
+
+  const transactions = getRepository(financialTransactionTable);
+  const entries = getRepository(timeEntryTable);
+  let transactionId = existing?.transactionId;
+  const booked = transactionId ? await transactions.get(transactionId) : null;
+
+  if (draft.hours === undefined) {
+    if (booked) await transactions.delete(booked.id);
+    transactionId = undefined;
+  } else {
+    const worker = await getRepository(workerTable).get(draft.workerId);
+    if (!worker) throw new TimesheetError('Employé introuvable');
+    const transaction = laborTransaction(draft, worker, await entryTarget(draft));
+    transactionId = booked ? (await transactions.update(booked.id, transaction)).id : (await transactions.create(transaction)).id;
+  }
+
+  if (entryCost(draft) > 0) await openLaborBudget(yearOf(draft));
+
+  return existing
+    ? entries.update(existing.id, { ...draft, transactionId })
+    : entries.create({ ...draft, transactionId });
+};
+
+/** Delete a time entry with the expense it booked */
+export const deleteTimeEntry = async (entry: TimeEntry) => {
+  if (entry.transactionId) {
+    const transactions = getRepository(financialTransactionTable);
+    if (await transactions.get(entry.transactionId)) await transactions.delete(entry.transactionId);
+  }
+  await getRepository(timeEntryTable).delete(entry.id);
+};
+
+/** Start the clock of a worker on a task or a parcel */
+export const clockIn = async (
+  worker: Worker,
+  target: Pick<TimeEntry, 'taskId' | 'parcelId' | 'notes'>,
+  now = new Date()
+) => {
+  const entries = getRepository(timeEntryTable);
+  if (openEntry((await entries.list()).items, worker.id)) {
+    throw new TimesheetError(`${worker.name} est déjà pointé`);
+  }
+  return entries.create({
+    ...target,
+    workerId: worker.id,
+    date: isoDay(now),
+    startedAt: now.toISOString(),
+    hourlyRate: worker.hourlyRate
+  });
+};
+
+/** Stop the clock: the entry gets its hours and its cost is booked */
+export const clockOut = async (entry: TimeEntry, now = new Date()) => {
+  if (!entry.startedAt) throw new TimesheetError('Cette saisie n\'est pas pointée');
+  const { id: _id, transactionId: _transactionId, ...draft } = entry;
+  return saveTimeEntry({ ...draft, hours: clockedHours(entry.startedAt, now) }, entry);
+};
+
+/** Delete a worker who never logged time; the others are deactivated to keep their history */
+export const deleteWorker = async (worker: Worker) => {
+  const { items } = await getRepository(timeEntryTable).list();
+  if (items.some(entry => entry.workerId === worker.id)) {
+    throw new TimesheetError(`${worker.name} a des heures enregistrées, désactivez-le plutôt`);
+  }
+  await getRepository(workerTable).delete(worker.id);
+};
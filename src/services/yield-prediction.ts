@@ -0,0 +1,75 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { PredictionProviderName, YieldPredictionInputs, YieldPredictionRecord } from '@/types/farm';
+
+export interface DiseaseRisk {
+  name: string;
+  riskLevel: string;
+  conditions: string;
+  yieldImpact: string;
+}
+
+export interface Interval {
+  lower: number;
+  upper: number;
+  level: number;
+}
+
+// Mirrors PredictionResponse in supabase/functions/predict-yield/providers.ts
+export interface PredictionResult {
+  yieldPerHectare: number;
+  totalProduction: number;
+  confidenceLevel: number;
+  qualityGrade: string;
+  diseaseRisks: DiseaseRisk[];
+  keyFactors: string[];
+  recommendations: string[];
+  analysis: string;
+  yieldInterval: Interval;
+  totalProductionInterval: Interval;
+  model: {
+    method: string;
+    version: number;
+    trainedOn: string | null;
+    samples: number;
+  };
+  provider: {
+    name: PredictionProviderName;
+    fallbackFrom?: PredictionProviderName;
+    fallbackReason?: string;
+  };
+}
+
+/**
+ * Calls the predict-yield function; rejects with the function's error message
+ */
+export const requestYieldPrediction = async (inputs: YieldPredictionInputs): Promise<PredictionResult> => {
+  const { data, error } = await supabase.functions.invoke('predict-yield', { body: inputs });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data as PredictionResult;
+};
+
+/**
+ * Prediction history entry for an answer of the predict-yield function
+ */
+export const predictionRecord = (
+  inputs: YieldPredictionInputs,
+  result: PredictionResult,
+  link: Pick<YieldPredictionRecord, 'parcelId' | 'cropCycleId'> = {}
+): Omit<YieldPredictionRecord, 'id'> => ({
+  parcelId: link.parcelId,
+  cropCycleId: link.cropCycleId,
+  crop: inputs.cropType,
+  provider: result.provider.name,
+  fallbackFrom: result.provider.fallbackFrom,
+  method: result.model.method,
+  modelVersion: result.model.version,
+  inputs,
+  area: inputs.area,
+  yieldPerHectare: result.yieldPerHectare,
+  yieldLower: result.yieldInterval.lower,
+  yieldUpper: result.yieldInterval.upper,
+  intervalLevel: result.yieldInterval.level,
+  confidenceLevel: result.confidenceLevel,
+  predictedAt: new Date().toISOString()
+});
@@ -0,0 +1,522 @@
+// Domain types shared by the farm modules and the data-access layer.
+
+import type { LineString, Polygon } from 'geojson';
+
+export type ParcelStatus = 'active' | 'inactive' | 'planned';
+export type CropStatus = 'growing' | 'harvested' | 'planned';
+export type TaskPriority = 'high' | 'medium' | 'low';
+export type StockMovementType = 'receipt' | 'issue' | 'adjustment' | 'transfer';
+export type ValuationMethod = 'fifo' | 'weighted_average';
+export type FinancialTransactionType = 'income' | 'expense';
+export type IrrigationLineKind = 'main' | 'lateral' | 'drip' | 'canal';
+export type CultureType = 'vegetables' | 'fruits' | 'tubers' | 'cash';
+export type CropSeason = 'careme' | 'hivernage';
+export type RotationRuleKind = 'consecutive_family' | 'return_interval' | 'forbidden_sequence';
+export type RotationRuleSeverity = 'warning' | 'error';
+export type PredictionProviderName = 'local' | 'heuristic' | 'gateway';
+export type HarvestQuality = 'Excellent' | 'Good' | 'Average' | 'Poor';
+export type WeatherAlertType = 'Heavy Rain' | 'Tropical Storm' | 'Drought' | 'Excessive Heat' | 'Flood';
+export type AlertSeverity = 'Low' | 'Medium' | 'High' | 'Extreme';
+export type CropImpact = 'Light' | 'Moderate' | 'Severe';
+export type WeatherAlertStatus = 'Active' | 'Completed' | 'Scheduled' | 'Expired';
+export type WeatherMetric = 'rain' | 't_max' | 't_min' | 't_mean' | 'humidity' | 'wind_max';
+export type WeatherAggregation = 'sum' | 'mean' | 'max' | 'min';
+export type RuleComparison = 'above' | 'below';
+export type ChecklistScope = 'parcel' | 'asset';
+export type DamageCategory = 'crop' | 'equipment' | 'stock' | 'infrastructure';
+
+export interface ParcelData {
+  id: number;
+  name: string;
+  area: number;
+  crop: string;
+  status: ParcelStatus;
+  lastActivity: string;
+  soilType: string;
+  coordinates: { lat: number; lng: number };
+  /** Field boundary in WGS84; `coordinates` is kept at its centroid */
+  boundary?: Polygon;
+  irrigation?: string;
+  plantingDate?: string;
+  harvestDate?: string;
+  owner?: string;
+  rainfall?: number;
+  notes?: string;
+  ph?: number;
+  organicMatter?: number;
+  /** Soil analysis nutrients, kg/ha */
+  nitrogen?: number;
+  phosphorus?: number;
+  potassium?: number;
+}
+
+export interface IrrigationLine {
+  id: number;
+  parcelId?: number;
+  name: string;
+  kind: IrrigationLineKind;
+  /** Pipe or canal course in WGS84 */
+  path: LineString;
+  notes?: string;
+}
+
+/** Water applied to a parcel on a day */
+export interface IrrigationEvent {
+  id: number;
+  parcelId: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** m³ at the parcel's inlet */
+  volume: number;
+  notes?: string;
+}
+
+/** Reference sheet of a crop grown on the farm */
+export interface Culture {
+  id: number;
+  name: string;
+  scientificName: string;
+  family: string;
+  origin: string;
+  growingSeason: string;
+  soilType: string;
+  waterNeeds: string;
+  fertilization: string;
+  pests: string;
+  diseases: string;
+  notes: string;
+  type: CultureType;
+  harvestPeriod: string;
+  yieldPerHectare: string;
+}
+
+/** One crop cycle on a parcel, lasting until the parcel's next entry */
+export interface CropHistoryEntry {
+  id: number;
+  parcelId: number;
+  year: number;
+  season: CropSeason;
+  crop: string;
+  /** t/ha */
+  yield?: number;
+  notes?: string;
+}
+
+export interface RotationRule {
+  id: number;
+  name: string;
+  kind: RotationRuleKind;
+  /** Crop or family the rule applies to; empty for every crop */
+  subject?: string;
+  /** Preceding crop or family, for forbidden sequences */
+  follows?: string;
+  /** Years between two cycles, for return intervals */
+  minInterval?: number;
+  severity: RotationRuleSeverity;
+  message?: string;
+  enabled: boolean;
+}
+
+export interface CropData {
+  id: number;
+  name: string;
+  variety: string;
+  parcel: string;
+  parcelId?: number;
+  plantingDate: string;
+  harvestDate: string;
+  status: CropStatus;
+  area: number;
+}
+
+export interface CropTask {
+  id: number;
+  cropId: number;
+  parcelId?: number;
+  title: string;
+  date: string;
+  completed: boolean;
+  priority: TaskPriority;
+  notes?: string;
+  /** Person the task is assigned to */
+  assignee?: string;
+  /** Worker the task is assigned to; `assignee` then holds their name */
+  workerId?: number;
+  /** Recurrence the task was generated from */
+  recurrenceId?: number;
+  /** Day the recurrence scheduled the task on; it stays when the task is moved */
+  occurrenceDate?: string;
+  /** Template line the task was generated from */
+  templateItemId?: number;
+  /** Alert whose preparedness checklist the task belongs to */
+  weatherAlertId?: number;
+  preparednessItemId?: number;
+  /** Stock item the task secures */
+  inventoryItemId?: number;
+  /** Harvest, refused within the pre-harvest interval of a treatment */
+  harvest?: boolean;
+}
+
+/** Task repeated by an RRULE-style rule, such as `FREQ=DAILY;INTERVAL=14` */
+export interface TaskRecurrence {
+  id: number;
+  title: string;
+  cropId?: number;
+  parcelId?: number;
+  assignee?: string;
+  workerId?: number;
+  priority: TaskPriority;
+  notes?: string;
+  rule: string;
+  /** YYYY-MM-DD of the first occurrence */
+  startDate: string;
+  endDate?: string;
+  enabled: boolean;
+  /** YYYY-MM-DD of the occurrences the user deleted, not generated again */
+  skippedDates?: string[];
+  /** The occurrences are harvests */
+  harvest?: boolean;
+}
+
+/** Set of tasks generated for a crop cycle relative to its planting date */
+export interface TaskTemplate {
+  id: number;
+  name: string;
+  /** Crop the template is offered for */
+  crop: string;
+  description?: string;
+}
+
+export interface TaskTemplateItem {
+  id: number;
+  templateId: number;
+  title: string;
+  /** Days after planting */
+  offsetDays: number;
+  priority: TaskPriority;
+  /** Repeats the task from its first date until the harvest */
+  rule?: string;
+  notes?: string;
+  position: number;
+  /** The tasks are harvests */
+  harvest?: boolean;
+}
+
+export interface Team {
+  id: number;
+  name: string;
+  description?: string;
+}
+
+export interface Worker {
+  id: number;
+  name: string;
+  role: string;
+  /** €/h */
+  hourlyRate: number;
+  skills: string[];
+  teamId?: number;
+  phone?: string;
+  active: boolean;
+}
+
+/** Hours a worker spent on a task or a parcel */
+export interface TimeEntry {
+  id: number;
+  workerId: number;
+  taskId?: number;
+  parcelId?: number;
+  date: string;
+  /** ISO timestamp while the worker is clocked in */
+  startedAt?: string;
+  /** Empty until the worker clocks out */
+  hours?: number;
+  /** €/h of the worker when the time was logged */
+  hourlyRate: number;
+  notes?: string;
+  /** Expense booking the labor cost */
+  transactionId?: number;
+}
+
+export interface InventoryItem {
+  id: number;
+  name: string;
+  category: string;
+  quantity: number;
+  unit: string;
+  minQuantity: number;
+  /** Unit cost of the last receipt */
+  price: number;
+  /** Default location of the item's movements */
+  location: string;
+  valuationMethod: ValuationMethod;
+  lastUpdated: string;
+  supplier?: string;
+  sku?: string;
+  expiryDate?: string;
+  notes?: string;
+  /** Label data of a phytosanitary product, copied into each treatment */
+  ammNumber?: string;
+  /** Maximum dose per hectare, in the item's unit */
+  maxDose?: number;
+  /** Days between a treatment and the harvest (DAR) */
+  preHarvestInterval?: number;
+}
+
+/** Posted stock movement; never edited, cancelled by a reversing movement */
+export interface InventoryTransaction {
+  id: number;
+  itemId: number;
+  type: StockMovementType;
+  /** Positive, except for adjustments where the sign is the direction */
+  quantity: number;
+  date: string;
+  /** € per unit received; adjustments without one are valued at the current cost */
+  unitCost?: number;
+  location: string;
+  /** Destination of a transfer */
+  toLocation?: string;
+  /** Movement this one cancels */
+  reversalOf?: number;
+  /** Where an issued input was applied; its cost is charged there */
+  parcelId?: number;
+  cropCycleId?: number;
+  taskId?: number;
+  /** Hectares the input covered, giving its application rate */
+  treatedArea?: number;
+  user: string;
+  notes: string;
+}
+
+/** Entry of the phytosanitary register: one application of a product on a parcel */
+export interface PhytosanitaryTreatment {
+  id: number;
+  /** ISO timestamp of the application */
+  appliedAt: string;
+  /** Stock item applied; the product fields keep what its label said at the time */
+  itemId?: number;
+  productName: string;
+  /** Marketing authorisation number of the product */
+  ammNumber: string;
+  /** Pest, disease or weed treated */
+  target?: string;
+  parcelId: number;
+  cropCycleId?: number;
+  taskId?: number;
+  /** ha */
+  treatedArea: number;
+  /** Per hectare, in `doseUnit` */
+  dose: number;
+  doseUnit: string;
+  /** Label maximum per hectare */
+  maxDose?: number;
+  /** Days before the parcel may be harvested (DAR) */
+  preHarvestInterval: number;
+  workerId?: number;
+  operator: string;
+  /** Weather at the time of application: °C, m/s and % */
+  temperature?: number;
+  windSpeed?: number;
+  humidity?: number;
+  weather?: string;
+  /** Stock issue of the product applied */
+  movementId?: number;
+  notes?: string;
+  /** ISO timestamp and user of the cancellation; cancelled entries stay in the register */
+  cancelledAt?: string;
+  cancelledBy?: string;
+}
+
+export interface FinancialTransaction {
+  id: number;
+  date: string;
+  description: string;
+  amount: number;
+  category: string;
+  type: FinancialTransactionType;
+}
+
+export interface BudgetItem {
+  id: number;
+  category: string;
+  planned: number;
+  actual: number;
+  color: string;
+  year?: number;
+  period?: string;
+}
+
+/** Request body of the predict-yield function */
+export interface YieldPredictionInputs {
+  cropType: string;
+  soilType: string;
+  humidity: number;
+  moisture: number;
+  temperature: number;
+  /** mm per month */
+  rainfall: number;
+  area: number;
+}
+
+/** A saved answer of the predict-yield function */
+export interface YieldPredictionRecord {
+  id: number;
+  parcelId?: number;
+  cropCycleId?: number;
+  crop: string;
+  provider: PredictionProviderName;
+  fallbackFrom?: PredictionProviderName;
+  method: string;
+  modelVersion: number;
+  inputs: YieldPredictionInputs;
+  area: number;
+  /** t/ha */
+  yieldPerHectare: number;
+  yieldLower: number;
+  yieldUpper: number;
+  intervalLevel: number;
+  confidenceLevel: number;
+  predictedAt: string;
+}
+
+export interface HarvestRecord {
+  id: number;
+  cropCycleId?: number;
+  parcelId?: number;
+  crop: string;
+  harvestDate: string;
+  area: number;
+  /** Harvested tonnes */
+  quantity: number;
+  quality: HarvestQuality;
+  /** Prediction the actual yield is compared with */
+  predictionId?: number;
+  notes?: string;
+}
+
+/** Station whose readings are imported; `code` is its WMO index for synoptic stations */
+export interface WeatherStation {
+  id: number;
+  code: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+  /** m */
+  elevation?: number;
+  region: string;
+}
+
+export interface WeatherObservation {
+  id: number;
+  stationId?: number;
+  /** Region of the station, or the only location of readings entered before stations existed */
+  region?: string;
+  observedAt: string;
+  /** °C */
+  temperature?: number;
+  /** Relative air humidity, % */
+  humidity?: number;
+  /** mm since the previous observation */
+  rainfall?: number;
+  /** Sea-level pressure, hPa */
+  pressure?: number;
+  /** m/s */
+  windSpeed?: number;
+  source: string;
+}
+
+/** Weather of one local day at a station, aggregated from its observations */
+export interface WeatherDay {
+  id: number;
+  stationId: number;
+  /** YYYY-MM-DD */
+  date: string;
+  /** °C; absent when no reading of the day has a temperature */
+  tMean?: number;
+  tMin?: number;
+  tMax?: number;
+  /** Mean relative humidity, % */
+  humidity?: number;
+  /** mm */
+  rain: number;
+  observations: number;
+  /** Strongest wind reading, m/s */
+  windMax?: number;
+}
+
+/**
+ * Condition raising a weather alert: the metric aggregated over `windowDays` days is
+ * compared with the threshold, e.g. rain summed over 1 day above 80 mm
+ */
+export interface WeatherAlertRule {
+  id: number;
+  name: string;
+  type: WeatherAlertType;
+  /** Every region with a station when absent */
+  region?: string;
+  metric: WeatherMetric;
+  aggregation: WeatherAggregation;
+  windowDays: number;
+  comparison: RuleComparison;
+  threshold: number;
+  severity: AlertSeverity;
+  impactCrops: CropImpact;
+  recommendation: string;
+  /** Hours after its last day an unconfirmed alert stays active */
+  expiryHours: number;
+  enabled: boolean;
+}
+
+/** Episode of a rule's condition in a region, kept up to date by the alert engine */
+export interface WeatherAlert {
+  id: number;
+  ruleId?: number;
+  stationId?: number;
+  type: WeatherAlertType;
+  region: string;
+  severity: AlertSeverity;
+  impactCrops: CropImpact;
+  /** YYYY-MM-DD */
+  startDate: string;
+  endDate: string;
+  /** Worst value of the rule's metric over the episode */
+  value: number;
+  description: string;
+  recommendation: string;
+  status: WeatherAlertStatus;
+  expiresAt?: string;
+  /** Keys of the checklist tasks deleted by the user, never created again */
+  dismissedChecklist?: string[];
+}
+
+/** Checklist entry copied into a task for every matching parcel or stock item */
+export interface PreparednessItem {
+  id: number;
+  scope: ChecklistScope;
+  title: string;
+  /** Crop of the parcel or category of the stock item; every one when absent */
+  appliesTo?: string;
+  priority: TaskPriority;
+  position: number;
+  enabled: boolean;
+}
+
+export interface DamageAssessment {
+  id: number;
+  weatherAlertId?: number;
+  /** YYYY-MM-DD */
+  date: string;
+  category: DamageCategory;
+  parcelId?: number;
+  cropCycleId?: number;
+  inventoryItemId?: number;
+  description: string;
+  /** ha */
+  damagedArea?: number;
+  lossPercent?: number;
+  /** €, booked as an expense */
+  estimatedLoss: number;
+  insured: boolean;
+  transactionId?: number;
+  notes?: string;
+}
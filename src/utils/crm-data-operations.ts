@@ -1,6 +1,24 @@
 import { toast } from 'sonner';
 import Papa from 'papaparse';
 
+/**
+ * Save text or binary content as a file through a temporary download link
+ */
+export const downloadFile = (content: BlobPart, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 /**
  * Export any module data to CSV format
  */
@@ -8,17 +26,7 @@ export const exportToCSV = (data: any[], fileName: string): boolean => {
   try {
     // Convert data to CSV format
     const csv = Papa.unparse(data);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const link = document.createElement('a');
-    const url = URL.createObjectURL(blob);
-    
-    link.setAttribute('href', url);
-    link.setAttribute('download', `${fileName}_${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadFile(csv, `${fileName}_${new Date().toISOString().split('T')[0]}.csv`, 'text/csv;charset=utf-8;');
     
     toast.success("Données exportées avec succès au format CSV");
     return true;
@@ -0,0 +1,155 @@
+import type { CropData, CropTask } from '@/types/farm';
+import { cropKey } from './parcel-export';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const time = (date: string) => new Date(`${date}T00:00:00Z`).getTime();
+
+/** YYYY-MM-DD shifted by a number of days */
+export const addDays = (date: string, days: number) => new Date(time(date) + days * DAY).toISOString().slice(0, 10);
+
+/** Whole days from `from` to `to` */
+export const daysBetween = (from: string, to: string) => Math.round((time(to) - time(from)) / DAY);
+
+/** YYYY-MM-DD of a local date */
+export const isoDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Sunday starting the week of a day, like the calendar's columns */
+export const weekStart = (date: string) => addDays(date, -new Date(time(date)).getUTCDay());
+
+/** Days of the week of a day */
+export const weekDays = (date: string) => Array.from({ length: 7 }, (_, i) => addDays(weekStart(date), i));
+
+/**
+ * Weeks covering a month, Sunday first; days of the neighbouring months are null
+ */
+export const monthWeeks = (year: number, month: number): (string | null)[][] => {
+  const first = isoDay(new Date(year, month, 1));
+  const last = isoDay(new Date(year, month + 1, 0));
+  const weeks: (string | null)[][] = [];
+  for (let start = weekStart(first); start <= last; start = addDays(start, 7)) {
+    weeks.push(weekDays(start).map(day => (day >= first && day <= last ? day : null)));
+  }
+  return weeks;
+};
+
+/** Which part of a crop cycle a drag moves: the whole cycle, or one of its ends */
+export type CropDragEdge = 'move' | 'planting' | 'harvest';
+
+/**
+ * What is dragged on the calendar or the timeline. `grabOffset` is the number of days
+ * between the start of a cycle's bar and the point it was picked up at.
+ */
+export type PlanningDrag =
+  | { type: 'task'; id: number }
+  | { type: 'crop'; id: number; edge: CropDragEdge; grabOffset: number };
+
+/** Drag data type, so drops from elsewhere on the page are ignored */
+export const PLANNING_DRAG_TYPE = 'application/x-crop-planning';
+
+export const encodeDrag = (drag: PlanningDrag) => JSON.stringify(drag);
+
+export const decodeDrag = (data: string): PlanningDrag | null => {
+  try {
+    const drag = JSON.parse(data);
+    return drag && (drag.type === 'task' || drag.type === 'crop') && typeof drag.id === 'number' ? drag : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Dates of a crop cycle dragged to `target`: moving keeps its length, an end cannot
+ * cross the other one. Null when the drop leaves the cycle unchanged or invalid.
+ */
+export const rescheduleCrop = (
+  crop: Pick<CropData, 'plantingDate' | 'harvestDate'>,
+  edge: CropDragEdge,
+  target: string
+): Pick<CropData, 'plantingDate' | 'harvestDate'> | null => {
+  const dates = edge === 'move'
+    ? { plantingDate: target, harvestDate: addDays(target, daysBetween(crop.plantingDate, crop.harvestDate)) }
+    : edge === 'planting'
+      ? { plantingDate: target, harvestDate: crop.harvestDate }
+      : { plantingDate: crop.plantingDate, harvestDate: target };
+  if (dates.plantingDate >= dates.harvestDate) return null;
+  if (dates.plantingDate === crop.plantingDate && dates.harvestDate === crop.harvestDate) return null;
+  return dates;
+};
+
+/**
+ * Open tasks of a cycle moved by the same number of days as its planting date, so a
+ * rescheduled season keeps its work plan. Completed tasks stay where they happened.
+ */
+export const shiftCropTasks = (tasks: CropTask[], cropId: number, days: number) =>
+  days === 0 ? [] : tasks
+    .filter(task => task.cropId === cropId && !task.completed)
+    .map(task => ({ task, date: addDays(task.date, days) }));
+
+export type PlanningConflictKind = 'overlap' | 'task-after-harvest' | 'invalid-dates';
+
+export interface PlanningConflict {
+  kind: PlanningConflictKind;
+  cropIds: number[];
+  taskId?: number;
+  message: string;
+}
+
+// Cycles without a parcel id are matched on their parcel's name
+const parcelOf = (crop: CropData) => (crop.parcelId !== undefined ? `#${crop.parcelId}` : cropKey(crop.parcel));
+
+// The harvest day is free for the next planting
+const overlaps = (a: CropData, b: CropData) => a.plantingDate < b.harvestDate && b.plantingDate < a.harvestDate;
+
+/** Cycles on the same parcel as `crop` whose season overlaps its own */
+export const overlappingCrops = (crop: CropData, crops: CropData[]) =>
+  crops.filter(other => other.id !== crop.id && parcelOf(other) === parcelOf(crop) && overlaps(crop, other));
+
+/** A `YYYY-MM-DD` day in the user's locale, read as a local day rather than UTC midnight */
+export const formatDay = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+/**
+ * Planning problems: two seasons on one parcel at the same time, harvests before their
+ * planting, and open tasks of a cycle dated after its harvest. Harvested cycles only
+ * count for the overlaps.
+ */
+export const planningConflicts = (crops: CropData[], tasks: CropTask[]): PlanningConflict[] => {
+  const conflicts: PlanningConflict[] = [];
+
+  crops.forEach((crop, index) => {
+    if (crop.harvestDate < crop.plantingDate) {
+      conflicts.push({
+        kind: 'invalid-dates',
+        cropIds: [crop.id],
+        message: `${crop.name} (${crop.parcel}) is harvested before it is planted`
+      });
+    }
+    crops.slice(index + 1)
+      .filter(other => parcelOf(other) === parcelOf(crop) && overlaps(crop, other))
+      .forEach(other => {
+        const from = crop.plantingDate > other.plantingDate ? crop.plantingDate : other.plantingDate;
+        const to = crop.harvestDate < other.harvestDate ? crop.harvestDate : other.harvestDate;
+        conflicts.push({
+          kind: 'overlap',
+          cropIds: [crop.id, other.id],
+          message: `${crop.name} and ${other.name} share ${crop.parcel} from ${formatDay(from)} to ${formatDay(to)}`
+        });
+      });
+  });
+
+  tasks
+    .filter(task => !task.completed)
+    .forEach(task => {
+      const crop = crops.find(item => item.id === task.cropId);
+      if (!crop || crop.status === 'harvested' || task.date <= crop.harvestDate) return;
+      conflicts.push({
+        kind: 'task-after-harvest',
+        cropIds: [crop.id],
+        taskId: task.id,
+        message: `"${task.title}" is due ${formatDay(task.date)}, after the ${crop.name} harvest on ${formatDay(crop.harvestDate)}`
+      });
+    });
+
+  return conflicts;
+};
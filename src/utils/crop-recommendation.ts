@@ -0,0 +1,178 @@
+// Crop suitability from a soil analysis and local climate, scored against the crop profiles
+// learnt from backend_agridom/Crop_recommendation.csv (see scripts/train-crop-recommender.ts).
+// No path aliases here: the training script imports this module directly.
+
+export type SoilClimateFeature = 'nitrogen' | 'phosphorus' | 'potassium' | 'temperature' | 'humidity' | 'ph' | 'rainfall';
+
+export const SOIL_CLIMATE_FEATURES: SoilClimateFeature[] = [
+  'nitrogen',
+  'phosphorus',
+  'potassium',
+  'ph',
+  'temperature',
+  'humidity',
+  'rainfall'
+];
+
+export const FEATURE_LABELS: Record<SoilClimateFeature, { label: string; unit: string }> = {
+  nitrogen: { label: 'Azote (N)', unit: 'kg/ha' },
+  phosphorus: { label: 'Phosphore (P)', unit: 'kg/ha' },
+  potassium: { label: 'Potassium (K)', unit: 'kg/ha' },
+  ph: { label: 'pH', unit: '' },
+  temperature: { label: 'Température', unit: '°C' },
+  humidity: { label: 'Humidité de l\'air', unit: '%' },
+  rainfall: { label: 'Pluviométrie', unit: 'mm/mois' }
+};
+
+/** French names of the dataset labels */
+export const CROP_NAMES: Record<string, string> = {
+  apple: 'Pomme',
+  banana: 'Banane',
+  blackgram: 'Haricot urd',
+  chickpea: 'Pois chiche',
+  coconut: 'Cocotier',
+  coffee: 'Café',
+  cotton: 'Coton',
+  grapes: 'Vigne',
+  jute: 'Jute',
+  kidneybeans: 'Haricot rouge',
+  lentil: 'Lentille',
+  maize: 'Maïs',
+  mango: 'Mangue',
+  mothbeans: 'Haricot papillon',
+  mungbean: 'Haricot mungo',
+  muskmelon: 'Melon',
+  orange: 'Orange',
+  papaya: 'Papaye',
+  pigeonpeas: 'Pois d\'Angole',
+  pomegranate: 'Grenade',
+  rice: 'Riz',
+  watermelon: 'Pastèque'
+};
+
+export interface FeatureStats {
+  mean: number;
+  std: number;
+  /** 10th and 90th percentiles, the range shown as typical */
+  low: number;
+  high: number;
+}
+
+export interface CropProfile {
+  label: string;
+  samples: number;
+  stats: Record<SoilClimateFeature, FeatureStats>;
+}
+
+export interface CropRecommendationModel {
+  version: number;
+  source: string;
+  /** FNV-1a checksum of the training CSV */
+  dataChecksum: string;
+  /** Stratified cross-validation of the ranking, all features known */
+  metrics: { samples: number; top1: number; top3: number };
+  /** Standard deviation of each feature over the whole dataset */
+  scales: Record<SoilClimateFeature, number>;
+  crops: CropProfile[];
+}
+
+export type SoilClimateInput = Partial<Record<SoilClimateFeature, number>>;
+
+export type FactorStatus = 'ideal' | 'low' | 'high';
+
+export interface FactorFit {
+  feature: SoilClimateFeature;
+  value: number;
+  status: FactorStatus;
+  /** Signed distance outside the typical range, in dataset standard deviations; 0 inside it */
+  deviation: number;
+  low: number;
+  high: number;
+}
+
+export interface CropSuggestion {
+  label: string;
+  name: string;
+  /** 0–100, 100 when every known factor is within the crop's typical range */
+  score: number;
+  /** Mean squared distance to the crop's means, in crop standard deviations; breaks ties */
+  distance: number;
+  factors: FactorFit[];
+  /** Factors more than one dataset standard deviation outside the range, worst first */
+  limiting: FactorFit[];
+}
+
+/** Fewer known factors than this give rankings driven by a single measurement */
+export const MIN_KNOWN_FEATURES = 3;
+
+export const knownFeatures = (input: SoilClimateInput): SoilClimateFeature[] =>
+  SOIL_CLIMATE_FEATURES.filter(feature => Number.isFinite(input[feature]));
+
+export const cropName = (label: string) => CROP_NAMES[label] ?? label;
+
+/**
+ * Fit of a crop profile to the given conditions, using only the factors that are known
+ */
+export const scoreCrop = (
+  profile: CropProfile,
+  scales: Record<SoilClimateFeature, number>,
+  input: SoilClimateInput
+): CropSuggestion => {
+  const features = knownFeatures(input);
+  const factors = features.map((feature): FactorFit => {
+    const value = input[feature] as number;
+    const { low, high } = profile.stats[feature];
+    const outside = value < low ? value - low : value > high ? value - high : 0;
+    return {
+      feature,
+      value,
+      status: outside < 0 ? 'low' : outside > 0 ? 'high' : 'ideal',
+      deviation: outside / (scales[feature] || 1),
+      low,
+      high
+    };
+  });
+  const count = factors.length || 1;
+  const meanSquare = factors.reduce((sum, factor) => sum + factor.deviation ** 2, 0) / count;
+  const distance = features.reduce((sum, feature) => {
+    const { mean, std } = profile.stats[feature];
+    return sum + (((input[feature] as number) - mean) / (std || 1)) ** 2;
+  }, 0) / count;
+
+  return {
+    label: profile.label,
+    name: cropName(profile.label),
+    score: Math.round(Math.exp(-meanSquare / 2) * 100),
+    distance,
+    factors,
+    limiting: factors
+      .filter(factor => Math.abs(factor.deviation) > 1)
+      .sort((a, b) => Math.abs(b.deviation) - Math.abs(a.deviation))
+  };
+};
+
+/**
+ * Crops ranked from most to least suited; empty when too few factors are known
+ */
+export const recommendCrops = (model: CropRecommendationModel, input: SoilClimateInput): CropSuggestion[] => {
+  if (knownFeatures(input).length < MIN_KNOWN_FEATURES) return [];
+  return model.crops
+    .map(profile => scoreCrop(profile, model.scales, input))
+    .sort((a, b) => b.score - a.score || a.distance - b.distance);
+};
+
+const formatValue = (value: number) => value.toLocaleString('fr-FR', { maximumFractionDigits: 1 });
+
+export const describeFactor = (factor: FactorFit): string => {
+  const { label, unit } = FEATURE_LABELS[factor.feature];
+  const range = `${formatValue(factor.low)}–${formatValue(factor.high)}${unit ? ` ${unit}` : ''}`;
+  const value = `${formatValue(factor.value)}${unit ? ` ${unit}` : ''}`;
+  switch (factor.status) {
+    case 'low':
+      return `${label} ${value} : en dessous de la plage habituelle (${range})`;
+    case 'high':
+      return `${label} ${value} : au-dessus de la plage habituelle (${range})`;
+    default:
+      return `${label} ${value} : dans la plage habituelle (${range})`;
+  }
+};
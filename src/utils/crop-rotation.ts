@@ -0,0 +1,199 @@
+import type {
+  CropHistoryEntry,
+  CropSeason,
+  Culture,
+  RotationRule,
+  RotationRuleKind,
+  RotationRuleSeverity
+} from '@/types/farm';
+
+export const SEASONS: CropSeason[] = ['careme', 'hivernage'];
+
+export const SEASON_LABELS: Record<CropSeason, string> = {
+  careme: 'Carême',
+  hivernage: 'Hivernage'
+};
+
+export const ROTATION_RULE_KINDS: Record<RotationRuleKind, { label: string; description: string }> = {
+  consecutive_family: {
+    label: 'Famille consécutive',
+    description: 'Deux cycles successifs de la même famille botanique'
+  },
+  return_interval: {
+    label: 'Délai de retour',
+    description: 'Une culture ou une famille revient avant le nombre d\'années minimum'
+  },
+  forbidden_sequence: {
+    label: 'Succession interdite',
+    description: 'Une culture ou une famille suit directement une autre'
+  }
+};
+
+export const ROTATION_SEVERITY_LABELS: Record<RotationRuleSeverity, string> = {
+  warning: 'Avertissement',
+  error: 'Bloquant'
+};
+
+/** A season of a given year; `index` counts seasons since year 0 so slots can be compared */
+export interface SeasonSlot {
+  year: number;
+  season: CropSeason;
+  index: number;
+}
+
+export const slotIndex = (year: number, season: CropSeason): number =>
+  year * 2 + SEASONS.indexOf(season);
+
+export const slotFromIndex = (index: number): SeasonSlot => ({
+  year: Math.floor(index / 2),
+  season: SEASONS[index % 2],
+  index
+});
+
+export const seasonLabel = (year: number, season: CropSeason): string => `${SEASON_LABELS[season]} ${year}`;
+
+/** Carême runs from January to June, hivernage from July to December */
+export const currentSeason = (date = new Date()): SeasonSlot =>
+  slotFromIndex(slotIndex(date.getFullYear(), date.getMonth() < 6 ? 'careme' : 'hivernage'));
+
+export const plannerSlots = (fromYear: number, years: number): SeasonSlot[] =>
+  Array.from({ length: years * 2 }, (_, i) => slotFromIndex(slotIndex(fromYear, 'careme') + i));
+
+const normalizeName = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+/** Botanical family of each known crop, keyed by normalized crop name */
+export const familyIndex = (cultures: Culture[]): Map<string, string> =>
+  new Map(cultures.filter(culture => culture.family.trim()).map(culture => [normalizeName(culture.name), culture.family.trim()]));
+
+export const cropFamily = (cultures: Culture[], crop: string): string | undefined =>
+  familyIndex(cultures).get(normalizeName(crop));
+
+/** A history entry placed on the season axis: it runs from `start` until `end` (exclusive, open when null) */
+export interface RotationCycle {
+  entry: CropHistoryEntry;
+  family?: string;
+  start: number;
+  end: number | null;
+}
+
+/** Cycles of every parcel in chronological order */
+export const buildCycles = (history: CropHistoryEntry[], cultures: Culture[]): Map<number, RotationCycle[]> => {
+  const families = familyIndex(cultures);
+  const byParcel = new Map<number, CropHistoryEntry[]>();
+  history.forEach(entry => byParcel.set(entry.parcelId, [...(byParcel.get(entry.parcelId) ?? []), entry]));
+
+  const cycles = new Map<number, RotationCycle[]>();
+  byParcel.forEach((entries, parcelId) => {
+    const sorted = [...entries].sort((a, b) => slotIndex(a.year, a.season) - slotIndex(b.year, b.season));
+    cycles.set(parcelId, sorted.map((entry, i) => ({
+      entry,
+      family: families.get(normalizeName(entry.crop)),
+      start: slotIndex(entry.year, entry.season),
+      end: i + 1 < sorted.length ? slotIndex(sorted[i + 1].year, sorted[i + 1].season) : null
+    })));
+  });
+  return cycles;
+};
+
+/** The cycle occupying a season of a parcel, if any */
+export const cycleAt = (cycles: RotationCycle[] | undefined, index: number): RotationCycle | undefined =>
+  cycles?.find(cycle => cycle.start <= index && (cycle.end === null || index < cycle.end));
+
+export interface RotationViolation {
+  rule: RotationRule;
+  parcelId: number;
+  /** Entry breaking the rule */
+  entryId: number;
+  /** Earlier entry it conflicts with */
+  previousEntryId: number;
+  severity: RotationRuleSeverity;
+  detail: string;
+}
+
+// A rule subject names either a crop or a family
+const matchesSubject = (cycle: RotationCycle, subject: string): boolean => {
+  const key = normalizeName(subject);
+  return normalizeName(cycle.entry.crop) === key || (cycle.family !== undefined && normalizeName(cycle.family) === key);
+};
+
+const formatYears = (years: number) => `${years.toLocaleString('fr-FR')} an${years >= 2 ? 's' : ''}`;
+
+const checkCycle = (rule: RotationRule, cycles: RotationCycle[], i: number): { previous: RotationCycle; detail: string } | null => {
+  const current = cycles[i];
+  const previous = cycles[i - 1];
+  const subject = rule.subject?.trim();
+  if (subject && !matchesSubject(current, subject)) return null;
+
+  switch (rule.kind) {
+    case 'consecutive_family':
+      if (!previous || !current.family || !previous.family) return null;
+      if (normalizeName(current.family) !== normalizeName(previous.family)) return null;
+      return { previous, detail: `${current.entry.crop} suit ${previous.entry.crop} (${current.family})` };
+
+    case 'return_interval': {
+      const minInterval = rule.minInterval ?? 0;
+      // Without a subject each crop is checked against its own earlier cycles
+      const sameGroup = (cycle: RotationCycle) => subject
+        ? matchesSubject(cycle, subject)
+        : normalizeName(cycle.entry.crop) === normalizeName(current.entry.crop);
+      const earlier = cycles.slice(0, i).reverse().find(sameGroup);
+      if (!earlier || earlier.end === null) return null;
+      const gap = (current.start - earlier.end) / 2;
+      if (gap >= minInterval) return null;
+      return {
+        previous: earlier,
+        detail: `${current.entry.crop} revient ${gap === 0 ? 'sans interruption' : `après ${formatYears(gap)}`} `
+          + `(minimum ${formatYears(minInterval)})`
+      };
+    }
+
+    case 'forbidden_sequence': {
+      const follows = rule.follows?.trim();
+      if (!previous || !follows || !matchesSubject(previous, follows)) return null;
+      return { previous, detail: `${current.entry.crop} directement après ${previous.entry.crop}` };
+    }
+
+    default:
+      return null;
+  }
+};
+
+/**
+ * Evaluate the enabled rotation rules on every parcel's history
+ */
+export const checkRotation = (
+  history: CropHistoryEntry[],
+  cultures: Culture[],
+  rules: RotationRule[]
+): RotationViolation[] => {
+  const violations: RotationViolation[] = [];
+  const enabled = rules.filter(rule => rule.enabled);
+
+  buildCycles(history, cultures).forEach((cycles, parcelId) => {
+    cycles.forEach((cycle, i) => {
+      enabled.forEach(rule => {
+        const result = checkCycle(rule, cycles, i);
+        if (!result) return;
+        violations.push({
+          rule,
+          parcelId,
+          entryId: cycle.entry.id,
+          previousEntryId: result.previous.entry.id,
+          severity: rule.severity,
+          detail: result.detail
+        });
+      });
+    });
+  });
+  return violations;
+};
+
+/** Problems with a rule definition that would keep it from ever matching */
+export const ruleProblems = (rule: Partial<RotationRule>): string[] => {
+  const problems: string[] = [];
+  if (!rule.name?.trim()) problems.push('Nom requis');
+  if (rule.kind === 'return_interval' && !(rule.minInterval > 0)) problems.push('Délai minimum requis');
+  if (rule.kind === 'forbidden_sequence' && !rule.follows?.trim()) problems.push('Culture ou famille précédente requise');
+  return problems;
+};
@@ -0,0 +1,142 @@
+import type {
+  CropData,
+  CropTask,
+  DamageAssessment,
+  DamageCategory,
+  FinancialTransaction,
+  InventoryItem,
+  ParcelData,
+  PreparednessItem,
+  WeatherAlert
+} from '@/types/farm';
+import { cropKey } from './parcel-export';
+import { cropOptionFor } from './prediction-inputs';
+import { regionAt } from './regions';
+
+/** Expense category losses are booked under */
+export const DAMAGE_EXPENSE_CATEGORY = 'Pertes climatiques';
+
+export const DAMAGE_CATEGORY_LABELS: Record<DamageCategory, string> = {
+  crop: 'Crops',
+  equipment: 'Equipment',
+  stock: 'Stock',
+  infrastructure: 'Buildings & networks'
+};
+
+// Expense labels are in French, like the rest of the ledger
+const DAMAGE_TARGETS: Record<DamageCategory, string> = {
+  crop: 'cultures',
+  equipment: 'matériel',
+  stock: 'stocks',
+  infrastructure: 'bâtiments et réseaux'
+};
+
+/** Alerts that switch the farm to cyclone preparedness */
+export const isCycloneAlert = (alert: WeatherAlert) =>
+  alert.type === 'Tropical Storm' && (alert.status === 'Active' || alert.status === 'Scheduled');
+
+// Crops match in French or English ("Banane" and "Banana")
+const sameCrop = (a: string, b: string) =>
+  (cropOptionFor(a)?.value ?? cropKey(a)) === (cropOptionFor(b)?.value ?? cropKey(b));
+
+const appliesTo = (item: PreparednessItem, value: string) =>
+  !item.appliesTo || (item.scope === 'parcel' ? sameCrop(item.appliesTo, value) : cropKey(item.appliesTo) === cropKey(value));
+
+/** Checklist entry a task stands for: the item and the parcel or stock item it applies to */
+export const checklistKey = (task: Pick<CropTask, 'preparednessItemId' | 'parcelId' | 'inventoryItemId'>) =>
+  `${task.preparednessItemId}:${task.parcelId ?? ''}:${task.inventoryItemId ?? ''}`;
+
+/**
+ * Checklist tasks of an alert: every parcel item for the parcels of the alert's region,
+ * every asset item for the stock items. An entry still open from another alert is not
+ * repeated, so a storm raised in several regions secures each stock item once, and one
+ * the user deleted from this alert's checklist stays deleted.
+ */
+export const preparednessTasks = (
+  alert: WeatherAlert,
+  items: PreparednessItem[],
+  parcels: ParcelData[],
+  inventory: InventoryItem[],
+  cropCycles: CropData[],
+  tasks: CropTask[],
+  today: string
+): Omit<CropTask, 'id'>[] => {
+  const open = new Set(
+    tasks
+      .filter(task => task.preparednessItemId !== undefined && (!task.completed || task.weatherAlertId === alert.id))
+      .map(checklistKey)
+  );
+  const dismissed = new Set(alert.dismissedChecklist ?? []);
+  // Due on the alert's first day, or today when it already started
+  const date = alert.startDate > today ? alert.startDate : today;
+  const enabled = items.filter(item => item.enabled).sort((a, b) => a.position - b.position);
+
+  const parcelTasks = parcels
+    .filter(parcel => regionAt(parcel.coordinates) === alert.region)
+    .flatMap(parcel => {
+      const cycle = cropCycles.find(crop => crop.parcelId === parcel.id && crop.status === 'growing');
+      return enabled
+        .filter(item => item.scope === 'parcel' && appliesTo(item, cycle?.name ?? parcel.crop))
+        .map(item => ({
+          cropId: cycle?.id ?? 0,
+          parcelId: parcel.id,
+          title: `${item.title} – ${parcel.name}`,
+          date,
+          completed: false,
+          priority: item.priority,
+          weatherAlertId: alert.id,
+          preparednessItemId: item.id
+        }));
+    });
+
+  const assetTasks = inventory.flatMap(stock =>
+    enabled
+      .filter(item => item.scope === 'asset' && appliesTo(item, stock.category))
+      .map(item => ({
+        cropId: 0,
+        title: `${item.title} – ${stock.name}`,
+        date,
+        completed: false,
+        priority: item.priority,
+        notes: stock.location ? `Emplacement : ${stock.location}` : undefined,
+        weatherAlertId: alert.id,
+        preparednessItemId: item.id,
+        inventoryItemId: stock.id
+      }))
+  );
+
+  return [...parcelTasks, ...assetTasks].filter(task => !open.has(checklistKey(task)) && !dismissed.has(checklistKey(task)));
+};
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+  /** 0–100 */
+  percent: number;
+}
+
+export const checklistProgress = (tasks: CropTask[]): ChecklistProgress => {
+  const done = tasks.filter(task => task.completed).length;
+  return { done, total: tasks.length, percent: tasks.length > 0 ? Math.round((done / tasks.length) * 100) : 0 };
+};
+
+/** Value of the damaged share of a stock item, as a starting point for the estimate */
+export const stockLoss = (item: InventoryItem, lossPercent: number) =>
+  Math.round(item.quantity * item.price * lossPercent) / 100;
+
+/** Expense booking the estimated loss of an assessment */
+export const damageTransaction = (
+  assessment: Omit<DamageAssessment, 'id'>,
+  alert?: WeatherAlert,
+  target?: string
+): Omit<FinancialTransaction, 'id'> => ({
+  date: assessment.date,
+  description: [
+    `Dégâts ${alert ? alert.type : 'climatiques'}`,
+    target ?? DAMAGE_TARGETS[assessment.category],
+    assessment.insured ? 'assuré' : undefined
+  ].filter(Boolean).join(' – '),
+  amount: assessment.estimatedLoss,
+  category: DAMAGE_EXPENSE_CATEGORY,
+  type: 'expense'
+});
@@ -0,0 +1,244 @@
+import type { CropData, ParcelData, WeatherDay, WeatherStation } from '@/types/farm';
+import { cropOptionFor } from './prediction-inputs';
+import {
+  DailyWeather,
+  StationDistance,
+  dayDate,
+  nearestStation,
+  stationSeries,
+  stationsWithData
+} from './weather-series';
+
+export type DiseaseId = 'black-sigatoka' | 'cane-brown-rust' | 'cane-smut' | 'yam-anthracnose';
+export type RiskLevel = 'Low' | 'Moderate' | 'High' | 'Critical';
+
+export const RISK_LEVELS: RiskLevel[] = ['Low', 'Moderate', 'High', 'Critical'];
+
+export interface DiseaseModel {
+  id: DiseaseId;
+  name: string;
+  pathogen: string;
+  /** Crop option values the model applies to */
+  crops: string[];
+  /** Days summed into the pressure score */
+  window: number;
+  unit: string;
+  /** Pressure scores from which each level starts */
+  thresholds: Record<Exclude<RiskLevel, 'Low'>, number>;
+  /** Contribution of one day to the pressure score */
+  dailyIndex: (day: DailyWeather) => number;
+  conditions: string;
+  advice: string;
+}
+
+const between = (value: number, low: number, high: number) => value >= low && value <= high;
+
+export const DISEASE_MODELS: DiseaseModel[] = [
+  {
+    id: 'black-sigatoka',
+    name: 'Black Sigatoka',
+    pathogen: 'Pseudocercospora fijiensis',
+    crops: ['Banane'],
+    window: 10,
+    unit: 'wet degree-days',
+    thresholds: { Moderate: 25, High: 40, Critical: 55 },
+    // Degree-days above 20 °C, capped at 30 °C, counted on days leaves stay wet
+    dailyIndex: (day) => {
+      const wetness = day.rain >= 1 || day.humidity >= 90 ? 1 : day.humidity >= 80 ? 0.5 : 0;
+      return wetness * Math.max(0, Math.min(day.tMean, 30) - 20);
+    },
+    conditions: 'Rain or humidity above 90 % with mean temperatures of 25–28 °C',
+    advice: 'Remove necrotic leaves and schedule a treatment under the official warning system'
+  },
+  {
+    id: 'cane-brown-rust',
+    name: 'Brown rust',
+    pathogen: 'Puccinia melanocephala',
+    crops: ['Canne à Sucre'],
+    window: 14,
+    unit: 'favourable days',
+    thresholds: { Moderate: 4, High: 7, Critical: 10 },
+    dailyIndex: (day) => {
+      if (!between(day.tMean, 18, 28)) return 0;
+      return day.humidity >= 85 ? 1 : day.humidity >= 80 ? 0.5 : 0;
+    },
+    conditions: 'Humidity above 85 % with mean temperatures of 18–28 °C',
+    advice: 'Scout young ratoons for pustules and favour tolerant varieties at replanting'
+  },
+  {
+    id: 'cane-smut',
+    name: 'Smut',
+    pathogen: 'Sporisorium scitamineum',
+    crops: ['Canne à Sucre'],
+    window: 21,
+    unit: 'hot dry days',
+    thresholds: { Moderate: 8, High: 12, Critical: 16 },
+    dailyIndex: (day) => (day.tMax >= 30 && day.rain < 1 ? 1 : 0),
+    conditions: 'Hot dry spells that stress the cane and spread spores from the whips',
+    advice: 'Rogue and burn smutted stools before the whips release their spores'
+  },
+  {
+    id: 'yam-anthracnose',
+    name: 'Anthracnose',
+    pathogen: 'Colletotrichum gloeosporioides',
+    crops: ['Igname'],
+    window: 10,
+    unit: 'infection days',
+    thresholds: { Moderate: 3, High: 5, Critical: 7 },
+    // Heavy rain splashes the conidia; light rain or high humidity lets them germinate
+    dailyIndex: (day) => {
+      if (!between(day.tMean, 22, 32)) return 0;
+      if (day.rain >= 10) return 1;
+      return day.rain >= 2 || day.humidity >= 90 ? 0.5 : 0;
+    },
+    conditions: 'Rainy spells with mean temperatures of 22–32 °C',
+    advice: 'Stake the vines, remove infected leaves and avoid working in wet foliage'
+  }
+];
+
+export const riskLevel = (model: DiseaseModel, score: number): RiskLevel =>
+  score >= model.thresholds.Critical ? 'Critical'
+    : score >= model.thresholds.High ? 'High'
+      : score >= model.thresholds.Moderate ? 'Moderate'
+        : 'Low';
+
+export interface RiskPoint {
+  date: string;
+  /** Pressure over the window ending this day; null when too few days were observed */
+  score: number | null;
+  level: RiskLevel | null;
+  observedDays: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Pressure score for every day of the series. Missing days are extrapolated from the
+ * observed ones when at least half the window was observed.
+ */
+export const riskTimeline = (model: DiseaseModel, series: DailyWeather[]): RiskPoint[] =>
+  series.map((day) => {
+    const end = new Date(day.date).getTime();
+    const inWindow = series.filter((other) => {
+      const time = new Date(other.date).getTime();
+      return time <= end && time > end - model.window * DAY;
+    });
+    const observedDays = inWindow.length;
+    if (observedDays < Math.ceil(model.window / 2)) {
+      return { date: day.date, score: null, level: null, observedDays };
+    }
+    const sum = inWindow.reduce((total, other) => total + model.dailyIndex(other), 0);
+    const score = Math.round((sum * model.window / observedDays) * 10) / 10;
+    return { date: day.date, score, level: riskLevel(model, score), observedDays };
+  });
+
+export interface ParcelDiseaseRisk {
+  parcel: ParcelData;
+  /** Nearest station with daily weather; none means an empty timeline */
+  station?: StationDistance;
+  crop: string;
+  model: DiseaseModel;
+  timeline: RiskPoint[];
+  /** Latest day with a score */
+  current?: RiskPoint;
+  /** First day of the current run at or above the current level */
+  since?: string;
+}
+
+const levelRank = (level: RiskLevel | null) => (level ? RISK_LEVELS.indexOf(level) : -1);
+
+const currentRun = (timeline: RiskPoint[]) => {
+  const scored = timeline.filter((point) => point.level !== null);
+  const current = scored[scored.length - 1];
+  if (!current) return {};
+  let start = scored.length - 1;
+  while (start > 0 && levelRank(scored[start - 1].level) >= levelRank(current.level)) start--;
+  return { current, since: scored[start].date };
+};
+
+/**
+ * Disease pressure of every cultivated parcel, for the crops it holds: the parcel's crop
+ * and those of its crop cycles not yet harvested, from the daily weather of its nearest
+ * station. Inactive parcels are skipped.
+ */
+export const parcelDiseaseRisks = (
+  parcels: ParcelData[],
+  cropCycles: CropData[],
+  stations: WeatherStation[],
+  days: WeatherDay[]
+): ParcelDiseaseRisk[] => {
+  const candidates = stationsWithData(stations, days);
+  const seriesByStation = new Map<number, DailyWeather[]>();
+  return parcels
+    .filter((parcel) => parcel.status !== 'inactive')
+    .flatMap((parcel) => {
+      const station = nearestStation(parcel.coordinates, candidates);
+      const stationId = station?.station.id;
+      if (stationId !== undefined && !seriesByStation.has(stationId)) {
+        seriesByStation.set(stationId, stationSeries(days, stationId));
+      }
+      const series = stationId !== undefined ? (seriesByStation.get(stationId) as DailyWeather[]) : [];
+
+      const crops = new Set(
+        [parcel.crop, ...cropCycles
+          .filter((cycle) => cycle.parcelId === parcel.id && cycle.status !== 'harvested')
+          .map((cycle) => cycle.name)]
+          .map((name) => cropOptionFor(name)?.value)
+          .filter((crop): crop is string => crop !== undefined)
+      );
+      return DISEASE_MODELS
+        .filter((model) => model.crops.some((crop) => crops.has(crop)))
+        .map((model) => {
+          const timeline = riskTimeline(model, series);
+          return {
+            parcel,
+            station,
+            crop: model.crops.find((crop) => crops.has(crop)) as string,
+            model,
+            timeline,
+            ...currentRun(timeline)
+          };
+        });
+    });
+};
+
+export type DiseaseAlertType = 'info' | 'warning' | 'danger';
+
+export interface DiseaseAlert {
+  /** Stable across recomputations, so dismissals can be remembered */
+  id: string;
+  parcelId: number;
+  disease: DiseaseId;
+  level: RiskLevel;
+  type: DiseaseAlertType;
+  message: string;
+}
+
+const ALERT_TYPES: Record<Exclude<RiskLevel, 'Low'>, DiseaseAlertType> = {
+  Moderate: 'info',
+  High: 'warning',
+  Critical: 'danger'
+};
+
+const formatDay = (date: string) => dayDate(date).toLocaleDateString();
+
+/**
+ * One alert per parcel and disease whose current pressure is at or above `minLevel`,
+ * most severe first
+ */
+export const diseaseAlerts = (risks: ParcelDiseaseRisk[], minLevel: RiskLevel = 'Moderate'): DiseaseAlert[] =>
+  risks
+    .filter((risk) => risk.current?.level && levelRank(risk.current.level) >= Math.max(1, levelRank(minLevel)))
+    .sort((a, b) => levelRank(b.current?.level ?? null) - levelRank(a.current?.level ?? null))
+    .map((risk) => {
+      const level = risk.current?.level as Exclude<RiskLevel, 'Low'>;
+      return {
+        id: `${risk.model.id}:${risk.parcel.id}:${level}:${risk.since}`,
+        parcelId: risk.parcel.id,
+        disease: risk.model.id,
+        level,
+        type: ALERT_TYPES[level],
+        message: `${risk.model.name} on ${risk.parcel.name}: ${level.toLowerCase()} risk since ${formatDay(risk.since as string)} `
+          + `(${risk.current?.score} ${risk.model.unit} over ${risk.model.window} days). ${risk.model.advice}.`
+      };
+    });
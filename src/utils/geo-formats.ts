@@ -0,0 +1,718 @@
+import { strToU8, unzipSync, zipSync } from 'fflate';
+import type { Feature, Geometry, Polygon, Position } from 'geojson';
+
+export type GeoFormat = 'geojson' | 'kml' | 'shapefile';
+
+export type ImportedProperties = Record<string, string | number | boolean | null>;
+export type ImportedFeature = Feature<Geometry | null, ImportedProperties>;
+
+export interface GeoDataset {
+  format: GeoFormat;
+  fileName: string;
+  features: ImportedFeature[];
+  /** Coordinate system the features were read in, as declared or detected */
+  crs: string;
+  /** Set when the coordinates could not be brought to WGS84 */
+  crsError?: string;
+  warnings: string[];
+}
+
+export class GeoFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GeoFormatError';
+  }
+}
+
+export const GEO_FILE_ACCEPT = '.geojson,.json,.kml,.zip';
+
+// ---------------------------------------------------------------------------
+// Coordinate systems
+// ---------------------------------------------------------------------------
+
+const WGS84 = 'WGS84 (EPSG:4326)';
+const UTM_20N = 'UTM zone 20N (EPSG:32620 / RGAF09 EPSG:5490)';
+
+const UTM_20N_CODES = ['32620', '5490', '4559', '2969', '2970'];
+const GEOGRAPHIC_CODES = ['4326', 'crs84', '4258', '4171', '5489', '4557', '4558'];
+
+const A = 6378137;
+const F = 1 / 298.257223563;
+const K0 = 0.9996;
+
+/**
+ * Inverse transverse Mercator (Snyder) for UTM northern zones, WGS84/GRS80 ellipsoid.
+ * RGAF09 and WGS84 differ by a few centimeters, well below parcel accuracy.
+ */
+export const utmToLngLat = ([easting, northing]: Position, zone = 20): Position => {
+  const e2 = F * (2 - F);
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const x = easting - 500000;
+  const mu = northing / K0 / (A * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+  const phi1 = mu
+    + ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu)
+    + ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu)
+    + ((151 * e1 ** 3) / 96) * Math.sin(6 * mu)
+    + ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+  const sinPhi = Math.sin(phi1);
+  const cosPhi = Math.cos(phi1);
+  const tanPhi = Math.tan(phi1);
+  const c1 = ep2 * cosPhi ** 2;
+  const t1 = tanPhi ** 2;
+  const n1 = A / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const r1 = (A * (1 - e2)) / (1 - e2 * sinPhi ** 2) ** 1.5;
+  const d = x / (n1 * K0);
+  const lat = phi1 - ((n1 * tanPhi) / r1) * (
+    d ** 2 / 2
+    - ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24
+    + ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720
+  );
+  const lng = (
+    d
+    - ((1 + 2 * t1 + c1) * d ** 3) / 6
+    + ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120
+  ) / cosPhi;
+  const centralMeridian = zone * 6 - 183;
+  return [centralMeridian + (lng * 180) / Math.PI, (lat * 180) / Math.PI];
+};
+
+/**
+ * Forward transverse Mercator (Snyder) for UTM northern zones, the inverse of `utmToLngLat`
+ */
+export const lngLatToUtm = ([lng, lat]: Position, zone = 20): Position => {
+  const e2 = F * (2 - F);
+  const ep2 = e2 / (1 - e2);
+  const phi = (lat * Math.PI) / 180;
+  const lambda = ((lng - (zone * 6 - 183)) * Math.PI) / 180;
+  const sinPhi = Math.sin(phi);
+  const cosPhi = Math.cos(phi);
+  const n = A / Math.sqrt(1 - e2 * sinPhi ** 2);
+  const t = Math.tan(phi) ** 2;
+  const c = ep2 * cosPhi ** 2;
+  const a = lambda * cosPhi;
+  const m = A * (
+    (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256) * phi
+    - ((3 * e2) / 8 + (3 * e2 ** 2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * phi)
+    + ((15 * e2 ** 2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * phi)
+    - ((35 * e2 ** 3) / 3072) * Math.sin(6 * phi)
+  );
+  const easting = 500000 + K0 * n * (
+    a
+    + ((1 - t + c) * a ** 3) / 6
+    + ((5 - 18 * t + t ** 2 + 72 * c - 58 * ep2) * a ** 5) / 120
+  );
+  const northing = K0 * (m + n * Math.tan(phi) * (
+    a ** 2 / 2
+    + ((5 - t + 9 * c + 4 * c ** 2) * a ** 4) / 24
+    + ((61 - 58 * t + t ** 2 + 600 * c - 330 * ep2) * a ** 6) / 720
+  ));
+  return [easting, northing];
+};
+
+const mapPositions = (geometry: Geometry, transform: (position: Position) => Position): Geometry => {
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: transform(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(transform) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(ring => ring.map(transform)) };
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: geometry.coordinates.map(polygon => polygon.map(ring => ring.map(transform))) };
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(part => mapPositions(part, transform)) };
+  }
+};
+
+const firstPosition = (geometry: Geometry | null): Position | null => {
+  if (!geometry) return null;
+  if (geometry.type === 'GeometryCollection') {
+    for (const part of geometry.geometries) {
+      const position = firstPosition(part);
+      if (position) return position;
+    }
+    return null;
+  }
+  let coordinates: unknown = geometry.coordinates;
+  while (Array.isArray(coordinates) && Array.isArray(coordinates[0])) coordinates = coordinates[0];
+  return Array.isArray(coordinates) && typeof coordinates[0] === 'number' ? coordinates as Position : null;
+};
+
+const isLngLat = ([x, y]: Position) => Math.abs(x) <= 180 && Math.abs(y) <= 90;
+// Eastings and northings of UTM zone 20N around the Lesser Antilles
+const isUtm20N = ([x, y]: Position) => x > 100000 && x < 900000 && y > 1000000 && y < 2500000;
+
+type CrsKind = 'geographic' | 'utm20n' | 'unsupported';
+
+const classifyCrs = (declared: string): CrsKind => {
+  const text = declared.toLowerCase();
+  if (UTM_20N_CODES.some(code => new RegExp(`(epsg\\D*|^)${code}\\b`).test(text))) return 'utm20n';
+  if (/utm[ _]?zone[ _]?20[ _]?n|utm[ _]20n|zone_20n/.test(text)) return 'utm20n';
+  if (text.includes('projcs') || text.includes('projcrs')) return 'unsupported';
+  if (GEOGRAPHIC_CODES.some(code => text.includes(code))) return 'geographic';
+  if (/geogcs|geogcrs/.test(text) && /wgs|rgaf|rraf|grs|itrf|etrs/.test(text)) return 'geographic';
+  return 'unsupported';
+};
+
+/**
+ * Bring features to WGS84 lon/lat. Files without a declared system are checked against
+ * the coordinate ranges, so projected files saved without their .prj are still recognized.
+ */
+const toWgs84 = (
+  features: ImportedFeature[],
+  declared: string | null
+): Pick<GeoDataset, 'features' | 'crs' | 'crsError' | 'warnings'> => {
+  const sample = features.map(feature => firstPosition(feature.geometry)).find(Boolean) ?? null;
+  const kind: CrsKind = declared
+    ? classifyCrs(declared)
+    : !sample || isLngLat(sample) ? 'geographic' : isUtm20N(sample) ? 'utm20n' : 'unsupported';
+  const warnings: string[] = [];
+
+  if (kind === 'utm20n') {
+    if (!declared) warnings.push('Aucun système de coordonnées déclaré : coordonnées interprétées en UTM 20N');
+    return {
+      features: features.map(feature => ({
+        ...feature,
+        geometry: feature.geometry && mapPositions(feature.geometry, position => utmToLngLat(position))
+      })),
+      crs: UTM_20N,
+      warnings
+    };
+  }
+
+  if (kind === 'unsupported') {
+    return {
+      features,
+      crs: declared ?? 'inconnu',
+      crsError: declared
+        ? `Système de coordonnées non pris en charge (${declared.slice(0, 80)}). Reprojetez le fichier en WGS84 (EPSG:4326) ou UTM 20N.`
+        : 'Les coordonnées ne sont pas en longitude/latitude et le système de coordonnées n\'est pas déclaré.',
+      warnings
+    };
+  }
+
+  return { features, crs: WGS84, warnings };
+};
+
+// ---------------------------------------------------------------------------
+// GeoJSON
+// ---------------------------------------------------------------------------
+
+const cleanProperties = (properties: Record<string, unknown> | null | undefined): ImportedProperties => {
+  const cleaned: ImportedProperties = {};
+  Object.entries(properties ?? {}).forEach(([key, value]) => {
+    cleaned[key] = value === null || ['string', 'number', 'boolean'].includes(typeof value)
+      ? value as string | number | boolean | null
+      : JSON.stringify(value);
+  });
+  return cleaned;
+};
+
+export const parseGeoJson = (text: string, fileName = 'import.geojson'): GeoDataset => {
+  let json: { type?: string; features?: unknown[]; geometry?: unknown; crs?: { properties?: { name?: string } } };
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new GeoFormatError('Le fichier n\'est pas un JSON valide');
+  }
+
+  const rawFeatures = json.type === 'FeatureCollection'
+    ? json.features ?? []
+    : json.type === 'Feature'
+      ? [json]
+      : json.type ? [{ type: 'Feature', geometry: json, properties: {} }] : null;
+  if (!rawFeatures) throw new GeoFormatError('Aucun objet GeoJSON (FeatureCollection, Feature ou géométrie) trouvé');
+
+  const features = (rawFeatures as { geometry?: Geometry | null; properties?: Record<string, unknown> }[])
+    .map(feature => ({
+      type: 'Feature' as const,
+      geometry: feature.geometry ?? null,
+      properties: cleanProperties(feature.properties)
+    }));
+
+  // The `crs` member was dropped from RFC 7946 but GIS tools still write it
+  const declared = json.crs?.properties?.name ?? null;
+  return { format: 'geojson', fileName, ...toWgs84(features, declared) };
+};
+
+// ---------------------------------------------------------------------------
+// KML
+// ---------------------------------------------------------------------------
+
+const kmlCoordinates = (element: Element | null | undefined): Position[] =>
+  (element?.textContent ?? '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(tuple => tuple.split(',').slice(0, 2).map(Number))
+    .filter(position => position.length === 2 && position.every(Number.isFinite));
+
+const childrenByName = (element: Element, name: string) =>
+  Array.from(element.getElementsByTagName(name));
+
+const kmlPolygon = (polygon: Element): Polygon => {
+  const ringOf = (boundary: Element) => kmlCoordinates(boundary.getElementsByTagName('coordinates')[0]);
+  const outer = childrenByName(polygon, 'outerBoundaryIs').map(ringOf);
+  const inner = childrenByName(polygon, 'innerBoundaryIs').map(ringOf);
+  return { type: 'Polygon', coordinates: [...outer.slice(0, 1), ...inner] };
+};
+
+const kmlGeometry = (placemark: Element): Geometry | null => {
+  const polygons = childrenByName(placemark, 'Polygon').map(kmlPolygon);
+  if (polygons.length === 1) return polygons[0];
+  if (polygons.length > 1) return { type: 'MultiPolygon', coordinates: polygons.map(polygon => polygon.coordinates) };
+  const line = childrenByName(placemark, 'LineString')[0];
+  if (line) return { type: 'LineString', coordinates: kmlCoordinates(line.getElementsByTagName('coordinates')[0]) };
+  const point = childrenByName(placemark, 'Point')[0];
+  if (point) {
+    const [position] = kmlCoordinates(point.getElementsByTagName('coordinates')[0]);
+    return position ? { type: 'Point', coordinates: position } : null;
+  }
+  return null;
+};
+
+const directChildText = (element: Element, name: string): string | null => {
+  const child = Array.from(element.children).find(node => node.localName === name);
+  return child?.textContent?.trim() ?? null;
+};
+
+export const parseKml = (text: string, fileName = 'import.kml'): GeoDataset => {
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new GeoFormatError('Le fichier KML est mal formé');
+  }
+
+  const features: ImportedFeature[] = Array.from(document.getElementsByTagName('Placemark')).map(placemark => {
+    const properties: ImportedProperties = {};
+    const name = directChildText(placemark, 'name');
+    const description = directChildText(placemark, 'description');
+    if (name !== null) properties.name = name;
+    if (description) properties.description = description;
+    childrenByName(placemark, 'Data').forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.getElementsByTagName('value')[0]?.textContent?.trim() ?? null;
+    });
+    childrenByName(placemark, 'SimpleData').forEach(data => {
+      const key = data.getAttribute('name');
+      if (key) properties[key] = data.textContent?.trim() ?? null;
+    });
+    return { type: 'Feature', geometry: kmlGeometry(placemark), properties };
+  });
+
+  if (features.length === 0) throw new GeoFormatError('Aucun élément Placemark dans le fichier KML');
+
+  // KML coordinates are always WGS84 lon/lat
+  return { format: 'kml', fileName, features, crs: WGS84, warnings: [] };
+};
+
+// ---------------------------------------------------------------------------
+// Shapefile (zipped .shp + .dbf, optional .prj and .cpg)
+// ---------------------------------------------------------------------------
+
+const SHAPE_POINT = [1, 11, 21];
+const SHAPE_POLYLINE = [3, 13, 23];
+const SHAPE_POLYGON = [5, 15, 25];
+
+// Shapefile rings: clockwise = outer ring, counterclockwise = hole
+const isClockwise = (ring: Position[]) =>
+  ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + (x2 - x1) * (y2 + y1);
+  }, 0) > 0;
+
+const ringContains = (ring: Position[], [x, y]: Position) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const polygonFromRings = (rings: Position[][]): Geometry => {
+  const polygons: Position[][][] = [];
+  const holes: Position[][] = [];
+  rings.forEach(ring => (isClockwise(ring) ? polygons.push([ring]) : holes.push(ring)));
+  holes.forEach(hole => {
+    const owner = polygons.find(polygon => ringContains(polygon[0], hole[0])) ?? polygons[polygons.length - 1];
+    if (owner) owner.push(hole);
+    else polygons.push([hole]);
+  });
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0] }
+    : { type: 'MultiPolygon', coordinates: polygons };
+};
+
+const readShp = (buffer: ArrayBuffer): (Geometry | null)[] => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 100 || view.getInt32(0, false) !== 9994) {
+    throw new GeoFormatError('Le fichier .shp est invalide');
+  }
+  const geometries: (Geometry | null)[] = [];
+  let offset = 100;
+  while (offset + 8 <= view.byteLength) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const start = offset + 8;
+    const shapeType = view.getInt32(start, true);
+
+    if (SHAPE_POINT.includes(shapeType)) {
+      geometries.push({ type: 'Point', coordinates: [view.getFloat64(start + 4, true), view.getFloat64(start + 12, true)] });
+    } else if (SHAPE_POLYLINE.includes(shapeType) || SHAPE_POLYGON.includes(shapeType)) {
+      const numParts = view.getInt32(start + 36, true);
+      const numPoints = view.getInt32(start + 40, true);
+      const partsStart = start + 44;
+      const pointsStart = partsStart + numParts * 4;
+      const parts = Array.from({ length: numParts }, (_, i) => view.getInt32(partsStart + i * 4, true));
+      const rings = parts.map((first, i) => {
+        const last = i + 1 < numParts ? parts[i + 1] : numPoints;
+        return Array.from({ length: last - first }, (_, k) => {
+          const pointOffset = pointsStart + (first + k) * 16;
+          return [view.getFloat64(pointOffset, true), view.getFloat64(pointOffset + 8, true)];
+        });
+      });
+      geometries.push(SHAPE_POLYGON.includes(shapeType)
+        ? polygonFromRings(rings)
+        : rings.length === 1
+          ? { type: 'LineString', coordinates: rings[0] }
+          : { type: 'MultiLineString', coordinates: rings });
+    } else {
+      // Null shapes and unsupported types (multipatch, multipoint)
+      geometries.push(null);
+    }
+    offset = start + contentLength;
+  }
+  return geometries;
+};
+
+const readDbf = (buffer: ArrayBuffer, encoding: string): ImportedProperties[] => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(encoding);
+  } catch {
+    decoder = new TextDecoder('windows-1252');
+  }
+
+  const fields: { name: string; type: string; length: number }[] = [];
+  for (let offset = 32; offset + 32 <= headerLength && bytes[offset] !== 0x0d; offset += 32) {
+    const nameBytes = bytes.subarray(offset, offset + 11);
+    const end = nameBytes.indexOf(0);
+    fields.push({
+      name: new TextDecoder('ascii').decode(end >= 0 ? nameBytes.subarray(0, end) : nameBytes),
+      type: String.fromCharCode(bytes[offset + 11]),
+      length: bytes[offset + 16]
+    });
+  }
+
+  const records: ImportedProperties[] = [];
+  for (let i = 0; i < recordCount; i++) {
+    let offset = headerLength + i * recordLength + 1; // skip the deletion flag
+    const record: ImportedProperties = {};
+    fields.forEach(field => {
+      const raw = decoder.decode(bytes.subarray(offset, offset + field.length)).trim();
+      offset += field.length;
+      if (raw === '') {
+        record[field.name] = null;
+      } else if (field.type === 'N' || field.type === 'F') {
+        const value = Number(raw);
+        record[field.name] = Number.isFinite(value) ? value : null;
+      } else if (field.type === 'L') {
+        record[field.name] = /^[YyTt]$/.test(raw);
+      } else if (field.type === 'D' && /^\d{8}$/.test(raw)) {
+        record[field.name] = `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}`;
+      } else {
+        record[field.name] = raw;
+      }
+    });
+    records.push(record);
+  }
+  return records;
+};
+
+export const parseShapefileZip = (buffer: ArrayBuffer, fileName = 'import.zip'): GeoDataset => {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(new Uint8Array(buffer));
+  } catch {
+    throw new GeoFormatError('L\'archive ZIP est illisible');
+  }
+
+  const names = Object.keys(files).filter(name => !name.startsWith('__MACOSX'));
+  const shpName = names.find(name => name.toLowerCase().endsWith('.shp'));
+  if (!shpName) throw new GeoFormatError('Aucun fichier .shp dans l\'archive');
+  const base = shpName.slice(0, -4).toLowerCase();
+  const sibling = (extension: string) => {
+    const name = names.find(candidate => candidate.toLowerCase() === `${base}.${extension}`);
+    return name ? files[name] : undefined;
+  };
+  const dbf = sibling('dbf');
+  if (!dbf) throw new GeoFormatError(`Fichier ${base}.dbf manquant dans l'archive`);
+
+  const toBuffer = (data: Uint8Array) => data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+  const cpg = sibling('cpg');
+  const prj = sibling('prj');
+  const encoding = cpg ? new TextDecoder().decode(cpg).trim() || 'utf-8' : 'utf-8';
+
+  const geometries = readShp(toBuffer(files[shpName]));
+  const records = readDbf(toBuffer(dbf), encoding);
+  const features: ImportedFeature[] = geometries.map((geometry, i) => ({
+    type: 'Feature',
+    geometry,
+    properties: records[i] ?? {}
+  }));
+
+  const declared = prj ? new TextDecoder().decode(prj).trim() : null;
+  const dataset = { format: 'shapefile' as const, fileName, ...toWgs84(features, declared) };
+  if (names.filter(name => name.toLowerCase().endsWith('.shp')).length > 1) {
+    dataset.warnings.push(`Plusieurs couches dans l'archive : seule ${shpName} est importée`);
+  }
+  return dataset;
+};
+
+/**
+ * Read a GeoJSON, KML or zipped Shapefile into WGS84 features
+ */
+export const parseGeoFile = async (file: File): Promise<GeoDataset> => {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'geojson':
+    case 'json':
+      return parseGeoJson(await file.text(), file.name);
+    case 'kml':
+      return parseKml(await file.text(), file.name);
+    case 'zip':
+      return parseShapefileZip(await file.arrayBuffer(), file.name);
+    default:
+      throw new GeoFormatError('Format non reconnu : utilisez un fichier .geojson, .kml ou un Shapefile zippé (.zip)');
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Writers
+// ---------------------------------------------------------------------------
+
+/** ESRI WKT written to the .prj of exported shapefiles */
+export const RGAF09_UTM_20N_PRJ = 'PROJCS["RGAF09_UTM_Zone_20N",GEOGCS["GCS_RGAF09",'
+  + 'DATUM["D_Reseau_Geodesique_des_Antilles_Francaises_2009",SPHEROID["GRS_1980",6378137.0,298.257222101]],'
+  + 'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],'
+  + 'PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",-63.0],'
+  + 'PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+const escapeXml = (value: string) =>
+  value.replace(/[<>&'"]/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;' })[char] ?? char);
+
+const kmlRing = (ring: Position[]) => ring.map(([lng, lat]) => `${lng},${lat}`).join(' ');
+
+const kmlPolygonXml = (rings: Position[][]) => {
+  const [outer, ...holes] = rings;
+  return '<Polygon>'
+    + `<outerBoundaryIs><LinearRing><coordinates>${kmlRing(outer)}</coordinates></LinearRing></outerBoundaryIs>`
+    + holes.map(hole => `<innerBoundaryIs><LinearRing><coordinates>${kmlRing(hole)}</coordinates></LinearRing></innerBoundaryIs>`).join('')
+    + '</Polygon>';
+};
+
+const kmlGeometryXml = (geometry: Geometry | null): string => {
+  switch (geometry?.type) {
+    case 'Point':
+      return `<Point><coordinates>${kmlRing([geometry.coordinates])}</coordinates></Point>`;
+    case 'Polygon':
+      return kmlPolygonXml(geometry.coordinates);
+    case 'MultiPolygon':
+      return `<MultiGeometry>${geometry.coordinates.map(kmlPolygonXml).join('')}</MultiGeometry>`;
+    default:
+      return '';
+  }
+};
+
+/**
+ * Serialize WGS84 features to a KML document; `name` and `description` become the placemark
+ * labels, every other property is kept as ExtendedData
+ */
+export const featuresToKml = (features: ImportedFeature[], documentName: string): string => {
+  const placemarks = features.map(feature => {
+    const { name, description, ...data } = feature.properties ?? {};
+    const extended = Object.entries(data)
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([key, value]) => `<Data name="${escapeXml(key)}"><value>${escapeXml(String(value))}</value></Data>`)
+      .join('');
+    return '<Placemark>'
+      + `<name>${escapeXml(String(name ?? ''))}</name>`
+      + (description ? `<description>${escapeXml(String(description))}</description>` : '')
+      + (extended ? `<ExtendedData>${extended}</ExtendedData>` : '')
+      + kmlGeometryXml(feature.geometry)
+      + '</Placemark>';
+  });
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>'
+    + `<name>${escapeXml(documentName)}</name>`
+    + placemarks.join('\n')
+    + '</Document></kml>\n';
+};
+
+export interface DbfField {
+  /** At most 10 ASCII characters */
+  name: string;
+  type: 'C' | 'N';
+  length: number;
+  decimals?: number;
+}
+
+export interface ShapefilePolygon {
+  /** Rings in the projected coordinates of the .prj, outer ring first */
+  rings: Position[][];
+  record: Record<string, string | number | null>;
+}
+
+const encoder = new TextEncoder();
+
+// Truncate on character boundaries so multi-byte UTF-8 stays valid
+const fitBytes = (value: string, length: number): Uint8Array => {
+  let text = value;
+  let bytes = encoder.encode(text);
+  while (bytes.length > length) {
+    text = text.slice(0, -1);
+    bytes = encoder.encode(text);
+  }
+  return bytes;
+};
+
+const writeShpFiles = (polygons: ShapefilePolygon[]) => {
+  const shapes = polygons.map(({ rings }) => {
+    // Outer rings clockwise, holes counterclockwise, all closed
+    const oriented = rings.map((ring, i) => {
+      const closed = ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
+        ? [...ring, ring[0]]
+        : ring;
+      return isClockwise(closed) === (i === 0) ? closed : [...closed].reverse();
+    });
+    const points = oriented.flat();
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+    return {
+      rings: oriented,
+      points,
+      box: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+      contentLength: 44 + oriented.length * 4 + points.length * 16
+    };
+  });
+
+  const box = shapes.reduce(
+    (bounds, shape) => [
+      Math.min(bounds[0], shape.box[0]), Math.min(bounds[1], shape.box[1]),
+      Math.max(bounds[2], shape.box[2]), Math.max(bounds[3], shape.box[3])
+    ],
+    shapes.length > 0 ? shapes[0].box : [0, 0, 0, 0]
+  );
+  const shpLength = 100 + shapes.reduce((sum, shape) => sum + 8 + shape.contentLength, 0);
+  const shxLength = 100 + shapes.length * 8;
+  const shp = new DataView(new ArrayBuffer(shpLength));
+  const shx = new DataView(new ArrayBuffer(shxLength));
+
+  const writeHeader = (view: DataView) => {
+    view.setInt32(0, 9994, false);
+    view.setInt32(24, view.byteLength / 2, false);
+    view.setInt32(28, 1000, true);
+    view.setInt32(32, 5, true);
+    box.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+  };
+  writeHeader(shp);
+  writeHeader(shx);
+
+  let offset = 100;
+  shapes.forEach((shape, i) => {
+    shx.setInt32(100 + i * 8, offset / 2, false);
+    shx.setInt32(104 + i * 8, shape.contentLength / 2, false);
+    shp.setInt32(offset, i + 1, false);
+    shp.setInt32(offset + 4, shape.contentLength / 2, false);
+    const start = offset + 8;
+    shp.setInt32(start, 5, true);
+    shape.box.forEach((value, k) => shp.setFloat64(start + 4 + k * 8, value, true));
+    shp.setInt32(start + 36, shape.rings.length, true);
+    shp.setInt32(start + 40, shape.points.length, true);
+    let first = 0;
+    shape.rings.forEach((ring, k) => {
+      shp.setInt32(start + 44 + k * 4, first, true);
+      first += ring.length;
+    });
+    const pointsStart = start + 44 + shape.rings.length * 4;
+    shape.points.forEach(([x, y], k) => {
+      shp.setFloat64(pointsStart + k * 16, x, true);
+      shp.setFloat64(pointsStart + k * 16 + 8, y, true);
+    });
+    offset = start + shape.contentLength;
+  });
+
+  return { shp: new Uint8Array(shp.buffer), shx: new Uint8Array(shx.buffer) };
+};
+
+const writeDbf = (fields: DbfField[], records: ShapefilePolygon['record'][]): Uint8Array => {
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const bytes = new Uint8Array(headerLength + records.length * recordLength + 1);
+  const view = new DataView(bytes.buffer);
+  const today = new Date();
+
+  bytes[0] = 0x03;
+  bytes[1] = today.getFullYear() - 1900;
+  bytes[2] = today.getMonth() + 1;
+  bytes[3] = today.getDate();
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    bytes.set(fitBytes(field.name, 10), offset);
+    bytes[offset + 11] = field.type.charCodeAt(0);
+    bytes[offset + 16] = field.length;
+    bytes[offset + 17] = field.decimals ?? 0;
+  });
+  bytes[headerLength - 1] = 0x0d;
+
+  records.forEach((record, i) => {
+    let offset = headerLength + i * recordLength;
+    bytes.fill(0x20, offset, offset + recordLength);
+    offset += 1;
+    fields.forEach(field => {
+      const value = record[field.name];
+      if (value !== null && value !== undefined && value !== '') {
+        if (field.type === 'N') {
+          const text = typeof value === 'number' ? value.toFixed(field.decimals ?? 0) : String(value);
+          const encoded = fitBytes(text, field.length);
+          bytes.set(encoded, offset + field.length - encoded.length);
+        } else {
+          bytes.set(fitBytes(String(value), field.length), offset);
+        }
+      }
+      offset += field.length;
+    });
+  });
+  bytes[bytes.length - 1] = 0x1a;
+  return bytes;
+};
+
+/**
+ * Build a zipped polygon Shapefile (.shp, .shx, .dbf, .prj, .cpg) with UTF-8 attributes
+ */
+export const writeShapefileZip = (
+  baseName: string,
+  polygons: ShapefilePolygon[],
+  fields: DbfField[],
+  prj: string
+): Uint8Array => {
+  const { shp, shx } = writeShpFiles(polygons);
+  return zipSync({
+    [`${baseName}.shp`]: shp,
+    [`${baseName}.shx`]: shx,
+    [`${baseName}.dbf`]: writeDbf(fields, polygons.map(polygon => polygon.record)),
+    [`${baseName}.prj`]: strToU8(prj),
+    [`${baseName}.cpg`]: strToU8('UTF-8')
+  });
+};
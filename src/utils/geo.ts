@@ -0,0 +1,177 @@
+import type { Polygon, Position } from 'geojson';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+// WGS84 equatorial radius, as used by most web mapping libraries
+const EARTH_RADIUS = 6378137;
+
+// Declared and drawn areas may differ by this share before we warn
+export const AREA_TOLERANCE = 0.05;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Area of a lon/lat ring on the sphere, in m² (always positive)
+ */
+export const ringArea = (ring: Position[]): number => {
+  if (ring.length < 3) return 0;
+  let total = 0;
+  for (let i = 0; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i];
+    const [lng2, lat2] = ring[(i + 1) % ring.length];
+    total += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS * EARTH_RADIUS) / 2);
+};
+
+/**
+ * Geodesic area of a polygon in m², holes subtracted
+ */
+export const geodesicArea = (polygon: Polygon): number => {
+  const [outer = [], ...holes] = polygon.coordinates;
+  return Math.max(0, holes.reduce((area, hole) => area - ringArea(hole), ringArea(outer)));
+};
+
+/**
+ * Convert square meters to hectares
+ */
+export const squareMetersToHectares = (squareMeters: number): number => squareMeters / 10000;
+
+/**
+ * Format an area in m² below one hectare, in ha above
+ */
+export const formatArea = (squareMeters: number): string =>
+  squareMeters < 10000
+    ? `${Math.round(squareMeters).toLocaleString('fr-FR')} m²`
+    : `${squareMetersToHectares(squareMeters).toLocaleString('fr-FR', { maximumFractionDigits: 2 })} ha`;
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export const distance = (from: LatLng, to: LatLng): number => {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+/**
+ * Length of a polyline in meters
+ */
+export const lineLength = (points: LatLng[]): number =>
+  points.reduce((total, point, i) => i === 0 ? total : total + distance(points[i - 1], point), 0);
+
+/**
+ * Format a distance in m below one kilometer, in km above
+ */
+export const formatDistance = (meters: number): string =>
+  meters < 1000
+    ? `${Math.round(meters).toLocaleString('fr-FR')} m`
+    : `${(meters / 1000).toLocaleString('fr-FR', { maximumFractionDigits: 2 })} km`;
+
+/**
+ * Build a closed GeoJSON polygon from map points
+ */
+export const polygonFromLatLngs = (points: LatLng[]): Polygon => {
+  const ring = points.map(({ lat, lng }) => [lng, lat]);
+  if (ring.length > 0) ring.push([...ring[0]]);
+  return { type: 'Polygon', coordinates: [ring] };
+};
+
+/**
+ * Outer ring of a polygon as map points, without the closing point
+ */
+export const latLngsFromPolygon = (polygon: Polygon): LatLng[] => {
+  const ring = polygon.coordinates[0] ?? [];
+  const open = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1]
+    ? ring.slice(0, -1)
+    : ring;
+  return open.map(([lng, lat]) => ({ lat, lng }));
+};
+
+/**
+ * Centroid of the outer ring (planar approximation, fine at parcel scale)
+ */
+export const polygonCentroid = (polygon: Polygon): LatLng => {
+  const points = latLngsFromPolygon(polygon);
+  let area = 0;
+  let lat = 0;
+  let lng = 0;
+  points.forEach((point, i) => {
+    const next = points[(i + 1) % points.length];
+    const cross = point.lng * next.lat - next.lng * point.lat;
+    area += cross;
+    lng += (point.lng + next.lng) * cross;
+    lat += (point.lat + next.lat) * cross;
+  });
+  if (area === 0) {
+    return {
+      lat: points.reduce((sum, point) => sum + point.lat, 0) / (points.length || 1),
+      lng: points.reduce((sum, point) => sum + point.lng, 0) / (points.length || 1)
+    };
+  }
+  return { lat: lat / (3 * area), lng: lng / (3 * area) };
+};
+
+const orientation = ([ax, ay]: Position, [bx, by]: Position, [cx, cy]: Position) =>
+  Math.sign((bx - ax) * (cy - ay) - (by - ay) * (cx - ax));
+
+const onSegment = ([ax, ay]: Position, [bx, by]: Position, [px, py]: Position) =>
+  Math.min(ax, bx) <= px && px <= Math.max(ax, bx) && Math.min(ay, by) <= py && py <= Math.max(ay, by);
+
+const segmentsIntersect = (a: Position, b: Position, c: Position, d: Position): boolean => {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (o1 === 0 && onSegment(a, b, c)) || (o2 === 0 && onSegment(a, b, d))
+    || (o3 === 0 && onSegment(c, d, a)) || (o4 === 0 && onSegment(c, d, b));
+};
+
+/**
+ * First point where two non-adjacent edges of a ring cross, or null for a simple ring
+ */
+export const ringSelfIntersection = (ring: Position[]): Position | null => {
+  const closed = ring.length > 1 && ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1];
+  const points = closed ? ring.slice(0, -1) : ring;
+  const count = points.length;
+  for (let i = 0; i < count; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % count];
+    for (let j = i + 2; j < count; j++) {
+      // The last edge shares the first vertex with the first edge
+      if (i === 0 && j === count - 1) continue;
+      if (segmentsIntersect(a, b, points[j], points[(j + 1) % count])) return points[j];
+    }
+  }
+  return null;
+};
+
+export interface AreaCheck {
+  measuredHectares: number;
+  declaredHectares: number;
+  /** Relative gap between measured and declared area (0.1 = 10%) */
+  difference: number;
+  diverges: boolean;
+}
+
+/**
+ * Compare the area drawn on the map with the area declared for the parcel
+ */
+export const checkDeclaredArea = (declaredHectares: number, boundary: Polygon): AreaCheck => {
+  const measuredHectares = squareMetersToHectares(geodesicArea(boundary));
+  const difference = declaredHectares > 0
+    ? Math.abs(measuredHectares - declaredHectares) / declaredHectares
+    : measuredHectares > 0 ? 1 : 0;
+  return {
+    measuredHectares,
+    declaredHectares,
+    difference,
+    diverges: difference > AREA_TOLERANCE
+  };
+};
@@ -0,0 +1,371 @@
+import L from 'leaflet';
+import type { IrrigationLine, IrrigationLineKind, ParcelData } from '@/types/farm';
+import { BaseLayerId, mapLabel } from './map';
+
+export type OverlayId = 'parcels' | 'crops' | 'soil' | 'irrigation' | 'rainfall';
+export type MapLayerId = BaseLayerId | OverlayId;
+
+export interface MapLayerDefinition {
+  id: MapLayerId;
+  name: string;
+  description: string;
+  type: 'base' | 'overlay';
+  source: 'local' | 'remote';
+}
+
+/** What the user chose for one layer; overlays are listed from top to bottom */
+export interface MapLayerState {
+  id: MapLayerId;
+  enabled: boolean;
+  /** 0 (transparent) to 1 (opaque) */
+  opacity: number;
+}
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+  shape: 'fill' | 'line' | 'outline';
+}
+
+export interface OverlayData {
+  parcels: ParcelData[];
+  irrigationLines: IrrigationLine[];
+}
+
+export const MAP_LAYER_DEFINITIONS: Record<MapLayerId, MapLayerDefinition> = {
+  plan: {
+    id: 'plan',
+    name: 'Plan',
+    description: 'Fond de carte OpenStreetMap (ou la source de tuiles locale configurée)',
+    type: 'base',
+    source: import.meta.env.VITE_MAP_TILE_URL ? 'local' : 'remote'
+  },
+  satellite: {
+    id: 'satellite',
+    name: 'Image satellite',
+    description: 'Vue aérienne satellite de haute résolution',
+    type: 'base',
+    source: import.meta.env.VITE_MAP_SATELLITE_URL ? 'local' : 'remote'
+  },
+  terrain: {
+    id: 'terrain',
+    name: 'Carte topographique',
+    description: 'Courbes de niveau et relief du terrain',
+    type: 'base',
+    source: import.meta.env.VITE_MAP_TERRAIN_URL ? 'local' : 'remote'
+  },
+  parcels: {
+    id: 'parcels',
+    name: 'Limites parcellaires',
+    description: 'Contour géographique des parcelles',
+    type: 'overlay',
+    source: 'local'
+  },
+  crops: {
+    id: 'crops',
+    name: 'Cultures actuelles',
+    description: 'Parcelles colorées selon leur culture en place',
+    type: 'overlay',
+    source: 'local'
+  },
+  soil: {
+    id: 'soil',
+    name: 'Types de sol',
+    description: 'Classification des sols à partir du type de sol des parcelles',
+    type: 'overlay',
+    source: 'local'
+  },
+  irrigation: {
+    id: 'irrigation',
+    name: 'Réseau d\'irrigation',
+    description: 'Conduites, rampes et canaux d\'irrigation',
+    type: 'overlay',
+    source: 'local'
+  },
+  rainfall: {
+    id: 'rainfall',
+    name: 'Pluviométrie',
+    description: 'Pluviométrie annuelle renseignée pour chaque parcelle',
+    type: 'overlay',
+    source: 'local'
+  }
+};
+
+export const DEFAULT_MAP_LAYERS: MapLayerState[] = [
+  { id: 'plan', enabled: true, opacity: 1 },
+  { id: 'satellite', enabled: false, opacity: 1 },
+  { id: 'terrain', enabled: false, opacity: 1 },
+  { id: 'irrigation', enabled: false, opacity: 1 },
+  { id: 'parcels', enabled: true, opacity: 1 },
+  { id: 'crops', enabled: true, opacity: 0.7 },
+  { id: 'soil', enabled: false, opacity: 0.7 },
+  { id: 'rainfall', enabled: false, opacity: 0.7 }
+];
+
+export const isBaseLayer = (id: MapLayerId): id is BaseLayerId => MAP_LAYER_DEFINITIONS[id].type === 'base';
+
+const clampOpacity = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 1;
+
+/**
+ * Turn a stored configuration into a complete one: unknown layers are dropped,
+ * layers added since it was saved are appended, and exactly one base layer is on.
+ */
+export const normalizeMapLayers = (saved: unknown): MapLayerState[] => {
+  const entries = Array.isArray(saved) ? saved : [];
+  const known: MapLayerState[] = [];
+  entries.forEach(entry => {
+    const id = entry?.id as MapLayerId;
+    if (!(id in MAP_LAYER_DEFINITIONS) || known.some(layer => layer.id === id)) return;
+    known.push({ id, enabled: entry.enabled === true, opacity: clampOpacity(entry.opacity) });
+  });
+  DEFAULT_MAP_LAYERS.forEach(layer => {
+    if (!known.some(entry => entry.id === layer.id)) known.push(layer);
+  });
+
+  const base = known.find(layer => isBaseLayer(layer.id) && layer.enabled)?.id ?? 'plan';
+  return [
+    ...known.filter(layer => isBaseLayer(layer.id)).map(layer => ({ ...layer, enabled: layer.id === base })),
+    ...known.filter(layer => !isBaseLayer(layer.id))
+  ];
+};
+
+/**
+ * Show or hide a layer; turning a base layer on replaces the current one
+ */
+export const setLayerEnabled = (layers: MapLayerState[], id: MapLayerId, enabled: boolean): MapLayerState[] => {
+  if (isBaseLayer(id)) {
+    // There is always one base map: it can only be replaced, not switched off
+    return enabled ? layers.map(layer => isBaseLayer(layer.id) ? { ...layer, enabled: layer.id === id } : layer) : layers;
+  }
+  return layers.map(layer => layer.id === id ? { ...layer, enabled } : layer);
+};
+
+export const setLayerOpacity = (layers: MapLayerState[], id: MapLayerId, opacity: number): MapLayerState[] =>
+  layers.map(layer => layer.id === id ? { ...layer, opacity: clampOpacity(opacity) } : layer);
+
+/**
+ * Move an overlay up (-1) or down (+1) in the drawing order
+ */
+export const moveLayer = (layers: MapLayerState[], id: MapLayerId, offset: -1 | 1): MapLayerState[] => {
+  const overlays = layers.filter(layer => !isBaseLayer(layer.id));
+  const index = overlays.findIndex(layer => layer.id === id);
+  const target = index + offset;
+  if (index < 0 || target < 0 || target >= overlays.length) return layers;
+  [overlays[index], overlays[target]] = [overlays[target], overlays[index]];
+  return [...layers.filter(layer => isBaseLayer(layer.id)), ...overlays];
+};
+
+export const activeBaseLayer = (layers: MapLayerState[]): MapLayerState & { id: BaseLayerId } =>
+  (layers.find(layer => isBaseLayer(layer.id) && layer.enabled) ?? DEFAULT_MAP_LAYERS[0]) as MapLayerState & { id: BaseLayerId };
+
+const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const CROP_COLORS: [string, string][] = [
+  ['canne', '#8BC34A'],
+  ['banan', '#FDD835'],
+  ['ananas', '#FFA726'],
+  ['igname', '#8D6E63'],
+  ['madere', '#AB47BC'],
+  ['melon', '#FF7043'],
+  ['cafe', '#6D4C41'],
+  ['cacao', '#5D4037'],
+  ['vanille', '#D4E157'],
+  ['tomate', '#E53935'],
+  ['patate', '#BCAAA4']
+];
+
+const FALLBACK_COLORS = ['#26A69A', '#42A5F5', '#EC407A', '#7E57C2', '#78909C', '#9CCC65', '#FFCA28'];
+
+/**
+ * Fill colour for a crop; crops without a set colour get a stable one from their name
+ */
+export const cropColor = (crop: string): string => {
+  const name = normalizeText(crop.trim());
+  if (!name) return '#E0E0E0';
+  const known = CROP_COLORS.find(([keyword]) => name.includes(keyword));
+  if (known) return known[1];
+  const hash = [...name].reduce((total, char) => (total * 31 + char.charCodeAt(0)) >>> 0, 7);
+  return FALLBACK_COLORS[hash % FALLBACK_COLORS.length];
+};
+
+export interface SoilClass {
+  id: string;
+  label: string;
+  color: string;
+}
+
+// Checked in order: "Limono-argileux" is a loam, "Argilo-calcaire" a clay-limestone soil
+const SOIL_CLASSES: (SoilClass & { keywords: string[] })[] = [
+  { id: 'andosol', label: 'Sols volcaniques (andosols)', color: '#5D4037', keywords: ['volcan', 'andosol', 'ponce'] },
+  { id: 'calcareous', label: 'Sols argilo-calcaires', color: '#E6C26E', keywords: ['calcaire', 'calcique'] },
+  { id: 'ferralsol', label: 'Sols ferrallitiques', color: '#C0392B', keywords: ['ferral', 'lateri'] },
+  { id: 'vertisol', label: 'Vertisols', color: '#7B5E7B', keywords: ['vertisol'] },
+  { id: 'sandy', label: 'Sols sableux', color: '#F5E08A', keywords: ['sabl', 'sand'] },
+  { id: 'loam', label: 'Sols limoneux', color: '#A1887F', keywords: ['limon', 'loam'] },
+  { id: 'clay', label: 'Sols argileux', color: '#8E6C4E', keywords: ['argil', 'clay'] }
+];
+
+const UNCLASSIFIED_SOIL: SoilClass = { id: 'unknown', label: 'Sol non classé', color: '#BDBDBD' };
+
+/**
+ * Soil class of a parcel from its free-text soil type
+ */
+export const classifySoil = (soilType: string): SoilClass => {
+  const text = normalizeText(soilType);
+  const match = SOIL_CLASSES.find(soil => soil.keywords.some(keyword => text.includes(keyword)));
+  return match ? { id: match.id, label: match.label, color: match.color } : UNCLASSIFIED_SOIL;
+};
+
+const RAINFALL_CLASSES = [
+  { max: 1500, label: 'Moins de 1 500 mm/an', color: '#BBDEFB' },
+  { max: 2500, label: '1 500 à 2 500 mm/an', color: '#64B5F6' },
+  { max: 3500, label: '2 500 à 3 500 mm/an', color: '#1E88E5' },
+  { max: Infinity, label: 'Plus de 3 500 mm/an', color: '#0D47A1' }
+];
+
+export const rainfallClass = (rainfall: number) =>
+  RAINFALL_CLASSES.find(rainfallRange => rainfall < rainfallRange.max) ?? RAINFALL_CLASSES[RAINFALL_CLASSES.length - 1];
+
+export const IRRIGATION_LINE_LABELS: Record<IrrigationLineKind, string> = {
+  main: 'Conduite principale',
+  lateral: 'Rampe d\'aspersion',
+  drip: 'Ligne goutte à goutte',
+  canal: 'Canal'
+};
+
+const IRRIGATION_LINE_STYLES: Record<IrrigationLineKind, L.PathOptions> = {
+  main: { color: '#01579B', weight: 4 },
+  lateral: { color: '#0288D1', weight: 2.5 },
+  drip: { color: '#29B6F6', weight: 2, dashArray: '2 4' },
+  canal: { color: '#00838F', weight: 5, opacity: 0.8 }
+};
+
+const PARCEL_OUTLINE: L.PathOptions = { color: '#1B5E20', weight: 2, fillColor: '#1B5E20', fillOpacity: 0.05 };
+
+export const overlayPaneName = (id: OverlayId) => `overlay-${id}`;
+
+/**
+ * Pane holding one overlay; panes carry the overlay's stacking order and opacity
+ */
+export const ensureOverlayPane = (map: L.Map, id: OverlayId): HTMLElement =>
+  map.getPane(overlayPaneName(id)) ?? map.createPane(overlayPaneName(id));
+
+/**
+ * Stack the overlay panes in the chosen order (between tiles and markers) and apply opacities
+ */
+export const applyLayerStyles = (map: L.Map, layers: MapLayerState[]) => {
+  const overlays = layers.filter(layer => !isBaseLayer(layer.id));
+  overlays.forEach((layer, index) => {
+    const pane = ensureOverlayPane(map, layer.id as OverlayId);
+    pane.style.zIndex = String(400 + (overlays.length - index) * 10);
+    pane.style.opacity = String(layer.opacity);
+  });
+  const tilePane = map.getPane('tilePane');
+  if (tilePane) tilePane.style.opacity = String(activeBaseLayer(layers).opacity);
+};
+
+const parcelPopup = (parcel: ParcelData): HTMLElement => {
+  const popup = document.createElement('div');
+  const title = document.createElement('strong');
+  title.textContent = parcel.name;
+  popup.append(title, document.createElement('br'), `${parcel.crop || '—'} · ${parcel.area} ha`);
+  if (parcel.soilType) popup.append(document.createElement('br'), `Sol : ${parcel.soilType}`);
+  return popup;
+};
+
+const hasLocation = (parcel: ParcelData) =>
+  Boolean(parcel.boundary || parcel.coordinates.lat || parcel.coordinates.lng);
+
+// Parcels without a boundary are drawn as a point at their label position
+const parcelShape = (parcel: ParcelData, style: L.PathOptions, pane: string): L.Layer =>
+  parcel.boundary
+    ? L.geoJSON(parcel.boundary, { pane, style: () => style })
+    : L.circleMarker([parcel.coordinates.lat, parcel.coordinates.lng], { pane, radius: 8, ...style, fillOpacity: 0.8 });
+
+const thematicLayer = (
+  parcels: ParcelData[],
+  pane: string,
+  classify: (parcel: ParcelData) => { label: string; color: string } | null
+): L.LayerGroup => {
+  const group = L.layerGroup();
+  parcels.filter(hasLocation).forEach(parcel => {
+    const parcelClass = classify(parcel);
+    if (!parcelClass) return;
+    const shape = parcelShape(parcel, { color: '#FFFFFF', weight: 1, fillColor: parcelClass.color, fillOpacity: 0.85 }, pane);
+    (shape as L.Path).bindTooltip(mapLabel(`${parcel.name} — ${parcelClass.label}`)).addTo(group);
+  });
+  return group;
+};
+
+/**
+ * Leaflet layer for an overlay, drawn in the overlay's pane
+ */
+export const buildOverlay = (id: OverlayId, { parcels, irrigationLines }: OverlayData): L.Layer => {
+  const pane = overlayPaneName(id);
+  switch (id) {
+    case 'parcels': {
+      const group = L.layerGroup();
+      parcels.filter(hasLocation).forEach(parcel => {
+        (parcelShape(parcel, PARCEL_OUTLINE, pane) as L.Path)
+          .bindTooltip(mapLabel(parcel.name))
+          .bindPopup(parcelPopup(parcel))
+          .addTo(group);
+      });
+      return group;
+    }
+    case 'crops':
+      return thematicLayer(parcels, pane, parcel => ({ label: parcel.crop || 'Sans culture', color: cropColor(parcel.crop) }));
+    case 'soil':
+      return thematicLayer(parcels, pane, parcel => classifySoil(parcel.soilType));
+    case 'rainfall':
+      return thematicLayer(parcels, pane, parcel => parcel.rainfall !== undefined
+        ? { label: `${parcel.rainfall} mm/an`, color: rainfallClass(parcel.rainfall).color }
+        : null);
+    case 'irrigation': {
+      const group = L.layerGroup();
+      irrigationLines.forEach(line => {
+        L.geoJSON(line.path, { pane, style: () => IRRIGATION_LINE_STYLES[line.kind] })
+          .bindTooltip(mapLabel(`${line.name || 'Sans nom'} (${IRRIGATION_LINE_LABELS[line.kind]})`))
+          .addTo(group);
+      });
+      return group;
+    }
+  }
+};
+
+const uniqueEntries = (entries: LegendEntry[]) =>
+  entries.filter((entry, index) => entries.findIndex(other => other.label === entry.label) === index);
+
+/**
+ * Legend of an overlay, limited to the classes present in the data
+ */
+export const overlayLegend = (id: OverlayId, { parcels, irrigationLines }: OverlayData): LegendEntry[] => {
+  switch (id) {
+    case 'parcels':
+      return [{ label: 'Limite de parcelle', color: PARCEL_OUTLINE.color as string, shape: 'outline' }];
+    case 'crops':
+      return uniqueEntries(parcels.map(parcel => ({
+        label: parcel.crop || 'Sans culture',
+        color: cropColor(parcel.crop),
+        shape: 'fill'
+      })));
+    case 'soil':
+      return uniqueEntries(parcels.map(parcel => {
+        const soil = classifySoil(parcel.soilType);
+        return { label: soil.label, color: soil.color, shape: 'fill' };
+      }));
+    case 'rainfall':
+      return RAINFALL_CLASSES
+        .filter(rainfallRange => parcels.some(parcel =>
+          parcel.rainfall !== undefined && rainfallClass(parcel.rainfall) === rainfallRange))
+        .map(rainfallRange => ({ label: rainfallRange.label, color: rainfallRange.color, shape: 'fill' }));
+    case 'irrigation':
+      return uniqueEntries(irrigationLines.map(line => ({
+        label: IRRIGATION_LINE_LABELS[line.kind],
+        color: IRRIGATION_LINE_STYLES[line.kind].color as string,
+        shape: 'line'
+      })));
+  }
+};
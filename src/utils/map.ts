@@ -0,0 +1,123 @@
+import L from 'leaflet';
+import type { ParcelData } from '@/types/farm';
+
+const TILE_CACHE = 'agridom-map-tiles';
+
+// Point VITE_MAP_TILE_URL at a local tile server (or tiles copied under public/) to work without internet
+export const BASE_TILE_URL: string =
+  import.meta.env.VITE_MAP_TILE_URL ?? 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+export const BASE_TILE_ATTRIBUTION: string =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ?? '&copy; OpenStreetMap contributors';
+
+export type BaseLayerId = 'plan' | 'satellite' | 'terrain';
+
+export interface TileSource {
+  url: string;
+  attribution: string;
+  maxZoom: number;
+}
+
+// Satellite and relief tiles come from public services unless a local source is configured
+export const BASE_LAYER_SOURCES: Record<BaseLayerId, TileSource> = {
+  plan: { url: BASE_TILE_URL, attribution: BASE_TILE_ATTRIBUTION, maxZoom: 19 },
+  satellite: {
+    url: import.meta.env.VITE_MAP_SATELLITE_URL
+      ?? 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics',
+    maxZoom: 19
+  },
+  terrain: {
+    url: import.meta.env.VITE_MAP_TERRAIN_URL ?? 'https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png',
+    attribution: '&copy; OpenStreetMap contributors, SRTM | &copy; OpenTopoMap (CC-BY-SA)',
+    maxZoom: 17
+  }
+};
+
+export const GUADELOUPE_CENTER = { lat: 16.2, lng: -61.55 };
+export const GUADELOUPE_ZOOM = 10;
+
+/**
+ * Fetch a tile through the Cache API so tiles seen once stay available offline.
+ * Resolves to an object URL, or to the plain URL when caching is not possible.
+ */
+const loadTile = async (url: string): Promise<string> => {
+  if (!('caches' in window)) return url;
+  try {
+    const cache = await caches.open(TILE_CACHE);
+    let response = await cache.match(url);
+    if (!response) {
+      response = await fetch(url, { mode: 'cors' });
+      if (!response.ok) return url;
+      await cache.put(url, response.clone());
+    }
+    return URL.createObjectURL(await response.blob());
+  } catch {
+    return url;
+  }
+};
+
+class CachedTileLayer extends L.TileLayer {
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+
+    L.DomEvent.on(tile, 'load', () => {
+      if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src);
+      done(undefined, tile);
+    });
+    L.DomEvent.on(tile, 'error', () => done(new Error(`Tile ${coords.z}/${coords.x}/${coords.y} unavailable`), tile));
+
+    loadTile(this.getTileUrl(coords)).then(src => {
+      tile.src = src;
+    });
+    return tile;
+  }
+}
+
+/**
+ * Tile layer from any URL template, cached like the base map
+ */
+export const createCachedTileLayer = (
+  url: string = BASE_TILE_URL,
+  options: L.TileLayerOptions = {}
+): L.TileLayer =>
+  new CachedTileLayer(url, {
+    attribution: BASE_TILE_ATTRIBUTION,
+    maxZoom: 19,
+    crossOrigin: true,
+    ...options
+  });
+
+/**
+ * Base map layer; tiles are kept in the browser cache for use without signal
+ */
+export const createBaseLayer = (base: BaseLayerId, options: L.TileLayerOptions = {}): L.TileLayer => {
+  const source = BASE_LAYER_SOURCES[base];
+  return createCachedTileLayer(source.url, { attribution: source.attribution, maxZoom: source.maxZoom, ...options });
+};
+
+/**
+ * Plain-text element for tooltips and popups (Leaflet renders strings as HTML)
+ */
+export const mapLabel = (text: string): HTMLElement => {
+  const label = document.createElement('span');
+  label.textContent = text;
+  return label;
+};
+
+/**
+ * Bounds covering every parcel, boundaries and label points alike
+ */
+export const parcelBounds = (parcels: ParcelData[]): L.LatLngBounds | null => {
+  const bounds = L.latLngBounds([]);
+  parcels.forEach(parcel => {
+    if (parcel.boundary) {
+      bounds.extend(L.geoJSON(parcel.boundary).getBounds());
+    } else if (parcel.coordinates.lat || parcel.coordinates.lng) {
+      bounds.extend([parcel.coordinates.lat, parcel.coordinates.lng]);
+    }
+  });
+  return bounds.isValid() ? bounds : null;
+};
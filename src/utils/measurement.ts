@@ -0,0 +1,109 @@
+import L from 'leaflet';
+import type { Feature, FeatureCollection, LineString, Polygon } from 'geojson';
+import type { ParcelData } from '@/types/farm';
+import { formatArea, formatDistance, geodesicArea, LatLng, latLngsFromPolygon, lineLength, polygonFromLatLngs } from './geo';
+
+export type MeasurementKind = 'distance' | 'area';
+
+export interface Measurement {
+  id: number;
+  name: string;
+  kind: MeasurementKind;
+  points: LatLng[];
+  /** Meters for distances, square meters for areas */
+  value: number;
+  createdAt: string;
+  /** Parcel the measurement was attached to as a note */
+  parcelId?: number;
+}
+
+export interface MeasurementProperties {
+  name: string;
+  kind: MeasurementKind;
+  value: number;
+  unit: 'm' | 'm2';
+  label: string;
+  createdAt: string;
+  parcelId: number | null;
+}
+
+// Clicks closer than this to a parcel vertex land exactly on it
+export const SNAP_TOLERANCE_PX = 12;
+
+export const MIN_POINTS: Record<MeasurementKind, number> = { distance: 2, area: 3 };
+
+/**
+ * Length (m) or area (m²) of the measured points
+ */
+export const measure = (kind: MeasurementKind, points: LatLng[]): number => {
+  if (points.length < MIN_POINTS[kind]) return 0;
+  return kind === 'distance' ? lineLength(points) : geodesicArea(polygonFromLatLngs(points));
+};
+
+export const formatMeasurement = (kind: MeasurementKind, value: number): string =>
+  kind === 'distance' ? formatDistance(value) : formatArea(value);
+
+/**
+ * Points a measurement can snap to: boundary vertices, or the label point of parcels without one
+ */
+export const parcelVertices = (parcels: ParcelData[]): LatLng[] =>
+  parcels.flatMap(parcel => {
+    if (parcel.boundary) return latLngsFromPolygon(parcel.boundary);
+    return parcel.coordinates.lat || parcel.coordinates.lng ? [parcel.coordinates] : [];
+  });
+
+/**
+ * Closest vertex within the snapping tolerance, measured in screen pixels at the current zoom
+ */
+export const snapToVertex = (
+  map: L.Map,
+  point: LatLng,
+  vertices: LatLng[],
+  tolerance = SNAP_TOLERANCE_PX
+): LatLng | null => {
+  const origin = map.latLngToContainerPoint([point.lat, point.lng]);
+  let closest: LatLng | null = null;
+  let closestDistance = tolerance;
+  vertices.forEach(vertex => {
+    const gap = origin.distanceTo(map.latLngToContainerPoint([vertex.lat, vertex.lng]));
+    if (gap <= closestDistance) {
+      closest = vertex;
+      closestDistance = gap;
+    }
+  });
+  return closest;
+};
+
+export const measurementToFeature = (
+  measurement: Measurement
+): Feature<LineString | Polygon, MeasurementProperties> => ({
+  type: 'Feature',
+  geometry: measurement.kind === 'distance'
+    ? { type: 'LineString', coordinates: measurement.points.map(({ lat, lng }) => [lng, lat]) }
+    : polygonFromLatLngs(measurement.points),
+  properties: {
+    name: measurement.name,
+    kind: measurement.kind,
+    value: Math.round(measurement.value * 100) / 100,
+    unit: measurement.kind === 'distance' ? 'm' : 'm2',
+    label: formatMeasurement(measurement.kind, measurement.value),
+    createdAt: measurement.createdAt,
+    parcelId: measurement.parcelId ?? null
+  }
+});
+
+export const measurementsToGeoJSON = (
+  measurements: Measurement[]
+): FeatureCollection<LineString | Polygon, MeasurementProperties> => ({
+  type: 'FeatureCollection',
+  features: measurements.map(measurementToFeature)
+});
+
+/**
+ * Line appended to a parcel's notes when a measurement is attached to it
+ */
+export const measurementNote = (measurement: Measurement): string => {
+  const date = new Date(measurement.createdAt).toLocaleDateString('fr-FR');
+  const kind = measurement.kind === 'distance' ? 'Distance' : 'Surface';
+  return `[Mesure ${date}] ${measurement.name} — ${kind} : ${formatMeasurement(measurement.kind, measurement.value)}`;
+};
@@ -0,0 +1,199 @@
+import type { Feature, FeatureCollection, Geometry } from 'geojson';
+import type { ParcelData } from '@/types/farm';
+import { geodesicArea, squareMetersToHectares } from './geo';
+import {
+  DbfField,
+  featuresToKml,
+  ImportedFeature,
+  lngLatToUtm,
+  RGAF09_UTM_20N_PRJ,
+  ShapefilePolygon,
+  writeShapefileZip
+} from './geo-formats';
+
+export type ParcelExportFormat = 'csv' | 'geojson' | 'kml' | 'telepac';
+
+export const PARCEL_EXPORT_FORMATS: { id: ParcelExportFormat; label: string; description: string }[] = [
+  { id: 'csv', label: 'CSV', description: 'Tableur, sans géométrie' },
+  { id: 'geojson', label: 'GeoJSON', description: 'Contours en WGS84' },
+  { id: 'kml', label: 'KML', description: 'Google Earth, GPS' },
+  { id: 'telepac', label: 'Telepac (PAC)', description: 'Shapefile zippé en RGAF09 / UTM 20N' }
+];
+
+/** PAC culture code and optional precision code declared for one crop */
+export interface CropCode {
+  /** Crop name as it appears on the parcels */
+  crop: string;
+  code: string;
+  precision?: string;
+}
+
+export interface PacSettings {
+  /** 9-digit PACAGE number of the farm */
+  pacage: string;
+  /** Keyed by `cropKey(crop)` */
+  cropCodes: Record<string, CropCode>;
+}
+
+/** Crops match regardless of case, accents and surrounding spaces */
+export const cropKey = (crop: string): string =>
+  crop.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+/** Codes of the crops usually grown in Guadeloupe, offered until the farm sets its own */
+const GUADELOUPE_CROP_CODES: CropCode[] = [
+  { crop: 'Banane', code: 'BEX' },
+  { crop: 'Canne à Sucre', code: 'CSA' },
+  { crop: 'Ananas', code: 'ANA' },
+  { crop: 'Igname', code: 'IGN' }
+];
+
+export const DEFAULT_PAC_SETTINGS: PacSettings = {
+  pacage: '',
+  cropCodes: Object.fromEntries(GUADELOUPE_CROP_CODES.map(entry => [cropKey(entry.crop), entry]))
+};
+
+export const isValidCropCode = (code: string): boolean => /^[A-Z0-9]{3}$/.test(code);
+
+export const isValidPacage = (pacage: string): boolean => /^\d{9}$/.test(pacage);
+
+export const normalizePacSettings = (value: unknown): PacSettings => {
+  if (!value || typeof value !== 'object') return DEFAULT_PAC_SETTINGS;
+  const { pacage, cropCodes } = value as Partial<PacSettings>;
+  const codes: Record<string, CropCode> = {};
+  Object.values(cropCodes ?? {}).forEach(entry => {
+    if (!entry || typeof entry.crop !== 'string' || typeof entry.code !== 'string') return;
+    const code = entry.code.trim().toUpperCase();
+    const precision = entry.precision?.trim().toUpperCase();
+    if (!entry.crop.trim() || !code) return;
+    codes[cropKey(entry.crop)] = { crop: entry.crop.trim(), code, ...(precision ? { precision } : {}) };
+  });
+  return { pacage: typeof pacage === 'string' ? pacage.trim() : '', cropCodes: codes };
+};
+
+export const resolveCropCode = (crop: string, settings: PacSettings): CropCode | null =>
+  settings.cropCodes[cropKey(crop)] ?? null;
+
+/** Distinct crop names of the parcels, then the ones only known from the mapping */
+export const mappedCrops = (parcels: ParcelData[], settings: PacSettings): string[] => {
+  const crops = new Map<string, string>();
+  parcels.forEach(parcel => {
+    if (parcel.crop?.trim() && !crops.has(cropKey(parcel.crop))) crops.set(cropKey(parcel.crop), parcel.crop.trim());
+  });
+  Object.entries(settings.cropCodes).forEach(([key, entry]) => {
+    if (!crops.has(key)) crops.set(key, entry.crop);
+  });
+  return Array.from(crops.values()).sort((a, b) => a.localeCompare(b, 'fr'));
+};
+
+const measuredHectares = (parcel: ParcelData): number | null =>
+  parcel.boundary ? Math.round(squareMetersToHectares(geodesicArea(parcel.boundary)) * 100) / 100 : null;
+
+const parcelFeature = (parcel: ParcelData, settings: PacSettings): ImportedFeature => {
+  const code = resolveCropCode(parcel.crop, settings);
+  const geometry: Geometry | null = parcel.boundary
+    ?? (parcel.coordinates ? { type: 'Point', coordinates: [parcel.coordinates.lng, parcel.coordinates.lat] } : null);
+  return {
+    type: 'Feature',
+    id: parcel.id,
+    geometry,
+    properties: {
+      name: parcel.name,
+      crop: parcel.crop ?? null,
+      code_culture: code?.code ?? null,
+      precision: code?.precision ?? null,
+      area_ha: parcel.area ?? null,
+      measured_area_ha: measuredHectares(parcel),
+      status: parcel.status ?? null,
+      soil_type: parcel.soilType ?? null,
+      irrigation: parcel.irrigation ?? null,
+      planting_date: parcel.plantingDate ?? null,
+      harvest_date: parcel.harvestDate ?? null,
+      owner: parcel.owner ?? null
+    }
+  };
+};
+
+export const parcelsToGeoJSON = (parcels: ParcelData[], settings: PacSettings): FeatureCollection => ({
+  type: 'FeatureCollection',
+  features: parcels.map(parcel => parcelFeature(parcel, settings) as Feature)
+});
+
+export const parcelsToKml = (parcels: ParcelData[], settings: PacSettings): string =>
+  featuresToKml(parcels.map(parcel => parcelFeature(parcel, settings)), 'Parcelles');
+
+/** Flat rows for the spreadsheet export */
+export const parcelsToRows = (parcels: ParcelData[], settings: PacSettings) =>
+  parcels.map(parcel => {
+    const { name, ...properties } = parcelFeature(parcel, settings).properties;
+    return {
+      id: parcel.id,
+      name,
+      ...properties,
+      latitude: parcel.coordinates?.lat ?? null,
+      longitude: parcel.coordinates?.lng ?? null
+    };
+  });
+
+/** Attribute table of the Telepac parcel layer */
+export const TELEPAC_FIELDS: DbfField[] = [
+  { name: 'PACAGE', type: 'C', length: 9 },
+  { name: 'NUM_ILOT', type: 'N', length: 3 },
+  { name: 'NUM_PARCEL', type: 'N', length: 3 },
+  { name: 'CODE_CULTU', type: 'C', length: 3 },
+  { name: 'PRECISION', type: 'C', length: 3 },
+  { name: 'SURF_HA', type: 'N', length: 10, decimals: 2 },
+  { name: 'NOM_PARCEL', type: 'C', length: 80 }
+];
+
+export interface TelepacExport {
+  archive: Uint8Array;
+  exported: number;
+  /** Parcels left out because they have no drawn boundary */
+  skipped: string[];
+  /** Crops exported without a culture code */
+  missingCodes: string[];
+}
+
+/**
+ * Parcel layer for a Telepac declaration: one îlot per parcel, geometry projected to
+ * RGAF09 / UTM 20N, crops translated with the configured culture codes
+ */
+export const parcelsToTelepac = (parcels: ParcelData[], settings: PacSettings): TelepacExport => {
+  const skipped: string[] = [];
+  const missing = new Set<string>();
+  const polygons: ShapefilePolygon[] = [];
+
+  parcels.forEach(parcel => {
+    if (!parcel.boundary) {
+      skipped.push(parcel.name);
+      return;
+    }
+    const code = resolveCropCode(parcel.crop, settings);
+    if (!code) missing.add(parcel.crop || 'Sans culture');
+    polygons.push({
+      rings: parcel.boundary.coordinates.map(ring => ring.map(position => lngLatToUtm(position))),
+      record: {
+        PACAGE: settings.pacage || null,
+        NUM_ILOT: polygons.length + 1,
+        NUM_PARCEL: 1,
+        CODE_CULTU: code?.code ?? null,
+        PRECISION: code?.precision ?? null,
+        SURF_HA: measuredHectares(parcel),
+        NOM_PARCEL: parcel.name
+      }
+    });
+  });
+
+  return {
+    archive: writeShapefileZip('parcelles_telepac', polygons, TELEPAC_FIELDS, RGAF09_UTM_20N_PRJ),
+    exported: polygons.length,
+    skipped,
+    missingCodes: Array.from(missing)
+  };
+};
+
+export const exportFileName = (format: ParcelExportFormat): string => {
+  const date = new Date().toISOString().split('T')[0];
+  const extension = { csv: 'csv', geojson: 'geojson', kml: 'kml', telepac: 'zip' }[format];
+  return `parcelles${format === 'telepac' ? '_telepac' : ''}_${date}.${extension}`;
+};
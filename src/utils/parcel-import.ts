@@ -0,0 +1,346 @@
+import type { Polygon, Position } from 'geojson';
+import type { ParcelData, ParcelStatus } from '@/types/farm';
+import { checkDeclaredArea, distance, geodesicArea, LatLng, polygonCentroid, ringSelfIntersection, squareMetersToHectares } from './geo';
+import type { GeoDataset, ImportedFeature, ImportedProperties } from './geo-formats';
+
+export type ImportField =
+  | 'name'
+  | 'area'
+  | 'crop'
+  | 'soilType'
+  | 'status'
+  | 'irrigation'
+  | 'owner'
+  | 'plantingDate'
+  | 'harvestDate'
+  | 'rainfall'
+  | 'ph'
+  | 'organicMatter'
+  | 'notes';
+
+interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  type: 'text' | 'number' | 'date' | 'status';
+  required?: boolean;
+  /** Property names recognized automatically (compared without case, accents or separators) */
+  synonyms: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'name', label: 'Nom', type: 'text', required: true, synonyms: ['name', 'nom', 'nomparcelle', 'libelle', 'label', 'parcelle', 'nomparcel', 'numparcel', 'idparcel', 'numilot', 'ilot'] },
+  { field: 'area', label: 'Surface (ha)', type: 'number', synonyms: ['area', 'surface', 'superficie', 'surfha', 'surfparc', 'surfadm', 'hectares', 'ha'] },
+  { field: 'crop', label: 'Culture', type: 'text', synonyms: ['crop', 'culture', 'cultures', 'codecultu', 'cult', 'espece'] },
+  { field: 'soilType', label: 'Type de sol', type: 'text', synonyms: ['soiltype', 'soil', 'sol', 'typesol', 'typedesol'] },
+  { field: 'status', label: 'Statut', type: 'status', synonyms: ['status', 'statut', 'etat'] },
+  { field: 'irrigation', label: 'Irrigation', type: 'text', synonyms: ['irrigation', 'irrig', 'arrosage'] },
+  { field: 'owner', label: 'Propriétaire', type: 'text', synonyms: ['owner', 'proprietaire', 'exploitant'] },
+  { field: 'plantingDate', label: 'Date de plantation', type: 'date', synonyms: ['plantingdate', 'dateplantation', 'plantation', 'semis'] },
+  { field: 'harvestDate', label: 'Date de récolte', type: 'date', synonyms: ['harvestdate', 'daterecolte', 'recolte'] },
+  { field: 'rainfall', label: 'Pluviométrie (mm/an)', type: 'number', synonyms: ['rainfall', 'pluviometrie', 'pluie', 'precipitations'] },
+  { field: 'ph', label: 'pH', type: 'number', synonyms: ['ph', 'phsol'] },
+  { field: 'organicMatter', label: 'Matière organique (%)', type: 'number', synonyms: ['organicmatter', 'matiereorganique', 'mo'] },
+  { field: 'notes', label: 'Notes', type: 'text', synonyms: ['notes', 'note', 'description', 'commentaire', 'remarque'] }
+];
+
+/** Feature property read for each parcel field; unmapped fields are left out */
+export type PropertyMapping = Partial<Record<ImportField, string>>;
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Création',
+  update: 'Mise à jour',
+  skip: 'Ignorée'
+};
+
+export const IMPORT_ACTION_COLORS: Record<ImportAction, string> = {
+  create: '#2E7D32',
+  update: '#1565C0',
+  skip: '#C62828'
+};
+
+export interface ImportIssue {
+  level: 'error' | 'warning';
+  message: string;
+}
+
+export interface ImportRow {
+  /** Position of the feature in the file */
+  index: number;
+  name: string;
+  /** Parcel fields read from the feature, boundary and label point included */
+  values: Partial<Omit<ParcelData, 'id'>>;
+  /** Area of the boundary in hectares */
+  measuredArea?: number;
+  issues: ImportIssue[];
+  /** Existing parcel this feature updates */
+  match?: ParcelData;
+  action: ImportAction;
+}
+
+// Two geometries closer than this, with areas within DUPLICATE_AREA_GAP, are the same parcel
+const DUPLICATE_DISTANCE_M = 10;
+const DUPLICATE_AREA_GAP = 0.05;
+
+// Rough extent of the Guadeloupe archipelago, used to spot swapped coordinates
+const GUADELOUPE_BOUNDS = { minLat: 15.8, maxLat: 16.6, minLng: -61.9, maxLng: -60.9 };
+
+const normalizeKey = (key: string) =>
+  key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+export const normalizeName = (name: string) => normalizeKey(name.trim());
+
+/**
+ * Property names found in the features, in order of first appearance
+ */
+export const propertyKeys = (dataset: GeoDataset): string[] => {
+  const keys: string[] = [];
+  dataset.features.forEach(feature => {
+    Object.keys(feature.properties ?? {}).forEach(key => {
+      if (!keys.includes(key)) keys.push(key);
+    });
+  });
+  return keys;
+};
+
+/**
+ * Map each parcel field to the first property whose name is one of its synonyms
+ */
+export const suggestMapping = (keys: string[]): PropertyMapping => {
+  const mapping: PropertyMapping = {};
+  const used = new Set<string>();
+  IMPORT_FIELDS.forEach(({ field, synonyms }) => {
+    const key = synonyms
+      .map(synonym => keys.find(candidate => !used.has(candidate) && normalizeKey(candidate) === synonym))
+      .find(Boolean);
+    if (key) {
+      mapping[field] = key;
+      used.add(key);
+    }
+  });
+  return mapping;
+};
+
+const toNumber = (value: string | number | boolean): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const parsed = parseFloat(value.replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+const toDate = (value: string | number | boolean): string | null => {
+  const text = String(value).trim();
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const french = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (french) return `${french[3]}-${french[2].padStart(2, '0')}-${french[1].padStart(2, '0')}`;
+  return null;
+};
+
+const STATUS_WORDS: Record<ParcelStatus, string[]> = {
+  active: ['active', 'actif', 'encours', 'enculture', 'cultivee'],
+  inactive: ['inactive', 'inactif', 'jachere', 'abandonnee'],
+  planned: ['planned', 'prevu', 'prevue', 'projet', 'planifiee']
+};
+
+const toStatus = (value: string | number | boolean): ParcelStatus | null => {
+  const key = normalizeKey(String(value));
+  return (Object.keys(STATUS_WORDS) as ParcelStatus[]).find(status => STATUS_WORDS[status].includes(key)) ?? null;
+};
+
+const readValues = (properties: ImportedProperties, mapping: PropertyMapping, issues: ImportIssue[]) => {
+  const values: Partial<Omit<ParcelData, 'id'>> = {};
+  IMPORT_FIELDS.forEach(({ field, label, type }) => {
+    const key = mapping[field];
+    const raw = key ? properties[key] : undefined;
+    if (raw === undefined || raw === null || raw === '') return;
+
+    const converted = type === 'number' ? toNumber(raw)
+      : type === 'date' ? toDate(raw)
+        : type === 'status' ? toStatus(raw)
+          : String(raw).trim();
+    if (converted === null) {
+      issues.push({ level: 'warning', message: `${label} : valeur « ${raw} » ignorée` });
+      return;
+    }
+    (values as Record<string, unknown>)[field] = converted;
+  });
+  return values;
+};
+
+const closeRing = (ring: Position[]): Position[] => {
+  if (ring.length === 0) return ring;
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return first[0] === last[0] && first[1] === last[1] ? ring : [...ring, first];
+};
+
+const inGuadeloupe = ({ lat, lng }: LatLng) =>
+  lat >= GUADELOUPE_BOUNDS.minLat && lat <= GUADELOUPE_BOUNDS.maxLat
+  && lng >= GUADELOUPE_BOUNDS.minLng && lng <= GUADELOUPE_BOUNDS.maxLng;
+
+/**
+ * Single polygon (or point) for a feature, with the problems that prevent importing it
+ */
+const readGeometry = (
+  feature: ImportedFeature,
+  issues: ImportIssue[]
+): { boundary?: Polygon; coordinates?: LatLng } => {
+  const geometry = feature.geometry;
+  if (!geometry) {
+    issues.push({ level: 'error', message: 'Géométrie manquante' });
+    return {};
+  }
+
+  if (geometry.type === 'Point') {
+    const [lng, lat] = geometry.coordinates;
+    issues.push({ level: 'warning', message: 'Point sans contour : seule la position sera importée' });
+    return { coordinates: { lat, lng } };
+  }
+
+  let polygon: Polygon;
+  if (geometry.type === 'Polygon') {
+    polygon = geometry;
+  } else if (geometry.type === 'MultiPolygon' && geometry.coordinates.length > 0) {
+    const parts: Polygon[] = geometry.coordinates.map(coordinates => ({ type: 'Polygon', coordinates }));
+    polygon = parts.reduce((largest, part) => geodesicArea(part) > geodesicArea(largest) ? part : largest);
+    if (parts.length > 1) {
+      issues.push({ level: 'warning', message: `Multipolygone de ${parts.length} parties : seule la plus grande est importée` });
+    }
+  } else {
+    issues.push({ level: 'error', message: `Type de géométrie non pris en charge : ${geometry.type}` });
+    return {};
+  }
+
+  const rings = polygon.coordinates.map(closeRing);
+  const outOfRange = rings.some(ring => ring.some(([lng, lat]) => Math.abs(lng) > 180 || Math.abs(lat) > 90));
+  if (outOfRange) {
+    issues.push({ level: 'error', message: 'Coordonnées hors des plages longitude/latitude : mauvais système de coordonnées ?' });
+    return {};
+  }
+  if (rings.length === 0 || rings.some(ring => ring.length < 4)) {
+    issues.push({ level: 'error', message: 'Contour incomplet (moins de 3 sommets)' });
+    return {};
+  }
+
+  rings.forEach((ring, i) => {
+    const crossing = ringSelfIntersection(ring);
+    if (crossing) {
+      issues.push({
+        level: 'error',
+        message: `${i === 0 ? 'Contour' : 'Trou'} auto-intersecté près de ${crossing[1].toFixed(5)}, ${crossing[0].toFixed(5)}`
+      });
+    }
+  });
+
+  const boundary: Polygon = { type: 'Polygon', coordinates: rings };
+  if (geodesicArea(boundary) === 0) {
+    issues.push({ level: 'error', message: 'Contour de surface nulle' });
+  }
+
+  const centroid = polygonCentroid(boundary);
+  if (!inGuadeloupe(centroid) && inGuadeloupe({ lat: centroid.lng, lng: centroid.lat })) {
+    issues.push({ level: 'error', message: 'Longitude et latitude semblent inversées' });
+  }
+
+  return {
+    boundary,
+    coordinates: { lat: parseFloat(centroid.lat.toFixed(6)), lng: parseFloat(centroid.lng.toFixed(6)) }
+  };
+};
+
+const sameGeometry = (a: ImportRow | ParcelData, b: ImportRow): boolean => {
+  const boundaryA = 'values' in a ? a.values.boundary : a.boundary;
+  const boundaryB = b.values.boundary;
+  if (!boundaryA || !boundaryB) return false;
+  const areaA = geodesicArea(boundaryA);
+  const areaB = geodesicArea(boundaryB);
+  const areaGap = Math.abs(areaA - areaB) / Math.max(areaA, areaB, 1);
+  return distance(polygonCentroid(boundaryA), polygonCentroid(boundaryB)) < DUPLICATE_DISTANCE_M
+    && areaGap < DUPLICATE_AREA_GAP;
+};
+
+/**
+ * Validate every feature and decide whether it creates a parcel, updates an existing one
+ * (same name, or same boundary under another name) or cannot be imported
+ */
+export const buildImportPlan = (
+  dataset: GeoDataset,
+  mapping: PropertyMapping,
+  existing: ParcelData[]
+): ImportRow[] => {
+  const rows: ImportRow[] = [];
+
+  dataset.features.forEach((feature, index) => {
+    const issues: ImportIssue[] = [];
+    if (dataset.crsError) issues.push({ level: 'error', message: dataset.crsError });
+
+    const values = readValues(feature.properties ?? {}, mapping, issues);
+    const geometry = dataset.crsError ? {} : readGeometry(feature, issues);
+    Object.assign(values, geometry);
+
+    const name = values.name ?? '';
+    if (!name) issues.push({ level: 'error', message: 'Nom manquant' });
+
+    const measuredArea = geometry.boundary
+      ? Math.round(squareMetersToHectares(geodesicArea(geometry.boundary)) * 100) / 100
+      : undefined;
+    if (geometry.boundary && values.area !== undefined) {
+      const check = checkDeclaredArea(values.area, geometry.boundary);
+      if (check.diverges) {
+        issues.push({
+          level: 'warning',
+          message: `Surface déclarée ${values.area} ha, mesurée ${measuredArea} ha (écart ${Math.round(check.difference * 100)}%)`
+        });
+      }
+    }
+
+    const row: ImportRow = { index, name, values, measuredArea, issues, action: 'create' };
+
+    const earlier = rows.find(other => other.name && normalizeName(other.name) === normalizeName(name));
+    if (name && earlier) {
+      issues.push({ level: 'error', message: `Nom en double dans le fichier (élément ${earlier.index + 1})` });
+    }
+    const twin = rows.find(other => sameGeometry(other, row));
+    if (twin) {
+      issues.push({ level: 'error', message: `Même contour que l'élément ${twin.index + 1}` });
+    }
+
+    row.match = existing.find(parcel => name && normalizeName(parcel.name) === normalizeName(name));
+    if (!row.match) {
+      row.match = existing.find(parcel => sameGeometry(parcel, row));
+      if (row.match) {
+        issues.push({ level: 'warning', message: `Même contour que la parcelle existante « ${row.match.name} »` });
+      }
+    }
+
+    row.action = issues.some(issue => issue.level === 'error') ? 'skip' : row.match ? 'update' : 'create';
+    rows.push(row);
+  });
+
+  return rows;
+};
+
+export const rowHasErrors = (row: ImportRow) => row.issues.some(issue => issue.level === 'error');
+
+/**
+ * Parcel to create from a row, with defaults for the fields the file does not provide
+ */
+export const parcelFromRow = (row: ImportRow): Omit<ParcelData, 'id'> => ({
+  name: row.name,
+  area: row.measuredArea ?? 0,
+  crop: '',
+  status: 'active',
+  lastActivity: new Date().toISOString().split('T')[0],
+  soilType: '',
+  coordinates: { lat: 0, lng: 0 },
+  ...row.values
+});
+
+/**
+ * Changes applied to the matched parcel; its name is kept
+ */
+export const parcelUpdateFromRow = (row: ImportRow): Partial<ParcelData> => {
+  const { name, ...updates } = row.values;
+  return updates;
+};
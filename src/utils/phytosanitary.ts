@@ -0,0 +1,224 @@
+import type {
+  CropData,
+  CropTask,
+  InventoryItem,
+  ParcelData,
+  PhytosanitaryTreatment,
+  WeatherObservation,
+  WeatherStation
+} from '@/types/farm';
+import { addDays } from './crop-calendar';
+import { localDay, nearestStation } from './weather-series';
+
+/** Stock category of the products recorded in the register */
+export const PHYTOSANITARY_CATEGORY = 'Phytosanitary Products';
+
+/** Above this wind speed (m/s, 19 km/h) spraying is forbidden */
+export const MAX_SPRAYING_WIND = 5.3;
+
+export class PhytosanitaryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PhytosanitaryError';
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString('fr-FR');
+
+/** Local day of the application */
+export const treatmentDay = (treatment: Pick<PhytosanitaryTreatment, 'appliedAt'>) => localDay(treatment.appliedAt);
+
+/** Whether the treatment was cancelled; it stays in the register but no longer counts */
+export const isCancelled = (treatment: Pick<PhytosanitaryTreatment, 'cancelledAt'>) =>
+  treatment.cancelledAt !== undefined;
+
+/** First day the treated parcel may be harvested */
+export const harvestAllowedFrom = (treatment: Pick<PhytosanitaryTreatment, 'appliedAt' | 'preHarvestInterval'>) =>
+  addDays(treatmentDay(treatment), treatment.preHarvestInterval);
+
+/** Whether the dose is above the label maximum */
+export const isOverdose = (treatment: Pick<PhytosanitaryTreatment, 'dose' | 'maxDose'>) =>
+  treatment.maxDose !== undefined && treatment.dose > treatment.maxDose + 0.0005;
+
+/** Quantity of product applied over the treated area */
+export const treatmentQuantity = (treatment: Pick<PhytosanitaryTreatment, 'dose' | 'treatedArea'>) =>
+  round3(treatment.dose * treatment.treatedArea);
+
+/** Reason a treatment cannot be recorded, or null */
+export const treatmentError = (treatment: Partial<PhytosanitaryTreatment>) => {
+  if (!treatment.productName?.trim()) return 'Le produit est requis';
+  if (!treatment.ammNumber?.trim()) return 'Le numéro d\'AMM est requis';
+  if (!treatment.appliedAt || Number.isNaN(new Date(treatment.appliedAt).getTime())) {
+    return 'La date d\'application est requise';
+  }
+  if (!treatment.parcelId) return 'Choisissez la parcelle traitée';
+  if (!(treatment.treatedArea !== undefined && treatment.treatedArea > 0)) return 'La surface traitée doit être positive';
+  if (!(treatment.dose !== undefined && treatment.dose > 0)) return 'La dose doit être positive';
+  if (!Number.isInteger(treatment.preHarvestInterval) || (treatment.preHarvestInterval ?? -1) < 0) {
+    return 'Le délai avant récolte doit être un nombre de jours';
+  }
+  if (!treatment.operator?.trim()) return 'L\'applicateur est requis';
+  if (treatment.windSpeed !== undefined && !(treatment.windSpeed >= 0)) return 'La vitesse du vent doit être positive';
+  if (treatment.humidity !== undefined && !(treatment.humidity >= 0 && treatment.humidity <= 100)) {
+    return 'L\'humidité doit être comprise entre 0 et 100 %';
+  }
+  return null;
+};
+
+/** Regulatory warnings of a valid treatment: overdose and spraying in strong wind */
+export const treatmentWarnings = (treatment: PhytosanitaryTreatment | Omit<PhytosanitaryTreatment, 'id'>) => [
+  ...(isOverdose(treatment)
+    ? [`Dose de ${treatment.dose} ${treatment.doseUnit} supérieure au maximum homologué (${treatment.maxDose} ${treatment.doseUnit})`]
+    : []),
+  ...(treatment.windSpeed !== undefined && treatment.windSpeed > MAX_SPRAYING_WIND
+    ? [`Vent de ${treatment.windSpeed} m/s : la pulvérisation est interdite au-delà de ${MAX_SPRAYING_WIND} m/s`]
+    : [])
+];
+
+/** Label data of a stock item that goes into a treatment */
+export const productFields = (item: InventoryItem) => ({
+  itemId: item.id,
+  productName: item.name,
+  ammNumber: item.ammNumber ?? '',
+  doseUnit: `${item.unit}/ha`,
+  maxDose: item.maxDose,
+  preHarvestInterval: item.preHarvestInterval ?? 0
+});
+
+// Parcel a task works on, directly or through its crop cycle
+const taskParcel = (task: Pick<CropTask, 'parcelId' | 'cropId'>, crops: CropData[]) =>
+  task.parcelId ?? crops.find(crop => crop.id === task.cropId)?.parcelId;
+
+/**
+ * Treatment whose pre-harvest interval covers the date of a harvest task on the same
+ * parcel or crop cycle, the one lifting last when several do. Cancelled treatments are ignored.
+ */
+export const blockingTreatment = (
+  task: Pick<CropTask, 'date' | 'parcelId' | 'cropId'>,
+  treatments: PhytosanitaryTreatment[],
+  crops: CropData[]
+) => {
+  const parcelId = taskParcel(task, crops);
+  return treatments
+    .filter(treatment => !isCancelled(treatment))
+    .filter(treatment => treatment.parcelId === parcelId || (!!task.cropId && treatment.cropCycleId === task.cropId))
+    .filter(treatment => treatmentDay(treatment) <= task.date && harvestAllowedFrom(treatment) > task.date)
+    .sort((a, b) => harvestAllowedFrom(b).localeCompare(harvestAllowedFrom(a)))[0];
+};
+
+/** Reason a harvest task cannot be saved on its date, or null */
+export const harvestError = (
+  task: Pick<CropTask, 'date' | 'parcelId' | 'cropId' | 'harvest'>,
+  treatments: PhytosanitaryTreatment[],
+  crops: CropData[]
+) => {
+  if (!task.harvest) return null;
+  const treatment = blockingTreatment(task, treatments, crops);
+  if (!treatment) return null;
+  return `Récolte interdite avant le ${formatDay(harvestAllowedFrom(treatment))} : ` +
+    `${treatment.productName} appliqué le ${formatDay(treatmentDay(treatment))} ` +
+    `(délai avant récolte de ${treatment.preHarvestInterval} j)`;
+};
+
+/** Open harvest tasks a new treatment would put inside its pre-harvest interval */
+export const harvestsWithinInterval = (
+  treatment: Pick<PhytosanitaryTreatment, 'appliedAt' | 'preHarvestInterval' | 'parcelId' | 'cropCycleId'>,
+  tasks: CropTask[],
+  crops: CropData[]
+) => {
+  const from = treatmentDay(treatment);
+  const until = harvestAllowedFrom(treatment);
+  return tasks.filter(task =>
+    task.harvest && !task.completed && task.date >= from && task.date < until &&
+    (taskParcel(task, crops) === treatment.parcelId || (!!task.cropId && task.cropId === treatment.cropCycleId))
+  );
+};
+
+export interface ApplicationWeather {
+  station: WeatherStation;
+  temperature?: number;
+  windSpeed?: number;
+  humidity?: number;
+}
+
+/**
+ * Weather at the station closest to the parcel, from its observation nearest to the
+ * application time, when one was made within three hours of it
+ */
+export const applicationWeather = (
+  parcel: Pick<ParcelData, 'coordinates'>,
+  appliedAt: string,
+  stations: WeatherStation[],
+  observations: WeatherObservation[]
+): ApplicationWeather | undefined => {
+  const station = nearestStation(parcel.coordinates, stations)?.station;
+  const time = new Date(appliedAt).getTime();
+  if (!station || Number.isNaN(time)) return undefined;
+  const observation = observations
+    .filter(item => item.stationId === station.id)
+    .map(item => ({ item, gap: Math.abs(new Date(item.observedAt).getTime() - time) }))
+    .filter(({ gap }) => gap <= 3 * HOUR)
+    .sort((a, b) => a.gap - b.gap)[0]?.item;
+  if (!observation) return undefined;
+  return {
+    station,
+    temperature: observation.temperature,
+    windSpeed: observation.windSpeed,
+    humidity: observation.humidity
+  };
+};
+
+/** Columns of the register as printed for an inspection */
+export const REGISTER_COLUMNS = [
+  { key: 'date', header: 'Date' },
+  { key: 'parcel', header: 'Parcelle' },
+  { key: 'crop', header: 'Culture' },
+  { key: 'product', header: 'Produit' },
+  { key: 'amm', header: 'N° AMM' },
+  { key: 'target', header: 'Cible' },
+  { key: 'dose', header: 'Dose' },
+  { key: 'area', header: 'Surface (ha)' },
+  { key: 'quantity', header: 'Quantité' },
+  { key: 'operator', header: 'Applicateur' },
+  { key: 'weather', header: 'Météo' },
+  { key: 'harvestFrom', header: 'Récolte possible le' },
+  { key: 'remarks', header: 'Observations' }
+];
+
+/** One printable row per treatment, oldest first as the register is kept */
+export const registerRows = (treatments: PhytosanitaryTreatment[], parcels: ParcelData[], crops: CropData[]) =>
+  [...treatments]
+    .sort((a, b) => a.appliedAt.localeCompare(b.appliedAt))
+    .map(treatment => {
+      const applied = new Date(treatment.appliedAt);
+      const unit = treatment.doseUnit.replace(/\/ha$/, '');
+      return {
+        date: `${applied.toLocaleDateString('fr-FR')} ${applied.toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}`,
+        parcel: parcels.find(parcel => parcel.id === treatment.parcelId)?.name ?? '',
+        crop: crops.find(crop => crop.id === treatment.cropCycleId)?.name ?? '',
+        product: treatment.productName,
+        amm: treatment.ammNumber,
+        target: treatment.target ?? '',
+        dose: `${treatment.dose} ${treatment.doseUnit}${treatment.maxDose !== undefined ? ` (max ${treatment.maxDose})` : ''}`,
+        area: treatment.treatedArea,
+        quantity: `${treatmentQuantity(treatment)} ${unit}`,
+        operator: treatment.operator,
+        weather: [
+          treatment.weather,
+          treatment.temperature !== undefined ? `${treatment.temperature} °C` : undefined,
+          treatment.windSpeed !== undefined ? `vent ${treatment.windSpeed} m/s` : undefined,
+          treatment.humidity !== undefined ? `HR ${treatment.humidity} %` : undefined
+        ].filter(Boolean).join(', '),
+        harvestFrom: formatDay(harvestAllowedFrom(treatment)),
+        remarks: [
+          treatment.cancelledAt
+            ? `Annulé le ${new Date(treatment.cancelledAt).toLocaleDateString('fr-FR')} par ${treatment.cancelledBy}`
+            : undefined,
+          ...treatmentWarnings(treatment),
+          treatment.notes
+        ].filter(Boolean).join(' · ')
+      };
+    });
@@ -0,0 +1,105 @@
+import type { HarvestRecord, PredictionProviderName, YieldPredictionRecord } from '@/types/farm';
+import { isoDay } from './crop-calendar';
+
+export const PROVIDER_LABELS: Record<PredictionProviderName, string> = {
+  local: 'Statistical model',
+  heuristic: 'Agronomic rules',
+  gateway: 'LLM gateway'
+};
+
+/** t/ha */
+export const actualYield = (harvest: Pick<HarvestRecord, 'quantity' | 'area'>) =>
+  harvest.area > 0 ? harvest.quantity / harvest.area : 0;
+
+/**
+ * Prediction an actual harvest is scored against: the latest one made on or before the
+ * harvest date for the same crop cycle, or for the same parcel when neither has a cycle.
+ */
+export const matchPrediction = (
+  harvest: Pick<HarvestRecord, 'cropCycleId' | 'parcelId' | 'harvestDate'>,
+  predictions: YieldPredictionRecord[]
+): YieldPredictionRecord | undefined => {
+  const candidates = predictions.filter(prediction => {
+    // The harvest date is a local day; the prediction time is a UTC timestamp
+    if (isoDay(new Date(prediction.predictedAt)) > harvest.harvestDate) return false;
+    if (harvest.cropCycleId !== undefined) return prediction.cropCycleId === harvest.cropCycleId;
+    return harvest.parcelId !== undefined
+      && prediction.cropCycleId === undefined
+      && prediction.parcelId === harvest.parcelId;
+  });
+  return candidates.reduce<YieldPredictionRecord | undefined>(
+    (latest, prediction) => (!latest || prediction.predictedAt > latest.predictedAt ? prediction : latest),
+    undefined
+  );
+};
+
+export interface PredictionPair {
+  harvest: HarvestRecord;
+  prediction: YieldPredictionRecord;
+  /** t/ha */
+  actual: number;
+  predicted: number;
+  /** Predicted minus actual, t/ha */
+  error: number;
+  /** Actual yield inside the prediction interval */
+  covered: boolean;
+}
+
+export const pairPredictions = (harvests: HarvestRecord[], predictions: YieldPredictionRecord[]): PredictionPair[] => {
+  const byId = new Map(predictions.map(prediction => [prediction.id, prediction]));
+  return harvests.flatMap(harvest => {
+    const prediction = harvest.predictionId !== undefined ? byId.get(harvest.predictionId) : undefined;
+    if (!prediction || harvest.area <= 0) return [];
+    const actual = actualYield(harvest);
+    return [{
+      harvest,
+      prediction,
+      actual,
+      predicted: prediction.yieldPerHectare,
+      error: prediction.yieldPerHectare - actual,
+      covered: actual >= prediction.yieldLower && actual <= prediction.yieldUpper
+    }];
+  });
+};
+
+export interface AccuracyRow {
+  /** null for the all-crops row of a provider */
+  crop: string | null;
+  provider: PredictionProviderName;
+  count: number;
+  /** Mean absolute error, t/ha */
+  mae: number;
+  /** Mean of predicted minus actual, t/ha; positive when the provider over-predicts */
+  bias: number;
+  /** Mean absolute error relative to the actual yield, 0–1; harvests with no yield are skipped */
+  mape: number | null;
+  /** Share of actual yields inside the prediction interval */
+  coverage: number;
+}
+
+const summarize = (crop: string | null, provider: PredictionProviderName, pairs: PredictionPair[]): AccuracyRow => {
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const relative = pairs.filter(pair => pair.actual > 0).map(pair => Math.abs(pair.error) / pair.actual);
+  return {
+    crop,
+    provider,
+    count: pairs.length,
+    mae: mean(pairs.map(pair => Math.abs(pair.error))),
+    bias: mean(pairs.map(pair => pair.error)),
+    mape: relative.length > 0 ? mean(relative) : null,
+    coverage: mean(pairs.map(pair => (pair.covered ? 1 : 0)))
+  };
+};
+
+/**
+ * Error metrics per crop and provider, followed for each provider by its all-crops row
+ */
+export const accuracyReport = (pairs: PredictionPair[]): AccuracyRow[] => {
+  const providers = Array.from(new Set(pairs.map(pair => pair.prediction.provider))).sort();
+  return providers.flatMap(provider => {
+    const ofProvider = pairs.filter(pair => pair.prediction.provider === provider);
+    const crops = Array.from(new Set(ofProvider.map(pair => pair.prediction.crop))).sort((a, b) => a.localeCompare(b, 'fr'));
+    const rows = crops.map(crop => summarize(crop, provider, ofProvider.filter(pair => pair.prediction.crop === crop)));
+    return crops.length > 1 ? [...rows, summarize(null, provider, ofProvider)] : rows;
+  });
+};
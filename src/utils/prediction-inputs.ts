@@ -0,0 +1,200 @@
+import type {
+  CropData,
+  ParcelData,
+  WeatherDay,
+  WeatherStation,
+  YieldPredictionInputs
+} from '@/types/farm';
+import { GuadeloupeRegion, regionAt } from './regions';
+import {
+  DailyWeather,
+  StationDistance,
+  formatDistance,
+  monthlyRainfall,
+  nearestStation,
+  stationSeries,
+  stationsWithData
+} from './weather-series';
+
+export const CROP_OPTIONS = [
+  { value: 'Canne à Sucre', label: 'Sugar Cane' },
+  { value: 'Banane', label: 'Banana' },
+  { value: 'Ananas', label: 'Pineapple' },
+  { value: 'Igname', label: 'Yam' },
+  { value: 'Madère', label: 'Taro', aliases: ['Madeira', 'Dasheen'] },
+  { value: 'Christophine', label: 'Chayote' }
+];
+
+export const SOIL_OPTIONS = [
+  { value: 'Argileux', label: 'Clay' },
+  { value: 'Limoneux', label: 'Loamy' },
+  { value: 'Sableux', label: 'Sandy' },
+  { value: 'Volcanique', label: 'Volcanic' },
+  { value: 'Humifère', label: 'Humus-rich' }
+];
+
+const normalizeName = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+/** Crop option matching a crop or crop cycle name, in French or English */
+export const cropOptionFor = (name: string) =>
+  CROP_OPTIONS.find(option =>
+    [option.value, option.label, ...(option.aliases ?? [])]
+      .some(candidate => normalizeName(candidate) === normalizeName(name))
+  );
+
+/**
+ * Soil option for a parcel's soil description, read from its leading word:
+ * "Limono-argileux" is loamy, "Argilo-calcaire" is clay.
+ */
+export const soilOptionFor = (soilType: string) => {
+  const soil = normalizeName(soilType);
+  return SOIL_OPTIONS.find(option => soil.startsWith(normalizeName(option.value).slice(0, 5)));
+};
+
+export interface RainfallSummary {
+  /** Mean over the months found, mm per month */
+  monthly: number;
+  months: number;
+  /** YYYY-MM */
+  from: string;
+  to: string;
+}
+
+/**
+ * Mean monthly rainfall of a station over its latest fully observed months
+ */
+export const seasonRainfall = (days: WeatherDay[], months = 12): RainfallSummary | null => {
+  const latest = monthlyRainfall(days).filter(month => month.complete).slice(-months);
+  if (latest.length === 0) return null;
+  return {
+    monthly: latest.reduce((sum, month) => sum + month.rain, 0) / latest.length,
+    months: latest.length,
+    from: latest[0].month,
+    to: latest[latest.length - 1].month
+  };
+};
+
+export interface WeatherSummary {
+  /** °C */
+  temperature: number;
+  /** % */
+  humidity: number;
+  days: number;
+  /** YYYY-MM-DD */
+  from: string;
+  to: string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Mean temperature and humidity of a daily series over the days leading to its latest day
+ */
+export const recentWeather = (series: DailyWeather[], days = 30): WeatherSummary | null => {
+  if (series.length === 0) return null;
+  const last = new Date(series[series.length - 1].date).getTime();
+  const window = series.filter(day => new Date(day.date).getTime() > last - days * DAY);
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  return {
+    temperature: mean(window.map(day => day.tMean)),
+    humidity: mean(window.map(day => day.humidity)),
+    days: window.length,
+    from: window[0].date,
+    to: window[window.length - 1].date
+  };
+};
+
+export type PredictionInputField = keyof YieldPredictionInputs;
+
+export interface ParcelPredictionDraft {
+  parcel: ParcelData;
+  region: GuadeloupeRegion;
+  /** Nearest station with daily weather */
+  station?: StationDistance;
+  /** Growing or planned cycle of the parcel for the same crop */
+  cropCycle?: CropData;
+  inputs: Partial<YieldPredictionInputs>;
+  /** Where each filled input comes from */
+  sources: Partial<Record<PredictionInputField, string>>;
+  /** Inputs that could not be filled and must be entered */
+  missing: PredictionInputField[];
+}
+
+export interface PredictionInputData {
+  stations: WeatherStation[];
+  days: WeatherDay[];
+  cropCycles: CropData[];
+}
+
+const REQUIRED_FIELDS: PredictionInputField[] = [
+  'cropType', 'soilType', 'humidity', 'moisture', 'temperature', 'rainfall', 'area'
+];
+
+/**
+ * Prediction inputs read from a parcel and the daily weather of its nearest station.
+ * Rainfall falls back to the parcel's annual figure when the station has no fully observed
+ * month; soil moisture is never measured and is always left to the user.
+ */
+export const parcelPredictionInputs = (
+  parcel: ParcelData,
+  { stations, days, cropCycles }: PredictionInputData
+): ParcelPredictionDraft => {
+  const region = regionAt(parcel.coordinates);
+  const station = nearestStation(parcel.coordinates, stationsWithData(stations, days));
+  const inputs: Partial<YieldPredictionInputs> = {};
+  const sources: Partial<Record<PredictionInputField, string>> = {};
+
+  const crop = cropOptionFor(parcel.crop);
+  if (crop) {
+    inputs.cropType = crop.value;
+    sources.cropType = 'Parcel crop';
+  }
+  const soil = soilOptionFor(parcel.soilType ?? '');
+  if (soil) {
+    inputs.soilType = soil.value;
+    sources.soilType = `Parcel soil (${parcel.soilType})`;
+  }
+  if (parcel.area > 0) {
+    inputs.area = parcel.area;
+    sources.area = 'Parcel area';
+  }
+
+  const stationDays = station ? days.filter(day => day.stationId === station.station.id) : [];
+  const stationLabel = station ? `${station.station.name} (${formatDistance(station.distance)})` : '';
+
+  const rainfall = seasonRainfall(stationDays);
+  if (rainfall) {
+    inputs.rainfall = Math.round(rainfall.monthly);
+    sources.rainfall = `${stationLabel} rainfall, ${rainfall.months} months to ${rainfall.to}`;
+  } else if (parcel.rainfall) {
+    inputs.rainfall = Math.round(parcel.rainfall / 12);
+    sources.rainfall = 'Parcel annual rainfall / 12';
+  }
+
+  const weather = station ? recentWeather(stationSeries(stationDays, station.station.id)) : null;
+  if (weather) {
+    inputs.temperature = Math.round(weather.temperature * 10) / 10;
+    inputs.humidity = Math.round(weather.humidity);
+    const label = `${stationLabel} weather, ${weather.days} day${weather.days > 1 ? 's' : ''} to ${weather.to}`;
+    sources.temperature = label;
+    sources.humidity = label;
+  }
+
+  const cropCycle = cropCycles.find(cycle =>
+    cycle.parcelId === parcel.id
+    && cycle.status !== 'harvested'
+    && crop !== undefined
+    && cropOptionFor(cycle.name)?.value === crop.value
+  );
+
+  return {
+    parcel,
+    region,
+    station,
+    cropCycle,
+    inputs,
+    sources,
+    missing: REQUIRED_FIELDS.filter(field => inputs[field] === undefined)
+  };
+};
@@ -0,0 +1,163 @@
+import type {
+  CropData,
+  CropTask,
+  InventoryItem,
+  InventoryTransaction,
+  ParcelData,
+  TimeEntry
+} from '@/types/farm';
+import { quantityChange, valuateItem } from './stock-ledger';
+import { entryCost } from './workforce';
+
+/** Cost analysis line the issues of each stock category are added to */
+export const INPUT_COST_CATEGORIES: Record<string, string> = {
+  'Seeds': 'Seeds',
+  'Fertilizers': 'Fertilizers',
+  'Phytosanitary Products': 'Pesticides',
+  'Fuels': 'Fuel'
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+type Target = Pick<InventoryTransaction, 'parcelId' | 'cropCycleId' | 'taskId'>;
+
+/** Whether a movement names where its input was applied */
+export const hasTarget = (movement: Target) =>
+  movement.parcelId !== undefined || movement.cropCycleId !== undefined || movement.taskId !== undefined;
+
+/**
+ * Complete the target of an issue: a task gives its crop cycle and parcel, a crop cycle
+ * its parcel. The treated area defaults to the crop cycle's, else the parcel's.
+ */
+export const resolveTarget = <M extends Target & Pick<InventoryTransaction, 'treatedArea'>>(
+  movement: M,
+  crops: CropData[],
+  parcels: ParcelData[],
+  tasks: CropTask[]
+): M => {
+  const task = tasks.find(item => item.id === movement.taskId);
+  const cropCycleId = movement.cropCycleId ?? (task?.cropId || undefined);
+  const crop = crops.find(item => item.id === cropCycleId);
+  const parcelId = movement.parcelId ?? task?.parcelId ?? crop?.parcelId;
+  const parcel = parcels.find(item => item.id === parcelId);
+  const area = crop?.area || parcel?.area;
+  return {
+    ...movement,
+    cropCycleId,
+    parcelId,
+    treatedArea: movement.treatedArea ?? (area ? area : undefined)
+  };
+};
+
+/** Quantity applied per hectare, in the item's unit per ha */
+export const applicationRate = (movement: Pick<InventoryTransaction, 'quantity' | 'treatedArea'>) =>
+  movement.treatedArea ? Math.round((Math.abs(movement.quantity) / movement.treatedArea) * 100) / 100 : undefined;
+
+export interface InputCharge {
+  movement: InventoryTransaction;
+  item: InventoryItem;
+  /** € charged to the target; negative when an issue is reversed */
+  cost: number;
+}
+
+/**
+ * Cost of the inputs applied between two dates (inclusive), one line per issue that
+ * names a target. Issues are costed with their item's valuation method, and a reversed
+ * issue is credited back at the cost it was charged.
+ */
+export const inputCharges = (
+  items: InventoryItem[],
+  movements: InventoryTransaction[],
+  from?: string,
+  to?: string
+): InputCharge[] =>
+  items.flatMap(item => {
+    const { outgoingCosts } = valuateItem(movements, item);
+    return movements
+      .filter(movement => movement.itemId === item.id && hasTarget(movement))
+      .filter(movement => (!from || movement.date >= from) && (!to || movement.date <= to))
+      .map(movement => {
+        const change = quantityChange(movement);
+        const cost = change < 0
+          ? outgoingCosts.get(movement.id) ?? 0
+          : movement.reversalOf !== undefined ? -change * (movement.unitCost ?? 0) : 0;
+        return { movement, item, cost: round2(cost) };
+      })
+      .filter(charge => charge.cost !== 0);
+  });
+
+/** € of inputs charged to each crop cycle, by crop cycle id */
+export const cropInputCosts = (charges: InputCharge[], tasks: CropTask[]) =>
+  charges.reduce((totals, { movement, cost }) => {
+    const cropId = movement.cropCycleId ?? (tasks.find(task => task.id === movement.taskId)?.cropId || undefined);
+    if (cropId !== undefined) totals.set(cropId, round2((totals.get(cropId) ?? 0) + cost));
+    return totals;
+  }, new Map<number, number>());
+
+/** Cost analysis line of the stock categories without one of their own */
+export const OTHER_INPUT_COSTS = 'Miscellaneous';
+
+/** € of inputs charged per cost analysis line */
+export const inputCostsByCategory = (charges: InputCharge[]) =>
+  charges.reduce((totals, { item, cost }) => {
+    const line = INPUT_COST_CATEGORIES[item.category] ?? OTHER_INPUT_COSTS;
+    totals.set(line, round2((totals.get(line) ?? 0) + cost));
+    return totals;
+  }, new Map<string, number>());
+
+export interface ProductionCost {
+  parcel: ParcelData;
+  /** Crop cycle growing on the parcel, else its latest one */
+  crop?: CropData;
+  inputCost: number;
+  laborCost: number;
+  total: number;
+  /** € per hectare of the parcel */
+  perHectare: number;
+}
+
+/**
+ * Cost of production of each parcel between two dates: the inputs applied to it and
+ * the hours logged on it, directly or through its crop cycles and tasks. Parcels
+ * without any cost are left out.
+ */
+export const productionCosts = (
+  parcels: ParcelData[],
+  crops: CropData[],
+  tasks: CropTask[],
+  charges: InputCharge[],
+  timeEntries: TimeEntry[],
+  from: string,
+  to: string
+): ProductionCost[] => {
+  const cropParcel = (cropId?: number) => crops.find(crop => crop.id === cropId)?.parcelId;
+  const taskParcel = (taskId?: number) => {
+    const task = tasks.find(item => item.id === taskId);
+    return task?.parcelId ?? cropParcel(task?.cropId);
+  };
+
+  return parcels
+    .map(parcel => {
+      const inputCost = charges
+        .filter(({ movement }) =>
+          (movement.parcelId ?? cropParcel(movement.cropCycleId) ?? taskParcel(movement.taskId)) === parcel.id)
+        .reduce((sum, charge) => sum + charge.cost, 0);
+      const laborCost = timeEntries
+        .filter(entry => entry.date >= from && entry.date <= to)
+        .filter(entry => (entry.parcelId ?? taskParcel(entry.taskId)) === parcel.id)
+        .reduce((sum, entry) => sum + entryCost(entry), 0);
+      const own = crops
+        .filter(crop => crop.parcelId === parcel.id)
+        .sort((a, b) => b.plantingDate.localeCompare(a.plantingDate));
+      const total = round2(inputCost + laborCost);
+      return {
+        parcel,
+        crop: own.find(crop => crop.status === 'growing') ?? own[0],
+        inputCost: round2(inputCost),
+        laborCost: round2(laborCost),
+        total,
+        perHectare: parcel.area > 0 ? round2(total / parcel.area) : 0
+      };
+    })
+    .filter(cost => cost.total !== 0);
+};
@@ -0,0 +1,16 @@
+import type { LatLng } from './geo';
+
+/** Regions rainfall and weather records are kept for */
+export const GUADELOUPE_REGIONS = ['Basse-Terre', 'Grande-Terre', 'Marie-Galante', 'Les Saintes'] as const;
+
+export type GuadeloupeRegion = typeof GUADELOUPE_REGIONS[number];
+
+/**
+ * Region of a point of the archipelago. The Rivière Salée, around 61.55° W, separates
+ * Basse-Terre from Grande-Terre; La Désirade and Petite-Terre count as Grande-Terre.
+ */
+export const regionAt = ({ lat, lng }: LatLng): GuadeloupeRegion => {
+  if (lat < 16.1 && lng > -61.4) return 'Marie-Galante';
+  if (lat < 15.92 && lng > -61.7 && lng < -61.5) return 'Les Saintes';
+  return lng > -61.55 ? 'Grande-Terre' : 'Basse-Terre';
+};
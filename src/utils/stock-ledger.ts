@@ -0,0 +1,285 @@
+import type { InventoryItem, InventoryTransaction, StockMovementType, ValuationMethod } from '@/types/farm';
+
+export const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Entrée',
+  issue: 'Sortie',
+  adjustment: 'Ajustement',
+  transfer: 'Transfert'
+};
+
+export const VALUATION_LABELS: Record<ValuationMethod, string> = {
+  fifo: 'FIFO (premier entré, premier sorti)',
+  weighted_average: 'Coût moyen pondéré'
+};
+
+export class StockLedgerError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StockLedgerError';
+  }
+}
+
+type Movement = Omit<InventoryTransaction, 'id'> & { id?: number };
+
+// Quantities are stored to the gram or millilitre
+const EPSILON = 0.0005;
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Movements of an item, up to a date when given, in posting order */
+export const itemLedger = <M extends Movement>(movements: M[], itemId: number, asOf?: string) =>
+  movements
+    .filter(movement => movement.itemId === itemId && (!asOf || movement.date <= asOf))
+    .sort((a, b) => a.date.localeCompare(b.date) || (a.id ?? Infinity) - (b.id ?? Infinity));
+
+/** Signed change of the item's stock; transfers only move it between locations */
+export const quantityChange = (movement: Pick<Movement, 'type' | 'quantity'>) => {
+  switch (movement.type) {
+    case 'receipt':
+      return movement.quantity;
+    case 'issue':
+      return -movement.quantity;
+    case 'adjustment':
+      return movement.quantity;
+    default:
+      return 0;
+  }
+};
+
+/** Signed changes a movement brings to each location it touches */
+const locationChanges = (movement: Movement): [string, number][] =>
+  movement.type === 'transfer'
+    ? [[movement.location, -movement.quantity], [movement.toLocation ?? '', movement.quantity]]
+    : [[movement.location, quantityChange(movement)]];
+
+/** Stock of an item as of a date (inclusive), or now */
+export const stockBalance = (movements: Movement[], itemId: number, asOf?: string) =>
+  round3(itemLedger(movements, itemId, asOf).reduce((sum, movement) => sum + quantityChange(movement), 0));
+
+/** Stock of an item held at each location, leaving out the empty ones */
+export const balanceByLocation = (movements: Movement[], itemId: number, asOf?: string) => {
+  const balances = new Map<string, number>();
+  itemLedger(movements, itemId, asOf).forEach(movement =>
+    locationChanges(movement).forEach(([location, change]) =>
+      balances.set(location, round3((balances.get(location) ?? 0) + change))
+    )
+  );
+  return new Map([...balances].filter(([, quantity]) => Math.abs(quantity) > EPSILON));
+};
+
+// Lowest balance each location reaches over the ledger
+const lowestBalances = (ledger: Movement[]) => {
+  const balances = new Map<string, number>();
+  const lowest = new Map<string, number>();
+  ledger.forEach(movement =>
+    locationChanges(movement).forEach(([location, change]) => {
+      const balance = (balances.get(location) ?? 0) + change;
+      balances.set(location, balance);
+      lowest.set(location, Math.min(lowest.get(location) ?? 0, balance));
+    })
+  );
+  return lowest;
+};
+
+/**
+ * Reason a movement cannot be posted on top of the item's ledger, or null. A movement
+ * may not take a location below zero at any date, including when it is backdated
+ * before later issues.
+ */
+export const movementError = (movement: Omit<InventoryTransaction, 'id'>, ledger: InventoryTransaction[]) => {
+  if (!movement.date) return 'La date est requise';
+  if (!Number.isFinite(movement.quantity) || Math.abs(movement.quantity) < EPSILON) return 'La quantité est requise';
+  if (movement.type !== 'adjustment' && movement.quantity < 0) return 'La quantité doit être positive';
+  if (movement.type === 'receipt' && movement.unitCost === undefined) return 'Le coût unitaire de l\'entrée est requis';
+  if (movement.unitCost !== undefined && !(movement.unitCost >= 0)) return 'Le coût unitaire doit être positif';
+  if (movement.type === 'transfer' && (!movement.toLocation || movement.toLocation === movement.location)) {
+    return 'Choisissez un emplacement de destination différent';
+  }
+  if (movement.type === 'issue' &&
+    movement.parcelId === undefined && movement.cropCycleId === undefined && movement.taskId === undefined) {
+    return 'Indiquez la parcelle, la culture ou la tâche où l\'intrant est utilisé';
+  }
+  if (movement.treatedArea !== undefined && !(movement.treatedArea > 0)) return 'La surface traitée doit être positive';
+
+  const before = lowestBalances(itemLedger(ledger, movement.itemId));
+  const after = lowestBalances(itemLedger<Movement>([...ledger, movement], movement.itemId));
+  for (const [location, lowest] of after) {
+    if (lowest < -EPSILON && lowest < (before.get(location) ?? 0) - EPSILON) {
+      return `Stock insuffisant${location ? ` à ${location}` : ''} pour ce mouvement`;
+    }
+  }
+  return null;
+};
+
+export interface StockValuation {
+  quantity: number;
+  value: number;
+  /** € per unit of the stock left */
+  unitCost: number;
+  /** € charged by each issue or negative adjustment, by movement id */
+  outgoingCosts: Map<number, number>;
+}
+
+interface CostLayer {
+  movementId?: number;
+  quantity: number;
+  unitCost: number;
+}
+
+/**
+ * Value of an item's stock as of a date. Receipts and positive adjustments bring stock
+ * in at their unit cost (an adjustment without one at the current cost); issues and
+ * negative adjustments take it out at the weighted average cost or from the oldest
+ * receipts first. A negative movement that reverses a receipt takes out that receipt.
+ */
+export const valuateItem = (
+  movements: InventoryTransaction[],
+  item: Pick<InventoryItem, 'id' | 'price' | 'valuationMethod'>,
+  asOf?: string,
+  method: ValuationMethod = item.valuationMethod
+): StockValuation => {
+  let layers: CostLayer[] = [];
+  let lastCost = item.price;
+  const outgoingCosts = new Map<number, number>();
+  const stock = () => layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  const worth = () => layers.reduce((sum, layer) => sum + layer.quantity * layer.unitCost, 0);
+  const currentCost = () => (stock() > EPSILON ? worth() / stock() : lastCost);
+
+  // Take a quantity out of the layers matching `pick` first, then in FIFO order
+  const takeOut = (quantity: number, pick?: (layer: CostLayer) => boolean) => {
+    let left = quantity;
+    let cost = 0;
+    const ordered = pick ? [...layers.filter(pick), ...layers.filter(layer => !pick(layer))] : layers;
+    ordered.forEach(layer => {
+      const taken = Math.min(layer.quantity, left);
+      layer.quantity -= taken;
+      cost += taken * layer.unitCost;
+      left -= taken;
+    });
+    layers = layers.filter(layer => layer.quantity > EPSILON);
+    // Stock that was never received (a legacy negative balance) leaves at the last cost
+    return cost + Math.max(0, left) * lastCost;
+  };
+
+  itemLedger(movements, item.id, asOf).forEach(movement => {
+    const change = quantityChange(movement);
+    if (change > 0) {
+      const unitCost = movement.unitCost ?? currentCost();
+      if (method === 'weighted_average') {
+        const quantity = stock() + change;
+        layers = [{ quantity, unitCost: (worth() + change * unitCost) / quantity }];
+      } else {
+        layers.push({ movementId: movement.id, quantity: change, unitCost });
+      }
+      lastCost = unitCost;
+    } else if (change < 0) {
+      const quantity = -change;
+      let cost: number;
+      if (method === 'weighted_average') {
+        cost = movement.unitCost !== undefined && movement.reversalOf !== undefined
+          ? quantity * movement.unitCost
+          : quantity * currentCost();
+        const left = stock() - quantity;
+        const value = Math.max(0, worth() - cost);
+        layers = left > EPSILON ? [{ quantity: left, unitCost: value / left }] : [];
+      } else {
+        cost = takeOut(quantity, movement.reversalOf !== undefined
+          ? layer => layer.movementId === movement.reversalOf
+          : undefined);
+      }
+      outgoingCosts.set(movement.id, round2(cost));
+    }
+  });
+
+  const quantity = round3(stock());
+  return {
+    quantity,
+    value: round2(worth()),
+    unitCost: Math.round(currentCost() * 10000) / 10000,
+    outgoingCosts
+  };
+};
+
+export interface ValuationLine {
+  item: InventoryItem;
+  method: ValuationMethod;
+  quantity: number;
+  unitCost: number;
+  value: number;
+}
+
+/**
+ * Inventory valuation as of a date: every item in stock with its quantity and value,
+ * each with its own method unless one is forced for the whole report
+ */
+export const valuationReport = (
+  items: InventoryItem[],
+  movements: InventoryTransaction[],
+  asOf: string,
+  method?: ValuationMethod
+): ValuationLine[] =>
+  items
+    .map(item => {
+      const valuation = valuateItem(movements, item, asOf, method ?? item.valuationMethod);
+      return {
+        item,
+        method: method ?? item.valuationMethod,
+        quantity: valuation.quantity,
+        unitCost: valuation.unitCost,
+        value: valuation.value
+      };
+    })
+    .filter(line => Math.abs(line.quantity) > EPSILON);
+
+/**
+ * Adjustment bringing a location to a counted quantity, or null when the count
+ * matches the ledger
+ */
+export const countAdjustment = (
+  item: Pick<InventoryItem, 'id' | 'location'>,
+  movements: InventoryTransaction[],
+  counted: number,
+  date: string,
+  location = item.location
+): Omit<InventoryTransaction, 'id' | 'user' | 'notes'> | null => {
+  const current = balanceByLocation(movements, item.id, date).get(location) ?? 0;
+  const quantity = round3(counted - current);
+  if (Math.abs(quantity) < EPSILON) return null;
+  return { itemId: item.id, type: 'adjustment', quantity, date, location };
+};
+
+/**
+ * Movement cancelling a posted one: the same stock goes back where it came from, at
+ * the cost it was booked at
+ */
+export const reversalOf = (
+  movement: InventoryTransaction,
+  movements: InventoryTransaction[],
+  item: Pick<InventoryItem, 'id' | 'price' | 'valuationMethod'>,
+  date: string
+): Omit<InventoryTransaction, 'id' | 'user'> => {
+  if (movement.reversalOf !== undefined) throw new StockLedgerError('Ce mouvement est déjà une annulation');
+  if (movements.some(other => other.reversalOf === movement.id)) throw new StockLedgerError('Ce mouvement a déjà été annulé');
+
+  const base = {
+    itemId: movement.itemId,
+    date,
+    reversalOf: movement.id,
+    // The reversal of an issue credits the crop cycle it was charged to
+    parcelId: movement.parcelId,
+    cropCycleId: movement.cropCycleId,
+    taskId: movement.taskId,
+    notes: `Annulation du mouvement du ${movement.date}`
+  };
+  if (movement.type === 'transfer') {
+    return { ...base, type: 'transfer', quantity: movement.quantity, location: movement.toLocation ?? '', toLocation: movement.location };
+  }
+
+  const change = quantityChange(movement);
+  // Stock that left comes back at the cost it was charged
+  const charged = valuateItem(movements, item).outgoingCosts.get(movement.id);
+  const unitCost = change > 0
+    ? movement.unitCost
+    : charged !== undefined ? Math.round((charged / -change) * 10000) / 10000 : undefined;
+  return { ...base, type: 'adjustment', quantity: -change, unitCost, location: movement.location };
+};
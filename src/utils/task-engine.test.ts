@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import type { CropTask, TaskRecurrence } from '@/types/farm';
+import { recurrenceTasks } from './task-engine';
+
+const TODAY = '2026-11-01';
+
+const recurrence: TaskRecurrence = {
+  id: 3,
+  title: 'Désherbage',
+  parcelId: 1,
+  priority: 'medium',
+  rule: 'FREQ=DAILY;INTERVAL=14',
+  startDate: '2026-11-02',
+  enabled: true
+};
+
+// The occurrences as the first run stores them
+const generated = (): CropTask[] =>
+  recurrenceTasks(recurrence, [], TODAY).map((task, i) => ({ ...task, id: i + 1 }));
+
+const dates = (tasks: Omit<CropTask, 'id'>[]) => tasks.map(task => task.date);
+
+describe('recurrenceTasks', () => {
+  it('creates each occurrence once', () => {
+    const tasks = generated();
+
+    expect(dates(tasks).slice(0, 3)).toEqual(['2026-11-02', '2026-11-16', '2026-11-30']);
+    expect(recurrenceTasks(recurrence, tasks, TODAY)).toEqual([]);
+  });
+
+  it('does not recreate a moved occurrence on its original day', () => {
+    const tasks = generated().map(task => (task.date === '2026-11-02' ? { ...task, date: '2026-11-04' } : task));
+
+    expect(recurrenceTasks(recurrence, tasks, TODAY)).toEqual([]);
+  });
+
+  it('does not recreate an occurrence the user deleted', () => {
+    const tasks = generated().filter(task => task.date !== '2026-11-16');
+
+    expect(dates(recurrenceTasks(recurrence, tasks, TODAY))).toEqual(['2026-11-16']);
+    expect(recurrenceTasks({ ...recurrence, skippedDates: ['2026-11-16'] }, tasks, TODAY)).toEqual([]);
+  });
+});
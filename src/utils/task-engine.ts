@@ -0,0 +1,289 @@
+import type { CropData, CropTask, TaskRecurrence, TaskTemplate, TaskTemplateItem } from '@/types/farm';
+import { addDays } from './crop-calendar';
+import { cropKey } from './parcel-export';
+import { cropOptionFor } from './prediction-inputs';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+/** Parsed form of the RRULE subset tasks repeat by */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  /** Occurrences counted from the first one */
+  count?: number;
+  /** YYYY-MM-DD of the last possible occurrence */
+  until?: string;
+  /** Weekly rules: days of the week, 0 for Sunday */
+  byDay?: number[];
+  /** Monthly rules: day of the month, the last day in shorter months */
+  byMonthDay?: number;
+}
+
+export class RecurrenceRuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecurrenceRuleError';
+  }
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+
+/** Rules offered in the task forms; any other RRULE of the subset can be typed in */
+export const RECURRENCE_PRESETS = [
+  { label: 'Every week', rule: 'FREQ=WEEKLY' },
+  { label: 'Every 14 days', rule: 'FREQ=DAILY;INTERVAL=14' },
+  { label: 'Every month', rule: 'FREQ=MONTHLY' },
+  { label: 'Every year', rule: 'FREQ=YEARLY' }
+];
+
+const positiveInteger = (name: string, value: string) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) throw new RecurrenceRuleError(`${name} doit être un entier positif`);
+  return number;
+};
+
+/**
+ * Reads an RRULE such as `FREQ=DAILY;INTERVAL=14;COUNT=8`: FREQ, INTERVAL, COUNT,
+ * UNTIL, BYDAY for weekly rules and BYMONTHDAY for monthly rules. A leading `RRULE:`
+ * is accepted.
+ */
+export const parseRule = (text: string): RecurrenceRule => {
+  const parts = text.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean);
+  const fields = new Map(parts.map(part => {
+    const [key, value = ''] = part.split('=');
+    return [key.trim().toUpperCase(), value.trim().toUpperCase()] as const;
+  }));
+
+  const freq = fields.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new RecurrenceRuleError('FREQ doit valoir DAILY, WEEKLY, MONTHLY ou YEARLY');
+  }
+  const unknown = [...fields.keys()].filter(key => !['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY'].includes(key));
+  if (unknown.length > 0) throw new RecurrenceRuleError(`Élément de règle non pris en charge : ${unknown.join(', ')}`);
+
+  const rule: RecurrenceRule = { freq, interval: fields.has('INTERVAL') ? positiveInteger('INTERVAL', fields.get('INTERVAL') as string) : 1 };
+  if (fields.has('COUNT')) rule.count = positiveInteger('COUNT', fields.get('COUNT') as string);
+  if (fields.has('UNTIL')) {
+    const match = (fields.get('UNTIL') as string).match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+    if (!match) throw new RecurrenceRuleError('UNTIL doit être une date AAAAMMJJ');
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  if (fields.has('BYDAY')) {
+    if (freq !== 'WEEKLY') throw new RecurrenceRuleError('BYDAY ne s\'utilise qu\'avec FREQ=WEEKLY');
+    rule.byDay = (fields.get('BYDAY') as string).split(',').map(day => {
+      const index = WEEKDAYS.indexOf(day.trim());
+      if (index < 0) throw new RecurrenceRuleError(`Jour inconnu : ${day}`);
+      return index;
+    }).sort();
+  }
+  if (fields.has('BYMONTHDAY')) {
+    if (freq !== 'MONTHLY') throw new RecurrenceRuleError('BYMONTHDAY ne s\'utilise qu\'avec FREQ=MONTHLY');
+    const day = positiveInteger('BYMONTHDAY', fields.get('BYMONTHDAY') as string);
+    if (day > 31) throw new RecurrenceRuleError('BYMONTHDAY doit être compris entre 1 et 31');
+    rule.byMonthDay = day;
+  }
+  return rule;
+};
+
+/** Checks a rule typed in a form; the error message, or null when it is valid */
+export const ruleError = (text: string) => {
+  try {
+    parseRule(text);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const plural = (count: number, unit: string) => (count === 1 ? unit : `${count} ${unit}s`);
+
+/** Plain-language rule, such as "Every 14 days, 8 times" */
+export const describeRule = (text: string) => {
+  const rule = parseRule(text);
+  const base = {
+    DAILY: rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`,
+    WEEKLY: `Every ${plural(rule.interval, 'week')}${rule.byDay ? ` on ${rule.byDay.map(day => WEEKDAY_LABELS[day]).join(', ')}` : ''}`,
+    MONTHLY: `Every ${plural(rule.interval, 'month')}${rule.byMonthDay ? ` on day ${rule.byMonthDay}` : ''}`,
+    YEARLY: `Every ${plural(rule.interval, 'year')}`
+  }[rule.freq];
+  return [
+    base,
+    rule.count ? `${rule.count} times` : undefined,
+    rule.until ? `until ${new Date(`${rule.until}T00:00:00`).toLocaleDateString()}` : undefined
+  ].filter(Boolean).join(', ');
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Day `day` of the month `months` after the one of `start`, clamped to the month's length
+const monthDay = (start: string, months: number, day: number) => {
+  const [year, month] = start.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1 + months, 1));
+  const clamped = Math.min(day, daysInMonth(date.getUTCFullYear(), date.getUTCMonth()));
+  return `${date.toISOString().slice(0, 8)}${String(clamped).padStart(2, '0')}`;
+};
+
+// Stops runaway rules such as a daily rule without an end over a long range
+const MAX_OCCURRENCES = 1000;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY);
+
+const monthsBetween = (from: string, to: string) =>
+  (Number(to.slice(0, 4)) - Number(from.slice(0, 4))) * 12 + Number(to.slice(5, 7)) - Number(from.slice(5, 7));
+
+// Step of the series whose period contains `from`: every earlier step falls before it
+const stepBefore = (rule: RecurrenceRule, start: string, from: string) => {
+  if (from <= start) return 0;
+  const span = {
+    DAILY: daysBetween(start, from),
+    WEEKLY: Math.floor(daysBetween(start, from) / 7),
+    MONTHLY: monthsBetween(start, from),
+    YEARLY: Number(from.slice(0, 4)) - Number(start.slice(0, 4))
+  }[rule.freq];
+  return Math.max(0, Math.floor(span / rule.interval));
+};
+
+/**
+ * Dates a rule falls on between `from` and `to` (inclusive), for a series starting on
+ * `start`. COUNT is counted from the start, so occurrences before `from` use it up too;
+ * without it the series is entered directly at `from`.
+ */
+export const occurrences = (rule: RecurrenceRule, start: string, from: string, to: string): string[] => {
+  const end = rule.until && rule.until < to ? rule.until : to;
+  const dates: string[] = [];
+  let counted = 0;
+
+  const candidates = function* (first: number): Generator<string> {
+    for (let step = first; ; step++) {
+      if (rule.freq === 'DAILY') yield addDays(start, step * rule.interval);
+      else if (rule.freq === 'WEEKLY') {
+        const weekStart = addDays(start, step * 7 * rule.interval);
+        if (!rule.byDay) yield weekStart;
+        else {
+          const sunday = addDays(weekStart, -new Date(`${weekStart}T00:00:00Z`).getUTCDay());
+          for (const day of rule.byDay) {
+            const date = addDays(sunday, day);
+            if (date >= start) yield date;
+          }
+        }
+      } else if (rule.freq === 'MONTHLY') {
+        const date = monthDay(start, step * rule.interval, rule.byMonthDay ?? Number(start.slice(8)));
+        if (date >= start) yield date;
+      } else {
+        yield monthDay(start, step * 12 * rule.interval, Number(start.slice(8)));
+      }
+    }
+  };
+
+  for (const date of candidates(rule.count === undefined ? stepBefore(rule, start, from) : 0)) {
+    if (date > end || dates.length >= MAX_OCCURRENCES) break;
+    if (rule.count !== undefined && counted >= rule.count) break;
+    counted++;
+    if (date >= from) dates.push(date);
+  }
+  return dates;
+};
+
+/** Days ahead recurring tasks are generated, so they show in the lists and calendars */
+export const RECURRENCE_HORIZON_DAYS = 60;
+
+/** Day the recurrence scheduled a task on, wherever it was moved since */
+export const occurrenceOf = (task: Pick<CropTask, 'date' | 'occurrenceDate'>) => task.occurrenceDate ?? task.date;
+
+/**
+ * Tasks of a recurrence due from today to the horizon that do not exist yet. Missed
+ * occurrences before today are not created after the fact; moved ones count on the day
+ * they were scheduled, and deleted ones are skipped.
+ */
+export const recurrenceTasks = (recurrence: TaskRecurrence, tasks: CropTask[], today: string): Omit<CropTask, 'id'>[] => {
+  if (!recurrence.enabled) return [];
+  const horizon = addDays(today, RECURRENCE_HORIZON_DAYS);
+  const to = recurrence.endDate && recurrence.endDate < horizon ? recurrence.endDate : horizon;
+  const from = recurrence.startDate > today ? recurrence.startDate : today;
+  const existing = new Set([
+    ...(recurrence.skippedDates ?? []),
+    ...tasks.filter(task => task.recurrenceId === recurrence.id).map(occurrenceOf)
+  ]);
+  return occurrences(parseRule(recurrence.rule), recurrence.startDate, from, to)
+    .filter(date => !existing.has(date))
+    .map(date => ({
+      cropId: recurrence.cropId ?? 0,
+      parcelId: recurrence.parcelId,
+      title: recurrence.title,
+      date,
+      completed: false,
+      priority: recurrence.priority,
+      notes: recurrence.notes,
+      assignee: recurrence.assignee,
+      workerId: recurrence.workerId,
+      harvest: recurrence.harvest,
+      recurrenceId: recurrence.id,
+      occurrenceDate: date
+    }));
+};
+
+// Crops match in French or English ("Banane" and "Banana")
+const sameCrop = (a: string, b: string) =>
+  (cropOptionFor(a)?.value ?? cropKey(a)) === (cropOptionFor(b)?.value ?? cropKey(b));
+
+/** Templates offered for a crop cycle */
+export const templatesFor = (crop: Pick<CropData, 'name'>, templates: TaskTemplate[]) =>
+  templates.filter(template => sameCrop(template.crop, crop.name));
+
+/**
+ * Tasks a template generates for a crop cycle: each line falls its offset after the
+ * planting date, repeated by its rule up to the harvest. Dates already past and tasks
+ * the template already created for the cycle are left out, so applying it twice adds
+ * nothing.
+ */
+export const templateTasks = (
+  items: TaskTemplateItem[],
+  crop: CropData,
+  tasks: CropTask[],
+  today: string
+): Omit<CropTask, 'id'>[] => {
+  const existing = new Set(
+    tasks.filter(task => task.cropId === crop.id && task.templateItemId !== undefined).map(task => `${task.templateItemId}:${task.date}`)
+  );
+  return [...items]
+    .sort((a, b) => a.position - b.position)
+    .flatMap(item => {
+      const first = addDays(crop.plantingDate, item.offsetDays);
+      const dates = item.rule ? occurrences(parseRule(item.rule), first, first, crop.harvestDate) : [first];
+      return dates
+        .filter(date => date >= today && !existing.has(`${item.id}:${date}`))
+        .map(date => ({
+          cropId: crop.id,
+          parcelId: crop.parcelId,
+          title: item.title,
+          date,
+          completed: false,
+          priority: item.priority,
+          notes: item.notes,
+          harvest: item.harvest,
+          templateItemId: item.id
+        }));
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export type TaskState = 'done' | 'overdue' | 'today' | 'upcoming';
+
+export const taskState = (task: Pick<CropTask, 'date' | 'completed'>, today: string): TaskState =>
+  task.completed ? 'done' : task.date < today ? 'overdue' : task.date === today ? 'today' : 'upcoming';
+
+/** Open tasks, the most urgent first */
+export const openTasks = (tasks: CropTask[]) =>
+  tasks.filter(task => !task.completed).sort((a, b) => a.date.localeCompare(b.date));
+
+/** Short due date for the lists: "Today", "Tomorrow" or the day and month */
+export const dueLabel = (date: string, today: string) => {
+  if (date === today) return 'Today';
+  if (date === addDays(today, 1)) return 'Tomorrow';
+  return new Date(`${date}T00:00:00`).toLocaleDateString('fr-FR', { day: '2-digit', month: '2-digit' });
+};
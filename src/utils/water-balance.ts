@@ -0,0 +1,381 @@
+import type { CropData, Culture, IrrigationEvent, ParcelData, WeatherDay, WeatherStation } from '@/types/farm';
+import { cropKey } from './parcel-export';
+import { cropOptionFor, soilOptionFor } from './prediction-inputs';
+import { StationDistance, localDay, nearestStation, stationsWithData } from './weather-series';
+
+export type CropStage = 'initial' | 'development' | 'mid' | 'late';
+
+export const STAGE_LABELS: Record<CropStage, string> = {
+  initial: 'Initial',
+  development: 'Development',
+  mid: 'Mid-season',
+  late: 'Late season'
+};
+
+/** Water use of a crop in the FAO-56 crop coefficient method */
+export interface CropWaterProfile {
+  /** Crop coefficients at planting, mid-season and harvest */
+  kc: { initial: number; mid: number; end: number };
+  /** Effective rooting depth, m */
+  rootDepth: number;
+  /** Share of the available water the crop uses before it is stressed */
+  depletion: number;
+  source: string;
+}
+
+// FAO Irrigation and Drainage Paper 56, tables 12 and 22
+const CROP_WATER: Record<string, Omit<CropWaterProfile, 'source'>> = {
+  'Banane': { kc: { initial: 0.5, mid: 1.1, end: 1.0 }, rootDepth: 0.6, depletion: 0.35 },
+  'Canne à Sucre': { kc: { initial: 0.4, mid: 1.25, end: 0.75 }, rootDepth: 1.2, depletion: 0.65 },
+  'Ananas': { kc: { initial: 0.5, mid: 0.3, end: 0.3 }, rootDepth: 0.4, depletion: 0.5 },
+  'Igname': { kc: { initial: 0.5, mid: 1.1, end: 0.95 }, rootDepth: 0.6, depletion: 0.65 },
+  'Madère': { kc: { initial: 1.05, mid: 1.15, end: 1.1 }, rootDepth: 0.4, depletion: 0.2 },
+  'Christophine': { kc: { initial: 0.5, mid: 1.0, end: 0.8 }, rootDepth: 0.8, depletion: 0.4 }
+};
+
+// Mid-season coefficient read from the `waterNeeds` label of a crop sheet
+const WATER_NEEDS_KC: Record<string, number> = {
+  'low': 0.7,
+  'low to moderate': 0.85,
+  'moderate': 1.0,
+  'moderate to high': 1.1,
+  'high': 1.2
+};
+
+const DEFAULT_PROFILE: Omit<CropWaterProfile, 'source'> = {
+  kc: { initial: 0.5, mid: 1.0, end: 0.8 },
+  rootDepth: 0.5,
+  depletion: 0.5
+};
+
+/**
+ * Water profile of a crop: the FAO-56 values for the crops modelled, otherwise a
+ * generic profile scaled by the `waterNeeds` label of its crop sheet
+ */
+export const cropWaterProfile = (crop: string, cultures: Culture[]): CropWaterProfile => {
+  const option = cropOptionFor(crop)?.value;
+  if (option && CROP_WATER[option]) return { ...CROP_WATER[option], source: 'FAO-56' };
+
+  const culture = cultures.find(item => (cropOptionFor(item.name)?.value ?? cropKey(item.name)) === (option ?? cropKey(crop)));
+  const mid = culture ? WATER_NEEDS_KC[cropKey(culture.waterNeeds)] : undefined;
+  if (mid === undefined) return { ...DEFAULT_PROFILE, source: 'Generic crop' };
+  return {
+    ...DEFAULT_PROFILE,
+    kc: { initial: DEFAULT_PROFILE.kc.initial, mid, end: Math.round(mid * 0.8 * 100) / 100 },
+    source: `Water needs "${culture?.waterNeeds}"`
+  };
+};
+
+// Available water between field capacity and wilting point, mm per m of soil
+const SOIL_WATER: Record<string, number> = {
+  'Argileux': 180,
+  'Limoneux': 170,
+  'Sableux': 70,
+  'Volcanique': 200,
+  'Humifère': 190
+};
+
+const DEFAULT_SOIL_WATER = 140;
+
+/** Available water capacity of a parcel's soil, mm per m */
+export const soilWaterCapacity = (soilType: string) =>
+  SOIL_WATER[soilOptionFor(soilType ?? '')?.value ?? ''] ?? DEFAULT_SOIL_WATER;
+
+// Share of the applied water that reaches the roots
+const IRRIGATION_EFFICIENCY: [RegExp, number][] = [
+  [/goutte|drip|micro/i, 0.9],
+  [/aspersion|sprinkler|pivot/i, 0.75],
+  [/manuel|manual|gravit|submersion/i, 0.6]
+];
+
+const DEFAULT_EFFICIENCY = 0.75;
+
+/** Efficiency of the parcel's irrigation system, read from its description */
+export const irrigationEfficiency = (irrigation?: string) =>
+  IRRIGATION_EFFICIENCY.find(([pattern]) => pattern.test(irrigation ?? ''))?.[1] ?? DEFAULT_EFFICIENCY;
+
+/** Parcels whose irrigation is "Aucune" have no system to apply a recommendation with */
+export const hasIrrigation = (irrigation?: string) => !!irrigation && !/^(aucune?|none)$/i.test(irrigation.trim());
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY).toISOString().slice(0, 10);
+
+const dayOfYear = (date: string) => {
+  const time = new Date(`${date}T00:00:00Z`).getTime();
+  return Math.floor((time - Date.UTC(new Date(time).getUTCFullYear(), 0, 1)) / DAY) + 1;
+};
+
+/**
+ * Reference evapotranspiration (mm/day) by Hargreaves, from the day's temperatures and
+ * the extraterrestrial radiation at the latitude
+ */
+export const referenceEt = (day: { date: string; tMean: number; tMin: number; tMax: number }, latitude: number) => {
+  const phi = (latitude * Math.PI) / 180;
+  const j = dayOfYear(day.date);
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI * j) / 365);
+  const delta = 0.409 * Math.sin((2 * Math.PI * j) / 365 - 1.39);
+  const ws = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(delta))));
+  // MJ/m²/day, then its evaporation equivalent in mm
+  const ra = ((24 * 60) / Math.PI) * 0.082 * dr
+    * (ws * Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.sin(ws));
+  const range = Math.max(0, day.tMax - day.tMin);
+  return Math.max(0, 0.0023 * 0.408 * ra * (day.tMean + 17.8) * Math.sqrt(range));
+};
+
+/** Growth stage of a crop cycle on a day, from the share of the cycle elapsed */
+export const cropStage = (cycle: Pick<CropData, 'plantingDate' | 'harvestDate'> | undefined, date: string) => {
+  if (!cycle?.plantingDate || !cycle.harvestDate) return { stage: 'mid' as CropStage, progress: 0.5 };
+  const start = new Date(cycle.plantingDate).getTime();
+  const length = Math.max(DAY, new Date(cycle.harvestDate).getTime() - start);
+  const progress = Math.max(0, Math.min(1, (new Date(date).getTime() - start) / length));
+  const stage: CropStage = progress < 0.15 ? 'initial' : progress < 0.4 ? 'development' : progress < 0.8 ? 'mid' : 'late';
+  return { stage, progress };
+};
+
+/** Crop coefficient on a day: flat in the initial and mid stages, linear in between */
+export const cropCoefficient = (profile: CropWaterProfile, progress: number) => {
+  const { initial, mid, end } = profile.kc;
+  if (progress < 0.15) return initial;
+  if (progress < 0.4) return initial + ((progress - 0.15) / 0.25) * (mid - initial);
+  if (progress < 0.8) return mid;
+  return mid + ((progress - 0.8) / 0.2) * (end - mid);
+};
+
+// Rain lost to runoff and interception; showers under 5 mm barely reach the roots
+export const effectiveRain = (rain: number) => (rain < 5 ? rain * 0.5 : rain * 0.8);
+
+export interface WaterBalanceDay {
+  date: string;
+  /** mm */
+  et0: number;
+  kc: number;
+  /** Actual crop evapotranspiration, reduced under stress, mm */
+  etc: number;
+  /** Effective rain, mm */
+  rain: number;
+  /** Net irrigation reaching the roots, mm */
+  irrigation: number;
+  /** Root zone depletion at the end of the day, mm below field capacity */
+  depletion: number;
+  stage: CropStage;
+  /** No temperatures for the day: evapotranspiration carried over from the day before */
+  estimated: boolean;
+}
+
+export interface IrrigationRecommendation {
+  date: string;
+  /** Net depth to bring the root zone back to field capacity, mm */
+  depth: number;
+  /** Volume to apply given the system's efficiency, m³ */
+  volume: number;
+}
+
+export interface ParcelWaterBalance {
+  parcel: ParcelData;
+  station?: StationDistance;
+  crop: string;
+  cycle?: CropData;
+  profile: CropWaterProfile;
+  /** Total and readily available water of the root zone, mm */
+  taw: number;
+  raw: number;
+  efficiency: number;
+  irrigable: boolean;
+  days: WaterBalanceDay[];
+  /** Balance on the last day run: today, or the last weather day when later */
+  current?: WaterBalanceDay;
+  /** Last day of the station's weather */
+  weatherUntil?: string;
+  /** Today is past the station's weather: the balance ends on estimated days without rain */
+  estimated: boolean;
+  recommendations: IrrigationRecommendation[];
+}
+
+// Days simulated before today; the balance starts at field capacity
+const SPIN_UP_DAYS = 120;
+// Tropical lowland evapotranspiration, until a day with temperatures is met, mm/day
+const DEFAULT_ET0 = 4.5;
+// Days ahead the schedule is projected, without rain, at the recent evapotranspiration
+export const SCHEDULE_HORIZON = 14;
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Daily root-zone balance of a parcel from its station's days up to today: effective rain
+ * and net irrigation in, crop evapotranspiration out, with the stress coefficient of FAO-56
+ * once the depletion passes the readily available water. Water above field capacity drains
+ * away; a day without any aggregate, within the series or after its last day, counts no rain.
+ */
+export const runWaterBalance = (
+  parcel: ParcelData,
+  profile: CropWaterProfile,
+  days: WeatherDay[],
+  events: IrrigationEvent[],
+  cycle?: CropData,
+  today = localDay(new Date().toISOString())
+): WaterBalanceDay[] => {
+  const series = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  if (series.length === 0) return [];
+  const taw = soilWaterCapacity(parcel.soilType) * profile.rootDepth;
+  const raw = profile.depletion * taw;
+  const efficiency = irrigationEfficiency(parcel.irrigation);
+  const byDate = new Map(series.map(day => [day.date, day]));
+  const lastWeather = series[series.length - 1].date;
+  const last = lastWeather > today ? lastWeather : today;
+  const first = series[0].date > addDays(last, -SPIN_UP_DAYS) ? series[0].date : addDays(last, -SPIN_UP_DAYS);
+
+  const result: WaterBalanceDay[] = [];
+  let depletion = 0;
+  let lastEt0 = DEFAULT_ET0;
+  for (let date = first; date <= last; date = addDays(date, 1)) {
+    const weather = byDate.get(date);
+    const measured = weather?.tMean !== undefined && weather.tMin !== undefined && weather.tMax !== undefined
+      && weather.tMax > weather.tMin;
+    const et0 = measured
+      ? referenceEt({ date, tMean: weather.tMean as number, tMin: weather.tMin as number, tMax: weather.tMax as number }, parcel.coordinates.lat)
+      : lastEt0;
+    lastEt0 = et0;
+    const { stage, progress } = cropStage(cycle, date);
+    const kc = cropCoefficient(profile, progress);
+    const stress = depletion > raw ? Math.max(0, (taw - depletion) / (taw - raw)) : 1;
+    const etc = stress * kc * et0;
+    const rain = weather ? effectiveRain(weather.rain) : 0;
+    // 1 m³ on 1 ha is 0.1 mm
+    const irrigation = events
+      .filter(event => event.parcelId === parcel.id && event.date === date)
+      .reduce((sum, event) => sum + (event.volume / (parcel.area * 10)) * efficiency, 0);
+    depletion = Math.max(0, Math.min(taw, depletion - rain - irrigation + etc));
+    result.push({
+      date,
+      et0: round(et0),
+      kc: Math.round(kc * 100) / 100,
+      etc: round(etc),
+      rain: round(rain),
+      irrigation: round(irrigation),
+      depletion: round(depletion),
+      stage,
+      estimated: !measured
+    });
+  }
+  return result;
+};
+
+/**
+ * Irrigation dates and volumes over the coming days: each time the projected depletion
+ * reaches the readily available water, refill the root zone to field capacity
+ */
+export const scheduleIrrigation = (
+  days: WaterBalanceDay[],
+  parcel: ParcelData,
+  profile: CropWaterProfile,
+  cycle?: CropData,
+  horizon = SCHEDULE_HORIZON
+): IrrigationRecommendation[] => {
+  const current = days[days.length - 1];
+  if (!current) return [];
+  const taw = soilWaterCapacity(parcel.soilType) * profile.rootDepth;
+  const raw = profile.depletion * taw;
+  const efficiency = irrigationEfficiency(parcel.irrigation);
+  const recent = days.slice(-7);
+  const et0 = recent.reduce((sum, day) => sum + day.et0, 0) / recent.length;
+
+  const recommend = (date: string, depth: number): IrrigationRecommendation => ({
+    date,
+    depth: round(depth),
+    volume: Math.round((depth / efficiency) * parcel.area * 10)
+  });
+
+  const recommendations: IrrigationRecommendation[] = [];
+  let depletion = current.depletion;
+  for (let offset = 1; offset <= horizon; offset++) {
+    const date = addDays(current.date, offset);
+    if (depletion >= raw) {
+      recommendations.push(recommend(date, depletion));
+      depletion = 0;
+    }
+    depletion = Math.min(taw, depletion + cropCoefficient(profile, cropStage(cycle, date).progress) * et0);
+  }
+  return recommendations;
+};
+
+/**
+ * Water balance of every cultivated parcel from its nearest station with daily weather,
+ * for the crop cycle growing on it or else the parcel's crop
+ */
+export const parcelWaterBalances = (
+  parcels: ParcelData[],
+  cropCycles: CropData[],
+  cultures: Culture[],
+  stations: WeatherStation[],
+  days: WeatherDay[],
+  events: IrrigationEvent[],
+  today = localDay(new Date().toISOString())
+): ParcelWaterBalance[] => {
+  const candidates = stationsWithData(stations, days);
+  return parcels
+    .filter(parcel => parcel.status !== 'inactive' && parcel.area > 0)
+    .map(parcel => {
+      const station = nearestStation(parcel.coordinates, candidates);
+      const series = station ? days.filter(day => day.stationId === station.station.id) : [];
+      const cycle = cropCycles.find(item => item.parcelId === parcel.id && item.status === 'growing');
+      const crop = cycle?.name ?? parcel.crop;
+      const profile = cropWaterProfile(crop, cultures);
+      const taw = soilWaterCapacity(parcel.soilType) * profile.rootDepth;
+      const balance = runWaterBalance(parcel, profile, series, events, cycle, today);
+      const weatherUntil = series.reduce<string | undefined>((last, day) => (!last || day.date > last ? day.date : last), undefined);
+      return {
+        parcel,
+        station,
+        crop,
+        cycle,
+        profile,
+        taw: round(taw),
+        raw: round(profile.depletion * taw),
+        efficiency: irrigationEfficiency(parcel.irrigation),
+        irrigable: hasIrrigation(parcel.irrigation),
+        days: balance,
+        current: balance[balance.length - 1],
+        weatherUntil,
+        estimated: !!weatherUntil && weatherUntil < today,
+        recommendations: scheduleIrrigation(balance, parcel, profile, cycle)
+      };
+    });
+};
+
+export interface WaterUsage {
+  /** m³ per irrigated ha over the twelve months to `to` */
+  current: number;
+  /** Same, over the twelve months before */
+  previous: number;
+  /** % change, when the previous year had irrigation */
+  change?: number;
+  /** YYYY-MM-DD */
+  from: string;
+  to: string;
+}
+
+const perHectare = (events: IrrigationEvent[], parcels: ParcelData[]) => {
+  const irrigated = new Set(events.map(event => event.parcelId));
+  const area = parcels.filter(parcel => irrigated.has(parcel.id)).reduce((sum, parcel) => sum + parcel.area, 0);
+  const volume = events.reduce((sum, event) => sum + event.volume, 0);
+  return area > 0 ? Math.round(volume / area) : 0;
+};
+
+/** Irrigation water used over the twelve months to the latest event, against the year before */
+export const waterUsage = (events: IrrigationEvent[], parcels: ParcelData[]): WaterUsage | undefined => {
+  if (events.length === 0) return undefined;
+  const to = events.map(event => event.date).sort()[events.length - 1];
+  const from = addDays(to, -364);
+  const previousFrom = addDays(from, -365);
+  const current = perHectare(events.filter(event => event.date >= from), parcels);
+  const previous = perHectare(events.filter(event => event.date >= previousFrom && event.date < from), parcels);
+  return {
+    current,
+    previous,
+    change: previous > 0 ? Math.round(((current - previous) / previous) * 100) : undefined,
+    from,
+    to
+  };
+};
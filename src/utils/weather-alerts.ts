@@ -0,0 +1,259 @@
+import type {
+  WeatherAggregation,
+  WeatherAlert,
+  WeatherAlertRule,
+  WeatherAlertStatus,
+  WeatherDay,
+  WeatherMetric,
+  WeatherStation
+} from '@/types/farm';
+import { UTC_OFFSET_HOURS, localDay } from './weather-series';
+
+export const METRIC_LABELS: Record<WeatherMetric, { label: string; unit: string }> = {
+  rain: { label: 'rain', unit: 'mm' },
+  t_max: { label: 'maximum temperature', unit: '°C' },
+  t_min: { label: 'minimum temperature', unit: '°C' },
+  t_mean: { label: 'mean temperature', unit: '°C' },
+  humidity: { label: 'humidity', unit: '%' },
+  wind_max: { label: 'wind', unit: 'm/s' }
+};
+
+export const AGGREGATION_LABELS: Record<WeatherAggregation, string> = {
+  sum: 'total',
+  mean: 'mean',
+  max: 'highest',
+  min: 'lowest'
+};
+
+const metricValue = (day: WeatherDay, metric: WeatherMetric): number | undefined => {
+  switch (metric) {
+    case 'rain':
+      return day.rain;
+    case 't_max':
+      return day.tMax;
+    case 't_min':
+      return day.tMin;
+    case 't_mean':
+      return day.tMean;
+    case 'humidity':
+      return day.humidity;
+    case 'wind_max':
+      return day.windMax;
+  }
+};
+
+/** "rain total over 30 days below 40 mm" */
+export const describeRule = (rule: Pick<WeatherAlertRule, 'metric' | 'aggregation' | 'windowDays' | 'comparison' | 'threshold'>) => {
+  const { label, unit } = METRIC_LABELS[rule.metric];
+  const over = rule.windowDays === 1 ? 'over 1 day' : `over ${rule.windowDays} days`;
+  return `${label} ${AGGREGATION_LABELS[rule.aggregation]} ${over} ${rule.comparison} ${rule.threshold} ${unit}`;
+};
+
+// Share of a window's days that must be observed for it to be evaluated
+const WINDOW_COVERAGE = 0.8;
+
+const DAY = 24 * 60 * 60 * 1000;
+const HOUR = 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY).toISOString().slice(0, 10);
+
+/**
+ * Value of the rule's aggregate over the window ending on each day of a station, or null
+ * when too few days of the window were observed. Sums are scaled up to the full window.
+ */
+export const windowValues = (rule: WeatherAlertRule, days: WeatherDay[]): Map<string, number | null> => {
+  const byDate = new Map(days.map(day => [day.date, metricValue(day, rule.metric)]));
+  const values = new Map<string, number | null>();
+  byDate.forEach((_value, date) => {
+    const window = Array.from({ length: rule.windowDays }, (_, offset) => byDate.get(addDays(date, -offset)))
+      .filter((value): value is number => value !== undefined);
+    if (window.length === 0 || window.length < Math.ceil(rule.windowDays * WINDOW_COVERAGE)) {
+      values.set(date, null);
+      return;
+    }
+    const total = window.reduce((sum, value) => sum + value, 0);
+    const value = rule.aggregation === 'sum' ? total * rule.windowDays / window.length
+      : rule.aggregation === 'mean' ? total / window.length
+        : rule.aggregation === 'max' ? Math.max(...window)
+          : Math.min(...window);
+    values.set(date, Math.round(value * 10) / 10);
+  });
+  return values;
+};
+
+const meets = (rule: WeatherAlertRule, value: number) =>
+  rule.comparison === 'above' ? value > rule.threshold : value < rule.threshold;
+
+// The worse of two values is the one further past the threshold
+const worse = (rule: WeatherAlertRule, a: number, b: number) =>
+  rule.comparison === 'above' ? Math.max(a, b) : Math.min(a, b);
+
+/** Run of consecutive evaluated days on which a rule's condition held in a region */
+export interface AlertEpisode {
+  rule: WeatherAlertRule;
+  region: string;
+  startDate: string;
+  endDate: string;
+  value: number;
+  stationId: number;
+  /** A later evaluated day shows the condition no longer holds */
+  cleared: boolean;
+}
+
+/**
+ * Episodes of a rule in every region it covers. A region meets the condition on a day
+ * when any of its stations does; days no station could evaluate are skipped.
+ */
+export const ruleEpisodes = (rule: WeatherAlertRule, stations: WeatherStation[], days: WeatherDay[]): AlertEpisode[] => {
+  const covered = stations.filter(station => !rule.region || station.region === rule.region);
+  const regions = Array.from(new Set(covered.map(station => station.region)));
+
+  return regions.flatMap(region => {
+    // Worst value of each day over the region's stations
+    const daily = new Map<string, { value: number; stationId: number; met: boolean }>();
+    covered
+      .filter(station => station.region === region)
+      .forEach(station => {
+        windowValues(rule, days.filter(day => day.stationId === station.id)).forEach((value, date) => {
+          if (value === null) return;
+          const current = daily.get(date);
+          if (!current || worse(rule, current.value, value) !== current.value) {
+            daily.set(date, { value, stationId: station.id, met: meets(rule, value) || (current?.met ?? false) });
+          } else if (meets(rule, value)) {
+            current.met = true;
+          }
+        });
+      });
+
+    const episodes: AlertEpisode[] = [];
+    let open: AlertEpisode | null = null;
+    Array.from(daily.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([date, { value, stationId, met }]) => {
+        if (met) {
+          if (!open) {
+            open = { rule, region, startDate: date, endDate: date, value, stationId, cleared: false };
+            episodes.push(open);
+          } else {
+            open.endDate = date;
+            if (worse(rule, open.value, value) !== open.value) {
+              open.value = value;
+              open.stationId = stationId;
+            }
+          }
+        } else if (open) {
+          open.cleared = true;
+          open = null;
+        }
+      });
+    return episodes;
+  });
+};
+
+/** End of the episode's last local day plus the rule's expiry delay */
+export const episodeExpiry = (episode: AlertEpisode) =>
+  new Date(
+    new Date(`${episode.endDate}T00:00:00Z`).getTime() - UTC_OFFSET_HOURS * HOUR + DAY + episode.rule.expiryHours * HOUR
+  ).toISOString();
+
+/**
+ * Scheduled when the episode starts after today (forecast data), completed once the
+ * condition cleared, expired when no new data confirmed it in time, active otherwise
+ */
+export const episodeStatus = (episode: AlertEpisode, now: Date): WeatherAlertStatus => {
+  if (episode.startDate > localDay(now.toISOString())) return 'Scheduled';
+  if (episode.cleared) return 'Completed';
+  if (new Date(episodeExpiry(episode)).getTime() < now.getTime()) return 'Expired';
+  return 'Active';
+};
+
+const formatValue = (episode: AlertEpisode) => {
+  const { unit } = METRIC_LABELS[episode.rule.metric];
+  return `${episode.value} ${unit}`;
+};
+
+export const episodeAlert = (
+  episode: AlertEpisode,
+  stations: WeatherStation[],
+  now: Date
+): Omit<WeatherAlert, 'id'> => {
+  const station = stations.find(item => item.id === episode.stationId);
+  const { rule } = episode;
+  return {
+    ruleId: rule.id,
+    stationId: episode.stationId,
+    type: rule.type,
+    region: episode.region,
+    severity: rule.severity,
+    impactCrops: rule.impactCrops,
+    startDate: episode.startDate,
+    endDate: episode.endDate,
+    value: episode.value,
+    description: `${rule.name}: ${METRIC_LABELS[rule.metric].label} ${AGGREGATION_LABELS[rule.aggregation]} of `
+      + `${formatValue(episode)}${station ? ` at ${station.name}` : ''} (rule: ${describeRule(rule)}).`,
+    recommendation: rule.recommendation,
+    status: episodeStatus(episode, now),
+    expiresAt: episodeExpiry(episode)
+  };
+};
+
+export interface AlertPlan {
+  create: Omit<WeatherAlert, 'id'>[];
+  update: { id: number; changes: Partial<WeatherAlert> }[];
+}
+
+const OPEN_STATUSES: WeatherAlertStatus[] = ['Active', 'Scheduled'];
+
+// Timestamps come back from the database as `+00:00` where episodeExpiry writes `Z`
+const sameValue = (key: keyof WeatherAlert, next: unknown, current: unknown) =>
+  next === current || (key === 'expiresAt' && typeof next === 'string' && typeof current === 'string'
+    && new Date(next).getTime() === new Date(current).getTime());
+
+const overlaps = (alert: WeatherAlert, episode: AlertEpisode) =>
+  alert.ruleId === episode.rule.id && alert.region === episode.region
+  && alert.startDate <= episode.endDate && episode.startDate <= alert.endDate;
+
+/**
+ * Alerts to create and update so the stored alerts match the episodes of the enabled
+ * rules. Open alerts whose episode is gone are completed when their rule still runs, and
+ * expired once past their expiry when it was disabled or deleted.
+ */
+export const planAlerts = (
+  rules: WeatherAlertRule[],
+  stations: WeatherStation[],
+  days: WeatherDay[],
+  alerts: WeatherAlert[],
+  now = new Date()
+): AlertPlan => {
+  const plan: AlertPlan = { create: [], update: [] };
+  const matched = new Set<number>();
+  const enabled = rules.filter(rule => rule.enabled);
+
+  enabled
+    .flatMap(rule => ruleEpisodes(rule, stations, days))
+    .forEach(episode => {
+      const next = episodeAlert(episode, stations, now);
+      const existing = alerts.find(alert => !matched.has(alert.id) && overlaps(alert, episode));
+      if (!existing) {
+        plan.create.push(next);
+        return;
+      }
+      matched.add(existing.id);
+      const changes = (Object.keys(next) as (keyof typeof next)[])
+        .filter(key => !sameValue(key, next[key], existing[key]))
+        .reduce<Partial<WeatherAlert>>((result, key) => ({ ...result, [key]: next[key] }), {});
+      if (Object.keys(changes).length > 0) plan.update.push({ id: existing.id, changes });
+    });
+
+  alerts
+    .filter(alert => !matched.has(alert.id) && OPEN_STATUSES.includes(alert.status))
+    .forEach(alert => {
+      if (enabled.some(rule => rule.id === alert.ruleId)) {
+        plan.update.push({ id: alert.id, changes: { status: 'Completed' } });
+      } else if (alert.expiresAt && new Date(alert.expiresAt).getTime() < now.getTime()) {
+        plan.update.push({ id: alert.id, changes: { status: 'Expired' } });
+      }
+    });
+  return plan;
+};
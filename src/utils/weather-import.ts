@@ -0,0 +1,412 @@
+import Papa from 'papaparse';
+import type { WeatherObservation } from '@/types/farm';
+
+export type WeatherFormat = 'csv' | 'json' | 'synop';
+
+export const WEATHER_FORMAT_LABELS: Record<WeatherFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  synop: 'SYNOP (FM 12)'
+};
+
+/** Observation read from a file, before it is attached to a stored station */
+export type ImportedObservation = Pick<
+  WeatherObservation,
+  'observedAt' | 'temperature' | 'humidity' | 'rainfall' | 'pressure' | 'windSpeed'
+> & {
+  stationCode: string;
+};
+
+export interface WeatherImportIssue {
+  /** 1-based line of a CSV, item of a JSON array or message of a SYNOP bulletin */
+  row: number;
+  message: string;
+}
+
+export interface WeatherDataset {
+  format: WeatherFormat;
+  fileName: string;
+  observations: ImportedObservation[];
+  /** Rows skipped or values dropped while reading */
+  issues: WeatherImportIssue[];
+}
+
+export interface WeatherParseOptions {
+  /** Station of rows that do not name one */
+  stationCode?: string;
+  /** Time the SYNOP bulletins were received; they only carry the day of month */
+  reference?: Date;
+}
+
+export class WeatherFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WeatherFormatError';
+  }
+}
+
+export const WEATHER_FILE_ACCEPT = '.csv,.txt,.json,.syn';
+
+type MeasureField = 'temperature' | 'humidity' | 'rainfall' | 'pressure' | 'windSpeed';
+
+const MEASURES: { field: MeasureField; label: string; min: number; max: number }[] = [
+  { field: 'temperature', label: 'température', min: -20, max: 50 },
+  { field: 'humidity', label: 'humidité', min: 0, max: 100 },
+  { field: 'rainfall', label: 'pluie', min: 0, max: 500 },
+  { field: 'pressure', label: 'pression', min: 850, max: 1100 },
+  { field: 'windSpeed', label: 'vent', min: 0, max: 100 }
+];
+
+// Column names recognized in CSV headers and JSON keys, compared without case, accents or
+// separators. The short codes are those of Météo-France's hourly station exports.
+const COLUMN_SYNONYMS: Record<'station' | 'time' | 'date' | 'hour' | MeasureField, string[]> = {
+  station: ['station', 'stationcode', 'stationid', 'code', 'numposte', 'poste', 'wmo', 'omm', 'indicatif'],
+  time: ['observedat', 'datetime', 'timestamp', 'time', 'aaaammjjhh', 'aaaammjjhhmn', 'dateheure'],
+  date: ['date', 'jour', 'day'],
+  hour: ['heure', 'hour', 'hh'],
+  temperature: ['temperature', 't', 'temp', 'tair', 'ta'],
+  humidity: ['humidity', 'u', 'rh', 'humidite', 'hr'],
+  rainfall: ['rainfall', 'rr1', 'rr', 'rain', 'pluie', 'precipitation', 'precip'],
+  pressure: ['pressure', 'pmer', 'pression', 'mslp', 'slp'],
+  windSpeed: ['windspeed', 'ff', 'wind', 'vent', 'vitessevent']
+};
+
+const normalizeKey = (key: string) =>
+  key.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findKey = (keys: string[], synonyms: string[]) =>
+  synonyms.map(synonym => keys.find(key => normalizeKey(key) === synonym)).find(Boolean);
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+  const parsed = Number(value.replace(/\s/g, '').replace(',', '.'));
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+/**
+ * UTC ISO time of a timestamp: AAAAMMJJHH[MN] as in Météo-France exports, DD/MM/YYYY [HH:MM]
+ * or ISO 8601. Times without an offset are read as UTC, the convention of station networks.
+ */
+export const parseTimestamp = (value: unknown): string | null => {
+  const text = String(value ?? '').trim();
+  const compact = text.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})?$/);
+  if (compact) {
+    const [, year, month, day, hour, minute = '00'] = compact;
+    return new Date(`${year}-${month}-${day}T${hour}:${minute}:00Z`).toISOString();
+  }
+  const french = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[ T](\d{1,2})(?::(\d{2}))?(?::\d{2})?)?$/);
+  if (french) {
+    const [, day, month, year, hour = '0', minute = '00'] = french;
+    const time = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute));
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+  }
+  const iso = text.match(/^\d{4}-\d{2}-\d{2}(?:[ T]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (iso) {
+    const withTime = text.length === 10 ? `${text}T00:00` : text.replace(' ', 'T');
+    const time = new Date(iso[1] ? withTime : `${withTime}Z`).getTime();
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+  }
+  return null;
+};
+
+/**
+ * Observation of one CSV row or JSON item, or the reason it is skipped.
+ * Out-of-range values are dropped with a warning; the rest of the row is kept.
+ */
+const readRecord = (
+  record: Record<string, unknown>,
+  row: number,
+  options: WeatherParseOptions,
+  issues: WeatherImportIssue[]
+): ImportedObservation | null => {
+  const keys = Object.keys(record);
+  const key = (field: keyof typeof COLUMN_SYNONYMS) => findKey(keys, COLUMN_SYNONYMS[field]);
+
+  const stationKey = key('station');
+  const stationCode = String((stationKey ? record[stationKey] : undefined) ?? options.stationCode ?? '').trim();
+  if (!stationCode) {
+    issues.push({ row, message: 'Station manquante' });
+    return null;
+  }
+
+  const timeKey = key('time');
+  const dateKey = key('date');
+  const hourKey = key('hour');
+  let raw = timeKey ? record[timeKey] : dateKey ? record[dateKey] : undefined;
+  if (!timeKey && dateKey && hourKey && record[hourKey] !== undefined && record[hourKey] !== '') {
+    const hour = String(record[hourKey]).trim();
+    raw = `${String(record[dateKey]).trim()} ${hour.includes(':') ? hour : `${hour.padStart(2, '0')}:00`}`;
+  }
+  const observedAt = parseTimestamp(raw);
+  if (!observedAt) {
+    issues.push({ row, message: `Date illisible : « ${raw ?? ''} »` });
+    return null;
+  }
+
+  const observation: ImportedObservation = { stationCode, observedAt };
+  MEASURES.forEach(({ field, label, min, max }) => {
+    const measureKey = key(field);
+    const value = measureKey ? toNumber(record[measureKey]) : undefined;
+    if (value === undefined) return;
+    if (value < min || value > max) {
+      issues.push({ row, message: `Valeur de ${label} hors limites (${value}) ignorée` });
+      return;
+    }
+    observation[field] = value;
+  });
+
+  if (MEASURES.every(({ field }) => observation[field] === undefined)) {
+    issues.push({ row, message: 'Aucune mesure' });
+    return null;
+  }
+  return observation;
+};
+
+/**
+ * Read a CSV with one observation per row, comma or semicolon separated
+ */
+export const parseWeatherCsv = (
+  text: string,
+  fileName = 'import.csv',
+  options: WeatherParseOptions = {}
+): WeatherDataset => {
+  const parsed = Papa.parse<Record<string, string>>(text.trim(), { header: true, skipEmptyLines: true });
+  if (!parsed.meta.fields || parsed.meta.fields.length < 2) {
+    throw new WeatherFormatError('Le fichier CSV n\'a pas de ligne d\'en-tête');
+  }
+  if (!findKey(parsed.meta.fields, COLUMN_SYNONYMS.time) && !findKey(parsed.meta.fields, COLUMN_SYNONYMS.date)) {
+    throw new WeatherFormatError('Aucune colonne de date (date, AAAAMMJJHH, observed_at…) dans le fichier CSV');
+  }
+
+  const issues: WeatherImportIssue[] = [];
+  const observations = parsed.data
+    // Header is line 1
+    .map((record, index) => readRecord(record, index + 2, options, issues))
+    .filter((observation): observation is ImportedObservation => observation !== null);
+  return { format: 'csv', fileName, observations, issues };
+};
+
+/**
+ * Read a JSON array of observations, or an object holding one under `observations` or
+ * `data`; a `station` key on that object applies to every observation.
+ */
+export const parseWeatherJson = (
+  text: string,
+  fileName = 'import.json',
+  options: WeatherParseOptions = {}
+): WeatherDataset => {
+  let content: unknown;
+  try {
+    content = JSON.parse(text);
+  } catch {
+    throw new WeatherFormatError('Le fichier n\'est pas un JSON valide');
+  }
+
+  let items: unknown = content;
+  let stationCode = options.stationCode;
+  if (content && typeof content === 'object' && !Array.isArray(content)) {
+    const wrapper = content as Record<string, unknown>;
+    items = wrapper.observations ?? wrapper.data;
+    const stationKey = findKey(Object.keys(wrapper), COLUMN_SYNONYMS.station);
+    const station = stationKey ? wrapper[stationKey] : undefined;
+    if (typeof station === 'string' || typeof station === 'number') stationCode = String(station);
+  }
+  if (!Array.isArray(items)) {
+    throw new WeatherFormatError('Aucun tableau d\'observations trouvé dans le fichier JSON');
+  }
+
+  const issues: WeatherImportIssue[] = [];
+  const observations = items
+    .map((item, index) => {
+      if (!item || typeof item !== 'object') {
+        issues.push({ row: index + 1, message: 'Élément qui n\'est pas un objet' });
+        return null;
+      }
+      return readRecord(item as Record<string, unknown>, index + 1, { ...options, stationCode }, issues);
+    })
+    .filter((observation): observation is ImportedObservation => observation !== null);
+  return { format: 'json', fileName, observations, issues };
+};
+
+// ---------------------------------------------------------------------------
+// SYNOP (WMO FM 12)
+// ---------------------------------------------------------------------------
+
+const KNOT = 0.514444;
+
+// Hours covered by the 6RRRtR group for each tR
+const RAIN_PERIODS: Record<string, number> = {
+  '1': 6, '2': 12, '3': 18, '4': 24, '5': 1, '6': 2, '7': 3, '8': 9, '9': 15
+};
+
+// Longer totals overlap the previous reports and would be counted twice in daily sums
+const MAX_RAIN_PERIOD = 6;
+
+/** Signed tenths of a degree of a 1snTTT or 2snTdTdTd group */
+const signedTenths = (group: string) => {
+  const value = Number(group.slice(2)) / 10;
+  return group[1] === '1' ? -value : value;
+};
+
+/** Relative humidity from air and dew-point temperatures (Magnus formula), % */
+export const humidityFromDewPoint = (temperature: number, dewPoint: number) => {
+  const saturation = (celsius: number) => Math.exp((17.625 * celsius) / (243.04 + celsius));
+  return Math.min(100, Math.round((100 * saturation(dewPoint)) / saturation(temperature)));
+};
+
+/** mm of a RRR code: 990 is a trace, 991–999 are tenths */
+const rainAmount = (code: string) => {
+  const value = Number(code);
+  if (value === 990) return 0;
+  return value > 990 ? (value - 990) / 10 : value;
+};
+
+/**
+ * Time of a report from its YYGG group. The day of month is taken in the month of the
+ * reference date, or the previous one when it would fall after it.
+ */
+const synopTime = (day: number, hour: number, reference: Date) => {
+  let time = Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth(), day, hour);
+  if (time > reference.getTime() + 24 * 60 * 60 * 1000) {
+    time = Date.UTC(reference.getUTCFullYear(), reference.getUTCMonth() - 1, day, hour);
+  }
+  return new Date(time).toISOString();
+};
+
+const isGroup = (token: string) => /^[0-9/]{5}$/.test(token);
+
+/**
+ * Read land station reports (AAXX) from raw SYNOP bulletins. Only section 1 and the
+ * precipitation of section 3 are decoded: temperature, dew point (as humidity), sea-level
+ * pressure, wind speed and rainfall over periods of up to 6 hours.
+ */
+export const parseSynop = (
+  text: string,
+  fileName = 'import.syn',
+  options: WeatherParseOptions = {}
+): WeatherDataset => {
+  const reference = options.reference ?? new Date();
+  const issues: WeatherImportIssue[] = [];
+  const observations: ImportedObservation[] = [];
+  let header: { day: number; hour: number; knots: boolean } | null = null;
+
+  const reports = text.split('=').map(report => report.trim().split(/\s+/).filter(Boolean));
+  reports.forEach((tokens, index) => {
+    const row = index + 1;
+    const start = tokens.indexOf('AAXX');
+    if (start >= 0) {
+      const group = tokens[start + 1] ?? '';
+      if (!/^\d{4}[0134/]$/.test(group)) {
+        issues.push({ row, message: `Groupe de date AAXX invalide : « ${group} »` });
+        header = null;
+        return;
+      }
+      header = { day: Number(group.slice(0, 2)), hour: Number(group.slice(2, 4)), knots: ['3', '4'].includes(group[4]) };
+      tokens = tokens.slice(start + 2);
+    }
+    if (tokens.length === 0) return;
+    if (!header) {
+      issues.push({ row, message: 'Message sans en-tête AAXX' });
+      return;
+    }
+    const [stationCode, indicators, wind, ...groups] = tokens;
+    if (!/^\d{5}$/.test(stationCode ?? '')) {
+      issues.push({ row, message: `Indicatif de station invalide : « ${stationCode ?? ''} »` });
+      return;
+    }
+    if (indicators === 'NIL') return;
+    if (!isGroup(indicators ?? '') || !isGroup(wind ?? '')) {
+      issues.push({ row, message: `Message ${stationCode} tronqué` });
+      return;
+    }
+    if (header.day < 1 || header.day > 31 || header.hour > 23) {
+      issues.push({ row, message: `Date du message ${stationCode} invalide` });
+      return;
+    }
+
+    const observation: ImportedObservation = {
+      stationCode,
+      observedAt: synopTime(header.day, header.hour, reference)
+    };
+
+    let speed = wind.slice(3) === '//' ? undefined : Number(wind.slice(3));
+    if (speed === 99 && /^00\d{3}$/.test(groups[0] ?? '')) speed = Number(groups[0].slice(2));
+    if (speed !== undefined) {
+      observation.windSpeed = Math.round((header.knots ? speed * KNOT : speed) * 10) / 10;
+    }
+
+    // iR = 3: no precipitation during the period
+    if (indicators[0] === '3') observation.rainfall = 0;
+
+    let dewPoint: number | undefined;
+    let section = 1;
+    for (const group of groups) {
+      if (group === '333') {
+        section = 3;
+        continue;
+      }
+      if (/^\d{3}$/.test(group)) break;
+      if (!isGroup(group) || group.includes('/')) continue;
+
+      if (section === 1) {
+        switch (group[0]) {
+          case '1':
+            if (group[1] === '0' || group[1] === '1') observation.temperature = signedTenths(group);
+            break;
+          case '2':
+            if (group[1] === '9') observation.humidity = Number(group.slice(2));
+            else if (group[1] === '0' || group[1] === '1') dewPoint = signedTenths(group);
+            break;
+          case '4':
+            // 4PPPP; high stations report a standard isobaric surface instead
+            if (group[1] === '0' || group[1] === '9') {
+              observation.pressure = (group[1] === '0' ? 10000 + Number(group.slice(1)) : Number(group.slice(1))) / 10;
+            }
+            break;
+        }
+      }
+      if (group[0] === '6' && observation.rainfall === undefined) {
+        const period = RAIN_PERIODS[group[4]];
+        if (period !== undefined && period <= MAX_RAIN_PERIOD) observation.rainfall = rainAmount(group.slice(1, 4));
+      }
+    }
+
+    if (observation.humidity === undefined && dewPoint !== undefined && observation.temperature !== undefined) {
+      observation.humidity = humidityFromDewPoint(observation.temperature, dewPoint);
+    }
+    if (MEASURES.every(({ field }) => observation[field] === undefined)) {
+      issues.push({ row, message: `Message ${stationCode} sans mesure` });
+      return;
+    }
+    observations.push(observation);
+  });
+
+  if (observations.length === 0 && !/\bAAXX\b/.test(text)) {
+    throw new WeatherFormatError('Aucun message SYNOP (AAXX) dans le fichier');
+  }
+  return { format: 'synop', fileName, observations, issues };
+};
+
+/** Format of a weather file, from its extension then its content */
+export const detectWeatherFormat = (text: string, fileName: string): WeatherFormat => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  if (extension === 'json' || /^[[{]/.test(text.trim())) return 'json';
+  if (extension === 'syn' || /\bAAXX\b/.test(text)) return 'synop';
+  return 'csv';
+};
+
+/**
+ * Read a CSV export, a JSON file or raw SYNOP bulletins into observations
+ */
+export const parseWeatherFile = async (file: File, options: WeatherParseOptions = {}): Promise<WeatherDataset> => {
+  const text = await file.text();
+  switch (detectWeatherFormat(text, file.name)) {
+    case 'json':
+      return parseWeatherJson(text, file.name, options);
+    case 'synop':
+      return parseSynop(text, file.name, options);
+    default:
+      return parseWeatherCsv(text, file.name, options);
+  }
+};
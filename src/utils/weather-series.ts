@@ -0,0 +1,141 @@
+import type { WeatherDay, WeatherObservation, WeatherStation } from '@/types/farm';
+import { distance, LatLng } from './geo';
+
+/** Weather of one day at a station, with every reading needed by the models */
+export interface DailyWeather {
+  /** YYYY-MM-DD */
+  date: string;
+  /** °C */
+  tMean: number;
+  tMin: number;
+  tMax: number;
+  /** Mean relative humidity, % */
+  humidity: number;
+  /** mm; 0 when no observation of the day reports rainfall */
+  rain: number;
+  observations: number;
+}
+
+/** Guadeloupe keeps UTC−4 all year; days and months are counted in local time */
+export const UTC_OFFSET_HOURS = -4;
+
+const HOUR = 60 * 60 * 1000;
+
+/** Local midnight of a YYYY-MM-DD day, so formatting it does not shift it by the time zone */
+export const dayDate = (date: string) => new Date(`${date}T00:00:00`);
+
+/** Local day (YYYY-MM-DD) an observation time falls on */
+export const localDay = (observedAt: string) =>
+  new Date(new Date(observedAt).getTime() + UTC_OFFSET_HOURS * HOUR).toISOString().slice(0, 10);
+
+const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+const round = (value: number | undefined, digits = 1) =>
+  value === undefined ? undefined : Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Daily aggregates of one station's observations, oldest day first. Days without
+ * observations are absent, not filled in.
+ */
+export const aggregateDays = (observations: WeatherObservation[]): Omit<WeatherDay, 'id' | 'stationId'>[] => {
+  const byDay = new Map<string, WeatherObservation[]>();
+  observations.forEach(observation => {
+    const day = localDay(observation.observedAt);
+    byDay.set(day, [...(byDay.get(day) ?? []), observation]);
+  });
+
+  return Array.from(byDay.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, readings]) => {
+      const temperatures = readings.map(reading => reading.temperature).filter((value): value is number => value !== undefined);
+      const humidities = readings.map(reading => reading.humidity).filter((value): value is number => value !== undefined);
+      const winds = readings.map(reading => reading.windSpeed).filter((value): value is number => value !== undefined);
+      return {
+        date,
+        tMean: round(mean(temperatures)),
+        tMin: temperatures.length > 0 ? Math.min(...temperatures) : undefined,
+        tMax: temperatures.length > 0 ? Math.max(...temperatures) : undefined,
+        humidity: round(mean(humidities)),
+        rain: round(readings.reduce((sum, reading) => sum + (reading.rainfall ?? 0), 0)) as number,
+        observations: readings.length,
+        windMax: winds.length > 0 ? Math.max(...winds) : undefined
+      };
+    });
+};
+
+/**
+ * Daily series of a station for the weather models, oldest day first. Days missing a
+ * temperature or humidity are left out.
+ */
+export const stationSeries = (days: WeatherDay[], stationId: number): DailyWeather[] =>
+  days
+    .filter(day => day.stationId === stationId && day.tMean !== undefined && day.humidity !== undefined)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(day => ({
+      date: day.date,
+      tMean: day.tMean as number,
+      tMin: day.tMin ?? (day.tMean as number),
+      tMax: day.tMax ?? (day.tMean as number),
+      humidity: day.humidity as number,
+      rain: day.rain,
+      observations: day.observations
+    }));
+
+export interface MonthlyRainfall {
+  /** YYYY-MM */
+  month: string;
+  /** mm over the observed days */
+  rain: number;
+  /** Days of the month with observations */
+  days: number;
+  /** Enough days were observed for the total to stand for the month */
+  complete: boolean;
+}
+
+// Share of a month's days that must be observed for its total to count
+const MONTH_COVERAGE = 0.8;
+
+const daysInMonth = (month: string) => {
+  const [year, number] = month.split('-').map(Number);
+  return new Date(year, number, 0).getDate();
+};
+
+/** Rainfall totals per month of one station's days, oldest month first */
+export const monthlyRainfall = (days: WeatherDay[]): MonthlyRainfall[] => {
+  const byMonth = new Map<string, WeatherDay[]>();
+  days.forEach(day => {
+    const month = day.date.slice(0, 7);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), day]);
+  });
+  return Array.from(byMonth.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, ofMonth]) => ({
+      month,
+      rain: round(ofMonth.reduce((sum, day) => sum + day.rain, 0)) as number,
+      days: ofMonth.length,
+      complete: ofMonth.length >= daysInMonth(month) * MONTH_COVERAGE
+    }));
+};
+
+export interface StationDistance {
+  station: WeatherStation;
+  /** m */
+  distance: number;
+}
+
+/** Closest station to a point, if any */
+export const nearestStation = (point: LatLng, stations: WeatherStation[]): StationDistance | undefined =>
+  stations
+    .map(station => ({ station, distance: distance(point, { lat: station.latitude, lng: station.longitude }) }))
+    .sort((a, b) => a.distance - b.distance)[0];
+
+/** Stations with at least one daily aggregate */
+export const stationsWithData = (stations: WeatherStation[], days: WeatherDay[]) => {
+  const withDays = new Set(days.map(day => day.stationId));
+  return stations.filter(station => withDays.has(station.id));
+};
+
+/** Distance in km, for labels */
+export const formatDistance = (meters: number) =>
+  `${(meters / 1000).toLocaleString('fr-FR', { maximumFractionDigits: 1 })} km`;
@@ -0,0 +1,128 @@
+import type { BudgetItem, FinancialTransaction, TimeEntry, Worker } from '@/types/farm';
+import { addDays } from './crop-calendar';
+
+/** Expense category labor costs are booked under */
+export const LABOR_EXPENSE_CATEGORY = 'Main-d\'œuvre';
+
+/** Budget line whose actual amount follows the booked labor costs */
+export const LABOR_BUDGET_CATEGORY = 'Labor';
+
+/** Roles offered in the worker form; any other can be typed in */
+export const WORKER_ROLES = [
+  'Chef de culture',
+  'Ouvrier agricole',
+  'Tractoriste',
+  'Technicien irrigation',
+  'Saisonnier'
+];
+
+export class TimesheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimesheetError';
+  }
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** € cost of an entry; nothing while the worker is still clocked in */
+export const entryCost = (entry: Pick<TimeEntry, 'hours' | 'hourlyRate'>) =>
+  entry.hours ? round2(entry.hours * entry.hourlyRate) : 0;
+
+/** Whether the worker of an entry is still clocked in */
+export const isClockedIn = (entry: Pick<TimeEntry, 'startedAt' | 'hours'>) =>
+  entry.startedAt !== undefined && entry.hours === undefined;
+
+/** Entry a worker is clocked in on, if any */
+export const openEntry = (entries: TimeEntry[], workerId: number) =>
+  entries.find(entry => entry.workerId === workerId && isClockedIn(entry));
+
+/**
+ * Hours between clocking in and out, to the quarter hour; at least a quarter hour and
+ * at most a day
+ */
+export const clockedHours = (startedAt: string, now: Date) => {
+  const hours = (now.getTime() - new Date(startedAt).getTime()) / 3_600_000;
+  return Math.min(24, Math.max(0.25, Math.round(hours * 4) / 4));
+};
+
+/** Reason an entry cannot be saved, or null */
+export const timeEntryError = (entry: Partial<TimeEntry>) => {
+  if (!entry.workerId) return 'Choisissez un employé';
+  if (!entry.date) return 'La date est requise';
+  if (entry.hours === undefined) return entry.startedAt ? null : 'Le nombre d\'heures est requis';
+  if (!(entry.hours > 0 && entry.hours <= 24)) return 'Les heures doivent être comprises entre 0 et 24';
+  if (!(entry.hourlyRate !== undefined && entry.hourlyRate >= 0)) return 'Le taux horaire doit être positif';
+  return null;
+};
+
+/** Expense booking the labor cost of a closed entry */
+export const laborTransaction = (
+  entry: Omit<TimeEntry, 'id'>,
+  worker: Pick<Worker, 'name'>,
+  target?: string
+): Omit<FinancialTransaction, 'id'> => ({
+  date: entry.date,
+  description: [LABOR_EXPENSE_CATEGORY, worker.name, `${entry.hours} h`, target].filter(Boolean).join(' – '),
+  amount: entryCost(entry),
+  category: LABOR_EXPENSE_CATEGORY,
+  type: 'expense'
+});
+
+/** Annual labor lines, whose actual follows the timesheets */
+export const isLaborBudgetLine = (item: BudgetItem) => item.category === LABOR_BUDGET_CATEGORY && (item.period ?? 'annual') === 'annual';
+
+/** Annual labor budget line of a year */
+export const laborBudgetLine = (budgets: BudgetItem[], year: number) =>
+  budgets.find(item => isLaborBudgetLine(item) && (item.year ?? year) === year);
+
+export interface TimesheetRow {
+  worker: Worker;
+  /** Hours of each day of the week, Sunday first */
+  days: number[];
+  hours: number;
+  cost: number;
+}
+
+/**
+ * Week of timesheets from its Sunday: the hours of each worker per day with their
+ * cost. Workers without hours that week are left out unless they are active.
+ */
+export const weekTimesheet = (entries: TimeEntry[], workers: Worker[], sunday: string): TimesheetRow[] => {
+  const days = Array.from({ length: 7 }, (_, i) => addDays(sunday, i));
+  return workers
+    .map(worker => {
+      const own = entries.filter(entry => entry.workerId === worker.id && entry.hours !== undefined);
+      const hours = days.map(day => own.filter(entry => entry.date === day).reduce((sum, entry) => sum + (entry.hours ?? 0), 0));
+      const ofWeek = own.filter(entry => entry.date >= days[0] && entry.date <= days[6]);
+      return {
+        worker,
+        days: hours,
+        hours: hours.reduce((sum, value) => sum + value, 0),
+        cost: round2(ofWeek.reduce((sum, entry) => sum + entryCost(entry), 0))
+      };
+    })
+    .filter(row => row.worker.active || row.hours > 0);
+};
+
+/** € of labor logged from `from` to `to` (inclusive) */
+export const laborCost = (entries: TimeEntry[], from: string, to: string) =>
+  round2(entries.filter(entry => entry.date >= from && entry.date <= to).reduce((sum, entry) => sum + entryCost(entry), 0));
+
+/**
+ * Budget lines with the actual of each annual labor line computed from the time logged
+ * over its year; the stored amount is ignored
+ */
+export const withLaborActuals = (budgets: BudgetItem[], entries: TimeEntry[], currentYear = new Date().getFullYear()) =>
+  budgets.map(item => {
+    if (!isLaborBudgetLine(item)) return item;
+    const year = item.year ?? currentYear;
+    return { ...item, actual: laborCost(entries, `${year}-01-01`, `${year}-12-31`) };
+  });
+
+/** Hours logged against each task, by task id */
+export const hoursByTask = (entries: TimeEntry[]) =>
+  entries.reduce((totals, entry) => {
+    if (entry.taskId !== undefined && entry.hours) totals.set(entry.taskId, (totals.get(entry.taskId) ?? 0) + entry.hours);
+    return totals;
+  }, new Map<number, number>());
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { yieldModel } from "../predict-yield/model-artifact.ts";
+import { CropModel, predictYield, YieldInput, YieldModel } from "./yield-model.ts";
+
+const input: YieldInput = {
+  cropType: 'Igname',
+  soilType: 'Ferralitique',
+  humidity: 80,
+  moisture: 55,
+  temperature: 27,
+  rainfall: 150,
+  area: 1,
+};
+
+const OPTIMUM = 1500;
+
+// ln(yield) = 2 - curvature · (ln rain - ln OPTIMUM)², on unscaled features. The rainfall grid
+// runs from 150 to 15 000 mm/an in 41 log steps, so 1 500 mm/an is one of its points.
+const cropModel = (curvature: number, rainfall: [number, number] = [150, 15_000]): CropModel => ({
+  item: 'Yams',
+  samples: 400,
+  countries: 20,
+  lambda: 1,
+  means: [0, 0, 0, 0, 0],
+  scales: [1, 1, 1, 1, 1],
+  intercept: 2 - curvature * Math.log(OPTIMUM) ** 2,
+  coefficients: [2 * curvature * Math.log(OPTIMUM), -curvature, 0, 0, 0],
+  residuals: { lower: -0.5, upper: 0.5 },
+  smearing: 1.25,
+  yieldQuartiles: [5, 8, 12],
+  domain: { rainfall, temperature: [15, 32] },
+  metrics: { r2: 0.3, mae: 2, withinQuarter: 0.6 },
+});
+
+const modelWith = (crop: CropModel): YieldModel => ({ ...yieldModel, crops: { Yams: crop } });
+
+const advice = (model: YieldModel, monthlyRain: number, cropType = input.cropType) =>
+  predictYield(model, { ...input, cropType, rainfall: monthlyRain }).recommendations[0];
+
+const monthlyRains = Array.from({ length: 15 }, (_, i) => 20 + i * 20);
+
+describe('rainfall advice', () => {
+  it('reports the gain to the optimum with the smearing on both yields', () => {
+    const model = modelWith(cropModel(0.5));
+    const gain = Math.round((Math.exp(0.5 * Math.log(OPTIMUM / 600) ** 2) - 1) * 100);
+
+    expect(advice(model, 600 / 12)).toMatch(/^Irrigation d'appoint/);
+    expect(advice(model, 600 / 12)).toContain(`soit +${gain} % de rendement`);
+    expect(advice(model, OPTIMUM / 12)).toBe('Pluviométrie proche de l\'optimum du modèle pour cette température');
+    expect(advice(model, 5000 / 12)).toMatch(/^Excès d'eau : au-delà de 1\s500 mm\/an/);
+  });
+
+  it('gives no advice when the optimum sits on a bound of the training range', () => {
+    const model = modelWith(cropModel(0.5, [150, 1000]));
+
+    expect(advice(model, 50)).toMatch(/ne situe pas d'optimum/);
+  });
+
+  it('gives no advice when the rainfall curve is not concave', () => {
+    const model = modelWith(cropModel(-0.5));
+
+    for (const rain of monthlyRains) expect(advice(model, rain)).toMatch(/ne situe pas d'optimum/);
+  });
+
+  it.each(['Maïs', 'Pomme de terre'])('does not call every rainfall an excess for %s', (cropType) => {
+    for (const rain of monthlyRains) {
+      expect(advice(yieldModel, rain, cropType)).not.toMatch(/^Excès d'eau|^Irrigation d'appoint/);
+    }
+  });
+
+  it.each(['Manioc', 'Banane', 'Patate douce'])('does not advise from the %s model, which has no skill', (cropType) => {
+    for (const rain of monthlyRains) {
+      expect(advice(yieldModel, rain, cropType)).toBe('Le modèle ne permet pas de conseiller la pluviométrie de cette culture');
+    }
+  });
+});
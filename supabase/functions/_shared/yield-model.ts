@@ -0,0 +1,281 @@
+// Crop yield regression shared by the training script (Node) and the predict-yield function (Deno).
+// Keep this module free of runtime-specific imports.
+
+/** Regressors of a crop model, computed from annual rainfall (mm) and mean temperature (°C) */
+export const FEATURE_NAMES = ['log_rain', 'log_rain_sq', 'temp', 'temp_sq', 'log_rain_x_temp'];
+
+export const cropFeatures = (annualRainfall: number, temperature: number): number[] => {
+  const logRain = Math.log(Math.max(annualRainfall, 1));
+  return [logRain, logRain ** 2, temperature, temperature ** 2, logRain * temperature];
+};
+
+export interface CropModel {
+  /** FAO item the model was trained on */
+  item: string;
+  samples: number;
+  countries: number;
+  lambda: number;
+  /** Standardization of each feature */
+  means: number[];
+  scales: number[];
+  /** Ridge coefficients on standardized features, predicting ln(t/ha) */
+  intercept: number;
+  coefficients: number[];
+  /** Quantiles of out-of-fold residuals (ln scale) bounding the prediction interval */
+  residuals: { lower: number; upper: number };
+  /** Mean of exp(residual), turning exp(ln prediction) into an expected yield */
+  smearing: number;
+  /** Training yields (t/ha) at the 25th, 50th and 75th percentiles */
+  yieldQuartiles: [number, number, number];
+  /** Observed input range; predictions outside it are clamped */
+  domain: { rainfall: [number, number]; temperature: [number, number] };
+  /** Leave-countries-out cross-validation */
+  metrics: { r2: number; mae: number; withinQuarter: number };
+}
+
+export interface YieldModel {
+  version: number;
+  method: string;
+  source: string;
+  /** FNV-1a checksum of the training CSV */
+  dataChecksum: string;
+  /** Coverage of the prediction intervals */
+  intervalLevel: number;
+  crops: Record<string, CropModel>;
+}
+
+/** Where the yields of a farm crop come from */
+export interface CropSource {
+  /** FAO item with a trained model */
+  item?: string;
+  /** The FAO item is a related crop, not the crop itself */
+  proxy?: boolean;
+  /** Agronomic range (t/ha) used when no FAO data exists */
+  reference?: [number, number];
+}
+
+export const CROP_SOURCES: Record<string, CropSource> = {
+  'Canne à Sucre': { reference: [60, 100] },
+  'Banane': { item: 'Plantains and others', proxy: true },
+  'Ananas': { reference: [40, 60] },
+  'Igname': { item: 'Yams' },
+  'Madère': { reference: [15, 30] },
+  'Christophine': { reference: [20, 35] },
+  'Patate douce': { item: 'Sweet potatoes' },
+  'Manioc': { item: 'Cassava' },
+  'Maïs': { item: 'Maize' },
+  'Riz': { item: 'Rice, paddy' },
+  'Pomme de terre': { item: 'Potatoes' }
+};
+
+export interface YieldInput {
+  cropType: string;
+  soilType: string;
+  humidity: number;
+  moisture: number;
+  temperature: number;
+  /** mm per month */
+  rainfall: number;
+  area: number;
+}
+
+export interface DiseaseRisk {
+  name: string;
+  riskLevel: string;
+  conditions: string;
+  yieldImpact: string;
+}
+
+export interface Interval {
+  lower: number;
+  upper: number;
+  /** Nominal coverage, 0–1 */
+  level: number;
+}
+
+export interface PredictionResult {
+  yieldPerHectare: number;
+  totalProduction: number;
+  confidenceLevel: number;
+  qualityGrade: string;
+  diseaseRisks: DiseaseRisk[];
+  keyFactors: string[];
+  recommendations: string[];
+  analysis: string;
+  yieldInterval: Interval;
+  totalProductionInterval: Interval;
+  model: {
+    method: string;
+    version: number;
+    /** FAO item, or null for reference ranges */
+    trainedOn: string | null;
+    samples: number;
+  };
+}
+
+export class YieldModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'YieldModelError';
+  }
+}
+
+const normalizeCrop = (crop: string) => crop.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+export const cropSource = (crop: string): CropSource | undefined => {
+  const key = normalizeCrop(crop);
+  const match = Object.entries(CROP_SOURCES).find(([name]) => normalizeCrop(name) === key);
+  return match?.[1];
+};
+
+const clamp = (value: number, [min, max]: [number, number]) => Math.min(Math.max(value, min), max);
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+const formatNumber = (value: number, digits = 0) =>
+  value.toLocaleString('fr-FR', { maximumFractionDigits: digits });
+const percentChange = (value: number, base: number) => {
+  const change = Math.round((value / base - 1) * 100);
+  return `${change >= 0 ? '+' : ''}${change} %`;
+};
+
+/** ln(t/ha) predicted by a crop model, inputs clamped to the training domain */
+export const predictLogYield = (crop: CropModel, annualRainfall: number, temperature: number): number => {
+  const features = cropFeatures(clamp(annualRainfall, crop.domain.rainfall), clamp(temperature, crop.domain.temperature));
+  return features.reduce(
+    (sum, value, i) => sum + crop.coefficients[i] * ((value - crop.means[i]) / crop.scales[i]),
+    crop.intercept
+  );
+};
+
+const qualityGrade = (yieldPerHectare: number, [q1, median, q3]: [number, number, number]) => {
+  if (yieldPerHectare >= q3) return 'Excellente';
+  if (yieldPerHectare >= median) return 'Bonne';
+  if (yieldPerHectare >= q1) return 'Moyenne';
+  return 'Faible';
+};
+
+/** Confidence shown when the prediction carries no weather signal */
+const LOW_CONFIDENCE = 30;
+
+const IGNORED_INPUTS = 'Type de sol, humidité de l\'air et humidité du sol ne figurent pas dans les données FAO : '
+  + 'ils ne modifient pas la prédiction';
+
+const referencePrediction = (input: YieldInput, [low, high]: [number, number], version: number, level: number): PredictionResult => {
+  const yieldPerHectare = (low + high) / 2;
+  return {
+    yieldPerHectare,
+    totalProduction: round(yieldPerHectare * input.area),
+    confidenceLevel: LOW_CONFIDENCE,
+    qualityGrade: 'Moyenne',
+    diseaseRisks: [],
+    keyFactors: [
+      `Aucune donnée FAO pour ${input.cropType} : fourchette agronomique de référence (${low}–${high} t/ha)`,
+      IGNORED_INPUTS
+    ],
+    recommendations: [
+      'Saisir les rendements réels des parcelles pour disposer d\'une base de comparaison locale'
+    ],
+    analysis: `${input.cropType} n'est pas couvert par le jeu de données FAO : le rendement affiché est le milieu `
+      + 'de la fourchette habituelle en Guadeloupe, sans ajustement aux conditions saisies.',
+    yieldInterval: { lower: low, upper: high, level },
+    totalProductionInterval: { lower: round(low * input.area), upper: round(high * input.area), level },
+    model: { method: 'reference-range', version, trainedOn: null, samples: 0 }
+  };
+};
+
+/**
+ * Predict the yield of a crop from the trained model, with an empirical prediction interval
+ */
+export const predictYield = (model: YieldModel, input: YieldInput): PredictionResult => {
+  const source = cropSource(input.cropType);
+  if (!source) throw new YieldModelError(`Culture non prise en charge : ${input.cropType}`);
+  if (source.reference) return referencePrediction(input, source.reference, model.version, model.intervalLevel);
+
+  const crop = model.crops[source.item];
+  if (!crop) throw new YieldModelError(`Le modèle ne contient pas de données pour ${source.item}`);
+
+  const annualRainfall = input.rainfall * 12;
+  const logYield = predictLogYield(crop, annualRainfall, input.temperature);
+  const yieldPerHectare = Math.exp(logYield) * crop.smearing;
+  const lower = Math.exp(logYield + crop.residuals.lower);
+  const upper = Math.exp(logYield + crop.residuals.upper);
+
+  const rainOutside = annualRainfall < crop.domain.rainfall[0] || annualRainfall > crop.domain.rainfall[1];
+  const tempOutside = input.temperature < crop.domain.temperature[0] || input.temperature > crop.domain.temperature[1];
+  // A cross-validated R² at or below zero predicts no better than the average yield
+  const skilful = crop.metrics.r2 > 0;
+  const confidence = Math.min(
+    crop.metrics.withinQuarter * (rainOutside || tempOutside ? 0.7 : 1) * (source.proxy ? 0.85 : 1),
+    skilful ? 1 : LOW_CONFIDENCE / 100
+  );
+
+  // Partial effects against the typical conditions of the training data
+  const typicalRain = Math.exp(crop.means[0]);
+  const typicalTemp = crop.means[2];
+  const atTypical = Math.exp(predictLogYield(crop, typicalRain, typicalTemp));
+  const rainOnly = Math.exp(predictLogYield(crop, annualRainfall, typicalTemp));
+  const tempOnly = Math.exp(predictLogYield(crop, typicalRain, input.temperature));
+
+  const keyFactors = [
+    `Pluviométrie ${formatNumber(annualRainfall)} mm/an : ${percentChange(rainOnly, atTypical)} par rapport aux conditions `
+      + `typiques des données (${formatNumber(typicalRain)} mm/an)`,
+    `Température moyenne ${formatNumber(input.temperature, 1)} °C : ${percentChange(tempOnly, atTypical)} `
+      + `par rapport à ${formatNumber(typicalTemp, 1)} °C`,
+    IGNORED_INPUTS
+  ];
+  if (source.proxy) keyFactors.unshift(`Modèle de la culture apparentée « ${crop.item} » (FAO)`);
+  if (rainOutside || tempOutside) {
+    keyFactors.push('Conditions hors de la plage des données d\'entraînement : prédiction calculée à la limite de la plage');
+  }
+  if (!skilful) {
+    keyFactors.unshift(`Le modèle de « ${crop.item} » ne prédit pas mieux que le rendement moyen `
+      + `(R² ${formatNumber(crop.metrics.r2, 2)} en validation croisée) : prédiction indicative`);
+  }
+
+  // Best rainfall at the given temperature, searched over the observed range
+  const [minRain, maxRain] = crop.domain.rainfall;
+  const candidates = Array.from({ length: 41 }, (_, i) => minRain * (maxRain / minRain) ** (i / 40));
+  const logYieldAt = (rain: number) => predictLogYield(crop, rain, input.temperature);
+  const best = candidates.reduce((bestIndex, rain, i) => (logYieldAt(rain) > logYieldAt(candidates[bestIndex]) ? i : bestIndex), 0);
+  const bestRain = candidates[best];
+  // Both yields carry the smearing factor, so the gain is the ratio of the unsmeared ones
+  const bestGain = Math.exp(logYieldAt(bestRain) - logYield) - 1;
+  // ln(yield) is quadratic in ln(rainfall): only a concave curve peaking inside the observed
+  // range has an optimum; a peak on a bound is where the fit stops, not where yields do
+  const concave = crop.coefficients[1] / crop.scales[1] < 0;
+  const hasOptimum = concave && best > 0 && best < candidates.length - 1;
+
+  const recommendations: string[] = [];
+  if (!skilful) {
+    recommendations.push('Le modèle ne permet pas de conseiller la pluviométrie de cette culture');
+  } else if (!hasOptimum) {
+    recommendations.push('Le modèle ne situe pas d\'optimum de pluviométrie dans la plage de ses données : '
+      + 'pas de conseil d\'irrigation ni de drainage');
+  } else if (bestGain > 0.05 && bestRain > annualRainfall) {
+    recommendations.push(`Irrigation d'appoint : le modèle situe l'optimum vers ${formatNumber(bestRain)} mm/an `
+      + `(+${formatNumber((bestRain - annualRainfall) / 12)} mm/mois), soit ${percentChange(1 + bestGain, 1)} de rendement`);
+  } else if (bestGain > 0.05) {
+    recommendations.push(`Excès d'eau : au-delà de ${formatNumber(bestRain)} mm/an le rendement baisse, `
+      + 'soigner le drainage des parcelles');
+  } else {
+    recommendations.push('Pluviométrie proche de l\'optimum du modèle pour cette température');
+  }
+  recommendations.push('Comparer la prédiction aux rendements réels des parcelles pour recaler les attentes locales');
+
+  const level = model.intervalLevel;
+  return {
+    yieldPerHectare: round(yieldPerHectare),
+    totalProduction: round(yieldPerHectare * input.area),
+    confidenceLevel: Math.round(confidence * 100),
+    qualityGrade: qualityGrade(yieldPerHectare, crop.yieldQuartiles),
+    diseaseRisks: [],
+    keyFactors,
+    recommendations,
+    analysis: `Régression ridge sur le logarithme du rendement, entraînée sur ${formatNumber(crop.samples)} observations FAO `
+      + `de « ${crop.item} » dans ${crop.countries} pays. En validation croisée par pays, l'erreur absolue moyenne est de `
+      + `${formatNumber(crop.metrics.mae, 1)} t/ha et ${Math.round(crop.metrics.withinQuarter * 100)} % des prédictions `
+      + `sont à ±25 % du rendement observé. L'intervalle à ${Math.round(level * 100)} % reprend la dispersion de ces erreurs.`,
+    yieldInterval: { lower: round(lower), upper: round(upper), level },
+    totalProductionInterval: { lower: round(lower * input.area), upper: round(upper * input.area), level },
+    model: { method: model.method, version: model.version, trainedOn: crop.item, samples: crop.samples }
+  };
+};
@@ -0,0 +1,384 @@
+// Generated by scripts/train-yield-model.ts from backend_agridom/yield_df.csv. Do not edit.
+// Regenerate with: npm run train:yield-model
+import type { YieldModel } from "../_shared/yield-model.ts";
+
+export const yieldModel: YieldModel = {
+  "version": 1,
+  "method": "ridge-log-yield",
+  "source": "backend_agridom/yield_df.csv (FAO yields with annual rainfall and mean temperature)",
+  "dataChecksum": "bb7645ce",
+  "intervalLevel": 0.9,
+  "crops": {
+    "Cassava": {
+      "item": "Cassava",
+      "samples": 941,
+      "countries": 41,
+      "lambda": 1000,
+      "means": [
+        7.18761,
+        52.0344,
+        24.2267,
+        598.415,
+        174.264
+      ],
+      "scales": [
+        0.610463,
+        8.29508,
+        3.38868,
+        157.786,
+        29.2831
+      ],
+      "intercept": 2.14746,
+      "coefficients": [
+        0.0040285,
+        0.0133891,
+        0.0381136,
+        0.043206,
+        0.0390557
+      ],
+      "residuals": {
+        "lower": -1.20306,
+        "upper": 0.866559
+      },
+      "smearing": 1.19322,
+      "yieldQuartiles": [
+        5.8596,
+        10,
+        13.2173
+      ],
+      "domain": {
+        "rainfall": [
+          151,
+          3240
+        ],
+        "temperature": [
+          15.94,
+          30.42
+        ]
+      },
+      "metrics": {
+        "r2": -0.0496233,
+        "mae": 4.59461,
+        "withinQuarter": 0.370882
+      }
+    },
+    "Maize": {
+      "item": "Maize",
+      "samples": 2028,
+      "countries": 92,
+      "lambda": 1,
+      "means": [
+        6.6977,
+        45.7113,
+        19.2418,
+        417.248,
+        129.588
+      ],
+      "scales": [
+        0.923091,
+        11.415,
+        6.85584,
+        250.189,
+        52.3521
+      ],
+      "intercept": 0.94675,
+      "coefficients": [
+        -1.74736,
+        2.33116,
+        0.0213497,
+        0.561633,
+        -1.31638
+      ],
+      "residuals": {
+        "lower": -1.24843,
+        "upper": 1.14928
+      },
+      "smearing": 1.35285,
+      "yieldQuartiles": [
+        1.40685,
+        2.4489,
+        5.31855
+      ],
+      "domain": {
+        "rainfall": [
+          51,
+          3240
+        ],
+        "temperature": [
+          3.57,
+          30.42
+        ]
+      },
+      "metrics": {
+        "r2": 0.138623,
+        "mae": 2.09417,
+        "withinQuarter": 0.237179
+      }
+    },
+    "Plantains and others": {
+      "item": "Plantains and others",
+      "samples": 464,
+      "countries": 21,
+      "lambda": 1000,
+      "means": [
+        7.42127,
+        55.1941,
+        24.4553,
+        609.642,
+        181.922
+      ],
+      "scales": [
+        0.344797,
+        5.03172,
+        3.40298,
+        153.76,
+        28.5793
+      ],
+      "intercept": 2.20788,
+      "coefficients": [
+        0.0247059,
+        0.025308,
+        -0.02544,
+        -0.0218348,
+        -0.0135773
+      ],
+      "residuals": {
+        "lower": -1.3127,
+        "upper": 1.32862
+      },
+      "smearing": 1.27182,
+      "yieldQuartiles": [
+        5.8837,
+        9.70245,
+        12.5
+      ],
+      "domain": {
+        "rainfall": [
+          630,
+          3240
+        ],
+        "temperature": [
+          15.94,
+          27.87
+        ]
+      },
+      "metrics": {
+        "r2": -0.248865,
+        "mae": 6.33723,
+        "withinQuarter": 0.299569
+      }
+    },
+    "Potatoes": {
+      "item": "Potatoes",
+      "samples": 2091,
+      "countries": 95,
+      "lambda": 10,
+      "means": [
+        6.61971,
+        44.6692,
+        17.8404,
+        371.661,
+        118.094
+      ],
+      "scales": [
+        0.921192,
+        11.2697,
+        7.30623,
+        254.906,
+        52.6988
+      ],
+      "intercept": 2.72685,
+      "coefficients": [
+        -0.195664,
+        0.341964,
+        0.428311,
+        -0.29297,
+        -0.473507
+      ],
+      "residuals": {
+        "lower": -0.993565,
+        "upper": 0.770655
+      },
+      "smearing": 1.176,
+      "yieldQuartiles": [
+        11.5023,
+        16.189,
+        23.6019
+      ],
+      "domain": {
+        "rainfall": [
+          51,
+          3240
+        ],
+        "temperature": [
+          1.3,
+          30.42
+        ]
+      },
+      "metrics": {
+        "r2": 0.171811,
+        "mae": 7.63136,
+        "withinQuarter": 0.321377
+      }
+    },
+    "Rice, paddy": {
+      "item": "Rice, paddy",
+      "samples": 1502,
+      "countries": 68,
+      "lambda": 1000,
+      "means": [
+        6.82877,
+        47.3802,
+        20.7981,
+        469.831,
+        143.407
+      ],
+      "scales": [
+        0.864985,
+        10.9845,
+        6.10489,
+        234.233,
+        49.4586
+      ],
+      "intercept": 1.1787,
+      "coefficients": [
+        -0.00675253,
+        0.00790942,
+        -0.0440702,
+        -0.046678,
+        -0.0451886
+      ],
+      "residuals": {
+        "lower": -0.980583,
+        "upper": 0.759783
+      },
+      "smearing": 1.14943,
+      "yieldQuartiles": [
+        2.28707,
+        3.35535,
+        4.89328
+      ],
+      "domain": {
+        "rainfall": [
+          51,
+          3240
+        ],
+        "temperature": [
+          3.57,
+          30.42
+        ]
+      },
+      "metrics": {
+        "r2": 0.0243398,
+        "mae": 1.52238,
+        "withinQuarter": 0.360186
+      }
+    },
+    "Sweet potatoes": {
+      "item": "Sweet potatoes",
+      "samples": 1163,
+      "countries": 53,
+      "lambda": 1000,
+      "means": [
+        6.91856,
+        48.5914,
+        22.2397,
+        518.828,
+        154.031
+      ],
+      "scales": [
+        0.851404,
+        10.7314,
+        4.92156,
+        205.459,
+        40.5517
+      ],
+      "intercept": 2.09643,
+      "coefficients": [
+        -0.0121405,
+        -0.00689839,
+        -0.0681839,
+        -0.058273,
+        -0.047773
+      ],
+      "residuals": {
+        "lower": -1.42005,
+        "upper": 1.16731
+      },
+      "smearing": 1.30453,
+      "yieldQuartiles": [
+        5.40895,
+        8.75,
+        14.9969
+      ],
+      "domain": {
+        "rainfall": [
+          51,
+          3142
+        ],
+        "temperature": [
+          8.91,
+          30.42
+        ]
+      },
+      "metrics": {
+        "r2": -0.017466,
+        "mae": 5.5967,
+        "withinQuarter": 0.251935
+      }
+    },
+    "Yams": {
+      "item": "Yams",
+      "samples": 454,
+      "countries": 21,
+      "lambda": 1,
+      "means": [
+        7.08895,
+        50.9068,
+        24.3197,
+        608.951,
+        172.218
+      ],
+      "scales": [
+        0.80838,
+        10.3965,
+        4.18392,
+        184.994,
+        35.2323
+      ],
+      "intercept": 2.2233,
+      "coefficients": [
+        -0.19387,
+        0.947163,
+        -0.947802,
+        1.62912,
+        -0.921379
+      ],
+      "residuals": {
+        "lower": -0.732295,
+        "upper": 0.629435
+      },
+      "smearing": 1.12749,
+      "yieldQuartiles": [
+        6.2844,
+        9.24035,
+        13.2997
+      ],
+      "domain": {
+        "rainfall": [
+          92,
+          3240
+        ],
+        "temperature": [
+          14.05,
+          29.41
+        ]
+      },
+      "metrics": {
+        "r2": 0.0854789,
+        "mae": 3.8557,
+        "withinQuarter": 0.348018
+      }
+    }
+  }
+};
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from "vitest";
+import type { YieldInput } from "../_shared/yield-model.ts";
+import { yieldModel } from "./model-artifact.ts";
+import {
+  createGatewayProvider,
+  createLocalProvider,
+  predictWithFallback,
+  ProviderError,
+} from "./providers.ts";
+
+const input: YieldInput = {
+  cropType: 'Igname',
+  soilType: 'Ferralitique',
+  humidity: 80,
+  moisture: 55,
+  temperature: 27,
+  rainfall: 180,
+  area: 2,
+};
+
+const answer = {
+  yieldPerHectare: 18,
+  yieldLower: 14,
+  yieldUpper: 22,
+  confidenceLevel: 70,
+  qualityGrade: 'Bonne',
+  diseaseRisks: [{ name: 'Anthracnose', riskLevel: 'Moderate', conditions: 'Humidité 80 %', yieldImpact: '-5 %' }],
+  keyFactors: ['Pluviométrie favorable'],
+  recommendations: ['Surveiller l\'anthracnose'],
+  analysis: 'Conditions proches de l\'optimum.',
+};
+
+// Chat completion whose message carries `content` as the model's answer
+const completion = (content: unknown, status = 200) =>
+  new Response(JSON.stringify({ choices: [{ message: { content: JSON.stringify(content) } }] }), { status });
+
+const gateway = (send: typeof fetch, apiKey = 'secret') =>
+  createGatewayProvider({ url: 'https://gateway.test/v1/chat/completions', apiKey, model: 'test-model', fetch: send });
+
+const unconfigured = (send: typeof fetch) => gateway(send, '');
+
+// A gateway that never answers; the request only ends when its signal aborts
+const hanging = vi.fn<typeof fetch>((_url, init) => new Promise((_resolve, reject) => {
+  init?.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+}));
+
+const slow = (send: typeof fetch) =>
+  createGatewayProvider({ url: 'https://gateway.test/v1/chat/completions', apiKey: 'secret', model: 'test-model', timeoutMs: 20, fetch: send });
+
+describe('gateway provider', () => {
+  it('maps a valid answer to a prediction', async () => {
+    const send = vi.fn<typeof fetch>().mockResolvedValue(completion(answer));
+
+    const result = await gateway(send).predict(input);
+
+    expect(send).toHaveBeenCalledOnce();
+    const [url, init] = send.mock.calls[0];
+    expect(url).toBe('https://gateway.test/v1/chat/completions');
+    expect(new Headers(init?.headers).get('Authorization')).toBe('Bearer secret');
+    expect(JSON.parse(String(init?.body)).model).toBe('test-model');
+    expect(result).toMatchObject({
+      yieldPerHectare: 18,
+      totalProduction: 36,
+      confidenceLevel: 70,
+      qualityGrade: 'Bonne',
+      yieldInterval: { lower: 14, upper: 22, level: 0.9 },
+      totalProductionInterval: { lower: 28, upper: 44, level: 0.9 },
+      model: { method: 'llm-gateway:test-model' },
+    });
+  });
+
+  it('refuses an answer that does not match the schema', async () => {
+    const send = vi.fn<typeof fetch>().mockResolvedValue(completion({ ...answer, qualityGrade: 'Parfaite' }));
+
+    await expect(gateway(send).predict(input)).rejects.toThrow(/failed validation/);
+  });
+
+  it('does not call the gateway without an API key', async () => {
+    const send = vi.fn<typeof fetch>();
+
+    await expect(unconfigured(send).predict(input)).rejects.toThrow(ProviderError);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('reports an HTTP error status', async () => {
+    const send = vi.fn<typeof fetch>().mockResolvedValue(new Response('Too Many Requests', { status: 429 }));
+
+    await expect(gateway(send).predict(input)).rejects.toThrow('LLM gateway responded 429');
+  });
+
+  it('gives up on a gateway that does not answer in time', async () => {
+    await expect(slow(hanging).predict(input)).rejects.toThrow(
+      new ProviderError('LLM gateway did not answer within 20 ms')
+    );
+  });
+});
+
+describe('predictWithFallback', () => {
+  const local = createLocalProvider(yieldModel);
+
+  it('answers with the gateway when it succeeds', async () => {
+    const send = vi.fn<typeof fetch>().mockResolvedValue(completion(answer));
+
+    const response = await predictWithFallback([gateway(send), local], input);
+
+    expect(response.provider).toEqual({ name: 'gateway' });
+    expect(response.yieldPerHectare).toBe(18);
+  });
+
+  it.each([
+    ['an answer that does not match the schema', () => completion({ ...answer, yieldPerHectare: 'beaucoup' }), /failed validation/],
+    ['an HTTP error status', () => new Response('Internal Server Error', { status: 500 }), /responded 500/],
+  ])('falls back to the local model on %s', async (_case, reply, reason) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const send = vi.fn<typeof fetch>().mockImplementation(async () => reply());
+
+    const response = await predictWithFallback([gateway(send), local], input);
+
+    expect(response.provider.name).toBe('local');
+    expect(response.provider.fallbackFrom).toBe('gateway');
+    expect(response.provider.fallbackReason).toMatch(reason);
+    expect(response).toMatchObject(await local.predict(input));
+  });
+
+  it('falls back to the local model when the gateway does not answer in time', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const response = await predictWithFallback([slow(hanging), local], input);
+
+    expect(response.provider).toEqual({
+      name: 'local',
+      fallbackFrom: 'gateway',
+      fallbackReason: 'LLM gateway did not answer within 20 ms',
+    });
+  });
+
+  it('falls back to the local model when the API key is missing', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const send = vi.fn<typeof fetch>();
+
+    const response = await predictWithFallback([unconfigured(send), local], input);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(response.provider).toEqual({
+      name: 'local',
+      fallbackFrom: 'gateway',
+      fallbackReason: 'LLM gateway API key is not configured',
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import {
+  DiseaseRisk,
+  predictYield,
+  PredictionResult,
+  YieldInput,
+  YieldModel,
+  YieldModelError,
+} from "../_shared/yield-model.ts";
+import {
+  chatCompletionSchema,
+  GatewayPrediction,
+  gatewayPredictionSchema,
+  predictionResultSchema,
+} from "./schema.ts";
+
+export type ProviderName = 'local' | 'heuristic' | 'gateway';
+
+export interface PredictionProvider {
+  name: ProviderName;
+  predict: (input: YieldInput) => Promise<PredictionResult>;
+}
+
+/** Raised by a provider that could not produce a prediction; the next provider is tried */
+export class ProviderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface PredictionResponse extends PredictionResult {
+  provider: {
+    name: ProviderName;
+    /** Provider that was configured but failed */
+    fallbackFrom?: ProviderName;
+    fallbackReason?: string;
+  };
+}
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// ---------------------------------------------------------------------------
+// Local statistical model
+// ---------------------------------------------------------------------------
+
+export const createLocalProvider = (model: YieldModel): PredictionProvider => ({
+  name: 'local',
+  predict: async (input) => predictYield(model, input),
+});
+
+// ---------------------------------------------------------------------------
+// Rule-based heuristic
+// ---------------------------------------------------------------------------
+
+/** Usual yields in Guadeloupe, t/ha */
+const HEURISTIC_RANGES: Record<string, [number, number]> = {
+  'Canne à Sucre': [60, 100],
+  'Banane': [25, 40],
+  'Ananas': [40, 60],
+  'Igname': [12, 25],
+  'Madère': [15, 30],
+  'Christophine': [20, 35],
+};
+
+interface Rule {
+  applies: (input: YieldInput) => boolean;
+  factor: number;
+  keyFactor: string;
+  recommendation?: string;
+  risk?: (input: YieldInput) => DiseaseRisk;
+}
+
+const HEURISTIC_RULES: Rule[] = [
+  {
+    applies: input => input.rainfall < 60,
+    factor: 0.75,
+    keyFactor: 'Pluviométrie inférieure à 60 mm/mois : déficit hydrique marqué',
+    recommendation: 'Irriguer pour couvrir le déficit hydrique',
+  },
+  {
+    applies: input => input.rainfall >= 60 && input.rainfall < 100,
+    factor: 0.9,
+    keyFactor: 'Pluviométrie de 60 à 100 mm/mois : léger déficit',
+    recommendation: 'Prévoir une irrigation d\'appoint en période sèche',
+  },
+  {
+    applies: input => input.rainfall > 300,
+    factor: 0.9,
+    keyFactor: 'Pluviométrie supérieure à 300 mm/mois : excès d\'eau',
+    recommendation: 'Entretenir les fossés et le drainage',
+  },
+  {
+    applies: input => input.temperature < 20 || input.temperature > 33,
+    factor: 0.85,
+    keyFactor: 'Température hors de la plage 20–33 °C',
+  },
+  {
+    applies: input => input.moisture < 30,
+    factor: 0.85,
+    keyFactor: 'Humidité du sol inférieure à 30 % : stress hydrique',
+    recommendation: 'Pailler pour limiter l\'évaporation',
+  },
+  {
+    applies: input => input.humidity >= 85 && input.rainfall >= 200,
+    factor: 0.85,
+    keyFactor: 'Air très humide et fortes pluies : pression fongique élevée',
+    recommendation: 'Renforcer la surveillance sanitaire et l\'effeuillage',
+    risk: input => ({
+      name: input.cropType === 'Banane' ? 'Cercosporiose noire' : 'Maladies fongiques foliaires',
+      riskLevel: 'High',
+      conditions: `Humidité ${input.humidity} %, pluie ${input.rainfall} mm/mois`,
+      yieldImpact: '-15 %',
+    }),
+  },
+  {
+    applies: input => input.moisture >= 80,
+    factor: 0.9,
+    keyFactor: 'Sol saturé (humidité ≥ 80 %)',
+    risk: input => ({
+      name: 'Pourritures racinaires et bactériennes',
+      riskLevel: 'Moderate',
+      conditions: `Humidité du sol ${input.moisture} %`,
+      yieldImpact: '-10 %',
+    }),
+  },
+  {
+    applies: input => input.temperature >= 32 && input.moisture < 35,
+    factor: 0.9,
+    keyFactor: 'Chaleur et sol sec : stress favorable aux ravageurs',
+    risk: input => ({
+      name: 'Stress thermique et ravageurs',
+      riskLevel: 'Moderate',
+      conditions: `${input.temperature} °C, humidité du sol ${input.moisture} %`,
+      yieldImpact: '-10 %',
+    }),
+  },
+];
+
+const heuristicGrade = (factor: number) =>
+  factor >= 0.95 ? 'Excellente' : factor >= 0.85 ? 'Bonne' : factor >= 0.7 ? 'Moyenne' : 'Faible';
+
+export const heuristicProvider: PredictionProvider = {
+  name: 'heuristic',
+  predict: async (input) => {
+    const range = HEURISTIC_RANGES[input.cropType];
+    if (!range) throw new ProviderError(`no heuristic range for ${input.cropType}`);
+
+    const matched = HEURISTIC_RULES.filter(rule => rule.applies(input));
+    const factor = matched.reduce((product, rule) => product * rule.factor, 1);
+    const [low, high] = range;
+    const yieldPerHectare = Math.max(low * 0.5, ((low + high) / 2) * factor);
+    const lower = yieldPerHectare * 0.75;
+    const upper = yieldPerHectare * 1.25;
+    const level = 0.8;
+
+    return {
+      yieldPerHectare: round(yieldPerHectare),
+      totalProduction: round(yieldPerHectare * input.area),
+      confidenceLevel: 40,
+      qualityGrade: heuristicGrade(factor),
+      diseaseRisks: matched.flatMap(rule => (rule.risk ? [rule.risk(input)] : [])),
+      keyFactors: matched.length > 0
+        ? matched.map(rule => rule.keyFactor)
+        : ['Conditions dans les plages favorables des règles agronomiques'],
+      recommendations: matched.flatMap(rule => (rule.recommendation ? [rule.recommendation] : [])),
+      analysis: `Milieu de la fourchette habituelle (${low}–${high} t/ha) corrigé par ${matched.length} règle(s) `
+        + 'agronomique(s). L\'intervalle de ±25 % est indicatif, il n\'est pas estimé sur des données.',
+      yieldInterval: { lower: round(lower), upper: round(upper), level },
+      totalProductionInterval: { lower: round(lower * input.area), upper: round(upper * input.area), level },
+      model: { method: 'rule-based', version: 1, trainedOn: null, samples: 0 },
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// LLM gateway (OpenAI-compatible chat completions)
+// ---------------------------------------------------------------------------
+
+export interface GatewayConfig {
+  url: string;
+  apiKey?: string;
+  model: string;
+  /** Time allowed for the gateway to answer before falling back, ms */
+  timeoutMs?: number;
+  /** Injected so the HTTP call can be stubbed */
+  fetch?: typeof fetch;
+}
+
+export const DEFAULT_GATEWAY_TIMEOUT_MS = 20_000;
+
+const GATEWAY_SYSTEM_PROMPT = `You are an agronomist predicting crop yields for tropical crops in Guadeloupe.
+Typical yields: Canne à Sucre 60-100 t/ha, Banane 25-40, Ananas 40-60, Igname 12-25, Madère 15-30, Christophine 20-35.
+Account for disease risks from humidity, rainfall, soil moisture and temperature, and include their impact in the yield.
+Answer with a single JSON object and nothing else, with these keys:
+yieldPerHectare (number, t/ha), yieldLower and yieldUpper (numbers, t/ha, 90% interval),
+confidenceLevel (0-100), qualityGrade ("Excellente" | "Bonne" | "Moyenne" | "Faible"),
+diseaseRisks (array of {name, riskLevel: "Low" | "Moderate" | "High" | "Critical", conditions, yieldImpact}),
+keyFactors (array of strings), recommendations (array of strings), analysis (string).
+Write the text fields in French.`;
+
+const gatewayUserPrompt = (input: YieldInput) => `Crop: ${input.cropType}
+Soil type: ${input.soilType}
+Air humidity: ${input.humidity}%
+Soil moisture: ${input.moisture}%
+Temperature: ${input.temperature}°C
+Rainfall: ${input.rainfall} mm/month
+Area: ${input.area} ha`;
+
+const fromGateway = (prediction: GatewayPrediction, input: YieldInput, model: string): PredictionResult => {
+  const lower = Math.min(prediction.yieldLower, prediction.yieldPerHectare);
+  const upper = Math.max(prediction.yieldUpper, prediction.yieldPerHectare);
+  const level = 0.9;
+  return {
+    yieldPerHectare: round(prediction.yieldPerHectare),
+    totalProduction: round(prediction.yieldPerHectare * input.area),
+    confidenceLevel: Math.round(prediction.confidenceLevel),
+    qualityGrade: prediction.qualityGrade,
+    diseaseRisks: prediction.diseaseRisks,
+    keyFactors: prediction.keyFactors,
+    recommendations: prediction.recommendations,
+    analysis: prediction.analysis,
+    yieldInterval: { lower: round(lower), upper: round(upper), level },
+    totalProductionInterval: { lower: round(lower * input.area), upper: round(upper * input.area), level },
+    model: { method: `llm-gateway:${model}`, version: 1, trainedOn: null, samples: 0 },
+  };
+};
+
+export const createGatewayProvider = (config: GatewayConfig): PredictionProvider => ({
+  name: 'gateway',
+  predict: async (input) => {
+    if (!config.apiKey) throw new ProviderError('LLM gateway API key is not configured');
+    const send = config.fetch ?? fetch;
+    const timeoutMs = config.timeoutMs ?? DEFAULT_GATEWAY_TIMEOUT_MS;
+    const signal = AbortSignal.timeout(timeoutMs);
+
+    // A gateway that never answers would hold the request; the timeout hands over to the fallback
+    const failed = (error: unknown): never => {
+      if (signal.aborted) throw new ProviderError(`LLM gateway did not answer within ${timeoutMs} ms`);
+      throw error;
+    };
+
+    const response = await send(config.url, {
+      method: 'POST',
+      signal,
+      headers: {
+        Authorization: `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          { role: 'system', content: GATEWAY_SYSTEM_PROMPT },
+          { role: 'user', content: gatewayUserPrompt(input) },
+        ],
+        response_format: { type: 'json_object' },
+        temperature: 0.2,
+      }),
+    }).catch(failed);
+    if (!response.ok) {
+      throw new ProviderError(`LLM gateway responded ${response.status}`);
+    }
+
+    const completion = chatCompletionSchema.safeParse(await response.json().catch(failed));
+    if (!completion.success) throw new ProviderError('LLM gateway returned an unexpected payload');
+
+    let content: unknown;
+    try {
+      content = JSON.parse(completion.data.choices[0].message.content);
+    } catch {
+      throw new ProviderError('LLM gateway answer is not JSON');
+    }
+    const prediction = gatewayPredictionSchema.safeParse(content);
+    if (!prediction.success) {
+      throw new ProviderError(`LLM gateway answer failed validation: ${prediction.error.issues[0]?.message}`);
+    }
+    return fromGateway(prediction.data, input, config.model);
+  },
+});
+
+// ---------------------------------------------------------------------------
+// Selection and fallback
+// ---------------------------------------------------------------------------
+
+export const DEFAULT_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1/chat/completions';
+export const DEFAULT_GATEWAY_MODEL = 'google/gemini-2.5-flash';
+
+/**
+ * Configured provider followed by the local model, from PREDICTION_PROVIDER and the gateway settings
+ */
+export const providersFromEnv = (
+  env: (name: string) => string | undefined,
+  model: YieldModel,
+): PredictionProvider[] => {
+  const local = createLocalProvider(model);
+  const selected = (env('PREDICTION_PROVIDER') ?? 'local').trim().toLowerCase();
+
+  switch (selected) {
+    case 'gateway':
+      return [
+        createGatewayProvider({
+          url: env('LLM_GATEWAY_URL') ?? DEFAULT_GATEWAY_URL,
+          apiKey: env('LLM_GATEWAY_API_KEY') ?? env('LOVABLE_API_KEY'),
+          model: env('LLM_GATEWAY_MODEL') ?? DEFAULT_GATEWAY_MODEL,
+          timeoutMs: Number(env('LLM_GATEWAY_TIMEOUT_MS')) || undefined,
+        }),
+        local,
+      ];
+    case 'heuristic':
+      return [heuristicProvider, local];
+    case 'local':
+      return [local];
+    default:
+      console.error(`Unknown PREDICTION_PROVIDER "${selected}", using the local model`);
+      return [local];
+  }
+};
+
+/**
+ * Run the providers in order until one returns a valid prediction.
+ * Unsupported crops (YieldModelError) are an input problem and are not retried.
+ */
+export const predictWithFallback = async (
+  providers: PredictionProvider[],
+  input: YieldInput,
+): Promise<PredictionResponse> => {
+  let failure: { name: ProviderName; reason: string } | undefined;
+
+  for (const provider of providers) {
+    try {
+      const result = predictionResultSchema.safeParse(await provider.predict(input));
+      if (!result.success) {
+        throw new ProviderError(`invalid prediction: ${result.error.issues[0]?.path.join('.')} ${result.error.issues[0]?.message}`);
+      }
+      return {
+        ...result.data,
+        provider: failure
+          ? { name: provider.name, fallbackFrom: failure.name, fallbackReason: failure.reason }
+          : { name: provider.name },
+      };
+    } catch (error) {
+      if (error instanceof YieldModelError) throw error;
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Prediction provider "${provider.name}" failed:`, reason);
+      failure ??= { name: provider.name, reason };
+    }
+  }
+  throw new Error(failure ? `No prediction provider succeeded (${failure.reason})` : 'No prediction provider configured');
+};
@@ -0,0 +1,57 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import type { PredictionResult } from "../_shared/yield-model.ts";
+
+const intervalSchema = z.object({
+  lower: z.number().nonnegative(),
+  upper: z.number().nonnegative(),
+  level: z.number().gt(0).lte(1),
+}).refine(interval => interval.lower <= interval.upper, 'lower must not exceed upper');
+
+const diseaseRiskSchema = z.object({
+  name: z.string().min(1),
+  riskLevel: z.enum(['Low', 'Moderate', 'High', 'Critical']),
+  conditions: z.string(),
+  yieldImpact: z.string(),
+});
+
+/** Every provider's output is checked against this before it reaches the client */
+export const predictionResultSchema: z.ZodType<PredictionResult> = z.object({
+  yieldPerHectare: z.number().nonnegative(),
+  totalProduction: z.number().nonnegative(),
+  confidenceLevel: z.number().min(0).max(100),
+  qualityGrade: z.enum(['Excellente', 'Bonne', 'Moyenne', 'Faible']),
+  diseaseRisks: z.array(diseaseRiskSchema),
+  keyFactors: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  analysis: z.string(),
+  yieldInterval: intervalSchema,
+  totalProductionInterval: intervalSchema,
+  model: z.object({
+    method: z.string(),
+    version: z.number(),
+    trainedOn: z.string().nullable(),
+    samples: z.number().int().nonnegative(),
+  }),
+});
+
+/** OpenAI-compatible chat completion, only the part we read */
+export const chatCompletionSchema = z.object({
+  choices: z.array(z.object({
+    message: z.object({ content: z.string() }),
+  })).min(1),
+});
+
+/** JSON the LLM is asked to produce; totals are recomputed from the area */
+export const gatewayPredictionSchema = z.object({
+  yieldPerHectare: z.number().nonnegative(),
+  yieldLower: z.number().nonnegative(),
+  yieldUpper: z.number().nonnegative(),
+  confidenceLevel: z.number().min(0).max(100),
+  qualityGrade: z.enum(['Excellente', 'Bonne', 'Moyenne', 'Faible']),
+  diseaseRisks: z.array(diseaseRiskSchema),
+  keyFactors: z.array(z.string()),
+  recommendations: z.array(z.string()),
+  analysis: z.string(),
+});
+
+export type GatewayPrediction = z.infer<typeof gatewayPredictionSchema>;
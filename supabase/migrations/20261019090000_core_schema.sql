@@ -0,0 +1,175 @@
+-- Core farm schema: parcels, crop cycles, tasks, inventory and finances.
+-- Column names follow Postgres snake_case; the app maps them to its camelCase
+-- domain types in src/services/farm-tables.ts.
+
+create type public.parcel_status as enum ('active', 'inactive', 'planned');
+create type public.crop_status as enum ('planned', 'growing', 'harvested');
+create type public.task_priority as enum ('high', 'medium', 'low');
+create type public.stock_movement_type as enum ('in', 'out');
+create type public.transaction_type as enum ('income', 'expense');
+
+create or replace function public.set_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at = now();
+  return new;
+end;
+$$;
+
+-- Parcels
+create table public.parcels (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  area numeric(10, 2) not null default 0 check (area >= 0),
+  crop text not null default '',
+  status public.parcel_status not null default 'planned',
+  last_activity date not null default current_date,
+  soil_type text not null default '',
+  latitude double precision,
+  longitude double precision,
+  irrigation text,
+  planting_date date,
+  harvest_date date,
+  owner text,
+  rainfall numeric(8, 1),
+  ph numeric(3, 1) check (ph between 0 and 14),
+  organic_matter numeric(4, 1),
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Crop cycles (one planting of a crop on a parcel)
+create table public.crop_cycles (
+  id bigint generated by default as identity primary key,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  parcel_name text not null default '',
+  name text not null,
+  variety text not null default '',
+  planting_date date not null,
+  harvest_date date,
+  status public.crop_status not null default 'planned',
+  area numeric(10, 2) not null default 0 check (area >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (harvest_date is null or harvest_date >= planting_date)
+);
+
+create index crop_cycles_parcel_id_idx on public.crop_cycles (parcel_id);
+
+-- Field tasks
+create table public.tasks (
+  id bigint generated by default as identity primary key,
+  crop_cycle_id bigint references public.crop_cycles (id) on delete cascade,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  title text not null,
+  due_date date not null,
+  completed boolean not null default false,
+  priority public.task_priority not null default 'medium',
+  notes text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index tasks_crop_cycle_id_idx on public.tasks (crop_cycle_id);
+create index tasks_due_date_idx on public.tasks (due_date);
+
+-- Inventory
+create table public.inventory_items (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  category text not null,
+  quantity numeric(12, 3) not null default 0 check (quantity >= 0),
+  unit text not null,
+  min_quantity numeric(12, 3) not null default 0,
+  price numeric(12, 2) not null default 0,
+  location text not null default '',
+  supplier text,
+  sku text,
+  expiry_date date,
+  notes text,
+  last_updated date not null default current_date,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.inventory_transactions (
+  id bigint generated by default as identity primary key,
+  item_id bigint not null references public.inventory_items (id) on delete cascade,
+  type public.stock_movement_type not null,
+  quantity numeric(12, 3) not null check (quantity > 0),
+  date date not null default current_date,
+  user_name text not null default '',
+  notes text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index inventory_transactions_item_id_idx on public.inventory_transactions (item_id);
+
+-- Finances
+create table public.financial_transactions (
+  id bigint generated by default as identity primary key,
+  date date not null,
+  description text not null,
+  amount numeric(12, 2) not null,
+  category text not null,
+  type public.transaction_type not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index financial_transactions_date_idx on public.financial_transactions (date);
+
+create table public.budgets (
+  id bigint generated by default as identity primary key,
+  category text not null,
+  planned numeric(12, 2) not null default 0,
+  actual numeric(12, 2) not null default 0,
+  color text not null default '#4CAF50',
+  year integer not null default extract(year from current_date)::integer,
+  period text not null default 'annual',
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (category, year, period)
+);
+
+-- updated_at triggers
+create trigger parcels_set_updated_at before update on public.parcels
+  for each row execute function public.set_updated_at();
+create trigger crop_cycles_set_updated_at before update on public.crop_cycles
+  for each row execute function public.set_updated_at();
+create trigger tasks_set_updated_at before update on public.tasks
+  for each row execute function public.set_updated_at();
+create trigger inventory_items_set_updated_at before update on public.inventory_items
+  for each row execute function public.set_updated_at();
+create trigger financial_transactions_set_updated_at before update on public.financial_transactions
+  for each row execute function public.set_updated_at();
+create trigger budgets_set_updated_at before update on public.budgets
+  for each row execute function public.set_updated_at();
+
+-- Row level security: the app has no sign-in yet, so the anon and
+-- authenticated roles get full access. Tighten once accounts exist.
+alter table public.parcels enable row level security;
+alter table public.crop_cycles enable row level security;
+alter table public.tasks enable row level security;
+alter table public.inventory_items enable row level security;
+alter table public.inventory_transactions enable row level security;
+alter table public.financial_transactions enable row level security;
+alter table public.budgets enable row level security;
+
+create policy "Farm data is readable and writable" on public.parcels
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.crop_cycles
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.tasks
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.inventory_items
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.inventory_transactions
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.financial_transactions
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.budgets
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,36 @@
+-- Per-record version stamps for offline sync.
+-- Every update bumps `version`; the client sends the version it last saw with each
+-- queued mutation and treats a mismatch as a conflict to resolve by hand.
+
+create or replace function public.bump_version()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.version = old.version + 1;
+  return new;
+end;
+$$;
+
+alter table public.parcels add column version integer not null default 1;
+alter table public.crop_cycles add column version integer not null default 1;
+alter table public.tasks add column version integer not null default 1;
+alter table public.inventory_items add column version integer not null default 1;
+alter table public.inventory_transactions add column version integer not null default 1;
+alter table public.financial_transactions add column version integer not null default 1;
+alter table public.budgets add column version integer not null default 1;
+
+create trigger parcels_bump_version before update on public.parcels
+  for each row execute function public.bump_version();
+create trigger crop_cycles_bump_version before update on public.crop_cycles
+  for each row execute function public.bump_version();
+create trigger tasks_bump_version before update on public.tasks
+  for each row execute function public.bump_version();
+create trigger inventory_items_bump_version before update on public.inventory_items
+  for each row execute function public.bump_version();
+create trigger inventory_transactions_bump_version before update on public.inventory_transactions
+  for each row execute function public.bump_version();
+create trigger financial_transactions_bump_version before update on public.financial_transactions
+  for each row execute function public.bump_version();
+create trigger budgets_bump_version before update on public.budgets
+  for each row execute function public.bump_version();
@@ -0,0 +1,7 @@
+-- Parcel boundaries as GeoJSON Polygon geometries (WGS84 lon/lat).
+-- latitude/longitude stay as the label point and are kept at the polygon centroid by the app.
+
+alter table public.parcels add column boundary jsonb;
+
+alter table public.parcels add constraint parcels_boundary_is_polygon
+  check (boundary is null or (boundary ->> 'type' = 'Polygon' and jsonb_typeof(boundary -> 'coordinates') = 'array'));
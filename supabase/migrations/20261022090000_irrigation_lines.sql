@@ -0,0 +1,28 @@
+-- Irrigation network as GeoJSON LineString geometries (WGS84 lon/lat), drawn as the
+-- map's irrigation layer. Lines may belong to a parcel or serve several (main pipes, canals).
+
+create type public.irrigation_line_kind as enum ('main', 'lateral', 'drip', 'canal');
+
+create table public.irrigation_lines (
+  id bigint generated by default as identity primary key,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  name text not null default '',
+  kind public.irrigation_line_kind not null default 'main',
+  path jsonb not null check (path ->> 'type' = 'LineString' and jsonb_typeof(path -> 'coordinates') = 'array'),
+  notes text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index irrigation_lines_parcel_id_idx on public.irrigation_lines (parcel_id);
+
+create trigger irrigation_lines_set_updated_at before update on public.irrigation_lines
+  for each row execute function public.set_updated_at();
+create trigger irrigation_lines_bump_version before update on public.irrigation_lines
+  for each row execute function public.bump_version();
+
+alter table public.irrigation_lines enable row level security;
+
+create policy "Farm data is readable and writable" on public.irrigation_lines
+  for all to anon, authenticated using (true) with check (true);
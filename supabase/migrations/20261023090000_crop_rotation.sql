@@ -0,0 +1,86 @@
+-- Crop reference sheets, per-parcel crop history and the rotation rules checked against it.
+-- A history entry is one crop cycle starting in a season; it lasts until the next entry of the
+-- same parcel, so multi-year crops (cane ratoons, bananas) need a single entry.
+
+create type public.culture_type as enum ('vegetables', 'fruits', 'tubers', 'cash');
+-- Guadeloupe seasons: carême (dry, January–June) and hivernage (wet, July–December)
+create type public.crop_season as enum ('careme', 'hivernage');
+create type public.rotation_rule_kind as enum ('consecutive_family', 'return_interval', 'forbidden_sequence');
+create type public.rotation_rule_severity as enum ('warning', 'error');
+
+create table public.cultures (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  scientific_name text not null default '',
+  family text not null default '',
+  origin text not null default '',
+  growing_season text not null default '',
+  soil_type text not null default '',
+  water_needs text not null default '',
+  fertilization text not null default '',
+  pests text not null default '',
+  diseases text not null default '',
+  notes text not null default '',
+  type public.culture_type not null default 'vegetables',
+  harvest_period text not null default '',
+  yield_per_hectare text not null default '',
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.crop_history (
+  id bigint generated by default as identity primary key,
+  parcel_id bigint not null references public.parcels (id) on delete cascade,
+  year integer not null check (year between 1900 and 2200),
+  season public.crop_season not null,
+  crop text not null,
+  yield numeric check (yield >= 0),
+  notes text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (parcel_id, year, season)
+);
+
+create index crop_history_parcel_id_idx on public.crop_history (parcel_id);
+
+-- `subject` and `follows` name a crop or a botanical family; an empty subject applies to all crops
+create table public.rotation_rules (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  kind public.rotation_rule_kind not null,
+  subject text,
+  follows text,
+  min_interval numeric check (min_interval >= 0),
+  severity public.rotation_rule_severity not null default 'warning',
+  message text,
+  enabled boolean not null default true,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create trigger cultures_set_updated_at before update on public.cultures
+  for each row execute function public.set_updated_at();
+create trigger cultures_bump_version before update on public.cultures
+  for each row execute function public.bump_version();
+create trigger crop_history_set_updated_at before update on public.crop_history
+  for each row execute function public.set_updated_at();
+create trigger crop_history_bump_version before update on public.crop_history
+  for each row execute function public.bump_version();
+create trigger rotation_rules_set_updated_at before update on public.rotation_rules
+  for each row execute function public.set_updated_at();
+create trigger rotation_rules_bump_version before update on public.rotation_rules
+  for each row execute function public.bump_version();
+
+alter table public.cultures enable row level security;
+alter table public.crop_history enable row level security;
+alter table public.rotation_rules enable row level security;
+
+create policy "Farm data is readable and writable" on public.cultures
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.crop_history
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.rotation_rules
+  for all to anon, authenticated using (true) with check (true);
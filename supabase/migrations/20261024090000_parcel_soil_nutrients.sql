@@ -0,0 +1,7 @@
+-- Soil analysis nutrients per parcel, alongside ph and organic_matter.
+-- Values are kg/ha as reported by the lab, the unit used by the crop recommendation model.
+
+alter table public.parcels
+  add column nitrogen numeric(6, 1) check (nitrogen >= 0),
+  add column phosphorus numeric(6, 1) check (phosphorus >= 0),
+  add column potassium numeric(6, 1) check (potassium >= 0);
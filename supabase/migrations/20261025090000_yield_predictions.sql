@@ -0,0 +1,69 @@
+-- Yield predictions kept with their inputs, and recorded harvests matched to them so the
+-- prediction providers can be scored against actual yields.
+
+create type public.prediction_provider as enum ('local', 'heuristic', 'gateway');
+create type public.harvest_quality as enum ('Excellent', 'Good', 'Average', 'Poor');
+
+create table public.yield_predictions (
+  id bigint generated by default as identity primary key,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  crop_cycle_id bigint references public.crop_cycles (id) on delete set null,
+  crop text not null,
+  provider public.prediction_provider not null,
+  -- Provider that was configured but failed, when the answer comes from the fallback
+  fallback_from public.prediction_provider,
+  method text not null default '',
+  model_version integer not null default 1,
+  -- Request body sent to predict-yield
+  inputs jsonb not null default '{}'::jsonb,
+  area numeric not null check (area > 0),
+  yield_per_hectare numeric not null check (yield_per_hectare >= 0),
+  yield_lower numeric not null check (yield_lower >= 0),
+  yield_upper numeric not null check (yield_upper >= yield_lower),
+  interval_level numeric not null check (interval_level > 0 and interval_level <= 1),
+  confidence_level integer not null check (confidence_level between 0 and 100),
+  predicted_at timestamptz not null default now(),
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index yield_predictions_crop_cycle_id_idx on public.yield_predictions (crop_cycle_id);
+create index yield_predictions_parcel_id_idx on public.yield_predictions (parcel_id);
+
+create table public.harvests (
+  id bigint generated by default as identity primary key,
+  crop_cycle_id bigint references public.crop_cycles (id) on delete set null,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  crop text not null,
+  harvest_date date not null,
+  area numeric not null check (area > 0),
+  -- Harvested tonnes; the actual yield is quantity / area
+  quantity numeric not null check (quantity >= 0),
+  quality public.harvest_quality not null default 'Average',
+  prediction_id bigint references public.yield_predictions (id) on delete set null,
+  notes text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index harvests_crop_cycle_id_idx on public.harvests (crop_cycle_id);
+create index harvests_prediction_id_idx on public.harvests (prediction_id);
+
+create trigger yield_predictions_set_updated_at before update on public.yield_predictions
+  for each row execute function public.set_updated_at();
+create trigger yield_predictions_bump_version before update on public.yield_predictions
+  for each row execute function public.bump_version();
+create trigger harvests_set_updated_at before update on public.harvests
+  for each row execute function public.set_updated_at();
+create trigger harvests_bump_version before update on public.harvests
+  for each row execute function public.bump_version();
+
+alter table public.yield_predictions enable row level security;
+alter table public.harvests enable row level security;
+
+create policy "Farm data is readable and writable" on public.yield_predictions
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.harvests
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,55 @@
+-- Monthly rainfall per region (previously held in the rainfall tracking page's state) and
+-- weather observations, so yield predictions can be filled in from recorded conditions.
+
+create type public.rainfall_impact as enum ('Positive', 'Neutral', 'Negative');
+
+create table public.rainfall_records (
+  id bigint generated by default as identity primary key,
+  year integer not null check (year between 1900 and 2100),
+  month integer not null check (month between 1 and 12),
+  -- mm over the month
+  amount numeric not null check (amount >= 0),
+  location text not null,
+  impact public.rainfall_impact not null default 'Neutral',
+  notes text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index rainfall_records_location_idx on public.rainfall_records (location, year, month);
+
+create table public.weather_observations (
+  id bigint generated by default as identity primary key,
+  region text not null,
+  observed_at timestamptz not null,
+  -- °C
+  temperature numeric not null,
+  -- Relative air humidity, %
+  humidity numeric not null check (humidity between 0 and 100),
+  -- mm since the previous observation
+  rainfall numeric check (rainfall >= 0),
+  source text not null default 'manual',
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index weather_observations_region_idx on public.weather_observations (region, observed_at);
+
+create trigger rainfall_records_set_updated_at before update on public.rainfall_records
+  for each row execute function public.set_updated_at();
+create trigger rainfall_records_bump_version before update on public.rainfall_records
+  for each row execute function public.bump_version();
+create trigger weather_observations_set_updated_at before update on public.weather_observations
+  for each row execute function public.set_updated_at();
+create trigger weather_observations_bump_version before update on public.weather_observations
+  for each row execute function public.bump_version();
+
+alter table public.rainfall_records enable row level security;
+alter table public.weather_observations enable row level security;
+
+create policy "Farm data is readable and writable" on public.rainfall_records
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.weather_observations
+  for all to anon, authenticated using (true) with check (true);
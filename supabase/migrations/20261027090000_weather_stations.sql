@@ -0,0 +1,70 @@
+-- Weather stations with their imported observations and daily aggregates. Rainfall charts
+-- are now derived from the aggregates, so the hand-typed monthly rainfall table goes away.
+
+create table public.weather_stations (
+  id bigint generated by default as identity primary key,
+  -- WMO index (IIiii) for synoptic stations, or the network's own identifier
+  code text not null unique,
+  name text not null,
+  latitude numeric not null,
+  longitude numeric not null,
+  elevation numeric,
+  region text not null,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Readings entered per region before stations existed keep their region and no station
+alter table public.weather_observations
+  add column station_id bigint references public.weather_stations (id) on delete cascade,
+  add column pressure numeric,
+  add column wind_speed numeric check (wind_speed >= 0),
+  alter column region drop not null,
+  alter column temperature drop not null,
+  alter column humidity drop not null;
+
+comment on column public.weather_observations.pressure is 'Sea-level pressure, hPa';
+comment on column public.weather_observations.wind_speed is 'm/s';
+
+-- An import never stores the same reading twice
+create unique index weather_observations_station_time_idx
+  on public.weather_observations (station_id, observed_at);
+
+-- Days run from local midnight (UTC−4) and are recomputed after every import
+create table public.weather_daily (
+  id bigint generated by default as identity primary key,
+  station_id bigint not null references public.weather_stations (id) on delete cascade,
+  date date not null,
+  t_mean numeric,
+  t_min numeric,
+  t_max numeric,
+  humidity numeric check (humidity between 0 and 100),
+  -- mm over the day
+  rain numeric not null default 0 check (rain >= 0),
+  observations integer not null check (observations > 0),
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (station_id, date)
+);
+
+create trigger weather_stations_set_updated_at before update on public.weather_stations
+  for each row execute function public.set_updated_at();
+create trigger weather_stations_bump_version before update on public.weather_stations
+  for each row execute function public.bump_version();
+create trigger weather_daily_set_updated_at before update on public.weather_daily
+  for each row execute function public.set_updated_at();
+create trigger weather_daily_bump_version before update on public.weather_daily
+  for each row execute function public.bump_version();
+
+alter table public.weather_stations enable row level security;
+alter table public.weather_daily enable row level security;
+
+create policy "Farm data is readable and writable" on public.weather_stations
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.weather_daily
+  for all to anon, authenticated using (true) with check (true);
+
+drop table public.rainfall_records;
+drop type public.rainfall_impact;
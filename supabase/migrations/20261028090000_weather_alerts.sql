@@ -0,0 +1,78 @@
+-- Weather alerts raised by rules evaluated against the stations' daily aggregates,
+-- instead of being typed in by hand.
+
+create type public.weather_alert_type as enum ('Heavy Rain', 'Tropical Storm', 'Drought', 'Excessive Heat', 'Flood');
+create type public.alert_severity as enum ('Low', 'Medium', 'High', 'Extreme');
+create type public.crop_impact as enum ('Light', 'Moderate', 'Severe');
+create type public.weather_alert_status as enum ('Active', 'Completed', 'Scheduled', 'Expired');
+create type public.weather_metric as enum ('rain', 't_max', 't_min', 't_mean', 'humidity', 'wind_max');
+create type public.weather_aggregation as enum ('sum', 'mean', 'max', 'min');
+create type public.rule_comparison as enum ('above', 'below');
+
+-- Strongest wind reading of the day, m/s
+alter table public.weather_daily add column wind_max numeric check (wind_max >= 0);
+
+create table public.weather_alert_rules (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  type public.weather_alert_type not null,
+  -- null: evaluated in every region that has a station
+  region text,
+  metric public.weather_metric not null,
+  aggregation public.weather_aggregation not null,
+  window_days integer not null check (window_days between 1 and 90),
+  comparison public.rule_comparison not null,
+  threshold numeric not null,
+  severity public.alert_severity not null,
+  impact_crops public.crop_impact not null,
+  recommendation text not null,
+  -- An active alert expires when no new data confirms it for this long after its last day
+  expiry_hours integer not null default 48 check (expiry_hours > 0),
+  enabled boolean not null default true,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.weather_alerts (
+  id bigint generated by default as identity primary key,
+  rule_id bigint references public.weather_alert_rules (id) on delete set null,
+  -- Station whose readings gave the worst value
+  station_id bigint references public.weather_stations (id) on delete set null,
+  type public.weather_alert_type not null,
+  region text not null,
+  severity public.alert_severity not null,
+  impact_crops public.crop_impact not null,
+  -- First and last local day the rule's condition held
+  start_date date not null,
+  end_date date not null check (end_date >= start_date),
+  -- Worst value of the rule's metric over the episode
+  value numeric not null,
+  description text not null,
+  recommendation text not null,
+  status public.weather_alert_status not null default 'Active',
+  expires_at timestamptz,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (rule_id, region, start_date)
+);
+
+create index weather_alerts_status_idx on public.weather_alerts (status);
+
+create trigger weather_alert_rules_set_updated_at before update on public.weather_alert_rules
+  for each row execute function public.set_updated_at();
+create trigger weather_alert_rules_bump_version before update on public.weather_alert_rules
+  for each row execute function public.bump_version();
+create trigger weather_alerts_set_updated_at before update on public.weather_alerts
+  for each row execute function public.set_updated_at();
+create trigger weather_alerts_bump_version before update on public.weather_alerts
+  for each row execute function public.bump_version();
+
+alter table public.weather_alert_rules enable row level security;
+alter table public.weather_alerts enable row level security;
+
+create policy "Farm data is readable and writable" on public.weather_alert_rules
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.weather_alerts
+  for all to anon, authenticated using (true) with check (true);
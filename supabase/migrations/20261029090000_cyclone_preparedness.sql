@@ -0,0 +1,74 @@
+-- Cyclone preparedness: checklist items turned into tasks for every parcel and stock
+-- item when a tropical storm alert is raised, and post-event damage assessments whose
+-- losses are booked as expenses.
+
+create type public.checklist_scope as enum ('parcel', 'asset');
+create type public.damage_category as enum ('crop', 'equipment', 'stock', 'infrastructure');
+
+create table public.preparedness_items (
+  id bigint generated by default as identity primary key,
+  scope public.checklist_scope not null,
+  title text not null,
+  -- Parcel items: crop grown on the parcel; asset items: inventory category.
+  -- null: applies to every parcel or item
+  applies_to text,
+  priority public.task_priority not null default 'high',
+  position integer not null default 0,
+  enabled boolean not null default true,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.tasks
+  add column weather_alert_id bigint references public.weather_alerts (id) on delete set null,
+  add column preparedness_item_id bigint references public.preparedness_items (id) on delete set null,
+  add column inventory_item_id bigint references public.inventory_items (id) on delete set null;
+
+create index tasks_weather_alert_id_idx on public.tasks (weather_alert_id);
+
+-- Checklist entries deleted by the user ("item:parcel:stock item"), so running the
+-- alerts again does not bring them back
+alter table public.weather_alerts
+  add column dismissed_checklist text[] not null default '{}';
+
+create table public.damage_assessments (
+  id bigint generated by default as identity primary key,
+  weather_alert_id bigint references public.weather_alerts (id) on delete set null,
+  assessed_on date not null,
+  category public.damage_category not null,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  crop_cycle_id bigint references public.crop_cycles (id) on delete set null,
+  inventory_item_id bigint references public.inventory_items (id) on delete set null,
+  description text not null,
+  -- ha
+  damaged_area numeric check (damaged_area >= 0),
+  loss_percent numeric check (loss_percent between 0 and 100),
+  -- €, booked as an expense in financial_transactions
+  estimated_loss numeric not null check (estimated_loss >= 0),
+  insured boolean not null default false,
+  financial_transaction_id bigint references public.financial_transactions (id) on delete set null,
+  notes text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index damage_assessments_weather_alert_id_idx on public.damage_assessments (weather_alert_id);
+
+create trigger preparedness_items_set_updated_at before update on public.preparedness_items
+  for each row execute function public.set_updated_at();
+create trigger preparedness_items_bump_version before update on public.preparedness_items
+  for each row execute function public.bump_version();
+create trigger damage_assessments_set_updated_at before update on public.damage_assessments
+  for each row execute function public.set_updated_at();
+create trigger damage_assessments_bump_version before update on public.damage_assessments
+  for each row execute function public.bump_version();
+
+alter table public.preparedness_items enable row level security;
+alter table public.damage_assessments enable row level security;
+
+create policy "Farm data is readable and writable" on public.preparedness_items
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.damage_assessments
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,26 @@
+-- Irrigation actually applied to the parcels, logged against the schedule of the soil
+-- water balance and summed into the water-use indicator.
+
+create table public.irrigation_events (
+  id bigint generated by default as identity primary key,
+  parcel_id bigint not null references public.parcels (id) on delete cascade,
+  irrigated_on date not null,
+  -- m³ applied at the parcel's inlet, before the losses of the system
+  volume numeric not null check (volume > 0),
+  notes text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index irrigation_events_parcel_id_idx on public.irrigation_events (parcel_id, irrigated_on);
+
+create trigger irrigation_events_set_updated_at before update on public.irrigation_events
+  for each row execute function public.set_updated_at();
+create trigger irrigation_events_bump_version before update on public.irrigation_events
+  for each row execute function public.bump_version();
+
+alter table public.irrigation_events enable row level security;
+
+create policy "Farm data is readable and writable" on public.irrigation_events
+  for all to anon, authenticated using (true) with check (true);
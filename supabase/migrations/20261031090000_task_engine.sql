@@ -0,0 +1,85 @@
+-- Shared task engine: every task view works on public.tasks. Recurring tasks are
+-- generated from an RRULE-style rule, and crop task templates generate the tasks of a
+-- crop cycle relative to its planting date.
+
+create table public.task_recurrences (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  crop_cycle_id bigint references public.crop_cycles (id) on delete cascade,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  assignee text,
+  priority public.task_priority not null default 'medium',
+  notes text,
+  -- Subset of RFC 5545 RRULE, e.g. FREQ=DAILY;INTERVAL=14 or FREQ=MONTHLY;BYMONTHDAY=5
+  rule text not null,
+  starts_on date not null,
+  ends_on date,
+  enabled boolean not null default true,
+  -- Occurrences deleted by the user, so generating again does not bring them back
+  skipped_dates date[] not null default '{}',
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.task_templates (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  -- Crop the template is offered for, matched like the crop names of the cycles
+  crop text not null,
+  description text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.task_template_items (
+  id bigint generated by default as identity primary key,
+  template_id bigint not null references public.task_templates (id) on delete cascade,
+  title text not null,
+  -- Days after the planting date of the cycle the template is applied to
+  offset_days integer not null default 0,
+  priority public.task_priority not null default 'medium',
+  -- Repeats the task from its first date until the harvest, e.g. FREQ=DAILY;INTERVAL=14;COUNT=8
+  rule text,
+  notes text,
+  position integer not null default 0,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index task_template_items_template_id_idx on public.task_template_items (template_id);
+
+alter table public.tasks
+  add column assignee text,
+  add column recurrence_id bigint references public.task_recurrences (id) on delete set null,
+  add column template_item_id bigint references public.task_template_items (id) on delete set null,
+  -- Day the recurrence scheduled the task on; it stays when the task is moved
+  add column occurrence_date date;
+
+create index tasks_recurrence_id_idx on public.tasks (recurrence_id);
+
+create trigger task_recurrences_set_updated_at before update on public.task_recurrences
+  for each row execute function public.set_updated_at();
+create trigger task_recurrences_bump_version before update on public.task_recurrences
+  for each row execute function public.bump_version();
+create trigger task_templates_set_updated_at before update on public.task_templates
+  for each row execute function public.set_updated_at();
+create trigger task_templates_bump_version before update on public.task_templates
+  for each row execute function public.bump_version();
+create trigger task_template_items_set_updated_at before update on public.task_template_items
+  for each row execute function public.set_updated_at();
+create trigger task_template_items_bump_version before update on public.task_template_items
+  for each row execute function public.bump_version();
+
+alter table public.task_recurrences enable row level security;
+alter table public.task_templates enable row level security;
+alter table public.task_template_items enable row level security;
+
+create policy "Farm data is readable and writable" on public.task_recurrences
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.task_templates
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.task_template_items
+  for all to anon, authenticated using (true) with check (true);
@@ -0,0 +1,78 @@
+-- Workforce: workers grouped in teams, tasks assigned to them, and the hours they clock
+-- against tasks and parcels. Each closed time entry books its labor cost as an expense
+-- in financial_transactions.
+
+create table public.teams (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  description text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.workers (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  role text not null,
+  -- €/h, copied onto each time entry so later raises leave booked costs unchanged
+  hourly_rate numeric not null check (hourly_rate >= 0),
+  skills text[] not null default '{}',
+  team_id bigint references public.teams (id) on delete set null,
+  phone text,
+  active boolean not null default true,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table public.time_entries (
+  id bigint generated by default as identity primary key,
+  worker_id bigint not null references public.workers (id) on delete cascade,
+  task_id bigint references public.tasks (id) on delete set null,
+  parcel_id bigint references public.parcels (id) on delete set null,
+  work_date date not null,
+  -- Set while the worker is clocked in; hours stay empty until clocking out
+  started_at timestamptz,
+  hours numeric check (hours > 0 and hours <= 24),
+  hourly_rate numeric not null check (hourly_rate >= 0),
+  notes text,
+  financial_transaction_id bigint references public.financial_transactions (id) on delete set null,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index workers_team_id_idx on public.workers (team_id);
+create index time_entries_worker_id_idx on public.time_entries (worker_id, work_date);
+create index time_entries_task_id_idx on public.time_entries (task_id);
+
+alter table public.tasks
+  add column worker_id bigint references public.workers (id) on delete set null;
+
+alter table public.task_recurrences
+  add column worker_id bigint references public.workers (id) on delete set null;
+
+create trigger teams_set_updated_at before update on public.teams
+  for each row execute function public.set_updated_at();
+create trigger teams_bump_version before update on public.teams
+  for each row execute function public.bump_version();
+create trigger workers_set_updated_at before update on public.workers
+  for each row execute function public.set_updated_at();
+create trigger workers_bump_version before update on public.workers
+  for each row execute function public.bump_version();
+create trigger time_entries_set_updated_at before update on public.time_entries
+  for each row execute function public.set_updated_at();
+create trigger time_entries_bump_version before update on public.time_entries
+  for each row execute function public.bump_version();
+
+alter table public.teams enable row level security;
+alter table public.workers enable row level security;
+alter table public.time_entries enable row level security;
+
+create policy "Farm data is readable and writable" on public.teams
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.workers
+  for all to anon, authenticated using (true) with check (true);
+create policy "Farm data is readable and writable" on public.time_entries
+  for all to anon, authenticated using (true) with check (true);
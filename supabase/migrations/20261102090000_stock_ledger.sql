@@ -0,0 +1,58 @@
+-- Append-only stock ledger.
+-- `inventory_transactions` becomes the ledger of stock movements: receipts, issues,
+-- adjustments (signed, e.g. after a count) and transfers between locations. A posted
+-- movement is never edited or deleted; a mistake is cancelled by a reversing movement.
+-- `inventory_items.quantity` is the balance of the ledger, kept by the app.
+
+alter type public.stock_movement_type rename value 'in' to 'receipt';
+alter type public.stock_movement_type rename value 'out' to 'issue';
+alter type public.stock_movement_type add value 'adjustment';
+alter type public.stock_movement_type add value 'transfer';
+
+create type public.valuation_method as enum ('fifo', 'weighted_average');
+
+alter table public.inventory_items
+  add column valuation_method public.valuation_method not null default 'weighted_average';
+
+-- New enum values cannot be used as constants in the transaction that adds them,
+-- hence the comparisons on `type::text`
+alter table public.inventory_transactions
+  drop constraint inventory_transactions_quantity_check,
+  drop constraint inventory_transactions_item_id_fkey,
+  add column unit_cost numeric(12, 4) check (unit_cost >= 0),
+  add column location text not null default '',
+  add column to_location text,
+  add column reversal_of bigint unique references public.inventory_transactions (id) on delete restrict,
+  add constraint inventory_transactions_item_id_fkey
+    foreign key (item_id) references public.inventory_items (id) on delete restrict,
+  add constraint inventory_transactions_quantity_check
+    check (quantity > 0 or (type::text = 'adjustment' and quantity <> 0)),
+  add constraint inventory_transactions_transfer_check
+    check ((type::text = 'transfer') = (to_location is not null and to_location <> location));
+
+update public.inventory_transactions movement
+  set location = item.location
+  from public.inventory_items item
+  where item.id = movement.item_id;
+
+create index inventory_transactions_date_idx on public.inventory_transactions (item_id, date);
+
+create or replace function public.forbid_ledger_rewrite()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'DELETE' then
+    raise exception 'Stock movement % cannot be deleted, post a reversal instead', old.id;
+  end if;
+  if (new.item_id, new.type, new.quantity, new.date, new.unit_cost, new.location, new.to_location, new.reversal_of)
+    is distinct from
+    (old.item_id, old.type, old.quantity, old.date, old.unit_cost, old.location, old.to_location, old.reversal_of) then
+    raise exception 'Stock movement % cannot be changed, post a reversal instead', old.id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger inventory_transactions_append_only before update or delete on public.inventory_transactions
+  for each row execute function public.forbid_ledger_rewrite();
@@ -0,0 +1,17 @@
+-- Input usage.
+-- A stock issue names the parcel, crop cycle or task the input was applied to, and the
+-- area it covered, which gives the application rate (kg/ha, L/ha). The cost of the
+-- issues is charged to those crop cycles and parcels for their cost of production.
+-- Clearing a target when it is deleted is not a rewrite of the movement, so these
+-- columns stay outside the append-only check. For the same reason, and because issues
+-- posted earlier have no target, the target is required when an issue is posted rather
+-- than by a constraint.
+
+alter table public.inventory_transactions
+  add column parcel_id bigint references public.parcels (id) on delete set null,
+  add column crop_cycle_id bigint references public.crop_cycles (id) on delete set null,
+  add column task_id bigint references public.tasks (id) on delete set null,
+  add column treated_area numeric(10, 2) check (treated_area > 0);
+
+create index inventory_transactions_parcel_id_idx on public.inventory_transactions (parcel_id);
+create index inventory_transactions_crop_cycle_id_idx on public.inventory_transactions (crop_cycle_id);
@@ -0,0 +1,120 @@
+-- Phytosanitary register. French and EU rules require every pesticide application to be
+-- recorded with the product and its AMM (marketing authorisation) number, the dose, the
+-- parcel, the operator and the weather at the time. A parcel may not be harvested within
+-- the pre-harvest interval (DAR, délai avant récolte) of a treatment. Entries are never
+-- deleted: a treatment recorded by mistake is cancelled, keeping who did it and when.
+
+alter table public.inventory_items
+  add column amm_number text,
+  -- Label maximum per hectare, in the item's unit
+  add column max_dose numeric check (max_dose > 0),
+  add column pre_harvest_interval integer check (pre_harvest_interval >= 0);
+
+alter table public.tasks
+  add column harvest boolean not null default false;
+
+update public.tasks set harvest = true where title ~* '(r[ée]colte|harvest)';
+
+-- Recurrences and crop templates mark the harvests they generate
+alter table public.task_recurrences
+  add column harvest boolean not null default false;
+alter table public.task_template_items
+  add column harvest boolean not null default false;
+
+update public.task_recurrences set harvest = true where title ~* '(r[ée]colte|harvest)';
+update public.task_template_items set harvest = true where title ~* '(r[ée]colte|harvest)';
+
+create table public.phytosanitary_treatments (
+  id bigint generated by default as identity primary key,
+  applied_at timestamptz not null,
+  -- The product fields are copied from the stock item, so the register keeps the label
+  -- data in force on the day of the application
+  item_id bigint references public.inventory_items (id) on delete restrict,
+  product_name text not null,
+  amm_number text not null,
+  target text,
+  parcel_id bigint not null references public.parcels (id) on delete restrict,
+  crop_cycle_id bigint references public.crop_cycles (id) on delete set null,
+  task_id bigint references public.tasks (id) on delete set null,
+  treated_area numeric(10, 2) not null check (treated_area > 0),
+  -- Per hectare, in dose_unit
+  dose numeric not null check (dose > 0),
+  dose_unit text not null,
+  max_dose numeric check (max_dose > 0),
+  pre_harvest_interval integer not null default 0 check (pre_harvest_interval >= 0),
+  worker_id bigint references public.workers (id) on delete set null,
+  operator text not null,
+  -- °C, m/s and % at the time of application
+  temperature numeric,
+  wind_speed numeric check (wind_speed >= 0),
+  humidity numeric check (humidity between 0 and 100),
+  weather text,
+  movement_id bigint unique references public.inventory_transactions (id) on delete restrict,
+  notes text,
+  cancelled_at timestamptz,
+  cancelled_by text,
+  version integer not null default 1,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint phytosanitary_treatments_cancellation check ((cancelled_at is null) = (cancelled_by is null))
+);
+
+create index phytosanitary_treatments_parcel_id_idx on public.phytosanitary_treatments (parcel_id, applied_at);
+create index phytosanitary_treatments_crop_cycle_id_idx on public.phytosanitary_treatments (crop_cycle_id);
+
+-- Refuse a harvest task dated within the pre-harvest interval of a treatment of its
+-- parcel or crop cycle; cancelled treatments do not count. Days are counted in Guadeloupe time.
+create or replace function public.forbid_harvest_within_pre_harvest_interval()
+returns trigger
+language plpgsql
+as $$
+declare
+  blocking record;
+begin
+  if not new.harvest then
+    return new;
+  end if;
+  if tg_op = 'UPDATE' and old.harvest
+    and (new.due_date, new.parcel_id, new.crop_cycle_id) is not distinct from (old.due_date, old.parcel_id, old.crop_cycle_id)
+    and (old.completed or not new.completed) then
+    return new;
+  end if;
+
+  select
+    treatment.product_name,
+    (treatment.applied_at at time zone 'America/Guadeloupe')::date + treatment.pre_harvest_interval as allowed_from
+  into blocking
+  from public.phytosanitary_treatments treatment
+  where (treatment.parcel_id = coalesce(new.parcel_id, (select parcel_id from public.crop_cycles where id = new.crop_cycle_id))
+      or treatment.crop_cycle_id = new.crop_cycle_id)
+    and treatment.cancelled_at is null
+    and (treatment.applied_at at time zone 'America/Guadeloupe')::date <= new.due_date
+    and (treatment.applied_at at time zone 'America/Guadeloupe')::date + treatment.pre_harvest_interval > new.due_date
+  order by allowed_from desc
+  limit 1;
+
+  if found then
+    raise exception 'Harvest not allowed before % (pre-harvest interval of %)', blocking.allowed_from, blocking.product_name
+      using errcode = 'check_violation';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger tasks_pre_harvest_interval before insert or update on public.tasks
+  for each row execute function public.forbid_harvest_within_pre_harvest_interval();
+
+create trigger phytosanitary_treatments_set_updated_at before update on public.phytosanitary_treatments
+  for each row execute function public.set_updated_at();
+create trigger phytosanitary_treatments_bump_version before update on public.phytosanitary_treatments
+  for each row execute function public.bump_version();
+
+alter table public.phytosanitary_treatments enable row level security;
+
+-- No delete policy: the register keeps every entry
+create policy "Treatments are readable" on public.phytosanitary_treatments
+  for select to anon, authenticated using (true);
+create policy "Treatments can be recorded" on public.phytosanitary_treatments
+  for insert to anon, authenticated with check (true);
+create policy "Treatments can be cancelled" on public.phytosanitary_treatments
+  for update to anon, authenticated using (true) with check (true);
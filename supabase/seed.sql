@@ -0,0 +1,348 @@
+-- Demo data for local development (`supabase db reset` loads it after the migrations).
+
+insert into public.parcels
+  (id, name, area, crop, status, last_activity, soil_type, latitude, longitude, irrigation, planting_date, harvest_date, rainfall)
+values
+  (1, 'Grande-Terre Nord', 12.5, 'Canne à Sucre', 'active', '2023-08-15', 'Argilo-calcaire', 16.3772, -61.4483, 'Goutte à goutte', '2023-02-15', '2024-02-15', 1200),
+  (2, 'Basse-Terre Sud', 8.3, 'Banane', 'active', '2023-08-10', 'Volcanique', 16.0220, -61.7425, 'Aspersion', '2023-04-10', '2023-12-10', 2500),
+  (3, 'Capesterre', 15.7, 'Ananas', 'active', '2023-08-05', 'Volcanique', 16.0504, -61.5643, 'Goutte à goutte', '2023-05-20', '2024-01-20', 2300),
+  (4, 'Marie-Galante', 10.2, 'Madère', 'inactive', '2023-07-20', 'Sableux', 15.9412, -61.2983, 'Manuel', '2023-03-15', '2023-11-01', 1100),
+  (5, 'Nord Grande-Terre', 6.8, 'Igname', 'planned', '2023-08-01', 'Limono-argileux', 16.3943, -61.4789, 'Aucune', '2023-09-15', '2024-03-15', 1400);
+
+-- Approximate field boundaries around each parcel's label point
+update public.parcels p set boundary = b.geometry::jsonb
+from (values
+  (1, '{"type":"Polygon","coordinates":[[[-61.450327,16.375895],[-61.446273,16.375895],[-61.446273,16.378505],[-61.450327,16.378505],[-61.450327,16.375895]]]}'),
+  (2, '{"type":"Polygon","coordinates":[[[-61.744149,16.020936],[-61.740851,16.020936],[-61.740851,16.023064],[-61.744149,16.023064],[-61.744149,16.020936]]]}'),
+  (3, '{"type":"Polygon","coordinates":[[[-61.566568,16.048937],[-61.562032,16.048937],[-61.562032,16.051863],[-61.566568,16.051863],[-61.566568,16.048937]]]}'),
+  (4, '{"type":"Polygon","coordinates":[[[-61.300127,15.940021],[-61.296473,15.940021],[-61.296473,15.942379],[-61.300127,15.942379],[-61.300127,15.940021]]]}'),
+  (5, '{"type":"Polygon","coordinates":[[[-61.480395,16.393337],[-61.477405,16.393337],[-61.477405,16.395263],[-61.480395,16.395263],[-61.480395,16.393337]]]}')
+) as b(id, geometry)
+where p.id = b.id;
+
+-- Latest soil analyses (N, P, K in kg/ha)
+update public.parcels p
+set ph = a.ph, organic_matter = a.organic_matter, nitrogen = a.nitrogen, phosphorus = a.phosphorus, potassium = a.potassium
+from (values
+  (1, 7.8, 2.1, 60, 35, 40),
+  (2, 5.6, 6.4, 95, 60, 180),
+  (3, 5.0, 5.8, 70, 40, 150),
+  (4, 7.4, 1.6, 25, 30, 35),
+  (5, 6.6, 3.2, 45, 50, 55)
+) as a(id, ph, organic_matter, nitrogen, phosphorus, potassium)
+where p.id = a.id;
+
+insert into public.irrigation_lines (id, parcel_id, name, kind, path)
+values
+  (1, 1, 'Conduite principale Nord', 'main', '{"type":"LineString","coordinates":[[-61.4520,16.3759],[-61.4500,16.3760],[-61.4500,16.3784]]}'),
+  (2, 1, 'Rampe 1', 'drip', '{"type":"LineString","coordinates":[[-61.4500,16.3765],[-61.4466,16.3765]]}'),
+  (3, 1, 'Rampe 2', 'drip', '{"type":"LineString","coordinates":[[-61.4500,16.3772],[-61.4466,16.3772]]}'),
+  (4, 1, 'Rampe 3', 'drip', '{"type":"LineString","coordinates":[[-61.4500,16.3779],[-61.4466,16.3779]]}'),
+  (5, 2, 'Canal de la rivière', 'canal', '{"type":"LineString","coordinates":[[-61.7475,16.0235],[-61.7455,16.0222],[-61.7440,16.0210]]}'),
+  (6, 2, 'Ligne d''asperseurs A', 'lateral', '{"type":"LineString","coordinates":[[-61.7440,16.0215],[-61.7410,16.0215]]}'),
+  (7, 2, 'Ligne d''asperseurs B', 'lateral', '{"type":"LineString","coordinates":[[-61.7440,16.0225],[-61.7410,16.0225]]}'),
+  (8, 3, 'Conduite principale Capesterre', 'main', '{"type":"LineString","coordinates":[[-61.5664,16.0491],[-61.5664,16.0517]]}'),
+  (9, 3, 'Rampe Capesterre 1', 'drip', '{"type":"LineString","coordinates":[[-61.5664,16.0497],[-61.5622,16.0497]]}'),
+  (10, 3, 'Rampe Capesterre 2', 'drip', '{"type":"LineString","coordinates":[[-61.5664,16.0505],[-61.5622,16.0505]]}'),
+  (11, 3, 'Rampe Capesterre 3', 'drip', '{"type":"LineString","coordinates":[[-61.5664,16.0513],[-61.5622,16.0513]]}');
+
+insert into public.irrigation_events (id, parcel_id, irrigated_on, volume, notes)
+values
+  (1, 1, '2022-05-10', 1400, null),
+  (2, 2, '2022-06-01', 800, null),
+  (3, 3, '2022-05-20', 1900, null),
+  (4, 1, '2022-06-08', 1400, null),
+  (5, 1, '2023-02-10', 1500, 'Carême'),
+  (6, 1, '2023-03-01', 1500, null),
+  (7, 3, '2023-03-10', 1800, null),
+  (8, 1, '2023-04-12', 1200, null),
+  (9, 1, '2023-05-03', 1250, null),
+  (10, 2, '2023-05-15', 700, 'Après plantation'),
+  (11, 3, '2024-01-25', 1600, 'Carême'),
+  (12, 1, '2024-02-14', 1300, null),
+  (13, 1, '2024-03-06', 1300, null),
+  (14, 3, '2024-03-20', 1700, null);
+
+insert into public.crop_cycles
+  (id, parcel_id, parcel_name, name, variety, planting_date, harvest_date, status, area)
+values
+  (1, 1, 'North Grande-Terre', 'Sugar Cane', 'R579', '2023-02-15', '2024-02-15', 'growing', 15.5),
+  (2, 2, 'South Basse-Terre', 'Banana', 'Poyo', '2023-04-10', '2023-12-10', 'growing', 8.3),
+  (3, 3, 'windward coast', 'Pineapple', 'Bouteille', '2023-05-20', '2024-01-20', 'growing', 4.7),
+  (4, 5, 'North Grande-Terre', 'Yam', 'Pacala', '2023-09-15', '2024-03-15', 'planned', 5.2),
+  (5, 4, 'Marie-Galante', 'Madeira', 'Blanche', '2023-04-01', '2023-11-01', 'growing', 3.8);
+
+insert into public.teams (id, name, description)
+values
+  (1, 'Équipe banane', 'Parcelles de Basse-Terre'),
+  (2, 'Équipe canne', 'Grande-Terre et Marie-Galante');
+
+insert into public.workers (id, name, role, hourly_rate, skills, team_id, phone, active)
+values
+  (1, 'Jean Dupont', 'Chef d''équipe', 16.5, '{Tractoriste,Fertilisation,Coupe}', 2, '0690 12 34 56', true),
+  (2, 'Marie Lambert', 'Technicienne', 15, '{Traitements phytosanitaires,Irrigation}', 1, '0690 23 45 67', true),
+  (3, 'Pierre Lafortune', 'Ouvrier agricole', 12.5, '{Irrigation,Récolte}', 1, null, true),
+  (4, 'Sophie Martin', 'Ouvrière agricole', 12.5, '{Désherbage,Plantation}', 2, null, true);
+
+insert into public.task_recurrences
+  (id, title, crop_cycle_id, parcel_id, assignee, worker_id, priority, notes, rule, starts_on, enabled)
+values
+  (1, 'Contrôle des goutteurs', null, 1, 'Pierre Lafortune', 3, 'low', 'Nettoyer les filtres et repérer les goutteurs bouchés', 'FREQ=DAILY;INTERVAL=14', '2023-09-04', true),
+  (2, 'Relevé du pluviomètre et des tensiomètres', null, 2, 'Marie Lambert', 2, 'medium', null, 'FREQ=WEEKLY;BYDAY=MO', '2023-09-04', true),
+  (3, 'Entretien du tracteur', null, null, 'Jean Dupont', 1, 'medium', 'Vidange et graissage', 'FREQ=MONTHLY;BYMONTHDAY=1', '2023-09-01', true);
+
+insert into public.task_templates (id, name, crop, description)
+values
+  (1, 'Cycle banane', 'Banane', 'Itinéraire d''un cycle de bananier, de la plantation à la coupe'),
+  (2, 'Cycle canne à sucre', 'Canne à sucre', 'Suivi d''une canne plantée, de la levée à la préparation de la coupe'),
+  (3, 'Cycle ananas', 'Ananas', 'Conduite d''une plantation d''ananas jusqu''à la récolte');
+
+insert into public.task_template_items (id, template_id, title, offset_days, priority, rule, notes, position, harvest)
+values
+  (1, 1, 'Traitement contre la cercosporiose (Sigatoka)', 30, 'high', 'FREQ=DAILY;INTERVAL=14', 'Selon le seuil de l''avertissement phytosanitaire', 1, false),
+  (2, 1, 'Œilletonnage', 120, 'medium', null, 'Garder un seul rejet successeur', 2, false),
+  (3, 1, 'Gainage du régime', 195, 'medium', null, 'Poser la gaine dès la sortie de l''inflorescence', 3, false),
+  (4, 1, 'Épistillage', 200, 'medium', null, 'Retirer les pistils des mains', 4, false),
+  (5, 1, 'Coupe du régime', 280, 'high', null, null, 5, true),
+  (6, 2, 'Contrôle de la levée', 21, 'low', null, null, 1, false),
+  (7, 2, 'Fertilisation de la canne', 60, 'high', null, null, 2, false),
+  (8, 2, 'Désherbage', 45, 'medium', 'FREQ=MONTHLY;INTERVAL=2;COUNT=3', null, 3, false),
+  (9, 2, 'Préparation coupe canne', 330, 'high', null, null, 4, false),
+  (10, 3, 'Fertilisation foliaire', 60, 'medium', 'FREQ=MONTHLY;INTERVAL=2;COUNT=3', null, 1, false),
+  (11, 3, 'Traitement d''induction florale', 240, 'high', null, null, 2, false),
+  (12, 3, 'Inspection croissance ananas', 270, 'low', null, null, 3, false);
+
+insert into public.tasks
+  (id, crop_cycle_id, parcel_id, title, due_date, completed, priority, assignee, worker_id, harvest)
+values
+  (1, 1, 1, 'Fertilisation de la canne', '2023-09-25', false, 'high', 'Jean Dupont', 1, false),
+  (2, 2, 2, 'Traitement contre la cercosporiose', '2023-09-28', false, 'medium', 'Marie Lambert', 2, false),
+  (3, 3, 3, 'Inspection croissance ananas', '2023-09-30', false, 'low', 'Pierre Lafortune', 3, false),
+  (4, 5, 4, 'Désherbage parcelle madère', '2023-10-05', false, 'medium', 'Sophie Martin', 4, false),
+  (5, 1, 1, 'Préparation coupe canne', '2024-01-10', false, 'high', 'Jean Dupont', 1, false),
+  (6, 3, 3, 'Récolte ananas', '2024-01-15', false, 'high', 'Pierre Lafortune', 3, true);
+
+insert into public.inventory_items
+  (id, name, category, quantity, unit, min_quantity, price, location, valuation_method, last_updated, amm_number, max_dose, pre_harvest_interval)
+values
+  (1, 'Wheat Seeds', 'Seeds', 500, 'kg', 100, 2.7, 'Main Warehouse', 'weighted_average', '2023-08-20', null, null, null),
+  (2, 'NPK Fertilizer', 'Fertilizers', 800, 'kg', 200, 1.2, 'Main Warehouse', 'weighted_average', '2023-08-18', null, null, null),
+  (3, 'Herbicide RoundUp', 'Phytosanitary Products', 50, 'L', 20, 15, 'Secure Storage', 'fifo', '2023-08-15', '2090025', 3, 7),
+  (4, 'Diesel Fuel', 'Fuels', 350, 'L', 100, 1.85, 'External Tank', 'fifo', '2023-08-30', null, null, null),
+  (5, 'Corn Seeds', 'Seeds', 80, 'kg', 100, 4.5, 'Main Warehouse', 'weighted_average', '2023-07-22', null, null, null),
+  (6, 'Motor Oil', 'Lubricants', 25, 'L', 10, 5.2, 'Workshop', 'weighted_average', '2023-08-05', null, null, null),
+  (7, 'Baling Twine', 'Consumables', 15, 'rolls', 5, 25, 'Equipment Warehouse', 'weighted_average', '2023-07-05', null, null, null),
+  (8, 'Tractor John Deere 5075E', 'Equipment', 1, 'unit', 0, 42000, 'Equipment Warehouse', 'weighted_average', '2023-05-02', null, null, null);
+
+-- Ledger: the opening stock is posted as adjustments, and the balances give the item quantities
+insert into public.inventory_transactions
+  (id, item_id, type, quantity, date, unit_cost, location, to_location, parcel_id, crop_cycle_id, treated_area, user_name, notes)
+values
+  (1, 1, 'issue', 50, '2023-08-20', null, 'Main Warehouse', null, 1, null, 12.5, 'Jean Dupont', 'North field sowing'),
+  (2, 2, 'issue', 200, '2023-08-18', null, 'Main Warehouse', null, 2, 2, 8.3, 'Jean Dupont', 'East field application'),
+  (3, 4, 'receipt', 500, '2023-08-18', 1.85, 'External Tank', null, null, null, null, 'Marie Martin', 'Monthly delivery'),
+  (4, 3, 'issue', 5, '2023-08-15', null, 'Secure Storage', null, 3, 3, 4.7, 'Jean Dupont', 'South field application'),
+  (5, 1, 'receipt', 200, '2023-08-10', 2.7, 'Main Warehouse', null, null, null, null, 'Marie Martin', 'Additional purchase'),
+  (6, 6, 'issue', 5, '2023-08-05', null, 'Workshop', null, 1, 1, null, 'Pierre Leroy', 'Tractor oil change'),
+  (7, 1, 'adjustment', 350, '2023-06-01', 2.5, 'Main Warehouse', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (8, 2, 'adjustment', 1000, '2023-06-01', 1.2, 'Main Warehouse', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (9, 3, 'adjustment', 55, '2023-06-01', 15, 'Secure Storage', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (10, 4, 'adjustment', 150, '2023-06-01', 1.8, 'External Tank', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (11, 5, 'adjustment', 80, '2023-06-01', 4.5, 'Main Warehouse', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (12, 6, 'adjustment', 30, '2023-06-01', 5.2, 'Workshop', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (13, 7, 'adjustment', 15, '2023-06-01', 25, 'Equipment Warehouse', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (14, 8, 'adjustment', 1, '2023-06-01', 42000, 'Equipment Warehouse', null, null, null, null, 'Marie Martin', 'Stock initial'),
+  (15, 4, 'issue', 300, '2023-08-30', null, 'External Tank', null, 5, 4, 5.2, 'Jean Dupont', 'Préparation du sol'),
+  (16, 2, 'transfer', 150, '2023-08-25', null, 'Main Warehouse', 'Hangar Marie-Galante', null, null, null, 'Sophie Martin', 'Stock avancé pour la madère');
+
+-- Register entry of the herbicide issued on 2023-08-15
+insert into public.phytosanitary_treatments
+  (id, applied_at, item_id, product_name, amm_number, target, parcel_id, crop_cycle_id, treated_area, dose, dose_unit,
+   max_dose, pre_harvest_interval, worker_id, operator, temperature, wind_speed, humidity, weather, movement_id)
+values
+  (1, '2023-08-15 08:30:00-04', 3, 'Herbicide RoundUp', '2090025', 'Adventices vivaces', 3, 3, 4.7, 1.064, 'L/ha',
+   3, 7, 1, 'Jean Dupont', 26.5, 2.1, 78, 'Ensoleillé', 4);
+
+insert into public.financial_transactions
+  (id, date, description, amount, category, type)
+values
+  (1, '2023-07-05', 'Vente de récolte', 3200, 'Ventes', 'income'),
+  (2, '2023-07-10', 'Achat d''engrais', 850, 'Fournitures', 'expense'),
+  (3, '2023-07-12', 'Facture d''électricité', 320, 'Utilities', 'expense'),
+  (4, '2023-07-15', 'Vente de bananes', 1500, 'Ventes', 'income'),
+  (5, '2023-07-20', 'Réparation tracteur', 750, 'Maintenance', 'expense'),
+  (6, '2023-07-25', 'Subvention agricole', 4200, 'Subventions', 'income'),
+  (7, '2023-07-28', 'Salaires employés', 2800, 'Salaires', 'expense');
+
+insert into public.budgets
+  (id, category, planned, actual, color, year, period)
+values
+  (1, 'Inputs', 25000, 22500, '#4CAF50', 2024, 'annual'),
+  (2, 'Equipment', 30000, 32000, '#2196F3', 2024, 'annual'),
+  (3, 'Labor', 40000, 39000, '#FFC107', 2024, 'annual'),
+  (4, 'Fuel', 12000, 13500, '#F44336', 2024, 'annual'),
+  (5, 'Maintenance', 8000, 7200, '#9C27B0', 2024, 'annual'),
+  (6, 'Services', 15000, 14000, '#00BCD4', 2024, 'annual'),
+  (7, 'Administrative', 10000, 9800, '#FF9800', 2024, 'annual');
+
+insert into public.cultures
+  (id, name, scientific_name, family, origin, growing_season, soil_type, water_needs, fertilization, pests, diseases, notes, type, harvest_period, yield_per_hectare)
+values
+  (1, 'Igname', 'Dioscorea alata', 'Dioscoreaceae', 'Southeast Asia', 'May-December', 'Clay, well-drained', 'Moderate', 'NPK 10-10-20', 'Weevils, mealybugs', 'Anthracnose', 'Important crop in Guadeloupe, several local varieties', 'tubers', '7-9 months', '15-25 tons'),
+  (2, 'Madère', 'Colocasia esculenta', 'Araceae', 'Southeast Asia', 'Year-round', 'Humid, rich in organic matter', 'High', 'NPK 14-14-14', 'Aphids', 'Root rot', 'Grown in humid areas', 'tubers', '9-12 months', '10-15 tons'),
+  (3, 'Christophine', 'Sechium edule', 'Cucurbitaceae', 'Central America', 'Year-round', 'Well-drained, rich', 'Moderate to high', 'NPK 12-12-17', 'Whiteflies, mites', 'Downy mildew', 'Trellised crop', 'vegetables', '2-3 months', '30-40 tons'),
+  (4, 'Canne à Sucre', 'Saccharum officinarum', 'Poaceae', 'New Guinea', 'Year-round', 'Clay, deep', 'High', 'NPK 16-4-16', 'Stem borers, aphids', 'Smut, rust', 'Main economic crop of Guadeloupe', 'cash', '11-13 months', '70-100 tons'),
+  (5, 'Banane', 'Musa paradisiaca', 'Musaceae', 'Southeast Asia', 'Year-round', 'Loamy, deep', 'High', 'NPK 14-4-28', 'Weevil, thrips', 'Cercospora, fusarium', 'Mainly for export', 'fruits', '10-14 months', '30-60 tons'),
+  (6, 'Ananas', 'Ananas comosus', 'Bromeliaceae', 'South America', 'Year-round', 'Acidic, well-drained', 'Low to moderate', 'NPK 12-6-24', 'Mealybugs, symphylids', 'Wilt, heart rot', 'Grown on the volcanic soils of Basse-Terre', 'fruits', '14-18 months', '40-60 tons');
+
+-- One entry per crop cycle, dated by the season it started in
+insert into public.crop_history (id, parcel_id, year, season, crop, yield, notes)
+values
+  (1, 1, 2019, 'careme', 'Canne à Sucre', 78, 'Plantation, 4 repousses'),
+  (2, 1, 2023, 'careme', 'Canne à Sucre', 72, 'Replantation après labour'),
+  (3, 2, 2020, 'careme', 'Ananas', 48, null),
+  (4, 2, 2021, 'hivernage', 'Banane', 42, 'Vitroplants sains'),
+  (5, 2, 2023, 'careme', 'Banane', 35, 'Replantation directe'),
+  (6, 3, 2021, 'careme', 'Igname', 18, null),
+  (7, 3, 2021, 'hivernage', 'Madère', 12, null),
+  (8, 3, 2022, 'hivernage', 'Ananas', 52, null),
+  (9, 4, 2021, 'hivernage', 'Igname', 16, null),
+  (10, 4, 2022, 'hivernage', 'Christophine', 32, null),
+  (11, 4, 2023, 'careme', 'Madère', 11, 'Été sec'),
+  (12, 5, 2022, 'careme', 'Igname', 21, null),
+  (13, 5, 2023, 'hivernage', 'Igname', null, 'Prévue');
+
+insert into public.rotation_rules (id, name, kind, subject, follows, min_interval, severity, message)
+values
+  (1, 'Même famille sur deux cycles consécutifs', 'consecutive_family', null, null, null, 'warning',
+    'Alterner les familles limite les ravageurs et maladies spécialisés'),
+  (2, 'Retour de l''igname', 'return_interval', 'Igname', null, 3, 'warning',
+    'Anthracnose et nématodes de l''igname : attendre 3 ans avant de la replanter'),
+  (3, 'Banane après banane', 'forbidden_sequence', 'Banane', 'Banane', null, 'error',
+    'Risque nématodes (Radopholus similis) : jachère ou culture assainissante avant de replanter'),
+  (4, 'Retour des Araceae', 'return_interval', 'Araceae', null, 2, 'warning',
+    'Pourriture des racines : espacer les cultures de madère et dachine');
+
+insert into public.yield_predictions
+  (id, parcel_id, crop_cycle_id, crop, provider, fallback_from, method, model_version, inputs, area,
+   yield_per_hectare, yield_lower, yield_upper, interval_level, confidence_level, predicted_at)
+values
+  (1, 2, 2, 'Banane', 'local', null, 'ridge-log-yield', 1,
+    '{"cropType":"Banane","soilType":"Andosol","humidity":80,"moisture":60,"temperature":26,"rainfall":250,"area":8.3}', 8.3,
+    31.2, 22.4, 43.5, 0.9, 72, '2023-09-05 10:00:00+00'),
+  (2, 4, 5, 'Madère', 'heuristic', null, 'rule-based', 1,
+    '{"cropType":"Madère","soilType":"Vertisol","humidity":75,"moisture":45,"temperature":27,"rainfall":110,"area":3.8}', 3.8,
+    22.5, 15, 30, 0.9, 55, '2023-08-20 09:30:00+00');
+
+insert into public.harvests (id, crop_cycle_id, parcel_id, crop, harvest_date, area, quantity, quality, prediction_id, notes)
+values
+  (1, 2, 2, 'Banana', '2023-12-12', 8.3, 286, 'Excellent', 1, null),
+  (2, 5, 4, 'Madeira', '2023-11-03', 3.8, 47, 'Average', 2, 'Été sec');
+
+-- Le Raizet is the synoptic station of the airport; the two others stand for stations of
+-- the farm's own network, coded freely.
+insert into public.weather_stations (id, code, name, latitude, longitude, elevation, region)
+values
+  (1, '78897', 'Le Raizet', 16.2631, -61.5131, 11, 'Grande-Terre'),
+  (2, 'BT-GOURBEYRE', 'Gourbeyre', 15.9950, -61.6900, 200, 'Basse-Terre'),
+  (3, 'MG-GRAND-BOURG', 'Grand-Bourg', 15.8830, -61.3140, 20, 'Marie-Galante');
+
+-- Morning and afternoon readings over the year to March 2024, the month before the
+-- season's predictions. `wet_days` is the number of rainy days in every ten; the wet
+-- season (hivernage) adds rainy days and heavier showers from July to November.
+insert into public.weather_observations (station_id, region, observed_at, temperature, humidity, rainfall, source)
+select
+  r.station_id,
+  r.region,
+  d + make_interval(hours => h.hour),
+  round((r.temperature + 1.2 * sin(extract(day from d) / 3.0) + h.shift)::numeric, 1),
+  least(100, round((r.humidity + 6 * sin(extract(day from d) / 2.5) - 2 * h.shift)::numeric)),
+  case
+    when h.hour = 14 and mod(extract(day from d)::int * 7, 10) < r.wet_days + s.wet_days
+      then round((r.rain * s.intensity * (1 + mod(extract(day from d)::int, 3)) / 2.0)::numeric, 1)
+    else 0
+  end,
+  'csv'
+from (values
+  (2, 'Basse-Terre', 25.5, 84, 7, 8),
+  (1, 'Grande-Terre', 27.2, 76, 2, 6),
+  (3, 'Marie-Galante', 27.0, 75, 2, 4)
+) as r(station_id, region, temperature, humidity, wet_days, rain)
+cross join generate_series('2023-04-01'::timestamptz, '2024-03-31'::timestamptz, interval '1 day') as d
+cross join (values (6, -3.5), (14, 3.5)) as h(hour, shift)
+join (values
+  (1, 0, 1.0), (2, -1, 0.9), (3, 0, 1.0), (4, 0, 1.0), (5, 1, 1.2), (6, 1, 1.2),
+  (7, 2, 1.5), (8, 2, 1.7), (9, 3, 1.9), (10, 3, 2.0), (11, 2, 1.8), (12, 1, 1.3)
+) as s(month, wet_days, intensity) on s.month = extract(month from d);
+
+-- Daily aggregates as the import computes them, over local (UTC−4) days
+insert into public.weather_daily (station_id, date, t_mean, t_min, t_max, humidity, rain, observations, wind_max)
+select
+  station_id,
+  (observed_at at time zone 'America/Guadeloupe')::date,
+  round(avg(temperature), 1),
+  min(temperature),
+  max(temperature),
+  round(avg(humidity), 1),
+  round(sum(coalesce(rainfall, 0)), 1),
+  count(*),
+  max(wind_speed)
+from public.weather_observations
+where station_id is not null
+group by 1, 2;
+
+-- Alert rules; the alerts themselves are raised by the engine from the daily aggregates
+insert into public.weather_alert_rules
+  (id, name, type, region, metric, aggregation, window_days, comparison, threshold, severity, impact_crops,
+   recommendation, expiry_hours)
+values
+  (1, 'Flood risk Basse-Terre', 'Flood', 'Basse-Terre', 'rain', 'sum', 1, 'above', 80, 'High', 'Severe',
+    'Clear drains and ditches, move equipment out of low-lying plots and monitor fungal diseases.', 48),
+  (2, 'Heavy rain', 'Heavy Rain', null, 'rain', 'sum', 1, 'above', 50, 'Medium', 'Moderate',
+    'Check field drainage and protect young plants. Temporarily suspend irrigation.', 24),
+  (3, 'Dry spell', 'Drought', null, 'rain', 'sum', 30, 'below', 40, 'Medium', 'Moderate',
+    'Prioritize irrigation for sensitive crops. Use mulching to conserve soil moisture.', 72),
+  (4, 'Heat wave', 'Excessive Heat', null, 't_max', 'min', 3, 'above', 33, 'Medium', 'Moderate',
+    'Shade sensitive crops. Irrigate early morning or late evening.', 48),
+  (5, 'Storm-force wind', 'Tropical Storm', null, 'wind_max', 'max', 1, 'above', 17, 'Extreme', 'Severe',
+    'Harvest mature crops preventively. Reinforce banana plant supports. Secure agricultural equipment.', 24);
+
+-- Cyclone checklist: each line becomes a task for every matching parcel (by crop) or
+-- stock item (by category) when a tropical storm alert is raised
+insert into public.preparedness_items (id, scope, title, applies_to, priority, position)
+values
+  (1, 'parcel', 'Étayer les bananiers', 'Banane', 'high', 1),
+  (2, 'parcel', 'Récolter les régimes proches de maturité', 'Banane', 'medium', 2),
+  (3, 'parcel', 'Curer fossés et drains', null, 'high', 3),
+  (4, 'parcel', 'Suspendre l''irrigation et démonter les asperseurs', null, 'medium', 4),
+  (5, 'asset', 'Mettre à l''abri et arrimer', 'Equipment', 'high', 5),
+  (6, 'asset', 'Monter les produits phytosanitaires en local fermé, hors d''eau', 'Phytosanitary Products', 'high', 6),
+  (7, 'asset', 'Fermer et sangler les cuves', 'Fuels', 'high', 7),
+  (8, 'asset', 'Surélever les sacs et palettes', 'Fertilizers', 'medium', 8),
+  (9, 'asset', 'Surélever les sacs et palettes', 'Seeds', 'medium', 9);
+
+-- Explicit ids above bypass the identity sequences; move them past the seed rows.
+select setval(pg_get_serial_sequence('public.parcels', 'id'), (select max(id) from public.parcels));
+select setval(pg_get_serial_sequence('public.crop_cycles', 'id'), (select max(id) from public.crop_cycles));
+select setval(pg_get_serial_sequence('public.teams', 'id'), (select max(id) from public.teams));
+select setval(pg_get_serial_sequence('public.workers', 'id'), (select max(id) from public.workers));
+select setval(pg_get_serial_sequence('public.task_recurrences', 'id'), (select max(id) from public.task_recurrences));
+select setval(pg_get_serial_sequence('public.task_templates', 'id'), (select max(id) from public.task_templates));
+select setval(pg_get_serial_sequence('public.task_template_items', 'id'), (select max(id) from public.task_template_items));
+select setval(pg_get_serial_sequence('public.tasks', 'id'), (select max(id) from public.tasks));
+select setval(pg_get_serial_sequence('public.inventory_items', 'id'), (select max(id) from public.inventory_items));
+select setval(pg_get_serial_sequence('public.inventory_transactions', 'id'), (select max(id) from public.inventory_transactions));
+select setval(pg_get_serial_sequence('public.phytosanitary_treatments', 'id'), (select max(id) from public.phytosanitary_treatments));
+select setval(pg_get_serial_sequence('public.financial_transactions', 'id'), (select max(id) from public.financial_transactions));
+select setval(pg_get_serial_sequence('public.budgets', 'id'), (select max(id) from public.budgets));
+select setval(pg_get_serial_sequence('public.irrigation_lines', 'id'), (select max(id) from public.irrigation_lines));
+select setval(pg_get_serial_sequence('public.irrigation_events', 'id'), (select max(id) from public.irrigation_events));
+select setval(pg_get_serial_sequence('public.cultures', 'id'), (select max(id) from public.cultures));
+select setval(pg_get_serial_sequence('public.crop_history', 'id'), (select max(id) from public.crop_history));
+select setval(pg_get_serial_sequence('public.rotation_rules', 'id'), (select max(id) from public.rotation_rules));
+select setval(pg_get_serial_sequence('public.yield_predictions', 'id'), (select max(id) from public.yield_predictions));
+select setval(pg_get_serial_sequence('public.harvests', 'id'), (select max(id) from public.harvests));
+select setval(pg_get_serial_sequence('public.weather_stations', 'id'), (select max(id) from public.weather_stations));
+select setval(pg_get_serial_sequence('public.weather_observations', 'id'), (select max(id) from public.weather_observations));
+select setval(pg_get_serial_sequence('public.weather_alert_rules', 'id'), (select max(id) from public.weather_alert_rules));
+select setval(pg_get_serial_sequence('public.preparedness_items', 'id'), (select max(id) from public.preparedness_items));
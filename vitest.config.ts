@@ -0,0 +1,17 @@
+import { defineConfig, mergeConfig } from "vitest/config";
+import viteConfig from "./vite.config";
+
+export default defineConfig((env) =>
+  mergeConfig(viteConfig(env), {
+    resolve: {
+      alias: {
+        // The edge functions import zod from deno.land; under Node the npm package is the same release
+        "https://deno.land/x/zod@v3.23.8/mod.ts": "zod",
+      },
+    },
+    test: {
+      include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+      restoreMocks: true,
+    },
+  })
+);